@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { supabaseAdmin } from '@/lib/supabase/admin';
+import { requireTemplateAccess } from '@/lib/auth';
+import { parseTemplateInput } from '@/lib/artifact-templates';
+
+const UNIQUE_VIOLATION = '23505';
+
+// GET /api/artifact-templates/[id] - Fetch a single template
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const access = await requireTemplateAccess(id);
+  if (!access.ok) return access.response;
+
+  return NextResponse.json(access.template);
+}
+
+// PATCH /api/artifact-templates/[id] - Update any of name, description, prompt, output_schema, layout
+// Artifacts already generated keep the schema + layout snapshot they were made with.
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const access = await requireTemplateAccess(id);
+  if (!access.ok) return access.response;
+
+  const parsed = parseTemplateInput(await request.json(), access.template);
+  if (!parsed.ok) {
+    return NextResponse.json({ error: 'Invalid template', details: parsed.errors }, { status: 400 });
+  }
+
+  const { data, error } = await supabaseAdmin
+    .from('artifact_templates')
+    .update(parsed.value)
+    .eq('id', id)
+    .select()
+    .single();
+
+  if (error) {
+    if (error.code === UNIQUE_VIOLATION) {
+      return NextResponse.json(
+        { error: `A template named "${parsed.value.name}" already exists in this workspace` },
+        { status: 409 }
+      );
+    }
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+
+  return NextResponse.json(data);
+}
+
+// DELETE /api/artifact-templates/[id] - Delete a template (generated artifacts are kept)
+export async function DELETE(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const access = await requireTemplateAccess(id);
+  if (!access.ok) return access.response;
+
+  const { error } = await supabaseAdmin.from('artifact_templates').delete().eq('id', id);
+
+  if (error) {
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+
+  return NextResponse.json({ success: true });
+}
@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { supabaseAdmin } from '@/lib/supabase/admin';
+import { requireUser, workspaceFilter } from '@/lib/auth';
+import { parseTemplateInput } from '@/lib/artifact-templates';
+
+const UNIQUE_VIOLATION = '23505';
+
+// GET /api/artifact-templates - List templates in the current user's workspace
+export async function GET() {
+  const auth = await requireUser();
+  if (!auth.ok) return auth.response;
+
+  const { data, error } = await supabaseAdmin
+    .from('artifact_templates')
+    .select('*, users:created_by (display_name)')
+    .or(workspaceFilter(auth.user))
+    .order('name', { ascending: true });
+
+  if (error) {
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+
+  return NextResponse.json({ templates: data });
+}
+
+// POST /api/artifact-templates - Create a template shared with the workspace
+// Body: { name, description?, prompt, output_schema, layout? }
+export async function POST(request: NextRequest) {
+  const auth = await requireUser();
+  if (!auth.ok) return auth.response;
+
+  const parsed = parseTemplateInput(await request.json());
+  if (!parsed.ok) {
+    return NextResponse.json({ error: 'Invalid template', details: parsed.errors }, { status: 400 });
+  }
+
+  const { data, error } = await supabaseAdmin
+    .from('artifact_templates')
+    .insert({
+      ...parsed.value,
+      workspace_uid: auth.user.organization_uid,
+      created_by: auth.user.id,
+    })
+    .select()
+    .single();
+
+  if (error) {
+    if (error.code === UNIQUE_VIOLATION) {
+      return NextResponse.json(
+        { error: `A template named "${parsed.value.name}" already exists in this workspace` },
+        { status: 409 }
+      );
+    }
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+
+  return NextResponse.json(data, { status: 201 });
+}
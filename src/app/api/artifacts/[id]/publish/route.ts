@@ -0,0 +1,229 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { supabaseAdmin } from '@/lib/supabase/admin';
+import { requireArtifactAccess } from '@/lib/auth';
+import { getSession } from '@/lib/contentstack/oauth';
+import {
+  CSApiError,
+  createEntry,
+  entryAppUrl,
+  getContentTypeSchema,
+  listEnvironments,
+  publishEntry,
+  updateEntry,
+  type CSEntry,
+} from '@/lib/contentstack/api';
+import { buildEntry, suggestFieldMappings } from '@/lib/contentstack/entry-mapping';
+import { prepareEntryForPublish } from '@/lib/contentstack/schema-output';
+import type { ArtifactSchemaSource } from '@/lib/artifact-generation';
+import type { ArtifactContentstackLink, GeneratedArtifact } from '@/lib/types';
+
+async function loadCmsArtifact(id: string) {
+  const { data } = await supabaseAdmin
+    .from('generated_artifacts')
+    .select('*')
+    .eq('id', id)
+    .single();
+  return data as GeneratedArtifact | null;
+}
+
+/** True when the artifact was generated against this exact content type, so its fields need no mapping. */
+function matchesSchema(artifact: GeneratedArtifact, apiKey: string, ctUid: string): boolean {
+  const source = artifact.metadata?.schema as ArtifactSchemaSource | undefined;
+  return source?.stack_api_key === apiKey && source?.content_type_uid === ctUid;
+}
+
+// GET /api/artifacts/[id]/publish?stack_api_key=...&content_type_uid=...
+// Preview: suggested field mappings for the content type + the stack's environments
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const access = await requireArtifactAccess(id);
+  if (!access.ok) return access.response;
+
+  const session = await getSession();
+  if (!session) {
+    return NextResponse.json({ error: 'Not authenticated with Contentstack' }, { status: 401 });
+  }
+
+  const apiKey = request.nextUrl.searchParams.get('stack_api_key');
+  const ctUid = request.nextUrl.searchParams.get('content_type_uid');
+  if (!apiKey || !ctUid) {
+    return NextResponse.json(
+      { error: 'stack_api_key and content_type_uid are required' },
+      { status: 400 }
+    );
+  }
+
+  const artifact = await loadCmsArtifact(id);
+  if (!artifact) {
+    return NextResponse.json({ error: 'Artifact not found' }, { status: 404 });
+  }
+
+  try {
+    const [contentType, environments] = await Promise.all([
+      getContentTypeSchema(session.access_token, apiKey, ctUid),
+      listEnvironments(session.access_token, apiKey),
+    ]);
+
+    const schemaMatch = matchesSchema(artifact, apiKey, ctUid);
+    return NextResponse.json({
+      mappings: schemaMatch
+        ? []
+        : suggestFieldMappings(contentType.schema, artifact.content as Record<string, unknown>),
+      schema_match: schemaMatch,
+      environments,
+    });
+  } catch (err) {
+    console.error('[artifacts/publish] Preview error:', err);
+    const message = err instanceof Error ? err.message : 'Unknown error';
+    const status = err instanceof CSApiError && err.status === 403 ? 403 : 500;
+    return NextResponse.json({ error: message }, { status });
+  }
+}
+
+// POST /api/artifacts/[id]/publish - Create or update the artifact as a Contentstack entry
+// Body: { stack_api_key, stack_name?, content_type_uid, locale?, mappings?, environments? }
+// The entry is saved as a draft; it is published only when environments are given.
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const access = await requireArtifactAccess(id, 'editor');
+  if (!access.ok) return access.response;
+
+  const session = await getSession();
+  if (!session) {
+    return NextResponse.json({ error: 'Not authenticated with Contentstack' }, { status: 401 });
+  }
+
+  const {
+    stack_api_key,
+    stack_name,
+    content_type_uid,
+    locale = 'en-us',
+    mappings,
+    environments = [],
+  } = await request.json();
+
+  if (!stack_api_key || !content_type_uid) {
+    return NextResponse.json(
+      { error: 'stack_api_key and content_type_uid are required' },
+      { status: 400 }
+    );
+  }
+  if (!Array.isArray(environments)) {
+    return NextResponse.json({ error: 'environments must be an array' }, { status: 400 });
+  }
+
+  const artifact = await loadCmsArtifact(id);
+  if (!artifact) {
+    return NextResponse.json({ error: 'Artifact not found' }, { status: 404 });
+  }
+  if (artifact.type !== 'cms_entry') {
+    return NextResponse.json(
+      { error: 'Only cms_entry artifacts can be published to Contentstack' },
+      { status: 400 }
+    );
+  }
+
+  const token = session.access_token;
+  const content = artifact.content as Record<string, unknown>;
+
+  try {
+    const contentType = await getContentTypeSchema(token, stack_api_key, content_type_uid);
+
+    let entryData: Record<string, unknown>;
+
+    if (matchesSchema(artifact, stack_api_key, content_type_uid)) {
+      entryData = prepareEntryForPublish(
+        (content.fields as Record<string, unknown>) || {},
+        contentType.schema
+      );
+    } else {
+      // Fall back to the suggested mapping for anything the caller didn't specify
+      const suggested = suggestFieldMappings(contentType.schema, content);
+      const fieldMap: Record<string, string | null> = Object.fromEntries(
+        suggested.map((m) => [m.path, m.source])
+      );
+      if (mappings && typeof mappings === 'object') Object.assign(fieldMap, mappings);
+
+      const missing = suggested
+        .filter((m) => m.mandatory && !fieldMap[m.path])
+        .map((m) => m.display_name);
+      if (missing.length > 0) {
+        return NextResponse.json(
+          { error: `Required fields are not mapped: ${missing.join(', ')}` },
+          { status: 400 }
+        );
+      }
+
+      entryData = buildEntry(contentType.schema, content, fieldMap);
+    }
+
+    if (!entryData.title) entryData.title = artifact.title;
+
+    // Update the entry this artifact was pushed to before, if it's the same target
+    const previous = (artifact.metadata?.contentstack ?? null) as ArtifactContentstackLink | null;
+    const sameTarget =
+      previous?.stack_api_key === stack_api_key &&
+      previous?.content_type_uid === content_type_uid &&
+      previous?.locale === locale;
+
+    let entry: CSEntry;
+    if (sameTarget && previous) {
+      try {
+        entry = await updateEntry(token, stack_api_key, content_type_uid, previous.entry_uid, entryData, locale);
+      } catch (err) {
+        // Deleted in Contentstack since the last push — create a fresh one
+        if (!(err instanceof CSApiError && err.status === 404)) throw err;
+        entry = await createEntry(token, stack_api_key, content_type_uid, entryData, locale);
+      }
+    } else {
+      entry = await createEntry(token, stack_api_key, content_type_uid, entryData, locale);
+    }
+
+    if (environments.length > 0) {
+      await publishEntry(token, stack_api_key, content_type_uid, entry.uid, environments, locale);
+    }
+
+    const now = new Date().toISOString();
+    const link: ArtifactContentstackLink = {
+      stack_api_key,
+      stack_name: stack_name ?? null,
+      content_type_uid,
+      locale,
+      entry_uid: entry.uid,
+      entry_url: entryAppUrl(stack_api_key, content_type_uid, entry.uid, locale),
+      url: typeof entry.url === 'string' ? entry.url : null,
+      version: typeof entry._version === 'number' ? entry._version : null,
+      artifact_version: artifact.current_version,
+      environments,
+      synced_at: now,
+      published_at: environments.length > 0 ? now : previous && sameTarget ? previous.published_at : null,
+    };
+
+    const { data, error } = await supabaseAdmin
+      .from('generated_artifacts')
+      .update({
+        metadata: { ...artifact.metadata, contentstack: link },
+        ...(environments.length > 0 ? { status: 'published' } : {}),
+      })
+      .eq('id', id)
+      .select()
+      .single();
+
+    if (error) {
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+
+    return NextResponse.json({ artifact: data, contentstack: link });
+  } catch (err) {
+    console.error('[artifacts/publish] Error:', err);
+    const message = err instanceof Error ? err.message : 'Unknown error';
+    const status = err instanceof CSApiError && err.status < 500 ? 422 : 500;
+    return NextResponse.json({ error: message }, { status });
+  }
+}
@@ -0,0 +1,112 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { runSparkAgentSync } from '@/lib/agent/agent';
+import { supabaseAdmin } from '@/lib/supabase/admin';
+import { requireArtifactAccess } from '@/lib/auth';
+import { deriveArtifactTitle, parseAgentJson, saveArtifactVersion } from '@/lib/artifact-versions';
+import { getArtifactField, setArtifactField } from '@/lib/artifact-fields';
+import { validateArtifactUpdate } from '@/lib/artifact-schemas';
+import type { GeneratedArtifact } from '@/lib/types';
+
+function describeShape(value: unknown): string {
+  if (Array.isArray(value)) return 'a JSON array of strings';
+  if (typeof value === 'number') return 'a number';
+  if (typeof value === 'object' && value !== null) return 'a JSON object with the same keys';
+  return 'a string';
+}
+
+// POST /api/artifacts/[id]/regenerate-section - Regenerate one field of an artifact
+// Body: { field, instructions? }. The rest of the artifact is left untouched.
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const access = await requireArtifactAccess(id, 'editor');
+  if (!access.ok) return access.response;
+
+  const { field, instructions } = await request.json();
+
+  if (!field || typeof field !== 'string') {
+    return NextResponse.json({ error: 'field is required' }, { status: 400 });
+  }
+
+  const { data, error: loadError } = await supabaseAdmin
+    .from('generated_artifacts')
+    .select('*')
+    .eq('id', id)
+    .single();
+
+  if (loadError || !data) {
+    return NextResponse.json({ error: 'Artifact not found' }, { status: 404 });
+  }
+
+  const artifact = data as GeneratedArtifact;
+  const content = artifact.content as Record<string, unknown>;
+  const currentValue = getArtifactField(content, field);
+
+  if (currentValue === undefined) {
+    return NextResponse.json({ error: `Field "${field}" does not exist on this artifact` }, { status: 400 });
+  }
+
+  try {
+    let prompt = `You are revising one section of an existing ${artifact.type.replace('_', ' ')} generated from this Spark.
+
+First, use the list_spark_items tool to get all items in the Spark.
+
+Here is the full artifact for context:
+\`\`\`json
+${JSON.stringify(content, null, 2)}
+\`\`\`
+
+Rewrite ONLY the field at path "${field}". Its current value is:
+\`\`\`json
+${JSON.stringify(currentValue, null, 2)}
+\`\`\`
+
+Keep it consistent with the rest of the artifact and base it on the actual information in the Spark items.
+
+Return your response as a JSON object with this exact structure, where the value is ${describeShape(currentValue)}:
+{
+  "value": <the new value for "${field}">
+}`;
+    if (instructions) {
+      prompt += `\n\nAdditional instructions from the user: ${instructions}`;
+    }
+
+    const response = await runSparkAgentSync(artifact.spark_id, prompt);
+    const parsed = parseAgentJson(response);
+
+    if (!parsed || !('value' in parsed)) {
+      return NextResponse.json(
+        { error: 'Could not parse the regenerated section from the model response' },
+        { status: 502 }
+      );
+    }
+
+    let nextContent = setArtifactField(content, field, parsed.value);
+    const validation = validateArtifactUpdate(artifact, nextContent);
+    if (!validation.ok) {
+      return NextResponse.json(
+        { error: 'The regenerated section does not match the artifact schema', details: validation.errors },
+        { status: 502 }
+      );
+    }
+    nextContent = validation.value;
+    const result = await saveArtifactVersion(id, {
+      title: deriveArtifactTitle(artifact.type, nextContent, artifact.title),
+      content: nextContent,
+      source: 'regenerate_section',
+      field,
+      userId: access.user.id,
+    });
+
+    if ('error' in result) {
+      return NextResponse.json({ error: result.error }, { status: 500 });
+    }
+
+    return NextResponse.json(result);
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return NextResponse.json({ error: errorMessage }, { status: 500 });
+  }
+}
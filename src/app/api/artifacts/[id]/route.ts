@@ -0,0 +1,125 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { supabaseAdmin } from '@/lib/supabase/admin';
+import { requireArtifactAccess } from '@/lib/auth';
+import { deriveArtifactTitle, saveArtifactVersion } from '@/lib/artifact-versions';
+import { setArtifactField } from '@/lib/artifact-fields';
+import { validateArtifactUpdate } from '@/lib/artifact-schemas';
+import type { ArtifactStatus, GeneratedArtifact } from '@/lib/types';
+
+const VALID_STATUSES: ArtifactStatus[] = ['draft', 'published', 'archived'];
+
+// GET /api/artifacts/[id] - Fetch a single artifact
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const access = await requireArtifactAccess(id);
+  if (!access.ok) return access.response;
+
+  const { data, error } = await supabaseAdmin
+    .from('generated_artifacts')
+    .select('*')
+    .eq('id', id)
+    .single();
+
+  if (error) {
+    return NextResponse.json({ error: error.message }, { status: 404 });
+  }
+
+  return NextResponse.json(data);
+}
+
+// PATCH /api/artifacts/[id] - Edit an artifact
+// Body: { field, value } to edit one field, or { content } to replace it all;
+// optionally { title } and { status }. Content/title changes create a new version.
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const access = await requireArtifactAccess(id, 'editor');
+  if (!access.ok) return access.response;
+
+  const { field, value, content, title, status } = await request.json();
+
+  if (status !== undefined && !VALID_STATUSES.includes(status)) {
+    return NextResponse.json(
+      { error: `Invalid status. Must be one of: ${VALID_STATUSES.join(', ')}` },
+      { status: 400 }
+    );
+  }
+  if (field !== undefined && (typeof field !== 'string' || !field.trim())) {
+    return NextResponse.json({ error: 'field must be a non-empty string' }, { status: 400 });
+  }
+  if (content !== undefined && (typeof content !== 'object' || content === null || Array.isArray(content))) {
+    return NextResponse.json({ error: 'content must be an object' }, { status: 400 });
+  }
+
+  const { data: current, error: loadError } = await supabaseAdmin
+    .from('generated_artifacts')
+    .select('*')
+    .eq('id', id)
+    .single();
+
+  if (loadError || !current) {
+    return NextResponse.json({ error: 'Artifact not found' }, { status: 404 });
+  }
+
+  let artifact = current as GeneratedArtifact;
+
+  if (field !== undefined || content !== undefined || title !== undefined) {
+    let nextContent = (content ?? artifact.content) as Record<string, unknown>;
+    if (field !== undefined) {
+      nextContent = setArtifactField(nextContent, field, value);
+    }
+    const validation = validateArtifactUpdate(artifact, nextContent);
+    if (!validation.ok) {
+      return NextResponse.json(
+        { error: 'Content does not match the artifact schema', details: validation.errors },
+        { status: 422 }
+      );
+    }
+    nextContent = validation.value;
+    const nextTitle =
+      typeof title === 'string' && title.trim()
+        ? title.trim()
+        : field !== undefined || content !== undefined
+          ? deriveArtifactTitle(artifact.type, nextContent, artifact.title)
+          : artifact.title;
+
+    const unchanged =
+      nextTitle === artifact.title &&
+      JSON.stringify(nextContent) === JSON.stringify(artifact.content);
+
+    if (!unchanged) {
+      const result = await saveArtifactVersion(id, {
+        title: nextTitle,
+        content: nextContent,
+        source: 'edit',
+        field: field ?? null,
+        userId: access.user.id,
+      });
+      if ('error' in result) {
+        return NextResponse.json({ error: result.error }, { status: 500 });
+      }
+      artifact = result.artifact;
+    }
+  }
+
+  if (status !== undefined && status !== artifact.status) {
+    const { data, error } = await supabaseAdmin
+      .from('generated_artifacts')
+      .update({ status })
+      .eq('id', id)
+      .select()
+      .single();
+
+    if (error) {
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+    artifact = data as GeneratedArtifact;
+  }
+
+  return NextResponse.json(artifact);
+}
@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { supabaseAdmin } from '@/lib/supabase/admin';
+import { requireArtifactAccess } from '@/lib/auth';
+import { saveArtifactVersion } from '@/lib/artifact-versions';
+
+// POST /api/artifacts/[id]/versions/[versionId]/restore - Make an older version current
+// Restoring appends a new version with the old content, so history is never rewritten.
+export async function POST(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string; versionId: string }> }
+) {
+  const { id, versionId } = await params;
+  const access = await requireArtifactAccess(id, 'editor');
+  if (!access.ok) return access.response;
+
+  const { data: version } = await supabaseAdmin
+    .from('artifact_versions')
+    .select('version_number, title, content')
+    .eq('id', versionId)
+    .eq('artifact_id', id)
+    .maybeSingle();
+
+  if (!version) {
+    return NextResponse.json({ error: 'Version not found' }, { status: 404 });
+  }
+
+  const result = await saveArtifactVersion(id, {
+    title: version.title as string,
+    content: version.content as Record<string, unknown>,
+    source: 'restore',
+    restoredFrom: version.version_number as number,
+    userId: access.user.id,
+  });
+
+  if ('error' in result) {
+    return NextResponse.json({ error: result.error }, { status: 500 });
+  }
+
+  return NextResponse.json(result);
+}
@@ -0,0 +1,25 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { supabaseAdmin } from '@/lib/supabase/admin';
+import { requireArtifactAccess } from '@/lib/auth';
+
+// GET /api/artifacts/[id]/versions - Version history, newest first
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const access = await requireArtifactAccess(id);
+  if (!access.ok) return access.response;
+
+  const { data, error } = await supabaseAdmin
+    .from('artifact_versions')
+    .select('*, users:created_by (display_name)')
+    .eq('artifact_id', id)
+    .order('version_number', { ascending: false });
+
+  if (error) {
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+
+  return NextResponse.json({ versions: data || [] });
+}
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { exchangeCodeForTokens, fetchUserInfo, storeSession } from '@/lib/contentstack/oauth';
+import { upsertUser } from '@/lib/auth';
 
 // GET /api/auth/contentstack/callback — OAuth callback
 export async function GET(request: NextRequest) {
@@ -38,12 +39,13 @@ export async function GET(request: NextRequest) {
     console.log('[contentstack/callback] Token exchange succeeded, fetching user info...');
     const userInfo = await fetchUserInfo(tokens.access_token);
     console.log('[contentstack/callback] User info fetched:', userInfo.email);
+    const userId = await upsertUser(userInfo);
 
     await storeSession(
       tokens.access_token,
       tokens.refresh_token,
       tokens.expires_in,
-      userInfo
+      { ...userInfo, user_id: userId }
     );
     console.log('[contentstack/callback] Session stored');
 
@@ -8,6 +8,7 @@ export async function GET() {
   if (session) {
     return NextResponse.json({
       authenticated: true,
+      user_id: session.user_id,
       email: session.email,
       display_name: session.display_name,
       organization_uid: session.organization_uid,
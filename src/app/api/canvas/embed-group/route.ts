@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { supabaseAdmin } from '@/lib/supabase/admin';
-import { generateEmbeddings, generateEmbedding, buildItemText, getImageUrl } from '@/lib/embeddings';
+import { requireSparkAccess } from '@/lib/auth';
+import { generateEmbeddings, generateEmbedding, buildItemText, getImageUrl, saveEmbedding } from '@/lib/embeddings';
 
 export async function POST(request: NextRequest) {
   try {
@@ -10,6 +11,9 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'spark_id and item_ids required' }, { status: 400 });
     }
 
+    const access = await requireSparkAccess(spark_id, 'editor');
+    if (!access.ok) return access.response;
+
     // Fetch items
     const { data: items, error } = await supabaseAdmin
       .from('spark_items')
@@ -37,10 +41,7 @@ export async function POST(request: NextRequest) {
       // Update each item with its embedding
       for (let i = 0; i < needsEmbedding.length; i++) {
         if (embeddings[i]) {
-          await supabaseAdmin
-            .from('spark_items')
-            .update({ embedding: JSON.stringify(embeddings[i]) })
-            .eq('id', needsEmbedding[i].id);
+          await saveEmbedding('spark_items', needsEmbedding[i].id, embeddings[i]!);
           embeddedCount++;
         }
       }
@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireChatSessionAccess } from '@/lib/auth';
+import {
+  describeBranch,
+  embedChatSession,
+  loadSessionMessages,
+  newestLeaf,
+  setActiveMessage,
+} from '@/lib/chat-sessions';
+
+// POST /api/chat/sessions/[id]/branch — Switch to the branch through a message
+// Lands on the newest reply under that message and returns the new active branch.
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const access = await requireChatSessionAccess(id, 'editor');
+  if (!access.ok) return access.response;
+
+  const { message_id } = await request.json();
+  if (!message_id || typeof message_id !== 'string') {
+    return NextResponse.json(
+      { error: 'message_id is required' },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const messages = await loadSessionMessages(id);
+    if (!messages.some((m) => m.id === message_id)) {
+      return NextResponse.json(
+        { error: 'Message not found in this session' },
+        { status: 404 }
+      );
+    }
+
+    const leafId = newestLeaf(messages, message_id);
+    await setActiveMessage(id, leafId);
+
+    // The session embedding follows the active branch
+    await embedChatSession(id).catch(() => {
+      // Embedding is best-effort
+    });
+
+    return NextResponse.json({
+      active_message_id: leafId,
+      messages: describeBranch(messages, leafId),
+    });
+  } catch (error) {
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to switch branch' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,20 +1,20 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { supabaseAdmin } from '@/lib/supabase/admin';
+import { requireChatSessionAccess } from '@/lib/auth';
+import { describeBranch, loadSessionMessages } from '@/lib/chat-sessions';
 
-// GET /api/chat/sessions/[id] — Get session with all messages
+// GET /api/chat/sessions/[id] — Get session with the messages on its active branch
 export async function GET(
   _request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
   const { id } = await params;
+  const access = await requireChatSessionAccess(id);
+  if (!access.ok) return access.response;
 
-  const [sessionResult, messagesResult] = await Promise.all([
+  const [sessionResult, messages] = await Promise.all([
     supabaseAdmin.from('chat_sessions').select('*').eq('id', id).single(),
-    supabaseAdmin
-      .from('chat_messages')
-      .select('id, role, content, created_at')
-      .eq('session_id', id)
-      .order('created_at', { ascending: true }),
+    loadSessionMessages(id).catch(() => []),
   ]);
 
   if (sessionResult.error) {
@@ -24,9 +24,12 @@ export async function GET(
     );
   }
 
+  // Sessions without an active leaf show the newest message's branch
+  const leafId = sessionResult.data.active_message_id || messages[messages.length - 1]?.id || null;
+
   return NextResponse.json({
     session: sessionResult.data,
-    messages: messagesResult.data || [],
+    messages: describeBranch(messages, leafId),
   });
 }
 
@@ -36,6 +39,8 @@ export async function PATCH(
   { params }: { params: Promise<{ id: string }> }
 ) {
   const { id } = await params;
+  const access = await requireChatSessionAccess(id, 'editor');
+  if (!access.ok) return access.response;
   const { title } = await request.json();
 
   if (!title || typeof title !== 'string' || !title.trim()) {
@@ -65,6 +70,8 @@ export async function DELETE(
   { params }: { params: Promise<{ id: string }> }
 ) {
   const { id } = await params;
+  const access = await requireChatSessionAccess(id, 'editor');
+  if (!access.ok) return access.response;
 
   const { error } = await supabaseAdmin
     .from('chat_sessions')
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { supabaseAdmin } from '@/lib/supabase/admin';
+import { requireSparkAccess } from '@/lib/auth';
 
 // GET /api/chat/sessions?spark_id=<uuid> — List sessions for a spark
 export async function GET(request: NextRequest) {
@@ -12,6 +13,9 @@ export async function GET(request: NextRequest) {
     );
   }
 
+  const access = await requireSparkAccess(sparkId);
+  if (!access.ok) return access.response;
+
   // Fetch sessions ordered by most recently active
   const { data: sessions, error } = await supabaseAdmin
     .from('chat_sessions')
@@ -73,6 +77,9 @@ export async function POST(request: NextRequest) {
     );
   }
 
+  const access = await requireSparkAccess(spark_id, 'editor');
+  if (!access.ok) return access.response;
+
   const { data, error } = await supabaseAdmin
     .from('chat_sessions')
     .insert({
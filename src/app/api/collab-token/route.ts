@@ -1,5 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import jwt from 'jsonwebtoken';
+import { requireSparkAccess } from '@/lib/auth';
+
+const DOC_NAME_PREFIX = 'spark-';
 
 export async function GET(req: NextRequest) {
   const docName = req.nextUrl.searchParams.get('docName');
@@ -7,6 +10,14 @@ export async function GET(req: NextRequest) {
     return NextResponse.json({ error: 'docName query param required' }, { status: 400 });
   }
 
+  // Collaborative documents are named `spark-<sparkId>` — only members of
+  // that Spark may join it.
+  if (!docName.startsWith(DOC_NAME_PREFIX)) {
+    return NextResponse.json({ error: 'Unknown document' }, { status: 400 });
+  }
+  const access = await requireSparkAccess(docName.slice(DOC_NAME_PREFIX.length));
+  if (!access.ok) return access.response;
+
   const secret = process.env.DOCUMENT_SERVER_SECRET;
   if (!secret) {
     return NextResponse.json({ error: 'Server misconfigured' }, { status: 500 });
@@ -15,8 +26,12 @@ export async function GET(req: NextRequest) {
   const now = Math.floor(Date.now() / 1000);
   const token = jwt.sign(
     {
-      sub: 'current-user',
-      allowedDocumentNames: [docName],
+      sub: access.user.id,
+      name: access.user.display_name,
+      // Viewers can follow the live document but not edit it
+      ...(access.role === 'viewer'
+        ? { readonlyDocumentNames: [docName] }
+        : { allowedDocumentNames: [docName] }),
       iat: now,
       exp: now + 3600, // 1 hour
     },
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { supabaseAdmin } from '@/lib/supabase/admin';
+import { requireSparkAccess } from '@/lib/auth';
 
 // GET /api/contentstack/imported-types?spark_id={id}&api_key={key}
 // Returns distinct cs_content_type_uid values already imported for this spark + stack
@@ -11,6 +12,9 @@ export async function GET(request: NextRequest) {
     return NextResponse.json({ error: 'spark_id and api_key are required' }, { status: 400 });
   }
 
+  const access = await requireSparkAccess(sparkId);
+  if (!access.ok) return access.response;
+
   const { data, error } = await supabaseAdmin
     .from('spark_items')
     .select('metadata')
@@ -1,5 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { supabaseAdmin } from '@/lib/supabase/admin';
+import { requireSparkAccess } from '@/lib/auth';
+import { publishSparkEvent, requestActor } from '@/lib/spark-events';
 
 // POST /api/contentstack/prune-entries
 // Deletes contentstack_entry items for given CT UIDs + spark + stack
@@ -13,11 +15,14 @@ export async function POST(request: NextRequest) {
     );
   }
 
+  const access = await requireSparkAccess(spark_id, 'editor');
+  if (!access.ok) return access.response;
+
   if (content_type_uids_to_remove.length === 0) {
     return NextResponse.json({ pruned: 0 });
   }
 
-  let totalPruned = 0;
+  const prunedIds: string[] = [];
 
   for (const ctUid of content_type_uids_to_remove) {
     const { data, error } = await supabaseAdmin
@@ -32,9 +37,13 @@ export async function POST(request: NextRequest) {
     if (error) {
       console.error(`[contentstack/prune-entries] Error pruning CT ${ctUid}:`, error.message);
     } else {
-      totalPruned += data?.length || 0;
+      prunedIds.push(...(data ?? []).map((row) => row.id as string));
     }
   }
 
-  return NextResponse.json({ pruned: totalPruned });
+  if (prunedIds.length > 0) {
+    publishSparkEvent(spark_id, { type: 'items.deleted', itemIds: prunedIds }, requestActor(request, access.user));
+  }
+
+  return NextResponse.json({ pruned: prunedIds.length });
 }
@@ -1,12 +1,17 @@
-import { NextRequest, NextResponse, after } from 'next/server';
+import { NextRequest, NextResponse } from 'next/server';
 import { supabaseAdmin } from '@/lib/supabase/admin';
+import { requireSparkAccess } from '@/lib/auth';
 import { addLogEntry } from '@/lib/activity-logger';
+import { enqueueItemEmbedding } from '@/lib/jobs/queue';
+import { scheduleJobWorker } from '@/lib/jobs/worker';
+import { publishItemChanges, requestActor } from '@/lib/spark-events';
 import {
-  generateEmbedding,
-  generateImageEmbedding,
-  buildItemText,
-  getImageUrl,
-} from '@/lib/embeddings';
+  detectDocumentFormat,
+  extractDocument,
+  MAX_DOCUMENT_BYTES,
+  toItemDocumentInfo,
+  type ExtractedDocument,
+} from '@/lib/document-extraction';
 
 const CS_API_BASE = 'https://api.contentstack.io/v3';
 
@@ -32,6 +37,9 @@ export async function POST(request: NextRequest) {
     );
   }
 
+  const access = await requireSparkAccess(sparkId, 'editor');
+  if (!access.ok) return access.response;
+
   // ── Upload to Contentstack ──
   const csForm = new FormData();
   csForm.append('asset[upload]', file, file.name);
@@ -96,6 +104,18 @@ export async function POST(request: NextRequest) {
     correlationId,
   });
 
+  // ── Extract document text from the uploaded bytes ──
+  let document: ExtractedDocument | null = null;
+  let extractError: string | null = null;
+  if (file.size <= MAX_DOCUMENT_BYTES && detectDocumentFormat(file.type, file.name)) {
+    try {
+      document = await extractDocument(await file.arrayBuffer(), file.type, file.name);
+    } catch (err) {
+      console.error('[upload-asset] Document extraction failed:', err);
+      extractError = err instanceof Error ? err.message : 'Extraction failed';
+    }
+  }
+
   // ── Create SparkItem ──
   const metadata = {
     cs_asset_uid: asset.uid,
@@ -103,6 +123,12 @@ export async function POST(request: NextRequest) {
     cs_asset_content_type: asset.content_type,
     cs_asset_file_size: asset.file_size,
     cs_asset_filename: asset.filename || file.name,
+    ...(document && {
+      document: toItemDocumentInfo(document),
+      document_extract_status: 'success',
+      document_extracted_at: new Date().toISOString(),
+    }),
+    ...(extractError && { document_extract_status: 'failed', document_extract_error: extractError }),
   };
 
   const { data, error } = await supabaseAdmin
@@ -111,7 +137,7 @@ export async function POST(request: NextRequest) {
       spark_id: sparkId,
       type: 'contentstack_asset',
       title: asset.filename || file.name,
-      content: asset.url,
+      content: document?.text || asset.url,
       metadata,
     })
     .select()
@@ -122,34 +148,15 @@ export async function POST(request: NextRequest) {
     return NextResponse.json({ error: error.message }, { status: 500 });
   }
 
-  // ── Generate embedding in background ──
-  after(async () => {
-    try {
-      const itemData = {
-        title: data.title,
-        content: data.content,
-        type: 'contentstack_asset',
-        metadata,
-      };
-      const imageUrl = getImageUrl(itemData);
-
-      const embedding = imageUrl
-        ? await generateImageEmbedding(imageUrl, buildItemText(itemData))
-        : await generateEmbedding(buildItemText(itemData));
-
-      if (embedding) {
-        const { error: updateError } = await supabaseAdmin
-          .from('spark_items')
-          .update({ embedding: JSON.stringify(embedding) })
-          .eq('id', data.id);
-        if (updateError) {
-          console.error('[upload-asset] Failed to save embedding:', updateError.message);
-        }
-      }
-    } catch (err) {
-      console.error('[upload-asset] Embedding generation failed:', err);
-    }
-  });
+  // ── Queue embedding as a background job ──
+  try {
+    await enqueueItemEmbedding(sparkId, [data.id], { createdBy: access.user.id });
+    scheduleJobWorker();
+  } catch (err) {
+    console.error('[upload-asset] Failed to queue embedding:', err);
+  }
+
+  await publishItemChanges(sparkId, 'created', [data.id], requestActor(request, access.user));
 
   return NextResponse.json(data, { status: 201 });
 }
@@ -0,0 +1,26 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { queueDueDigests } from '@/lib/slack-digest';
+import { scheduleJobWorker } from '@/lib/jobs/worker';
+
+export const dynamic = 'force-dynamic';
+
+// POST /api/digests/run - Queue every Slack digest that is due (for a cron, e.g. hourly)
+// Requires `Authorization: Bearer <JOB_WORKER_SECRET>`.
+export async function POST(request: NextRequest) {
+  const secret = process.env.JOB_WORKER_SECRET;
+  if (!secret || request.headers.get('authorization') !== `Bearer ${secret}`) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    // Links in the digest point at the public app, not whatever host the cron called
+    const origin = process.env.NEXT_PUBLIC_APP_URL || request.nextUrl.origin;
+    const queued = await queueDueDigests(origin);
+    if (queued > 0) scheduleJobWorker();
+    return NextResponse.json({ queued });
+  } catch (error) {
+    console.error('[digests] Run failed:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return NextResponse.json({ error: errorMessage }, { status: 500 });
+  }
+}
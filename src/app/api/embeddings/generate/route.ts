@@ -1,24 +1,37 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { supabaseAdmin } from '@/lib/supabase/admin';
-import { generateEmbeddings, buildItemText, getImageUrl } from '@/lib/embeddings';
+import {
+  generateEmbeddings,
+  buildItemText,
+  getImageUrl,
+  getEmbeddingProvider,
+  saveEmbedding,
+} from '@/lib/embeddings';
+import { syncItemChunks } from '@/lib/chunking';
+import { requireUser, requireSparkAccess, listSparkRoles, roleAtLeast } from '@/lib/auth';
 
 /**
  * POST /api/embeddings/generate
- * Backfill embeddings for items that don't have them yet.
- * Handles both text and image items using the multimodal embedding model.
+ * Backfill embeddings for items that don't have them yet, and re-chunk
+ * each processed item. Handles both text and image items using the
+ * multimodal embedding model.
  *
  * Body: { spark_id?: string, force?: boolean }
  * - force: true to regenerate ALL embeddings (needed after model/dimension change)
+ * Without spark_id, only Sparks the current user can edit are processed.
  */
 export async function POST(request: NextRequest) {
   const body = await request.json().catch(() => ({}));
   const sparkId = body.spark_id;
   const force = body.force === true;
 
+  const auth = sparkId ? await requireSparkAccess(sparkId, 'editor') : await requireUser();
+  if (!auth.ok) return auth.response;
+
   // Fetch items without embeddings (or all items if force=true)
   let query = supabaseAdmin
     .from('spark_items')
-    .select('id, type, title, content, summary, metadata')
+    .select('id, spark_id, type, title, content, summary, metadata')
     .limit(200);
 
   if (!force) {
@@ -27,6 +40,13 @@ export async function POST(request: NextRequest) {
 
   if (sparkId) {
     query = query.eq('spark_id', sparkId);
+  } else {
+    const roles = await listSparkRoles(auth.user.id);
+    const sparkIds = [...roles].filter(([, role]) => roleAtLeast(role, 'editor')).map(([id]) => id);
+    if (sparkIds.length === 0) {
+      return NextResponse.json({ message: 'No Sparks to process', processed: 0 });
+    }
+    query = query.in('spark_id', sparkIds);
   }
 
   const { data: items, error } = await query;
@@ -62,11 +82,13 @@ export async function POST(request: NextRequest) {
   });
 
   // Generate embeddings in batch (handles both text and image items)
+  const provider = getEmbeddingProvider();
   const embeddings = await generateEmbeddings(inputs);
 
   // Update each item with its embedding
   let successCount = 0;
   let failCount = 0;
+  let chunkCount = 0;
 
   for (let i = 0; i < items.length; i++) {
     const embedding = embeddings[i];
@@ -75,17 +97,19 @@ export async function POST(request: NextRequest) {
       continue;
     }
 
-    const { error: updateError } = await supabaseAdmin
-      .from('spark_items')
-      .update({ embedding: JSON.stringify(embedding) })
-      .eq('id', items[i].id);
+    const { error: updateError } = await saveEmbedding('spark_items', items[i].id, embedding);
 
     if (updateError) {
-      console.error(`[embeddings] Failed to update item ${items[i].id}:`, updateError.message);
+      console.error(`[embeddings] Failed to update item ${items[i].id}:`, updateError);
       failCount++;
     } else {
       successCount++;
     }
+
+    chunkCount += await syncItemChunks({
+      ...items[i],
+      metadata: items[i].metadata as Record<string, unknown>,
+    });
   }
 
   return NextResponse.json({
@@ -93,7 +117,8 @@ export async function POST(request: NextRequest) {
     total: items.length,
     success: successCount,
     failed: failCount,
-    model: 'voyage-multimodal-3',
-    dimensions: 1024,
+    chunks: chunkCount,
+    model: provider.id,
+    dimensions: provider.dimensions,
   });
 }
@@ -0,0 +1,67 @@
+import { NextResponse } from 'next/server';
+import { requireUser } from '@/lib/auth';
+import { getEmbeddingProvider, isFallbackEmbeddingProvider } from '@/lib/embeddings';
+import {
+  getEmbeddingState,
+  getLatestEmbeddingMigration,
+  hasStaleEmbeddings,
+  startEmbeddingMigrationIfNeeded,
+} from '@/lib/embedding-migration';
+
+/** Public view of the configured provider */
+function providerInfo() {
+  const provider = getEmbeddingProvider();
+  return {
+    id: provider.id,
+    name: provider.name,
+    model: provider.model,
+    dimensions: provider.dimensions,
+    multimodal: provider.multimodal,
+    fallback: isFallbackEmbeddingProvider(),
+  };
+}
+
+// GET /api/embeddings/migrate — Configured provider, stored model, and latest re-embed run
+export async function GET() {
+  const auth = await requireUser();
+  if (!auth.ok) return auth.response;
+
+  const providerId = getEmbeddingProvider().id;
+  const [state, migration, stale] = await Promise.all([
+    getEmbeddingState(),
+    getLatestEmbeddingMigration(),
+    hasStaleEmbeddings(providerId),
+  ]);
+
+  return NextResponse.json({
+    provider: providerInfo(),
+    stored_model: state?.model ?? null,
+    up_to_date: state?.model === providerId && !stale,
+    migration,
+  });
+}
+
+// POST /api/embeddings/migrate — Start (or resume) re-embedding if the provider changed
+export async function POST() {
+  const auth = await requireUser();
+  if (!auth.ok) return auth.response;
+
+  if (isFallbackEmbeddingProvider()) {
+    return NextResponse.json(
+      { error: 'No embedding API key is configured. Set EMBEDDING_PROVIDER=local to re-embed with local embeddings.' },
+      { status: 409 }
+    );
+  }
+
+  try {
+    const migration = await startEmbeddingMigrationIfNeeded();
+    return NextResponse.json({
+      provider: providerInfo(),
+      started: migration !== null,
+      migration,
+    });
+  } catch (err) {
+    const message = err instanceof Error ? err.message : 'Failed to start re-embed';
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
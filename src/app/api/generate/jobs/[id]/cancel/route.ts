@@ -0,0 +1,21 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireGenerationJobAccess } from '@/lib/auth';
+import { cancelGenerationJob } from '@/lib/generation-jobs';
+
+// POST /api/generate/jobs/[id]/cancel - Stop a running generation
+// Works from any instance: the runner polls the job row and aborts the model call.
+export async function POST(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const access = await requireGenerationJobAccess(id, 'editor');
+  if (!access.ok) return access.response;
+
+  const cancelled = await cancelGenerationJob(id);
+  if (!cancelled) {
+    return NextResponse.json({ error: 'Job is no longer running' }, { status: 409 });
+  }
+
+  return NextResponse.json({ success: true });
+}
@@ -0,0 +1,25 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { supabaseAdmin } from '@/lib/supabase/admin';
+import { requireGenerationJobAccess } from '@/lib/auth';
+
+// GET /api/generate/jobs/[id] - Job status, plus the artifact once it has completed
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const access = await requireGenerationJobAccess(id);
+  if (!access.ok) return access.response;
+
+  const { data, error } = await supabaseAdmin
+    .from('generation_jobs')
+    .select('*, artifact:artifact_id (*)')
+    .eq('id', id)
+    .single();
+
+  if (error) {
+    return NextResponse.json({ error: error.message }, { status: 404 });
+  }
+
+  return NextResponse.json(data);
+}
@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { supabaseAdmin } from '@/lib/supabase/admin';
+import { requireSparkAccess } from '@/lib/auth';
+
+// GET /api/generate/jobs?spark_id=...&status=running - Recent generation jobs for a Spark
+export async function GET(request: NextRequest) {
+  const sparkId = request.nextUrl.searchParams.get('spark_id');
+  const status = request.nextUrl.searchParams.get('status');
+
+  if (!sparkId) {
+    return NextResponse.json({ error: 'spark_id is required' }, { status: 400 });
+  }
+
+  const access = await requireSparkAccess(sparkId);
+  if (!access.ok) return access.response;
+
+  let query = supabaseAdmin
+    .from('generation_jobs')
+    .select('*')
+    .eq('spark_id', sparkId)
+    .order('created_at', { ascending: false })
+    .limit(20);
+
+  if (status) {
+    query = query.eq('status', status);
+  }
+
+  const { data, error } = await query;
+
+  if (error) {
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+
+  return NextResponse.json({ jobs: data });
+}
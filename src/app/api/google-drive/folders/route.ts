@@ -0,0 +1,21 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getValidAccessToken } from '@/lib/google/oauth';
+import { listSubfolders } from '@/lib/google/drive';
+
+// GET /api/google-drive/folders?parent=... - Folders inside a folder (default: My Drive)
+export async function GET(request: NextRequest) {
+  const parent = request.nextUrl.searchParams.get('parent') || 'root';
+
+  const accessToken = await getValidAccessToken();
+  if (!accessToken) {
+    return NextResponse.json({ error: 'Not connected to Google Drive' }, { status: 401 });
+  }
+
+  try {
+    const folders = await listSubfolders(accessToken, parent);
+    return NextResponse.json({ folders });
+  } catch (err) {
+    console.error('[google-drive/folders] Error:', err);
+    return NextResponse.json({ error: 'Failed to list Drive folders' }, { status: 502 });
+  }
+}
@@ -1,11 +1,10 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { supabaseAdmin } from '@/lib/supabase/admin';
-import {
-  generateEmbedding,
-  generateImageEmbedding,
-  buildItemText,
-  getImageUrl,
-} from '@/lib/embeddings';
+import { requireItemAccess } from '@/lib/auth';
+import { enqueueItemEmbedding } from '@/lib/jobs/queue';
+import { scheduleJobWorker } from '@/lib/jobs/worker';
+import { deleteItemUploads } from '@/lib/uploads';
+import { publishItemChanges, publishSparkEvent, requestActor } from '@/lib/spark-events';
 
 // GET /api/items/[id] - Fetch a single item
 export async function GET(
@@ -13,6 +12,8 @@ export async function GET(
   { params }: { params: Promise<{ id: string }> }
 ) {
   const { id } = await params;
+  const access = await requireItemAccess(id);
+  if (!access.ok) return access.response;
 
   const { data, error } = await supabaseAdmin
     .from('spark_items')
@@ -33,7 +34,11 @@ export async function PATCH(
   { params }: { params: Promise<{ id: string }> }
 ) {
   const { id } = await params;
+  const access = await requireItemAccess(id, 'editor');
+  if (!access.ok) return access.response;
   const body = await request.json();
+  // Items cannot be moved to another Spark through PATCH
+  delete body.spark_id;
 
   const { data, error } = await supabaseAdmin
     .from('spark_items')
@@ -46,36 +51,17 @@ export async function PATCH(
     return NextResponse.json({ error: error.message }, { status: 500 });
   }
 
-  // Regenerate embedding if content-related fields changed
-  if (body.title || body.content || body.summary || body.metadata) {
-    const itemData = {
-      title: data.title,
-      content: data.content,
-      summary: data.summary,
-      type: data.type,
-      metadata: data.metadata as Record<string, unknown>,
-    };
-    const imageUrl = getImageUrl(itemData);
+  await publishItemChanges(data.spark_id, 'updated', [id], requestActor(request, access.user));
 
-    const embeddingPromise = imageUrl
-      ? generateImageEmbedding(imageUrl, buildItemText(itemData))
-      : generateEmbedding(buildItemText(itemData));
-
-    embeddingPromise
-      .then(async (embedding) => {
-        if (embedding) {
-          const { error: updateError } = await supabaseAdmin
-            .from('spark_items')
-            .update({ embedding: JSON.stringify(embedding) })
-            .eq('id', id);
-          if (updateError) {
-            console.error('[items] Failed to update embedding:', updateError.message);
-          }
-        }
-      })
-      .catch((err) => {
-        console.error('[items] Embedding regeneration failed:', err);
-      });
+  // Re-embed and re-chunk in the background if content-related fields changed.
+  // Repeated edits collapse into the one queued job for this item.
+  if (body.title !== undefined || body.content !== undefined || body.summary !== undefined || body.metadata) {
+    try {
+      await enqueueItemEmbedding(data.spark_id, [id], { createdBy: access.user.id });
+      scheduleJobWorker();
+    } catch (err) {
+      console.error('[items] Failed to queue embedding:', err);
+    }
   }
 
   return NextResponse.json(data);
@@ -83,19 +69,28 @@ export async function PATCH(
 
 // DELETE /api/items/[id] - Delete an item
 export async function DELETE(
-  _request: NextRequest,
+  request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
   const { id } = await params;
+  const access = await requireItemAccess(id, 'editor');
+  if (!access.ok) return access.response;
 
-  const { error } = await supabaseAdmin
+  const { data: item, error } = await supabaseAdmin
     .from('spark_items')
     .delete()
-    .eq('id', id);
+    .eq('id', id)
+    .select('id, spark_id, metadata')
+    .maybeSingle();
 
   if (error) {
     return NextResponse.json({ error: error.message }, { status: 500 });
   }
 
+  if (item) {
+    await deleteItemUploads(item);
+    publishSparkEvent(item.spark_id, { type: 'items.deleted', itemIds: [id] }, requestActor(request, access.user));
+  }
+
   return NextResponse.json({ success: true });
 }
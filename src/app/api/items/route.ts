@@ -1,14 +1,12 @@
-import { NextRequest, NextResponse, after } from 'next/server';
+import { NextRequest, NextResponse } from 'next/server';
 import { supabaseAdmin } from '@/lib/supabase/admin';
-import {
-  generateEmbedding,
-  generateImageEmbedding,
-  buildItemText,
-  getImageUrl,
-} from '@/lib/embeddings';
 import { scrapePage } from '@/lib/scraper';
 import { getValidAccessToken } from '@/lib/google/oauth';
-import { exportFileContent } from '@/lib/google/drive';
+import { exportDriveItem } from '@/lib/google/drive-items';
+import { requireSparkAccess } from '@/lib/auth';
+import { enqueueItemEmbedding } from '@/lib/jobs/queue';
+import { scheduleJobWorker } from '@/lib/jobs/worker';
+import { publishItemChanges, requestActor } from '@/lib/spark-events';
 
 // POST /api/items - Create a new item in a spark
 export async function POST(request: NextRequest) {
@@ -22,11 +20,17 @@ export async function POST(request: NextRequest) {
     );
   }
 
+  const access = await requireSparkAccess(spark_id, 'editor');
+  if (!access.ok) return access.response;
+
   // For link items, try to extract metadata from URL
   let enrichedMetadata = metadata || {};
   if (type === 'link' && content) {
     enrichedMetadata = { ...enrichedMetadata, url: content };
   }
+  if (type === 'file' && content) {
+    enrichedMetadata = { ...enrichedMetadata, file_url: content };
+  }
 
   const { data, error } = await supabaseAdmin
     .from('spark_items')
@@ -46,64 +50,38 @@ export async function POST(request: NextRequest) {
   }
 
   // For link and Drive items, run scraping/export synchronously so the
-  // enriched item is returned in the response. This avoids reliance on
-  // after() which may not execute on all hosting platforms (e.g.
-  // Contentstack App Framework). Embedding generation is deferred to
-  // after() since it's not needed for display.
+  // enriched item is returned in the response. Embedding isn't needed for
+  // display, so it is queued as a background job once the item is final.
+  // File items can be large documents: they are downloaded and extracted
+  // in that job rather than here.
+  let enriched: { content: string; summary: string | null; metadata: Record<string, unknown> } | null = null;
   if (type === 'link' && content) {
-    const enriched = await scrapeAndEnrichSync(data.id, title, content, enrichedMetadata);
-    // Defer embedding to after()
-    after(async () => {
-      try {
-        await generateAndSaveEmbedding(data.id, {
-          title,
-          content: enriched?.content || content,
-          summary: enriched?.summary || null,
-          type: 'link',
-          metadata: enriched?.metadata || enrichedMetadata,
-        });
-      } catch (err) {
-        console.error('[items] Embedding generation failed:', err);
-      }
-    });
-    // Return the enriched item so the client has scraped data immediately
-    if (enriched) {
-      return NextResponse.json({ ...data, ...enriched }, { status: 201 });
-    }
+    enriched = await scrapeAndEnrichSync(data.id, title, content, enrichedMetadata);
   } else if (type === 'google_drive' && enrichedMetadata.drive_file_id) {
-    const enriched = await exportDriveSync(
+    enriched = await exportDriveItem(
       data.id,
-      title,
+      await getValidAccessToken(),
       enrichedMetadata.drive_file_id as string,
       enrichedMetadata.drive_mime_type as string,
       enrichedMetadata
     );
-    after(async () => {
-      try {
-        await generateAndSaveEmbedding(data.id, {
-          title,
-          content: enriched?.content || null,
-          summary: enriched?.summary || null,
-          type: 'google_drive',
-          metadata: enriched?.metadata || enrichedMetadata,
-        });
-      } catch (err) {
-        console.error('[items] Embedding generation failed:', err);
-      }
-    });
-    if (enriched) {
-      return NextResponse.json({ ...data, ...enriched }, { status: 201 });
-    }
-  } else {
-    after(async () => {
-      try {
-        await generateAndSaveEmbedding(data.id, {
-          title, content, type, metadata: enrichedMetadata,
-        });
-      } catch (err) {
-        console.error('[items] Embedding generation failed:', err);
-      }
+  }
+
+  await publishItemChanges(spark_id, 'created', [data.id], requestActor(request, access.user));
+
+  try {
+    await enqueueItemEmbedding(spark_id, [data.id], {
+      createdBy: access.user.id,
+      extractDocuments: type === 'file',
     });
+    scheduleJobWorker();
+  } catch (err) {
+    console.error('[items] Failed to queue embedding:', err);
+  }
+
+  // Return the enriched item so the client has scraped data immediately
+  if (enriched) {
+    return NextResponse.json({ ...data, ...enriched }, { status: 201 });
   }
 
   return NextResponse.json(data, { status: 201 });
@@ -162,90 +140,3 @@ async function scrapeAndEnrichSync(
 
   return null;
 }
-
-/**
- * Export Google Drive file content and update item synchronously.
- * Returns enriched fields for the response.
- */
-async function exportDriveSync(
-  itemId: string,
-  title: string,
-  driveFileId: string,
-  driveMimeType: string,
-  existingMetadata: Record<string, unknown>
-): Promise<{ content: string; summary: string | null; metadata: Record<string, unknown> } | null> {
-  const accessToken = await getValidAccessToken();
-  if (!accessToken) {
-    console.error('[items] No valid Google access token for Drive export');
-    const failedMetadata = {
-      ...existingMetadata,
-      drive_export_status: 'failed',
-      drive_exported_at: new Date().toISOString(),
-    };
-    await supabaseAdmin
-      .from('spark_items')
-      .update({ metadata: failedMetadata })
-      .eq('id', itemId);
-    return null;
-  }
-
-  const exportedText = await exportFileContent(accessToken, driveFileId, driveMimeType);
-
-  if (exportedText) {
-    const summary = exportedText.slice(0, 300);
-    const updatedMetadata = {
-      ...existingMetadata,
-      drive_export_status: 'success' as const,
-      drive_exported_at: new Date().toISOString(),
-    };
-
-    const { error: updateError } = await supabaseAdmin
-      .from('spark_items')
-      .update({ content: exportedText, summary, metadata: updatedMetadata })
-      .eq('id', itemId);
-
-    if (updateError) {
-      console.error('[items] Failed to update Drive content:', updateError.message);
-    }
-
-    return { content: exportedText, summary, metadata: updatedMetadata };
-  }
-
-  // Export not possible (binary file) or failed
-  const updatedMetadata = {
-    ...existingMetadata,
-    drive_export_status: exportedText === null ? 'success' : 'failed',
-    drive_exported_at: new Date().toISOString(),
-  };
-
-  await supabaseAdmin
-    .from('spark_items')
-    .update({ metadata: updatedMetadata })
-    .eq('id', itemId);
-
-  return null;
-}
-
-/**
- * Generate and save an embedding for an item. Used in after() callbacks.
- */
-async function generateAndSaveEmbedding(
-  itemId: string,
-  itemData: { title: string; content: string | null; summary?: string | null; type: string; metadata: Record<string, unknown> }
-) {
-  const imageUrl = getImageUrl(itemData);
-
-  const embedding = imageUrl
-    ? await generateImageEmbedding(imageUrl, buildItemText(itemData))
-    : await generateEmbedding(buildItemText(itemData));
-
-  if (embedding) {
-    const { error: embError } = await supabaseAdmin
-      .from('spark_items')
-      .update({ embedding: JSON.stringify(embedding) })
-      .eq('id', itemId);
-    if (embError) {
-      console.error('[items] Failed to save embedding:', embError.message);
-    }
-  }
-}
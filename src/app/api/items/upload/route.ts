@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireSparkAccess } from '@/lib/auth';
+import { uploadToSpark, UploadError } from '@/lib/uploads';
+import { scheduleJobWorker } from '@/lib/jobs/worker';
+import { publishItemChanges, requestActor } from '@/lib/spark-events';
+
+// POST /api/items/upload - Upload a file into a spark (multipart: file, spark_id, title?, tags?)
+export async function POST(request: NextRequest) {
+  const formData = await request.formData();
+  const file = formData.get('file');
+  const sparkId = formData.get('spark_id');
+
+  if (!(file instanceof File) || typeof sparkId !== 'string' || !sparkId) {
+    return NextResponse.json({ error: 'file and spark_id are required' }, { status: 400 });
+  }
+
+  const access = await requireSparkAccess(sparkId, 'editor');
+  if (!access.ok) return access.response;
+
+  const title = formData.get('title');
+  const tags = formData.get('tags');
+
+  try {
+    const item = await uploadToSpark({
+      sparkId,
+      file,
+      title: typeof title === 'string' ? title : null,
+      tags: typeof tags === 'string' ? tags.split(',').map((t) => t.trim()).filter(Boolean) : undefined,
+      uploadedBy: access.user.id,
+    });
+    scheduleJobWorker();
+    await publishItemChanges(sparkId, 'created', [item.id], requestActor(request, access.user));
+    return NextResponse.json(item, { status: 201 });
+  } catch (err) {
+    if (err instanceof UploadError) {
+      return NextResponse.json({ error: err.message }, { status: err.status });
+    }
+    console.error('[items/upload] Upload failed:', err);
+    return NextResponse.json(
+      { error: err instanceof Error ? err.message : 'Upload failed' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,21 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireJobAccess } from '@/lib/auth';
+import { cancelJob } from '@/lib/jobs/queue';
+
+// POST /api/jobs/[id]/cancel - Cancel a queued or running job
+// A running handler stops at its next progress report.
+export async function POST(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const access = await requireJobAccess(id, 'editor');
+  if (!access.ok) return access.response;
+
+  const cancelled = await cancelJob(id);
+  if (!cancelled) {
+    return NextResponse.json({ error: 'Job has already finished' }, { status: 409 });
+  }
+
+  return NextResponse.json({ success: true });
+}
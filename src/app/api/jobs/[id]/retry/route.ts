@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireJobAccess } from '@/lib/auth';
+import { retryJob, toPublicJob } from '@/lib/jobs/queue';
+import { scheduleJobWorker } from '@/lib/jobs/worker';
+
+// POST /api/jobs/[id]/retry - Re-queue a failed or cancelled job with fresh attempts
+export async function POST(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const access = await requireJobAccess(id, 'editor');
+  if (!access.ok) return access.response;
+
+  let job;
+  try {
+    job = await retryJob(id);
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return NextResponse.json({ error: errorMessage }, { status: 409 });
+  }
+
+  if (!job) {
+    return NextResponse.json({ error: 'Only failed or cancelled jobs can be retried' }, { status: 409 });
+  }
+
+  scheduleJobWorker();
+  return NextResponse.json(toPublicJob(job));
+}
@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { supabaseAdmin } from '@/lib/supabase/admin';
+import { requireJobAccess } from '@/lib/auth';
+import { toPublicJob } from '@/lib/jobs/queue';
+import type { Job } from '@/lib/types';
+
+// GET /api/jobs/[id] - Job status, progress and result
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const access = await requireJobAccess(id);
+  if (!access.ok) return access.response;
+
+  const { data, error } = await supabaseAdmin
+    .from('jobs')
+    .select('*')
+    .eq('id', id)
+    .single();
+
+  if (error) {
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+
+  return NextResponse.json(toPublicJob(data as Job));
+}
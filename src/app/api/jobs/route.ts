@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { supabaseAdmin } from '@/lib/supabase/admin';
+import { requireSparkAccess } from '@/lib/auth';
+import { toPublicJob } from '@/lib/jobs/queue';
+import type { Job } from '@/lib/types';
+
+// GET /api/jobs?spark_id=...&status=queued,running&kind=... - Background jobs for a Spark, newest first
+export async function GET(request: NextRequest) {
+  const sparkId = request.nextUrl.searchParams.get('spark_id');
+  const status = request.nextUrl.searchParams.get('status');
+  const kind = request.nextUrl.searchParams.get('kind');
+
+  if (!sparkId) {
+    return NextResponse.json({ error: 'spark_id is required' }, { status: 400 });
+  }
+
+  const access = await requireSparkAccess(sparkId);
+  if (!access.ok) return access.response;
+
+  let query = supabaseAdmin
+    .from('jobs')
+    .select('*')
+    .eq('spark_id', sparkId)
+    .order('created_at', { ascending: false })
+    .limit(50);
+
+  if (status) {
+    query = query.in('status', status.split(','));
+  }
+  if (kind) {
+    query = query.eq('kind', kind);
+  }
+
+  const { data, error } = await query;
+
+  if (error) {
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+
+  return NextResponse.json({ jobs: (data as Job[]).map(toPublicJob) });
+}
@@ -0,0 +1,21 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { runJobs } from '@/lib/jobs/worker';
+
+export const dynamic = 'force-dynamic';
+
+// POST /api/jobs/worker - Drain due jobs (for an external cron on serverless hosts)
+// Requires `Authorization: Bearer <JOB_WORKER_SECRET>`.
+export async function POST(request: NextRequest) {
+  const secret = process.env.JOB_WORKER_SECRET;
+  if (!secret || request.headers.get('authorization') !== `Bearer ${secret}`) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const processed = await runJobs();
+    return NextResponse.json({ processed });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return NextResponse.json({ error: errorMessage }, { status: 500 });
+  }
+}
@@ -0,0 +1,26 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { supabaseAdmin } from '@/lib/supabase/admin';
+import { requireUser } from '@/lib/auth';
+
+// PATCH /api/notifications/preferences - Turn Slack delivery of mentions on or off
+// Body: { slack: boolean }
+export async function PATCH(request: NextRequest) {
+  const auth = await requireUser();
+  if (!auth.ok) return auth.response;
+
+  const body = await request.json().catch(() => ({}));
+  if (typeof body.slack !== 'boolean') {
+    return NextResponse.json({ error: 'slack must be a boolean' }, { status: 400 });
+  }
+
+  const { error } = await supabaseAdmin
+    .from('users')
+    .update({ slack_notifications: body.slack })
+    .eq('id', auth.user.id);
+
+  if (error) {
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+
+  return NextResponse.json({ slack: body.slack });
+}
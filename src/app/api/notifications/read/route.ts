@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { supabaseAdmin } from '@/lib/supabase/admin';
+import { requireUser } from '@/lib/auth';
+
+// POST /api/notifications/read - Mark notifications read
+// Body: { ids? } — omit ids to mark everything read.
+export async function POST(request: NextRequest) {
+  const auth = await requireUser();
+  if (!auth.ok) return auth.response;
+
+  const body = await request.json().catch(() => ({}));
+  const ids = Array.isArray(body.ids)
+    ? body.ids.filter((v: unknown): v is string => typeof v === 'string')
+    : null;
+
+  let query = supabaseAdmin
+    .from('notifications')
+    .update({ read_at: new Date().toISOString() })
+    .eq('user_id', auth.user.id)
+    .is('read_at', null);
+  if (ids) {
+    if (ids.length === 0) return NextResponse.json({ success: true });
+    query = query.in('id', ids);
+  }
+
+  const { error } = await query;
+  if (error) {
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+
+  return NextResponse.json({ success: true });
+}
@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { supabaseAdmin } from '@/lib/supabase/admin';
+import { requireUser } from '@/lib/auth';
+
+const DEFAULT_LIMIT = 30;
+const MAX_LIMIT = 100;
+
+// GET /api/notifications - The signed-in user's notifications, newest first
+// Query: ?limit= (default 30). Also returns the unread count and Slack preference.
+export async function GET(request: NextRequest) {
+  const auth = await requireUser();
+  if (!auth.ok) return auth.response;
+
+  const limit = Math.min(
+    Math.max(parseInt(request.nextUrl.searchParams.get('limit') || '', 10) || DEFAULT_LIMIT, 1),
+    MAX_LIMIT
+  );
+
+  const [listResult, unreadResult, userResult] = await Promise.all([
+    supabaseAdmin
+      .from('notifications')
+      .select('*, sparks:spark_id (name)')
+      .eq('user_id', auth.user.id)
+      .order('created_at', { ascending: false })
+      .limit(limit),
+    supabaseAdmin
+      .from('notifications')
+      .select('id', { count: 'exact', head: true })
+      .eq('user_id', auth.user.id)
+      .is('read_at', null),
+    supabaseAdmin
+      .from('users')
+      .select('slack_notifications')
+      .eq('id', auth.user.id)
+      .maybeSingle(),
+  ]);
+
+  if (listResult.error) {
+    return NextResponse.json({ error: listResult.error.message }, { status: 500 });
+  }
+
+  const notifications = (listResult.data || []).map(({ sparks, ...notification }) => ({
+    ...notification,
+    spark_name: (sparks as { name: string } | null)?.name ?? null,
+  }));
+
+  return NextResponse.json({
+    notifications,
+    unread: unreadResult.count ?? 0,
+    slack: {
+      available: !!process.env.SLACK_BOT_TOKEN,
+      enabled: !!userResult.data?.slack_notifications,
+    },
+  });
+}
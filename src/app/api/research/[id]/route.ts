@@ -1,5 +1,32 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { supabaseAdmin } from '@/lib/supabase/admin';
+import { requireUser, listSparkRoles, roleAtLeast } from '@/lib/auth';
+import type { SparkRole } from '@/lib/types';
+
+/**
+ * Research items are shared across Sparks — accessible if linked to any
+ * Spark where the user holds at least `minRole`.
+ */
+async function canAccessResearch(
+  researchId: string,
+  userId: string,
+  minRole: SparkRole = 'viewer'
+): Promise<boolean> {
+  const roles = await listSparkRoles(userId);
+  const sparkIds = [...roles]
+    .filter(([, role]) => roleAtLeast(role, minRole))
+    .map(([id]) => id);
+  if (sparkIds.length === 0) return false;
+
+  const { data } = await supabaseAdmin
+    .from('spark_web_research')
+    .select('spark_id')
+    .eq('web_research_item_id', researchId)
+    .in('spark_id', sparkIds)
+    .limit(1);
+
+  return !!data && data.length > 0;
+}
 
 // GET /api/research/[id] — Get a single research item
 export async function GET(
@@ -7,6 +34,11 @@ export async function GET(
   { params }: { params: Promise<{ id: string }> }
 ) {
   const { id } = await params;
+  const auth = await requireUser();
+  if (!auth.ok) return auth.response;
+  if (!(await canAccessResearch(id, auth.user.id))) {
+    return NextResponse.json({ error: 'Research item not found' }, { status: 404 });
+  }
 
   const { data, error } = await supabaseAdmin
     .from('web_research_items')
@@ -27,6 +59,11 @@ export async function DELETE(
   { params }: { params: Promise<{ id: string }> }
 ) {
   const { id } = await params;
+  const auth = await requireUser();
+  if (!auth.ok) return auth.response;
+  if (!(await canAccessResearch(id, auth.user.id, 'editor'))) {
+    return NextResponse.json({ error: 'Research item not found' }, { status: 404 });
+  }
 
   const { error } = await supabaseAdmin
     .from('web_research_items')
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { supabaseAdmin } from '@/lib/supabase/admin';
+import { requireSparkAccess } from '@/lib/auth';
 
 // GET /api/research?spark_id=<uuid> — List research items linked to a Spark
 export async function GET(request: NextRequest) {
@@ -9,6 +10,9 @@ export async function GET(request: NextRequest) {
     return NextResponse.json({ error: 'spark_id query parameter is required' }, { status: 400 });
   }
 
+  const access = await requireSparkAccess(sparkId);
+  if (!access.ok) return access.response;
+
   // Get research item IDs linked to this Spark
   const { data: joinRows, error: joinError } = await supabaseAdmin
     .from('spark_web_research')
@@ -0,0 +1,22 @@
+import { NextResponse } from 'next/server';
+import { requireUser } from '@/lib/auth';
+import { listChannels } from '@/lib/slack';
+
+// GET /api/slack/channels - Channels the bot can see, for binding one to a Spark
+export async function GET() {
+  const auth = await requireUser();
+  if (!auth.ok) return auth.response;
+
+  if (!process.env.SLACK_BOT_TOKEN) {
+    return NextResponse.json({ error: 'SLACK_BOT_TOKEN is not configured' }, { status: 503 });
+  }
+
+  try {
+    const channels = await listChannels();
+    return NextResponse.json({ channels });
+  } catch (error) {
+    console.error('[slack] Failed to list channels:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return NextResponse.json({ error: errorMessage }, { status: 502 });
+  }
+}
@@ -0,0 +1,96 @@
+import { NextResponse } from 'next/server';
+import {
+  verifySlackSignature,
+  enqueueSlackTask,
+  parseAskCommand,
+  resolveAppUserId,
+  SLACK_UNLINKED_TEXT,
+  SLASH_COMMAND_USAGE,
+} from '@/lib/slack';
+import { listAccessibleSparkIds } from '@/lib/auth';
+import { supabaseAdmin } from '@/lib/supabase/admin';
+import { scheduleJobWorker } from '@/lib/jobs/worker';
+import { logWebhook, generateCorrelationId } from '@/lib/webhook-logger';
+
+const ephemeral = (text: string) => NextResponse.json({ response_type: 'ephemeral', text });
+
+// POST /api/slack/commands - The /spark slash command
+// Slack expects a reply within 3 seconds, so answering runs as a slack_task job.
+export async function POST(request: Request) {
+  if (!process.env.SLACK_BOT_TOKEN) {
+    return NextResponse.json(
+      { error: 'Slack integration not configured — SLACK_BOT_TOKEN missing' },
+      { status: 503 }
+    );
+  }
+
+  const { valid, body } = await verifySlackSignature(request);
+  if (!valid) {
+    return NextResponse.json({ error: 'Invalid signature' }, { status: 401 });
+  }
+
+  const params = new URLSearchParams(body);
+  const text = (params.get('text') || '').trim();
+  const channel = params.get('channel_id') || '';
+  const user = params.get('user_id') || '';
+  const responseUrl = params.get('response_url') || '';
+  const correlationId = generateCorrelationId('cmd');
+
+  await logWebhook({
+    correlation_id: correlationId,
+    direction: 'inbound',
+    route: '/api/slack/commands',
+    summary: `Inbound command: ${params.get('command')} ${text.split(/\s/, 1)[0]}`,
+    payload: { command: params.get('command'), channel, user },
+  });
+
+  const [subcommand, ...rest] = text.split(/\s+/);
+  if (subcommand?.toLowerCase() !== 'ask') {
+    return ephemeral(SLASH_COMMAND_USAGE);
+  }
+
+  // Answers are posted to the channel, so only Sparks the asker can view are matched
+  const userId = await resolveAppUserId(user, 1000);
+  if (!userId) {
+    return ephemeral(SLACK_UNLINKED_TEXT);
+  }
+  const sparkIds = await listAccessibleSparkIds(userId);
+
+  const { data: sparks, error } = await supabaseAdmin
+    .from('sparks')
+    .select('id, name')
+    .eq('status', 'active')
+    .in('id', sparkIds)
+    .abortSignal(AbortSignal.timeout(1000));
+
+  if (error || !sparks) {
+    return ephemeral(':warning: Failed to load Sparks. Please try again.');
+  }
+
+  const parsed = parseAskCommand(rest.join(' '), sparks);
+  if ('error' in parsed) {
+    return ephemeral(parsed.error);
+  }
+
+  await enqueueSlackTask({
+    task: 'ask',
+    channel,
+    user,
+    userId,
+    sparkId: parsed.spark.id,
+    question: parsed.question,
+    responseUrl,
+    origin: new URL(request.url).origin,
+    correlationId,
+  });
+  scheduleJobWorker();
+
+  await logWebhook({
+    correlation_id: correlationId,
+    direction: 'internal',
+    route: '/api/slack/commands',
+    summary: `Queued task: ask (spark=${parsed.spark.id})`,
+  });
+
+  return ephemeral(`:sparkles: Asking *${parsed.spark.name}*… the answer will appear in this channel shortly.`);
+}
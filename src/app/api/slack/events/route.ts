@@ -1,5 +1,7 @@
 import { NextResponse } from 'next/server';
-import { verifySlackSignature, dispatchToWorker, joinChannel } from '@/lib/slack';
+import { verifySlackSignature, enqueueSlackTask, joinChannel } from '@/lib/slack';
+import { queueChannelMessageSync } from '@/lib/slack-sync';
+import { scheduleJobWorker } from '@/lib/jobs/worker';
 import { logWebhook, generateCorrelationId } from '@/lib/webhook-logger';
 
 export async function POST(request: Request) {
@@ -60,8 +62,8 @@ export async function POST(request: Request) {
       joinChannel(channel).catch(() => {});
 
       if (!threadTs) {
-        // Not in a thread — send help message via worker
-        await dispatchToWorker(request, {
+        // Not in a thread — send help message from a background job
+        await enqueueSlackTask({
           task: 'ephemeral',
           channel,
           user,
@@ -76,9 +78,10 @@ export async function POST(request: Request) {
             },
           ],
         });
+        scheduleJobWorker();
       } else {
-        // In a thread — dispatch the heavy work to the worker endpoint
-        await dispatchToWorker(request, {
+        // In a thread — queue the heavy work as a background job
+        await enqueueSlackTask({
           task: 'app_mention',
           channel,
           user,
@@ -86,15 +89,30 @@ export async function POST(request: Request) {
           messageTs,
           correlationId,
         });
+        scheduleJobWorker();
       }
 
       await logWebhook({
         correlation_id: correlationId,
         direction: 'internal',
         route: '/api/slack/events',
-        summary: `Dispatched worker: ${threadTs ? 'app_mention' : 'ephemeral'}`,
+        summary: `Queued task: ${threadTs ? 'app_mention' : 'ephemeral'}`,
       });
     }
+
+    // New messages, replies, edits and deletions in channels synced to a Spark
+    if (event?.type === 'message') {
+      const queued = await queueChannelMessageSync(event, correlationId);
+      if (queued > 0) {
+        scheduleJobWorker();
+        await logWebhook({
+          correlation_id: correlationId,
+          direction: 'internal',
+          route: '/api/slack/events',
+          summary: `Queued task: sync_thread x${queued}`,
+        });
+      }
+    }
   }
 
   // Always respond 200 within 3 seconds
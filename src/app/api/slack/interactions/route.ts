@@ -4,9 +4,11 @@ import {
   sendEphemeralMessage,
   openModal,
   buildSparkPickerModal,
-  dispatchToWorker,
+  enqueueSlackTask,
+  listSlackUserSparks,
+  SLACK_UNLINKED_TEXT,
 } from '@/lib/slack';
-import { supabaseAdmin } from '@/lib/supabase/admin';
+import { scheduleJobWorker } from '@/lib/jobs/worker';
 import { logWebhook, generateCorrelationId } from '@/lib/webhook-logger';
 
 export async function POST(request: Request) {
@@ -61,15 +63,11 @@ export async function POST(request: Request) {
 
     // Fetch Sparks and open modal — both must complete within 3s of trigger_id.
     try {
-      const { data: sparks } = await supabaseAdmin
-        .from('sparks')
-        .select('id, name')
-        .eq('status', 'active')
-        .order('name')
-        .abortSignal(AbortSignal.timeout(2000));
+      // Only Sparks the user can add to are offered
+      const sparks = await listSlackUserSparks(userId, 'editor', 1000);
 
       if (!sparks || sparks.length === 0) {
-        await dispatchToWorker(request, {
+        await enqueueSlackTask({
           task: 'ephemeral',
           channel: channel.id,
           user: userId,
@@ -79,11 +77,14 @@ export async function POST(request: Request) {
               type: 'section',
               text: {
                 type: 'mrkdwn',
-                text: ':sparkles: No active Sparks found. Create one in Spark Foundry first!',
+                text: sparks
+                  ? ":sparkles: You can't add to any active Sparks. Create one in Spark Foundry, or ask to be made an editor."
+                  : SLACK_UNLINKED_TEXT,
               },
             },
           ],
         });
+        scheduleJobWorker();
         return new Response('', { status: 200 });
       }
 
@@ -132,7 +133,7 @@ export async function POST(request: Request) {
       const sparkId = view.state.values?.spark_select_block?.spark_select?.selected_option?.value;
 
       if (sparkId && meta.channel && meta.thread_ts) {
-        await dispatchToWorker(request, {
+        await enqueueSlackTask({
           task: 'send_to_spark',
           channelId: meta.channel,
           threadTs: meta.thread_ts,
@@ -140,12 +141,13 @@ export async function POST(request: Request) {
           sparkId,
           correlationId,
         });
+        scheduleJobWorker();
 
         await logWebhook({
           correlation_id: correlationId,
           direction: 'internal',
           route: '/api/slack/interactions',
-          summary: `Dispatched worker: send_to_spark (modal)`,
+          summary: `Queued task: send_to_spark (modal)`,
         });
       }
 
@@ -182,20 +184,22 @@ export async function POST(request: Request) {
       return new Response('', { status: 200 });
     }
 
-    await dispatchToWorker(request, {
+    await enqueueSlackTask({
       task: 'send_to_spark',
       channelId: meta.channel,
       threadTs: meta.thread_ts,
-      userId: meta.user,
+      // Whoever clicked, not the user named in the button value
+      userId: (payload.user as { id: string }).id,
       sparkId,
       correlationId,
     });
+    scheduleJobWorker();
 
     await logWebhook({
       correlation_id: correlationId,
       direction: 'internal',
       route: '/api/slack/interactions',
-      summary: `Dispatched worker: send_to_spark (button)`,
+      summary: `Queued task: send_to_spark (button)`,
     });
 
     return new Response('', { status: 200 });
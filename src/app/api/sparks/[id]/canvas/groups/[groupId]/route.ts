@@ -0,0 +1,83 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { supabaseAdmin } from '@/lib/supabase/admin';
+import { requireSparkAccess } from '@/lib/auth';
+import { MAX_GROUP_NAME_LENGTH, isSparkSession, sparkItemIds, toCanvasGroup, type CanvasGroupRow } from '@/lib/canvas';
+import { parseVersion, updateVersionedRow, versionedWriteError } from '@/lib/versioned-rows';
+import { publishSparkEvent, requestActor } from '@/lib/spark-events';
+
+// PATCH /api/sparks/[id]/canvas/groups/[groupId] - Rename, recolour, change members or link a chat session
+// Body: { version, name?, color?, itemIds?, sessionId? } — 409 with the current group if version is stale.
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; groupId: string }> }
+) {
+  const { id, groupId } = await params;
+  const access = await requireSparkAccess(id, 'editor');
+  if (!access.ok) return access.response;
+
+  const body = await request.json().catch(() => ({}));
+  const version = parseVersion(body.version);
+  if (version === null) {
+    return NextResponse.json({ error: 'version is required' }, { status: 400 });
+  }
+
+  const changes: Record<string, unknown> = {};
+  if (body.name !== undefined) {
+    const name = typeof body.name === 'string' ? body.name.trim() : '';
+    if (!name || name.length > MAX_GROUP_NAME_LENGTH) {
+      return NextResponse.json({ error: `name must be 1–${MAX_GROUP_NAME_LENGTH} characters` }, { status: 400 });
+    }
+    changes.name = name;
+  }
+  if (typeof body.color === 'string') changes.color = body.color;
+  if (Array.isArray(body.itemIds)) {
+    changes.item_ids = await sparkItemIds(id, body.itemIds.filter((itemId: unknown) => typeof itemId === 'string'));
+  }
+  if (body.sessionId === null) changes.session_id = null;
+  if (typeof body.sessionId === 'string') {
+    if (!(await isSparkSession(id, body.sessionId))) {
+      return NextResponse.json({ error: 'Chat session not found' }, { status: 400 });
+    }
+    changes.session_id = body.sessionId;
+  }
+
+  if (Object.keys(changes).length === 0) {
+    return NextResponse.json({ error: 'Nothing to update' }, { status: 400 });
+  }
+
+  const result = await updateVersionedRow<CanvasGroupRow>(
+    'canvas_groups',
+    { id: groupId, spark_id: id },
+    version,
+    changes
+  );
+  if (!result.ok) return versionedWriteError(result, 'group', toCanvasGroup);
+
+  const group = toCanvasGroup(result.row);
+  publishSparkEvent(id, { type: 'canvas.group', group, created: false }, requestActor(request, access.user));
+
+  return NextResponse.json({ group });
+}
+
+// DELETE /api/sparks/[id]/canvas/groups/[groupId] - Delete a group (its items stay on the canvas)
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; groupId: string }> }
+) {
+  const { id, groupId } = await params;
+  const access = await requireSparkAccess(id, 'editor');
+  if (!access.ok) return access.response;
+
+  const { error } = await supabaseAdmin
+    .from('canvas_groups')
+    .delete()
+    .eq('id', groupId)
+    .eq('spark_id', id);
+
+  if (error) {
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+
+  publishSparkEvent(id, { type: 'canvas.group_deleted', groupId }, requestActor(request, access.user));
+  return NextResponse.json({ success: true });
+}
@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { supabaseAdmin } from '@/lib/supabase/admin';
+import { requireSparkAccess } from '@/lib/auth';
+import { MAX_GROUP_NAME_LENGTH, isSparkSession, sparkItemIds, toCanvasGroup, type CanvasGroupRow } from '@/lib/canvas';
+import { publishSparkEvent, requestActor } from '@/lib/spark-events';
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// POST /api/sparks/[id]/canvas/groups - Create a group
+// Body: { id?, name, color, itemIds, sessionId? } — id lets the canvas keep the one it rendered with.
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const access = await requireSparkAccess(id, 'editor');
+  if (!access.ok) return access.response;
+
+  const body = await request.json().catch(() => ({}));
+  const name = typeof body.name === 'string' ? body.name.trim() : '';
+  if (!name || name.length > MAX_GROUP_NAME_LENGTH) {
+    return NextResponse.json({ error: `name is required (at most ${MAX_GROUP_NAME_LENGTH} characters)` }, { status: 400 });
+  }
+  if (typeof body.color !== 'string' || !Array.isArray(body.itemIds)) {
+    return NextResponse.json({ error: 'color and itemIds are required' }, { status: 400 });
+  }
+  if (body.id !== undefined && (typeof body.id !== 'string' || !UUID_PATTERN.test(body.id))) {
+    return NextResponse.json({ error: 'id must be a UUID' }, { status: 400 });
+  }
+  if (typeof body.sessionId === 'string' && !(await isSparkSession(id, body.sessionId))) {
+    return NextResponse.json({ error: 'Chat session not found' }, { status: 400 });
+  }
+
+  const { data, error } = await supabaseAdmin
+    .from('canvas_groups')
+    .insert({
+      ...(body.id ? { id: body.id } : {}),
+      spark_id: id,
+      name,
+      color: body.color,
+      item_ids: await sparkItemIds(id, body.itemIds.filter((itemId: unknown) => typeof itemId === 'string')),
+      session_id: typeof body.sessionId === 'string' ? body.sessionId : null,
+    })
+    .select()
+    .single();
+
+  if (error || !data) {
+    return NextResponse.json({ error: error?.message ?? 'Failed to create group' }, { status: 500 });
+  }
+
+  const group = toCanvasGroup(data as CanvasGroupRow);
+  publishSparkEvent(id, { type: 'canvas.group', group, created: true }, requestActor(request, access.user));
+
+  return NextResponse.json({ group }, { status: 201 });
+}
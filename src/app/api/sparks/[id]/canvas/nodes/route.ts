@@ -0,0 +1,115 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { supabaseAdmin } from '@/lib/supabase/admin';
+import { requireSparkAccess } from '@/lib/auth';
+import { sparkItemIds, toCanvasNode, type CanvasNodeRow } from '@/lib/canvas';
+import { parseVersion, updateVersionedRow } from '@/lib/versioned-rows';
+import { publishSparkEvent, requestActor } from '@/lib/spark-events';
+import type { CanvasNodePosition } from '@/lib/types';
+
+const MAX_NODES = 1000;
+
+/** Validate a `nodes` array from a request body, or return an error message */
+function parseNodes(value: unknown, requireVersion: boolean): CanvasNodePosition[] | string {
+  if (!Array.isArray(value) || value.length === 0 || value.length > MAX_NODES) {
+    return `nodes must be an array of 1–${MAX_NODES} positions`;
+  }
+  const nodes: CanvasNodePosition[] = [];
+  for (const node of value) {
+    const version = parseVersion(node?.version);
+    if (
+      typeof node?.itemId !== 'string' ||
+      !Number.isFinite(node?.x) ||
+      !Number.isFinite(node?.y) ||
+      (requireVersion && version === null)
+    ) {
+      return `each node needs itemId, x and y${requireVersion ? ' and version' : ''}`;
+    }
+    nodes.push({ itemId: node.itemId, x: node.x, y: node.y, ...(version !== null ? { version } : {}) });
+  }
+  return nodes;
+}
+
+// POST /api/sparks/[id]/canvas/nodes - Place items that have no position yet
+// Body: { nodes: [{ itemId, x, y }] }. Items that already have a position keep it;
+// the response holds the stored row for every item sent.
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const access = await requireSparkAccess(id, 'editor');
+  if (!access.ok) return access.response;
+
+  const body = await request.json().catch(() => ({}));
+  const nodes = parseNodes(body.nodes, false);
+  if (typeof nodes === 'string') {
+    return NextResponse.json({ error: nodes }, { status: 400 });
+  }
+
+  const validIds = await sparkItemIds(id, nodes.map((node) => node.itemId));
+  const valid = new Set(validIds);
+
+  const { error } = await supabaseAdmin.from('canvas_nodes').upsert(
+    nodes
+      .filter((node) => valid.has(node.itemId))
+      .map((node) => ({ item_id: node.itemId, spark_id: id, x: node.x, y: node.y })),
+    { onConflict: 'item_id', ignoreDuplicates: true }
+  );
+  if (error) {
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+
+  const { data: stored } = await supabaseAdmin
+    .from('canvas_nodes')
+    .select('*')
+    .eq('spark_id', id)
+    .in('item_id', validIds);
+
+  const placed = ((stored ?? []) as CanvasNodeRow[]).map(toCanvasNode);
+  if (placed.length > 0) publishSparkEvent(id, { type: 'canvas.nodes', nodes: placed }, requestActor(request, access.user));
+
+  return NextResponse.json({ nodes: placed });
+}
+
+// PATCH /api/sparks/[id]/canvas/nodes - Move items
+// Body: { nodes: [{ itemId, x, y, version }] }. Each move applies only if the node is
+// still at that version; the rest come back in `conflicts` with their current position.
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const access = await requireSparkAccess(id, 'editor');
+  if (!access.ok) return access.response;
+
+  const body = await request.json().catch(() => ({}));
+  const nodes = parseNodes(body.nodes, true);
+  if (typeof nodes === 'string') {
+    return NextResponse.json({ error: nodes }, { status: 400 });
+  }
+
+  const results = await Promise.all(
+    nodes.map((node) =>
+      updateVersionedRow<CanvasNodeRow>(
+        'canvas_nodes',
+        { item_id: node.itemId, spark_id: id },
+        node.version!,
+        { x: node.x, y: node.y }
+      )
+    )
+  );
+
+  for (const result of results) {
+    if (!result.ok && result.reason === 'error') {
+      return NextResponse.json({ error: result.error }, { status: 500 });
+    }
+  }
+
+  const moved = results.flatMap((result) => (result.ok ? [toCanvasNode(result.row)] : []));
+  if (moved.length > 0) publishSparkEvent(id, { type: 'canvas.nodes', nodes: moved }, requestActor(request, access.user));
+
+  return NextResponse.json({
+    nodes: moved,
+    conflicts: results.flatMap((result) => (!result.ok && result.reason === 'conflict' ? [toCanvasNode(result.current)] : [])),
+  });
+}
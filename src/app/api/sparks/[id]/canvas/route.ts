@@ -0,0 +1,20 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireSparkAccess } from '@/lib/auth';
+import { loadCanvasState } from '@/lib/canvas';
+
+// GET /api/sparks/[id]/canvas - Node positions and groups
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const access = await requireSparkAccess(id);
+  if (!access.ok) return access.response;
+
+  try {
+    return NextResponse.json({ canvas: await loadCanvasState(id) });
+  } catch (err) {
+    console.error('[canvas] Failed to load canvas:', err);
+    return NextResponse.json({ error: 'Failed to load canvas' }, { status: 500 });
+  }
+}
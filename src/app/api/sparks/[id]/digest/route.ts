@@ -0,0 +1,106 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { supabaseAdmin } from '@/lib/supabase/admin';
+import { requireSparkAccess } from '@/lib/auth';
+import { getChannelName } from '@/lib/slack';
+import { nextDigestRun } from '@/lib/slack-digest';
+import type { DigestFrequency } from '@/lib/types';
+
+const FREQUENCIES: DigestFrequency[] = ['daily', 'weekly'];
+
+// GET /api/sparks/[id]/digest - This Spark's Slack digest schedule, or null
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const access = await requireSparkAccess(id);
+  if (!access.ok) return access.response;
+
+  const { data, error } = await supabaseAdmin
+    .from('slack_digests')
+    .select('*')
+    .eq('spark_id', id)
+    .maybeSingle();
+
+  if (error) {
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+
+  return NextResponse.json({ digest: data });
+}
+
+// PUT /api/sparks/[id]/digest - Create or update the digest schedule
+// Body: { channel_id, frequency: 'daily' | 'weekly', hour_utc: 0-23, weekday?: 0-6 (Sunday = 0), enabled? }
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const access = await requireSparkAccess(id, 'editor');
+  if (!access.ok) return access.response;
+
+  if (!process.env.SLACK_BOT_TOKEN) {
+    return NextResponse.json({ error: 'SLACK_BOT_TOKEN is not configured' }, { status: 503 });
+  }
+
+  const body = await request.json().catch(() => ({}));
+  const channelId = typeof body.channel_id === 'string' ? body.channel_id.trim() : '';
+  if (!channelId) {
+    return NextResponse.json({ error: 'channel_id is required' }, { status: 400 });
+  }
+  if (!FREQUENCIES.includes(body.frequency)) {
+    return NextResponse.json({ error: 'frequency must be daily or weekly' }, { status: 400 });
+  }
+  const frequency = body.frequency as DigestFrequency;
+  const hourUtc = Number(body.hour_utc);
+  if (!Number.isInteger(hourUtc) || hourUtc < 0 || hourUtc > 23) {
+    return NextResponse.json({ error: 'hour_utc must be an hour from 0 to 23' }, { status: 400 });
+  }
+  const weekday = body.weekday === undefined ? 1 : Number(body.weekday);
+  if (!Number.isInteger(weekday) || weekday < 0 || weekday > 6) {
+    return NextResponse.json({ error: 'weekday must be from 0 (Sunday) to 6' }, { status: 400 });
+  }
+
+  const schedule = { frequency, hour_utc: hourUtc, weekday };
+  const { data, error } = await supabaseAdmin
+    .from('slack_digests')
+    .upsert(
+      {
+        spark_id: id,
+        channel_id: channelId,
+        channel_name: await getChannelName(channelId),
+        ...schedule,
+        enabled: body.enabled !== false,
+        next_run_at: nextDigestRun(schedule).toISOString(),
+        last_error: null,
+        created_by: access.user.id,
+      },
+      { onConflict: 'spark_id' }
+    )
+    .select()
+    .single();
+
+  if (error) {
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+
+  return NextResponse.json({ digest: data });
+}
+
+// DELETE /api/sparks/[id]/digest - Stop sending digests
+export async function DELETE(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const access = await requireSparkAccess(id, 'editor');
+  if (!access.ok) return access.response;
+
+  const { error } = await supabaseAdmin.from('slack_digests').delete().eq('spark_id', id);
+
+  if (error) {
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+
+  return NextResponse.json({ success: true });
+}
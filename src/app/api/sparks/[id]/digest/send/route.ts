@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { supabaseAdmin } from '@/lib/supabase/admin';
+import { requireSparkAccess } from '@/lib/auth';
+import { enqueueDigest } from '@/lib/slack-digest';
+import { toPublicJob } from '@/lib/jobs/queue';
+import { scheduleJobWorker } from '@/lib/jobs/worker';
+
+// POST /api/sparks/[id]/digest/send - Send the digest now, covering activity since the last one
+// Returns 202 with the job; the schedule is unchanged.
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const access = await requireSparkAccess(id, 'editor');
+  if (!access.ok) return access.response;
+
+  const { data: digest } = await supabaseAdmin
+    .from('slack_digests')
+    .select('id, spark_id')
+    .eq('spark_id', id)
+    .maybeSingle();
+
+  if (!digest) {
+    return NextResponse.json({ error: 'No digest is set up for this Spark' }, { status: 404 });
+  }
+
+  try {
+    const job = await enqueueDigest(digest, {
+      origin: process.env.NEXT_PUBLIC_APP_URL || request.nextUrl.origin,
+      createdBy: access.user.id,
+    });
+    scheduleJobWorker();
+    return NextResponse.json({ job: toPublicJob(job) }, { status: 202 });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return NextResponse.json({ error: errorMessage }, { status: 500 });
+  }
+}
@@ -0,0 +1,81 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { supabaseAdmin } from '@/lib/supabase/admin';
+import { requireSparkAccess } from '@/lib/auth';
+import { MAX_COMMENT_LENGTH, toThreadComment, type CommentRow } from '@/lib/discussions';
+import { parseVersion, updateVersionedRow, versionedWriteError } from '@/lib/versioned-rows';
+import { publishSparkEvent, requestActor } from '@/lib/spark-events';
+
+async function findComment(sparkId: string, threadId: string, commentId: string) {
+  const { data } = await supabaseAdmin
+    .from('comments')
+    .select('author_id')
+    .eq('id', commentId)
+    .eq('thread_id', threadId)
+    .eq('spark_id', sparkId)
+    .maybeSingle();
+  return data as Pick<CommentRow, 'author_id'> | null;
+}
+
+// PATCH /api/sparks/[id]/discussions/[threadId]/comments/[commentId] - Edit your own comment
+// Body: { content, version } — 409 with the current comment if version is stale.
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; threadId: string; commentId: string }> }
+) {
+  const { id, threadId, commentId } = await params;
+  const access = await requireSparkAccess(id, 'editor');
+  if (!access.ok) return access.response;
+
+  const body = await request.json().catch(() => ({}));
+  const content = typeof body.content === 'string' ? body.content.trim() : '';
+  const version = parseVersion(body.version);
+  if (!content || content.length > MAX_COMMENT_LENGTH || version === null) {
+    return NextResponse.json({ error: 'content and version are required' }, { status: 400 });
+  }
+
+  const comment = await findComment(id, threadId, commentId);
+  if (!comment) {
+    return NextResponse.json({ error: 'Comment not found' }, { status: 404 });
+  }
+  if (comment.author_id !== access.user.id) {
+    return NextResponse.json({ error: 'Only the author can edit a comment' }, { status: 403 });
+  }
+
+  const result = await updateVersionedRow<CommentRow>(
+    'comments',
+    { id: commentId, thread_id: threadId, spark_id: id },
+    version,
+    { content }
+  );
+  if (!result.ok) return versionedWriteError(result, 'comment', toThreadComment);
+
+  const updated = toThreadComment(result.row);
+  publishSparkEvent(id, { type: 'comment.updated', threadId, comment: updated }, requestActor(request, access.user));
+  return NextResponse.json({ comment: updated });
+}
+
+// DELETE /api/sparks/[id]/discussions/[threadId]/comments/[commentId] - Delete a comment (author or Spark owner)
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; threadId: string; commentId: string }> }
+) {
+  const { id, threadId, commentId } = await params;
+  const access = await requireSparkAccess(id, 'editor');
+  if (!access.ok) return access.response;
+
+  const comment = await findComment(id, threadId, commentId);
+  if (!comment) {
+    return NextResponse.json({ error: 'Comment not found' }, { status: 404 });
+  }
+  if (comment.author_id !== access.user.id && access.role !== 'owner') {
+    return NextResponse.json({ error: 'Only the author or the Spark owner can delete a comment' }, { status: 403 });
+  }
+
+  const { error } = await supabaseAdmin.from('comments').delete().eq('id', commentId);
+  if (error) {
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+
+  publishSparkEvent(id, { type: 'comment.deleted', threadId, commentId }, requestActor(request, access.user));
+  return NextResponse.json({ success: true });
+}
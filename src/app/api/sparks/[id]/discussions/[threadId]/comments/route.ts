@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireSparkAccess } from '@/lib/auth';
+import { MAX_COMMENT_LENGTH, addComment } from '@/lib/discussions';
+import { publishSparkEvent, requestActor } from '@/lib/spark-events';
+import { notifyCommentMentions } from '@/lib/notifications';
+
+// POST /api/sparks/[id]/discussions/[threadId]/comments - Reply to a thread
+// Body: { content }. Replies only ever append, so they need no version.
+// Members mentioned as @Name in content are notified.
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; threadId: string }> }
+) {
+  const { id, threadId } = await params;
+  const access = await requireSparkAccess(id, 'editor');
+  if (!access.ok) return access.response;
+
+  const body = await request.json().catch(() => ({}));
+  const content = typeof body.content === 'string' ? body.content.trim() : '';
+  if (!content || content.length > MAX_COMMENT_LENGTH) {
+    return NextResponse.json({ error: `content is required (at most ${MAX_COMMENT_LENGTH} characters)` }, { status: 400 });
+  }
+
+  const author = { id: access.user.id, name: access.user.display_name || access.user.email };
+
+  try {
+    const comment = await addComment(id, threadId, content, author);
+    if (!comment) {
+      return NextResponse.json({ error: 'Thread not found' }, { status: 404 });
+    }
+    publishSparkEvent(id, { type: 'comment.created', threadId, comment }, requestActor(request, access.user));
+    await notifyCommentMentions(id, author, content, threadId, request.nextUrl.origin);
+    return NextResponse.json({ comment }, { status: 201 });
+  } catch (err) {
+    console.error('[discussions] Failed to add comment:', err);
+    return NextResponse.json({ error: 'Failed to add comment' }, { status: 500 });
+  }
+}
@@ -0,0 +1,74 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { supabaseAdmin } from '@/lib/supabase/admin';
+import { requireSparkAccess } from '@/lib/auth';
+import { toCommentThread, type CommentRow, type CommentThreadRow } from '@/lib/discussions';
+import { parseVersion, updateVersionedRow, versionedWriteError } from '@/lib/versioned-rows';
+import { publishSparkEvent, requestActor } from '@/lib/spark-events';
+
+// PATCH /api/sparks/[id]/discussions/[threadId] - Resolve or reopen a thread
+// Body: { resolved, version } — 409 with the current thread if version is stale.
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; threadId: string }> }
+) {
+  const { id, threadId } = await params;
+  const access = await requireSparkAccess(id, 'editor');
+  if (!access.ok) return access.response;
+
+  const body = await request.json().catch(() => ({}));
+  const version = parseVersion(body.version);
+  if (typeof body.resolved !== 'boolean' || version === null) {
+    return NextResponse.json({ error: 'resolved (boolean) and version are required' }, { status: 400 });
+  }
+
+  const result = await updateVersionedRow<CommentThreadRow>(
+    'comment_threads',
+    { id: threadId, spark_id: id },
+    version,
+    { resolved: body.resolved }
+  );
+
+  // Threads go back with their comments so a conflict can replace the client's copy
+  const withComments = async (row: CommentThreadRow) => {
+    const { data } = await supabaseAdmin
+      .from('comments')
+      .select('*')
+      .eq('thread_id', row.id)
+      .order('created_at', { ascending: true });
+    return toCommentThread(row, (data ?? []) as CommentRow[]);
+  };
+
+  if (!result.ok) {
+    if (result.reason === 'conflict') {
+      return versionedWriteError({ ...result, current: await withComments(result.current) }, 'thread', (thread) => thread);
+    }
+    return versionedWriteError(result, 'thread', (row) => row);
+  }
+
+  const thread = await withComments(result.row);
+  publishSparkEvent(id, { type: 'thread.updated', thread }, requestActor(request, access.user));
+  return NextResponse.json({ thread });
+}
+
+// DELETE /api/sparks/[id]/discussions/[threadId] - Delete a thread and its comments
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; threadId: string }> }
+) {
+  const { id, threadId } = await params;
+  const access = await requireSparkAccess(id, 'editor');
+  if (!access.ok) return access.response;
+
+  const { error } = await supabaseAdmin
+    .from('comment_threads')
+    .delete()
+    .eq('id', threadId)
+    .eq('spark_id', id);
+
+  if (error) {
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+
+  publishSparkEvent(id, { type: 'thread.deleted', threadId }, requestActor(request, access.user));
+  return NextResponse.json({ success: true });
+}
@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireSparkAccess } from '@/lib/auth';
+import { MAX_COMMENT_LENGTH, createCommentThread, loadCommentThreads } from '@/lib/discussions';
+import { publishSparkEvent, requestActor } from '@/lib/spark-events';
+import { notifyCommentMentions } from '@/lib/notifications';
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// GET /api/sparks/[id]/discussions - Comment threads with their comments, oldest first
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const access = await requireSparkAccess(id);
+  if (!access.ok) return access.response;
+
+  try {
+    return NextResponse.json({ threads: await loadCommentThreads(id) });
+  } catch (err) {
+    console.error('[discussions] Failed to load threads:', err);
+    return NextResponse.json({ error: 'Failed to load discussions' }, { status: 500 });
+  }
+}
+
+// POST /api/sparks/[id]/discussions - Open a thread
+// Body: { id, selected_text, content } — id is the one the editor put on the comment mark.
+// Members mentioned as @Name in content are notified.
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const access = await requireSparkAccess(id, 'editor');
+  if (!access.ok) return access.response;
+
+  const body = await request.json().catch(() => ({}));
+  const threadId = typeof body.id === 'string' ? body.id : '';
+  const content = typeof body.content === 'string' ? body.content.trim() : '';
+
+  if (!UUID_PATTERN.test(threadId)) {
+    return NextResponse.json({ error: 'id must be a UUID' }, { status: 400 });
+  }
+  if (!content || content.length > MAX_COMMENT_LENGTH) {
+    return NextResponse.json({ error: `content is required (at most ${MAX_COMMENT_LENGTH} characters)` }, { status: 400 });
+  }
+
+  const author = { id: access.user.id, name: access.user.display_name || access.user.email };
+
+  try {
+    const thread = await createCommentThread(
+      id,
+      {
+        id: threadId,
+        selectedText: typeof body.selected_text === 'string' ? body.selected_text : '',
+        content,
+      },
+      author
+    );
+    publishSparkEvent(id, { type: 'thread.created', thread }, requestActor(request, access.user));
+    await notifyCommentMentions(id, author, content, threadId, request.nextUrl.origin);
+    return NextResponse.json({ thread }, { status: 201 });
+  } catch (err) {
+    console.error('[discussions] Failed to create thread:', err);
+    return NextResponse.json({ error: 'Failed to create thread' }, { status: 500 });
+  }
+}
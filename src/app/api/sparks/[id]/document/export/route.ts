@@ -0,0 +1,93 @@
+import { NextRequest, NextResponse } from 'next/server';
+import type { JSONContent } from '@tiptap/core';
+import { requireSparkAccess } from '@/lib/auth';
+import { supabaseAdmin } from '@/lib/supabase/admin';
+import { loadCommentThreads } from '@/lib/discussions';
+import type { CommentMode, DocumentExportOptions } from '@/lib/document-export/common';
+import { documentToHtml } from '@/lib/document-export/html';
+import { documentToMarkdown } from '@/lib/document-export/markdown';
+import { documentToDocx } from '@/lib/document-export/docx';
+
+const FORMATS = {
+  html: { extension: 'html', contentType: 'text/html; charset=utf-8' },
+  md: { extension: 'md', contentType: 'text/markdown; charset=utf-8' },
+  docx: {
+    extension: 'docx',
+    contentType: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  },
+} as const;
+
+type ExportFormat = keyof typeof FORMATS;
+
+function slugify(text: string): string {
+  return (
+    text
+      .toLowerCase()
+      .normalize('NFKD')
+      .replace(/[^a-z0-9]+/g, '-')
+      .replace(/^-+|-+$/g, '')
+      .slice(0, 60) || 'document'
+  );
+}
+
+async function render(format: ExportFormat, doc: JSONContent, options: DocumentExportOptions): Promise<Uint8Array | string> {
+  switch (format) {
+    case 'html':
+      return documentToHtml(doc, options);
+    case 'md':
+      return documentToMarkdown(doc, options);
+    case 'docx':
+      return documentToDocx(doc, options);
+  }
+}
+
+// GET /api/sparks/[id]/document/export?format=html|md|docx&comments=footnotes|drop - Download the editor document
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const access = await requireSparkAccess(id);
+  if (!access.ok) return access.response;
+
+  const format = (request.nextUrl.searchParams.get('format') ?? 'html') as ExportFormat;
+  if (!Object.hasOwn(FORMATS, format)) {
+    return NextResponse.json({ error: 'format must be html, md or docx' }, { status: 400 });
+  }
+  const comments: CommentMode = request.nextUrl.searchParams.get('comments') === 'drop' ? 'drop' : 'footnotes';
+
+  const { data: spark, error } = await supabaseAdmin
+    .from('sparks')
+    .select('name, metadata')
+    .eq('id', id)
+    .single();
+
+  if (error || !spark) {
+    return NextResponse.json({ error: 'Spark not found' }, { status: 404 });
+  }
+
+  const metadata = (spark.metadata ?? {}) as Record<string, unknown>;
+  const doc = (metadata.editor_content as JSONContent | undefined) ?? { type: 'doc', content: [] };
+
+  try {
+    const threads = comments === 'drop' ? [] : await loadCommentThreads(id);
+    const output = await render(format, doc, { title: spark.name, comments, threads });
+    const body = typeof output === 'string' ? Buffer.from(output, 'utf8') : Buffer.from(output);
+    const { extension, contentType } = FORMATS[format];
+
+    return new NextResponse(body, {
+      headers: {
+        'Content-Type': contentType,
+        'Content-Disposition': `attachment; filename="${slugify(spark.name)}.${extension}"`,
+        'Content-Length': String(body.byteLength),
+        'Cache-Control': 'no-store',
+      },
+    });
+  } catch (err) {
+    console.error('[sparks/document/export] Export failed:', err);
+    return NextResponse.json(
+      { error: err instanceof Error ? err.message : 'Export failed' },
+      { status: 500 }
+    );
+  }
+}
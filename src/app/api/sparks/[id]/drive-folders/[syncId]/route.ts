@@ -0,0 +1,26 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { supabaseAdmin } from '@/lib/supabase/admin';
+import { requireSparkAccess } from '@/lib/auth';
+
+// DELETE /api/sparks/[id]/drive-folders/[syncId] - Stop watching a folder
+// Items already added from the folder stay in the Spark.
+export async function DELETE(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string; syncId: string }> }
+) {
+  const { id, syncId } = await params;
+  const access = await requireSparkAccess(id, 'editor');
+  if (!access.ok) return access.response;
+
+  const { error } = await supabaseAdmin
+    .from('drive_folder_syncs')
+    .delete()
+    .eq('id', syncId)
+    .eq('spark_id', id);
+
+  if (error) {
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+
+  return NextResponse.json({ success: true });
+}
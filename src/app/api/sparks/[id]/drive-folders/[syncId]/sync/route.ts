@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { supabaseAdmin } from '@/lib/supabase/admin';
+import { requireSparkAccess } from '@/lib/auth';
+import { getTokens, sealTokens } from '@/lib/google/oauth';
+import { enqueueDriveFolderSync } from '@/lib/google/folder-sync';
+import { runJobNow, toPublicJob } from '@/lib/jobs/queue';
+import { scheduleJobWorker } from '@/lib/jobs/worker';
+
+// POST /api/sparks/[id]/drive-folders/[syncId]/sync - Check a watched folder now
+// If the caller is connected to Drive, their connection replaces the stored
+// one, which is how a folder whose access expired is brought back.
+// Returns 202 with the sync job; poll GET /api/jobs/[id] for progress.
+export async function POST(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string; syncId: string }> }
+) {
+  const { id, syncId } = await params;
+  const access = await requireSparkAccess(id, 'editor');
+  if (!access.ok) return access.response;
+
+  const { data: sync } = await supabaseAdmin
+    .from('drive_folder_syncs')
+    .select('id, spark_id')
+    .eq('id', syncId)
+    .eq('spark_id', id)
+    .maybeSingle();
+  if (!sync) {
+    return NextResponse.json({ error: 'Folder sync not found' }, { status: 404 });
+  }
+
+  const tokens = await getTokens();
+  if (tokens) {
+    await supabaseAdmin
+      .from('drive_folder_syncs')
+      .update({ sealed_tokens: await sealTokens(tokens) })
+      .eq('id', sync.id);
+  }
+
+  try {
+    // The next scheduled check is usually already queued; bring it forward
+    const job = await enqueueDriveFolderSync(sync, { createdBy: access.user.id });
+    await runJobNow(job.id);
+    scheduleJobWorker();
+    return NextResponse.json({ job: toPublicJob(job) }, { status: 202 });
+  } catch (error) {
+    console.error('[drive] Failed to queue folder sync:', error);
+    return NextResponse.json({ error: 'Failed to queue sync' }, { status: 500 });
+  }
+}
@@ -0,0 +1,97 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { supabaseAdmin } from '@/lib/supabase/admin';
+import { requireSparkAccess } from '@/lib/auth';
+import { getTokens, sealTokens } from '@/lib/google/oauth';
+import { DRIVE_FOLDER_MIME, getDriveFile } from '@/lib/google/drive';
+import { DRIVE_SYNC_COLUMNS, enqueueDriveFolderSync } from '@/lib/google/folder-sync';
+import { toPublicJob } from '@/lib/jobs/queue';
+import { scheduleJobWorker } from '@/lib/jobs/worker';
+
+// GET /api/sparks/[id]/drive-folders - Drive folders watched by this Spark
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const access = await requireSparkAccess(id);
+  if (!access.ok) return access.response;
+
+  const { data, error } = await supabaseAdmin
+    .from('drive_folder_syncs')
+    .select(DRIVE_SYNC_COLUMNS)
+    .eq('spark_id', id)
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+
+  return NextResponse.json({ syncs: data || [] });
+}
+
+// POST /api/sparks/[id]/drive-folders - Watch a Drive folder and import its files
+// Body: { folder_id }. The caller's Drive connection is stored (encrypted)
+// so the folder can be checked in the background.
+// Returns 201 with the sync and its first sync job; poll GET /api/jobs/[id] for progress.
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const access = await requireSparkAccess(id, 'editor');
+  if (!access.ok) return access.response;
+
+  const body = await request.json().catch(() => ({}));
+  const folderId = typeof body.folder_id === 'string' ? body.folder_id.trim() : '';
+  if (!folderId) {
+    return NextResponse.json({ error: 'folder_id is required' }, { status: 400 });
+  }
+
+  const tokens = await getTokens();
+  if (!tokens) {
+    return NextResponse.json({ error: 'Not connected to Google Drive' }, { status: 401 });
+  }
+
+  let folder;
+  try {
+    folder = await getDriveFile(tokens.access_token, folderId);
+  } catch (err) {
+    console.error('[drive] Folder lookup failed:', err);
+    return NextResponse.json({ error: 'Failed to look up the folder' }, { status: 502 });
+  }
+  if (!folder || folder.mimeType !== DRIVE_FOLDER_MIME) {
+    return NextResponse.json({ error: 'Folder not found' }, { status: 404 });
+  }
+
+  const { data: sync, error } = await supabaseAdmin
+    .from('drive_folder_syncs')
+    .insert({
+      spark_id: id,
+      folder_id: folder.id,
+      folder_name: folder.name,
+      sealed_tokens: await sealTokens(tokens),
+      created_by: access.user.id,
+    })
+    .select(DRIVE_SYNC_COLUMNS)
+    .single();
+
+  if (error?.code === '23505') {
+    return NextResponse.json({ error: `${folder.name} is already watched by this Spark` }, { status: 409 });
+  }
+  if (error || !sync) {
+    return NextResponse.json({ error: error?.message ?? 'Failed to save folder sync' }, { status: 500 });
+  }
+
+  try {
+    const job = await enqueueDriveFolderSync(sync, { createdBy: access.user.id });
+    scheduleJobWorker();
+    return NextResponse.json({ sync, job: toPublicJob(job) }, { status: 201 });
+  } catch (error) {
+    console.error('[drive] Failed to queue folder sync:', error);
+    await supabaseAdmin
+      .from('drive_folder_syncs')
+      .update({ status: 'failed', last_error: 'Failed to queue sync' })
+      .eq('id', sync.id);
+    return NextResponse.json({ sync: { ...sync, status: 'failed' }, job: null }, { status: 201 });
+  }
+}
@@ -0,0 +1,67 @@
+/**
+ * GET /api/sparks/[id]/events — Server-Sent Events stream of changes to
+ * a Spark's items, discussions and canvas (see lib/spark-events.ts).
+ *
+ * On connect: sends a `ready` event with the subscriber's user id, then a
+ * `change` event per SparkEvent. `?client=` names the page; events caused
+ * by that page's own writes are not sent back to it.
+ */
+
+import { NextRequest } from 'next/server';
+import { requireSparkAccess } from '@/lib/auth';
+import { subscribeToSpark } from '@/lib/spark-events';
+import type { SparkEvent } from '@/lib/spark-event-types';
+
+export const dynamic = 'force-dynamic';
+
+// Comment lines keep idle connections open through proxies
+const KEEPALIVE_MS = 25_000;
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const access = await requireSparkAccess(id);
+  if (!access.ok) return access.response;
+
+  const clientId = request.nextUrl.searchParams.get('client');
+  const encoder = new TextEncoder();
+
+  const stream = new ReadableStream({
+    start(controller) {
+      const write = (chunk: string) => {
+        try {
+          controller.enqueue(encoder.encode(chunk));
+        } catch {
+          // Client may have disconnected
+        }
+      };
+      const send = (event: string, data: unknown) => write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+
+      send('ready', { userId: access.user.id });
+
+      const unsubscribe = subscribeToSpark(id, (event: SparkEvent) => {
+        if (clientId && event.actor?.clientId === clientId) return;
+        send('change', event);
+      });
+      const keepalive = setInterval(() => write(': keepalive\n\n'), KEEPALIVE_MS);
+
+      // Clean up when the client disconnects
+      request.signal.addEventListener('abort', () => {
+        unsubscribe();
+        clearInterval(keepalive);
+        try { controller.close(); } catch { /* already closed */ }
+      });
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+      'X-Accel-Buffering': 'no',
+    },
+  });
+}
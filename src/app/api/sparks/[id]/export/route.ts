@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireSparkAccess } from '@/lib/auth';
+import { BundleError, exportSparkBundle } from '@/lib/spark-bundle';
+
+// GET /api/sparks/[id]/export?vectors=false - Download the spark as a zip bundle
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const access = await requireSparkAccess(id);
+  if (!access.ok) return access.response;
+
+  const includeVectors = request.nextUrl.searchParams.get('vectors') !== 'false';
+
+  try {
+    const { filename, data } = await exportSparkBundle(id, { includeVectors });
+    return new NextResponse(Buffer.from(data), {
+      headers: {
+        'Content-Type': 'application/zip',
+        'Content-Disposition': `attachment; filename="${filename}"`,
+        'Content-Length': String(data.byteLength),
+        'Cache-Control': 'no-store',
+      },
+    });
+  } catch (err) {
+    if (err instanceof BundleError) {
+      return NextResponse.json({ error: err.message }, { status: err.status });
+    }
+    console.error('[sparks/export] Export failed:', err);
+    return NextResponse.json(
+      { error: err instanceof Error ? err.message : 'Export failed' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,99 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { supabaseAdmin } from '@/lib/supabase/admin';
+import { requireSparkAccess } from '@/lib/auth';
+import type { SparkRole } from '@/lib/types';
+
+const VALID_ROLES: SparkRole[] = ['viewer', 'editor', 'owner'];
+
+/** Load a membership row and the Spark's creator so they can't be demoted or removed. */
+async function loadMember(sparkId: string, memberId: string) {
+  const [memberResult, sparkResult] = await Promise.all([
+    supabaseAdmin
+      .from('spark_members')
+      .select('*')
+      .eq('id', memberId)
+      .eq('spark_id', sparkId)
+      .maybeSingle(),
+    supabaseAdmin.from('sparks').select('owner_id').eq('id', sparkId).single(),
+  ]);
+
+  const member = memberResult.data;
+  const isCreator = !!member?.user_id && member.user_id === sparkResult.data?.owner_id;
+  return { member, isCreator };
+}
+
+// PATCH /api/sparks/[id]/members/[memberId] — Change a member's role (owners only)
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; memberId: string }> }
+) {
+  const { id, memberId } = await params;
+  const access = await requireSparkAccess(id, 'owner');
+  if (!access.ok) return access.response;
+
+  const { role } = await request.json();
+  if (!VALID_ROLES.includes(role)) {
+    return NextResponse.json(
+      { error: `Invalid role. Must be one of: ${VALID_ROLES.join(', ')}` },
+      { status: 400 }
+    );
+  }
+
+  const { member, isCreator } = await loadMember(id, memberId);
+  if (!member) {
+    return NextResponse.json({ error: 'Member not found' }, { status: 404 });
+  }
+  if (isCreator) {
+    return NextResponse.json({ error: "The Spark creator's role cannot be changed" }, { status: 400 });
+  }
+
+  const { data, error } = await supabaseAdmin
+    .from('spark_members')
+    .update({ role })
+    .eq('id', memberId)
+    .select()
+    .single();
+
+  if (error) {
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+
+  return NextResponse.json(data);
+}
+
+// DELETE /api/sparks/[id]/members/[memberId] — Revoke access (owners) or leave (self)
+export async function DELETE(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string; memberId: string }> }
+) {
+  const { id, memberId } = await params;
+  const access = await requireSparkAccess(id);
+  if (!access.ok) return access.response;
+
+  const { member, isCreator } = await loadMember(id, memberId);
+  if (!member) {
+    return NextResponse.json({ error: 'Member not found' }, { status: 404 });
+  }
+  if (isCreator) {
+    return NextResponse.json({ error: 'The Spark creator cannot be removed' }, { status: 400 });
+  }
+
+  const isSelf = member.user_id === access.user.id;
+  if (!isSelf && access.role !== 'owner') {
+    return NextResponse.json(
+      { error: 'This action requires the owner role on this Spark' },
+      { status: 403 }
+    );
+  }
+
+  const { error } = await supabaseAdmin
+    .from('spark_members')
+    .delete()
+    .eq('id', memberId);
+
+  if (error) {
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+
+  return NextResponse.json({ success: true });
+}
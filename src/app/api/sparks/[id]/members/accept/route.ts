@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { supabaseAdmin } from '@/lib/supabase/admin';
+import { requireUser } from '@/lib/auth';
+
+// POST /api/sparks/[id]/members/accept — Accept the current user's pending invite
+export async function POST(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const auth = await requireUser();
+  if (!auth.ok) return auth.response;
+
+  const { data, error } = await supabaseAdmin
+    .from('spark_members')
+    .update({
+      user_id: auth.user.id,
+      status: 'accepted',
+      accepted_at: new Date().toISOString(),
+    })
+    .eq('spark_id', id)
+    .eq('invited_email', auth.user.email.toLowerCase())
+    .eq('status', 'pending')
+    .select()
+    .maybeSingle();
+
+  if (error) {
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+  if (!data) {
+    return NextResponse.json({ error: 'No pending invite for this Spark' }, { status: 404 });
+  }
+
+  return NextResponse.json(data);
+}
@@ -0,0 +1,89 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { supabaseAdmin } from '@/lib/supabase/admin';
+import { requireSparkAccess } from '@/lib/auth';
+import type { SparkRole } from '@/lib/types';
+
+const VALID_ROLES: SparkRole[] = ['viewer', 'editor', 'owner'];
+
+// GET /api/sparks/[id]/members — List members and pending invites
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const access = await requireSparkAccess(id);
+  if (!access.ok) return access.response;
+
+  const { data, error } = await supabaseAdmin
+    .from('spark_members')
+    .select('*, users:user_id (display_name)')
+    .eq('spark_id', id)
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+
+  const members = (data || []).map(({ users, ...member }) => ({
+    ...member,
+    display_name: (users as { display_name: string | null } | null)?.display_name ?? null,
+  }));
+
+  return NextResponse.json({ members, role: access.role });
+}
+
+// POST /api/sparks/[id]/members — Invite someone by email (owners only)
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const access = await requireSparkAccess(id, 'owner');
+  if (!access.ok) return access.response;
+
+  const { email, role } = await request.json();
+
+  if (!email || typeof email !== 'string' || !email.includes('@')) {
+    return NextResponse.json({ error: 'A valid email is required' }, { status: 400 });
+  }
+  if (!VALID_ROLES.includes(role)) {
+    return NextResponse.json(
+      { error: `Invalid role. Must be one of: ${VALID_ROLES.join(', ')}` },
+      { status: 400 }
+    );
+  }
+
+  const invitedEmail = email.trim().toLowerCase();
+
+  const { data: existing } = await supabaseAdmin
+    .from('spark_members')
+    .select('id')
+    .eq('spark_id', id)
+    .eq('invited_email', invitedEmail)
+    .maybeSingle();
+
+  if (existing) {
+    return NextResponse.json(
+      { error: `${invitedEmail} is already a member or has a pending invite` },
+      { status: 409 }
+    );
+  }
+
+  const { data, error } = await supabaseAdmin
+    .from('spark_members')
+    .insert({
+      spark_id: id,
+      invited_email: invitedEmail,
+      role,
+      status: 'pending',
+      invited_by: access.user.id,
+    })
+    .select()
+    .single();
+
+  if (error) {
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+
+  return NextResponse.json(data, { status: 201 });
+}
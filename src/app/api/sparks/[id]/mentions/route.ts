@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireSparkAccess } from '@/lib/auth';
+import { loadMentionableMembers, notifyMentions } from '@/lib/notifications';
+
+// GET /api/sparks/[id]/mentions - Members who can be @mentioned
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const access = await requireSparkAccess(id);
+  if (!access.ok) return access.response;
+
+  try {
+    const members = await loadMentionableMembers(id);
+    return NextResponse.json({
+      members: members.map(({ userId, label }) => ({ user_id: userId, label })),
+    });
+  } catch (err) {
+    console.error('[mentions] Failed to load members:', err);
+    return NextResponse.json({ error: 'Failed to load members' }, { status: 500 });
+  }
+}
+
+// POST /api/sparks/[id]/mentions - Notify people mentioned in the editor document
+// Body: { user_ids, excerpt } — excerpt is the text around the mention.
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const access = await requireSparkAccess(id, 'editor');
+  if (!access.ok) return access.response;
+
+  const body = await request.json().catch(() => ({}));
+  const userIds = Array.isArray(body.user_ids)
+    ? body.user_ids.filter((v: unknown): v is string => typeof v === 'string')
+    : [];
+  if (userIds.length === 0) {
+    return NextResponse.json({ error: 'user_ids is required' }, { status: 400 });
+  }
+
+  try {
+    const notified = await notifyMentions(
+      id,
+      { id: access.user.id, name: access.user.display_name || access.user.email },
+      userIds,
+      {
+        source: 'document',
+        excerpt: typeof body.excerpt === 'string' ? body.excerpt : '',
+        origin: request.nextUrl.origin,
+      }
+    );
+    return NextResponse.json({ notified });
+  } catch (err) {
+    console.error('[mentions] Failed to notify:', err);
+    return NextResponse.json({ error: 'Failed to send notifications' }, { status: 500 });
+  }
+}
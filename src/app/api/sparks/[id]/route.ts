@@ -1,5 +1,11 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { supabaseAdmin } from '@/lib/supabase/admin';
+import { requireSparkAccess } from '@/lib/auth';
+import { deleteSparkUploads } from '@/lib/uploads';
+import { snapshotDocumentIfDue } from '@/lib/document-versions';
+
+/** Columns PATCH can set; ownership, workspace and timestamps stay server-managed */
+const EDITABLE_COLUMNS = ['name', 'description', 'status'] as const;
 
 // GET /api/sparks/[id] - Get a single spark with its items
 export async function GET(
@@ -7,6 +13,8 @@ export async function GET(
   { params }: { params: Promise<{ id: string }> }
 ) {
   const { id } = await params;
+  const access = await requireSparkAccess(id);
+  if (!access.ok) return access.response;
 
   const [sparkResult, itemsResult, artifactsResult] = await Promise.all([
     supabaseAdmin.from('sparks').select('*').eq('id', id).single(),
@@ -27,7 +35,7 @@ export async function GET(
   }
 
   return NextResponse.json({
-    spark: sparkResult.data,
+    spark: { ...sparkResult.data, role: access.role },
     items: itemsResult.data || [],
     artifacts: artifactsResult.data || [],
   });
@@ -39,17 +47,57 @@ export async function PATCH(
   { params }: { params: Promise<{ id: string }> }
 ) {
   const { id } = await params;
+  const access = await requireSparkAccess(id, 'editor');
+  if (!access.ok) return access.response;
   const body = await request.json();
+  const fields: Record<string, unknown> = {};
+  for (const column of EDITABLE_COLUMNS) {
+    if (body[column] !== undefined) fields[column] = body[column];
+  }
 
-  const { data, error } = await supabaseAdmin
-    .from('sparks')
-    .update(body)
-    .eq('id', id)
-    .select()
-    .single();
+  // Metadata is merged key by key in the database, so concurrent saves of
+  // different keys don't clobber each other. Discussions and the canvas
+  // have their own tables and row-level routes now.
+  let changes: Record<string, unknown> | null = null;
+  if (body.metadata && typeof body.metadata === 'object') {
+    const metadata: Record<string, unknown> = { ...body.metadata };
+    delete metadata.discussions;
+    delete metadata.canvas;
+    changes = metadata;
+  }
 
-  if (error) {
-    return NextResponse.json({ error: error.message }, { status: 500 });
+  if (!changes && Object.keys(fields).length === 0) {
+    return NextResponse.json({ error: 'Nothing to update' }, { status: 400 });
+  }
+
+  let data: unknown = null;
+  if (changes) {
+    const { data: merged, error } = await supabaseAdmin
+      .rpc('merge_spark_metadata', { p_spark_id: id, p_changes: changes })
+      .single();
+    if (error) {
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+    data = merged;
+  }
+
+  if (Object.keys(fields).length > 0) {
+    const { data: updated, error } = await supabaseAdmin
+      .from('sparks')
+      .update(fields)
+      .eq('id', id)
+      .select()
+      .single();
+
+    if (error) {
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+    data = updated;
+  }
+
+  // Editor autosaves come through here; take a periodic history snapshot
+  if (changes?.editor_content) {
+    await snapshotDocumentIfDue(id, changes.editor_content, access.user.id);
   }
 
   return NextResponse.json(data);
@@ -61,6 +109,8 @@ export async function DELETE(
   { params }: { params: Promise<{ id: string }> }
 ) {
   const { id } = await params;
+  const access = await requireSparkAccess(id, 'owner');
+  if (!access.ok) return access.response;
 
   const { error } = await supabaseAdmin
     .from('sparks')
@@ -71,5 +121,7 @@ export async function DELETE(
     return NextResponse.json({ error: error.message }, { status: 500 });
   }
 
+  await deleteSparkUploads(id);
+
   return NextResponse.json({ success: true });
 }
@@ -0,0 +1,101 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { supabaseAdmin } from '@/lib/supabase/admin';
+import { requireSparkAccess } from '@/lib/auth';
+import { getChannelName } from '@/lib/slack';
+import { enqueueJob, toPublicJob } from '@/lib/jobs/queue';
+import { scheduleJobWorker } from '@/lib/jobs/worker';
+
+// GET /api/sparks/[id]/slack-channels - Slack channels synced into this Spark
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const access = await requireSparkAccess(id);
+  if (!access.ok) return access.response;
+
+  const { data, error } = await supabaseAdmin
+    .from('slack_channel_syncs')
+    .select('*')
+    .eq('spark_id', id)
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+
+  return NextResponse.json({ syncs: data || [] });
+}
+
+// POST /api/sparks/[id]/slack-channels - Bind a channel and backfill it from a date
+// Body: { channel_id, sync_from } — sync_from is an ISO date; threads started earlier are skipped.
+// Returns 201 with the sync and its backfill job; poll GET /api/jobs/[id] for progress.
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const access = await requireSparkAccess(id, 'editor');
+  if (!access.ok) return access.response;
+
+  if (!process.env.SLACK_BOT_TOKEN) {
+    return NextResponse.json({ error: 'SLACK_BOT_TOKEN is not configured' }, { status: 503 });
+  }
+
+  const body = await request.json().catch(() => ({}));
+  const channelId = typeof body.channel_id === 'string' ? body.channel_id.trim() : '';
+  if (!channelId) {
+    return NextResponse.json({ error: 'channel_id is required' }, { status: 400 });
+  }
+  const syncFrom = new Date(typeof body.sync_from === 'string' ? body.sync_from : NaN);
+  if (isNaN(syncFrom.getTime())) {
+    return NextResponse.json({ error: 'sync_from must be a valid date' }, { status: 400 });
+  }
+  if (syncFrom.getTime() > Date.now()) {
+    return NextResponse.json({ error: 'sync_from cannot be in the future' }, { status: 400 });
+  }
+
+  const channelName = await getChannelName(channelId);
+
+  const { data: sync, error } = await supabaseAdmin
+    .from('slack_channel_syncs')
+    .insert({
+      spark_id: id,
+      channel_id: channelId,
+      channel_name: channelName,
+      sync_from: syncFrom.toISOString(),
+      created_by: access.user.id,
+    })
+    .select()
+    .single();
+
+  if (error?.code === '23505') {
+    return NextResponse.json({ error: `#${channelName} is already synced to this Spark` }, { status: 409 });
+  }
+  if (error || !sync) {
+    return NextResponse.json({ error: error?.message ?? 'Failed to save channel sync' }, { status: 500 });
+  }
+
+  try {
+    const job = await enqueueJob(
+      'slack_channel_backfill',
+      { sync_id: sync.id },
+      {
+        sparkId: id,
+        createdBy: access.user.id,
+        dedupeKey: `slack:backfill:${sync.id}`,
+        maxAttempts: 3,
+      }
+    );
+    scheduleJobWorker();
+    return NextResponse.json({ sync, job: toPublicJob(job) }, { status: 201 });
+  } catch (error) {
+    // The binding still syncs new messages; only the history is missing
+    console.error('[slack-sync] Failed to queue backfill:', error);
+    await supabaseAdmin
+      .from('slack_channel_syncs')
+      .update({ backfill_status: 'failed', backfill_error: 'Failed to queue backfill' })
+      .eq('id', sync.id);
+    return NextResponse.json({ sync: { ...sync, backfill_status: 'failed' }, job: null }, { status: 201 });
+  }
+}
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { supabaseAdmin } from '@/lib/supabase/admin';
+import { requireSparkAccess } from '@/lib/auth';
 
 export interface VectorItem {
   id: string;
@@ -136,6 +137,8 @@ export async function GET(
   { params }: { params: Promise<{ id: string }> }
 ) {
   const { id } = await params;
+  const access = await requireSparkAccess(id);
+  if (!access.ok) return access.response;
 
   // Fetch spark items and web research items in parallel
   const [sparkItemsResult, joinResult] = await Promise.all([
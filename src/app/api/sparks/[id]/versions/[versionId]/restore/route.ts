@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { supabaseAdmin } from '@/lib/supabase/admin';
+import { requireSparkAccess } from '@/lib/auth';
+import { isSameDocument, saveDocumentVersion } from '@/lib/document-versions';
+
+// POST /api/sparks/[id]/versions/[versionId]/restore - Record a restore and return the content to apply
+// Body: { current? } — the live document, kept as a snapshot first so the restore can be undone.
+// The caller applies the returned content to the collaborative document; the server
+// can't write into the Yjs doc, and going through it keeps every connected client in sync.
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; versionId: string }> }
+) {
+  const { id, versionId } = await params;
+  const access = await requireSparkAccess(id, 'editor');
+  if (!access.ok) return access.response;
+
+  const body = await request.json().catch(() => ({}));
+
+  const { data: version } = await supabaseAdmin
+    .from('document_versions')
+    .select('version_number, content')
+    .eq('id', versionId)
+    .eq('spark_id', id)
+    .maybeSingle();
+
+  if (!version) {
+    return NextResponse.json({ error: 'Version not found' }, { status: 404 });
+  }
+
+  const current = body.current;
+  if (current && typeof current === 'object' && !Array.isArray(current)) {
+    const { data: latest } = await supabaseAdmin
+      .from('document_versions')
+      .select('content')
+      .eq('spark_id', id)
+      .order('version_number', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (!latest || !isSameDocument(latest.content, current)) {
+      const saved = await saveDocumentVersion(id, {
+        content: current as Record<string, unknown>,
+        source: 'auto',
+        userId: access.user.id,
+      });
+      if ('error' in saved) {
+        return NextResponse.json({ error: saved.error }, { status: 500 });
+      }
+    }
+  }
+
+  const result = await saveDocumentVersion(id, {
+    content: version.content as Record<string, unknown>,
+    source: 'restore',
+    restoredFrom: version.version_number as number,
+    userId: access.user.id,
+  });
+
+  if ('error' in result) {
+    return NextResponse.json({ error: result.error }, { status: 500 });
+  }
+
+  return NextResponse.json({ version: result.version, content: version.content });
+}
@@ -0,0 +1,26 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { supabaseAdmin } from '@/lib/supabase/admin';
+import { requireSparkAccess } from '@/lib/auth';
+
+// GET /api/sparks/[id]/versions/[versionId] - One version with its content
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string; versionId: string }> }
+) {
+  const { id, versionId } = await params;
+  const access = await requireSparkAccess(id);
+  if (!access.ok) return access.response;
+
+  const { data: version } = await supabaseAdmin
+    .from('document_versions')
+    .select('*')
+    .eq('id', versionId)
+    .eq('spark_id', id)
+    .maybeSingle();
+
+  if (!version) {
+    return NextResponse.json({ error: 'Version not found' }, { status: 404 });
+  }
+
+  return NextResponse.json({ version });
+}
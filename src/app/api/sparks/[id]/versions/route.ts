@@ -0,0 +1,73 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { supabaseAdmin } from '@/lib/supabase/admin';
+import { requireSparkAccess } from '@/lib/auth';
+import { saveDocumentVersion } from '@/lib/document-versions';
+
+const MAX_NAME_LENGTH = 120;
+
+// GET /api/sparks/[id]/versions - Document version history, newest first (without content)
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const access = await requireSparkAccess(id);
+  if (!access.ok) return access.response;
+
+  const { data, error } = await supabaseAdmin
+    .from('document_versions')
+    .select('id, spark_id, version_number, name, source, restored_from, created_by, created_at, users:created_by (display_name)')
+    .eq('spark_id', id)
+    .order('version_number', { ascending: false });
+
+  if (error) {
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+
+  return NextResponse.json({ versions: data || [] });
+}
+
+// POST /api/sparks/[id]/versions - Save a named snapshot
+// Body: { name, content? } — content is the live document; defaults to the last autosave.
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const access = await requireSparkAccess(id, 'editor');
+  if (!access.ok) return access.response;
+
+  const body = await request.json().catch(() => ({}));
+  const name = typeof body.name === 'string' ? body.name.trim() : '';
+  if (!name) {
+    return NextResponse.json({ error: 'name is required' }, { status: 400 });
+  }
+  if (name.length > MAX_NAME_LENGTH) {
+    return NextResponse.json({ error: `name must be at most ${MAX_NAME_LENGTH} characters` }, { status: 400 });
+  }
+
+  let content = body.content as Record<string, unknown> | undefined;
+  if (content !== undefined && (typeof content !== 'object' || content === null || Array.isArray(content))) {
+    return NextResponse.json({ error: 'content must be a document object' }, { status: 400 });
+  }
+  if (!content) {
+    const { data: spark } = await supabaseAdmin.from('sparks').select('metadata').eq('id', id).single();
+    content = (spark?.metadata as Record<string, unknown> | undefined)?.editor_content as Record<string, unknown> | undefined;
+    if (!content) {
+      return NextResponse.json({ error: 'The document is empty' }, { status: 400 });
+    }
+  }
+
+  const result = await saveDocumentVersion(id, {
+    content,
+    source: 'manual',
+    name,
+    userId: access.user.id,
+  });
+
+  if ('error' in result) {
+    return NextResponse.json({ error: result.error }, { status: 500 });
+  }
+
+  return NextResponse.json(result, { status: 201 });
+}
@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireUser } from '@/lib/auth';
+import { BundleError, importSparkBundle, MAX_BUNDLE_BYTES } from '@/lib/spark-bundle';
+import { scheduleJobWorker } from '@/lib/jobs/worker';
+
+// POST /api/sparks/import - Create a spark from an export bundle (multipart: file, name?)
+export async function POST(request: NextRequest) {
+  const auth = await requireUser();
+  if (!auth.ok) return auth.response;
+
+  const formData = await request.formData();
+  const file = formData.get('file');
+  const name = formData.get('name');
+
+  if (!(file instanceof File)) {
+    return NextResponse.json({ error: 'file is required' }, { status: 400 });
+  }
+  if (file.size > MAX_BUNDLE_BYTES) {
+    return NextResponse.json(
+      { error: `Bundle is larger than the ${Math.round(MAX_BUNDLE_BYTES / 1024 / 1024)} MB limit` },
+      { status: 413 }
+    );
+  }
+
+  try {
+    const result = await importSparkBundle(new Uint8Array(await file.arrayBuffer()), {
+      user: auth.user,
+      name: typeof name === 'string' ? name : null,
+    });
+    // Items without usable vectors were queued for embedding
+    if (result.reembedding > 0) scheduleJobWorker();
+    return NextResponse.json({ ...result, spark: { ...result.spark, role: 'owner' } }, { status: 201 });
+  } catch (err) {
+    if (err instanceof BundleError) {
+      return NextResponse.json({ error: err.message }, { status: err.status });
+    }
+    console.error('[sparks/import] Import failed:', err);
+    return NextResponse.json(
+      { error: err instanceof Error ? err.message : 'Import failed' },
+      { status: 500 }
+    );
+  }
+}
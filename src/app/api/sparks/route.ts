@@ -1,22 +1,53 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { supabaseAdmin } from '@/lib/supabase/admin';
+import { requireUser, listSparkRoles } from '@/lib/auth';
 
-// GET /api/sparks - List all sparks
+// GET /api/sparks - List sparks the current user can see, plus pending invites
 export async function GET() {
+  const auth = await requireUser();
+  if (!auth.ok) return auth.response;
+
+  const [roles, invitesResult] = await Promise.all([
+    listSparkRoles(auth.user.id),
+    supabaseAdmin
+      .from('spark_members')
+      .select('spark_id, role')
+      .eq('invited_email', auth.user.email.toLowerCase())
+      .eq('status', 'pending'),
+  ]);
+
+  const invites = (invitesResult.data || []).filter((inv) => !roles.has(inv.spark_id as string));
+  const sparkIds = [...roles.keys(), ...invites.map((inv) => inv.spark_id as string)];
+
+  if (sparkIds.length === 0) {
+    return NextResponse.json([]);
+  }
+
   const { data, error } = await supabaseAdmin
     .from('sparks')
     .select('*')
+    .in('id', sparkIds)
     .order('updated_at', { ascending: false });
 
   if (error) {
     return NextResponse.json({ error: error.message }, { status: 500 });
   }
 
-  return NextResponse.json(data);
+  const inviteRoles = new Map(invites.map((inv) => [inv.spark_id as string, inv.role]));
+  const enriched = data.map((spark) =>
+    roles.has(spark.id)
+      ? { ...spark, role: roles.get(spark.id) }
+      : { ...spark, role: inviteRoles.get(spark.id), membership_status: 'pending' }
+  );
+
+  return NextResponse.json(enriched);
 }
 
 // POST /api/sparks - Create a new spark
 export async function POST(request: NextRequest) {
+  const auth = await requireUser();
+  if (!auth.ok) return auth.response;
+
   const body = await request.json();
   const { name, description } = body;
 
@@ -26,7 +57,7 @@ export async function POST(request: NextRequest) {
 
   const { data, error } = await supabaseAdmin
     .from('sparks')
-    .insert({ name, description: description || null })
+    .insert({ name, description: description || null, owner_id: auth.user.id })
     .select()
     .single();
 
@@ -34,5 +65,21 @@ export async function POST(request: NextRequest) {
     return NextResponse.json({ error: error.message }, { status: 500 });
   }
 
-  return NextResponse.json(data, { status: 201 });
+  // Creator is listed as an owner so the members UI shows them
+  const { error: memberError } = await supabaseAdmin
+    .from('spark_members')
+    .insert({
+      spark_id: data.id,
+      user_id: auth.user.id,
+      invited_email: auth.user.email.toLowerCase(),
+      role: 'owner',
+      status: 'accepted',
+      accepted_at: new Date().toISOString(),
+    });
+
+  if (memberError) {
+    console.error('[sparks] Failed to add owner membership:', memberError.message);
+  }
+
+  return NextResponse.json({ ...data, role: 'owner' }, { status: 201 });
 }
@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireSparkAccess } from '@/lib/auth';
+import { getStorageProvider, UPLOAD_TYPES } from '@/lib/uploads';
+
+const CONTENT_TYPES: Record<string, string> = {
+  ...Object.fromEntries(Object.entries(UPLOAD_TYPES).map(([mime, { extension }]) => [extension, mime])),
+  webp: 'image/webp',
+};
+
+// GET /api/uploads/[...path] - Serve a file from local-disk storage (FILE_STORAGE=local) to the Spark's members
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ path: string[] }> }
+) {
+  const { path } = await params;
+  const storage = getStorageProvider();
+
+  if (storage.name !== 'local' || path.some((segment) => !segment || segment.startsWith('.'))) {
+    return NextResponse.json({ error: 'Not found' }, { status: 404 });
+  }
+
+  // Keys are {sparkId}/{itemId}/…, so only the Spark's members may read them
+  const access = await requireSparkAccess(path[0]);
+  if (!access.ok) return access.response;
+
+  const data = await storage.get(path.join('/'));
+  if (!data) {
+    return NextResponse.json({ error: 'Not found' }, { status: 404 });
+  }
+
+  const extension = path[path.length - 1].split('.').pop()?.toLowerCase() ?? '';
+  return new NextResponse(Buffer.from(data), {
+    headers: {
+      'Content-Type': CONTENT_TYPES[extension] ?? 'application/octet-stream',
+      'Cache-Control': 'private, max-age=3600',
+      'X-Content-Type-Options': 'nosniff',
+      // Uploaded SVGs must not run script on our origin
+      'Content-Security-Policy': "default-src 'none'; style-src 'unsafe-inline'; sandbox",
+    },
+  });
+}
@@ -1,12 +1,13 @@
 'use client';
 
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect, useCallback, useRef } from 'react';
 import { useRouter } from 'next/navigation';
-import { Plus, Sparkles, Search } from 'lucide-react';
+import { Plus, Sparkles, Search, Upload, Loader2 } from 'lucide-react';
 import SparkCard from '@/components/SparkCard';
 import CreateSparkModal from '@/components/CreateSparkModal';
 import { ThemeToggle } from '@/components/ThemeProvider';
 import { ActivityLogButton } from '@/components/ActivityLogPanel';
+import NotificationsInbox from '@/components/NotificationsInbox';
 import type { Spark } from '@/lib/types';
 
 export default function Dashboard() {
@@ -14,6 +15,9 @@ export default function Dashboard() {
   const [loading, setLoading] = useState(true);
   const [showCreateModal, setShowCreateModal] = useState(false);
   const [searchQuery, setSearchQuery] = useState('');
+  const [importing, setImporting] = useState(false);
+  const [importError, setImportError] = useState<string | null>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
   const router = useRouter();
 
   const loadSparks = useCallback(async () => {
@@ -41,6 +45,34 @@ export default function Dashboard() {
     }
   };
 
+  const handleAcceptInvite = async (id: string) => {
+    const res = await fetch(`/api/sparks/${id}/members/accept`, { method: 'POST' });
+    if (res.ok) {
+      loadSparks();
+    }
+  };
+
+  // Create a Spark from a bundle downloaded with Export
+  const handleImport = async (file: File) => {
+    setImporting(true);
+    setImportError(null);
+    try {
+      const formData = new FormData();
+      formData.append('file', file);
+      const res = await fetch('/api/sparks/import', { method: 'POST', body: formData });
+      const data = await res.json();
+      if (!res.ok) {
+        setImportError(data.error || 'Import failed');
+        return;
+      }
+      router.push(`/spark/${data.spark.id}`);
+    } catch {
+      setImportError('Import failed');
+    } finally {
+      setImporting(false);
+    }
+  };
+
   const filteredSparks = sparks.filter(
     (s) =>
       s.name.toLowerCase().includes(searchQuery.toLowerCase()) ||
@@ -60,6 +92,7 @@ export default function Dashboard() {
           <h1 className="text-lg font-semibold text-venus-gray-700">Spark Foundry</h1>
         </div>
         <div className="ml-auto flex items-center gap-3">
+          <NotificationsInbox />
           <ActivityLogButton />
           <ThemeToggle />
         </div>
@@ -74,15 +107,42 @@ export default function Dashboard() {
             Collect, organize, and transform information into business artifacts
           </p>
         </div>
-        <button
-          onClick={() => setShowCreateModal(true)}
-          className="flex items-center gap-2 px-4 py-2.5 bg-venus-purple hover:bg-venus-purple-deep text-white text-sm font-medium rounded-lg transition-colors shadow-sm"
-        >
-          <Plus size={16} />
-          New Spark
-        </button>
+        <div className="flex items-center gap-2">
+          <input
+            ref={importInputRef}
+            type="file"
+            accept=".zip,application/zip"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              e.target.value = '';
+              if (file) handleImport(file);
+            }}
+          />
+          <button
+            onClick={() => importInputRef.current?.click()}
+            disabled={importing}
+            className="flex items-center gap-2 px-4 py-2.5 border border-venus-gray-200 bg-surface hover:bg-venus-gray-50 text-venus-gray-600 text-sm font-medium rounded-lg transition-colors disabled:opacity-50"
+          >
+            {importing ? <Loader2 size={16} className="animate-spin" /> : <Upload size={16} />}
+            {importing ? 'Importing…' : 'Import'}
+          </button>
+          <button
+            onClick={() => setShowCreateModal(true)}
+            className="flex items-center gap-2 px-4 py-2.5 bg-venus-purple hover:bg-venus-purple-deep text-white text-sm font-medium rounded-lg transition-colors shadow-sm"
+          >
+            <Plus size={16} />
+            New Spark
+          </button>
+        </div>
       </div>
 
+      {importError && (
+        <div className="mb-6 px-4 py-3 rounded-lg border border-red-200 bg-red-50 text-sm text-red-700">
+          {importError}
+        </div>
+      )}
+
       {/* Search */}
       {sparks.length > 0 && (
         <div className="relative mb-6">
@@ -116,8 +176,13 @@ export default function Dashboard() {
             <SparkCard
               key={spark.id}
               spark={spark}
-              onClick={() => router.push(`/spark/${spark.id}`)}
+              onClick={() =>
+                spark.membership_status === 'pending'
+                  ? handleAcceptInvite(spark.id)
+                  : router.push(`/spark/${spark.id}`)
+              }
               onDelete={handleDeleteSpark}
+              onAcceptInvite={handleAcceptInvite}
             />
           ))}
         </div>
@@ -1,38 +1,54 @@
 'use client';
 
-import { useState, useEffect, useCallback, useRef } from 'react';
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
 import { useParams, useRouter } from 'next/navigation';
 import {
   ArrowLeft, Plus, Wand2, LayoutGrid, Loader2, Link2, Image, FileText,
   StickyNote, File, HardDrive, Box, Globe, Database, Paperclip, BarChart2,
-  MessageSquare, MessageSquareText, Target, PanelRightClose, PanelRightOpen,
+  MessageSquare, MessageSquareText, Target, PanelRightClose, PanelRightOpen, History,
 } from 'lucide-react';
 import { SlackIcon } from '@/components/SlackIcon';
 import IntegrationsStatus from '@/components/IntegrationsStatus';
 import { ThemeToggle } from '@/components/ThemeProvider';
 import { ActivityLogButton } from '@/components/ActivityLogPanel';
+import NotificationsInbox from '@/components/NotificationsInbox';
 import ItemCard from '@/components/ItemCard';
 import WebResearchCard from '@/components/WebResearchCard';
 import AddItemModal from '@/components/AddItemModal';
 import ChatPanel from '@/components/ChatPanel';
 import ArtifactGenerator from '@/components/ArtifactGenerator';
 import ScorePanel from '@/components/ScorePanel';
+import SparkJobsPanel from '@/components/SparkJobsPanel';
 import DiscussionsPanel from '@/components/DiscussionsPanel';
+import DocumentVersionHistory from '@/components/DocumentVersionHistory';
 import ImageLightbox from '@/components/ImageLightbox';
+import SparkActivityToasts, { useActivityToasts } from '@/components/SparkActivityToasts';
 import ItemsVectorSpace from '@/components/ItemsVectorSpaceDynamic';
 import SparkEditor from '@/components/SparkEditor';
 import PresenceAvatars from '@/components/PresenceAvatars';
+import SparkMembersMenu from '@/components/SparkMembersMenu';
+import SlackDigestMenu from '@/components/SlackDigestMenu';
 import type { CollabUser } from '@/components/PresenceAvatars';
 import SparkCanvasDynamic from '@/components/canvas/SparkCanvasDynamic';
 import type { CommentSubmitData } from '@/components/CommentPopover';
 import { EditorContextProvider, useEditorContext } from '@/lib/editor-context';
 import type { EditorSelection } from '@/lib/editor-context';
 import type { JSONContent } from '@tiptap/react';
-import type { Spark, SparkItem, GeneratedArtifact, ItemType, WebResearchItem, CommentThread, CanvasState } from '@/lib/types';
-import { PenLine, LayoutDashboard } from 'lucide-react';
+import type { Spark, SparkItem, GeneratedArtifact, ItemType, WebResearchItem, CommentThread, CanvasState, MentionMember } from '@/lib/types';
+import {
+  applyCanvasRows,
+  applyRemoteCanvasRows,
+  diffCanvasState,
+  hasCanvasChanges,
+  withoutCanvasItems,
+  type CanvasRows,
+} from '@/lib/canvas-sync';
+import { SPARK_CLIENT_HEADER, type SparkEvent } from '@/lib/spark-event-types';
+import { useSparkEvents } from '@/lib/use-spark-events';
+import { PenLine, LayoutDashboard, Download } from 'lucide-react';
 
 type LeftTab = 'items' | 'graph' | 'chat' | 'generate';
-type RightTab = 'discussions' | 'scoring';
+type RightTab = 'discussions' | 'history' | 'scoring';
 type MiddleView = 'editor' | 'canvas';
 
 /** Thin wrapper — provides the editor context that SparkEditor and ChatPanel share */
@@ -61,12 +77,15 @@ function SparkWorkspacePage() {
   const [saveStatus, setSaveStatus] = useState<'idle' | 'saving' | 'error'>('idle');
   const [rightTab, setRightTab] = useState<RightTab>('discussions');
   const [discussions, setDiscussions] = useState<CommentThread[]>([]);
+  const [mentionMembers, setMentionMembers] = useState<MentionMember[]>([]);
   const [activeThreadId, setActiveThreadId] = useState<string | null>(null);
   const [middleView, setMiddleView] = useState<MiddleView>('editor');
   const [canvasState, setCanvasState] = useState<CanvasState>({ nodePositions: [], groups: [] });
   const [collabUsers, setCollabUsers] = useState<CollabUser[]>([]);
   const [localClientId, setLocalClientId] = useState<number | null>(null);
   const [collabNameOverride, setCollabNameOverride] = useState<string | undefined>(undefined);
+  // Identifies this tab's writes in the live change feed
+  const [clientId] = useState(() => crypto.randomUUID());
 
   // ── Debounced editor auto-save ─────────────────────
   const saveTimerRef = useRef<ReturnType<typeof setTimeout>>(null);
@@ -75,6 +94,9 @@ function SparkWorkspacePage() {
   sparkRef.current = spark;
 
   const handleEditorChange = useCallback((content: JSONContent) => {
+    // Viewers can't write — the PATCH would be rejected anyway
+    if (sparkRef.current?.role === 'viewer') return;
+
     // Clear any pending save
     if (saveTimerRef.current) clearTimeout(saveTimerRef.current);
 
@@ -86,20 +108,16 @@ function SparkWorkspacePage() {
 
       setSaveStatus('saving');
       try {
-        const currentSpark = sparkRef.current;
-        const merged = { ...(currentSpark?.metadata ?? {}), editor_content: content };
+        // The server merges this into the stored metadata
         const res = await fetch(`/api/sparks/${sparkId}`, {
           method: 'PATCH',
           headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({ metadata: merged }),
+          body: JSON.stringify({ metadata: { editor_content: content } }),
           signal: controller.signal,
         });
         if (!res.ok) throw new Error('save failed');
         setSaveStatus('idle');
-        // Keep local spark metadata in sync so next merge is correct
-        if (currentSpark) {
-          setSpark(prev => prev ? { ...prev, metadata: merged } : prev);
-        }
+        setSpark(prev => prev ? { ...prev, metadata: { ...prev.metadata, editor_content: content } } : prev);
       } catch (err: unknown) {
         if (err instanceof DOMException && err.name === 'AbortError') return;
         setSaveStatus('error');
@@ -108,80 +126,112 @@ function SparkWorkspacePage() {
   }, [sparkId]);
 
   // ── Debounced canvas auto-save ──────────────────
+  // Only the rows that changed since the last confirmed state are written,
+  // each with the version it was based on; rows someone else changed in the
+  // meantime come back as conflicts and the server's version is adopted.
   const canvasSaveTimerRef = useRef<ReturnType<typeof setTimeout>>(null);
-  const canvasAbortRef = useRef<AbortController>(null);
+  const canvasStateRef = useRef(canvasState);
+  const savedCanvasRef = useRef<CanvasState>({ nodePositions: [], groups: [] });
+  const canvasSavingRef = useRef(false);
+  const canvasPendingRef = useRef(false);
+
+  const persistCanvas = useCallback(async () => {
+    // One save at a time; changes made meanwhile are picked up right after
+    if (canvasSavingRef.current) {
+      canvasPendingRef.current = true;
+      return;
+    }
+    const changes = diffCanvasState(savedCanvasRef.current, canvasStateRef.current);
+    if (!hasCanvasChanges(changes)) return;
+    canvasSavingRef.current = true;
+
+    const base = `/api/sparks/${sparkId}/canvas`;
+    const send = async (url: string, method: string, body?: unknown) => {
+      const res = await fetch(url, {
+        method,
+        headers: body
+          ? { 'Content-Type': 'application/json', [SPARK_CLIENT_HEADER]: clientId }
+          : { [SPARK_CLIENT_HEADER]: clientId },
+        body: body ? JSON.stringify(body) : undefined,
+      });
+      return { status: res.status, data: await res.json().catch(() => ({})) };
+    };
+
+    const confirmed: Required<CanvasRows> = { nodes: [], groups: [], removedGroupIds: [] };
+    const conflicts: Required<CanvasRows> = { nodes: [], groups: [], removedGroupIds: [] };
+
+    try {
+      await Promise.all([
+        changes.placed.length > 0 && send(`${base}/nodes`, 'POST', { nodes: changes.placed }).then(({ status, data }) => {
+          if (status === 200) confirmed.nodes.push(...data.nodes);
+        }),
+        changes.moved.length > 0 && send(`${base}/nodes`, 'PATCH', { nodes: changes.moved }).then(({ status, data }) => {
+          if (status !== 200) return;
+          confirmed.nodes.push(...data.nodes);
+          conflicts.nodes.push(...data.conflicts);
+        }),
+        ...changes.createdGroups.map((group) =>
+          send(`${base}/groups`, 'POST', {
+            id: group.id,
+            name: group.name,
+            color: group.color,
+            itemIds: group.itemIds,
+            sessionId: group.sessionId ?? null,
+          }).then(({ status, data }) => {
+            if (status === 201) confirmed.groups.push(data.group);
+          })
+        ),
+        ...changes.updatedGroups.map(({ id, body }) =>
+          send(`${base}/groups/${id}`, 'PATCH', body).then(({ status, data }) => {
+            if (status === 200) confirmed.groups.push(data.group);
+            else if (status === 409) conflicts.groups.push(data.current);
+            else if (status === 404) conflicts.removedGroupIds.push(id);
+          })
+        ),
+        ...changes.deletedGroupIds.map((id) =>
+          send(`${base}/groups/${id}`, 'DELETE').then(({ status }) => {
+            if (status === 200 || status === 404) confirmed.removedGroupIds.push(id);
+          })
+        ),
+      ]);
+    } catch {
+      // Network failure — whatever didn't confirm is retried on the next change
+    } finally {
+      canvasSavingRef.current = false;
+    }
+
+    savedCanvasRef.current = applyCanvasRows(
+      applyCanvasRows(savedCanvasRef.current, confirmed, 'replace'),
+      conflicts,
+      'replace'
+    );
+    const local = applyCanvasRows(applyCanvasRows(canvasStateRef.current, confirmed, 'version'), conflicts, 'replace');
+    canvasStateRef.current = local;
+    setCanvasState(local);
+
+    if (canvasPendingRef.current) {
+      canvasPendingRef.current = false;
+      void persistCanvas();
+    }
+  }, [sparkId, clientId]);
 
   const handleCanvasStateChange = useCallback((updated: CanvasState) => {
+    canvasStateRef.current = updated;
     setCanvasState(updated);
+    if (sparkRef.current?.role === 'viewer') return;
     if (canvasSaveTimerRef.current) clearTimeout(canvasSaveTimerRef.current);
-    canvasSaveTimerRef.current = setTimeout(async () => {
-      canvasAbortRef.current?.abort();
-      const controller = new AbortController();
-      canvasAbortRef.current = controller;
-      try {
-        const currentSpark = sparkRef.current;
-        const merged = { ...(currentSpark?.metadata ?? {}), canvas: updated };
-        const res = await fetch(`/api/sparks/${sparkId}`, {
-          method: 'PATCH',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({ metadata: merged }),
-          signal: controller.signal,
-        });
-        if (!res.ok) throw new Error('save failed');
-        if (currentSpark) {
-          setSpark(prev => prev ? { ...prev, metadata: merged } : prev);
-        }
-      } catch (err: unknown) {
-        if (err instanceof DOMException && err.name === 'AbortError') return;
-      }
-    }, 1000);
-  }, [sparkId]);
+    canvasSaveTimerRef.current = setTimeout(persistCanvas, 1000);
+  }, [persistCanvas]);
 
   // Cleanup on unmount
   useEffect(() => {
     return () => {
       if (saveTimerRef.current) clearTimeout(saveTimerRef.current);
       abortRef.current?.abort();
-      if (discSaveTimerRef.current) clearTimeout(discSaveTimerRef.current);
-      discAbortRef.current?.abort();
       if (canvasSaveTimerRef.current) clearTimeout(canvasSaveTimerRef.current);
-      canvasAbortRef.current?.abort();
     };
   }, []);
 
-  // ── Debounced discussion auto-save ──────────────────
-  const discSaveTimerRef = useRef<ReturnType<typeof setTimeout>>(null);
-  const discAbortRef = useRef<AbortController>(null);
-  const discussionsRef = useRef(discussions);
-  discussionsRef.current = discussions;
-
-  const saveDiscussions = useCallback((updated: CommentThread[]) => {
-    setDiscussions(updated);
-    if (discSaveTimerRef.current) clearTimeout(discSaveTimerRef.current);
-    discSaveTimerRef.current = setTimeout(async () => {
-      discAbortRef.current?.abort();
-      const controller = new AbortController();
-      discAbortRef.current = controller;
-      try {
-        const currentSpark = sparkRef.current;
-        const merged = { ...(currentSpark?.metadata ?? {}), discussions: updated };
-        const res = await fetch(`/api/sparks/${sparkId}`, {
-          method: 'PATCH',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({ metadata: merged }),
-          signal: controller.signal,
-        });
-        if (!res.ok) throw new Error('save failed');
-        if (currentSpark) {
-          setSpark(prev => prev ? { ...prev, metadata: merged } : prev);
-        }
-      } catch (err: unknown) {
-        if (err instanceof DOMException && err.name === 'AbortError') return;
-        // silently fail for discussion save
-      }
-    }, 500);
-  }, [sparkId]);
-
   // Resizable three-column layout
   const [leftWidth, setLeftWidth] = useState(420);
   const [rightWidth, setRightWidth] = useState(280);
@@ -224,21 +274,32 @@ function SparkWorkspacePage() {
 
   const loadSparkData = useCallback(async () => {
     try {
-      const [sparkRes, researchRes] = await Promise.all([
+      const [sparkRes, researchRes, discussionsRes, canvasRes, mentionsRes] = await Promise.all([
         fetch(`/api/sparks/${sparkId}`),
         fetch(`/api/research?spark_id=${sparkId}`),
+        fetch(`/api/sparks/${sparkId}/discussions`),
+        fetch(`/api/sparks/${sparkId}/canvas`),
+        fetch(`/api/sparks/${sparkId}/mentions`),
       ]);
       if (sparkRes.ok) {
         const data = await sparkRes.json();
         setSpark(data.spark);
         setItems(data.items);
         setArtifacts(data.artifacts);
-        // Load persisted discussions from metadata
-        const savedDiscussions = (data.spark.metadata?.discussions ?? []) as CommentThread[];
-        // Load canvas state from metadata
-        const savedCanvas = (data.spark.metadata?.canvas ?? { nodePositions: [], groups: [] }) as CanvasState;
-        setCanvasState(savedCanvas);
-        setDiscussions(savedDiscussions);
+        if (discussionsRes.ok) {
+          const { threads } = await discussionsRes.json();
+          setDiscussions(threads);
+        }
+        if (mentionsRes.ok) {
+          const { members } = await mentionsRes.json();
+          setMentionMembers(members);
+        }
+        if (canvasRes.ok) {
+          const { canvas } = await canvasRes.json();
+          savedCanvasRef.current = canvas;
+          canvasStateRef.current = canvas;
+          setCanvasState(canvas);
+        }
       } else {
         router.push('/');
       }
@@ -307,7 +368,24 @@ function SparkWorkspacePage() {
   }, [editorCtx]);
 
   // ── Discussion handlers ────────────────────────────
-  const handleCommentCreate = useCallback((data: CommentSubmitData) => {
+  // Each action is its own row-level write. The UI updates optimistically and
+  // then takes the server's row (real author, ids and version).
+  const discussionsUrl = `/api/sparks/${sparkId}/discussions`;
+
+  const replaceThread = useCallback((thread: CommentThread) => {
+    setDiscussions(prev => prev.map(t => t.id === thread.id ? thread : t));
+  }, []);
+
+  // A member was @mentioned in the document — the server records and delivers the notification
+  const handleMention = useCallback((userId: string, excerpt: string) => {
+    fetch(`/api/sparks/${sparkId}/mentions`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ user_ids: [userId], excerpt }),
+    }).catch((err) => console.error('[mentions] Failed to notify:', err));
+  }, [sparkId]);
+
+  const handleCommentCreate = useCallback(async (data: CommentSubmitData) => {
     const thread: CommentThread = {
       id: data.threadId,
       selectedText: data.selectedText,
@@ -319,37 +397,65 @@ function SparkWorkspacePage() {
         authorName: data.authorName,
         content: data.commentText,
         createdAt: new Date().toISOString(),
+        version: 1,
       }],
+      version: 1,
     };
-    const updated = [...discussionsRef.current, thread];
-    saveDiscussions(updated);
+    setDiscussions(prev => [...prev, thread]);
     setActiveThreadId(thread.id);
     setRightTab('discussions');
-  }, [saveDiscussions]);
 
-  const handleResolveThread = useCallback((threadId: string) => {
-    const updated = discussionsRef.current.map(t =>
-      t.id === threadId ? { ...t, resolved: true } : t,
-    );
-    saveDiscussions(updated);
+    const res = await fetch(discussionsUrl, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', [SPARK_CLIENT_HEADER]: clientId },
+      body: JSON.stringify({ id: data.threadId, selected_text: data.selectedText, content: data.commentText }),
+    });
+    if (res.ok) {
+      replaceThread((await res.json()).thread);
+    } else {
+      console.error('[discussions] Failed to create thread:', res.status);
+    }
+  }, [discussionsUrl, clientId, replaceThread]);
+
+  const handleResolveThread = useCallback(async (threadId: string) => {
+    const thread = discussions.find(t => t.id === threadId);
+    if (!thread) return;
+    replaceThread({ ...thread, resolved: true });
     // Also update the editor mark to reflect resolved state
     editorCtx?.getEditor()?.commands.resolveComment(threadId);
     setActiveThreadId(null);
-  }, [saveDiscussions, editorCtx]);
-
-  const handleAddReply = useCallback((threadId: string, text: string) => {
-    const reply = {
-      id: crypto.randomUUID(),
-      authorId: 'current-user',
-      authorName: 'You',
-      content: text,
-      createdAt: new Date().toISOString(),
-    };
-    const updated = discussionsRef.current.map(t =>
-      t.id === threadId ? { ...t, comments: [...t.comments, reply] } : t,
-    );
-    saveDiscussions(updated);
-  }, [saveDiscussions]);
+
+    const res = await fetch(`${discussionsUrl}/${threadId}`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json', [SPARK_CLIENT_HEADER]: clientId },
+      body: JSON.stringify({ resolved: true, version: thread.version }),
+    });
+    const body = await res.json().catch(() => ({}));
+    if (res.ok) {
+      replaceThread(body.thread);
+    } else if (res.status === 409 && body.current) {
+      // Someone else changed the thread first — show what they saved
+      replaceThread(body.current);
+    } else {
+      replaceThread(thread);
+    }
+  }, [discussions, discussionsUrl, clientId, replaceThread, editorCtx]);
+
+  const handleAddReply = useCallback(async (threadId: string, text: string) => {
+    const res = await fetch(`${discussionsUrl}/${threadId}/comments`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', [SPARK_CLIENT_HEADER]: clientId },
+      body: JSON.stringify({ content: text }),
+    });
+    if (!res.ok) {
+      console.error('[discussions] Failed to add reply:', res.status);
+      return;
+    }
+    const { comment } = await res.json();
+    setDiscussions(prev => prev.map(t =>
+      t.id === threadId ? { ...t, comments: [...t.comments, comment] } : t,
+    ));
+  }, [discussionsUrl, clientId]);
 
   const handleCommentMarkClick = useCallback((threadId: string) => {
     setActiveThreadId(threadId);
@@ -366,6 +472,95 @@ function SparkWorkspacePage() {
     setCollabNameOverride(name);
   }, []);
 
+  // ── Live changes from other tabs ──────────────────
+  const resolvePresence = useCallback(
+    (userId: string) => collabUsers.find(u => u.userId === userId) ?? null,
+    [collabUsers],
+  );
+  const activity = useActivityToasts(resolvePresence);
+  const pushActivity = activity.push;
+  const currentUserIdRef = useRef<string | null>(null);
+
+  const applyRemoteCanvas = useCallback((rows: CanvasRows) => {
+    const merged = applyRemoteCanvasRows(savedCanvasRef.current, canvasStateRef.current, rows);
+    savedCanvasRef.current = merged.saved;
+    canvasStateRef.current = merged.local;
+    setCanvasState(merged.local);
+  }, []);
+
+  const handleSparkEvent = useCallback((event: SparkEvent) => {
+    switch (event.type) {
+      case 'items.created':
+      case 'items.updated': {
+        const incoming = new Map(event.items.map(i => [i.id, i]));
+        setItems(prev => {
+          const known = new Set(prev.map(i => i.id));
+          const updated = prev.map(i => incoming.get(i.id) ?? i);
+          // Newest first, like the initial load
+          return event.type === 'items.created'
+            ? [...event.items.filter(i => !known.has(i.id)), ...updated]
+            : updated;
+        });
+        break;
+      }
+      case 'items.deleted': {
+        const removed = new Set(event.itemIds);
+        setItems(prev => prev.filter(i => !removed.has(i.id)));
+        savedCanvasRef.current = withoutCanvasItems(savedCanvasRef.current, event.itemIds);
+        canvasStateRef.current = withoutCanvasItems(canvasStateRef.current, event.itemIds);
+        setCanvasState(canvasStateRef.current);
+        break;
+      }
+      case 'thread.created':
+        setDiscussions(prev => prev.some(t => t.id === event.thread.id) ? prev : [...prev, event.thread]);
+        break;
+      case 'thread.updated':
+        setDiscussions(prev => prev.map(t =>
+          t.id === event.thread.id && event.thread.version >= t.version ? event.thread : t,
+        ));
+        break;
+      case 'thread.deleted':
+        setDiscussions(prev => prev.filter(t => t.id !== event.threadId));
+        break;
+      case 'comment.created':
+      case 'comment.updated':
+        setDiscussions(prev => prev.map(t => {
+          if (t.id !== event.threadId) return t;
+          const existing = t.comments.find(c => c.id === event.comment.id);
+          if (!existing) return { ...t, comments: [...t.comments, event.comment] };
+          if (event.comment.version < existing.version) return t;
+          return { ...t, comments: t.comments.map(c => c.id === event.comment.id ? event.comment : c) };
+        }));
+        break;
+      case 'comment.deleted':
+        setDiscussions(prev => prev.map(t =>
+          t.id === event.threadId ? { ...t, comments: t.comments.filter(c => c.id !== event.commentId) } : t,
+        ));
+        break;
+      case 'canvas.nodes':
+        applyRemoteCanvas({ nodes: event.nodes });
+        break;
+      case 'canvas.group':
+        applyRemoteCanvas({ groups: [event.group] });
+        break;
+      case 'canvas.group_deleted':
+        applyRemoteCanvas({ removedGroupIds: [event.groupId] });
+        break;
+    }
+
+    // Your own changes from another tab update the page without a toast
+    if (event.actor?.userId !== currentUserIdRef.current) pushActivity(event);
+  }, [applyRemoteCanvas, pushActivity]);
+
+  const sparkEventHandlers = useMemo(
+    () => ({ onChange: handleSparkEvent, onResync: loadSparkData }),
+    [handleSparkEvent, loadSparkData],
+  );
+  const currentUserId = useSparkEvents(sparkId, clientId, sparkEventHandlers);
+  useEffect(() => {
+    currentUserIdRef.current = currentUserId;
+  }, [currentUserId]);
+
   // ── Tab config ──────────────────────────────────────
   const tabConfig: { id: LeftTab; icon: typeof LayoutGrid; label: string; count?: number }[] = [
     { id: 'items', icon: LayoutGrid, label: 'Items', count: items.length + researchItems.length || undefined },
@@ -383,6 +578,8 @@ function SparkWorkspacePage() {
 
   if (!spark) return null;
 
+  const canEdit = spark.role !== 'viewer';
+
   return (
     <div className="h-screen flex flex-col">
 
@@ -409,14 +606,27 @@ function SparkWorkspacePage() {
             localClientId={localClientId}
             onNameChange={handleCollabNameChange}
           />
+          {spark.role && <SparkMembersMenu sparkId={sparkId} role={spark.role} />}
+          {canEdit && <SlackDigestMenu sparkId={sparkId} />}
           <IntegrationsStatus />
-          <button
-            onClick={() => setLeftTab('generate')}
-            className="flex items-center gap-1.5 px-3 py-1.5 bg-venus-purple hover:bg-venus-purple-deep text-white text-xs font-semibold rounded-lg transition-colors"
+          <a
+            href={`/api/sparks/${sparkId}/export`}
+            download
+            title="Export Spark as a zip bundle"
+            className="flex items-center justify-center w-8 h-8 rounded-md hover:bg-venus-gray-100 text-venus-gray-600 transition-colors"
           >
-            <Wand2 size={13} />
-            Generate
-          </button>
+            <Download size={16} />
+          </a>
+          {canEdit && (
+            <button
+              onClick={() => setLeftTab('generate')}
+              className="flex items-center gap-1.5 px-3 py-1.5 bg-venus-purple hover:bg-venus-purple-deep text-white text-xs font-semibold rounded-lg transition-colors"
+            >
+              <Wand2 size={13} />
+              Generate
+            </button>
+          )}
+          <NotificationsInbox />
           <ActivityLogButton />
           <ThemeToggle />
         </div>
@@ -455,7 +665,7 @@ function SparkWorkspacePage() {
             ))}
 
             {/* Add Item — only on items/graph tabs */}
-            {(leftTab === 'items' || leftTab === 'graph') && (
+            {canEdit && (leftTab === 'items' || leftTab === 'graph') && (
               <button
                 onClick={() => setShowAddItemModal(true)}
                 className="flex items-center gap-1 px-2.5 py-1.5 ml-auto mb-1 bg-venus-purple hover:bg-venus-purple-deep text-white text-xs font-medium rounded-md transition-colors shrink-0"
@@ -472,6 +682,9 @@ function SparkWorkspacePage() {
             {/* Items list */}
             {leftTab === 'items' && (
               <div className="flex-1 overflow-y-auto px-4 py-4">
+                {/* Imports and embedding running in the background */}
+                <SparkJobsPanel sparkId={sparkId} canEdit={canEdit} onJobsSettled={loadSparkData} />
+
                 {/* Type filter chips */}
                 {availableTypes.length > 1 && (
                   <div className="flex flex-wrap gap-1.5 mb-4">
@@ -560,13 +773,15 @@ function SparkWorkspacePage() {
                     <p className="text-sm text-venus-gray-500 mb-4">
                       Add links, text, images, and notes to build your Spark.
                     </p>
-                    <button
-                      onClick={() => setShowAddItemModal(true)}
-                      className="inline-flex items-center gap-1.5 px-4 py-2 bg-venus-purple hover:bg-venus-purple-deep text-white text-sm font-medium rounded-lg transition-colors"
-                    >
-                      <Plus size={14} />
-                      Add First Item
-                    </button>
+                    {canEdit && (
+                      <button
+                        onClick={() => setShowAddItemModal(true)}
+                        className="inline-flex items-center gap-1.5 px-4 py-2 bg-venus-purple hover:bg-venus-purple-deep text-white text-sm font-medium rounded-lg transition-colors"
+                      >
+                        <Plus size={14} />
+                        Add First Item
+                      </button>
+                    )}
                   </div>
                 )}
               </div>
@@ -592,6 +807,7 @@ function SparkWorkspacePage() {
                 <ArtifactGenerator
                   sparkId={sparkId}
                   artifacts={artifacts}
+                  canEdit={canEdit}
                   onGenerated={loadSparkData}
                 />
               </div>
@@ -646,6 +862,9 @@ function SparkWorkspacePage() {
                 sparkItems={items}
                 onPresenceChange={handlePresenceChange}
                 collabNameOverride={collabNameOverride}
+                collabUserId={currentUserId}
+                mentionMembers={mentionMembers}
+                onMention={handleMention}
               />
             </div>
           )}
@@ -701,6 +920,7 @@ function SparkWorkspacePage() {
             </button>
             {rightOpen && ([
               { id: 'discussions' as RightTab, icon: MessageSquareText, label: 'Discussions', count: discussions.filter(t => !t.resolved).length || undefined },
+              { id: 'history' as RightTab, icon: History, label: 'History', count: undefined as number | undefined },
               { id: 'scoring' as RightTab, icon: Target, label: 'Scoring', count: undefined as number | undefined },
             ]).map(({ id, icon: Icon, label, count }) => (
               <button
@@ -736,6 +956,8 @@ function SparkWorkspacePage() {
                   onResolveThread={handleResolveThread}
                   onAddReply={handleAddReply}
                 />
+              ) : rightTab === 'history' ? (
+                <DocumentVersionHistory sparkId={sparkId} canEdit={canEdit} />
               ) : (
                 <ScorePanel sparkItems={items} canvasGroups={canvasState.groups} />
               )}
@@ -760,6 +982,8 @@ function SparkWorkspacePage() {
         />
       )}
 
+      <SparkActivityToasts toasts={activity.toasts} onDismiss={activity.dismiss} />
+
     </div>
   );
 }
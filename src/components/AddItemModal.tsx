@@ -7,6 +7,9 @@ import type { ItemType } from '@/lib/types';
 import ContentstackEntriesPanel from './ContentstackEntriesPanel';
 import ContentstackAssetsPanel from './ContentstackAssetsPanel';
 import ClarityPanel from './ClarityPanel';
+import SlackChannelSyncPanel from './SlackChannelSyncPanel';
+import DriveFolderPanel from './DriveFolderPanel';
+import { SlackIcon } from './SlackIcon';
 
 interface AddItemModalProps {
   isOpen: boolean;
@@ -31,11 +34,12 @@ const itemTypes: { type: ItemType; label: string; icon: typeof Link2; descriptio
   { type: 'text', label: 'Text', icon: FileText, description: 'Add a block of text or article content' },
   { type: 'note', label: 'Note', icon: StickyNote, description: 'Add a quick note or observation' },
   { type: 'image', label: 'Image', icon: Image, description: 'Add an image URL' },
-  { type: 'file', label: 'File', icon: File, description: 'Reference an external file' },
+  { type: 'file', label: 'File', icon: File, description: 'Upload a file, or add a PDF, Word or PowerPoint file by URL' },
   { type: 'google_drive', label: 'Drive', icon: HardDrive, description: 'Add a file from Google Drive' },
   { type: 'contentstack_entry', label: 'CS Entries', icon: Database, description: 'Import entries from Contentstack' },
   { type: 'contentstack_asset', label: 'CS Assets', icon: Paperclip, description: 'Import assets from Contentstack' },
   { type: 'clarity_insight', label: 'Clarity', icon: BarChart2, description: 'Import analytics from Microsoft Clarity' },
+  { type: 'slack_message', label: 'Slack', icon: SlackIcon as unknown as typeof Link2, description: 'Sync a Slack channel into this Spark' },
 ];
 
 const contentLabel: Record<string, string> = {
@@ -43,7 +47,7 @@ const contentLabel: Record<string, string> = {
   text: 'Content',
   note: 'Note',
   image: 'Image URL',
-  file: 'File URL or Path',
+  file: 'Or add by URL',
   google_drive: 'Google Drive File',
 };
 
@@ -63,6 +67,10 @@ export default function AddItemModal({ isOpen, sparkId, onClose, onAdded }: AddI
   const [tags, setTags] = useState('');
   const [loading, setLoading] = useState(false);
 
+  // File upload state (File tab) — an upload takes precedence over a URL
+  const [uploadFile, setUploadFile] = useState<File | null>(null);
+  const [uploadError, setUploadError] = useState<string | null>(null);
+
   // Google Drive state
   const [driveConnected, setDriveConnected] = useState<boolean | null>(null); // null = loading
   const [driveEmail, setDriveEmail] = useState<string | null>(null);
@@ -70,6 +78,8 @@ export default function AddItemModal({ isOpen, sparkId, onClose, onAdded }: AddI
   const [driveResults, setDriveResults] = useState<DriveFile[]>([]);
   const [driveSearching, setDriveSearching] = useState(false);
   const [selectedDriveFile, setSelectedDriveFile] = useState<DriveFile | null>(null);
+  // Add a single file, or watch whole folders
+  const [driveMode, setDriveMode] = useState<'files' | 'folders'>('files');
 
   // Check Google Drive connection status when Drive tab is selected
   const checkDriveStatus = useCallback(async () => {
@@ -146,8 +156,11 @@ export default function AddItemModal({ isOpen, sparkId, onClose, onAdded }: AddI
     setDriveQuery('');
     setDriveResults([]);
     setSelectedDriveFile(null);
+    setDriveMode('files');
     setDriveConnected(null);
     setDriveEmail(null);
+    setUploadFile(null);
+    setUploadError(null);
   };
 
   const handleConnectGoogle = () => {
@@ -184,6 +197,26 @@ export default function AddItemModal({ isOpen, sparkId, onClose, onAdded }: AddI
 
     setLoading(true);
     try {
+      if (selectedType === 'file' && uploadFile) {
+        const form = new FormData();
+        form.append('file', uploadFile);
+        form.append('spark_id', sparkId);
+        form.append('title', title.trim());
+        if (tags.trim()) form.append('tags', tags);
+
+        setUploadError(null);
+        const res = await fetch('/api/items/upload', { method: 'POST', body: form });
+        if (res.ok) {
+          resetForm();
+          onAdded();
+          onClose();
+        } else {
+          const data = await res.json().catch(() => null);
+          setUploadError(data?.error || 'Upload failed');
+        }
+        return;
+      }
+
       const metadata: Record<string, unknown> = {};
       if (tags.trim()) {
         metadata.tags = tags.split(',').map(t => t.trim()).filter(Boolean);
@@ -229,7 +262,8 @@ export default function AddItemModal({ isOpen, sparkId, onClose, onAdded }: AddI
 
   const isTextArea = selectedType === 'text' || selectedType === 'note';
   const isDrive = selectedType === 'google_drive';
-  const isExternalPanel = selectedType === 'contentstack_entry' || selectedType === 'contentstack_asset' || selectedType === 'clarity_insight';
+  const isDriveFolders = isDrive && driveConnected === true && driveMode === 'folders';
+  const isExternalPanel = selectedType === 'contentstack_entry' || selectedType === 'contentstack_asset' || selectedType === 'clarity_insight' || selectedType === 'slack_message';
 
   return (
     <div className="fixed inset-0 z-50 flex items-center justify-center">
@@ -279,6 +313,9 @@ export default function AddItemModal({ isOpen, sparkId, onClose, onAdded }: AddI
             onImported={() => { onAdded(); onClose(); }}
           />
         )}
+        {selectedType === 'slack_message' && (
+          <SlackChannelSyncPanel sparkId={sparkId} onSynced={onAdded} />
+        )}
 
         {!isExternalPanel && (
         <form onSubmit={handleSubmit}>
@@ -326,68 +363,94 @@ export default function AddItemModal({ isOpen, sparkId, onClose, onAdded }: AddI
                     </button>
                   </div>
 
-                  {/* Search input with typeahead */}
-                  <div className="relative mb-3">
-                    <Search size={14} className="absolute left-3 top-1/2 -translate-y-1/2 text-venus-gray-400" />
-                    <input
-                      type="text"
-                      value={driveQuery}
-                      onChange={(e) => handleDriveQueryChange(e.target.value)}
-                      placeholder="Search your Google Drive..."
-                      className="w-full pl-9 pr-9 py-2 border border-venus-gray-200 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-venus-purple/30 focus:border-venus-purple transition-colors"
-                      autoFocus
-                    />
-                    {driveSearching && (
-                      <Loader2 size={14} className="absolute right-3 top-1/2 -translate-y-1/2 text-venus-gray-400 animate-spin" />
-                    )}
+                  {/* Files / folders toggle */}
+                  <div className="flex gap-1 p-0.5 mb-3 bg-venus-gray-100 rounded-lg">
+                    {(['files', 'folders'] as const).map((mode) => (
+                      <button
+                        key={mode}
+                        type="button"
+                        onClick={() => setDriveMode(mode)}
+                        className={`flex-1 px-3 py-1 rounded-md text-xs font-medium transition-colors ${
+                          driveMode === mode
+                            ? 'bg-card-bg text-venus-gray-700 shadow-sm'
+                            : 'text-venus-gray-500 hover:text-venus-gray-700'
+                        }`}
+                      >
+                        {mode === 'files' ? 'Add a file' : 'Watch folders'}
+                      </button>
+                    ))}
                   </div>
 
-                  {/* Search results */}
-                  {driveResults.length > 0 && (
-                    <div className="max-h-48 overflow-y-auto border border-venus-gray-200 rounded-lg divide-y divide-venus-gray-100">
-                      {driveResults.map((file) => (
-                        <button
-                          key={file.id}
-                          type="button"
-                          onClick={() => handleSelectDriveFile(file)}
-                          className={`w-full flex items-center gap-3 px-3 py-2 text-left hover:bg-venus-gray-50 transition-colors ${
-                            selectedDriveFile?.id === file.id ? 'bg-venus-purple-light' : ''
-                          }`}
-                        >
-                          {/* eslint-disable-next-line @next/next/no-img-element */}
-                          <img
-                            src={file.iconLink}
-                            alt=""
-                            className="w-5 h-5 shrink-0"
-                            onError={(e) => { (e.target as HTMLImageElement).style.display = 'none'; }}
-                          />
-                          <div className="min-w-0 flex-1">
-                            <p className="text-sm text-venus-gray-700 truncate">{file.name}</p>
-                            <p className="text-xs text-venus-gray-400">
-                              {formatDistanceToNow(new Date(file.modifiedTime), { addSuffix: true })}
-                            </p>
-                          </div>
-                          {selectedDriveFile?.id === file.id && (
-                            <Check size={16} className="text-venus-purple shrink-0" />
-                          )}
-                        </button>
-                      ))}
-                    </div>
+                  {driveMode === 'folders' && (
+                    <DriveFolderPanel sparkId={sparkId} onSynced={onAdded} />
                   )}
 
-                  {driveSearching && driveResults.length === 0 && driveQuery.trim() && (
-                    <div className="flex items-center justify-center py-6 text-venus-gray-400">
-                      <Loader2 size={16} className="animate-spin mr-2" />
-                      Searching Drive...
-                    </div>
+                  {driveMode === 'files' && (
+                    <>
+                      {/* Search input with typeahead */}
+                      <div className="relative mb-3">
+                        <Search size={14} className="absolute left-3 top-1/2 -translate-y-1/2 text-venus-gray-400" />
+                        <input
+                          type="text"
+                          value={driveQuery}
+                          onChange={(e) => handleDriveQueryChange(e.target.value)}
+                          placeholder="Search your Google Drive..."
+                          className="w-full pl-9 pr-9 py-2 border border-venus-gray-200 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-venus-purple/30 focus:border-venus-purple transition-colors"
+                          autoFocus
+                        />
+                        {driveSearching && (
+                          <Loader2 size={14} className="absolute right-3 top-1/2 -translate-y-1/2 text-venus-gray-400 animate-spin" />
+                        )}
+                      </div>
+
+                      {/* Search results */}
+                      {driveResults.length > 0 && (
+                        <div className="max-h-48 overflow-y-auto border border-venus-gray-200 rounded-lg divide-y divide-venus-gray-100">
+                          {driveResults.map((file) => (
+                            <button
+                              key={file.id}
+                              type="button"
+                              onClick={() => handleSelectDriveFile(file)}
+                              className={`w-full flex items-center gap-3 px-3 py-2 text-left hover:bg-venus-gray-50 transition-colors ${
+                                selectedDriveFile?.id === file.id ? 'bg-venus-purple-light' : ''
+                              }`}
+                            >
+                              {/* eslint-disable-next-line @next/next/no-img-element */}
+                              <img
+                                src={file.iconLink}
+                                alt=""
+                                className="w-5 h-5 shrink-0"
+                                onError={(e) => { (e.target as HTMLImageElement).style.display = 'none'; }}
+                              />
+                              <div className="min-w-0 flex-1">
+                                <p className="text-sm text-venus-gray-700 truncate">{file.name}</p>
+                                <p className="text-xs text-venus-gray-400">
+                                  {formatDistanceToNow(new Date(file.modifiedTime), { addSuffix: true })}
+                                </p>
+                              </div>
+                              {selectedDriveFile?.id === file.id && (
+                                <Check size={16} className="text-venus-purple shrink-0" />
+                              )}
+                            </button>
+                          ))}
+                        </div>
+                      )}
+
+                      {driveSearching && driveResults.length === 0 && driveQuery.trim() && (
+                        <div className="flex items-center justify-center py-6 text-venus-gray-400">
+                          <Loader2 size={16} className="animate-spin mr-2" />
+                          Searching Drive...
+                        </div>
+                      )}
+                    </>
                   )}
                 </>
               )}
             </div>
           )}
 
-          {/* Standard title input — always shown (except when Drive is not connected) */}
-          {(!isDrive || driveConnected === true) && (
+          {/* Standard title input — always shown (except when Drive is not connected, or watching folders) */}
+          {(!isDrive || driveConnected === true) && !isDriveFolders && (
             <div className="mb-4">
               <label className="block text-sm font-medium text-venus-gray-600 mb-1.5">
                 Title
@@ -403,8 +466,29 @@ export default function AddItemModal({ isOpen, sparkId, onClose, onAdded }: AddI
             </div>
           )}
 
-          {/* Content input — hidden for Drive items */}
-          {!isDrive && (
+          {/* File upload — File tab only */}
+          {selectedType === 'file' && (
+            <div className="mb-4">
+              <label className="block text-sm font-medium text-venus-gray-600 mb-1.5">
+                Upload
+              </label>
+              <input
+                type="file"
+                accept=".pdf,.docx,.pptx,.txt,.md,.csv,image/*"
+                onChange={(e) => {
+                  const picked = e.target.files?.[0] ?? null;
+                  setUploadFile(picked);
+                  setUploadError(null);
+                  if (picked && !title.trim()) setTitle(picked.name.replace(/\.[^.]*$/, ''));
+                }}
+                className="w-full text-sm text-venus-gray-600 file:mr-3 file:px-3 file:py-1.5 file:rounded-lg file:border-0 file:text-sm file:font-medium file:bg-venus-gray-100 file:text-venus-gray-600 hover:file:bg-venus-gray-200"
+              />
+              {uploadError && <p className="mt-1.5 text-xs text-venus-red">{uploadError}</p>}
+            </div>
+          )}
+
+          {/* Content input — hidden for Drive items and file uploads */}
+          {!isDrive && !(selectedType === 'file' && uploadFile) && (
             <div className="mb-4">
               <label className="block text-sm font-medium text-venus-gray-600 mb-1.5">
                 {contentLabel[selectedType]}
@@ -430,7 +514,7 @@ export default function AddItemModal({ isOpen, sparkId, onClose, onAdded }: AddI
           )}
 
           {/* Tags — shown for connected Drive items and all non-Drive types */}
-          {(!isDrive || driveConnected === true) && (
+          {(!isDrive || driveConnected === true) && !isDriveFolders && (
             <div className="mb-6">
               <label className="block text-sm font-medium text-venus-gray-600 mb-1.5">
                 Tags <span className="text-venus-gray-400 font-normal">(comma-separated, optional)</span>
@@ -445,6 +529,7 @@ export default function AddItemModal({ isOpen, sparkId, onClose, onAdded }: AddI
             </div>
           )}
 
+          {!isDriveFolders && (
           <div className="flex justify-end gap-3">
             <button
               type="button"
@@ -464,6 +549,7 @@ export default function AddItemModal({ isOpen, sparkId, onClose, onAdded }: AddI
               {loading ? 'Adding...' : 'Add Item'}
             </button>
           </div>
+          )}
         </form>
         )}
       </div>
@@ -0,0 +1,214 @@
+'use client';
+
+import { useState } from 'react';
+import { Pencil, RefreshCw, Loader2, History, Check, X, Upload, Eye } from 'lucide-react';
+import type { ArtifactTemplateSnapshot, GeneratedArtifact } from '@/lib/types';
+import {
+  flattenArtifactFields,
+  fieldValueToText,
+  formatFieldLabel,
+  textToFieldValue,
+} from '@/lib/artifact-fields';
+import ArtifactVersionHistory from './ArtifactVersionHistory';
+import PublishToContentstackPanel from './PublishToContentstackPanel';
+import TemplatedArtifactView from './TemplatedArtifactView';
+
+interface ArtifactEditorProps {
+  artifact: GeneratedArtifact;
+  canEdit: boolean;
+  onUpdated: () => void;
+}
+
+/** Schema validation failures come back with per-field details. */
+function errorWithDetails(data: { error?: string; details?: string[] }, fallback: string): string {
+  const message = data.error || fallback;
+  return data.details?.length ? `${message}: ${data.details.join('; ')}` : message;
+}
+
+export default function ArtifactEditor({ artifact, canEdit, onUpdated }: ArtifactEditorProps) {
+  const [editingField, setEditingField] = useState<string | null>(null);
+  const [draft, setDraft] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [regenerating, setRegenerating] = useState<string | null>(null);
+  const [showHistory, setShowHistory] = useState(false);
+  const [showPublish, setShowPublish] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  // Templated artifacts open on their rendered layout; fields are one click away
+  const template = (artifact.metadata?.template ?? null) as ArtifactTemplateSnapshot | null;
+  const [showFields, setShowFields] = useState(!template);
+
+  const fields = flattenArtifactFields(artifact.content as Record<string, unknown>);
+
+  function startEditing(path: string, value: unknown) {
+    setEditingField(path);
+    setDraft(fieldValueToText(value));
+    setError(null);
+  }
+
+  async function handleSave(path: string, previous: unknown) {
+    setSaving(true);
+    setError(null);
+    try {
+      const res = await fetch(`/api/artifacts/${artifact.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ field: path, value: textToFieldValue(draft, previous) }),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(errorWithDetails(data, 'Save failed'));
+      setEditingField(null);
+      onUpdated();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Save failed');
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function handleRegenerate(path: string) {
+    setRegenerating(path);
+    setError(null);
+    try {
+      const res = await fetch(`/api/artifacts/${artifact.id}/regenerate-section`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ field: path }),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(errorWithDetails(data, 'Regeneration failed'));
+      onUpdated();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Regeneration failed');
+    } finally {
+      setRegenerating(null);
+    }
+  }
+
+  return (
+    <div className="space-y-4">
+      {template && (
+        <div className="flex items-center justify-between">
+          <span className="text-xs text-venus-gray-400">Template: {template.name}</span>
+          <button
+            onClick={() => setShowFields(!showFields)}
+            className="flex items-center gap-1.5 text-xs font-medium text-venus-gray-500 hover:text-venus-purple transition-colors"
+          >
+            {showFields ? <Eye size={12} /> : <Pencil size={12} />}
+            {showFields ? 'Preview' : canEdit ? 'Edit fields' : 'Show fields'}
+          </button>
+        </div>
+      )}
+
+      {template && !showFields && (
+        <TemplatedArtifactView content={artifact.content as Record<string, unknown>} layout={template.layout} />
+      )}
+
+      {showFields && (
+        <div className="space-y-3">
+          {fields.map(({ path, value }) => (
+            <div key={path} className="group">
+              <div className="flex items-center justify-between mb-1">
+                <span className="text-xs font-medium text-venus-gray-500">{formatFieldLabel(path)}</span>
+                {canEdit && editingField !== path && (
+                  <div className="flex items-center gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+                    <button
+                      onClick={() => startEditing(path, value)}
+                      disabled={regenerating !== null}
+                      className="p-1 rounded-md hover:bg-venus-gray-100 text-venus-gray-400 disabled:opacity-50"
+                      title="Edit field"
+                    >
+                      <Pencil size={12} />
+                    </button>
+                    <button
+                      onClick={() => handleRegenerate(path)}
+                      disabled={regenerating !== null}
+                      className="p-1 rounded-md hover:bg-venus-gray-100 text-venus-gray-400 disabled:opacity-50"
+                      title="Regenerate this section"
+                    >
+                      <RefreshCw size={12} className={regenerating === path ? 'animate-spin text-venus-purple' : ''} />
+                    </button>
+                  </div>
+                )}
+              </div>
+
+              {editingField === path ? (
+                <div className="space-y-2">
+                  <textarea
+                    value={draft}
+                    onChange={(e) => setDraft(e.target.value)}
+                    rows={Math.min(12, Math.max(2, draft.split('\n').length + 1))}
+                    autoFocus
+                    className="w-full px-3 py-2 border border-venus-gray-200 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-venus-purple/30 focus:border-venus-purple transition-colors resize-y"
+                  />
+                  {Array.isArray(value) && (
+                    <p className="text-[10px] text-venus-gray-400">One entry per line</p>
+                  )}
+                  <div className="flex items-center gap-2">
+                    <button
+                      onClick={() => handleSave(path, value)}
+                      disabled={saving}
+                      className="flex items-center gap-1 px-2.5 py-1 rounded-md text-xs font-medium bg-venus-purple text-white hover:bg-venus-purple-deep transition-colors disabled:opacity-50"
+                    >
+                      {saving ? <Loader2 size={12} className="animate-spin" /> : <Check size={12} />}
+                      Save
+                    </button>
+                    <button
+                      onClick={() => setEditingField(null)}
+                      disabled={saving}
+                      className="flex items-center gap-1 px-2.5 py-1 rounded-md text-xs font-medium text-venus-gray-500 hover:bg-venus-gray-100 transition-colors"
+                    >
+                      <X size={12} />
+                      Cancel
+                    </button>
+                  </div>
+                </div>
+              ) : (
+                <pre
+                  className={`text-xs whitespace-pre-wrap break-words text-venus-gray-600 bg-venus-gray-50 px-3 py-2 rounded-lg max-h-60 overflow-y-auto ${
+                    regenerating === path ? 'opacity-50' : ''
+                  }`}
+                >
+                  {fieldValueToText(value) || <span className="text-venus-gray-400">Empty</span>}
+                </pre>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {error && <p className="text-xs text-venus-red">{error}</p>}
+
+      {canEdit && artifact.type === 'cms_entry' && (
+        <div className="pt-3 border-t border-venus-gray-200">
+          <button
+            onClick={() => setShowPublish(!showPublish)}
+            className="flex items-center gap-1.5 text-xs font-medium text-venus-gray-500 hover:text-venus-purple transition-colors"
+          >
+            <Upload size={12} />
+            {showPublish ? 'Hide publishing' : 'Publish to Contentstack'}
+          </button>
+          {showPublish && (
+            <div className="mt-3">
+              <PublishToContentstackPanel artifact={artifact} onPublished={onUpdated} />
+            </div>
+          )}
+        </div>
+      )}
+
+      <div className="pt-3 border-t border-venus-gray-200">
+        <button
+          onClick={() => setShowHistory(!showHistory)}
+          className="flex items-center gap-1.5 text-xs font-medium text-venus-gray-500 hover:text-venus-purple transition-colors"
+        >
+          <History size={12} />
+          {showHistory ? 'Hide history' : `Version history (v${artifact.current_version})`}
+        </button>
+        {showHistory && (
+          <div className="mt-3">
+            <ArtifactVersionHistory artifact={artifact} canEdit={canEdit} onRestored={onUpdated} />
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
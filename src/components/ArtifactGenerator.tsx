@@ -1,12 +1,18 @@
 'use client';
 
 import { useState } from 'react';
-import { FileText, Megaphone, Loader2, ChevronDown, ChevronUp, Copy, Check } from 'lucide-react';
-import type { GeneratedArtifact, ArtifactType } from '@/lib/types';
+import { FileText, Megaphone, LayoutTemplate, Loader2, ChevronDown, ChevronUp, Copy, Check, Square } from 'lucide-react';
+import type { GeneratedArtifact, ArtifactType, ArtifactTemplate, ArtifactTemplateSnapshot, GenerationJob } from '@/lib/types';
+import { flattenArtifactFields, fieldValueToText, formatFieldLabel } from '@/lib/artifact-fields';
+import ArtifactEditor from './ArtifactEditor';
+import ArtifactTemplatePicker from './ArtifactTemplatePicker';
+import ContentTypePicker, { type PickedStack } from './ContentTypePicker';
 
 interface ArtifactGeneratorProps {
   sparkId: string;
   artifacts: GeneratedArtifact[];
+  /** Viewers can browse artifacts and their history but not generate or edit */
+  canEdit?: boolean;
   onGenerated: () => void;
 }
 
@@ -25,34 +31,135 @@ const artifactTypes: { type: ArtifactType; label: string; icon: typeof FileText;
   },
 ];
 
-export default function ArtifactGenerator({ sparkId, artifacts, onGenerated }: ArtifactGeneratorProps) {
+export default function ArtifactGenerator({ sparkId, artifacts, canEdit = true, onGenerated }: ArtifactGeneratorProps) {
   const [generating, setGenerating] = useState<string | null>(null);
   const [instructions, setInstructions] = useState('');
   const [expandedArtifact, setExpandedArtifact] = useState<string | null>(null);
   const [copiedId, setCopiedId] = useState<string | null>(null);
+  const [useContentType, setUseContentType] = useState(false);
+  const [targetStack, setTargetStack] = useState<PickedStack | null>(null);
+  const [targetContentType, setTargetContentType] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  // Live progress of the running generation (from the SSE stream)
+  const [jobId, setJobId] = useState<string | null>(null);
+  const [statusMessage, setStatusMessage] = useState<string | null>(null);
+  const [partial, setPartial] = useState<Record<string, unknown> | null>(null);
+
+  // If the stream drops mid-run, the job keeps going server-side — poll it instead
+  const waitForJob = async (id: string) => {
+    setStatusMessage('Connection lost — waiting for the generation to finish...');
+    for (;;) {
+      await new Promise((resolve) => setTimeout(resolve, 3000));
+      const res = await fetch(`/api/generate/jobs/${id}`);
+      if (!res.ok) throw new Error('Lost track of the generation job');
+      const job = (await res.json()) as GenerationJob;
+      if (job.status === 'running') {
+        setStatusMessage(job.progress);
+        continue;
+      }
+      if (job.status === 'completed') onGenerated();
+      else if (job.status === 'failed') setError([job.error, ...(job.error_details || [])].filter(Boolean).join(': '));
+      else setError('Generation cancelled');
+      return;
+    }
+  };
+
+  // `key` identifies the button showing the spinner: an ArtifactType or a template id
+  const runGeneration = async (key: string, body: Record<string, unknown>) => {
+    setGenerating(key);
+    setError(null);
+    setStatusMessage('Starting...');
+    setPartial(null);
+    let currentJob: string | null = null;
+    let finished = false;
 
-  const handleGenerate = async (type: ArtifactType) => {
-    setGenerating(type);
     try {
       const res = await fetch('/api/generate', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
           spark_id: sparkId,
-          type,
           instructions: instructions.trim() || undefined,
+          ...body,
         }),
       });
 
-      if (res.ok) {
-        setInstructions('');
-        onGenerated();
+      if (!res.ok || !res.body) {
+        const data = await res.json().catch(() => null);
+        setError(data?.error || 'Generation failed');
+        return;
+      }
+
+      const reader = res.body.getReader();
+      const decoder = new TextDecoder();
+      let buffer = '';
+      try {
+        while (true) {
+          const { done, value } = await reader.read();
+          if (done) break;
+          buffer += decoder.decode(value, { stream: true });
+          const lines = buffer.split('\n\n');
+          buffer = lines.pop() || '';
+          for (const line of lines) {
+            if (!line.startsWith('data: ')) continue;
+            const data = JSON.parse(line.slice(6));
+            if (data.type === 'job') {
+              currentJob = data.job_id;
+              setJobId(data.job_id);
+            } else if (data.type === 'status') {
+              setStatusMessage(data.content);
+            } else if (data.type === 'partial') {
+              if (data.content && typeof data.content === 'object') setPartial(data.content);
+            } else if (data.type === 'artifact') {
+              finished = true;
+              setInstructions('');
+              onGenerated();
+            } else if (data.type === 'error') {
+              finished = true;
+              setError(data.details?.length ? `${data.content}: ${data.details.join('; ')}` : data.content);
+            } else if (data.type === 'cancelled') {
+              finished = true;
+              setError('Generation cancelled');
+            }
+          }
+        }
+      } catch {
+        // Network drop — fall through to polling below
       }
+
+      if (!finished && currentJob) await waitForJob(currentJob);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Generation failed');
     } finally {
       setGenerating(null);
+      setJobId(null);
+      setStatusMessage(null);
+      setPartial(null);
     }
   };
 
+  const handleCancel = async () => {
+    if (!jobId) return;
+    setStatusMessage('Cancelling...');
+    await fetch(`/api/generate/jobs/${jobId}/cancel`, { method: 'POST' });
+  };
+
+  const handleGenerate = (type: ArtifactType) => {
+    // CMS entries can target a real content type instead of the generic webpage shape
+    const target =
+      type === 'cms_entry' && useContentType && targetStack && targetContentType
+        ? {
+            stack_api_key: targetStack.api_key,
+            stack_name: targetStack.name,
+            content_type_uid: targetContentType,
+          }
+        : {};
+    return runGeneration(type, { type, ...target });
+  };
+
+  const handleGenerateTemplate = (template: ArtifactTemplate) =>
+    runGeneration(template.id, { template_id: template.id });
+
   const copyToClipboard = async (artifact: GeneratedArtifact) => {
     await navigator.clipboard.writeText(JSON.stringify(artifact.content, null, 2));
     setCopiedId(artifact.id);
@@ -62,45 +169,108 @@ export default function ArtifactGenerator({ sparkId, artifacts, onGenerated }: A
   return (
     <div className="space-y-6">
       {/* Generation Controls */}
-      <div className="bg-card-bg rounded-xl border border-venus-gray-200 p-5">
-        <h3 className="font-semibold text-venus-gray-700 mb-1">Generate Artifacts</h3>
-        <p className="text-sm text-venus-gray-500 mb-4">
-          Transform your collected information into business-ready documents.
-        </p>
-
-        <div className="mb-4">
-          <textarea
-            value={instructions}
-            onChange={(e) => setInstructions(e.target.value)}
-            placeholder="Additional instructions (optional) — e.g., 'Focus on enterprise features' or 'Target marketing managers'"
-            rows={2}
-            className="w-full px-3 py-2 border border-venus-gray-200 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-venus-purple/30 focus:border-venus-purple transition-colors resize-none"
-          />
-        </div>
+      {canEdit && (
+        <div className="bg-card-bg rounded-xl border border-venus-gray-200 p-5">
+          <h3 className="font-semibold text-venus-gray-700 mb-1">Generate Artifacts</h3>
+          <p className="text-sm text-venus-gray-500 mb-4">
+            Transform your collected information into business-ready documents.
+          </p>
 
-        <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
-          {artifactTypes.map(({ type, label, icon: Icon, description }) => (
-            <button
-              key={type}
-              onClick={() => handleGenerate(type)}
-              disabled={generating !== null}
-              className="flex items-start gap-3 p-4 rounded-lg border border-venus-gray-200 hover:border-venus-purple/40 hover:bg-venus-purple-light/30 transition-all text-left disabled:opacity-50 disabled:cursor-not-allowed"
-            >
-              <div className="w-9 h-9 rounded-lg bg-venus-purple-light flex items-center justify-center shrink-0">
-                {generating === type ? (
-                  <Loader2 size={16} className="animate-spin text-venus-purple" />
-                ) : (
-                  <Icon size={16} className="text-venus-purple" />
+          <div className="mb-4">
+            <textarea
+              value={instructions}
+              onChange={(e) => setInstructions(e.target.value)}
+              placeholder="Additional instructions (optional) — e.g., 'Focus on enterprise features' or 'Target marketing managers'"
+              rows={2}
+              className="w-full px-3 py-2 border border-venus-gray-200 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-venus-purple/30 focus:border-venus-purple transition-colors resize-none"
+            />
+          </div>
+
+          <div className="mb-4 space-y-2">
+            <label className="flex items-center gap-2 text-xs text-venus-gray-600 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={useContentType}
+                onChange={(e) => setUseContentType(e.target.checked)}
+                className="accent-venus-purple"
+              />
+              Generate CMS entries for a Contentstack content type
+            </label>
+            {useContentType && (
+              <ContentTypePicker
+                stackKey={targetStack?.api_key ?? ''}
+                contentTypeUid={targetContentType}
+                onStackChange={setTargetStack}
+                onContentTypeChange={setTargetContentType}
+                disabled={generating !== null}
+              />
+            )}
+          </div>
+
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+            {artifactTypes.map(({ type, label, icon: Icon, description }) => (
+              <button
+                key={type}
+                onClick={() => handleGenerate(type)}
+                disabled={generating !== null || (type === 'cms_entry' && useContentType && !targetContentType)}
+                className="flex items-start gap-3 p-4 rounded-lg border border-venus-gray-200 hover:border-venus-purple/40 hover:bg-venus-purple-light/30 transition-all text-left disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                <div className="w-9 h-9 rounded-lg bg-venus-purple-light flex items-center justify-center shrink-0">
+                  {generating === type ? (
+                    <Loader2 size={16} className="animate-spin text-venus-purple" />
+                  ) : (
+                    <Icon size={16} className="text-venus-purple" />
+                  )}
+                </div>
+                <div>
+                  <span className="text-sm font-medium text-venus-gray-700 block">{label}</span>
+                  <span className="text-xs text-venus-gray-500">{description}</span>
+                </div>
+              </button>
+            ))}
+          </div>
+
+          {generating !== null && (
+            <div className="mt-4 p-3 rounded-lg bg-venus-gray-50 border border-venus-gray-200 space-y-2">
+              <div className="flex items-center justify-between gap-2">
+                <span className="flex items-center gap-2 text-xs text-venus-gray-600">
+                  <Loader2 size={12} className="animate-spin text-venus-purple" />
+                  {statusMessage || 'Working...'}
+                </span>
+                {jobId && (
+                  <button
+                    onClick={handleCancel}
+                    className="flex items-center gap-1 px-2 py-1 rounded-md text-xs font-medium text-venus-gray-500 hover:bg-venus-gray-100 hover:text-venus-red transition-colors"
+                  >
+                    <Square size={10} />
+                    Cancel
+                  </button>
                 )}
               </div>
-              <div>
-                <span className="text-sm font-medium text-venus-gray-700 block">{label}</span>
-                <span className="text-xs text-venus-gray-500">{description}</span>
-              </div>
-            </button>
-          ))}
+              {partial && (
+                <div className="space-y-1 max-h-40 overflow-y-auto">
+                  {flattenArtifactFields(partial).map(({ path, value }) => (
+                    <p key={path} className="text-xs text-venus-gray-500 truncate">
+                      <span className="font-medium text-venus-gray-600">{formatFieldLabel(path)}:</span>{' '}
+                      {fieldValueToText(value)}
+                    </p>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
+
+          <div className="mt-5 pt-4 border-t border-venus-gray-200">
+            <ArtifactTemplatePicker
+              generatingId={generating && !artifactTypes.some((t) => t.type === generating) ? generating : null}
+              disabled={generating !== null}
+              onGenerate={handleGenerateTemplate}
+            />
+          </div>
+
+          {error && <p className="mt-3 text-xs text-venus-red break-words">{error}</p>}
         </div>
-      </div>
+      )}
 
       {/* Generated Artifacts List */}
       {artifacts.length > 0 && (
@@ -120,7 +290,9 @@ export default function ArtifactGenerator({ sparkId, artifacts, onGenerated }: A
                 >
                   <div className="flex items-center gap-3">
                     <div className="w-8 h-8 rounded-md bg-venus-purple-light flex items-center justify-center">
-                      {artifact.type === 'cms_entry' ? (
+                      {artifact.metadata?.template ? (
+                        <LayoutTemplate size={14} className="text-venus-purple" />
+                      ) : artifact.type === 'cms_entry' ? (
                         <FileText size={14} className="text-venus-purple" />
                       ) : (
                         <Megaphone size={14} className="text-venus-purple" />
@@ -131,7 +303,9 @@ export default function ArtifactGenerator({ sparkId, artifacts, onGenerated }: A
                         {artifact.title}
                       </span>
                       <span className="text-xs text-venus-gray-400">
-                        {artifact.type.replace('_', ' ')} &middot; {artifact.status}
+                        {(artifact.metadata?.template as ArtifactTemplateSnapshot | undefined)?.name ??
+                          artifact.type.replace('_', ' ')}{' '}
+                        &middot; {artifact.status}
                       </span>
                     </div>
                   </div>
@@ -160,9 +334,7 @@ export default function ArtifactGenerator({ sparkId, artifacts, onGenerated }: A
 
                 {expandedArtifact === artifact.id && (
                   <div className="border-t border-venus-gray-200 p-4">
-                    <pre className="text-xs text-venus-gray-600 bg-venus-gray-50 p-4 rounded-lg overflow-x-auto max-h-96">
-                      {JSON.stringify(artifact.content, null, 2)}
-                    </pre>
+                    <ArtifactEditor artifact={artifact} canEdit={canEdit} onUpdated={onGenerated} />
                   </div>
                 )}
               </div>
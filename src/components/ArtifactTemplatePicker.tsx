@@ -0,0 +1,273 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { LayoutTemplate, Loader2, Plus, Pencil, Trash2, X, Check } from 'lucide-react';
+import type { ArtifactTemplate } from '@/lib/types';
+
+interface ArtifactTemplatePickerProps {
+  /** Template currently being generated, if any */
+  generatingId: string | null;
+  disabled?: boolean;
+  onGenerate: (template: ArtifactTemplate) => void;
+}
+
+type Draft = { name: string; description: string; prompt: string; output_schema: string; layout: string };
+
+const EXAMPLE_SCHEMA = JSON.stringify(
+  {
+    type: 'object',
+    properties: {
+      headline: { type: 'string', description: 'Press release headline' },
+      dateline: { type: 'string', description: 'City and date' },
+      body: { type: 'string', description: 'Release body in Markdown' },
+      quotes: { type: 'array', items: { type: 'string' }, description: '1-2 spokesperson quotes' },
+    },
+    required: ['headline', 'body'],
+  },
+  null,
+  2
+);
+
+const EXAMPLE_LAYOUT = JSON.stringify(
+  [
+    { field: 'headline', format: 'heading' },
+    { field: 'dateline', format: 'text' },
+    { field: 'body', format: 'markdown' },
+    { field: 'quotes', label: 'Quotes', format: 'quote' },
+  ],
+  null,
+  2
+);
+
+const EMPTY_DRAFT: Draft = { name: '', description: '', prompt: '', output_schema: EXAMPLE_SCHEMA, layout: '' };
+
+const inputClass =
+  'w-full px-2.5 py-1.5 border border-venus-gray-200 rounded-lg text-xs bg-card-bg focus:outline-none focus:ring-2 focus:ring-venus-purple/30 focus:border-venus-purple';
+
+function toDraft(template: ArtifactTemplate): Draft {
+  return {
+    name: template.name,
+    description: template.description ?? '',
+    prompt: template.prompt,
+    output_schema: JSON.stringify(template.output_schema, null, 2),
+    layout: JSON.stringify(template.layout, null, 2),
+  };
+}
+
+/** Workspace templates as generate buttons, with an inline create / edit form. */
+export default function ArtifactTemplatePicker({ generatingId, disabled, onGenerate }: ArtifactTemplatePickerProps) {
+  const [templates, setTemplates] = useState<ArtifactTemplate[]>([]);
+  const [loading, setLoading] = useState(true);
+  // null = form closed, 'new' = creating, otherwise the id being edited
+  const [editing, setEditing] = useState<string | null>(null);
+  const [draft, setDraft] = useState<Draft>(EMPTY_DRAFT);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadTemplates = useCallback(() => {
+    return fetch('/api/artifact-templates')
+      .then((res) => res.json())
+      .then((data) => {
+        if (data.error) setError(data.error);
+        setTemplates(data.templates || []);
+      })
+      .catch(() => setError('Failed to load templates'))
+      .finally(() => setLoading(false));
+  }, []);
+
+  useEffect(() => {
+    loadTemplates();
+  }, [loadTemplates]);
+
+  function openForm(template?: ArtifactTemplate) {
+    setEditing(template ? template.id : 'new');
+    setDraft(template ? toDraft(template) : EMPTY_DRAFT);
+    setError(null);
+  }
+
+  async function handleSave() {
+    let outputSchema: unknown;
+    let layout: unknown;
+    try {
+      outputSchema = JSON.parse(draft.output_schema);
+      layout = draft.layout.trim() ? JSON.parse(draft.layout) : [];
+    } catch {
+      setError('Output schema and layout must be valid JSON');
+      return;
+    }
+
+    setSaving(true);
+    setError(null);
+    try {
+      const res = await fetch(editing === 'new' ? '/api/artifact-templates' : `/api/artifact-templates/${editing}`, {
+        method: editing === 'new' ? 'POST' : 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          name: draft.name,
+          description: draft.description,
+          prompt: draft.prompt,
+          output_schema: outputSchema,
+          layout,
+        }),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        throw new Error(data.details?.length ? `${data.error}: ${data.details.join('; ')}` : data.error || 'Save failed');
+      }
+      setEditing(null);
+      await loadTemplates();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Save failed');
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function handleDelete(template: ArtifactTemplate) {
+    if (!confirm(`Delete the "${template.name}" template for everyone in this workspace?`)) return;
+    const res = await fetch(`/api/artifact-templates/${template.id}`, { method: 'DELETE' });
+    if (!res.ok) {
+      const data = await res.json().catch(() => null);
+      setError(data?.error || 'Delete failed');
+      return;
+    }
+    setTemplates((prev) => prev.filter((t) => t.id !== template.id));
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <p className="text-[10px] font-medium text-venus-gray-500 uppercase tracking-wider">Workspace templates</p>
+        {editing === null && (
+          <button
+            onClick={() => openForm()}
+            className="flex items-center gap-1 text-xs font-medium text-venus-gray-500 hover:text-venus-purple transition-colors"
+          >
+            <Plus size={12} />
+            New template
+          </button>
+        )}
+      </div>
+
+      {loading ? (
+        <div className="flex items-center gap-2 text-xs text-venus-gray-400">
+          <Loader2 size={12} className="animate-spin" />
+          Loading templates...
+        </div>
+      ) : templates.length === 0 && editing === null ? (
+        <p className="text-xs text-venus-gray-400">
+          No templates yet. Create one for press releases, one-pagers, FAQ pages and more.
+        </p>
+      ) : (
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+          {templates.map((template) => (
+            <div key={template.id} className="group relative">
+              <button
+                onClick={() => onGenerate(template)}
+                disabled={disabled || generatingId !== null}
+                className="w-full flex items-start gap-3 p-4 rounded-lg border border-venus-gray-200 hover:border-venus-purple/40 hover:bg-venus-purple-light/30 transition-all text-left disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                <div className="w-9 h-9 rounded-lg bg-venus-purple-light flex items-center justify-center shrink-0">
+                  {generatingId === template.id ? (
+                    <Loader2 size={16} className="animate-spin text-venus-purple" />
+                  ) : (
+                    <LayoutTemplate size={16} className="text-venus-purple" />
+                  )}
+                </div>
+                <div className="min-w-0 pr-10">
+                  <span className="text-sm font-medium text-venus-gray-700 block truncate">{template.name}</span>
+                  <span className="text-xs text-venus-gray-500 line-clamp-2">
+                    {template.description || `${template.layout.length} sections`}
+                  </span>
+                </div>
+              </button>
+              <div className="absolute top-2 right-2 flex items-center gap-0.5 opacity-0 group-hover:opacity-100 transition-opacity">
+                <button
+                  onClick={() => openForm(template)}
+                  className="p-1 rounded-md hover:bg-venus-gray-100 text-venus-gray-400"
+                  title="Edit template"
+                >
+                  <Pencil size={12} />
+                </button>
+                <button
+                  onClick={() => handleDelete(template)}
+                  className="p-1 rounded-md hover:bg-venus-gray-100 text-venus-gray-400 hover:text-venus-red"
+                  title="Delete template"
+                >
+                  <Trash2 size={12} />
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {editing !== null && (
+        <div className="space-y-2 p-4 rounded-lg border border-venus-gray-200 bg-venus-gray-50">
+          <div className="grid grid-cols-2 gap-2">
+            <input
+              value={draft.name}
+              onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+              placeholder="Template name, e.g. Press Release"
+              className={inputClass}
+            />
+            <input
+              value={draft.description}
+              onChange={(e) => setDraft({ ...draft, description: e.target.value })}
+              placeholder="Short description (optional)"
+              className={inputClass}
+            />
+          </div>
+          <textarea
+            value={draft.prompt}
+            onChange={(e) => setDraft({ ...draft, prompt: e.target.value })}
+            placeholder="Prompt — what to write from the Spark's items, tone, length..."
+            rows={3}
+            className={`${inputClass} resize-y`}
+          />
+          <label className="block text-[10px] font-medium text-venus-gray-500 uppercase tracking-wider">
+            Output JSON Schema
+          </label>
+          <textarea
+            value={draft.output_schema}
+            onChange={(e) => setDraft({ ...draft, output_schema: e.target.value })}
+            rows={8}
+            spellCheck={false}
+            className={`${inputClass} font-mono resize-y`}
+          />
+          <label className="block text-[10px] font-medium text-venus-gray-500 uppercase tracking-wider">
+            Layout (optional — heading, text, markdown, list, quote)
+          </label>
+          <textarea
+            value={draft.layout}
+            onChange={(e) => setDraft({ ...draft, layout: e.target.value })}
+            placeholder={EXAMPLE_LAYOUT}
+            rows={5}
+            spellCheck={false}
+            className={`${inputClass} font-mono resize-y`}
+          />
+          <div className="flex items-center gap-2">
+            <button
+              onClick={handleSave}
+              disabled={saving || !draft.name.trim() || !draft.prompt.trim()}
+              className="flex items-center gap-1 px-2.5 py-1 rounded-md text-xs font-medium bg-venus-purple text-white hover:bg-venus-purple-deep transition-colors disabled:opacity-50"
+            >
+              {saving ? <Loader2 size={12} className="animate-spin" /> : <Check size={12} />}
+              {editing === 'new' ? 'Create template' : 'Save template'}
+            </button>
+            <button
+              onClick={() => setEditing(null)}
+              disabled={saving}
+              className="flex items-center gap-1 px-2.5 py-1 rounded-md text-xs font-medium text-venus-gray-500 hover:bg-venus-gray-100 transition-colors"
+            >
+              <X size={12} />
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+
+      {error && <p className="text-xs text-venus-red break-words">{error}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,194 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { History, RotateCcw, Loader2 } from 'lucide-react';
+import type { ArtifactVersion, ArtifactVersionSource, GeneratedArtifact } from '@/lib/types';
+import {
+  diffArtifactContent,
+  fieldValueToText,
+  formatFieldLabel,
+  type ArtifactFieldDiff,
+} from '@/lib/artifact-fields';
+
+interface ArtifactVersionHistoryProps {
+  artifact: GeneratedArtifact;
+  canEdit: boolean;
+  onRestored: () => void;
+}
+
+type VersionWithAuthor = ArtifactVersion & { users: { display_name: string | null } | null };
+
+const SOURCE_LABELS: Record<ArtifactVersionSource, string> = {
+  generate: 'Generated',
+  edit: 'Edited',
+  regenerate_section: 'Regenerated',
+  restore: 'Restored',
+};
+
+const STATUS_STYLES: Record<Exclude<ArtifactFieldDiff['status'], 'unchanged'>, string> = {
+  added: 'bg-venus-green-light text-venus-green',
+  removed: 'bg-venus-red-light text-venus-red',
+  changed: 'bg-venus-purple/10 text-venus-purple',
+};
+
+function describeVersion(version: ArtifactVersion): string {
+  const label = SOURCE_LABELS[version.source];
+  if (version.source === 'restore' && version.restored_from) return `${label} v${version.restored_from}`;
+  if (version.field) return `${label} ${formatFieldLabel(version.field).toLowerCase()}`;
+  return label;
+}
+
+export default function ArtifactVersionHistory({ artifact, canEdit, onRestored }: ArtifactVersionHistoryProps) {
+  const [versions, setVersions] = useState<VersionWithAuthor[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [restoring, setRestoring] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadVersions = useCallback(async () => {
+    setLoading(true);
+    try {
+      const res = await fetch(`/api/artifacts/${artifact.id}/versions`);
+      if (res.ok) {
+        const data = await res.json();
+        setVersions(data.versions);
+      }
+    } finally {
+      setLoading(false);
+    }
+  }, [artifact.id]);
+
+  // Reload whenever the artifact moves to a new version
+  useEffect(() => {
+    loadVersions();
+  }, [loadVersions, artifact.current_version]);
+
+  const selected = versions.find((v) => v.id === selectedId) ?? null;
+  const diffs = selected
+    ? diffArtifactContent(
+        selected.content as Record<string, unknown>,
+        artifact.content as Record<string, unknown>
+      ).filter((d) => d.status !== 'unchanged')
+    : [];
+
+  async function handleRestore(version: ArtifactVersion) {
+    setRestoring(true);
+    setError(null);
+    try {
+      const res = await fetch(`/api/artifacts/${artifact.id}/versions/${version.id}/restore`, {
+        method: 'POST',
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || 'Restore failed');
+      setSelectedId(null);
+      onRestored();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Restore failed');
+    } finally {
+      setRestoring(false);
+    }
+  }
+
+  if (loading && versions.length === 0) {
+    return (
+      <div className="flex items-center gap-2 text-xs text-venus-gray-400 py-2">
+        <Loader2 size={12} className="animate-spin" />
+        Loading history...
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center gap-1.5 text-xs font-medium text-venus-gray-600">
+        <History size={12} />
+        {versions.length} version{versions.length !== 1 ? 's' : ''}
+      </div>
+
+      <div className="space-y-1 max-h-48 overflow-y-auto">
+        {versions.map((version) => {
+          const isCurrent = version.version_number === artifact.current_version;
+          const isSelected = version.id === selectedId;
+          return (
+            <button
+              key={version.id}
+              onClick={() => setSelectedId(isSelected || isCurrent ? null : version.id)}
+              disabled={isCurrent}
+              className={`w-full flex items-center justify-between px-3 py-2 rounded-lg text-left text-xs transition-colors ${
+                isSelected
+                  ? 'bg-venus-purple-light/50 border border-venus-purple/30'
+                  : 'border border-transparent hover:bg-venus-gray-50'
+              } disabled:cursor-default`}
+            >
+              <div className="min-w-0">
+                <span className="font-medium text-venus-gray-700">v{version.version_number}</span>
+                <span className="text-venus-gray-500"> &middot; {describeVersion(version)}</span>
+                {version.users?.display_name && (
+                  <span className="text-venus-gray-400"> &middot; {version.users.display_name}</span>
+                )}
+              </div>
+              <span className="text-[10px] text-venus-gray-400 shrink-0 ml-2">
+                {isCurrent ? (
+                  <span className="px-1.5 py-0.5 rounded-full bg-venus-purple/10 text-venus-purple font-medium">
+                    Current
+                  </span>
+                ) : (
+                  new Date(version.created_at).toLocaleString()
+                )}
+              </span>
+            </button>
+          );
+        })}
+      </div>
+
+      {selected && (
+        <div className="border border-venus-gray-200 rounded-lg">
+          <div className="flex items-center justify-between px-3 py-2 border-b border-venus-gray-200">
+            <span className="text-xs font-medium text-venus-gray-600">
+              v{selected.version_number} → v{artifact.current_version} (current)
+            </span>
+            {canEdit && (
+              <button
+                onClick={() => handleRestore(selected)}
+                disabled={restoring}
+                className="flex items-center gap-1 px-2 py-1 rounded-md text-xs font-medium text-venus-purple hover:bg-venus-purple-light/50 transition-colors disabled:opacity-50"
+              >
+                {restoring ? <Loader2 size={12} className="animate-spin" /> : <RotateCcw size={12} />}
+                Restore v{selected.version_number}
+              </button>
+            )}
+          </div>
+
+          {diffs.length === 0 ? (
+            <p className="px-3 py-3 text-xs text-venus-gray-400">No differences from the current version.</p>
+          ) : (
+            <div className="divide-y divide-venus-gray-200">
+              {diffs.map((diff) => (
+                <div key={diff.path} className="px-3 py-2 space-y-1.5">
+                  <div className="flex items-center gap-2">
+                    <span className="text-xs font-medium text-venus-gray-700">{formatFieldLabel(diff.path)}</span>
+                    <span className={`text-[10px] px-1.5 py-0.5 rounded-full font-medium ${STATUS_STYLES[diff.status as keyof typeof STATUS_STYLES]}`}>
+                      {diff.status}
+                    </span>
+                  </div>
+                  {diff.status !== 'added' && (
+                    <pre className="text-xs whitespace-pre-wrap break-words bg-venus-red-light text-venus-gray-600 px-2 py-1.5 rounded max-h-40 overflow-y-auto">
+                      {fieldValueToText(diff.before)}
+                    </pre>
+                  )}
+                  {diff.status !== 'removed' && (
+                    <pre className="text-xs whitespace-pre-wrap break-words bg-venus-green-light text-venus-gray-700 px-2 py-1.5 rounded max-h-40 overflow-y-auto">
+                      {fieldValueToText(diff.after)}
+                    </pre>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+
+      {error && <p className="text-xs text-venus-red">{error}</p>}
+    </div>
+  );
+}
@@ -3,13 +3,13 @@
 import { useState, useRef, useEffect, useCallback } from 'react';
 import {
   Send, Bot, User, Loader2, Sparkles, Search, Lightbulb, History, Plus,
-  Wand2, Check, Copy, X, FileCheck2,
+  Wand2, Check, Copy, X, FileCheck2, Pencil, RefreshCw, ChevronLeft, ChevronRight,
 } from 'lucide-react';
 import ReactMarkdown from 'react-markdown';
 import ChatSessionSidebar from './ChatSessionSidebar';
 import VectorVisualization from './VectorVisualizationDynamic';
 import { useEditorContext } from '@/lib/editor-context';
-import type { ChatSession, VectorContextItem } from '@/lib/types';
+import type { ChatBranchMessage, ChatSession, VectorContextItem } from '@/lib/types';
 
 // ─── Types ────────────────────────────────────────────
 
@@ -19,10 +19,19 @@ interface MessagePart {
 }
 
 interface Message {
+  /** Saved message id — set once the server has stored it */
+  id?: string;
   role: 'user' | 'assistant';
   content: string;
   contextItems?: VectorContextItem[];
   userQuery?: string;
+  /** This message and its alternative edits or regenerations, oldest first */
+  siblingIds?: string[];
+}
+
+interface BranchTarget {
+  edit_message_id?: string;
+  regenerate_message_id?: string;
 }
 
 interface ChatPanelProps {
@@ -58,6 +67,18 @@ function parseMessageParts(content: string): MessagePart[] {
   return parts.length ? parts : [{ type: 'text', content }];
 }
 
+/** Map a session's active branch from the API to panel messages. */
+function toPanelMessages(messages: ChatBranchMessage[]): Message[] {
+  return messages
+    .filter((m) => m.role === 'user' || m.role === 'assistant')
+    .map((m) => ({
+      id: m.id,
+      role: m.role as 'user' | 'assistant',
+      content: m.content,
+      siblingIds: m.sibling_ids,
+    }));
+}
+
 // ─── Sub-components ───────────────────────────────────
 
 function MessageContent({ content }: { content: string }) {
@@ -183,6 +204,48 @@ function ProposalCard({
   );
 }
 
+/**
+ * "‹ 2/3 ›" control for a message that has been edited or regenerated.
+ * Each arrow switches the conversation to the neighbouring branch.
+ */
+function BranchSwitcher({
+  messageId,
+  siblingIds,
+  disabled,
+  onSwitch,
+}: {
+  messageId: string;
+  siblingIds: string[];
+  disabled: boolean;
+  onSwitch: (messageId: string) => void;
+}) {
+  const index = siblingIds.indexOf(messageId);
+
+  return (
+    <div className="flex items-center gap-0.5 text-[10px] font-medium text-venus-gray-400">
+      <button
+        onClick={() => onSwitch(siblingIds[index - 1])}
+        disabled={disabled || index <= 0}
+        className="p-0.5 rounded hover:text-venus-purple disabled:opacity-40 disabled:hover:text-venus-gray-400 transition-colors"
+        title="Previous version"
+      >
+        <ChevronLeft size={12} />
+      </button>
+      <span className="tabular-nums">
+        {index + 1}/{siblingIds.length}
+      </span>
+      <button
+        onClick={() => onSwitch(siblingIds[index + 1])}
+        disabled={disabled || index >= siblingIds.length - 1}
+        className="p-0.5 rounded hover:text-venus-purple disabled:opacity-40 disabled:hover:text-venus-gray-400 transition-colors"
+        title="Next version"
+      >
+        <ChevronRight size={12} />
+      </button>
+    </div>
+  );
+}
+
 // ─── Main component ───────────────────────────────────
 
 export default function ChatPanel({ sparkId, itemCount = 0 }: ChatPanelProps) {
@@ -197,6 +260,9 @@ export default function ChatPanel({ sparkId, itemCount = 0 }: ChatPanelProps) {
   const [sessions, setSessions] = useState<ChatSession[]>([]);
   const [isHistoryOpen, setIsHistoryOpen] = useState(false);
 
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editDraft, setEditDraft] = useState('');
+
   const [didYouKnow, setDidYouKnow] = useState<string | null>(null);
   const [didYouKnowLoading, setDidYouKnowLoading] = useState(false);
 
@@ -276,28 +342,31 @@ export default function ChatPanel({ sparkId, itemCount = 0 }: ChatPanelProps) {
     return () => { cancelled = true; };
   }, [itemCount, sparkId]);
 
-  // ── Submit ─────────────────────────────────────────
-  const handleSubmit = async (e: React.FormEvent) => {
-    e.preventDefault();
-    if (!input.trim() || isStreaming) return;
-
-    const userMessage = input.trim();
-    setInput('');
-
+  // ── Streaming ──────────────────────────────────────
+  /**
+   * Show `userMessage` after `base` — the branch up to the point it is sent
+   * from — and stream the reply. Regenerations keep the answered user
+   * message at the end of `base` instead of adding a new one.
+   */
+  const streamReply = async (base: Message[], userMessage: string, branch: BranchTarget = {}) => {
     // Capture selection context at submit time (it may be cleared after apply)
     const activeSelectedText = selectedText?.text;
     const docText = getDocumentText?.() ?? '';
 
-    setMessages(prev => [...prev, { role: 'user', content: userMessage }]);
+    setMessages([
+      ...base,
+      ...(branch.regenerate_message_id ? [] : [{ role: 'user' as const, content: userMessage }]),
+      { role: 'assistant', content: '', userQuery: userMessage },
+    ]);
     setIsStreaming(true);
     setStatusMessage(null);
-    setMessages(prev => [...prev, { role: 'assistant', content: '', userQuery: userMessage }]);
 
     try {
       const body: Record<string, unknown> = {
         spark_id: sparkId,
         message: userMessage,
         session_id: activeSessionId,
+        ...branch,
       };
 
       // Include editor document context when there's content
@@ -369,6 +438,14 @@ export default function ChatPanel({ sparkId, itemCount = 0 }: ChatPanelProps) {
                   setStatusMessage(null);
                   if (data.session_id && !activeSessionId) setActiveSessionId(data.session_id);
                   fetchSessions();
+                  if (data.session_id && data.assistant_message_id) {
+                    setMessages(prev => prev.map((m, idx) => {
+                      if (idx === prev.length - 1) return { ...m, id: data.assistant_message_id };
+                      if (idx === prev.length - 2 && m.role === 'user') return { ...m, id: data.user_message_id };
+                      return m;
+                    }));
+                    refreshBranch(data.session_id);
+                  }
                 }
               } catch { /* skip malformed events */ }
             }
@@ -390,25 +467,89 @@ export default function ChatPanel({ sparkId, itemCount = 0 }: ChatPanelProps) {
     }
   };
 
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!input.trim() || isStreaming) return;
+
+    const userMessage = input.trim();
+    setInput('');
+    await streamReply(messages, userMessage);
+  };
+
+  // ── Branching ──────────────────────────────────────
+  /**
+   * Reload the active branch to pick up sibling counts, keeping the
+   * retrieval context of messages streamed in this panel.
+   */
+  const refreshBranch = async (sessionId: string) => {
+    try {
+      const res = await fetch(`/api/chat/sessions/${sessionId}`);
+      if (!res.ok) return;
+      const data = await res.json();
+      const fetched = toPanelMessages(data.messages || []);
+      setMessages(prev => {
+        const local = new Map(prev.filter((m) => m.id).map((m) => [m.id, m]));
+        return fetched.map((m) => {
+          const existing = local.get(m.id);
+          return existing ? { ...m, contextItems: existing.contextItems, userQuery: existing.userQuery } : m;
+        });
+      });
+    } catch { /* silently fail */ }
+  };
+
+  const handleStartEdit = (msg: Message) => {
+    if (!msg.id) return;
+    setEditingId(msg.id);
+    setEditDraft(msg.content);
+  };
+
+  const handleSubmitEdit = async (index: number) => {
+    const original = messages[index];
+    const draft = editDraft.trim();
+    if (!original?.id || !draft || isStreaming) return;
+
+    setEditingId(null);
+    await streamReply(messages.slice(0, index), draft, { edit_message_id: original.id });
+  };
+
+  const handleRegenerate = async (index: number) => {
+    const target = messages[index];
+    const answered = messages[index - 1];
+    if (!target?.id || answered?.role !== 'user' || isStreaming) return;
+
+    await streamReply(messages.slice(0, index), answered.content, { regenerate_message_id: target.id });
+  };
+
+  const handleSwitchBranch = async (messageId: string) => {
+    if (!activeSessionId || isStreaming) return;
+    try {
+      const res = await fetch(`/api/chat/sessions/${activeSessionId}/branch`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ message_id: messageId }),
+      });
+      if (!res.ok) return;
+      const data = await res.json();
+      setEditingId(null);
+      setMessages(toPanelMessages(data.messages || []));
+      fetchSessions();
+    } catch { /* silently fail */ }
+  };
+
   const handleSelectSession = async (sessionId: string) => {
     try {
       const res = await fetch(`/api/chat/sessions/${sessionId}`);
       if (!res.ok) return;
       const data = await res.json();
       setActiveSessionId(sessionId);
-      setMessages(
-        (data.messages || [])
-          .filter((m: { role: string }) => m.role === 'user' || m.role === 'assistant')
-          .map((m: { role: string; content: string }) => ({
-            role: m.role as 'user' | 'assistant',
-            content: m.content,
-          }))
-      );
+      setEditingId(null);
+      setMessages(toPanelMessages(data.messages || []));
     } catch { /* silently fail */ }
   };
 
   const handleNewChat = () => {
     setActiveSessionId(null);
+    setEditingId(null);
     setMessages([]);
   };
 
@@ -596,66 +737,138 @@ export default function ChatPanel({ sparkId, itemCount = 0 }: ChatPanelProps) {
                 </div>
               )}
               <div
-                className={`max-w-[80%] rounded-xl text-sm ${
-                  msg.role === 'user'
-                    ? 'bg-venus-purple text-white rounded-br-sm px-4 py-3'
-                    : 'bg-venus-gray-100 text-venus-gray-700 rounded-bl-sm overflow-hidden'
-                }`}
+                className={`max-w-[80%] min-w-0 flex flex-col gap-1 ${
+                  msg.role === 'user' ? 'items-end' : 'items-start'
+                } ${msg.id === editingId ? 'w-full' : ''}`}
               >
-                {msg.role === 'assistant' ? (
-                  <>
-                    {/* 3D Vector visualization */}
-                    {msg.contextItems && msg.contextItems.length > 0 && msg.userQuery && (
-                      <div className="border-b border-venus-gray-200">
-                        <VectorVisualization
-                          items={msg.contextItems}
-                          query={msg.userQuery}
-                          isProcessing={isStreamingThisMsg}
-                        />
-                      </div>
-                    )}
-                    {/* Content */}
-                    <div className="px-4 py-3">
-                      {!msg.content && isStreamingThisMsg ? (
-                        <div className="flex items-center gap-2 text-venus-gray-400">
-                          {statusMessage ? (
-                            <>
-                              <Search size={14} className="animate-pulse text-venus-purple" />
-                              <span className="text-venus-purple">{statusMessage}</span>
-                            </>
-                          ) : (
-                            <>
-                              <Loader2 size={14} className="animate-spin" />
-                              <span>Thinking...</span>
-                            </>
-                          )}
-                        </div>
-                      ) : isStreamingThisMsg ? (
-                        // While streaming, render raw markdown (no proposal parsing mid-stream)
-                        <div className="chat-content">
-                          <MessageContent content={msg.content} />
-                        </div>
-                      ) : (
-                        // After streaming completes, parse and render proposal blocks
-                        <div className="chat-content">
-                          {parseMessageParts(msg.content).map((part, pi) =>
-                            part.type === 'proposal' ? (
-                              <ProposalCard
-                                key={pi}
-                                proposal={part.content}
-                                onApply={handleApplyProposal}
-                              />
-                            ) : (
-                              <MessageContent key={pi} content={part.content} />
-                            )
-                          )}
+                <div
+                  className={`max-w-full rounded-xl text-sm ${
+                    msg.role === 'user'
+                      ? 'bg-venus-purple text-white rounded-br-sm px-4 py-3'
+                      : 'bg-venus-gray-100 text-venus-gray-700 rounded-bl-sm overflow-hidden'
+                  } ${msg.id === editingId ? 'w-full' : ''}`}
+                >
+                  {msg.role === 'assistant' ? (
+                    <>
+                      {/* 3D Vector visualization */}
+                      {msg.contextItems && msg.contextItems.length > 0 && msg.userQuery && (
+                        <div className="border-b border-venus-gray-200">
+                          <VectorVisualization
+                            items={msg.contextItems}
+                            query={msg.userQuery}
+                            isProcessing={isStreamingThisMsg}
+                          />
                         </div>
                       )}
+                      {/* Content */}
+                      <div className="px-4 py-3">
+                        {!msg.content && isStreamingThisMsg ? (
+                          <div className="flex items-center gap-2 text-venus-gray-400">
+                            {statusMessage ? (
+                              <>
+                                <Search size={14} className="animate-pulse text-venus-purple" />
+                                <span className="text-venus-purple">{statusMessage}</span>
+                              </>
+                            ) : (
+                              <>
+                                <Loader2 size={14} className="animate-spin" />
+                                <span>Thinking...</span>
+                              </>
+                            )}
+                          </div>
+                        ) : isStreamingThisMsg ? (
+                          // While streaming, render raw markdown (no proposal parsing mid-stream)
+                          <div className="chat-content">
+                            <MessageContent content={msg.content} />
+                          </div>
+                        ) : (
+                          // After streaming completes, parse and render proposal blocks
+                          <div className="chat-content">
+                            {parseMessageParts(msg.content).map((part, pi) =>
+                              part.type === 'proposal' ? (
+                                <ProposalCard
+                                  key={pi}
+                                  proposal={part.content}
+                                  onApply={handleApplyProposal}
+                                />
+                              ) : (
+                                <MessageContent key={pi} content={part.content} />
+                              )
+                            )}
+                          </div>
+                        )}
+                      </div>
+                    </>
+                  ) : msg.id && msg.id === editingId ? (
+                    // Edit and resend — the edit becomes a new branch beside the original
+                    <div className="flex flex-col gap-2">
+                      <textarea
+                        value={editDraft}
+                        onChange={(e) => setEditDraft(e.target.value)}
+                        onKeyDown={(e) => {
+                          if (e.key === 'Enter' && !e.shiftKey) {
+                            e.preventDefault();
+                            handleSubmitEdit(i);
+                          } else if (e.key === 'Escape') {
+                            setEditingId(null);
+                          }
+                        }}
+                        rows={3}
+                        autoFocus
+                        className="w-full px-2.5 py-2 rounded-md text-sm text-venus-gray-700 bg-white focus:outline-none resize-none"
+                      />
+                      <div className="flex justify-end gap-2">
+                        <button
+                          onClick={() => setEditingId(null)}
+                          className="px-2.5 py-1 text-xs font-medium text-white/80 hover:text-white rounded-md transition-colors"
+                        >
+                          Cancel
+                        </button>
+                        <button
+                          onClick={() => handleSubmitEdit(i)}
+                          disabled={!editDraft.trim() || isStreaming}
+                          className="px-2.5 py-1 text-xs font-semibold bg-white text-venus-purple hover:bg-venus-purple-light rounded-md transition-colors disabled:opacity-50"
+                        >
+                          Send
+                        </button>
+                      </div>
                     </div>
-                  </>
-                ) : (
-                  <div className="chat-content">
-                    <MessageContent content={msg.content} />
+                  ) : (
+                    <div className="chat-content">
+                      <MessageContent content={msg.content} />
+                    </div>
+                  )}
+                </div>
+                {/* Branch actions */}
+                {msg.id && msg.id !== editingId && !isStreamingThisMsg && (
+                  <div className="flex items-center gap-1 px-1">
+                    {msg.siblingIds && msg.siblingIds.length > 1 && (
+                      <BranchSwitcher
+                        messageId={msg.id}
+                        siblingIds={msg.siblingIds}
+                        disabled={isStreaming}
+                        onSwitch={handleSwitchBranch}
+                      />
+                    )}
+                    {msg.role === 'user' ? (
+                      <button
+                        onClick={() => handleStartEdit(msg)}
+                        disabled={isStreaming}
+                        className="p-1 rounded text-venus-gray-400 hover:text-venus-purple disabled:opacity-40 transition-colors"
+                        title="Edit and resend"
+                      >
+                        <Pencil size={11} />
+                      </button>
+                    ) : (
+                      <button
+                        onClick={() => handleRegenerate(i)}
+                        disabled={isStreaming || messages[i - 1]?.role !== 'user'}
+                        className="p-1 rounded text-venus-gray-400 hover:text-venus-purple disabled:opacity-40 transition-colors"
+                        title="Regenerate response"
+                      >
+                        <RefreshCw size={11} />
+                      </button>
+                    )}
                   </div>
                 )}
               </div>
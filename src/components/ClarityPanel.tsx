@@ -2,6 +2,8 @@
 
 import { useState, useEffect, useCallback } from 'react';
 import { BarChart2, Loader2, Check, AlertCircle } from 'lucide-react';
+import { watchJob } from '@/lib/jobs/watch';
+import type { JobProgress } from '@/lib/types';
 
 interface ClarityPanelProps {
   sparkId: string;
@@ -10,18 +12,9 @@ interface ClarityPanelProps {
 
 type Phase = 'checking' | 'not_configured' | 'ready' | 'importing' | 'done' | 'error';
 
-interface ImportProgress {
-  call: number;
-  total_calls: number;
-  label: string;
-  phase: string;
-  metrics_count?: number;
-}
-
 export default function ClarityPanel({ sparkId, onImported }: ClarityPanelProps) {
   const [phase, setPhase] = useState<Phase>('checking');
-  const [progress, setProgress] = useState<ImportProgress | null>(null);
-  const [completedCalls, setCompletedCalls] = useState<string[]>([]);
+  const [progress, setProgress] = useState<JobProgress | null>(null);
   const [totalImported, setTotalImported] = useState(0);
   const [error, setError] = useState<string | null>(null);
 
@@ -43,7 +36,6 @@ export default function ClarityPanel({ sparkId, onImported }: ClarityPanelProps)
   const handleImport = async () => {
     setPhase('importing');
     setProgress(null);
-    setCompletedCalls([]);
     setTotalImported(0);
     setError(null);
 
@@ -54,57 +46,24 @@ export default function ClarityPanel({ sparkId, onImported }: ClarityPanelProps)
         body: JSON.stringify({ spark_id: sparkId, num_days: 3 }),
       });
 
-      if (!res.ok || !res.body) {
-        const errData = await res.json().catch(() => ({ error: 'Import failed' }));
-        setError(errData.error || 'Failed to start import');
+      const data = await res.json().catch(() => null);
+      if (!res.ok || !data?.job) {
+        setError(data?.error || 'Failed to start import');
         setPhase('error');
         return;
       }
 
-      const reader = res.body.getReader();
-      const decoder = new TextDecoder();
-      let buffer = '';
-      let hadError = false;
-
-      // eslint-disable-next-line no-constant-condition
-      while (true) {
-        const { done, value } = await reader.read();
-        if (done) break;
-
-        buffer += decoder.decode(value, { stream: true });
-        const lines = buffer.split('\n');
-        buffer = lines.pop() || '';
-
-        for (const line of lines) {
-          if (!line.startsWith('data: ')) continue;
-          try {
-            const event = JSON.parse(line.slice(6));
-            if (event.type === 'progress') {
-              setProgress({
-                call: event.call,
-                total_calls: event.total_calls,
-                label: event.label,
-                phase: event.phase,
-                metrics_count: event.metrics_count,
-              });
-            } else if (event.type === 'call_done') {
-              setCompletedCalls((prev) => [
-                ...prev,
-                `${event.label} (${event.metrics_count} metrics)`,
-              ]);
-            } else if (event.type === 'done') {
-              setTotalImported(event.total_imported);
-            } else if (event.type === 'error') {
-              setError(event.message);
-              hadError = true;
-            }
-          } catch {
-            // Skip malformed lines
-          }
-        }
+      // The import runs as a background job — follow its progress
+      const job = await watchJob(data.job.id, (update) => setProgress(update.progress));
+      if (job.status === 'succeeded') {
+        setTotalImported((job.result?.total_imported as number) ?? 0);
+        const errors = (job.result?.errors as string[] | undefined) ?? [];
+        if (errors.length > 0) setError(errors.join('; '));
+        setPhase('done');
+      } else {
+        setError(job.status === 'cancelled' ? 'Import cancelled' : job.last_error || 'Import failed');
+        setPhase('error');
       }
-
-      setPhase(hadError ? 'error' : 'done');
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Import failed');
       setPhase('error');
@@ -169,7 +128,7 @@ export default function ClarityPanel({ sparkId, onImported }: ClarityPanelProps)
         </div>
 
         {/* Completed calls */}
-        {completedCalls.map((call, idx) => (
+        {progress?.log?.map((call, idx) => (
           <div
             key={idx}
             className="flex items-center gap-2 mb-2 text-sm text-venus-green"
@@ -183,20 +142,18 @@ export default function ClarityPanel({ sparkId, onImported }: ClarityPanelProps)
         {progress && (
           <div className="mt-3">
             <div className="flex items-center justify-between mb-1">
-              <span className="text-xs text-venus-gray-600">
-                {progress.phase === 'fetching'
-                  ? `Fetching ${progress.label}...`
-                  : `Importing ${progress.label}`}
-              </span>
-              <span className="text-xs text-venus-gray-400">
-                {progress.call}/{progress.total_calls}
-              </span>
+              <span className="text-xs text-venus-gray-600">{progress.message}</span>
+              {progress.total != null && (
+                <span className="text-xs text-venus-gray-400">
+                  {progress.current ?? 0}/{progress.total}
+                </span>
+              )}
             </div>
             <div className="w-full h-1.5 bg-venus-gray-100 rounded-full overflow-hidden">
               <div
                 className="h-full bg-venus-purple rounded-full transition-all duration-300"
                 style={{
-                  width: `${(progress.call / progress.total_calls) * 100}%`,
+                  width: `${progress.total ? ((progress.current ?? 0) / progress.total) * 100 : 0}%`,
                 }}
               />
             </div>
@@ -2,6 +2,7 @@
 
 import { useState, useRef, useEffect, useCallback } from 'react';
 import { X } from 'lucide-react';
+import type { MentionMember } from '@/lib/types';
 
 export interface CommentSubmitData {
   threadId: string;
@@ -13,25 +14,14 @@ export interface CommentSubmitData {
   to: number;
 }
 
-interface MentionItem {
-  id: string;
-  label: string;
-}
-
-const MENTION_ITEMS: MentionItem[] = [
-  { id: '1', label: 'Alice Johnson' },
-  { id: '2', label: 'Bob Smith' },
-  { id: '3', label: 'Carol White' },
-  { id: '4', label: 'David Lee' },
-  { id: '5', label: 'Eva Martinez' },
-];
-
 interface CommentPopoverProps {
   anchorRect: DOMRect;
   containerRect: DOMRect;
   selectedText: string;
   from: number;
   to: number;
+  /** Spark members offered after `@` — the server notifies whoever is mentioned */
+  members?: MentionMember[];
   onSubmit: (data: CommentSubmitData) => void;
   onCancel: () => void;
 }
@@ -42,6 +32,7 @@ export default function CommentPopover({
   selectedText,
   from,
   to,
+  members,
   onSubmit,
   onCancel,
 }: CommentPopoverProps) {
@@ -82,10 +73,10 @@ export default function CommentPopover({
   }, []);
 
   const filteredMentions = mentionQuery !== null
-    ? MENTION_ITEMS.filter(m => m.label.toLowerCase().startsWith(mentionQuery.toLowerCase())).slice(0, 5)
+    ? (members ?? []).filter(m => m.label.toLowerCase().startsWith(mentionQuery.toLowerCase())).slice(0, 5)
     : [];
 
-  const insertMention = useCallback((item: MentionItem) => {
+  const insertMention = useCallback((item: MentionMember) => {
     const ta = textareaRef.current;
     if (!ta || mentionQuery === null) return;
     const cursor = ta.selectionStart;
@@ -176,7 +167,7 @@ export default function CommentPopover({
           <div className="absolute bottom-0 left-3 right-3 translate-y-full z-10 bg-card-bg border border-venus-gray-200 rounded-md shadow-md py-1 max-h-36 overflow-y-auto">
             {filteredMentions.map((item, i) => (
               <button
-                key={item.id}
+                key={item.user_id}
                 onMouseDown={(e) => { e.preventDefault(); e.stopPropagation(); insertMention(item); }}
                 className={`w-full text-left px-3 py-1.5 text-sm transition-colors ${
                   i === mentionIdx
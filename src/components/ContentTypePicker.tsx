@@ -0,0 +1,101 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+
+export interface PickedStack {
+  api_key: string;
+  name: string;
+  master_locale: string;
+}
+
+interface ContentTypePickerProps {
+  stackKey: string;
+  contentTypeUid: string;
+  onStackChange: (stack: PickedStack | null) => void;
+  onContentTypeChange: (uid: string) => void;
+  disabled?: boolean;
+}
+
+interface ContentType {
+  uid: string;
+  title: string;
+}
+
+export const pickerSelectClass =
+  'w-full px-2.5 py-1.5 border border-venus-gray-200 rounded-lg text-xs bg-card-bg focus:outline-none focus:ring-2 focus:ring-venus-purple/30 focus:border-venus-purple';
+
+/** Stack + content type selects backed by the user's Contentstack session. */
+export default function ContentTypePicker({
+  stackKey,
+  contentTypeUid,
+  onStackChange,
+  onContentTypeChange,
+  disabled,
+}: ContentTypePickerProps) {
+  const [stacks, setStacks] = useState<PickedStack[]>([]);
+  const [loadingStacks, setLoadingStacks] = useState(true);
+  // Content types are cached per stack key; a missing key means still loading
+  const [contentTypes, setContentTypes] = useState<Record<string, ContentType[]>>({});
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetch('/api/contentstack/stacks')
+      .then((res) => res.json())
+      .then((data) => {
+        if (data.error) setError(data.error);
+        setStacks(data.stacks || []);
+      })
+      .catch(() => setError('Failed to load stacks'))
+      .finally(() => setLoadingStacks(false));
+  }, []);
+
+  useEffect(() => {
+    if (!stackKey || contentTypes[stackKey]) return;
+    fetch(`/api/contentstack/content-types?api_key=${stackKey}`)
+      .then((res) => res.json())
+      .then((data) => {
+        if (data.error) setError(data.error);
+        setContentTypes((prev) => ({ ...prev, [stackKey]: data.content_types || [] }));
+      })
+      .catch(() => {
+        setError('Failed to load content types');
+        setContentTypes((prev) => ({ ...prev, [stackKey]: [] }));
+      });
+  }, [stackKey, contentTypes]);
+
+  const loadingTypes = Boolean(stackKey) && !contentTypes[stackKey];
+  const typesForStack = contentTypes[stackKey] || [];
+
+  return (
+    <div className="space-y-1.5">
+      <div className="grid grid-cols-2 gap-2">
+        <select
+          value={stackKey}
+          onChange={(e) => {
+            onStackChange(stacks.find((s) => s.api_key === e.target.value) ?? null);
+            onContentTypeChange('');
+          }}
+          disabled={disabled || loadingStacks}
+          className={pickerSelectClass}
+        >
+          <option value="">{loadingStacks ? 'Loading stacks...' : 'Select stack'}</option>
+          {stacks.map((s) => (
+            <option key={s.api_key} value={s.api_key}>{s.name}</option>
+          ))}
+        </select>
+        <select
+          value={contentTypeUid}
+          onChange={(e) => onContentTypeChange(e.target.value)}
+          disabled={disabled || !stackKey || loadingTypes}
+          className={pickerSelectClass}
+        >
+          <option value="">{loadingTypes ? 'Loading types...' : 'Select content type'}</option>
+          {typesForStack.map((ct) => (
+            <option key={ct.uid} value={ct.uid}>{ct.title}</option>
+          ))}
+        </select>
+      </div>
+      {error && <p className="text-xs text-venus-red break-words">{error}</p>}
+    </div>
+  );
+}
@@ -2,6 +2,7 @@
 
 import { useState, useEffect, useCallback } from 'react';
 import { Paperclip, Loader2, Check, ChevronDown, Search, FolderOpen, Image } from 'lucide-react';
+import { watchJob } from '@/lib/jobs/watch';
 
 interface ContentstackAssetsPanelProps {
   sparkId: string;
@@ -212,46 +213,26 @@ export default function ContentstackAssetsPanel({
         body: JSON.stringify(body),
       });
 
-      if (!res.ok || !res.body) {
-        setError('Failed to start import');
+      const data = await res.json().catch(() => null);
+      if (!res.ok || !data?.job) {
+        setError(data?.error || 'Failed to start import');
         setPhase('browse');
         return;
       }
 
-      const reader = res.body.getReader();
-      const decoder = new TextDecoder();
-      let buffer = '';
-
-      // eslint-disable-next-line no-constant-condition
-      while (true) {
-        const { done, value } = await reader.read();
-        if (done) break;
-
-        buffer += decoder.decode(value, { stream: true });
-        const lines = buffer.split('\n');
-        buffer = lines.pop() || '';
-
-        for (const line of lines) {
-          if (!line.startsWith('data: ')) continue;
-          try {
-            const event = JSON.parse(line.slice(6));
-            if (event.type === 'progress') {
-              setImportProgress({
-                total: event.total,
-                imported: event.imported,
-              });
-            } else if (event.type === 'done') {
-              setTotalImported(event.total_imported);
-            } else if (event.type === 'error') {
-              setError(event.message);
-            }
-          } catch {
-            // Skip malformed lines
-          }
+      // The import runs as a background job — follow its progress
+      const job = await watchJob(data.job.id, (update) => {
+        if (update.progress?.total != null) {
+          setImportProgress({ total: update.progress.total, imported: update.progress.current ?? 0 });
         }
+      });
+      if (job.status === 'succeeded') {
+        setTotalImported((job.result?.total_imported as number) ?? 0);
+        setPhase('done');
+      } else {
+        setError(job.status === 'cancelled' ? 'Import cancelled' : job.last_error || 'Import failed');
+        setPhase('browse');
       }
-
-      setPhase('done');
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Import failed');
       setPhase('browse');
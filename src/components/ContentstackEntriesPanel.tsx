@@ -2,6 +2,8 @@
 
 import { useState } from 'react';
 import { Database, Loader2, Check } from 'lucide-react';
+import { watchJob } from '@/lib/jobs/watch';
+import type { JobProgress } from '@/lib/types';
 
 interface ContentstackEntriesPanelProps {
   sparkId: string;
@@ -16,14 +18,6 @@ const CONTENT_TYPES = [
 
 type Phase = 'ready' | 'importing' | 'done';
 
-interface ImportProgress {
-  content_type: string;
-  total: number;
-  fetched: number;
-  imported: number;
-  phase: string;
-}
-
 export default function ContentstackEntriesPanel({
   sparkId,
   onImported,
@@ -32,8 +26,7 @@ export default function ContentstackEntriesPanel({
   const [selectedUids, setSelectedUids] = useState<Set<string>>(
     new Set(CONTENT_TYPES.map((ct) => ct.uid))
   );
-  const [progress, setProgress] = useState<ImportProgress | null>(null);
-  const [completedTypes, setCompletedTypes] = useState<string[]>([]);
+  const [progress, setProgress] = useState<JobProgress | null>(null);
   const [totalImported, setTotalImported] = useState(0);
   const [error, setError] = useState<string | null>(null);
 
@@ -51,7 +44,6 @@ export default function ContentstackEntriesPanel({
 
     setPhase('importing');
     setProgress(null);
-    setCompletedTypes([]);
     setTotalImported(0);
     setError(null);
 
@@ -65,52 +57,24 @@ export default function ContentstackEntriesPanel({
         }),
       });
 
-      if (!res.ok || !res.body) {
-        const errData = await res.json().catch(() => null);
-        setError(errData?.error || 'Failed to start import');
+      const data = await res.json().catch(() => null);
+      if (!res.ok || !data?.job) {
+        setError(data?.error || 'Failed to start import');
         setPhase('ready');
         return;
       }
 
-      const reader = res.body.getReader();
-      const decoder = new TextDecoder();
-      let buffer = '';
-
-      // eslint-disable-next-line no-constant-condition
-      while (true) {
-        const { done, value } = await reader.read();
-        if (done) break;
-
-        buffer += decoder.decode(value, { stream: true });
-        const lines = buffer.split('\n');
-        buffer = lines.pop() || '';
-
-        for (const line of lines) {
-          if (!line.startsWith('data: ')) continue;
-          try {
-            const event = JSON.parse(line.slice(6));
-            if (event.type === 'progress') {
-              setProgress({
-                content_type: event.content_type,
-                total: event.total,
-                fetched: event.fetched || 0,
-                imported: event.imported || 0,
-                phase: event.phase,
-              });
-            } else if (event.type === 'content_type_done') {
-              setCompletedTypes((prev) => [...prev, event.content_type]);
-            } else if (event.type === 'done') {
-              setTotalImported(event.total_imported);
-            } else if (event.type === 'error') {
-              setError(event.message);
-            }
-          } catch {
-            // Skip malformed lines
-          }
-        }
+      // The import runs as a background job — follow its progress
+      const job = await watchJob(data.job.id, (update) => setProgress(update.progress));
+      if (job.status === 'succeeded') {
+        setTotalImported((job.result?.total_imported as number) ?? 0);
+        const errors = (job.result?.errors as string[] | undefined) ?? [];
+        if (errors.length > 0) setError(errors.join('; '));
+        setPhase('done');
+      } else {
+        setError(job.status === 'cancelled' ? 'Import cancelled' : job.last_error || 'Import failed');
+        setPhase('ready');
       }
-
-      setPhase('done');
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Import failed');
       setPhase('ready');
@@ -181,13 +145,13 @@ export default function ContentstackEntriesPanel({
         </div>
 
         {/* Completed types */}
-        {completedTypes.map((ct) => (
+        {progress?.log?.map((line) => (
           <div
-            key={ct}
+            key={line}
             className="flex items-center gap-2 mb-2 text-sm text-venus-green"
           >
             <Check size={14} />
-            {ct}
+            {line}
           </div>
         ))}
 
@@ -195,28 +159,18 @@ export default function ContentstackEntriesPanel({
         {progress && (
           <div className="mt-3">
             <div className="flex items-center justify-between mb-1">
-              <span className="text-xs text-venus-gray-600">
-                {progress.phase === 'fetching'
-                  ? `Fetching ${progress.content_type}...`
-                  : `Importing ${progress.content_type}`}
-              </span>
-              <span className="text-xs text-venus-gray-400">
-                {progress.phase === 'fetching'
-                  ? `${progress.fetched}/${progress.total}`
-                  : `${progress.imported}/${progress.total}`}
-              </span>
+              <span className="text-xs text-venus-gray-600">{progress.message}</span>
+              {progress.total != null && (
+                <span className="text-xs text-venus-gray-400">
+                  {progress.current ?? 0}/{progress.total}
+                </span>
+              )}
             </div>
             <div className="w-full h-1.5 bg-venus-gray-100 rounded-full overflow-hidden">
               <div
                 className="h-full bg-venus-purple rounded-full transition-all duration-300"
                 style={{
-                  width: `${
-                    progress.total > 0
-                      ? ((progress.phase === 'fetching' ? progress.fetched : progress.imported) /
-                          progress.total) *
-                        100
-                      : 0
-                  }%`,
+                  width: `${progress.total ? ((progress.current ?? 0) / progress.total) * 100 : 0}%`,
                 }}
               />
             </div>
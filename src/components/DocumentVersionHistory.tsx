@@ -0,0 +1,344 @@
+'use client';
+
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import type { JSONContent } from '@tiptap/core';
+import { History, RotateCcw, Loader2, Save } from 'lucide-react';
+import type { DocumentVersion, DocumentVersionSource } from '@/lib/types';
+import { diffDocuments, type DocumentBlockDiff } from '@/lib/document-diff';
+import { useEditorContext } from '@/lib/editor-context';
+
+interface DocumentVersionHistoryProps {
+  sparkId: string;
+  canEdit: boolean;
+}
+
+type VersionSummary = Omit<DocumentVersion, 'content'> & { users: { display_name: string | null } | null };
+
+/** The other side of a comparison: the live document or another version */
+type CompareTarget = 'current' | string;
+
+const SOURCE_LABELS: Record<DocumentVersionSource, string> = {
+  auto: 'Autosave',
+  manual: 'Saved',
+  restore: 'Restored',
+};
+
+// Runs of unchanged blocks longer than this collapse into one line
+const UNCHANGED_CONTEXT = 2;
+
+function describeVersion(version: VersionSummary): string {
+  if (version.name) return version.name;
+  if (version.source === 'restore' && version.restored_from) return `Restored v${version.restored_from}`;
+  return SOURCE_LABELS[version.source];
+}
+
+type DiffRow = DocumentBlockDiff | { status: 'collapsed'; count: number };
+
+function collapseUnchanged(diffs: DocumentBlockDiff[]): DiffRow[] {
+  const rows: DiffRow[] = [];
+  let run: DocumentBlockDiff[] = [];
+  const flush = () => {
+    if (run.length > UNCHANGED_CONTEXT) rows.push({ status: 'collapsed', count: run.length });
+    else rows.push(...run);
+    run = [];
+  };
+  for (const diff of diffs) {
+    if (diff.status === 'unchanged') {
+      run.push(diff);
+    } else {
+      flush();
+      rows.push(diff);
+    }
+  }
+  flush();
+  return rows;
+}
+
+function DiffBlock({ row }: { row: DiffRow }) {
+  if (row.status === 'collapsed') {
+    return (
+      <p className="px-2 py-1 text-[10px] text-venus-gray-400 italic">
+        {row.count} unchanged block{row.count !== 1 ? 's' : ''}
+      </p>
+    );
+  }
+
+  const mono = row.block.kind === 'code' ? 'font-mono' : '';
+  const base = `text-xs whitespace-pre-wrap break-words px-2 py-1 rounded ${mono}`;
+
+  switch (row.status) {
+    case 'unchanged':
+      return <p className={`${base} text-venus-gray-500`}>{row.block.text}</p>;
+    case 'added':
+      return <p className={`${base} bg-venus-green-light text-venus-gray-700`}>{row.block.text}</p>;
+    case 'removed':
+      return <p className={`${base} bg-venus-red-light text-venus-gray-500 line-through`}>{row.block.text}</p>;
+    case 'changed':
+      return (
+        <p className={`${base} bg-venus-purple/5 text-venus-gray-700`}>
+          {row.words.map((word, i) =>
+            word.status === 'added' ? (
+              <ins key={i} className="no-underline bg-venus-green-light text-venus-green">{word.text}</ins>
+            ) : word.status === 'removed' ? (
+              <del key={i} className="bg-venus-red-light text-venus-red">{word.text}</del>
+            ) : (
+              <span key={i}>{word.text}</span>
+            )
+          )}
+        </p>
+      );
+  }
+}
+
+export default function DocumentVersionHistory({ sparkId, canEdit }: DocumentVersionHistoryProps) {
+  const editorCtx = useEditorContext();
+  const [versions, setVersions] = useState<VersionSummary[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const [name, setName] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [compareTo, setCompareTo] = useState<CompareTarget>('current');
+  const [contents, setContents] = useState<Record<string, JSONContent>>({});
+  // The live document as of when the comparison was opened
+  const [liveDoc, setLiveDoc] = useState<JSONContent | null>(null);
+  const [restoring, setRestoring] = useState(false);
+
+  const loadVersions = useCallback(async () => {
+    try {
+      const res = await fetch(`/api/sparks/${sparkId}/versions`);
+      if (res.ok) {
+        const data = await res.json();
+        setVersions(data.versions);
+      }
+    } finally {
+      setLoading(false);
+    }
+  }, [sparkId]);
+
+  useEffect(() => {
+    loadVersions();
+  }, [loadVersions]);
+
+  const loadContent = useCallback(async (versionId: string) => {
+    if (contents[versionId]) return;
+    const res = await fetch(`/api/sparks/${sparkId}/versions/${versionId}`);
+    if (!res.ok) {
+      setError('Could not load that version');
+      return;
+    }
+    const data = await res.json();
+    setContents(prev => ({ ...prev, [versionId]: data.version.content as JSONContent }));
+  }, [sparkId, contents]);
+
+  function selectVersion(versionId: string) {
+    if (versionId === selectedId) {
+      setSelectedId(null);
+      return;
+    }
+    setSelectedId(versionId);
+    setError(null);
+    setLiveDoc(editorCtx?.getEditor()?.getJSON() ?? null);
+    loadContent(versionId);
+    if (compareTo !== 'current') loadContent(compareTo);
+  }
+
+  function changeCompareTarget(target: CompareTarget) {
+    setCompareTo(target);
+    if (target === 'current') setLiveDoc(editorCtx?.getEditor()?.getJSON() ?? null);
+    else loadContent(target);
+  }
+
+  const selected = versions.find(v => v.id === selectedId) ?? null;
+  const other = compareTo === 'current' ? null : versions.find(v => v.id === compareTo) ?? null;
+
+  // Always show older → newer; the live document is newest
+  const [from, to] = other && other.version_number < (selected?.version_number ?? 0)
+    ? [other, selected]
+    : [selected, other];
+  const fromDoc = from ? contents[from.id] : undefined;
+  const toDoc = to ? contents[to.id] : liveDoc;
+
+  const rows = useMemo(
+    () => (fromDoc && toDoc ? collapseUnchanged(diffDocuments(fromDoc, toDoc)) : null),
+    [fromDoc, toDoc]
+  );
+  const hasChanges = rows?.some(row => row.status !== 'unchanged' && row.status !== 'collapsed') ?? false;
+
+  async function handleSave() {
+    const trimmed = name.trim();
+    if (!trimmed) return;
+    setSaving(true);
+    setError(null);
+    try {
+      const res = await fetch(`/api/sparks/${sparkId}/versions`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name: trimmed, content: editorCtx?.getEditor()?.getJSON() }),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || 'Save failed');
+      setName('');
+      await loadVersions();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Save failed');
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function handleRestore(version: VersionSummary) {
+    const editor = editorCtx?.getEditor();
+    if (!editor) {
+      setError('Open the editor to restore a version');
+      return;
+    }
+    setRestoring(true);
+    setError(null);
+    try {
+      const res = await fetch(`/api/sparks/${sparkId}/versions/${version.id}/restore`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ current: editor.getJSON() }),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || 'Restore failed');
+
+      // One transaction on the shared Yjs document: collaborators receive it
+      // like any other edit, and autosave picks it up from onUpdate.
+      editor.commands.setContent(data.content as JSONContent);
+      setSelectedId(null);
+      await loadVersions();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Restore failed');
+    } finally {
+      setRestoring(false);
+    }
+  }
+
+  return (
+    <div className="flex flex-col h-full">
+      {/* Header */}
+      <div className="shrink-0 px-3 py-2.5 border-b border-venus-gray-200 space-y-2">
+        <div className="flex items-center gap-1.5">
+          <History size={13} className="text-venus-purple" />
+          <span className="text-xs font-semibold text-venus-gray-700">Version history</span>
+          <span className="text-[10px] px-1.5 py-0.5 rounded-full bg-venus-purple/10 text-venus-purple">
+            {versions.length}
+          </span>
+        </div>
+        {canEdit && (
+          <div className="flex items-center gap-1.5">
+            <input
+              value={name}
+              onChange={e => setName(e.target.value)}
+              onKeyDown={e => { if (e.key === 'Enter') handleSave(); }}
+              placeholder="Name this version…"
+              maxLength={120}
+              className="flex-1 min-w-0 text-xs bg-venus-gray-50 border border-venus-gray-200 focus:border-venus-purple rounded px-2 py-1.5 outline-none"
+            />
+            <button
+              onClick={handleSave}
+              disabled={saving || !name.trim()}
+              className="flex items-center gap-1 px-2 py-1.5 rounded-md text-xs font-medium text-white bg-venus-purple hover:bg-venus-purple-deep transition-colors disabled:opacity-50"
+            >
+              {saving ? <Loader2 size={12} className="animate-spin" /> : <Save size={12} />}
+              Save
+            </button>
+          </div>
+        )}
+      </div>
+
+      <div className="flex-1 overflow-y-auto px-3 py-3 space-y-3">
+        {loading && versions.length === 0 ? (
+          <div className="flex items-center gap-2 text-xs text-venus-gray-400 py-2">
+            <Loader2 size={12} className="animate-spin" />
+            Loading history...
+          </div>
+        ) : versions.length === 0 ? (
+          <p className="text-xs text-venus-gray-500 leading-relaxed">
+            No versions yet. Snapshots are taken automatically every few minutes while the document is edited.
+          </p>
+        ) : (
+          <div className="space-y-1">
+            {versions.map(version => {
+              const isSelected = version.id === selectedId;
+              return (
+                <button
+                  key={version.id}
+                  onClick={() => selectVersion(version.id)}
+                  className={`w-full flex items-center justify-between px-3 py-2 rounded-lg text-left text-xs transition-colors ${
+                    isSelected
+                      ? 'bg-venus-purple-light/50 border border-venus-purple/30'
+                      : 'border border-transparent hover:bg-venus-gray-50'
+                  }`}
+                >
+                  <div className="min-w-0 truncate">
+                    <span className="font-medium text-venus-gray-700">v{version.version_number}</span>
+                    <span className={version.name ? 'text-venus-gray-700' : 'text-venus-gray-500'}> &middot; {describeVersion(version)}</span>
+                    {version.users?.display_name && (
+                      <span className="text-venus-gray-400"> &middot; {version.users.display_name}</span>
+                    )}
+                  </div>
+                  <span className="text-[10px] text-venus-gray-400 shrink-0 ml-2">
+                    {new Date(version.created_at).toLocaleString()}
+                  </span>
+                </button>
+              );
+            })}
+          </div>
+        )}
+
+        {selected && (
+          <div className="border border-venus-gray-200 rounded-lg">
+            <div className="flex items-center justify-between gap-2 px-3 py-2 border-b border-venus-gray-200">
+              <label className="flex items-center gap-1.5 text-xs text-venus-gray-600 min-w-0">
+                <span className="shrink-0">v{selected.version_number} vs</span>
+                <select
+                  value={compareTo}
+                  onChange={e => changeCompareTarget(e.target.value)}
+                  className="min-w-0 text-xs bg-venus-gray-50 border border-venus-gray-200 rounded px-1.5 py-0.5 outline-none"
+                >
+                  <option value="current">Current document</option>
+                  {versions.filter(v => v.id !== selected.id).map(v => (
+                    <option key={v.id} value={v.id}>v{v.version_number} · {describeVersion(v)}</option>
+                  ))}
+                </select>
+              </label>
+              {canEdit && (
+                <button
+                  onClick={() => handleRestore(selected)}
+                  disabled={restoring}
+                  className="flex items-center gap-1 px-2 py-1 rounded-md text-xs font-medium text-venus-purple hover:bg-venus-purple-light/50 transition-colors disabled:opacity-50 shrink-0"
+                >
+                  {restoring ? <Loader2 size={12} className="animate-spin" /> : <RotateCcw size={12} />}
+                  Restore
+                </button>
+              )}
+            </div>
+
+            {!rows ? (
+              <div className="flex items-center gap-2 px-3 py-3 text-xs text-venus-gray-400">
+                <Loader2 size={12} className="animate-spin" />
+                Comparing...
+              </div>
+            ) : !hasChanges ? (
+              <p className="px-3 py-3 text-xs text-venus-gray-400">No differences.</p>
+            ) : (
+              <div className="px-1 py-1.5 space-y-0.5 max-h-[60vh] overflow-y-auto">
+                <p className="px-2 pb-1 text-[10px] text-venus-gray-400">
+                  v{from?.version_number} → {to ? `v${to.version_number}` : 'current'}
+                </p>
+                {rows.map((row, i) => <DiffBlock key={i} row={row} />)}
+              </div>
+            )}
+          </div>
+        )}
+
+        {error && <p className="text-xs text-venus-red">{error}</p>}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,246 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Loader2, Folder, FolderOpen, ChevronRight, RefreshCw, Unplug, Check, Eye } from 'lucide-react';
+import { formatDistanceToNow } from 'date-fns';
+import { watchJob } from '@/lib/jobs/watch';
+import type { DriveFolderSync } from '@/lib/types';
+
+interface DriveFolderPanelProps {
+  sparkId: string;
+  /** Called once a sync finishes, so new and updated items can be loaded */
+  onSynced: () => void;
+}
+
+interface FolderEntry {
+  id: string;
+  name: string;
+}
+
+const MY_DRIVE: FolderEntry = { id: 'root', name: 'My Drive' };
+
+function statusLabel(sync: DriveFolderSync): { text: string; tone: string } {
+  switch (sync.status) {
+    case 'pending':
+    case 'syncing':
+      return { text: 'Syncing…', tone: 'text-venus-gray-500' };
+    case 'failed':
+      return { text: sync.last_error || 'Sync failed', tone: 'text-venus-red' };
+    case 'idle':
+      return {
+        text: sync.last_synced_at
+          ? `Synced ${formatDistanceToNow(new Date(sync.last_synced_at), { addSuffix: true })}`
+          : 'Synced',
+        tone: 'text-venus-green',
+      };
+  }
+}
+
+/** Browse Drive folders and watch them: their files are added now and kept up to date */
+export default function DriveFolderPanel({ sparkId, onSynced }: DriveFolderPanelProps) {
+  const [syncs, setSyncs] = useState<DriveFolderSync[]>([]);
+  const [path, setPath] = useState<FolderEntry[]>([MY_DRIVE]);
+  const [folders, setFolders] = useState<FolderEntry[]>([]);
+  const [foldersLoading, setFoldersLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const current = path[path.length - 1];
+
+  useEffect(() => {
+    let cancelled = false;
+    fetch(`/api/sparks/${sparkId}/drive-folders`)
+      .then(res => (res.ok ? res.json() : { syncs: [] }))
+      .then(data => {
+        if (!cancelled) setSyncs(data.syncs ?? []);
+      })
+      .catch(() => {});
+    return () => { cancelled = true; };
+  }, [sparkId]);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetch(`/api/google-drive/folders?parent=${encodeURIComponent(current.id)}`)
+      .then(async res => ({ ok: res.ok, data: await res.json().catch(() => null) }))
+      .then(({ ok, data }) => {
+        if (cancelled) return;
+        setFolders(data?.folders ?? []);
+        if (!ok) setError(data?.error || 'Failed to load folders');
+        setFoldersLoading(false);
+      })
+      .catch(() => {
+        if (!cancelled) setFoldersLoading(false);
+      });
+    return () => { cancelled = true; };
+  }, [current.id]);
+
+  const navigate = (nextPath: FolderEntry[]) => {
+    setPath(nextPath);
+    setFolders([]);
+    setFoldersLoading(true);
+    setError(null);
+  };
+
+  const followSync = async (jobId: string) => {
+    try {
+      const job = await watchJob(jobId, () => {}, 2_000);
+      const res = await fetch(`/api/sparks/${sparkId}/drive-folders`);
+      if (res.ok) {
+        const data = await res.json();
+        setSyncs(data.syncs ?? []);
+      }
+      if (job.status === 'succeeded') onSynced();
+    } catch {
+      // Lost track of the job — the row refreshes next time the panel opens
+    }
+  };
+
+  const handleWatch = async () => {
+    setSaving(true);
+    setError(null);
+    try {
+      const res = await fetch(`/api/sparks/${sparkId}/drive-folders`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ folder_id: current.id }),
+      });
+      const data = await res.json().catch(() => null);
+      if (!res.ok || !data?.sync) {
+        setError(data?.error || 'Failed to watch folder');
+        return;
+      }
+      setSyncs(prev => [...prev, data.sync]);
+      if (data.job) followSync(data.job.id);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleSyncNow = async (sync: DriveFolderSync) => {
+    setError(null);
+    const res = await fetch(`/api/sparks/${sparkId}/drive-folders/${sync.id}/sync`, { method: 'POST' });
+    const data = await res.json().catch(() => null);
+    if (!res.ok || !data?.job) {
+      setError(data?.error || 'Failed to start sync');
+      return;
+    }
+    setSyncs(prev => prev.map(s => (s.id === sync.id ? { ...s, status: 'syncing', last_error: null } : s)));
+    followSync(data.job.id);
+  };
+
+  const handleRemove = async (sync: DriveFolderSync) => {
+    if (!confirm(`Stop watching ${sync.folder_name}? Files already added stay in the Spark.`)) return;
+    const res = await fetch(`/api/sparks/${sparkId}/drive-folders/${sync.id}`, { method: 'DELETE' });
+    if (res.ok) {
+      setSyncs(prev => prev.filter(s => s.id !== sync.id));
+    } else {
+      setError('Failed to stop watching');
+    }
+  };
+
+  // ─── Render ─────────────────────────────────
+
+  return (
+    <div>
+      <p className="text-sm text-venus-gray-500 mb-3">
+        Watch a folder to add its files to this Spark. Edits in Drive are picked up every 15 minutes, and deleted files are marked on their cards.
+      </p>
+
+      {syncs.length > 0 && (
+        <ul className="mb-3 divide-y divide-venus-gray-100 border border-venus-gray-200 rounded-lg">
+          {syncs.map(sync => {
+            const status = statusLabel(sync);
+            const busy = sync.status === 'pending' || sync.status === 'syncing';
+            return (
+              <li key={sync.id} className="flex items-center gap-2 px-3 py-2">
+                <FolderOpen size={14} className="text-venus-gray-500 shrink-0" />
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm font-medium text-venus-gray-700 truncate">{sync.folder_name}</p>
+                  <p className={`text-xs truncate ${status.tone}`}>
+                    {sync.status === 'idle' && <Check size={10} className="inline mr-0.5" />}
+                    {status.text}
+                  </p>
+                </div>
+                <button
+                  type="button"
+                  onClick={() => handleSyncNow(sync)}
+                  disabled={busy}
+                  className="p-1.5 rounded-md text-venus-gray-400 hover:text-venus-purple hover:bg-venus-gray-100 disabled:opacity-50 transition-colors"
+                  title="Sync now"
+                  aria-label={`Sync ${sync.folder_name} now`}
+                >
+                  <RefreshCw size={14} className={busy ? 'animate-spin' : ''} />
+                </button>
+                <button
+                  type="button"
+                  onClick={() => handleRemove(sync)}
+                  className="p-1.5 rounded-md text-venus-gray-400 hover:text-venus-red hover:bg-venus-gray-100 transition-colors"
+                  title="Stop watching"
+                  aria-label={`Stop watching ${sync.folder_name}`}
+                >
+                  <Unplug size={14} />
+                </button>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      {/* Breadcrumbs */}
+      <div className="flex items-center flex-wrap gap-0.5 mb-2 text-xs text-venus-gray-500">
+        {path.map((entry, i) => (
+          <span key={entry.id} className="flex items-center gap-0.5">
+            {i > 0 && <ChevronRight size={12} className="text-venus-gray-300" />}
+            {i < path.length - 1 ? (
+              <button
+                type="button"
+                onClick={() => navigate(path.slice(0, i + 1))}
+                className="hover:text-venus-purple transition-colors"
+              >
+                {entry.name}
+              </button>
+            ) : (
+              <span className="font-medium text-venus-gray-700">{entry.name}</span>
+            )}
+          </span>
+        ))}
+      </div>
+
+      <div className="max-h-48 overflow-y-auto border border-venus-gray-200 rounded-lg divide-y divide-venus-gray-100 mb-3">
+        {foldersLoading ? (
+          <div className="flex items-center justify-center py-6 text-venus-gray-400">
+            <Loader2 size={16} className="animate-spin mr-2" />
+            Loading folders...
+          </div>
+        ) : folders.length === 0 ? (
+          <p className="px-3 py-4 text-xs text-center text-venus-gray-400">No subfolders</p>
+        ) : (
+          folders.map(folder => (
+            <button
+              key={folder.id}
+              type="button"
+              onClick={() => navigate([...path, { id: folder.id, name: folder.name }])}
+              className="w-full flex items-center gap-2 px-3 py-2 text-left hover:bg-venus-gray-50 transition-colors"
+            >
+              <Folder size={14} className="text-venus-gray-400 shrink-0" />
+              <span className="flex-1 min-w-0 text-sm text-venus-gray-700 truncate">{folder.name}</span>
+              <ChevronRight size={14} className="text-venus-gray-300 shrink-0" />
+            </button>
+          ))
+        )}
+      </div>
+
+      {error && <p className="text-xs text-venus-red mb-2">{error}</p>}
+
+      <button
+        type="button"
+        onClick={handleWatch}
+        disabled={saving}
+        className="inline-flex items-center gap-2 px-4 py-2 text-sm font-medium text-white bg-venus-purple hover:bg-venus-purple-deep rounded-lg transition-colors disabled:opacity-50"
+      >
+        {saving ? <Loader2 size={16} className="animate-spin" /> : <Eye size={16} />}
+        Watch {current.name}
+      </button>
+    </div>
+  );
+}
@@ -4,7 +4,7 @@ import { useState, useEffect, useRef } from 'react';
 import { formatDistanceToNow } from 'date-fns';
 import { Link2, Image, FileText, StickyNote, File, ExternalLink, X, Loader2, HardDrive, ChevronDown, ChevronUp, Database, Paperclip, BarChart2 } from 'lucide-react';
 import { SlackIcon } from '@/components/SlackIcon';
-import type { SparkItem } from '@/lib/types';
+import type { ItemDocumentInfo, SparkItem } from '@/lib/types';
 
 interface ItemCardProps {
   item: SparkItem;
@@ -42,6 +42,17 @@ function formatFileSize(bytes: number): string {
   return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
 }
 
+/** "PDF · 12 pages", "PPTX · 8 slides", "DOCX" */
+function formatDocumentInfo(info: ItemDocumentInfo): string {
+  const parts = [info.format.toUpperCase()];
+  if (info.page_count !== null) {
+    const unit = info.format === 'pptx' ? 'slide' : 'page';
+    parts.push(`${info.page_count} ${unit}${info.page_count !== 1 ? 's' : ''}`);
+  }
+  if (info.truncated) parts.push('truncated');
+  return parts.join(' · ');
+}
+
 const POLL_INTERVAL_MS = 2_000;
 const MAX_POLL_ATTEMPTS = 15; // stop after 30s
 
@@ -62,10 +73,14 @@ export default function ItemCard({ item, onDelete, onItemUpdated, onImageClick }
   const scrapeStatus = item.metadata?.scrape_status as string | undefined;
   const isScraping = isLink && !scrapeStatus;
 
+  const documentInfo = item.metadata?.document;
+
   // Drive-specific export data
   const isDrive = item.type === 'google_drive';
   const driveExportStatus = item.metadata?.drive_export_status as string | undefined;
   const isDriveExporting = isDrive && driveExportStatus === 'pending';
+  const driveDeletedAt = item.metadata?.drive_deleted_at as string | undefined;
+  const driveSyncedAt = (item.metadata?.drive_synced_at || item.metadata?.drive_exported_at) as string | undefined;
 
   // Poll for scraped/exported content
   const needsPolling = isScraping || isDriveExporting;
@@ -275,6 +290,50 @@ export default function ItemCard({ item, onDelete, onItemUpdated, onImageClick }
               </div>
             )}
 
+            {/* Drive item: when its content was last pulled from Drive */}
+            {isDrive && !isDriveExporting && (driveDeletedAt || driveSyncedAt) && (
+              <p className={`text-[11px] mb-2 ${driveDeletedAt || driveExportStatus === 'failed' ? 'text-venus-red' : 'text-venus-gray-400'}`}>
+                {driveDeletedAt
+                  ? `Deleted in Drive ${formatDistanceToNow(new Date(driveDeletedAt), { addSuffix: true })}`
+                  : `${driveExportStatus === 'failed' ? 'Sync failed' : 'Synced'} ${formatDistanceToNow(new Date(driveSyncedAt as string), { addSuffix: true })}`}
+              </p>
+            )}
+
+            {/* Uploaded file: thumbnail + file name and size */}
+            {item.type === 'file' && !!item.metadata?.storage_path && (
+              <div className="flex items-center gap-3 mb-2">
+                {!!item.metadata.thumbnail_url && (
+                  // eslint-disable-next-line @next/next/no-img-element
+                  <img
+                    src={item.metadata.thumbnail_url as string}
+                    alt=""
+                    className="w-12 h-16 rounded object-cover object-top border border-venus-gray-100 shrink-0"
+                    onError={(e) => { (e.target as HTMLImageElement).style.display = 'none'; }}
+                  />
+                )}
+                <div className="min-w-0">
+                  <p className="text-xs text-venus-gray-600 truncate">{(item.metadata.file_name as string) || item.title}</p>
+                  {!!item.metadata.file_size && (
+                    <p className="text-xs text-venus-gray-400">{formatFileSize(item.metadata.file_size as number)}</p>
+                  )}
+                </div>
+              </div>
+            )}
+
+            {/* Extracted document: format + page/slide count, or why extraction failed */}
+            {documentInfo && documentInfo.format !== 'text' && (
+              <div className="flex items-center gap-1.5 mb-2">
+                <span className="text-[10px] px-1.5 py-0.5 rounded-full bg-venus-gray-100 text-venus-gray-500 font-medium">
+                  {formatDocumentInfo(documentInfo)}
+                </span>
+              </div>
+            )}
+            {item.metadata?.document_extract_status === 'failed' && (
+              <p className="text-xs text-venus-gray-400 mb-2">
+                Couldn&apos;t extract text{item.metadata.document_extract_error ? `: ${item.metadata.document_extract_error}` : ''}
+              </p>
+            )}
+
             {/* Slack item: channel name + message count */}
             {isSlack && (
               <div className="flex items-center gap-2 mb-1">
@@ -0,0 +1,177 @@
+'use client';
+
+import { useState, useEffect, useRef } from 'react';
+import { useRouter } from 'next/navigation';
+import { Bell, AtSign, MessageSquareText } from 'lucide-react';
+import { SlackIcon } from './SlackIcon';
+import type { Notification } from '@/lib/types';
+
+// How often the unread badge is refreshed while the page is open
+const POLL_MS = 60_000;
+
+interface InboxData {
+  notifications: Notification[];
+  unread: number;
+  slack: { available: boolean; enabled: boolean };
+}
+
+function formatTimeAgo(iso: string): string {
+  const minutes = Math.floor((Date.now() - new Date(iso).getTime()) / 60_000);
+  if (minutes < 1) return 'now';
+  if (minutes < 60) return `${minutes}m ago`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return `${hours}h ago`;
+  return `${Math.floor(hours / 24)}d ago`;
+}
+
+/** Header bell listing the signed-in user's @mention notifications */
+export default function NotificationsInbox() {
+  const [data, setData] = useState<InboxData | null>(null);
+  const [open, setOpen] = useState(false);
+  const menuRef = useRef<HTMLDivElement>(null);
+  const router = useRouter();
+
+  useEffect(() => {
+    const load = () =>
+      fetch('/api/notifications')
+        .then(res => (res.ok ? res.json() : null))
+        .then(inbox => { if (inbox) setData(inbox); })
+        .catch(() => {
+          // Offline or signed out — keep what we have
+        });
+    load();
+    const timer = setInterval(load, POLL_MS);
+    return () => clearInterval(timer);
+  }, []);
+
+  // Close dropdown on outside click
+  useEffect(() => {
+    function handleClick(e: MouseEvent) {
+      if (menuRef.current && !menuRef.current.contains(e.target as Node)) {
+        setOpen(false);
+      }
+    }
+    document.addEventListener('mousedown', handleClick);
+    return () => document.removeEventListener('mousedown', handleClick);
+  }, []);
+
+  async function markRead(ids?: string[]) {
+    const now = new Date().toISOString();
+    setData(prev => prev && {
+      ...prev,
+      notifications: prev.notifications.map(n =>
+        !n.read_at && (!ids || ids.includes(n.id)) ? { ...n, read_at: now } : n
+      ),
+      unread: ids ? Math.max(prev.unread - ids.length, 0) : 0,
+    });
+    await fetch('/api/notifications/read', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(ids ? { ids } : {}),
+    }).catch(() => {});
+  }
+
+  function handleOpen(notification: Notification) {
+    if (!notification.read_at) markRead([notification.id]);
+    setOpen(false);
+    router.push(`/spark/${notification.spark_id}`);
+  }
+
+  async function handleSlackToggle() {
+    if (!data) return;
+    const enabled = !data.slack.enabled;
+    setData({ ...data, slack: { ...data.slack, enabled } });
+    const res = await fetch('/api/notifications/preferences', {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ slack: enabled }),
+    }).catch(() => null);
+    if (!res?.ok) setData(prev => prev && { ...prev, slack: { ...prev.slack, enabled: !enabled } });
+  }
+
+  // Signed out (or notifications unavailable) — nothing to show
+  if (!data) return null;
+
+  return (
+    <div className="relative" ref={menuRef}>
+      <button
+        onClick={() => setOpen(v => !v)}
+        className="relative flex items-center justify-center w-8 h-8 rounded-md hover:bg-venus-gray-100 text-venus-gray-600 transition-colors"
+        title="Notifications"
+        aria-label="Open notifications"
+      >
+        <Bell size={16} />
+        {data.unread > 0 && (
+          <span className="absolute -top-0.5 -right-0.5 min-w-[14px] h-[14px] bg-red-500 text-white text-[9px] font-bold rounded-full flex items-center justify-center px-0.5 leading-none">
+            {data.unread > 99 ? '99+' : data.unread}
+          </span>
+        )}
+      </button>
+
+      {open && (
+        <div className="absolute right-0 top-full mt-1 w-80 bg-card-bg rounded-lg border border-venus-gray-200 shadow-lg z-50">
+          <div className="flex items-center justify-between px-3 py-2 border-b border-venus-gray-200">
+            <span className="text-xs font-semibold text-venus-gray-700">Notifications</span>
+            {data.unread > 0 && (
+              <button
+                onClick={() => markRead()}
+                className="text-[11px] text-venus-purple hover:underline"
+              >
+                Mark all read
+              </button>
+            )}
+          </div>
+
+          {data.notifications.length === 0 ? (
+            <p className="px-3 py-6 text-center text-xs text-venus-gray-400">
+              No mentions yet. You&apos;ll see them here when someone @mentions you.
+            </p>
+          ) : (
+            <ul className="max-h-96 overflow-y-auto py-1">
+              {data.notifications.map(n => (
+                <li key={n.id}>
+                  <button
+                    onClick={() => handleOpen(n)}
+                    className={`w-full text-left flex gap-2.5 px-3 py-2 hover:bg-venus-gray-50 transition-colors ${
+                      n.read_at ? '' : 'bg-venus-purple-light/40'
+                    }`}
+                  >
+                    <span className="mt-0.5 shrink-0 text-venus-purple">
+                      {n.source === 'comment' ? <MessageSquareText size={14} /> : <AtSign size={14} />}
+                    </span>
+                    <span className="flex-1 min-w-0">
+                      <span className="block text-xs text-venus-gray-700">
+                        <span className="font-semibold">{n.actor_name}</span>
+                        {' mentioned you in '}
+                        {n.source === 'comment' ? 'a comment' : 'the document'}
+                        {n.spark_name && <> · <span className="font-medium">{n.spark_name}</span></>}
+                      </span>
+                      {n.excerpt && (
+                        <span className="block text-xs text-venus-gray-500 line-clamp-2 mt-0.5">{n.excerpt}</span>
+                      )}
+                      <span className="block text-[10px] text-venus-gray-400 mt-0.5">{formatTimeAgo(n.created_at)}</span>
+                    </span>
+                    {!n.read_at && <span className="mt-1.5 w-1.5 h-1.5 shrink-0 rounded-full bg-venus-purple" />}
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+
+          {data.slack.available && (
+            <label className="flex items-center gap-2 px-3 py-2 border-t border-venus-gray-200 text-xs text-venus-gray-600 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={data.slack.enabled}
+                onChange={handleSlackToggle}
+                className="accent-venus-purple"
+              />
+              <SlackIcon size={12} />
+              Also send mentions to me on Slack
+            </label>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -6,6 +6,8 @@ export interface CollabUser {
   clientId: number;
   name: string;
   color: string;
+  /** The signed-in user behind this tab, once the page knows it */
+  userId?: string;
 }
 
 interface PresenceAvatarsProps {
@@ -0,0 +1,217 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Upload, Loader2, ExternalLink, Check } from 'lucide-react';
+import type { ArtifactContentstackLink, GeneratedArtifact } from '@/lib/types';
+import type { ArtifactSchemaSource } from '@/lib/artifact-generation';
+import type { FieldMapping } from '@/lib/contentstack/entry-mapping';
+import { flattenArtifactFields, formatFieldLabel } from '@/lib/artifact-fields';
+import ContentTypePicker, { pickerSelectClass, type PickedStack } from './ContentTypePicker';
+
+interface PublishToContentstackPanelProps {
+  artifact: GeneratedArtifact;
+  onPublished: () => void;
+}
+
+interface Environment {
+  uid: string;
+  name: string;
+}
+
+export default function PublishToContentstackPanel({ artifact, onPublished }: PublishToContentstackPanelProps) {
+  const link = (artifact.metadata?.contentstack ?? null) as ArtifactContentstackLink | null;
+
+  const schemaSource = (artifact.metadata?.schema ?? null) as ArtifactSchemaSource | null;
+  const initialStack = link ?? schemaSource;
+
+  const [stack, setStack] = useState<PickedStack | null>(
+    initialStack
+      ? {
+          api_key: initialStack.stack_api_key,
+          name: initialStack.stack_name || initialStack.stack_api_key,
+          master_locale: link?.locale ?? 'en-us',
+        }
+      : null
+  );
+  const [ctUid, setCtUid] = useState(initialStack?.content_type_uid ?? '');
+  const [mappings, setMappings] = useState<FieldMapping[]>([]);
+  const [schemaMatch, setSchemaMatch] = useState(false);
+  const [environments, setEnvironments] = useState<Environment[]>([]);
+  const [selectedEnvs, setSelectedEnvs] = useState<Set<string>>(new Set());
+  const [loading, setLoading] = useState(false);
+  const [publishing, setPublishing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const stackKey = stack?.api_key ?? '';
+  const sources = flattenArtifactFields(artifact.content as Record<string, unknown>)
+    .map((f) => f.path)
+    .filter((p) => p !== 'content_type');
+
+  useEffect(() => {
+    if (!stackKey || !ctUid) return;
+    setLoading(true);
+    setError(null);
+    fetch(`/api/artifacts/${artifact.id}/publish?stack_api_key=${stackKey}&content_type_uid=${ctUid}`)
+      .then((res) => res.json())
+      .then((data) => {
+        if (data.error) setError(data.error);
+        setMappings(data.mappings || []);
+        setSchemaMatch(Boolean(data.schema_match));
+        setEnvironments(data.environments || []);
+      })
+      .catch(() => setError('Failed to load field mapping'))
+      .finally(() => setLoading(false));
+  }, [artifact.id, stackKey, ctUid]);
+
+  const toggleEnv = (name: string) => {
+    setSelectedEnvs((prev) => {
+      const next = new Set(prev);
+      if (next.has(name)) next.delete(name);
+      else next.add(name);
+      return next;
+    });
+  };
+
+  const setSource = (path: string, source: string) => {
+    setMappings((prev) => prev.map((m) => (m.path === path ? { ...m, source: source || null } : m)));
+  };
+
+  async function handlePublish() {
+    if (!stack || !ctUid) return;
+    setPublishing(true);
+    setError(null);
+    try {
+      const res = await fetch(`/api/artifacts/${artifact.id}/publish`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          stack_api_key: stack.api_key,
+          stack_name: stack.name,
+          content_type_uid: ctUid,
+          locale: stack.master_locale || 'en-us',
+          mappings: Object.fromEntries(mappings.map((m) => [m.path, m.source])),
+          environments: [...selectedEnvs],
+        }),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || 'Publish failed');
+      onPublished();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Publish failed');
+    } finally {
+      setPublishing(false);
+    }
+  }
+
+  const isUpdate = link && link.stack_api_key === stackKey && link.content_type_uid === ctUid;
+  const missingRequired = mappings.some((m) => m.mandatory && !m.source);
+
+  return (
+    <div className="space-y-3">
+      {link && (
+        <div className="flex items-center justify-between px-3 py-2 rounded-lg bg-venus-green-light text-xs">
+          <span className="flex items-center gap-1.5 text-venus-green">
+            <Check size={12} />
+            Entry {link.entry_uid} in {link.stack_name || link.stack_api_key}
+            {link.artifact_version !== artifact.current_version && (
+              <span className="text-venus-gray-500"> &middot; synced from v{link.artifact_version}</span>
+            )}
+          </span>
+          <a
+            href={link.entry_url}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="flex items-center gap-1 text-venus-purple hover:underline"
+          >
+            Open <ExternalLink size={10} />
+          </a>
+        </div>
+      )}
+
+      <ContentTypePicker
+        stackKey={stackKey}
+        contentTypeUid={ctUid}
+        onStackChange={(next) => {
+          setStack(next);
+          setMappings([]);
+          setEnvironments([]);
+          setSelectedEnvs(new Set());
+        }}
+        onContentTypeChange={(uid) => {
+          setCtUid(uid);
+          setSelectedEnvs(new Set());
+        }}
+      />
+
+      {loading && (
+        <div className="flex items-center gap-2 text-xs text-venus-gray-400">
+          <Loader2 size={12} className="animate-spin" />
+          Loading field mapping...
+        </div>
+      )}
+
+      {schemaMatch && !loading && (
+        <p className="text-xs text-venus-gray-500">
+          Generated for this content type — fields are published as-is.
+        </p>
+      )}
+
+      {mappings.length > 0 && !loading && (
+        <div className="space-y-1.5">
+          <p className="text-[10px] font-medium text-venus-gray-500 uppercase tracking-wider">Field mapping</p>
+          {mappings.map((m) => (
+            <div key={m.path} className="grid grid-cols-2 gap-2 items-center">
+              <span className="text-xs text-venus-gray-600 truncate" title={`${m.path} (${m.data_type})`}>
+                {m.display_name}
+                {m.mandatory && <span className="text-venus-red"> *</span>}
+              </span>
+              <select
+                value={m.source ?? ''}
+                onChange={(e) => setSource(m.path, e.target.value)}
+                className={pickerSelectClass}
+              >
+                <option value="">— Leave empty —</option>
+                {sources.map((s) => (
+                  <option key={s} value={s}>{formatFieldLabel(s)}</option>
+                ))}
+              </select>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {environments.length > 0 && !loading && (
+        <div className="space-y-1.5">
+          <p className="text-[10px] font-medium text-venus-gray-500 uppercase tracking-wider">
+            Publish to (optional)
+          </p>
+          <div className="flex flex-wrap gap-2">
+            {environments.map((env) => (
+              <label key={env.uid} className="flex items-center gap-1.5 text-xs text-venus-gray-600 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={selectedEnvs.has(env.name)}
+                  onChange={() => toggleEnv(env.name)}
+                  className="accent-venus-purple"
+                />
+                {env.name}
+              </label>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {error && <p className="text-xs text-venus-red break-words">{error}</p>}
+
+      <button
+        onClick={handlePublish}
+        disabled={!stack || !ctUid || publishing || loading || missingRequired}
+        className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-xs font-medium bg-venus-purple text-white hover:bg-venus-purple-deep transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        {publishing ? <Loader2 size={12} className="animate-spin" /> : <Upload size={12} />}
+        {isUpdate ? 'Update entry' : 'Create draft entry'}
+        {selectedEnvs.size > 0 && ' & publish'}
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,242 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Loader2, AlertCircle, Unplug, Check, Hash, Lock } from 'lucide-react';
+import { format } from 'date-fns';
+import { SlackIcon } from './SlackIcon';
+import { watchJob } from '@/lib/jobs/watch';
+import type { SlackChannelSync } from '@/lib/types';
+
+interface SlackChannelSyncPanelProps {
+  sparkId: string;
+  /** Called once a backfill finishes, so the new items can be loaded */
+  onSynced: () => void;
+}
+
+interface SlackChannelOption {
+  id: string;
+  name: string;
+  isPrivate: boolean;
+  isMember: boolean;
+}
+
+type Phase = 'loading' | 'not_configured' | 'ready';
+
+// Default start of the sync window
+const DEFAULT_DAYS_BACK = 7;
+
+function toDateInput(date: Date): string {
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+function statusLabel(sync: SlackChannelSync): { text: string; tone: string } {
+  switch (sync.backfill_status) {
+    case 'pending':
+    case 'running':
+      return { text: 'Backfilling…', tone: 'text-venus-gray-500' };
+    case 'failed':
+      return { text: sync.backfill_error || 'Backfill failed', tone: 'text-venus-red' };
+    case 'done':
+      return { text: 'Live', tone: 'text-venus-green' };
+  }
+}
+
+/** Bind Slack channels to a Spark: history from a chosen date, then new messages as they arrive */
+export default function SlackChannelSyncPanel({ sparkId, onSynced }: SlackChannelSyncPanelProps) {
+  const [phase, setPhase] = useState<Phase>('loading');
+  const [syncs, setSyncs] = useState<SlackChannelSync[]>([]);
+  const [channels, setChannels] = useState<SlackChannelOption[]>([]);
+  const [channelId, setChannelId] = useState('');
+  const [syncFrom, setSyncFrom] = useState(() =>
+    toDateInput(new Date(new Date().setDate(new Date().getDate() - DEFAULT_DAYS_BACK)))
+  );
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    Promise.all([
+      fetch(`/api/sparks/${sparkId}/slack-channels`).then(res => (res.ok ? res.json() : { syncs: [] })),
+      fetch('/api/slack/channels').then(async res => ({ status: res.status, data: await res.json().catch(() => null) })),
+    ])
+      .then(([syncData, channelResult]) => {
+        if (cancelled) return;
+        setSyncs(syncData.syncs ?? []);
+        if (channelResult.status === 503) {
+          setPhase('not_configured');
+          return;
+        }
+        setChannels(channelResult.data?.channels ?? []);
+        if (!channelResult.data?.channels) setError(channelResult.data?.error || 'Failed to load Slack channels');
+        setPhase('ready');
+      })
+      .catch(() => {
+        if (!cancelled) setPhase('not_configured');
+      });
+    return () => { cancelled = true; };
+  }, [sparkId]);
+
+  const followBackfill = async (sync: SlackChannelSync, jobId: string) => {
+    try {
+      const job = await watchJob(jobId, () => {}, 2_000);
+      const failed = job.status !== 'succeeded';
+      setSyncs(prev => prev.map(s => s.id === sync.id
+        ? {
+            ...s,
+            backfill_status: failed ? 'failed' : 'done',
+            backfill_error: failed ? (job.status === 'cancelled' ? 'Backfill cancelled' : job.last_error) : null,
+          }
+        : s
+      ));
+      if (!failed) onSynced();
+    } catch {
+      // Lost track of the job — the row refreshes next time the panel opens
+    }
+  };
+
+  const handleAdd = async () => {
+    if (!channelId || !syncFrom) return;
+    setSaving(true);
+    setError(null);
+    try {
+      const res = await fetch(`/api/sparks/${sparkId}/slack-channels`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        // Midnight local time on the chosen day
+        body: JSON.stringify({ channel_id: channelId, sync_from: new Date(`${syncFrom}T00:00`).toISOString() }),
+      });
+      const data = await res.json().catch(() => null);
+      if (!res.ok || !data?.sync) {
+        setError(data?.error || 'Failed to sync channel');
+        return;
+      }
+      setSyncs(prev => [...prev, data.sync]);
+      setChannelId('');
+      if (data.job) followBackfill(data.sync, data.job.id);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleRemove = async (sync: SlackChannelSync) => {
+    if (!confirm(`Stop syncing #${sync.channel_name}? Threads already saved stay in the Spark.`)) return;
+    const res = await fetch(`/api/sparks/${sparkId}/slack-channels/${sync.id}`, { method: 'DELETE' });
+    if (res.ok) {
+      setSyncs(prev => prev.filter(s => s.id !== sync.id));
+    } else {
+      setError('Failed to stop syncing');
+    }
+  };
+
+  // ─── Render ─────────────────────────────────
+
+  if (phase === 'loading') {
+    return (
+      <div className="flex items-center justify-center py-8 text-venus-gray-400">
+        <Loader2 size={20} className="animate-spin mr-2" />
+        Loading Slack channels...
+      </div>
+    );
+  }
+
+  if (phase === 'not_configured') {
+    return (
+      <div className="text-center py-8">
+        <AlertCircle size={32} className="mx-auto text-venus-gray-300 mb-3" />
+        <p className="text-sm text-venus-gray-500 mb-2">
+          Slack bot not configured.
+        </p>
+        <p className="text-xs text-venus-gray-400">
+          Add <code className="px-1 py-0.5 bg-venus-gray-100 rounded text-venus-gray-600">SLACK_BOT_TOKEN</code> to your environment variables.
+        </p>
+      </div>
+    );
+  }
+
+  const boundIds = new Set(syncs.map(s => s.channel_id));
+  const available = channels.filter(c => !boundIds.has(c.id));
+  const selected = channels.find(c => c.id === channelId);
+
+  return (
+    <div>
+      <p className="text-sm text-venus-gray-500 mb-4">
+        Sync a Slack channel into this Spark. Threads from the chosen date are imported now, and new messages and replies are added as they arrive.
+      </p>
+
+      {syncs.length > 0 && (
+        <ul className="mb-4 divide-y divide-venus-gray-100 border border-venus-gray-200 rounded-lg">
+          {syncs.map(sync => {
+            const status = statusLabel(sync);
+            return (
+              <li key={sync.id} className="flex items-center gap-2 px-3 py-2">
+                <SlackIcon size={14} className="text-venus-gray-500 shrink-0" />
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm font-medium text-venus-gray-700 truncate">#{sync.channel_name}</p>
+                  <p className="text-xs text-venus-gray-400 truncate">
+                    Since {format(new Date(sync.sync_from), 'MMM d, yyyy')}
+                    {' · '}
+                    <span className={status.tone}>
+                      {sync.backfill_status === 'done' && <Check size={10} className="inline mr-0.5" />}
+                      {status.text}
+                    </span>
+                  </p>
+                </div>
+                <button
+                  type="button"
+                  onClick={() => handleRemove(sync)}
+                  className="p-1.5 rounded-md text-venus-gray-400 hover:text-venus-red hover:bg-venus-gray-100 transition-colors"
+                  title="Stop syncing"
+                  aria-label={`Stop syncing #${sync.channel_name}`}
+                >
+                  <Unplug size={14} />
+                </button>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      <div className="flex gap-2 mb-2">
+        <select
+          value={channelId}
+          onChange={e => setChannelId(e.target.value)}
+          className="flex-1 min-w-0 px-3 py-2 text-sm border border-venus-gray-200 rounded-lg bg-card-bg text-venus-gray-700 focus:outline-none focus:ring-2 focus:ring-venus-purple/30"
+        >
+          <option value="">Choose a channel…</option>
+          {available.map(c => (
+            <option key={c.id} value={c.id}>
+              {c.isPrivate ? `${c.name} (private)` : `#${c.name}`}
+            </option>
+          ))}
+        </select>
+        <input
+          type="date"
+          value={syncFrom}
+          max={toDateInput(new Date())}
+          onChange={e => setSyncFrom(e.target.value)}
+          className="px-3 py-2 text-sm border border-venus-gray-200 rounded-lg bg-card-bg text-venus-gray-700 focus:outline-none focus:ring-2 focus:ring-venus-purple/30"
+          aria-label="Sync messages from"
+        />
+      </div>
+
+      {selected?.isPrivate && !selected.isMember && (
+        <p className="flex items-center gap-1 text-xs text-venus-gray-500 mb-2">
+          <Lock size={12} /> Invite the bot to this private channel first.
+        </p>
+      )}
+
+      {error && <p className="text-xs text-venus-red mb-2">{error}</p>}
+
+      <button
+        type="button"
+        onClick={handleAdd}
+        disabled={!channelId || !syncFrom || saving}
+        className="inline-flex items-center gap-2 px-4 py-2 text-sm font-medium text-white bg-venus-purple hover:bg-venus-purple-deep rounded-lg transition-colors disabled:opacity-50"
+      >
+        {saving ? <Loader2 size={16} className="animate-spin" /> : <Hash size={16} />}
+        Start syncing
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,280 @@
+'use client';
+
+import { useState, useEffect, useRef } from 'react';
+import { Loader2, Send, Trash2 } from 'lucide-react';
+import { formatDistanceToNow } from 'date-fns';
+import { SlackIcon } from './SlackIcon';
+import type { DigestFrequency, SlackDigest } from '@/lib/types';
+
+interface SlackDigestMenuProps {
+  sparkId: string;
+}
+
+interface ChannelOption {
+  id: string;
+  name: string;
+  isPrivate: boolean;
+}
+
+const WEEKDAYS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+const HOURS = Array.from({ length: 24 }, (_, h) => h);
+
+type Status = 'loading' | 'not_configured' | 'ready';
+
+/** Header menu for the Spark's scheduled Slack digest (editors only) */
+export default function SlackDigestMenu({ sparkId }: SlackDigestMenuProps) {
+  const [open, setOpen] = useState(false);
+  const [status, setStatus] = useState<Status>('loading');
+  const [digest, setDigest] = useState<SlackDigest | null>(null);
+  const [channels, setChannels] = useState<ChannelOption[]>([]);
+  const [channelId, setChannelId] = useState('');
+  const [frequency, setFrequency] = useState<DigestFrequency>('weekly');
+  const [weekday, setWeekday] = useState(1);
+  const [hourUtc, setHourUtc] = useState(9);
+  const [enabled, setEnabled] = useState(true);
+  const [busy, setBusy] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    let cancelled = false;
+    Promise.all([
+      fetch(`/api/sparks/${sparkId}/digest`).then(res => (res.ok ? res.json() : { digest: null })),
+      fetch('/api/slack/channels').then(async res => ({ status: res.status, data: await res.json().catch(() => null) })),
+    ])
+      .then(([digestData, channelResult]) => {
+        if (cancelled) return;
+        if (channelResult.status === 503) {
+          setStatus('not_configured');
+          return;
+        }
+        setChannels(channelResult.data?.channels ?? []);
+        const current = digestData.digest as SlackDigest | null;
+        setDigest(current);
+        if (current) {
+          setChannelId(current.channel_id);
+          setFrequency(current.frequency);
+          setWeekday(current.weekday);
+          setHourUtc(current.hour_utc);
+          setEnabled(current.enabled);
+        }
+        setStatus('ready');
+      })
+      .catch(() => {
+        if (!cancelled) setStatus('not_configured');
+      });
+    return () => { cancelled = true; };
+  }, [open, sparkId]);
+
+  // Close dropdown on outside click
+  useEffect(() => {
+    function handleClick(e: MouseEvent) {
+      if (menuRef.current && !menuRef.current.contains(e.target as Node)) {
+        setOpen(false);
+      }
+    }
+    document.addEventListener('mousedown', handleClick);
+    return () => document.removeEventListener('mousedown', handleClick);
+  }, []);
+
+  async function handleSave(e: React.FormEvent) {
+    e.preventDefault();
+    if (!channelId) return;
+    setBusy(true);
+    setError(null);
+    setMessage(null);
+    try {
+      const res = await fetch(`/api/sparks/${sparkId}/digest`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ channel_id: channelId, frequency, weekday, hour_utc: hourUtc, enabled }),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || 'Failed to save digest');
+      setDigest(data.digest);
+      setMessage('Digest saved');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save digest');
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function handleSendNow() {
+    setBusy(true);
+    setError(null);
+    setMessage(null);
+    try {
+      const res = await fetch(`/api/sparks/${sparkId}/digest/send`, { method: 'POST' });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || 'Failed to send digest');
+      setMessage(`Digest queued for #${digest?.channel_name}`);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to send digest');
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function handleRemove() {
+    if (!confirm('Stop sending Slack digests for this Spark?')) return;
+    setBusy(true);
+    setError(null);
+    setMessage(null);
+    const res = await fetch(`/api/sparks/${sparkId}/digest`, { method: 'DELETE' });
+    if (res.ok) {
+      setDigest(null);
+      setChannelId('');
+    } else {
+      setError('Failed to remove digest');
+    }
+    setBusy(false);
+  }
+
+  return (
+    <div className="relative" ref={menuRef}>
+      <button
+        onClick={() => setOpen(!open)}
+        className="flex items-center justify-center w-8 h-8 rounded-md hover:bg-venus-gray-100 text-venus-gray-600 transition-colors"
+        title="Slack digest"
+        aria-label="Slack digest settings"
+      >
+        <SlackIcon size={15} />
+      </button>
+
+      {open && (
+        <div className="absolute right-0 top-full mt-1 w-80 bg-card-bg rounded-lg border border-venus-gray-200 shadow-lg py-2 z-50">
+          <div className="px-4 py-2 border-b border-venus-gray-200">
+            <p className="text-sm font-medium text-venus-gray-700">Slack digest</p>
+            <p className="text-xs text-venus-gray-400">
+              New items, research, artifacts and open discussions, with a summary of what changed.
+            </p>
+          </div>
+
+          {status === 'loading' && (
+            <div className="flex items-center justify-center py-4">
+              <Loader2 size={16} className="animate-spin text-venus-gray-400" />
+            </div>
+          )}
+
+          {status === 'not_configured' && (
+            <p className="px-4 py-3 text-xs text-venus-gray-500">
+              Add <code className="px-1 py-0.5 bg-venus-gray-100 rounded text-venus-gray-600">SLACK_BOT_TOKEN</code> to send digests to Slack.
+            </p>
+          )}
+
+          {status === 'ready' && (
+            <form onSubmit={handleSave} className="px-4 pt-3 space-y-2">
+              <select
+                value={channelId}
+                onChange={(e) => setChannelId(e.target.value)}
+                className="w-full text-xs border border-venus-gray-200 rounded-md px-2 py-1.5 bg-surface text-venus-gray-600 focus:outline-none focus:ring-2 focus:ring-venus-purple/30"
+                aria-label="Channel"
+              >
+                <option value="">Choose a channel…</option>
+                {/* Keep the saved channel selectable even if the bot can no longer list it */}
+                {digest && !channels.some(c => c.id === digest.channel_id) && (
+                  <option value={digest.channel_id}>#{digest.channel_name}</option>
+                )}
+                {channels.map((c) => (
+                  <option key={c.id} value={c.id}>{c.isPrivate ? `${c.name} (private)` : `#${c.name}`}</option>
+                ))}
+              </select>
+
+              <div className="flex items-center gap-1.5">
+                <select
+                  value={frequency}
+                  onChange={(e) => setFrequency(e.target.value as DigestFrequency)}
+                  className="text-xs border border-venus-gray-200 rounded-md px-1.5 py-1.5 bg-surface text-venus-gray-600 focus:outline-none"
+                  aria-label="Frequency"
+                >
+                  <option value="daily">Daily</option>
+                  <option value="weekly">Weekly</option>
+                </select>
+                {frequency === 'weekly' && (
+                  <select
+                    value={weekday}
+                    onChange={(e) => setWeekday(Number(e.target.value))}
+                    className="text-xs border border-venus-gray-200 rounded-md px-1.5 py-1.5 bg-surface text-venus-gray-600 focus:outline-none"
+                    aria-label="Day of the week"
+                  >
+                    {WEEKDAYS.map((day, i) => (
+                      <option key={day} value={i}>{day}</option>
+                    ))}
+                  </select>
+                )}
+                <select
+                  value={hourUtc}
+                  onChange={(e) => setHourUtc(Number(e.target.value))}
+                  className="text-xs border border-venus-gray-200 rounded-md px-1.5 py-1.5 bg-surface text-venus-gray-600 focus:outline-none"
+                  aria-label="Hour (UTC)"
+                >
+                  {HOURS.map((h) => (
+                    <option key={h} value={h}>{String(h).padStart(2, '0')}:00 UTC</option>
+                  ))}
+                </select>
+              </div>
+
+              <label className="flex items-center gap-2 text-xs text-venus-gray-600 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={enabled}
+                  onChange={(e) => setEnabled(e.target.checked)}
+                  className="accent-venus-purple"
+                />
+                Send on schedule
+              </label>
+
+              {digest && (
+                <p className="text-[11px] text-venus-gray-400">
+                  {digest.enabled && `Next: ${formatDistanceToNow(new Date(digest.next_run_at), { addSuffix: true })}. `}
+                  {digest.last_sent_at
+                    ? `Last covered ${formatDistanceToNow(new Date(digest.last_sent_at), { addSuffix: true })}.`
+                    : 'Not sent yet.'}
+                </p>
+              )}
+              {digest?.last_error && <p className="text-[11px] text-venus-red">{digest.last_error}</p>}
+
+              <div className="flex items-center gap-1.5 pt-1">
+                <button
+                  type="submit"
+                  disabled={busy || !channelId}
+                  className="px-2.5 py-1.5 bg-venus-purple hover:bg-venus-purple-deep disabled:opacity-50 text-white text-xs font-medium rounded-md transition-colors"
+                >
+                  {busy ? <Loader2 size={12} className="animate-spin" /> : digest ? 'Save' : 'Set up digest'}
+                </button>
+                {digest && (
+                  <>
+                    <button
+                      type="button"
+                      onClick={handleSendNow}
+                      disabled={busy}
+                      className="flex items-center gap-1 px-2.5 py-1.5 text-xs font-medium text-venus-gray-600 hover:bg-venus-gray-100 disabled:opacity-50 rounded-md transition-colors"
+                    >
+                      <Send size={12} />
+                      Send now
+                    </button>
+                    <button
+                      type="button"
+                      onClick={handleRemove}
+                      disabled={busy}
+                      className="ml-auto p-1.5 rounded-md text-venus-gray-400 hover:text-venus-red hover:bg-venus-red-light disabled:opacity-50 transition-colors"
+                      title="Remove digest"
+                    >
+                      <Trash2 size={14} />
+                    </button>
+                  </>
+                )}
+              </div>
+            </form>
+          )}
+
+          {message && <p className="px-4 pt-2 text-xs text-venus-green">{message}</p>}
+          {error && <p className="px-4 pt-2 text-xs text-venus-red">{error}</p>}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,134 @@
+'use client';
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { X } from 'lucide-react';
+import type { SparkEvent } from '@/lib/spark-event-types';
+
+// How long a toast stays up after its last update
+const TOAST_MS = 5000;
+
+export interface ActivityToast {
+  /** Actor + kind of change — repeats within the window add to the count */
+  key: string;
+  name: string;
+  color: string | null;
+  count: number;
+  describe: (count: number) => string;
+}
+
+const plural = (count: number, noun: string) => `${count} ${noun}${count === 1 ? '' : 's'}`;
+
+/** What a change reads as in a toast, or null for changes not worth one. */
+function describeChange(event: SparkEvent): { kind: string; count: number; describe: (count: number) => string } | null {
+  switch (event.type) {
+    case 'items.created':
+      return { kind: 'items.added', count: event.items.length, describe: (n) => `added ${plural(n, 'item')}` };
+    case 'items.updated':
+      return { kind: 'items.edited', count: event.items.length, describe: (n) => `edited ${plural(n, 'item')}` };
+    case 'items.deleted':
+      return { kind: 'items.removed', count: event.itemIds.length, describe: (n) => `removed ${plural(n, 'item')}` };
+    case 'thread.created':
+      return { kind: 'threads.opened', count: 1, describe: (n) => (n === 1 ? 'started a discussion' : `started ${n} discussions`) };
+    case 'thread.updated':
+      return event.thread.resolved
+        ? { kind: 'threads.resolved', count: 1, describe: (n) => (n === 1 ? 'resolved a discussion' : `resolved ${n} discussions`) }
+        : { kind: 'threads.reopened', count: 1, describe: (n) => (n === 1 ? 'reopened a discussion' : `reopened ${n} discussions`) };
+    case 'comment.created':
+      return { kind: 'comments.added', count: 1, describe: (n) => (n === 1 ? 'replied in a discussion' : `added ${n} replies`) };
+    case 'canvas.nodes':
+      return { kind: 'canvas.moved', count: event.nodes.length, describe: (n) => `moved ${plural(n, 'card')} on the canvas` };
+    case 'canvas.group':
+    case 'canvas.group_deleted':
+      return { kind: 'canvas.grouped', count: 1, describe: () => 'regrouped the canvas' };
+    default:
+      return null;
+  }
+}
+
+/**
+ * Collects live changes made by other people into short-lived toasts.
+ * `resolvePresence` maps the actor to a collaborator's presence so the
+ * toast uses the name and colour shown in the editor's avatars.
+ */
+export function useActivityToasts(resolvePresence: (userId: string) => { name: string; color: string } | null) {
+  const [toasts, setToasts] = useState<ActivityToast[]>([]);
+  const timersRef = useRef(new Map<string, ReturnType<typeof setTimeout>>());
+
+  const dismiss = useCallback((key: string) => {
+    const timer = timersRef.current.get(key);
+    if (timer) clearTimeout(timer);
+    timersRef.current.delete(key);
+    setToasts(prev => prev.filter(t => t.key !== key));
+  }, []);
+
+  const push = useCallback((event: SparkEvent) => {
+    const actor = event.actor;
+    const change = describeChange(event);
+    if (!actor || !change || change.count === 0) return;
+
+    const presence = actor.userId ? resolvePresence(actor.userId) : null;
+    const key = `${actor.userId ?? actor.name}:${change.kind}`;
+
+    setToasts(prev => {
+      const existing = prev.find(t => t.key === key);
+      if (existing) {
+        return prev.map(t => t.key === key ? { ...t, count: t.count + change.count } : t);
+      }
+      return [...prev, {
+        key,
+        name: presence?.name ?? actor.name ?? 'Someone',
+        color: presence?.color ?? null,
+        count: change.count,
+        describe: change.describe,
+      }];
+    });
+
+    const timer = timersRef.current.get(key);
+    if (timer) clearTimeout(timer);
+    timersRef.current.set(key, setTimeout(() => dismiss(key), TOAST_MS));
+  }, [resolvePresence, dismiss]);
+
+  useEffect(() => {
+    const timers = timersRef.current;
+    return () => timers.forEach(clearTimeout);
+  }, []);
+
+  return { toasts, push, dismiss };
+}
+
+interface SparkActivityToastsProps {
+  toasts: ActivityToast[];
+  onDismiss: (key: string) => void;
+}
+
+export default function SparkActivityToasts({ toasts, onDismiss }: SparkActivityToastsProps) {
+  if (toasts.length === 0) return null;
+
+  return (
+    <div className="fixed bottom-4 right-4 z-50 flex flex-col gap-2 pointer-events-none" aria-live="polite">
+      {toasts.map(toast => (
+        <div
+          key={toast.key}
+          className="pointer-events-auto flex items-center gap-2.5 pl-2.5 pr-2 py-2 rounded-lg bg-surface border border-venus-gray-200 shadow-lg text-xs text-venus-gray-700 max-w-xs"
+        >
+          <span
+            className="w-6 h-6 shrink-0 rounded-full flex items-center justify-center text-white text-[10px] font-semibold bg-venus-gray-400"
+            style={toast.color ? { backgroundColor: toast.color } : undefined}
+          >
+            {toast.name.slice(0, 1).toUpperCase()}
+          </span>
+          <span className="flex-1 min-w-0">
+            <span className="font-semibold">{toast.name}</span> {toast.describe(toast.count)}
+          </span>
+          <button
+            onClick={() => onDismiss(toast.key)}
+            className="p-0.5 rounded text-venus-gray-400 hover:text-venus-gray-600 hover:bg-venus-gray-100"
+            aria-label="Dismiss"
+          >
+            <X size={12} />
+          </button>
+        </div>
+      ))}
+    </div>
+  );
+}
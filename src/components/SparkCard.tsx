@@ -1,7 +1,7 @@
 'use client';
 
 import { formatDistanceToNow } from 'date-fns';
-import { FileText, Link2, Image, StickyNote, File, MoreVertical, Trash2, Archive } from 'lucide-react';
+import { FileText, Link2, Image, StickyNote, File, MoreVertical, Trash2, Archive, UserPlus } from 'lucide-react';
 import { useState, useRef, useEffect } from 'react';
 import type { Spark } from '@/lib/types';
 
@@ -10,6 +10,8 @@ interface SparkCardProps {
   itemCount?: number;
   onClick: () => void;
   onDelete: (id: string) => void;
+  /** Shown instead of the menu when the current user has a pending invite */
+  onAcceptInvite?: (id: string) => void;
 }
 
 const typeIcons = {
@@ -20,7 +22,7 @@ const typeIcons = {
   note: StickyNote,
 };
 
-export default function SparkCard({ spark, itemCount = 0, onClick, onDelete }: SparkCardProps) {
+export default function SparkCard({ spark, itemCount = 0, onClick, onDelete, onAcceptInvite }: SparkCardProps) {
   const [menuOpen, setMenuOpen] = useState(false);
   const menuRef = useRef<HTMLDivElement>(null);
 
@@ -34,12 +36,29 @@ export default function SparkCard({ spark, itemCount = 0, onClick, onDelete }: S
     return () => document.removeEventListener('mousedown', handleClickOutside);
   }, []);
 
+  const isPendingInvite = spark.membership_status === 'pending';
+
   return (
     <div
       className="bg-card-bg rounded-xl border border-venus-gray-200 p-5 hover:border-venus-purple/40 hover:shadow-md transition-all cursor-pointer group relative"
       onClick={onClick}
     >
-      {/* Menu */}
+      {/* Pending invite */}
+      {isPendingInvite && (
+        <button
+          onClick={(e) => {
+            e.stopPropagation();
+            onAcceptInvite?.(spark.id);
+          }}
+          className="absolute top-4 right-4 flex items-center gap-1 px-2.5 py-1 bg-venus-purple hover:bg-venus-purple-deep text-white text-xs font-medium rounded-md transition-colors"
+        >
+          <UserPlus size={12} />
+          Accept invite
+        </button>
+      )}
+
+      {/* Menu — only owners can delete */}
+      {!isPendingInvite && spark.role === 'owner' && (
       <div className="absolute top-4 right-4" ref={menuRef}>
         <button
           onClick={(e) => {
@@ -76,6 +95,7 @@ export default function SparkCard({ spark, itemCount = 0, onClick, onDelete }: S
           </div>
         )}
       </div>
+      )}
 
       {/* Spark icon */}
       <div className="w-10 h-10 rounded-lg bg-venus-purple-light flex items-center justify-center mb-3">
@@ -85,6 +105,11 @@ export default function SparkCard({ spark, itemCount = 0, onClick, onDelete }: S
       </div>
 
       <h3 className="font-semibold text-venus-gray-700 mb-1 pr-8">{spark.name}</h3>
+      {spark.role && spark.role !== 'owner' && (
+        <p className="text-xs text-venus-gray-400 mb-1 capitalize">
+          {isPendingInvite ? `Invited as ${spark.role}` : spark.role}
+        </p>
+      )}
       {spark.description && (
         <p className="text-sm text-venus-gray-500 mb-3 line-clamp-2">{spark.description}</p>
       )}
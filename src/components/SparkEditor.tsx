@@ -2,7 +2,7 @@
 
 import { useCallback, useEffect, useRef, useState } from 'react';
 import { useEditor, EditorContent, ReactRenderer, type JSONContent } from '@tiptap/react';
-import type { Editor } from '@tiptap/core';
+import type { Editor, Range } from '@tiptap/core';
 import { NodeSelection } from '@tiptap/pm/state';
 import { BubbleMenu } from '@tiptap/react/menus';
 import { useEditorContext } from '@/lib/editor-context';
@@ -13,7 +13,7 @@ import Image from '@tiptap/extension-image';
 import { Table, TableRow, TableHeader, TableCell } from '@tiptap/extension-table';
 import TaskList from '@tiptap/extension-task-list';
 import TaskItem from '@tiptap/extension-task-item';
-import Mention from '@tiptap/extension-mention';
+import Mention, { type MentionNodeAttrs } from '@tiptap/extension-mention';
 import Collaboration from '@tiptap/extension-collaboration';
 import CollaborationCursorExtension from './editor/CollaborationCursorExtension';
 import { TiptapCollabProvider } from '@tiptap-pro/provider';
@@ -23,12 +23,13 @@ import type { SuggestionProps, SuggestionKeyDownProps } from '@tiptap/suggestion
 import {
   Bold, Italic, Strikethrough, Code, Heading1, Heading2, Heading3,
   List, ListOrdered, Quote, Minus, CheckSquare,
-  ImageIcon, Table2, Pencil, Sparkles, MessageSquareText, Layers,
+  ImageIcon, Table2, Pencil, Sparkles, MessageSquareText, Layers, FileDown,
 } from 'lucide-react';
-import type { CanvasGroup, SparkItem } from '@/lib/types';
+import type { CanvasGroup, MentionMember, SparkItem } from '@/lib/types';
 import { DrawingExtension } from './editor/DrawingExtension';
 import { GroupBlockExtension } from './editor/GroupBlockExtension';
 import type { GroupBlockItem } from './editor/GroupBlockExtension';
+import { ItemMentionExtension } from './editor/ItemMentionExtension';
 import CommentMark from './editor/CommentMark';
 import CommentPopover from './CommentPopover';
 import type { CommentSubmitData } from './CommentPopover';
@@ -69,23 +70,45 @@ function setStoredName(name: string) {
 // keystroke without reinitializing the editor.
 let _canvasGroups: CanvasGroup[] = [];
 let _sparkItems: SparkItem[] = [];
-
-// ─── Mention data ────────────────────────────────────
-// Replace / extend with real user data as needed.
-const MENTION_ITEMS: MentionItem[] = [
-  { id: '1', label: 'Alice Johnson' },
-  { id: '2', label: 'Bob Smith' },
-  { id: '3', label: 'Carol White' },
-  { id: '4', label: 'David Lee' },
-  { id: '5', label: 'Eva Martinez' },
-];
+// Same pattern for @mentions: Spark members, and who to tell when one is picked
+let _mentionMembers: MentionMember[] = [];
+let _onMention: ((userId: string, excerpt: string) => void) | undefined;
 
 // ─── Mention suggestion config ───────────────────────
+const MENTION_PEOPLE_LIMIT = 5;
+const MENTION_ITEMS_LIMIT = 5;
+
 const mentionSuggestion = {
-  items: ({ query }: { query: string }) =>
-    MENTION_ITEMS.filter(m =>
-      m.label.toLowerCase().startsWith(query.toLowerCase())
-    ).slice(0, 6),
+  items: ({ query }: { query: string }): MentionItem[] => {
+    const q = query.toLowerCase();
+    const people: MentionItem[] = _mentionMembers
+      .filter(m => m.label.toLowerCase().split(/\s+/).some(word => word.startsWith(q)) || m.label.toLowerCase().startsWith(q))
+      .slice(0, MENTION_PEOPLE_LIMIT)
+      .map(m => ({ kind: 'person', id: m.user_id, label: m.label }));
+    const items: MentionItem[] = _sparkItems
+      .filter(i => i.title.toLowerCase().includes(q))
+      .slice(0, MENTION_ITEMS_LIMIT)
+      .map(i => ({ kind: 'item', id: i.id, label: i.title, itemType: i.type, summary: i.summary }));
+    return [...people, ...items];
+  },
+
+  // People become `mention` nodes and are notified; items become `itemMention` chips
+  command: ({ editor, range, props: attrs }: { editor: Editor; range: Range; props: MentionNodeAttrs }) => {
+    // MentionList passes back the MentionItem that was picked
+    const props = attrs as unknown as MentionItem;
+    if (props.kind === 'item') {
+      editor.chain().focus().deleteRange(range)
+        .insertItemMention({ itemId: props.id, title: props.label, itemType: props.itemType, summary: props.summary })
+        .run();
+      return;
+    }
+
+    editor.chain().focus().insertContentAt(range, [
+      { type: 'mention', attrs: { id: props.id, label: props.label } },
+      { type: 'text', text: ' ' },
+    ]).run();
+    _onMention?.(props.id, editor.state.selection.$from.parent.textContent);
+  },
 
   render: () => {
     let component: ReactRenderer<MentionListRef> | null = null;
@@ -301,6 +324,49 @@ function Sep() {
   return <div className="w-px h-5 bg-venus-gray-200 mx-0.5 shrink-0" />;
 }
 
+const EXPORT_FORMATS = [
+  { format: 'docx', label: 'Word document (.docx)' },
+  { format: 'md', label: 'Markdown (.md)' },
+  { format: 'html', label: 'HTML page (.html)' },
+] as const;
+
+/** Download the saved document, rendered server-side */
+function ExportMenu({ sparkId }: { sparkId: string }) {
+  const [open, setOpen] = useState(false);
+  const [includeComments, setIncludeComments] = useState(true);
+  const comments = includeComments ? 'footnotes' : 'drop';
+
+  return (
+    <div className="relative ml-auto">
+      <ToolbarBtn icon={FileDown} label="Export document" onClick={() => setOpen(o => !o)} active={open} />
+      {open && (
+        <div className="absolute top-full right-0 mt-1 z-20 bg-card-bg rounded-lg border border-venus-gray-200 shadow-lg py-1 w-56">
+          {EXPORT_FORMATS.map(({ format, label }) => (
+            <a
+              key={format}
+              href={`/api/sparks/${sparkId}/document/export?format=${format}&comments=${comments}`}
+              download
+              onClick={() => setOpen(false)}
+              className="block px-3 py-1.5 text-sm text-venus-gray-700 hover:bg-venus-gray-100 transition-colors"
+            >
+              {label}
+            </a>
+          ))}
+          <label className="flex items-center gap-2 px-3 pt-2 pb-1.5 mt-1 border-t border-venus-gray-200 text-xs text-venus-gray-500 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={includeComments}
+              onChange={ev => setIncludeComments(ev.target.checked)}
+              className="accent-venus-purple"
+            />
+            Include open comments as footnotes
+          </label>
+        </div>
+      )}
+    </div>
+  );
+}
+
 // ─── Editor ─────────────────────────────────────────
 
 interface CommentPopoverState {
@@ -333,12 +399,19 @@ interface SparkEditorProps {
   onPresenceChange?: (users: CollabUser[], localClientId: number) => void;
   /** Called to update the local user's display name (from parent) */
   collabNameOverride?: string;
+  /** The signed-in user's id, shared in awareness so peers can match changes to a presence */
+  collabUserId?: string | null;
+  /** Spark members offered after `@` (items come from sparkItems) */
+  mentionMembers?: MentionMember[];
+  /** Called when a member is mentioned, with the text of the paragraph they were mentioned in */
+  onMention?: (userId: string, excerpt: string) => void;
 }
 
 export default function SparkEditor({
   sparkId, onAskAI, initialContent, onContentChange,
   onCommentCreate, onCommentMarkClick, activeThreadId,
-  canvasGroups, sparkItems, onPresenceChange, collabNameOverride,
+  canvasGroups, sparkItems, onPresenceChange, collabNameOverride, collabUserId,
+  mentionMembers, onMention,
 }: SparkEditorProps) {
   const [imageOpen, setImageOpen] = useState(false);
   const [imageUrl, setImageUrl] = useState('');
@@ -357,6 +430,11 @@ export default function SparkEditor({
     _sparkItems = sparkItems ?? [];
   }, [canvasGroups, sparkItems]);
 
+  useEffect(() => {
+    _mentionMembers = mentionMembers ?? [];
+    _onMention = onMention;
+  }, [mentionMembers, onMention]);
+
   // ── Yjs document + TipTap Cloud provider ───────────
   // Y.Doc is created synchronously via useState so it's available on the
   // very first render when useEditor reads the extensions array.
@@ -408,11 +486,11 @@ export default function SparkEditor({
 
     // Broadcast presence changes to parent
     const handleAwarenessChange = () => {
-      const states = awareness.getStates() as Map<number, { user?: { name: string; color: string } }>;
+      const states = awareness.getStates() as Map<number, { user?: { name: string; color: string; userId?: string } }>;
       const users: CollabUser[] = [];
       states.forEach((state, clientId) => {
         if (state.user) {
-          users.push({ clientId, name: state.user.name, color: state.user.color });
+          users.push({ clientId, name: state.user.name, color: state.user.color, userId: state.user.userId });
         }
       });
       onPresenceChangeRef.current?.(users, awareness.clientID);
@@ -440,6 +518,17 @@ export default function SparkEditor({
     }
   }, [provider, collabNameOverride]);
 
+  // Share the signed-in user's id so live change toasts can use this presence
+  useEffect(() => {
+    if (!provider || !collabUserId) return;
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const awareness = (provider as any).awareness! as import('y-protocols/awareness').Awareness;
+    const current = (awareness.getLocalState() as { user?: { name: string; color: string; userId?: string } })?.user;
+    if (current && current.userId !== collabUserId) {
+      awareness.setLocalStateField('user', { ...current, userId: collabUserId });
+    }
+  }, [provider, collabUserId]);
+
   const editor = useEditor({
     extensions: [
       StarterKit.configure({
@@ -467,11 +556,12 @@ export default function SparkEditor({
       // Group block (canvas group card NodeView)
       GroupBlockExtension,
 
-      // Mentions
+      // Mentions — members and items share the `@` trigger
       Mention.configure({
         HTMLAttributes: { class: 'mention' },
         suggestion: mentionSuggestion,
       }),
+      ItemMentionExtension,
 
       // Comment marks
       CommentMark,
@@ -676,6 +766,8 @@ export default function SparkEditor({
 
         {/* Rule */}
         <ToolbarBtn icon={Minus} label="Horizontal rule" onClick={() => e.chain().focus().setHorizontalRule().run()} />
+
+        <ExportMenu sparkId={sparkId} />
       </div>
 
       {/* ── Bubble menu (appears on text selection) ── */}
@@ -785,6 +877,7 @@ export default function SparkEditor({
               selectedText={commentPopover.selectedText}
               from={commentPopover.from}
               to={commentPopover.to}
+              members={mentionMembers}
               onSubmit={handleCommentSubmit}
               onCancel={() => setCommentPopover(null)}
             />
@@ -0,0 +1,164 @@
+'use client';
+
+import { useState, useEffect, useRef } from 'react';
+import { Loader2, Clock, AlertCircle, X, RotateCcw } from 'lucide-react';
+import type { Job, JobKind } from '@/lib/types';
+
+interface SparkJobsPanelProps {
+  sparkId: string;
+  canEdit: boolean;
+  /** Called when the last active job finishes, so new items can be loaded */
+  onJobsSettled: () => void;
+}
+
+const ACTIVE_POLL_MS = 3_000;
+const IDLE_POLL_MS = 15_000;
+// Failed jobs stay listed (with Retry) for a day
+const FAILED_VISIBLE_MS = 24 * 60 * 60 * 1000;
+
+const KIND_LABELS: Record<JobKind, string> = {
+  embed_items: 'Embedding',
+  contentstack_import_delivery: 'Contentstack entries import',
+  contentstack_import_entries: 'Contentstack entries import',
+  contentstack_import_assets: 'Contentstack assets import',
+  clarity_import: 'Clarity import',
+  slack_task: 'Slack thread',
+  slack_channel_backfill: 'Slack channel sync',
+  slack_digest: 'Slack digest',
+  drive_folder_sync: 'Drive folder sync',
+};
+
+function isActive(job: Job): boolean {
+  return job.status === 'queued' || job.status === 'running';
+}
+
+/** Background work for a Spark (imports, embedding) with progress, cancel and retry. */
+export default function SparkJobsPanel({ sparkId, canEdit, onJobsSettled }: SparkJobsPanelProps) {
+  const [jobs, setJobs] = useState<Job[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [reloadKey, setReloadKey] = useState(0);
+  const activeCountRef = useRef(0);
+  const onSettledRef = useRef(onJobsSettled);
+
+  useEffect(() => {
+    onSettledRef.current = onJobsSettled;
+  }, [onJobsSettled]);
+
+  useEffect(() => {
+    let cancelled = false;
+    let timer: ReturnType<typeof setTimeout> | null = null;
+
+    const load = async () => {
+      let delay = IDLE_POLL_MS;
+      try {
+        const res = await fetch(`/api/jobs?spark_id=${sparkId}&status=queued,running,failed`);
+        if (res.ok && !cancelled) {
+          const data = await res.json();
+          const now = Date.now();
+          const visible = (data.jobs as Job[]).filter(
+            (job) => isActive(job) || now - new Date(job.finished_at ?? job.updated_at).getTime() < FAILED_VISIBLE_MS
+          );
+          const activeCount = visible.filter(isActive).length;
+          if (activeCountRef.current > 0 && activeCount === 0) onSettledRef.current();
+          activeCountRef.current = activeCount;
+          setJobs(visible);
+          if (activeCount > 0) delay = ACTIVE_POLL_MS;
+        }
+      } catch {
+        // Try again on the next tick
+      }
+      if (!cancelled) timer = setTimeout(load, delay);
+    };
+
+    load();
+    return () => {
+      cancelled = true;
+      if (timer) clearTimeout(timer);
+    };
+  }, [sparkId, reloadKey]);
+
+  async function act(job: Job, action: 'cancel' | 'retry') {
+    setError(null);
+    const res = await fetch(`/api/jobs/${job.id}/${action}`, { method: 'POST' });
+    if (!res.ok) {
+      const data = await res.json().catch(() => null);
+      setError(data?.error || `Could not ${action} the job`);
+    }
+    setReloadKey((key) => key + 1);
+  }
+
+  // Embedding jobs are numerous and short — summarise them in one row
+  const embedJobs = jobs.filter((job) => job.kind === 'embed_items' && isActive(job));
+  const rows = jobs.filter((job) => !(job.kind === 'embed_items' && isActive(job)));
+
+  if (embedJobs.length === 0 && rows.length === 0) return null;
+
+  const embedRunning = embedJobs.filter((job) => job.status === 'running').length;
+
+  return (
+    <div className="mb-4 rounded-lg border border-venus-gray-200 bg-venus-gray-50 divide-y divide-venus-gray-200">
+      {embedJobs.length > 0 && (
+        <div className="flex items-center gap-2 px-3 py-2">
+          <Loader2 size={12} className="animate-spin text-venus-purple shrink-0" />
+          <span className="text-xs text-venus-gray-600">
+            Embedding items — {embedRunning} running, {embedJobs.length - embedRunning} queued
+          </span>
+        </div>
+      )}
+
+      {rows.map((job) => {
+        const progress = job.progress;
+        const percent = progress?.total ? Math.round(((progress.current ?? 0) / progress.total) * 100) : null;
+        return (
+          <div key={job.id} className="px-3 py-2">
+            <div className="flex items-center gap-2">
+              {job.status === 'running' ? (
+                <Loader2 size={12} className="animate-spin text-venus-purple shrink-0" />
+              ) : job.status === 'queued' ? (
+                <Clock size={12} className="text-venus-gray-400 shrink-0" />
+              ) : (
+                <AlertCircle size={12} className="text-venus-red shrink-0" />
+              )}
+              <span className="text-xs font-medium text-venus-gray-700 truncate">{KIND_LABELS[job.kind] ?? job.kind}</span>
+              <span className="text-xs text-venus-gray-400 truncate flex-1">
+                {job.status === 'failed' ? job.last_error : progress?.message}
+              </span>
+              {canEdit && isActive(job) && (
+                <button
+                  onClick={() => act(job, 'cancel')}
+                  className="p-0.5 rounded hover:bg-venus-gray-200 text-venus-gray-400 shrink-0"
+                  title="Cancel"
+                >
+                  <X size={12} />
+                </button>
+              )}
+              {canEdit && job.status === 'failed' && (
+                <button
+                  onClick={() => act(job, 'retry')}
+                  className="flex items-center gap-1 text-[10px] font-medium text-venus-gray-500 hover:text-venus-purple shrink-0"
+                  title="Retry"
+                >
+                  <RotateCcw size={11} />
+                  Retry
+                </button>
+              )}
+            </div>
+            {job.status === 'running' && percent !== null && (
+              <div className="mt-1.5 w-full h-1 bg-venus-gray-200 rounded-full overflow-hidden">
+                <div
+                  className="h-full bg-venus-purple rounded-full transition-all duration-300"
+                  style={{ width: `${percent}%` }}
+                />
+              </div>
+            )}
+            {job.status === 'queued' && job.attempts > 0 && job.last_error && (
+              <p className="mt-1 text-[10px] text-venus-gray-400 truncate">Last error: {job.last_error}</p>
+            )}
+          </div>
+        );
+      })}
+
+      {error && <p className="px-3 py-2 text-xs text-venus-red">{error}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,198 @@
+'use client';
+
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { Users, X, Loader2 } from 'lucide-react';
+import type { SparkMember, SparkRole } from '@/lib/types';
+
+interface SparkMembersMenuProps {
+  sparkId: string;
+  /** The current user's role — only owners can invite, change roles, or revoke */
+  role: SparkRole;
+}
+
+const ROLES: SparkRole[] = ['viewer', 'editor', 'owner'];
+
+export default function SparkMembersMenu({ sparkId, role }: SparkMembersMenuProps) {
+  const [open, setOpen] = useState(false);
+  const [members, setMembers] = useState<SparkMember[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [inviteEmail, setInviteEmail] = useState('');
+  const [inviteRole, setInviteRole] = useState<SparkRole>('editor');
+  const [inviting, setInviting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const menuRef = useRef<HTMLDivElement>(null);
+  const isOwner = role === 'owner';
+
+  const loadMembers = useCallback(async () => {
+    setLoading(true);
+    try {
+      const res = await fetch(`/api/sparks/${sparkId}/members`);
+      if (res.ok) {
+        const data = await res.json();
+        setMembers(data.members);
+      }
+    } finally {
+      setLoading(false);
+    }
+  }, [sparkId]);
+
+  useEffect(() => {
+    if (open) loadMembers();
+  }, [open, loadMembers]);
+
+  // Close dropdown on outside click
+  useEffect(() => {
+    function handleClick(e: MouseEvent) {
+      if (menuRef.current && !menuRef.current.contains(e.target as Node)) {
+        setOpen(false);
+      }
+    }
+    document.addEventListener('mousedown', handleClick);
+    return () => document.removeEventListener('mousedown', handleClick);
+  }, []);
+
+  async function handleInvite(e: React.FormEvent) {
+    e.preventDefault();
+    if (!inviteEmail.trim()) return;
+    setInviting(true);
+    setError(null);
+    try {
+      const res = await fetch(`/api/sparks/${sparkId}/members`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ email: inviteEmail.trim(), role: inviteRole }),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || 'Invite failed');
+      setInviteEmail('');
+      await loadMembers();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Invite failed');
+    } finally {
+      setInviting(false);
+    }
+  }
+
+  async function handleRoleChange(memberId: string, newRole: SparkRole) {
+    setError(null);
+    const res = await fetch(`/api/sparks/${sparkId}/members/${memberId}`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ role: newRole }),
+    });
+    if (!res.ok) {
+      const data = await res.json();
+      setError(data.error || 'Failed to change role');
+    }
+    await loadMembers();
+  }
+
+  async function handleRevoke(memberId: string) {
+    setError(null);
+    const res = await fetch(`/api/sparks/${sparkId}/members/${memberId}`, { method: 'DELETE' });
+    if (!res.ok) {
+      const data = await res.json();
+      setError(data.error || 'Failed to remove member');
+    }
+    await loadMembers();
+  }
+
+  return (
+    <div className="relative" ref={menuRef}>
+      <button
+        onClick={() => setOpen(!open)}
+        className="flex items-center gap-1.5 px-2.5 py-1.5 rounded-lg text-xs font-medium text-venus-gray-600 hover:bg-venus-gray-100 transition-colors"
+        title="Members"
+      >
+        <Users size={14} />
+        Share
+      </button>
+
+      {open && (
+        <div className="absolute right-0 top-full mt-1 w-80 bg-card-bg rounded-lg border border-venus-gray-200 shadow-lg py-2 z-50">
+          <div className="px-4 py-2 border-b border-venus-gray-200 flex items-center justify-between">
+            <p className="text-sm font-medium text-venus-gray-700">Members</p>
+            <span className="text-[10px] px-1.5 py-0.5 rounded-full bg-venus-purple/10 text-venus-purple font-medium capitalize">
+              You: {role}
+            </span>
+          </div>
+
+          {/* Member list */}
+          <div className="max-h-64 overflow-y-auto">
+            {loading && members.length === 0 ? (
+              <div className="flex items-center justify-center py-4">
+                <Loader2 size={16} className="animate-spin text-venus-gray-400" />
+              </div>
+            ) : (
+              members.map((member) => (
+                <div key={member.id} className="flex items-center gap-2 px-4 py-2">
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm text-venus-gray-700 truncate">
+                      {member.display_name || member.invited_email}
+                    </p>
+                    <p className="text-xs text-venus-gray-400 truncate">
+                      {member.status === 'pending' ? 'Invite pending' : member.invited_email}
+                    </p>
+                  </div>
+                  {isOwner ? (
+                    <>
+                      <select
+                        value={member.role}
+                        onChange={(e) => handleRoleChange(member.id, e.target.value as SparkRole)}
+                        className="text-xs border border-venus-gray-200 rounded-md px-1.5 py-1 bg-surface text-venus-gray-600 focus:outline-none focus:ring-2 focus:ring-venus-purple/30"
+                      >
+                        {ROLES.map((r) => (
+                          <option key={r} value={r}>{r}</option>
+                        ))}
+                      </select>
+                      <button
+                        onClick={() => handleRevoke(member.id)}
+                        className="p-1 rounded-md text-venus-gray-400 hover:text-venus-red hover:bg-venus-red-light transition-colors"
+                        title="Remove"
+                      >
+                        <X size={14} />
+                      </button>
+                    </>
+                  ) : (
+                    <span className="text-xs text-venus-gray-500 capitalize">{member.role}</span>
+                  )}
+                </div>
+              ))
+            )}
+          </div>
+
+          {/* Invite form */}
+          {isOwner && (
+            <form onSubmit={handleInvite} className="px-4 pt-2 mt-1 border-t border-venus-gray-200 flex items-center gap-1.5">
+              <input
+                type="email"
+                value={inviteEmail}
+                onChange={(e) => setInviteEmail(e.target.value)}
+                placeholder="Invite by email"
+                className="flex-1 min-w-0 px-2 py-1.5 border border-venus-gray-200 rounded-md text-xs bg-surface focus:outline-none focus:ring-2 focus:ring-venus-purple/30 focus:border-venus-purple"
+              />
+              <select
+                value={inviteRole}
+                onChange={(e) => setInviteRole(e.target.value as SparkRole)}
+                className="text-xs border border-venus-gray-200 rounded-md px-1.5 py-1.5 bg-surface text-venus-gray-600 focus:outline-none"
+              >
+                {ROLES.map((r) => (
+                  <option key={r} value={r}>{r}</option>
+                ))}
+              </select>
+              <button
+                type="submit"
+                disabled={inviting || !inviteEmail.trim()}
+                className="px-2.5 py-1.5 bg-venus-purple hover:bg-venus-purple-deep disabled:opacity-50 text-white text-xs font-medium rounded-md transition-colors"
+              >
+                {inviting ? <Loader2 size={12} className="animate-spin" /> : 'Invite'}
+              </button>
+            </form>
+          )}
+
+          {error && <p className="px-4 pt-2 text-xs text-venus-red">{error}</p>}
+        </div>
+      )}
+    </div>
+  );
+}
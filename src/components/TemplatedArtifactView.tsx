@@ -0,0 +1,69 @@
+'use client';
+
+import ReactMarkdown from 'react-markdown';
+import type { TemplateLayoutSection } from '@/lib/types';
+import { fieldValueToText, formatFieldLabel, getArtifactField } from '@/lib/artifact-fields';
+
+interface TemplatedArtifactViewProps {
+  content: Record<string, unknown>;
+  layout: TemplateLayoutSection[];
+}
+
+function Section({ section, value }: { section: TemplateLayoutSection; value: unknown }) {
+  const text = fieldValueToText(value);
+
+  switch (section.format) {
+    case 'heading':
+      return <h2 className="text-lg font-semibold text-venus-gray-700">{text}</h2>;
+    case 'list': {
+      const items = Array.isArray(value) ? value.map(fieldValueToText) : text.split('\n');
+      return (
+        <ul className="list-disc pl-5 space-y-0.5 text-sm text-venus-gray-600">
+          {items.filter(Boolean).map((item, i) => (
+            <li key={i}>{item}</li>
+          ))}
+        </ul>
+      );
+    }
+    case 'quote':
+      return (
+        <blockquote className="border-l-2 border-venus-purple pl-3 text-sm text-venus-gray-500 italic whitespace-pre-wrap">
+          {text}
+        </blockquote>
+      );
+    case 'markdown':
+      return (
+        <div className="text-sm text-venus-gray-600 space-y-2 [&_ul]:list-disc [&_ul]:pl-5 [&_ol]:list-decimal [&_ol]:pl-5 [&_h2]:font-semibold [&_h3]:font-semibold [&_a]:text-venus-purple [&_a]:underline">
+          <ReactMarkdown>{text}</ReactMarkdown>
+        </div>
+      );
+    default:
+      return <p className="text-sm text-venus-gray-600 whitespace-pre-wrap">{text}</p>;
+  }
+}
+
+/** Render a templated artifact's content in the order and formats its template's layout defines. */
+export default function TemplatedArtifactView({ content, layout }: TemplatedArtifactViewProps) {
+  const sections = layout
+    .map((section) => ({ section, value: getArtifactField(content, section.field) }))
+    .filter(({ value }) => value !== undefined && value !== null && value !== '');
+
+  if (sections.length === 0) {
+    return <p className="text-xs text-venus-gray-400">Nothing to show for this layout.</p>;
+  }
+
+  return (
+    <div className="space-y-4">
+      {sections.map(({ section, value }) => (
+        <div key={section.field}>
+          {section.format !== 'heading' && (
+            <p className="text-[10px] font-medium text-venus-gray-500 uppercase tracking-wider mb-1">
+              {section.label || formatFieldLabel(section.field)}
+            </p>
+          )}
+          <Section section={section} value={value} />
+        </div>
+      ))}
+    </div>
+  );
+}
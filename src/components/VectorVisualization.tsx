@@ -1,10 +1,10 @@
 'use client';
 
-import { useRef, useState, useMemo } from 'react';
+import { Fragment, useRef, useState, useMemo } from 'react';
 import { Canvas, useFrame } from '@react-three/fiber';
 import { OrbitControls, Html, Line } from '@react-three/drei';
 import * as THREE from 'three';
-import type { VectorContextItem, ItemType } from '@/lib/types';
+import type { VectorContextItem, ItemType, RetrievalScores } from '@/lib/types';
 
 // ─── Color map by item type ───────────────────────────
 const TYPE_COLORS: Record<string, string> = {
@@ -50,6 +50,31 @@ function computePositions(items: VectorContextItem[]) {
   });
 }
 
+// ─── Retrieval score breakdown (tooltip) ──────────────
+function ScoreBreakdown({ scores }: { scores: RetrievalScores }) {
+  const rows: [string, string][] = [
+    ['Semantic', scores.semantic != null
+      ? `${(scores.semantic * 100).toFixed(0)}% · #${scores.semantic_rank}`
+      : '—'],
+    ['Keyword', scores.full_text_rank != null ? `#${scores.full_text_rank}` : '—'],
+    ['Fusion', scores.fusion.toFixed(4)],
+  ];
+  if (scores.rerank != null) {
+    rows.push([`Rerank (${scores.reranker})`, `${(scores.rerank * 100).toFixed(0)}%`]);
+  }
+
+  return (
+    <div className="mt-1.5 pt-1.5 border-t border-[var(--border-color)] grid grid-cols-[auto_1fr] gap-x-3 gap-y-0.5">
+      {rows.map(([label, value]) => (
+        <Fragment key={label}>
+          <span className="text-[10px] text-venus-gray-400">{label}</span>
+          <span className="text-[10px] font-medium text-venus-gray-600 text-right">{value}</span>
+        </Fragment>
+      ))}
+    </div>
+  );
+}
+
 // ─── Query Node (center) ──────────────────────────────
 function QueryNode() {
   const meshRef = useRef<THREE.Mesh>(null);
@@ -163,6 +188,7 @@ function ItemNode({
                 {item.summary}
               </p>
             )}
+            {item.scores && <ScoreBreakdown scores={item.scores} />}
           </div>
         </Html>
       )}
@@ -30,7 +30,9 @@ import {
 } from '@/lib/canvas-layout';
 import type { SparkItem, CanvasState, CanvasGroup } from '@/lib/types';
 
-const ACCEPTED_TYPES = ['image/png', 'image/jpeg', 'image/gif', 'image/webp', 'image/svg+xml', 'application/pdf'];
+// Types the Contentstack asset upload takes (Alt-drop). Spark uploads accept
+// more and sniff the real type server-side.
+const CONTENTSTACK_ACCEPTED_TYPES = ['image/png', 'image/jpeg', 'image/gif', 'image/webp', 'image/svg+xml', 'application/pdf'];
 
 // ── Node types (stable reference — must be outside component) ──
 const NODE_TYPES = {
@@ -104,8 +106,11 @@ function SparkCanvasInner({
     e.preventDefault();
     setIsDragOver(false);
 
+    // Files are stored in the Spark; holding Alt pushes them to the
+    // Contentstack asset library instead
+    const toContentstack = e.altKey;
     const files = Array.from(e.dataTransfer.files).filter(f =>
-      ACCEPTED_TYPES.includes(f.type),
+      !toContentstack || CONTENTSTACK_ACCEPTED_TYPES.includes(f.type),
     );
     if (files.length === 0) return;
 
@@ -119,7 +124,7 @@ function SparkCanvasInner({
         form.append('file', file);
         form.append('spark_id', sparkId);
 
-        const res = await fetch('/api/contentstack/upload-asset', {
+        const res = await fetch(toContentstack ? '/api/contentstack/upload-asset' : '/api/items/upload', {
           method: 'POST',
           body: form,
         });
@@ -413,7 +418,7 @@ function SparkCanvasInner({
                   <line x1="12" y1="3" x2="12" y2="15" />
                 </svg>
                 <span className="text-sm font-medium text-venus-purple">Drop files here</span>
-                <span className="text-xs text-venus-gray-500">Images & PDFs</span>
+                <span className="text-xs text-venus-gray-500">Images, PDFs, Word & PowerPoint · hold Alt to send to Contentstack</span>
               </>
             )}
           </div>
@@ -7,7 +7,7 @@ import {
 import { TYPE_COLORS } from '@/lib/canvas-layout';
 import type { SparkItem } from '@/lib/types';
 
-const TYPE_ICONS: Record<string, React.ComponentType<{ size?: number; className?: string }>> = {
+export const TYPE_ICONS: Record<string, React.ComponentType<{ size?: number; className?: string }>> = {
   link: Link2,
   image: Image,
   text: FileText,
@@ -30,7 +30,7 @@ function SparkItemNode({ data }: NodeProps & { data: SparkItemNodeData }) {
   const Icon = TYPE_ICONS[item.type] || FileText;
   const color = TYPE_COLORS[item.type] || '#888';
 
-  // Resolve thumbnail for image/link/asset items
+  // Resolve thumbnail for image/link/asset/uploaded file items
   const thumb =
     item.type === 'image'
       ? (item.metadata?.image_url as string) || item.content || null
@@ -38,7 +38,9 @@ function SparkItemNode({ data }: NodeProps & { data: SparkItemNodeData }) {
         ? (item.metadata?.og_image as string) || null
         : item.type === 'contentstack_asset' && (item.metadata?.cs_asset_content_type as string)?.startsWith('image/')
           ? (item.metadata?.cs_asset_url as string) || item.content || null
-          : null;
+          : item.type === 'file'
+            ? (item.metadata?.thumbnail_url as string) || null
+            : null;
 
   const isPdf = item.type === 'contentstack_asset' && (item.metadata?.cs_asset_content_type as string) === 'application/pdf';
 
@@ -0,0 +1,102 @@
+'use client';
+
+import { Node, mergeAttributes } from '@tiptap/core';
+import { ReactNodeViewRenderer, NodeViewWrapper } from '@tiptap/react';
+import type { NodeViewProps } from '@tiptap/core';
+import { FileText } from 'lucide-react';
+import { TYPE_ICONS } from '@/components/canvas/SparkItemNode';
+import { TYPE_COLORS } from '@/lib/canvas-layout';
+
+// ─── Types ──────────────────────────────────────────
+
+export interface ItemMentionAttrs {
+  itemId: string;
+  title: string;
+  itemType: string;
+  summary: string | null;
+}
+
+// ─── NodeView component ─────────────────────────────
+
+const SUMMARY_LIMIT = 160;
+
+function ItemMentionNodeView({ node, selected }: NodeViewProps) {
+  const attrs = node.attrs as ItemMentionAttrs;
+  const Icon = TYPE_ICONS[attrs.itemType] || FileText;
+  const color = TYPE_COLORS[attrs.itemType] || 'var(--venus-purple)';
+  const summary = attrs.summary && attrs.summary.length > SUMMARY_LIMIT
+    ? attrs.summary.slice(0, SUMMARY_LIMIT) + '…'
+    : attrs.summary;
+
+  return (
+    <NodeViewWrapper
+      as="span"
+      className={`item-mention ${selected ? 'item-mention--selected' : ''}`}
+      style={{ '--item-color': color } as React.CSSProperties}
+      data-item-id={attrs.itemId}
+    >
+      <Icon size={12} className="item-mention__icon" />
+      <span className="item-mention__title">{attrs.title || 'Untitled item'}</span>
+      {summary && <span className="item-mention__summary">{summary}</span>}
+    </NodeViewWrapper>
+  );
+}
+
+// ─── Extension ──────────────────────────────────────
+
+/** Inline `@item` link to a Spark item, rendered as a chip with its type icon and summary */
+export const ItemMentionExtension = Node.create({
+  name: 'itemMention',
+  group: 'inline',
+  inline: true,
+  atom: true,
+  selectable: true,
+
+  addAttributes() {
+    return {
+      itemId: { default: '' },
+      title: { default: '' },
+      itemType: { default: 'text' },
+      summary: { default: null },
+    };
+  },
+
+  parseHTML() {
+    return [{ tag: 'span[data-type="itemMention"]' }];
+  },
+
+  renderHTML({ HTMLAttributes }) {
+    return ['span', mergeAttributes(HTMLAttributes, { 'data-type': 'itemMention' })];
+  },
+
+  renderText({ node }) {
+    return `@${node.attrs.title}`;
+  },
+
+  addNodeView() {
+    return ReactNodeViewRenderer(ItemMentionNodeView);
+  },
+
+  addCommands() {
+    return {
+      insertItemMention:
+        (attrs: ItemMentionAttrs) =>
+        ({ commands }) => {
+          return commands.insertContent([
+            { type: 'itemMention', attrs },
+            { type: 'text', text: ' ' },
+          ]);
+        },
+    };
+  },
+});
+
+// ─── TypeScript declaration merging ─────────────────
+
+declare module '@tiptap/core' {
+  interface Commands<ReturnType> {
+    itemMention: {
+      insertItemMention: (attrs: ItemMentionAttrs) => ReturnType;
+    };
+  }
+}
@@ -1,11 +1,14 @@
 'use client';
 
 import { forwardRef, useEffect, useImperativeHandle, useState } from 'react';
+import { FileText } from 'lucide-react';
+import { TYPE_ICONS } from '@/components/canvas/SparkItemNode';
+import { TYPE_COLORS } from '@/lib/canvas-layout';
 
-export interface MentionItem {
-  id: string;
-  label: string;
-}
+/** A Spark member (`kind: 'person'`) or Spark item (`kind: 'item'`) offered after `@` */
+export type MentionItem =
+  | { kind: 'person'; id: string; label: string }
+  | { kind: 'item'; id: string; label: string; itemType: string; summary: string | null };
 
 export interface MentionListRef {
   onKeyDown: (props: { event: KeyboardEvent }) => boolean;
@@ -51,20 +54,31 @@ const MentionList = forwardRef<MentionListRef, MentionListProps>(({ items, comma
 
   return (
     <div className="bg-card-bg rounded-lg border border-venus-gray-200 shadow-lg py-1 min-w-[160px] overflow-hidden">
-      {items.map((item, i) => (
-        <button
-          key={item.id}
-          onClick={() => command(item)}
-          className={`w-full text-left px-3 py-1.5 text-sm transition-colors flex items-center gap-2 ${
-            i === selectedIndex
-              ? 'bg-venus-purple-light text-venus-purple'
-              : 'text-venus-gray-700 hover:bg-venus-gray-100'
-          }`}
-        >
-          <span className="text-venus-gray-400 text-xs font-medium">@</span>
-          {item.label}
-        </button>
-      ))}
+      {items.map((item, i) => {
+        const Icon = item.kind === 'item' ? TYPE_ICONS[item.itemType] || FileText : null;
+        const iconColor = item.kind === 'item' ? TYPE_COLORS[item.itemType] : undefined;
+        const firstItem = item.kind === 'item' && items[i - 1]?.kind !== 'item';
+        return (
+          <div key={`${item.kind}-${item.id}`}>
+            {firstItem && i > 0 && <div className="my-1 border-t border-venus-gray-200" />}
+            <button
+              onClick={() => command(item)}
+              className={`w-full text-left px-3 py-1.5 text-sm transition-colors flex items-center gap-2 max-w-[280px] ${
+                i === selectedIndex
+                  ? 'bg-venus-purple-light text-venus-purple'
+                  : 'text-venus-gray-700 hover:bg-venus-gray-100'
+              }`}
+            >
+              {Icon ? (
+                <span className="shrink-0 flex" style={{ color: iconColor }}><Icon size={13} /></span>
+              ) : (
+                <span className="text-venus-gray-400 text-xs font-medium">@</span>
+              )}
+              <span className="truncate">{item.label}</span>
+            </button>
+          </div>
+        );
+      })}
     </div>
   );
 });
@@ -0,0 +1,16 @@
+// Runs once when the Next.js server starts.
+export async function register() {
+  if (process.env.NEXT_RUNTIME !== 'nodejs') return;
+
+  // Re-embed stored vectors in the background if EMBEDDING_PROVIDER changed
+  const { startEmbeddingMigrationIfNeeded } = await import('@/lib/embedding-migration');
+  startEmbeddingMigrationIfNeeded().catch((err) => {
+    console.error('[instrumentation] Embedding migration check failed:', err);
+  });
+
+  // Poll the jobs queue (set JOB_WORKER_LOOP=false where a cron drives /api/jobs/worker instead)
+  if (process.env.JOB_WORKER_LOOP !== 'false') {
+    const { startJobWorkerLoop } = await import('@/lib/jobs/worker');
+    startJobWorkerLoop();
+  }
+}
@@ -1,7 +1,7 @@
 import { tool, createSdkMcpServer } from '@anthropic-ai/claude-agent-sdk';
 import { z } from 'zod';
 import { supabaseAdmin } from '@/lib/supabase/admin';
-import { generateQueryEmbedding } from '@/lib/embeddings';
+import { hybridSearch } from '@/lib/retrieval';
 
 const MAX_IMAGES_PER_RESULT = 3;
 
@@ -65,9 +65,10 @@ async function appendImageBlocks(
 }
 
 /**
- * MCP tool: Semantic search items in a Spark using vector similarity.
- * Embeds the query, then uses the match_spark_items RPC function for cosine similarity search.
- * Falls back to keyword search if embeddings are unavailable.
+ * MCP tool: Semantic search items in a Spark.
+ * Uses hybrid retrieval (chunk-level vector + full-text, fused with RRF,
+ * then reranked), returning the matching passage and its parent item.
+ * Falls back to substring search if hybrid search finds nothing.
  */
 const semanticSearchSparkItems = tool(
   'semantic_search_spark_items',
@@ -80,43 +81,36 @@ const semanticSearchSparkItems = tool(
   async (args) => {
     const count = args.match_count ?? 10;
 
-    // Try vector search first
-    const queryEmbedding = await generateQueryEmbedding(args.query);
-
-    if (queryEmbedding) {
-      const { data, error } = await supabaseAdmin.rpc('match_spark_items', {
-        p_spark_id: args.spark_id,
-        query_embedding: JSON.stringify(queryEmbedding),
-        match_threshold: 0.3,
-        match_count: count,
-      });
-
-      if (!error && data && data.length > 0) {
-        const results = data.map((item: Record<string, unknown>) => ({
-          id: item.id,
-          type: item.type,
-          title: item.title,
-          content: (item.content as string)?.substring(0, 2000),
-          summary: item.summary,
-          metadata: item.metadata,
-          similarity: item.similarity,
-        }));
-
-        const content: Array<{ type: 'text'; text: string } | { type: 'image'; data: string; mimeType: string }> = [{
-          type: 'text' as const,
-          text: `Found ${results.length} semantically relevant items:\n${JSON.stringify(results, null, 2)}`,
-        }];
-        await appendImageBlocks(content, data);
-
-        return { content };
-      }
+    const { items, error: searchError } = await hybridSearch(args.spark_id, args.query, { matchCount: count });
+
+    if (items.length > 0) {
+      const results = items.map((item) => ({
+        id: item.id,
+        type: item.type,
+        title: item.title,
+        content: item.content?.substring(0, 2000),
+        summary: item.summary,
+        metadata: item.metadata,
+        ...(item.chunk_content != null && { passage: item.chunk_content }),
+        ...(item.chunk_anchor != null && { passage_location: item.chunk_anchor }),
+        similarity: item.similarity,
+        scores: item.scores,
+      }));
+
+      const content: Array<{ type: 'text'; text: string } | { type: 'image'; data: string; mimeType: string }> = [{
+        type: 'text' as const,
+        text: `Found ${results.length} relevant items:\n${JSON.stringify(results, null, 2)}`,
+      }];
+      await appendImageBlocks(content, items);
 
-      if (error) {
-        console.error('[semantic_search] RPC error:', error.message);
-      }
+      return { content };
+    }
+
+    if (searchError) {
+      console.error('[semantic_search] RPC error:', searchError);
     }
 
-    // Fallback to keyword search if vector search is unavailable
+    // Fallback to substring search
     const { data, error } = await supabaseAdmin
       .from('spark_items')
       .select('id, type, title, content, summary, metadata, created_at')
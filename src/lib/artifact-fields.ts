@@ -0,0 +1,114 @@
+/**
+ * Field-level view of generated artifact content.
+ *
+ * Artifact content is free-form JSON, so "a field" is addressed by a dotted
+ * path to a leaf: nested objects are walked into, while strings, numbers,
+ * and arrays (key messages, KPIs, SEO keywords) are treated as one field.
+ * A cms_entry's body is `fields.body`; a campaign brief's KPIs are `kpis`.
+ *
+ * Pure functions only — shared by the artifact API routes and the editor UI.
+ */
+
+type Content = Record<string, unknown>;
+
+export interface ArtifactField {
+  path: string;
+  value: unknown;
+}
+
+export interface ArtifactFieldDiff {
+  path: string;
+  status: 'added' | 'removed' | 'changed' | 'unchanged';
+  before: unknown;
+  after: unknown;
+}
+
+function isPlainObject(value: unknown): value is Content {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/** Every leaf field in the content, in document order. */
+export function flattenArtifactFields(content: Content, prefix = ''): ArtifactField[] {
+  const fields: ArtifactField[] = [];
+  for (const [key, value] of Object.entries(content)) {
+    const path = prefix ? `${prefix}.${key}` : key;
+    if (isPlainObject(value) && Object.keys(value).length > 0) {
+      fields.push(...flattenArtifactFields(value, path));
+    } else {
+      fields.push({ path, value });
+    }
+  }
+  return fields;
+}
+
+export function getArtifactField(content: Content, path: string): unknown {
+  let current: unknown = content;
+  for (const key of path.split('.')) {
+    if (!isPlainObject(current)) return undefined;
+    current = current[key];
+  }
+  return current;
+}
+
+/** Return a copy of the content with one field replaced. Intermediate objects are created as needed. */
+export function setArtifactField(content: Content, path: string, value: unknown): Content {
+  const [key, ...rest] = path.split('.');
+  if (rest.length === 0) return { ...content, [key]: value };
+  const child = isPlainObject(content[key]) ? (content[key] as Content) : {};
+  return { ...content, [key]: setArtifactField(child, rest.join('.'), value) };
+}
+
+/** Compare two versions of an artifact field by field. */
+export function diffArtifactContent(before: Content, after: Content): ArtifactFieldDiff[] {
+  const beforeFields = new Map(flattenArtifactFields(before).map((f) => [f.path, f.value]));
+  const afterFields = new Map(flattenArtifactFields(after).map((f) => [f.path, f.value]));
+
+  // Keep the newer version's order, then anything that was removed
+  const paths = [...afterFields.keys(), ...[...beforeFields.keys()].filter((p) => !afterFields.has(p))];
+
+  return paths.map((path) => {
+    const hadBefore = beforeFields.has(path);
+    const hasAfter = afterFields.has(path);
+    const beforeValue = beforeFields.get(path);
+    const afterValue = afterFields.get(path);
+
+    let status: ArtifactFieldDiff['status'];
+    if (!hadBefore) status = 'added';
+    else if (!hasAfter) status = 'removed';
+    else status = JSON.stringify(beforeValue) === JSON.stringify(afterValue) ? 'unchanged' : 'changed';
+
+    return { path, status, before: beforeValue, after: afterValue };
+  });
+}
+
+/** 'fields.seo_title' → 'Seo title' */
+export function formatFieldLabel(path: string): string {
+  const last = path.split('.').pop() || path;
+  const words = last.replace(/_/g, ' ');
+  return words.charAt(0).toUpperCase() + words.slice(1);
+}
+
+/** Render a field value as editable / diffable text. Arrays become one entry per line. */
+export function fieldValueToText(value: unknown): string {
+  if (value === undefined || value === null) return '';
+  if (typeof value === 'string') return value;
+  if (Array.isArray(value) && value.every((v) => typeof v === 'string')) return value.join('\n');
+  return JSON.stringify(value, null, 2);
+}
+
+/** Parse edited text back into the shape of the field's previous value. */
+export function textToFieldValue(text: string, previous: unknown): unknown {
+  if (Array.isArray(previous) && previous.every((v) => typeof v === 'string')) {
+    return text.split('\n').map((line) => line.trim()).filter(Boolean);
+  }
+  if (typeof previous === 'number') {
+    const n = Number(text);
+    return Number.isFinite(n) ? n : text;
+  }
+  if (typeof previous === 'string' || previous === undefined || previous === null) return text;
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+}
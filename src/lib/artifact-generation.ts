@@ -0,0 +1,227 @@
+/**
+ * Schema-validated artifact generation.
+ *
+ * Instead of the agent free-writing JSON, the Spark's items are loaded up
+ * front and the model is forced to submit the artifact through a tool whose
+ * input schema comes from the artifact type's zod schema (artifact-schemas)
+ * or, for CMS entries aimed at a real stack, from the target Contentstack
+ * content type. The result is validated against the same schema (with
+ * repair retries in generateStructured) before anything is saved.
+ */
+
+import { supabaseAdmin } from './supabase/admin';
+import { getContentTypeSchema, listEntries } from './contentstack/api';
+import {
+  contentTypeToJsonSchema,
+  referencedContentTypes,
+  validateEntry,
+  type ReferenceCandidate,
+} from './contentstack/schema-output';
+import { generateStructured, type GenerationProgress } from './structured-output';
+import { artifactTool, templateTool, validateArtifactContent, validateTemplateContent } from './artifact-schemas';
+import { deriveArtifactTitle } from './artifact-versions';
+import type { ArtifactTemplate, ArtifactType } from './types';
+
+const ITEM_CONTENT_CAP = 2_000;
+const CONTEXT_CAP = 60_000;
+const REFERENCE_CANDIDATE_LIMIT = 50;
+
+/** Stored on generated_artifacts.metadata.schema for artifacts generated against a content type */
+export interface ArtifactSchemaSource {
+  stack_api_key: string;
+  stack_name: string | null;
+  content_type_uid: string;
+  content_type_title: string;
+}
+
+/** All of a Spark's items as prompt text, newest first, capped in total length. */
+export async function loadSparkContext(sparkId: string): Promise<string> {
+  const { data: items } = await supabaseAdmin
+    .from('spark_items')
+    .select('type, title, content, summary')
+    .eq('spark_id', sparkId)
+    .order('created_at', { ascending: false });
+
+  if (!items || items.length === 0) return 'No items in this Spark yet.';
+
+  let context = '';
+  for (const item of items) {
+    const block = [
+      `## [${item.type}] ${item.title}`,
+      item.summary ? `Summary: ${item.summary}` : '',
+      item.content ? (item.content as string).slice(0, ITEM_CONTENT_CAP) : '',
+    ]
+      .filter(Boolean)
+      .join('\n');
+    if (context.length + block.length > CONTEXT_CAP) break;
+    context += `${block}\n\n`;
+  }
+  return context.trim();
+}
+
+const GENERATION_PROMPTS: Record<ArtifactType, string> = {
+  cms_entry: `Generate a Contentstack CMS webpage content entry based on the items in this Spark.
+
+Make the content professional, engaging, and based on the actual information stored in the Spark items. Do not make up information not present in the Spark items.`,
+
+  campaign_brief: `Generate a comprehensive Campaign Brief based on the items in this Spark.
+
+Base everything on the actual information stored in the Spark items.`,
+
+  custom: `Generate a business document based on the items in this Spark and the user's instructions.
+
+Use fields that fit the request (for example summary, sections, recommendations) alongside the title.`,
+};
+
+const GENERATION_SYSTEM = `You are a content strategist turning research collected in a Spark into business-ready artifacts for Contentstack DXP.`;
+
+/** Generate an artifact of one of the built-in types, validated against its zod schema. */
+export async function generateArtifact(options: {
+  sparkId: string;
+  type: ArtifactType;
+  instructions?: string;
+  progress?: GenerationProgress;
+}): Promise<{ title: string; content: Record<string, unknown> }> {
+  const { sparkId, type, instructions, progress } = options;
+  const tool = artifactTool(type);
+  progress?.onStatus?.('Loading Spark items...');
+  const context = await loadSparkContext(sparkId);
+
+  let prompt = `${GENERATION_PROMPTS[type]}
+
+<spark_items>
+${context}
+</spark_items>`;
+  if (instructions) {
+    prompt += `\n\nAdditional instructions from the user: ${instructions}`;
+  }
+
+  const { value } = await generateStructured({
+    label: `generate/${type}`,
+    system: `${GENERATION_SYSTEM}\n\nYou MUST call the ${tool.name} tool with the artifact.`,
+    prompt,
+    tool,
+    validate: (input) => validateArtifactContent(type, input),
+    progress,
+  });
+
+  return {
+    title: deriveArtifactTitle(type, value),
+    content: value,
+  };
+}
+
+/** Generate an artifact from a user-defined template, validated against its output_schema. */
+export async function generateFromTemplate(options: {
+  sparkId: string;
+  template: ArtifactTemplate;
+  instructions?: string;
+  progress?: GenerationProgress;
+}): Promise<{ title: string; content: Record<string, unknown> }> {
+  const { sparkId, template, instructions, progress } = options;
+  const tool = templateTool(template);
+  progress?.onStatus?.('Loading Spark items...');
+  const context = await loadSparkContext(sparkId);
+
+  let prompt = `${template.prompt}
+
+<spark_items>
+${context}
+</spark_items>
+
+Base everything on the actual information stored in the Spark items.`;
+  if (instructions) {
+    prompt += `\n\nAdditional instructions from the user: ${instructions}`;
+  }
+
+  const { value } = await generateStructured({
+    label: `generate/template:${template.name}`,
+    system: `${GENERATION_SYSTEM}${
+      template.description ? ` You are writing a ${template.name}: ${template.description}` : ''
+    }\n\nYou MUST call the ${tool.name} tool with the artifact.`,
+    prompt,
+    tool,
+    validate: (input) => validateTemplateContent(template, input),
+    progress,
+  });
+
+  return { title: deriveArtifactTitle('custom', value, template.name), content: value };
+}
+
+async function loadReferenceCandidates(
+  token: string,
+  apiKey: string,
+  contentTypeUids: string[]
+): Promise<ReferenceCandidate[]> {
+  const lists = await Promise.all(
+    contentTypeUids.map(async (ctUid) => {
+      try {
+        const { entries } = await listEntries(token, apiKey, ctUid, { limit: REFERENCE_CANDIDATE_LIMIT });
+        return entries.map((e) => ({ uid: e.uid, title: e.title, content_type_uid: ctUid }));
+      } catch (err) {
+        console.error(`[artifact-generation] Could not load ${ctUid} entries for references:`, err);
+        return [];
+      }
+    })
+  );
+  return lists.flat();
+}
+
+/** Generate a cms_entry whose fields match a specific content type in a stack. */
+export async function generateEntryForContentType(options: {
+  sparkId: string;
+  token: string;
+  stackApiKey: string;
+  stackName?: string | null;
+  contentTypeUid: string;
+  instructions?: string;
+  progress?: GenerationProgress;
+}): Promise<{ title: string; content: Record<string, unknown>; schema: ArtifactSchemaSource }> {
+  const { sparkId, token, stackApiKey, contentTypeUid, instructions, progress } = options;
+
+  progress?.onStatus?.('Loading content type schema...');
+  const contentType = await getContentTypeSchema(token, stackApiKey, contentTypeUid);
+  progress?.onStatus?.('Loading Spark items and reference entries...');
+  const [candidates, context] = await Promise.all([
+    loadReferenceCandidates(token, stackApiKey, referencedContentTypes(contentType.schema)),
+    loadSparkContext(sparkId),
+  ]);
+
+  const toolName = 'submit_entry';
+  let prompt = `Write a "${contentType.title}" entry using the information collected in this Spark.
+
+<spark_items>
+${context}
+</spark_items>
+
+Fill every field you have material for; required fields must always be filled. Only reference entries from the allowed lists. Do not make up information not present in the Spark items.`;
+  if (instructions) {
+    prompt += `\n\nAdditional instructions from the user: ${instructions}`;
+  }
+
+  const { value } = await generateStructured({
+    label: `generate/cms_entry:${contentTypeUid}`,
+    system: `You are a content author for a Contentstack website. You write entries that fit the content model exactly.${
+      contentType.description ? ` Content type description: ${contentType.description}` : ''
+    }\n\nYou MUST call the ${toolName} tool with the entry.`,
+    prompt,
+    tool: {
+      name: toolName,
+      description: `Submit a complete ${contentType.title} entry matching the content type's fields.`,
+      input_schema: contentTypeToJsonSchema(contentType.schema, candidates),
+    },
+    validate: (input) => validateEntry(input, contentType.schema, candidates),
+    progress,
+  });
+
+  return {
+    title: (value.title as string) || `Generated ${contentType.title}`,
+    content: { content_type: contentTypeUid, fields: value },
+    schema: {
+      stack_api_key: stackApiKey,
+      stack_name: options.stackName ?? null,
+      content_type_uid: contentTypeUid,
+      content_type_title: contentType.title,
+    },
+  };
+}
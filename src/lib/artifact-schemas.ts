@@ -0,0 +1,186 @@
+/**
+ * Zod schemas for each ArtifactType.
+ *
+ * One schema per type is the single source of truth for generated content:
+ * artifactTool() turns it into the input_schema of a forced tool call, and
+ * validateArtifactContent() checks what the model (or an edit) produced
+ * against the same schema, so saved artifacts always match
+ * CmsEntryContent / CampaignBriefContent.
+ *
+ * User-defined templates carry a plain JSON Schema instead; it is used as
+ * the tool input_schema as-is and compiled with z.fromJSONSchema to
+ * validate, so both kinds go through the same repair loop.
+ */
+
+import { z } from 'zod';
+import type Anthropic from '@anthropic-ai/sdk';
+import type { Validation } from './structured-output';
+import type {
+  ArtifactTemplateSnapshot,
+  ArtifactType,
+  CampaignBriefContent,
+  CmsEntryContent,
+  GeneratedArtifact,
+} from './types';
+
+const text = (description: string) => z.string().trim().min(1).describe(description);
+const list = (description: string, min = 1) => z.array(z.string().trim().min(1)).min(min).describe(description);
+
+export const cmsEntrySchema = z.object({
+  content_type: z.literal('webpage').describe('Always "webpage"'),
+  fields: z.looseObject({
+    title: text('Page title'),
+    url: z
+      .string()
+      .regex(/^\/[a-z0-9\-/]*$/, 'must be a lowercase URL path starting with /')
+      .describe('Suggested URL slug, e.g. /product-launch'),
+    body: text(
+      'Full HTML body built from the collected information, well structured with headings (h2/h3), paragraphs and lists'
+    ),
+    seo_title: z.string().max(70).optional().describe('SEO-optimized title (50-60 chars)'),
+    seo_description: z.string().max(200).optional().describe('SEO meta description (150-160 chars)'),
+    seo_keywords: z.array(z.string()).optional().describe('3-8 SEO keywords'),
+  }),
+}) satisfies z.ZodType<CmsEntryContent>;
+
+export const campaignBriefSchema = z.looseObject({
+  campaign_name: text('Campaign name'),
+  objective: text('Clear campaign objective'),
+  target_audience: text('Detailed target audience description'),
+  key_messages: list('3-5 key messages'),
+  channels: list('Marketing channels to use'),
+  timeline: text('Proposed timeline'),
+  budget_notes: z.string().optional().describe('Budget considerations'),
+  kpis: list('3-5 measurable KPIs'),
+  creative_direction: text('Creative direction and tone'),
+  brand_guidelines: z.string().optional().describe('Key brand guidelines to follow'),
+}) satisfies z.ZodType<CampaignBriefContent>;
+
+// Custom documents are shaped by the user's instructions — only a title is fixed
+export const customArtifactSchema = z.looseObject({
+  title: text('Document title'),
+});
+
+export const ARTIFACT_SCHEMAS = {
+  cms_entry: cmsEntrySchema,
+  campaign_brief: campaignBriefSchema,
+  custom: customArtifactSchema,
+} satisfies Record<ArtifactType, z.ZodType<Record<string, unknown>>>;
+
+const TOOL_DESCRIPTIONS: Record<ArtifactType, string> = {
+  cms_entry: 'Submit the Contentstack webpage entry.',
+  campaign_brief: 'Submit the complete campaign brief.',
+  custom: 'Submit the business document as a JSON object. Include a title plus whatever fields the request calls for.',
+};
+
+/** Anthropic tool whose input_schema is the type's zod schema. */
+export function artifactTool(type: ArtifactType): Anthropic.Tool {
+  const inputSchema = z.toJSONSchema(ARTIFACT_SCHEMAS[type], { target: 'draft-7', io: 'input' });
+  delete inputSchema.$schema;
+  return {
+    name: `submit_${type}`,
+    description: TOOL_DESCRIPTIONS[type],
+    input_schema: inputSchema as Anthropic.Tool['input_schema'],
+  };
+}
+
+/** Flatten zod issues into "path: message" lines the model can act on. */
+export function formatZodIssues(error: z.ZodError): string[] {
+  return error.issues.map((issue) => {
+    const path = issue.path.length > 0 ? issue.path.join('.') : '(root)';
+    return `${path}: ${issue.message}`;
+  });
+}
+
+export function validateArtifactContent(
+  type: ArtifactType,
+  content: unknown
+): Validation<Record<string, unknown>> {
+  const result = ARTIFACT_SCHEMAS[type].safeParse(content);
+  return result.success
+    ? { ok: true, value: result.data }
+    : { ok: false, errors: formatZodIssues(result.error) };
+}
+
+// ─── Template schemas ──────────────────────────
+
+/**
+ * Compile a template's JSON Schema. Returns the problems instead of
+ * throwing so template CRUD can report them.
+ */
+export function compileOutputSchema(
+  outputSchema: unknown
+): { ok: true; schema: z.ZodType } | { ok: false; errors: string[] } {
+  if (!outputSchema || typeof outputSchema !== 'object' || Array.isArray(outputSchema)) {
+    return { ok: false, errors: ['output_schema must be a JSON Schema object'] };
+  }
+  const root = outputSchema as Record<string, unknown>;
+  if (root.type !== 'object' || !root.properties || typeof root.properties !== 'object') {
+    return { ok: false, errors: ['output_schema must have type "object" and properties'] };
+  }
+  try {
+    return { ok: true, schema: z.fromJSONSchema(root as Parameters<typeof z.fromJSONSchema>[0]) };
+  } catch (err) {
+    return { ok: false, errors: [`output_schema is not valid: ${err instanceof Error ? err.message : String(err)}`] };
+  }
+}
+
+export function templateTool(template: Pick<ArtifactTemplateSnapshot, 'name' | 'output_schema'>): Anthropic.Tool {
+  return {
+    name: 'submit_artifact',
+    description: `Submit the complete ${template.name}.`,
+    input_schema: template.output_schema as Anthropic.Tool['input_schema'],
+  };
+}
+
+export function validateTemplateContent(
+  template: Pick<ArtifactTemplateSnapshot, 'output_schema'>,
+  content: unknown
+): Validation<Record<string, unknown>> {
+  const compiled = compileOutputSchema(template.output_schema);
+  if (!compiled.ok) return compiled;
+  const result = compiled.schema.safeParse(content);
+  if (!result.success) return { ok: false, errors: formatZodIssues(result.error) };
+  if (!result.data || typeof result.data !== 'object' || Array.isArray(result.data)) {
+    return { ok: false, errors: ['(root): expected an object'] };
+  }
+  return { ok: true, value: result.data as Record<string, unknown> };
+}
+
+// ─── Stored artifacts ──────────────────────────
+
+/**
+ * Check new content for an existing artifact against whatever schema it
+ * was generated with. Entries generated against a real content type
+ * follow that content type instead (see contentstack/schema-output), and
+ * artifacts saved before validation existed may still hold unparsed
+ * raw_content — both are passed through unchanged.
+ *
+ * Older artifacts can already break their schema (saved before it was
+ * enforced, or before it changed). For those only problems the edit
+ * introduces are reported, so they stay editable.
+ */
+export function validateArtifactUpdate(
+  artifact: Pick<GeneratedArtifact, 'type' | 'content' | 'metadata'>,
+  content: Record<string, unknown>
+): Validation<Record<string, unknown>> {
+  const next = validateStoredShape(artifact, content);
+  if (next.ok) return next;
+
+  const before = validateStoredShape(artifact, artifact.content as Record<string, unknown>);
+  if (before.ok) return next;
+
+  const existing = new Set(before.errors);
+  const introduced = next.errors.filter((error) => !existing.has(error));
+  return introduced.length > 0 ? { ok: false, errors: introduced } : { ok: true, value: content };
+}
+
+function validateStoredShape(
+  artifact: Pick<GeneratedArtifact, 'type' | 'content' | 'metadata'>,
+  content: Record<string, unknown>
+): Validation<Record<string, unknown>> {
+  const template = artifact.metadata?.template as ArtifactTemplateSnapshot | undefined;
+  if (template) return validateTemplateContent(template, content);
+  if (artifact.metadata?.schema || 'raw_content' in artifact.content) return { ok: true, value: content };
+  return validateArtifactContent(artifact.type, content);
+}
@@ -0,0 +1,118 @@
+/**
+ * User-defined artifact templates.
+ *
+ * A template is a prompt, a JSON Schema for its output and a render
+ * layout. The schema is checked when the template is saved so generation
+ * never starts from a schema the model (or z.fromJSONSchema) can't use.
+ */
+
+import { compileOutputSchema } from './artifact-schemas';
+import type {
+  ArtifactTemplate,
+  ArtifactTemplateSnapshot,
+  TemplateLayoutFormat,
+  TemplateLayoutSection,
+} from './types';
+
+const NAME_MAX = 100;
+const PROMPT_MAX = 20_000;
+const LAYOUT_FORMATS: TemplateLayoutFormat[] = ['heading', 'text', 'markdown', 'list', 'quote'];
+
+export type TemplateInput = Pick<ArtifactTemplate, 'name' | 'description' | 'prompt' | 'output_schema' | 'layout'>;
+
+/** One section per top-level property: arrays as lists, everything else as text. */
+export function defaultLayout(outputSchema: Record<string, unknown>): TemplateLayoutSection[] {
+  const properties = (outputSchema.properties || {}) as Record<string, Record<string, unknown>>;
+  return Object.entries(properties).map(([field, prop]) => ({
+    field,
+    format: prop?.type === 'array' ? 'list' : 'text',
+  }));
+}
+
+function validateLayout(layout: unknown, outputSchema: Record<string, unknown>, errors: string[]): TemplateLayoutSection[] {
+  if (!Array.isArray(layout)) {
+    errors.push('layout must be an array of sections');
+    return [];
+  }
+  const properties = (outputSchema.properties || {}) as Record<string, unknown>;
+  return layout.flatMap((section, i) => {
+    const s = section as Partial<TemplateLayoutSection> | null;
+    if (!s || typeof s.field !== 'string' || !s.field.trim()) {
+      errors.push(`layout[${i}].field is required`);
+      return [];
+    }
+    const field = s.field.trim();
+    if (!(field.split('.')[0] in properties)) {
+      errors.push(`layout[${i}].field "${field}" is not a property of output_schema`);
+    }
+    if (!LAYOUT_FORMATS.includes(s.format as TemplateLayoutFormat)) {
+      errors.push(`layout[${i}].format must be one of: ${LAYOUT_FORMATS.join(', ')}`);
+    }
+    return [
+      {
+        field,
+        format: s.format as TemplateLayoutFormat,
+        ...(typeof s.label === 'string' && s.label.trim() ? { label: s.label.trim() } : {}),
+      },
+    ];
+  });
+}
+
+/**
+ * Validate a create (all fields) or update (`existing` given, any subset)
+ * request body. An omitted layout on create falls back to defaultLayout.
+ */
+export function parseTemplateInput(
+  body: Record<string, unknown>,
+  existing?: ArtifactTemplate
+): { ok: true; value: TemplateInput } | { ok: false; errors: string[] } {
+  const errors: string[] = [];
+  const pick = <K extends keyof TemplateInput>(key: K): unknown =>
+    body[key] !== undefined ? body[key] : existing?.[key];
+
+  const name = typeof pick('name') === 'string' ? (pick('name') as string).trim() : '';
+  if (!name) errors.push('name is required');
+  else if (name.length > NAME_MAX) errors.push(`name must be at most ${NAME_MAX} characters`);
+
+  const prompt = typeof pick('prompt') === 'string' ? (pick('prompt') as string).trim() : '';
+  if (!prompt) errors.push('prompt is required');
+  else if (prompt.length > PROMPT_MAX) errors.push(`prompt must be at most ${PROMPT_MAX} characters`);
+
+  const description = pick('description');
+  if (description != null && typeof description !== 'string') errors.push('description must be a string');
+
+  const outputSchema = pick('output_schema');
+  const compiled = compileOutputSchema(outputSchema);
+  if (!compiled.ok) {
+    errors.push(...compiled.errors);
+    return { ok: false, errors };
+  }
+  const schema = outputSchema as Record<string, unknown>;
+
+  const rawLayout = pick('layout');
+  const layout =
+    rawLayout === undefined || (Array.isArray(rawLayout) && rawLayout.length === 0)
+      ? defaultLayout(schema)
+      : validateLayout(rawLayout, schema, errors);
+
+  if (errors.length > 0) return { ok: false, errors };
+  return {
+    ok: true,
+    value: {
+      name,
+      description: typeof description === 'string' && description.trim() ? description.trim() : null,
+      prompt,
+      output_schema: schema,
+      layout,
+    },
+  };
+}
+
+export function templateSnapshot(template: ArtifactTemplate): ArtifactTemplateSnapshot {
+  return {
+    id: template.id,
+    name: template.name,
+    output_schema: template.output_schema,
+    layout: template.layout,
+  };
+}
@@ -0,0 +1,129 @@
+/**
+ * Artifact version history.
+ *
+ * `generated_artifacts` holds the latest title + content of each artifact;
+ * `artifact_versions` keeps an immutable snapshot of every change so earlier
+ * drafts can be compared and restored. All writes to an artifact's content
+ * go through saveArtifactVersion so the two never drift apart.
+ */
+
+import { supabaseAdmin } from './supabase/admin';
+import type { ArtifactType, ArtifactVersion, ArtifactVersionSource, GeneratedArtifact } from './types';
+
+// Postgres unique_violation — another writer claimed the version number first
+const UNIQUE_VIOLATION = '23505';
+const MAX_ATTEMPTS = 3;
+
+/** Pick a display title from generated content, falling back to the type name (or an existing title). */
+export function deriveArtifactTitle(
+  type: ArtifactType,
+  content: Record<string, unknown>,
+  fallback: string = `Generated ${type.replace('_', ' ')}`
+): string {
+  return (
+    (content.campaign_name as string) ||
+    ((content.fields as Record<string, unknown>)?.title as string) ||
+    (typeof content.title === 'string' ? content.title : '') ||
+    fallback
+  );
+}
+
+/** Parse the JSON object out of an agent response (which may be wrapped in a markdown code block). */
+export function parseAgentJson(response: string): Record<string, unknown> | null {
+  const jsonMatch = response.match(/```(?:json)?\s*([\s\S]*?)```/) || [null, response];
+  const jsonStr = jsonMatch[1]?.trim() || response;
+  try {
+    const parsed = JSON.parse(jsonStr);
+    return typeof parsed === 'object' && parsed !== null && !Array.isArray(parsed) ? parsed : null;
+  } catch {
+    return null;
+  }
+}
+
+/** Record version 1 for a freshly generated artifact. */
+export async function recordInitialArtifactVersion(
+  artifact: GeneratedArtifact,
+  userId: string | null
+): Promise<void> {
+  const { error } = await supabaseAdmin.from('artifact_versions').insert({
+    artifact_id: artifact.id,
+    version_number: 1,
+    title: artifact.title,
+    content: artifact.content,
+    source: 'generate',
+    created_by: userId,
+  });
+  if (error) {
+    console.error('[artifact-versions] Failed to record initial version:', error.message);
+  }
+}
+
+/**
+ * Append a new version and make it the artifact's current content.
+ * Version numbers come from the history table, so two concurrent edits
+ * can't both claim the same number — the loser retries with the next one.
+ */
+export async function saveArtifactVersion(
+  artifactId: string,
+  change: {
+    title: string;
+    content: Record<string, unknown>;
+    source: ArtifactVersionSource;
+    field?: string | null;
+    restoredFrom?: number | null;
+    userId: string | null;
+  }
+): Promise<{ artifact: GeneratedArtifact; version: ArtifactVersion } | { error: string }> {
+  for (let attempt = 0; attempt < MAX_ATTEMPTS; attempt++) {
+    const { data: latest } = await supabaseAdmin
+      .from('artifact_versions')
+      .select('version_number')
+      .eq('artifact_id', artifactId)
+      .order('version_number', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    const versionNumber = ((latest?.version_number as number | undefined) ?? 0) + 1;
+
+    const { data: version, error: versionError } = await supabaseAdmin
+      .from('artifact_versions')
+      .insert({
+        artifact_id: artifactId,
+        version_number: versionNumber,
+        title: change.title,
+        content: change.content,
+        source: change.source,
+        field: change.field ?? null,
+        restored_from: change.restoredFrom ?? null,
+        created_by: change.userId,
+      })
+      .select()
+      .single();
+
+    if (versionError?.code === UNIQUE_VIOLATION) continue;
+    if (versionError || !version) {
+      return { error: versionError?.message ?? 'Failed to record version' };
+    }
+
+    // Only move forward: if a later version landed first, it stays current
+    const { error: artifactError } = await supabaseAdmin
+      .from('generated_artifacts')
+      .update({ title: change.title, content: change.content, current_version: versionNumber })
+      .eq('id', artifactId)
+      .lt('current_version', versionNumber);
+
+    const { data: artifact } = await supabaseAdmin
+      .from('generated_artifacts')
+      .select('*')
+      .eq('id', artifactId)
+      .maybeSingle();
+
+    if (artifactError || !artifact) {
+      return { error: artifactError?.message ?? 'Artifact not found' };
+    }
+
+    return { artifact: artifact as GeneratedArtifact, version: version as ArtifactVersion };
+  }
+
+  return { error: 'Artifact was modified concurrently, please retry' };
+}
@@ -0,0 +1,123 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+type Row = Record<string, unknown>;
+
+const db = vi.hoisted(() => ({ tables: {} as Record<string, Row[]> }));
+const session = vi.hoisted(() => ({ current: null as { user_id: string; email: string; display_name: string } | null }));
+
+/** Just enough of the Supabase query builder for the lookups in auth.ts */
+vi.mock('@/lib/supabase/admin', () => ({
+  supabaseAdmin: {
+    from(table: string) {
+      const filters: [string, unknown][] = [];
+      const rows = () => (db.tables[table] ?? []).filter((row) => filters.every(([k, v]) => row[k] === v));
+      const query = {
+        select: () => query,
+        eq(column: string, value: unknown) {
+          filters.push([column, value]);
+          return query;
+        },
+        maybeSingle: async () => ({ data: rows()[0] ?? null, error: null }),
+        then: (resolve: (result: { data: Row[]; error: null }) => unknown) => resolve({ data: rows(), error: null }),
+      };
+      return query;
+    },
+  },
+}));
+
+vi.mock('@/lib/contentstack/oauth', () => ({
+  getSession: async () => session.current,
+}));
+
+import { getSparkRole, listAccessibleSparkIds, listSparkRoles, requireSparkAccess, roleAtLeast } from './auth';
+
+function signIn(userId: string | null) {
+  session.current = userId ? { user_id: userId, email: `${userId}@example.com`, display_name: userId } : null;
+}
+
+beforeEach(() => {
+  db.tables = {
+    sparks: [
+      { id: 'spark-own', owner_id: 'alice' },
+      { id: 'spark-shared', owner_id: 'bob' },
+      { id: 'spark-viewer', owner_id: 'bob' },
+      { id: 'spark-pending', owner_id: 'bob' },
+      { id: 'spark-private', owner_id: 'bob' },
+    ],
+    spark_members: [
+      { spark_id: 'spark-shared', user_id: 'alice', role: 'editor', status: 'accepted' },
+      { spark_id: 'spark-viewer', user_id: 'alice', role: 'viewer', status: 'accepted' },
+      { spark_id: 'spark-pending', user_id: 'alice', role: 'editor', status: 'pending' },
+      // A stale membership row never outranks ownership
+      { spark_id: 'spark-own', user_id: 'alice', role: 'viewer', status: 'accepted' },
+    ],
+  };
+  signIn('alice');
+});
+
+describe('roleAtLeast', () => {
+  it('orders viewer < editor < owner', () => {
+    expect(roleAtLeast('owner', 'editor')).toBe(true);
+    expect(roleAtLeast('editor', 'editor')).toBe(true);
+    expect(roleAtLeast('viewer', 'editor')).toBe(false);
+    expect(roleAtLeast('editor', 'owner')).toBe(false);
+  });
+});
+
+describe('getSparkRole', () => {
+  it('resolves owners, accepted members and strangers', async () => {
+    expect(await getSparkRole('spark-own', 'alice')).toBe('owner');
+    expect(await getSparkRole('spark-shared', 'alice')).toBe('editor');
+    expect(await getSparkRole('spark-pending', 'alice')).toBeNull();
+    expect(await getSparkRole('spark-private', 'alice')).toBeNull();
+  });
+
+  it('returns null for a missing Spark even with a membership row', async () => {
+    db.tables.sparks = db.tables.sparks.filter((s) => s.id !== 'spark-shared');
+    expect(await getSparkRole('spark-shared', 'alice')).toBeNull();
+  });
+});
+
+describe('requireSparkAccess', () => {
+  it('responds 401 without a session', async () => {
+    signIn(null);
+    const access = await requireSparkAccess('spark-own');
+    expect(access.ok).toBe(false);
+    if (!access.ok) expect(access.response.status).toBe(401);
+  });
+
+  it('responds 404 for Sparks the user cannot see', async () => {
+    for (const id of ['spark-private', 'spark-pending', 'no-such-spark']) {
+      const access = await requireSparkAccess(id);
+      expect(access.ok).toBe(false);
+      if (!access.ok) expect(access.response.status).toBe(404);
+    }
+  });
+
+  it('responds 403 when the role is too low', async () => {
+    const access = await requireSparkAccess('spark-viewer', 'editor');
+    expect(access.ok).toBe(false);
+    if (!access.ok) expect(access.response.status).toBe(403);
+  });
+
+  it('grants access with the resolved role', async () => {
+    const access = await requireSparkAccess('spark-shared', 'editor');
+    expect(access).toMatchObject({ ok: true, sparkId: 'spark-shared', role: 'editor', user: { id: 'alice' } });
+  });
+});
+
+describe('listSparkRoles', () => {
+  it('lists owned and accepted Sparks, with ownership winning', async () => {
+    const roles = await listSparkRoles('alice');
+    expect(Object.fromEntries(roles)).toEqual({
+      'spark-own': 'owner',
+      'spark-shared': 'editor',
+      'spark-viewer': 'viewer',
+    });
+  });
+
+  it('backs listAccessibleSparkIds', async () => {
+    expect((await listAccessibleSparkIds('alice')).sort()).toEqual(['spark-own', 'spark-shared', 'spark-viewer']);
+    expect(await listAccessibleSparkIds('carol')).toEqual([]);
+  });
+});
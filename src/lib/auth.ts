@@ -0,0 +1,323 @@
+import { NextResponse } from 'next/server';
+import { supabaseAdmin } from '@/lib/supabase/admin';
+import { getSession } from '@/lib/contentstack/oauth';
+import type { ArtifactTemplate, SparkRole } from '@/lib/types';
+
+// ============================================
+// Per-user identity + Spark role checks
+// ============================================
+
+const ROLE_RANK: Record<SparkRole, number> = { viewer: 0, editor: 1, owner: 2 };
+
+/** True if `role` grants everything `minRole` does. */
+export function roleAtLeast(role: SparkRole, minRole: SparkRole): boolean {
+  return ROLE_RANK[role] >= ROLE_RANK[minRole];
+}
+
+export interface CurrentUser {
+  id: string;
+  email: string;
+  display_name: string;
+  /** Contentstack organization — the workspace shared resources are scoped to */
+  organization_uid: string | null;
+}
+
+type AccessResult<T> =
+  | ({ ok: true; user: CurrentUser } & T)
+  | { ok: false; response: NextResponse };
+
+/**
+ * Create or refresh the `users` row for a Contentstack identity.
+ * Called from the OAuth callback so the session cookie can carry our user id.
+ */
+export async function upsertUser(userInfo: {
+  uid?: string;
+  email: string;
+  display_name: string;
+  organization_uid?: string;
+}): Promise<string> {
+  const { data, error } = await supabaseAdmin
+    .from('users')
+    .upsert(
+      {
+        email: userInfo.email,
+        cs_user_uid: userInfo.uid ?? null,
+        display_name: userInfo.display_name,
+        organization_uid: userInfo.organization_uid ?? null,
+        last_login_at: new Date().toISOString(),
+      },
+      { onConflict: 'email' }
+    )
+    .select('id')
+    .single();
+
+  if (error || !data) {
+    throw new Error(`Failed to upsert user: ${error?.message ?? 'no row returned'}`);
+  }
+
+  return data.id as string;
+}
+
+/** Resolve the signed-in user from the Contentstack session cookie, or null. */
+export async function getCurrentUser(): Promise<CurrentUser | null> {
+  const session = await getSession();
+  if (!session) return null;
+
+  // Sessions issued before the users table existed carry no user_id —
+  // resolve (and create) the row from the session identity instead.
+  const id = session.user_id || (await upsertUser({
+    uid: session.cs_user_uid,
+    email: session.email,
+    display_name: session.display_name,
+    organization_uid: session.organization_uid,
+  }).catch(() => null));
+  if (!id) return null;
+
+  return {
+    id,
+    email: session.email,
+    display_name: session.display_name,
+    organization_uid: session.organization_uid ?? null,
+  };
+}
+
+/** Require a signed-in user. Returns a 401 response otherwise. */
+export async function requireUser(): Promise<AccessResult<object>> {
+  const user = await getCurrentUser();
+  if (!user) {
+    return {
+      ok: false,
+      response: NextResponse.json({ error: 'Not authenticated' }, { status: 401 }),
+    };
+  }
+  return { ok: true, user };
+}
+
+/**
+ * The user's role on a Spark: the owner_id column always means 'owner',
+ * otherwise the role from an accepted spark_members row. Null = no access.
+ */
+export async function getSparkRole(sparkId: string, userId: string): Promise<SparkRole | null> {
+  const [sparkResult, memberResult] = await Promise.all([
+    supabaseAdmin.from('sparks').select('owner_id').eq('id', sparkId).maybeSingle(),
+    supabaseAdmin
+      .from('spark_members')
+      .select('role')
+      .eq('spark_id', sparkId)
+      .eq('user_id', userId)
+      .eq('status', 'accepted')
+      .maybeSingle(),
+  ]);
+
+  if (!sparkResult.data) return null;
+  if (sparkResult.data.owner_id === userId) return 'owner';
+  return (memberResult.data?.role as SparkRole | undefined) ?? null;
+}
+
+/**
+ * Require that the signed-in user holds at least `minRole` on the Spark.
+ * Responds 404 (not 403) for Sparks the caller cannot see so IDs don't leak;
+ * 403 when they can see it but their role is too low.
+ */
+export async function requireSparkAccess(
+  sparkId: string,
+  minRole: SparkRole = 'viewer'
+): Promise<AccessResult<{ sparkId: string; role: SparkRole }>> {
+  const auth = await requireUser();
+  if (!auth.ok) return auth;
+
+  const role = await getSparkRole(sparkId, auth.user.id);
+
+  if (!role) {
+    return {
+      ok: false,
+      response: NextResponse.json({ error: 'Spark not found' }, { status: 404 }),
+    };
+  }
+
+  if (!roleAtLeast(role, minRole)) {
+    return {
+      ok: false,
+      response: NextResponse.json(
+        { error: `This action requires the ${minRole} role on this Spark` },
+        { status: 403 }
+      ),
+    };
+  }
+
+  return { ok: true, user: auth.user, sparkId, role };
+}
+
+/** Resolve a spark_items row to its Spark and check access. */
+export async function requireItemAccess(
+  itemId: string,
+  minRole: SparkRole = 'viewer'
+): Promise<AccessResult<{ sparkId: string; role: SparkRole }>> {
+  const { data: item } = await supabaseAdmin
+    .from('spark_items')
+    .select('spark_id')
+    .eq('id', itemId)
+    .maybeSingle();
+
+  if (!item) {
+    return {
+      ok: false,
+      response: NextResponse.json({ error: 'Item not found' }, { status: 404 }),
+    };
+  }
+
+  return requireSparkAccess(item.spark_id as string, minRole);
+}
+
+/** Resolve a chat_sessions row to its Spark and check access. */
+export async function requireChatSessionAccess(
+  sessionId: string,
+  minRole: SparkRole = 'viewer'
+): Promise<AccessResult<{ sparkId: string; role: SparkRole }>> {
+  const { data: session } = await supabaseAdmin
+    .from('chat_sessions')
+    .select('spark_id')
+    .eq('id', sessionId)
+    .maybeSingle();
+
+  if (!session) {
+    return {
+      ok: false,
+      response: NextResponse.json({ error: 'Session not found' }, { status: 404 }),
+    };
+  }
+
+  return requireSparkAccess(session.spark_id as string, minRole);
+}
+
+/** Resolve a generated_artifacts row to its Spark and check access. */
+export async function requireArtifactAccess(
+  artifactId: string,
+  minRole: SparkRole = 'viewer'
+): Promise<AccessResult<{ sparkId: string; role: SparkRole }>> {
+  const { data: artifact } = await supabaseAdmin
+    .from('generated_artifacts')
+    .select('spark_id')
+    .eq('id', artifactId)
+    .maybeSingle();
+
+  if (!artifact) {
+    return {
+      ok: false,
+      response: NextResponse.json({ error: 'Artifact not found' }, { status: 404 }),
+    };
+  }
+
+  return requireSparkAccess(artifact.spark_id as string, minRole);
+}
+
+/** Resolve a generation_jobs row to its Spark and check access. */
+export async function requireGenerationJobAccess(
+  jobId: string,
+  minRole: SparkRole = 'viewer'
+): Promise<AccessResult<{ sparkId: string; role: SparkRole }>> {
+  const { data: job } = await supabaseAdmin
+    .from('generation_jobs')
+    .select('spark_id')
+    .eq('id', jobId)
+    .maybeSingle();
+
+  if (!job) {
+    return {
+      ok: false,
+      response: NextResponse.json({ error: 'Job not found' }, { status: 404 }),
+    };
+  }
+
+  return requireSparkAccess(job.spark_id as string, minRole);
+}
+
+/**
+ * Require access to a background job through its Spark. Jobs without a
+ * Spark (e.g. Slack tasks) are internal and never visible.
+ */
+export async function requireJobAccess(
+  jobId: string,
+  minRole: SparkRole = 'viewer'
+): Promise<AccessResult<{ sparkId: string; role: SparkRole }>> {
+  const { data: job } = await supabaseAdmin
+    .from('jobs')
+    .select('spark_id')
+    .eq('id', jobId)
+    .maybeSingle();
+
+  if (!job?.spark_id) {
+    return {
+      ok: false,
+      response: NextResponse.json({ error: 'Job not found' }, { status: 404 }),
+    };
+  }
+
+  return requireSparkAccess(job.spark_id as string, minRole);
+}
+
+// ============================================
+// Workspace-scoped resources
+// ============================================
+
+/**
+ * PostgREST filter matching rows in the user's workspace: shared rows of
+ * their organization plus their own personal (workspace_uid null) rows.
+ */
+export function workspaceFilter(user: CurrentUser): string {
+  const personal = `and(workspace_uid.is.null,created_by.eq.${user.id})`;
+  return user.organization_uid ? `workspace_uid.eq.${user.organization_uid},${personal}` : personal;
+}
+
+/**
+ * Require that an artifact template belongs to the signed-in user's
+ * workspace. Everyone in the workspace can use and edit its templates.
+ */
+export async function requireTemplateAccess(
+  templateId: string
+): Promise<AccessResult<{ template: ArtifactTemplate }>> {
+  const auth = await requireUser();
+  if (!auth.ok) return auth;
+
+  const { data: template } = await supabaseAdmin
+    .from('artifact_templates')
+    .select('*')
+    .eq('id', templateId)
+    .or(workspaceFilter(auth.user))
+    .maybeSingle();
+
+  if (!template) {
+    return {
+      ok: false,
+      response: NextResponse.json({ error: 'Template not found' }, { status: 404 }),
+    };
+  }
+
+  return { ok: true, user: auth.user, template: template as ArtifactTemplate };
+}
+
+/** The user's role on every Spark they can see — owned plus accepted memberships. */
+export async function listSparkRoles(userId: string): Promise<Map<string, SparkRole>> {
+  const [ownedResult, memberResult] = await Promise.all([
+    supabaseAdmin.from('sparks').select('id').eq('owner_id', userId),
+    supabaseAdmin
+      .from('spark_members')
+      .select('spark_id, role')
+      .eq('user_id', userId)
+      .eq('status', 'accepted'),
+  ]);
+
+  const roles = new Map<string, SparkRole>();
+  for (const m of memberResult.data || []) {
+    roles.set(m.spark_id as string, m.role as SparkRole);
+  }
+  for (const s of ownedResult.data || []) {
+    roles.set(s.id as string, 'owner');
+  }
+  return roles;
+}
+
+/** IDs of every Spark the user can see — for list endpoints. */
+export async function listAccessibleSparkIds(userId: string): Promise<string[]> {
+  return [...(await listSparkRoles(userId)).keys()];
+}
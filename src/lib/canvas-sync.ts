@@ -0,0 +1,163 @@
+/**
+ * Turns canvas state changes into row writes.
+ *
+ * The canvas component reports whole CanvasState objects. The Spark page
+ * keeps the last state the server confirmed, diffs the current state
+ * against it, and writes only the rows that changed — each with the
+ * version it was based on, so a concurrent change conflicts instead of
+ * being overwritten. Pure functions — used in the browser.
+ */
+
+import type { CanvasGroup, CanvasNodePosition, CanvasState } from './types';
+
+export interface CanvasGroupUpdate {
+  id: string;
+  /** PATCH body: the saved version plus only the fields that changed */
+  body: {
+    version: number;
+    name?: string;
+    color?: string;
+    itemIds?: string[];
+    sessionId?: string | null;
+  };
+}
+
+export interface CanvasChanges {
+  /** Items with no saved position yet */
+  placed: CanvasNodePosition[];
+  /** Saved positions that moved, carrying the saved version */
+  moved: (CanvasNodePosition & { version: number })[];
+  createdGroups: CanvasGroup[];
+  updatedGroups: CanvasGroupUpdate[];
+  deletedGroupIds: string[];
+}
+
+function sameIds(a: string[], b: string[]): boolean {
+  return a.length === b.length && a.every((id, i) => id === b[i]);
+}
+
+export function diffCanvasState(saved: CanvasState, next: CanvasState): CanvasChanges {
+  const savedNodes = new Map(saved.nodePositions.map((node) => [node.itemId, node]));
+  const savedGroups = new Map(saved.groups.map((group) => [group.id, group]));
+  const nextGroupIds = new Set(next.groups.map((group) => group.id));
+
+  const changes: CanvasChanges = { placed: [], moved: [], createdGroups: [], updatedGroups: [], deletedGroupIds: [] };
+
+  for (const node of next.nodePositions) {
+    const before = savedNodes.get(node.itemId);
+    if (!before || before.version === undefined) {
+      changes.placed.push({ itemId: node.itemId, x: node.x, y: node.y });
+    } else if (before.x !== node.x || before.y !== node.y) {
+      changes.moved.push({ itemId: node.itemId, x: node.x, y: node.y, version: before.version });
+    }
+  }
+
+  for (const group of next.groups) {
+    const before = savedGroups.get(group.id);
+    if (!before || before.version === undefined) {
+      changes.createdGroups.push(group);
+      continue;
+    }
+    const body: CanvasGroupUpdate['body'] = { version: before.version };
+    if (group.name !== before.name) body.name = group.name;
+    if (group.color !== before.color) body.color = group.color;
+    if (!sameIds(group.itemIds, before.itemIds)) body.itemIds = group.itemIds;
+    if ((group.sessionId ?? null) !== (before.sessionId ?? null)) body.sessionId = group.sessionId ?? null;
+    if (Object.keys(body).length > 1) changes.updatedGroups.push({ id: group.id, body });
+  }
+
+  for (const group of saved.groups) {
+    if (!nextGroupIds.has(group.id)) changes.deletedGroupIds.push(group.id);
+  }
+
+  return changes;
+}
+
+export function hasCanvasChanges(changes: CanvasChanges): boolean {
+  return (
+    changes.placed.length > 0 ||
+    changes.moved.length > 0 ||
+    changes.createdGroups.length > 0 ||
+    changes.updatedGroups.length > 0 ||
+    changes.deletedGroupIds.length > 0
+  );
+}
+
+export interface CanvasRows {
+  nodes?: CanvasNodePosition[];
+  groups?: CanvasGroup[];
+  removedGroupIds?: string[];
+}
+
+/**
+ * Fold server rows into a canvas state. 'replace' takes the server's values
+ * (adding rows that are missing) — for the confirmed state and for conflicts.
+ * 'version' only copies versions onto rows that are still there, keeping any
+ * local edits made while the write was in flight.
+ */
+export function applyCanvasRows(state: CanvasState, rows: CanvasRows, mode: 'replace' | 'version'): CanvasState {
+  const nodes = new Map((rows.nodes ?? []).map((node) => [node.itemId, node]));
+  const groups = new Map((rows.groups ?? []).map((group) => [group.id, group]));
+  const removed = new Set(rows.removedGroupIds ?? []);
+
+  const merge = <T extends { version?: number }>(current: T, incoming: T | undefined): T =>
+    !incoming ? current : mode === 'replace' ? incoming : { ...current, version: incoming.version };
+
+  const nodePositions = state.nodePositions.map((node) => merge(node, nodes.get(node.itemId)));
+  const mergedGroups = state.groups
+    .filter((group) => !removed.has(group.id))
+    .map((group) => merge(group, groups.get(group.id)));
+
+  if (mode === 'replace') {
+    const knownNodes = new Set(state.nodePositions.map((node) => node.itemId));
+    const knownGroups = new Set(state.groups.map((group) => group.id));
+    nodePositions.push(...[...nodes.values()].filter((node) => !knownNodes.has(node.itemId)));
+    mergedGroups.push(...[...groups.values()].filter((group) => !knownGroups.has(group.id) && !removed.has(group.id)));
+  }
+
+  return { nodePositions, groups: mergedGroups };
+}
+
+/**
+ * Fold rows another client saved into the page's confirmed and local state.
+ * Rows no newer than the confirmed ones are ignored (echoes and reordered
+ * events). Local rows with unsaved edits keep the edits — the user's latest
+ * move wins when the debounced save runs.
+ */
+export function applyRemoteCanvasRows(
+  saved: CanvasState,
+  local: CanvasState,
+  rows: CanvasRows
+): { saved: CanvasState; local: CanvasState } {
+  const savedNodes = new Map(saved.nodePositions.map((node) => [node.itemId, node]));
+  const savedGroups = new Map(saved.groups.map((group) => [group.id, group]));
+  const isNewer = (row: { version?: number }, known: { version?: number } | undefined) =>
+    known?.version === undefined || (row.version ?? 0) > known.version;
+
+  const nodes = (rows.nodes ?? []).filter((node) => isNewer(node, savedNodes.get(node.itemId)));
+  const groups = (rows.groups ?? []).filter((group) => isNewer(group, savedGroups.get(group.id)));
+  const removedGroupIds = rows.removedGroupIds ?? [];
+
+  const pending = diffCanvasState(saved, local);
+  const editedNodes = new Set(pending.moved.map((node) => node.itemId));
+  const editedGroups = new Set(pending.updatedGroups.map((update) => update.id));
+
+  return {
+    saved: applyCanvasRows(saved, { nodes, groups, removedGroupIds }, 'replace'),
+    local: applyCanvasRows(
+      local,
+      {
+        nodes: nodes.filter((node) => !editedNodes.has(node.itemId)),
+        groups: groups.filter((group) => !editedGroups.has(group.id)),
+        removedGroupIds,
+      },
+      'replace'
+    ),
+  };
+}
+
+/** Drop the positions of deleted items (their rows are removed with the item). */
+export function withoutCanvasItems(state: CanvasState, itemIds: string[]): CanvasState {
+  const removed = new Set(itemIds);
+  return { ...state, nodePositions: state.nodePositions.filter((node) => !removed.has(node.itemId)) };
+}
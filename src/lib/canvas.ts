@@ -0,0 +1,115 @@
+/**
+ * Canvas state, stored as rows in `canvas_nodes` (one per positioned item)
+ * and `canvas_groups`. Rows are mapped to the CanvasState shape the canvas
+ * component works with; see canvas-sync.ts for how the browser turns state
+ * changes back into row writes.
+ */
+
+import { supabaseAdmin } from './supabase/admin';
+import type { CanvasGroup, CanvasNodePosition, CanvasState } from './types';
+
+export interface CanvasNodeRow {
+  item_id: string;
+  spark_id: string;
+  x: number;
+  y: number;
+  version: number;
+  updated_at: string;
+}
+
+export interface CanvasGroupRow {
+  id: string;
+  spark_id: string;
+  name: string;
+  color: string;
+  item_ids: string[];
+  session_id: string | null;
+  version: number;
+  created_at: string;
+  updated_at: string;
+}
+
+export const MAX_GROUP_NAME_LENGTH = 200;
+
+export function toCanvasNode(row: CanvasNodeRow): CanvasNodePosition {
+  return { itemId: row.item_id, x: row.x, y: row.y, version: row.version };
+}
+
+export function toCanvasGroup(row: CanvasGroupRow): CanvasGroup {
+  return {
+    id: row.id,
+    name: row.name,
+    itemIds: row.item_ids ?? [],
+    color: row.color,
+    createdAt: row.created_at,
+    sessionId: row.session_id,
+    version: row.version,
+  };
+}
+
+export async function loadCanvasState(sparkId: string): Promise<CanvasState> {
+  const [nodesResult, groupsResult] = await Promise.all([
+    supabaseAdmin.from('canvas_nodes').select('*').eq('spark_id', sparkId),
+    supabaseAdmin
+      .from('canvas_groups')
+      .select('*')
+      .eq('spark_id', sparkId)
+      .order('created_at', { ascending: true }),
+  ]);
+
+  if (nodesResult.error) throw new Error(nodesResult.error.message);
+  if (groupsResult.error) throw new Error(groupsResult.error.message);
+
+  return {
+    nodePositions: ((nodesResult.data ?? []) as CanvasNodeRow[]).map(toCanvasNode),
+    groups: ((groupsResult.data ?? []) as CanvasGroupRow[]).map(toCanvasGroup),
+  };
+}
+
+/** The subset of `itemIds` that are items of this Spark, in the given order. */
+export async function sparkItemIds(sparkId: string, itemIds: string[]): Promise<string[]> {
+  if (itemIds.length === 0) return [];
+  const { data } = await supabaseAdmin
+    .from('spark_items')
+    .select('id')
+    .eq('spark_id', sparkId)
+    .in('id', itemIds);
+  const valid = new Set((data ?? []).map((row) => row.id as string));
+  return itemIds.filter((id) => valid.has(id));
+}
+
+/** True if the chat session belongs to this Spark */
+export async function isSparkSession(sparkId: string, sessionId: string): Promise<boolean> {
+  const { data } = await supabaseAdmin
+    .from('chat_sessions')
+    .select('id')
+    .eq('id', sessionId)
+    .eq('spark_id', sparkId)
+    .maybeSingle();
+  return !!data;
+}
+
+/** Write a whole canvas into an empty Spark — used when importing a bundle. */
+export async function insertCanvasState(sparkId: string, canvas: CanvasState): Promise<void> {
+  if (canvas.nodePositions.length > 0) {
+    const { error } = await supabaseAdmin.from('canvas_nodes').insert(
+      canvas.nodePositions.map((node) => ({ item_id: node.itemId, spark_id: sparkId, x: node.x, y: node.y }))
+    );
+    if (error) throw new Error(`Failed to import canvas: ${error.message}`);
+  }
+
+  if (canvas.groups.length > 0) {
+    const { error } = await supabaseAdmin.from('canvas_groups').insert(
+      canvas.groups.map((group) => ({
+        spark_id: sparkId,
+        name: group.name,
+        color: group.color,
+        item_ids: group.itemIds,
+        session_id: group.sessionId ?? null,
+        created_at: group.createdAt,
+        updated_at: group.createdAt,
+      }))
+    );
+    if (error) throw new Error(`Failed to import canvas: ${error.message}`);
+  }
+}
@@ -0,0 +1,610 @@
+/**
+ * The chat RAG pipeline shared by POST /api/chat and the Slack `/spark ask`
+ * command: the analyst system prompt, the Spark tools Claude can call, and
+ * automatic retrieval of the most relevant items before the first turn.
+ */
+
+import Anthropic from '@anthropic-ai/sdk';
+import { supabaseAdmin } from './supabase/admin';
+import { generateQueryEmbedding, generateEmbedding, getEmbeddingProvider, saveEmbedding, buildResearchText } from './embeddings';
+import { scrapePage } from './scraper';
+import { hybridSearch } from './retrieval';
+import { addLogEntry } from './activity-logger';
+import type { VectorContextItem } from './types';
+
+const anthropic = new Anthropic();
+
+// Same model and turn budget as the streaming chat
+const CHAT_MODEL = 'claude-sonnet-4-6';
+const MAX_TURNS = 10;
+
+export const CHAT_SYSTEM_PROMPT = `You are the Spark analyst — a sharp, direct strategic advisor embedded in the Spark Foundry workspace. Your job is to evaluate ideas critically, surface genuine insights from the collected data, and push back when something does not hold up.
+
+## How you operate
+- Lead with your assessment. State your position, then support it with evidence from the Spark.
+- Be honest about weak ideas. If a campaign concept, content angle, or strategy has problems, say so directly and explain why. Do not soften bad news.
+- Keep it concise. Short paragraphs, no filler, no preamble. Get to the point.
+- Use the semantic_search tool to find relevant items before answering. Reference specific items by name.
+- Format in Markdown. No emojis.
+
+## Generating artifacts
+- Contentstack CMS entries: title, body, SEO metadata, and relevant fields.
+- Campaign Briefs: objective, target audience, key messages, channels, timeline, KPIs.
+
+## Citations
+- When your answer draws on Spark items, include a **Sources** section at the end.
+- Format: \`- **[Type] Title** — why it matters\`
+- For items with URLs: \`- **[Type] [Title](url)** — key point\`
+- For passages from documents (a \`passage_location\` such as p. 12 or slide 3), add it after the title: \`- **[Type] Title**, p. 12 — key point\`
+- Cite every item you relied on. Omit Sources only if the answer is purely from your own knowledge.
+
+## Web research
+- Use **web_search** for broad queries, **scrape_url** for deep reads of specific pages.
+- After researching, **always call save_web_research** to persist findings for future conversations.
+- Write a synthesized summary, not raw scraped text. Include source URLs.
+
+## Length
+Aim for 100-200 words. Only exceed this for full artifacts (campaign briefs, CMS entries). No bullet lists longer than 5 items. No introductory sentences — start with the substance.
+
+## Ending every response
+End with **Next steps** — 2-3 specific follow-up questions the user could ask next. Keep them short.`;
+
+// Tool definitions for the Anthropic API
+const TOOLS: Anthropic.Tool[] = [
+  {
+    name: 'semantic_search',
+    description: 'Search for items in the Spark using semantic similarity. Finds conceptually related items even without exact keyword matches. Use this as your primary search tool.',
+    input_schema: {
+      type: 'object' as const,
+      properties: {
+        query: { type: 'string', description: 'The natural language search query' },
+        spark_id: { type: 'string', description: 'The Spark ID to search in' },
+      },
+      required: ['query', 'spark_id'],
+    },
+  },
+  {
+    name: 'keyword_search',
+    description: 'Search for items by exact keyword or phrase match. Use when looking for a specific term.',
+    input_schema: {
+      type: 'object' as const,
+      properties: {
+        query: { type: 'string', description: 'The keyword or phrase to search for' },
+        spark_id: { type: 'string', description: 'The Spark ID to search in' },
+      },
+      required: ['query', 'spark_id'],
+    },
+  },
+  {
+    name: 'list_items',
+    description: 'List all items in the Spark. Use for a complete overview of everything collected.',
+    input_schema: {
+      type: 'object' as const,
+      properties: {
+        spark_id: { type: 'string', description: 'The Spark ID to list items from' },
+      },
+      required: ['spark_id'],
+    },
+  },
+  {
+    name: 'get_spark_details',
+    description: 'Get the Spark name, description, and metadata.',
+    input_schema: {
+      type: 'object' as const,
+      properties: {
+        spark_id: { type: 'string', description: 'The Spark ID' },
+      },
+      required: ['spark_id'],
+    },
+  },
+  {
+    name: 'scrape_url',
+    description: 'Deep-read a specific webpage to extract its full text content, title, and description. Use this when you need detailed content from a known URL.',
+    input_schema: {
+      type: 'object' as const,
+      properties: {
+        url: { type: 'string', description: 'The URL to scrape' },
+      },
+      required: ['url'],
+    },
+  },
+  {
+    name: 'save_web_research',
+    description: 'Save web research findings to the Spark for future reference. Always call this after completing web research to persist the findings.',
+    input_schema: {
+      type: 'object' as const,
+      properties: {
+        title: { type: 'string', description: 'Descriptive title for the research' },
+        query: { type: 'string', description: 'The original research question' },
+        content: { type: 'string', description: 'Synthesized markdown research content' },
+        summary: { type: 'string', description: 'Short summary (1-2 sentences) for quick reference' },
+        sources: {
+          type: 'array',
+          description: 'Array of source URLs with titles',
+          items: {
+            type: 'object',
+            properties: {
+              url: { type: 'string' },
+              title: { type: 'string' },
+              snippet: { type: 'string' },
+            },
+            required: ['url', 'title'],
+          },
+        },
+        spark_id: { type: 'string', description: 'The Spark ID to link this research to' },
+      },
+      required: ['title', 'query', 'content', 'summary', 'sources', 'spark_id'],
+    },
+  },
+];
+
+// Combined tools: our custom tools + Anthropic's server-hosted web_search
+const WEB_SEARCH_TOOL: Anthropic.WebSearchTool20250305 = {
+  type: 'web_search_20250305',
+  name: 'web_search',
+  max_uses: 10,
+};
+export const CHAT_TOOLS: (Anthropic.Tool | Anthropic.WebSearchTool20250305)[] = [...TOOLS, WEB_SEARCH_TOOL];
+
+// For answers given outside the app — nothing is saved to the Spark
+const READ_ONLY_TOOLS: (Anthropic.Tool | Anthropic.WebSearchTool20250305)[] = [
+  ...TOOLS.filter((tool) => tool.name !== 'save_web_research'),
+  WEB_SEARCH_TOOL,
+];
+
+const MAX_IMAGES_PER_RESULT = 5;
+
+/** Extract image URL from a Spark item (image items + link items with OG image) */
+function getItemImageUrl(item: Record<string, unknown>): string | null {
+  const metadata = item.metadata as Record<string, unknown> | null;
+
+  if (item.type === 'image') {
+    const url = (metadata?.image_url as string) || (item.content as string);
+    return url?.startsWith('http') ? url : null;
+  }
+
+  if (item.type === 'link' && metadata?.og_image) {
+    const url = metadata.og_image as string;
+    return url.startsWith('http') ? url : null;
+  }
+
+  // Google Drive thumbnail URLs are session-authenticated and cannot be
+  // fetched by Claude's API servers, so we skip them here.
+  // The text metadata (title, summary) is still sent for context.
+
+  return null;
+}
+
+/** Build multimodal tool result: JSON text + actual image blocks for image items */
+function buildToolContent(
+  items: Record<string, unknown>[],
+  prefix: string
+): Anthropic.ToolResultBlockParam['content'] {
+  const textData = items.map((item) => ({
+    id: item.id,
+    type: item.type,
+    title: item.title,
+    content: (item.content as string)?.substring(0, 2000),
+    summary: item.summary,
+    metadata: item.metadata,
+    ...(item.chunk_content != null && { passage: item.chunk_content }),
+    ...(item.chunk_anchor != null && { passage_location: item.chunk_anchor }),
+    ...(item.similarity !== undefined && { similarity: item.similarity }),
+    ...(item.scores !== undefined && { scores: item.scores }),
+    ...(item.created_at !== undefined && { created_at: item.created_at }),
+  }));
+
+  const content: Array<Anthropic.TextBlockParam | Anthropic.ImageBlockParam> = [
+    { type: 'text', text: `${prefix}\n${JSON.stringify(textData, null, 2)}` },
+  ];
+
+  // Append actual image blocks so Claude can visually inspect them
+  let imageCount = 0;
+  for (const item of items) {
+    if (imageCount >= MAX_IMAGES_PER_RESULT) break;
+    const imageUrl = getItemImageUrl(item);
+    if (imageUrl) {
+      content.push(
+        { type: 'image', source: { type: 'url', url: imageUrl } },
+        { type: 'text', text: `Above image: "${item.title}"` }
+      );
+      imageCount++;
+    }
+  }
+
+  return content;
+}
+
+// Execute a tool call and return multimodal content (text + images)
+export async function executeChatTool(
+  name: string,
+  input: Record<string, unknown>
+): Promise<Anthropic.ToolResultBlockParam['content']> {
+  switch (name) {
+    case 'semantic_search': {
+      const query = input.query as string;
+      const sparkId = input.spark_id as string;
+      const { items } = await hybridSearch(sparkId, query, { matchCount: 10 });
+      if (items.length > 0) {
+        return buildToolContent(
+          items,
+          `Found ${items.length} relevant items (each "passage" is the best-matching excerpt):`
+        );
+      }
+      // Fall through to substring match
+      const { data: kwData } = await supabaseAdmin
+        .from('spark_items')
+        .select('id, type, title, content, summary, metadata')
+        .eq('spark_id', sparkId)
+        .or(
+          `title.ilike.%${query}%,content.ilike.%${query}%,summary.ilike.%${query}%`
+        )
+        .limit(10);
+      return buildToolContent(kwData || [], `Found ${kwData?.length || 0} items (keyword match):`);
+    }
+
+    case 'keyword_search': {
+      const query = input.query as string;
+      const sparkId = input.spark_id as string;
+      // Full-text ranking (stemmed, websearch syntax); no embedding
+      const { items } = await hybridSearch(sparkId, query, { matchCount: 20, queryEmbedding: null });
+      if (items.length > 0) {
+        return buildToolContent(items, `Found ${items.length} items:`);
+      }
+      const { data } = await supabaseAdmin
+        .from('spark_items')
+        .select('id, type, title, content, summary, metadata')
+        .eq('spark_id', sparkId)
+        .or(
+          `title.ilike.%${query}%,content.ilike.%${query}%,summary.ilike.%${query}%`
+        )
+        .limit(20);
+      return buildToolContent(data || [], `Found ${data?.length || 0} items:`);
+    }
+
+    case 'list_items': {
+      const sparkId = input.spark_id as string;
+      const { data } = await supabaseAdmin
+        .from('spark_items')
+        .select('id, type, title, content, summary, metadata, created_at')
+        .eq('spark_id', sparkId)
+        .order('created_at', { ascending: false });
+      if (!data?.length) return 'No items in this Spark yet.';
+      return buildToolContent(data, `Found ${data.length} items:`);
+    }
+
+    case 'get_spark_details': {
+      const sparkId = input.spark_id as string;
+      const { data } = await supabaseAdmin
+        .from('sparks')
+        .select('*')
+        .eq('id', sparkId)
+        .single();
+      return JSON.stringify(data, null, 2);
+    }
+
+    case 'scrape_url': {
+      const url = input.url as string;
+      const result = await scrapePage(url);
+      if (!result) {
+        return JSON.stringify({ error: 'Failed to scrape page', url });
+      }
+      return JSON.stringify({
+        url,
+        title: result.og_title || url,
+        description: result.og_description || null,
+        text: result.text.substring(0, 30_000),
+      });
+    }
+
+    case 'save_web_research': {
+      const title = input.title as string;
+      const query = input.query as string;
+      const content = input.content as string;
+      const summary = input.summary as string;
+      const sources = input.sources as Array<{ url: string; title: string; snippet?: string }>;
+      const sparkId = input.spark_id as string;
+
+      // Insert the research item
+      const { data: researchItem, error: insertError } = await supabaseAdmin
+        .from('web_research_items')
+        .insert({ title, query, content, summary, sources })
+        .select('id')
+        .single();
+
+      if (insertError || !researchItem) {
+        console.error('[save_web_research] Insert failed:', insertError?.message);
+        return JSON.stringify({ error: 'Failed to save research', details: insertError?.message });
+      }
+
+      // Link to Spark via join table
+      const { error: joinError } = await supabaseAdmin
+        .from('spark_web_research')
+        .insert({ spark_id: sparkId, web_research_item_id: researchItem.id });
+
+      if (joinError) {
+        console.error('[save_web_research] Join insert failed:', joinError.message);
+      }
+
+      // Fire-and-forget: generate embedding
+      generateEmbedding(buildResearchText({ title, query, summary, content }))
+        .then(async (embedding) => {
+          if (embedding) {
+            await saveEmbedding('web_research_items', researchItem.id, embedding);
+          }
+        })
+        .catch((err) => {
+          console.error('[save_web_research] Embedding failed:', err);
+        });
+
+      return JSON.stringify({
+        success: true,
+        id: researchItem.id,
+        message: `Research "${title}" saved and linked to Spark. Embedding generation in progress.`,
+      });
+    }
+
+    default:
+      return `Unknown tool: ${name}`;
+  }
+}
+
+export interface RetrievedContext {
+  text: string;
+  images: Array<{ url: string; title: string }>;
+  items: VectorContextItem[];
+}
+
+/** Collect image URLs from a list of retrieved items */
+export function extractImageUrls(items: Record<string, unknown>[]): Array<{ url: string; title: string }> {
+  return items
+    .map((item) => {
+      const url = getItemImageUrl(item);
+      return url ? { url, title: item.title as string } : null;
+    })
+    .filter((img): img is { url: string; title: string } => img !== null)
+    .slice(0, MAX_IMAGES_PER_RESULT);
+}
+
+/**
+ * Retrieve the most relevant items from the Spark using hybrid search
+ * (chunk-level vector + full-text, fused with RRF) followed by a reranker,
+ * quoting the matching passage of each item.
+ * This provides automatic RAG context before Claude even starts thinking.
+ * Returns both text (for system prompt) and image URLs (for user message).
+ */
+export async function retrieveContext(
+  sparkId: string,
+  userMessage: string
+): Promise<RetrievedContext> {
+  const queryEmbedding = await generateQueryEmbedding(userMessage);
+  console.log('[retrieveContext] queryEmbedding:', queryEmbedding ? `${queryEmbedding.length}-dim vector` : 'null');
+
+  // Hybrid item search still runs without an embedding (full-text only);
+  // session and research matching are vector-only.
+  const embeddingArg = queryEmbedding ? JSON.stringify(queryEmbedding) : null;
+  const embeddingModel = getEmbeddingProvider().id;
+  const [itemsResult, sessionsResult, researchResult] = await Promise.all([
+    hybridSearch(sparkId, userMessage, { matchCount: 8, queryEmbedding }),
+    embeddingArg
+      ? supabaseAdmin.rpc('match_chat_sessions', {
+          p_spark_id: sparkId,
+          query_embedding: embeddingArg,
+          match_threshold: 0.25,
+          match_count: 5,
+          p_embedding_model: embeddingModel,
+        })
+      : { data: null, error: null },
+    embeddingArg
+      ? supabaseAdmin.rpc('match_web_research_items', {
+          p_spark_id: sparkId,
+          query_embedding: embeddingArg,
+          match_threshold: 0.25,
+          match_count: 3,
+          p_embedding_model: embeddingModel,
+        })
+      : { data: null, error: null },
+  ]);
+
+  const { items: data, error } = itemsResult;
+  const { data: sessionData, error: sessionError } = sessionsResult;
+  const { data: researchData, error: researchError } = researchResult;
+
+  console.log('[retrieveContext] hybrid_search_spark_items result:', { error, count: data.length, reranker: data[0]?.scores.reranker ?? null });
+  console.log('[retrieveContext] match_chat_sessions result:', { error: sessionError?.message || null, count: sessionData?.length || 0 });
+  console.log('[retrieveContext] match_web_research_items result:', { error: researchError?.message || null, count: researchData?.length || 0 });
+
+  // Build chat session context text
+  let sessionContextText = '';
+  if (sessionData && sessionData.length > 0) {
+    const sessionTexts = sessionData
+      .map((session: Record<string, unknown>, i: number) => {
+        const similarity = ((session.similarity as number) * 100).toFixed(0);
+        const messages = session.user_messages as string[];
+        const messageText = messages.map((m, j) => `  Message ${j + 1}: ${m}`).join('\n');
+        return `${i + 1}. Chat: "${session.title}" (${similarity}% match)\n${messageText}`;
+      })
+      .join('\n\n');
+
+    sessionContextText = `\n\n## Relevant Past Conversations\nThe following previous chat sessions in this Spark are relevant:\n\n${sessionTexts}`;
+  }
+
+  // Build web research context text
+  let webResearchContextText = '';
+  const webResearchContextItems: VectorContextItem[] = [];
+  if (researchData && researchData.length > 0) {
+    const researchTexts = researchData
+      .map((r: Record<string, unknown>, i: number) => {
+        const similarity = ((r.similarity as number) * 100).toFixed(0);
+        const sources = (r.sources as Array<{ url: string; title: string }>) || [];
+        const topSources = sources.slice(0, 3).map((s) => `  - ${s.title}: ${s.url}`).join('\n');
+        return `${i + 1}. "${r.title}" (${similarity}% match)\n  Query: ${r.query}\n  Summary: ${r.summary || 'N/A'}\n  Sources:\n${topSources}`;
+      })
+      .join('\n\n');
+
+    webResearchContextText = `\n\n## Relevant Past Web Research\nThe following web research saved in this Spark is relevant:\n\n${researchTexts}`;
+
+    for (const r of researchData) {
+      webResearchContextItems.push({
+        id: r.id as string,
+        type: 'web_research',
+        title: r.title as string,
+        similarity: r.similarity as number,
+        summary: (r.summary as string) || null,
+      });
+    }
+  }
+
+  if (error || data.length === 0) {
+    console.log('[retrieveContext] Hybrid search failed/empty — falling back to recent items');
+    const { data: recent } = await supabaseAdmin
+      .from('spark_items')
+      .select('id, type, title, content, summary, metadata')
+      .eq('spark_id', sparkId)
+      .order('created_at', { ascending: false })
+      .limit(5);
+
+    if (!recent || recent.length === 0) {
+      if (sessionContextText || webResearchContextText) {
+        return { text: sessionContextText + webResearchContextText, images: [], items: webResearchContextItems };
+      }
+      return { text: '', images: [], items: [] };
+    }
+
+    const recentItems: VectorContextItem[] = recent.map((item, i) => ({
+      id: item.id as string,
+      type: item.type as VectorContextItem['type'],
+      title: item.title as string,
+      similarity: 0.5 - i * 0.05,
+      summary: (item.summary as string) || null,
+    }));
+
+    const recentTexts = recent
+      .map(
+        (item, i) =>
+          `${i + 1}. [${item.type}] ${item.title}\n${item.content?.substring(0, 500) || ''}`
+      )
+      .join('\n\n');
+
+    return {
+      text: `\n\n## Recent Items in This Spark\n${recentTexts}${sessionContextText}${webResearchContextText}`,
+      images: extractImageUrls(recent as Record<string, unknown>[]),
+      items: [...recentItems, ...webResearchContextItems],
+    };
+  }
+
+  const contextItems: VectorContextItem[] = data.map((item) => ({
+    id: item.id,
+    type: item.type as VectorContextItem['type'],
+    title: item.title,
+    similarity: item.similarity,
+    summary: item.summary || null,
+    scores: item.scores,
+  }));
+
+  const itemTexts = data
+    .map((item, i) => {
+      const similarity = (item.similarity * 100).toFixed(0);
+      // Prefer the matching chunk over the start of the item
+      const passage = item.chunk_content ?? (item.content?.substring(0, 800) || '');
+      const location = item.chunk_anchor ? `, ${item.chunk_anchor}` : '';
+      return `${i + 1}. [${item.type}] ${item.title}${location} (${similarity}% match)\n${passage}\n${item.summary ? `Summary: ${item.summary}` : ''}`;
+    })
+    .join('\n\n');
+
+  return {
+    text: `\n\n## Retrieved Context (relevant items)\nThe following items from this Spark are most relevant to the user's question:\n\n${itemTexts}${sessionContextText}${webResearchContextText}`,
+    images: extractImageUrls(data),
+    items: [...contextItems, ...webResearchContextItems],
+  };
+}
+
+// ─── One-shot answers ──────────────────────────────────
+
+export interface SparkAnswer {
+  text: string;
+  /** Items retrieved for the question, most relevant first — the answer's sources */
+  items: VectorContextItem[];
+}
+
+/**
+ * Answer a question about a Spark without a chat session: retrieve context,
+ * then let Claude call the read-only Spark tools until it has an answer.
+ * `instructions` are appended to the system prompt, e.g. to format the
+ * answer for Slack. Throws on Anthropic errors.
+ */
+export async function answerSparkQuestion(
+  sparkId: string,
+  question: string,
+  instructions = ''
+): Promise<SparkAnswer> {
+  const ragContext = await retrieveContext(sparkId, question);
+  addLogEntry({
+    service: 'supabase',
+    direction: 'event',
+    level: 'info',
+    summary: `RAG: matched ${ragContext.items.length} item${ragContext.items.length !== 1 ? 's' : ''} for a one-shot answer`,
+  });
+
+  const userContent: Anthropic.ContentBlockParam[] = [
+    { type: 'text', text: `[Spark ID: ${sparkId}]\n\n${question}` },
+  ];
+  for (const img of ragContext.images) {
+    userContent.push(
+      { type: 'image', source: { type: 'url', url: img.url } },
+      { type: 'text', text: `(Contextual image: "${img.title}")` }
+    );
+  }
+
+  const system = CHAT_SYSTEM_PROMPT + ragContext.text + instructions;
+  let messages: Anthropic.MessageParam[] = [{ role: 'user', content: userContent }];
+  let text = '';
+
+  for (let turn = 0; turn < MAX_TURNS; turn++) {
+    const start = Date.now();
+    const response = await anthropic.messages.create({
+      model: CHAT_MODEL,
+      max_tokens: 1024,
+      system,
+      tools: READ_ONLY_TOOLS,
+      messages,
+    });
+    addLogEntry({
+      service: 'anthropic',
+      direction: 'response',
+      level: 'info',
+      summary: `messages.create — ${response.stop_reason} (in:${response.usage.input_tokens} out:${response.usage.output_tokens})`,
+      duration: Date.now() - start,
+    });
+
+    for (const block of response.content) {
+      if (block.type === 'text') text += block.text;
+    }
+
+    const toolUseBlocks = response.content.filter(
+      (b): b is Anthropic.ToolUseBlock => b.type === 'tool_use'
+    );
+    if (toolUseBlocks.length === 0) {
+      if (response.stop_reason === 'end_turn') break;
+      // Server tools only (web search) — continue
+      messages = [...messages, { role: 'assistant', content: response.content }];
+      continue;
+    }
+
+    const toolResults = await Promise.all(
+      toolUseBlocks.map(async (toolUse) => ({
+        type: 'tool_result' as const,
+        tool_use_id: toolUse.id,
+        // Keep every lookup inside this Spark, whatever id Claude passes
+        content: await executeChatTool(toolUse.name, { ...(toolUse.input as Record<string, unknown>), spark_id: sparkId }),
+      }))
+    );
+    messages = [
+      ...messages,
+      { role: 'assistant', content: response.content },
+      { role: 'user', content: toolResults },
+    ];
+  }
+
+  return { text: text.trim(), items: ragContext.items };
+}
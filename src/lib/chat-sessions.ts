@@ -0,0 +1,115 @@
+/**
+ * Branching chat sessions.
+ *
+ * chat_messages form a tree per session through parent_message_id: editing
+ * a user message or regenerating a reply adds a sibling instead of
+ * overwriting. chat_sessions.active_message_id is the leaf of the branch
+ * being viewed; the conversation history sent to Claude, the messages shown
+ * in ChatPanel and the session embedding all follow that branch.
+ */
+
+import { supabaseAdmin } from './supabase/admin';
+import { generateEmbedding, saveEmbedding } from './embeddings';
+import type { ChatBranchMessage, ChatRole } from './types';
+
+interface TreeMessage {
+  id: string;
+  parent_message_id: string | null;
+  role: ChatRole;
+  content: string;
+  created_at: string;
+}
+
+/** Every message in a session, oldest first. */
+export async function loadSessionMessages(sessionId: string): Promise<TreeMessage[]> {
+  const { data, error } = await supabaseAdmin
+    .from('chat_messages')
+    .select('id, parent_message_id, role, content, created_at')
+    .eq('session_id', sessionId)
+    .order('created_at', { ascending: true });
+
+  if (error) throw new Error(error.message);
+  return (data || []) as TreeMessage[];
+}
+
+/** Messages from the root down to `leafId` (empty if the leaf isn't in the list). */
+export function branchPath<T extends TreeMessage>(messages: T[], leafId: string | null): T[] {
+  const byId = new Map(messages.map((m) => [m.id, m]));
+  const path: T[] = [];
+  let current = leafId ? byId.get(leafId) : undefined;
+  while (current && path.length <= messages.length) {
+    path.push(current);
+    current = current.parent_message_id ? byId.get(current.parent_message_id) : undefined;
+  }
+  return path.reverse();
+}
+
+/** Follow the newest child from `messageId` down to a leaf — where a branch switch lands. */
+export function newestLeaf(messages: TreeMessage[], messageId: string): string {
+  const newestChild = new Map<string, string>();
+  for (const m of messages) {
+    // Messages are oldest first, so the last one seen wins
+    if (m.parent_message_id) newestChild.set(m.parent_message_id, m.id);
+  }
+
+  let leaf = messageId;
+  for (let i = 0; i < messages.length && newestChild.has(leaf); i++) {
+    leaf = newestChild.get(leaf)!;
+  }
+  return leaf;
+}
+
+/** The active branch with each message's siblings, for display. */
+export function describeBranch(messages: TreeMessage[], leafId: string | null): ChatBranchMessage[] {
+  const siblings = new Map<string | null, string[]>();
+  for (const m of messages) {
+    const ids = siblings.get(m.parent_message_id) ?? [];
+    ids.push(m.id);
+    siblings.set(m.parent_message_id, ids);
+  }
+
+  return branchPath(messages, leafId).map((m) => ({
+    ...m,
+    sibling_ids: siblings.get(m.parent_message_id) ?? [m.id],
+  }));
+}
+
+/** Make `messageId` the session's active leaf and rebuild user_messages from its branch. */
+export async function setActiveMessage(sessionId: string, messageId: string): Promise<void> {
+  const { error } = await supabaseAdmin.rpc('set_session_active_message', {
+    p_session_id: sessionId,
+    p_message_id: messageId,
+  });
+  if (error) throw new Error(error.message);
+}
+
+/** Embed a session from the user messages on its active branch. */
+export async function embedChatSession(sessionId: string): Promise<{ embedded: boolean; error?: string }> {
+  const { data: session, error } = await supabaseAdmin
+    .from('chat_sessions')
+    .select('id, user_messages')
+    .eq('id', sessionId)
+    .single();
+
+  if (error || !session) {
+    return { embedded: false, error: 'Session not found' };
+  }
+
+  const messages = session.user_messages as string[];
+  if (!messages || messages.length === 0) {
+    return { embedded: false };
+  }
+
+  // Concatenate the branch's user messages for a single session embedding
+  const embedding = await generateEmbedding(messages.join('\n\n'));
+  if (!embedding) {
+    return { embedded: false };
+  }
+
+  const { error: updateError } = await saveEmbedding('chat_sessions', sessionId, embedding);
+  if (updateError) {
+    return { embedded: false, error: updateError };
+  }
+
+  return { embedded: true };
+}
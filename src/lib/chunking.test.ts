@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import { chunkText } from './chunking';
+
+describe('chunkText', () => {
+  it('returns nothing for blank text', () => {
+    expect(chunkText('')).toEqual([]);
+    expect(chunkText('  \n\t ')).toEqual([]);
+  });
+
+  it('keeps short text as one trimmed chunk', () => {
+    expect(chunkText('  Hello world.  ', 100)).toEqual([{ content: 'Hello world.', start: 0 }]);
+  });
+
+  it('covers long text with overlapping chunks no larger than the size', () => {
+    const text = Array.from({ length: 200 }, (_, i) => `word${i}`).join(' ');
+    const chunks = chunkText(text, 100, 20);
+
+    expect(chunks.length).toBeGreaterThan(1);
+    for (const chunk of chunks) {
+      expect(chunk.content.length).toBeLessThanOrEqual(100);
+      expect(text.slice(chunk.start)).toContain(chunk.content);
+    }
+    // Each chunk starts inside the previous one
+    for (let i = 1; i < chunks.length; i++) {
+      const previous = chunks[i - 1];
+      expect(chunks[i].start).toBeGreaterThan(previous.start);
+      expect(chunks[i].start).toBeLessThan(previous.start + previous.content.length);
+    }
+    expect(chunks[chunks.length - 1].content.endsWith('word199')).toBe(true);
+  });
+
+  it('breaks at a paragraph boundary in the second half of the window', () => {
+    const first = 'a'.repeat(70);
+    const text = `${first}\n\n${'b'.repeat(100)}`;
+    const [chunk] = chunkText(text, 100, 10);
+    expect(chunk.content).toBe(first);
+  });
+
+  it('breaks after a sentence rather than mid-word', () => {
+    const text = `${'x'.repeat(60)}. ${'y'.repeat(30)} ${'z'.repeat(50)}`;
+    const [chunk] = chunkText(text, 100, 10);
+    expect(chunk.content).toBe(`${'x'.repeat(60)}.`);
+  });
+
+  it('still progresses through text with no break points', () => {
+    const text = 'q'.repeat(250);
+    const chunks = chunkText(text, 100, 20);
+    expect(chunks.map((c) => c.start)).toEqual([0, 80, 160]);
+    expect(chunks[chunks.length - 1].content.length).toBe(90);
+  });
+});
@@ -0,0 +1,136 @@
+/**
+ * Document chunking for long Spark items.
+ *
+ * A scraped page or Drive export can run to tens of KB — far more than a
+ * single embedding represents well. Items are split into overlapping
+ * chunks stored in `spark_item_chunks`, each with its own embedding, so
+ * retrieval can return the passage that actually matches a query.
+ *
+ * Image items are not chunked: their item-level multimodal embedding is
+ * what makes them searchable, and match_spark_item_chunks falls back to it.
+ *
+ * Chunks of extracted documents record the page, slide or heading they
+ * fall under (see document-extraction.ts) so answers can cite "p. 12".
+ */
+
+import { supabaseAdmin } from './supabase/admin';
+import { generateEmbeddings, buildItemText, getEmbeddingProvider } from './embeddings';
+import { formatAnchor } from './document-extraction';
+import type { ItemDocumentInfo } from './types';
+
+const CHUNK_SIZE = 1_500;
+const CHUNK_OVERLAP = 200;
+
+export interface TextChunk {
+  content: string;
+  start: number;
+}
+
+/**
+ * Split text into overlapping chunks of roughly `size` characters.
+ * Chunk ends snap back to a paragraph, sentence, or word boundary when
+ * one falls in the second half of the window.
+ */
+export function chunkText(
+  text: string,
+  size: number = CHUNK_SIZE,
+  overlap: number = CHUNK_OVERLAP
+): TextChunk[] {
+  const trimmed = text.trim();
+  if (!trimmed) return [];
+  if (trimmed.length <= size) return [{ content: trimmed, start: 0 }];
+
+  const chunks: TextChunk[] = [];
+  let start = 0;
+
+  while (start < trimmed.length) {
+    let end = Math.min(start + size, trimmed.length);
+
+    if (end < trimmed.length) {
+      const window = trimmed.slice(start, end);
+      const minBreak = Math.floor(size / 2);
+      const breakAt = [
+        window.lastIndexOf('\n\n'),
+        Math.max(window.lastIndexOf('. '), window.lastIndexOf('.\n')),
+        window.lastIndexOf(' '),
+      ].find((idx) => idx >= minBreak);
+      if (breakAt !== undefined) end = start + breakAt + 1;
+    }
+
+    const content = trimmed.slice(start, end).trim();
+    if (content) chunks.push({ content, start });
+
+    if (end >= trimmed.length) break;
+    start = Math.max(end - overlap, start + 1);
+  }
+
+  return chunks;
+}
+
+/**
+ * Replace an item's chunks with freshly embedded ones.
+ * Call whenever an item's title, content, or summary changes.
+ */
+export async function syncItemChunks(item: {
+  id: string;
+  spark_id: string;
+  title: string;
+  content?: string | null;
+  summary?: string | null;
+  type: string;
+  metadata?: Record<string, unknown>;
+}): Promise<number> {
+  const { error: deleteError } = await supabaseAdmin
+    .from('spark_item_chunks')
+    .delete()
+    .eq('item_id', item.id);
+
+  if (deleteError) {
+    console.error('[chunking] Failed to clear chunks:', deleteError.message);
+    return 0;
+  }
+
+  if (item.type === 'image') return 0;
+
+  const text = buildItemText(item);
+  const chunks = chunkText(text);
+  if (chunks.length === 0) return 0;
+
+  // Document sections are offsets into the content, which sits after the
+  // type and title in the embedding text
+  const sections = (item.metadata?.document as ItemDocumentInfo | undefined)?.sections ?? [];
+  const contentStart = item.content ? text.indexOf(item.content) : -1;
+  const anchorFor = (chunk: TextChunk) =>
+    sections.length > 0 && contentStart >= 0
+      ? formatAnchor(sections, chunk.start - contentStart, chunk.start - contentStart + chunk.content.length)
+      : null;
+
+  // Prefix later chunks with the item title so they embed in context
+  const header = `[${item.type}] ${item.title}`;
+  const embeddings = await generateEmbeddings(
+    chunks.map((chunk, i) => ({ text: i === 0 ? chunk.content : `${header}\n${chunk.content}` }))
+  );
+
+  const model = getEmbeddingProvider().id;
+  const rows = chunks.map((chunk, i) => ({
+    item_id: item.id,
+    spark_id: item.spark_id,
+    chunk_index: i,
+    content: chunk.content,
+    start_offset: chunk.start,
+    anchor: anchorFor(chunk),
+    embedding: embeddings[i] ? JSON.stringify(embeddings[i]) : null,
+    embedding_model: embeddings[i] ? model : null,
+  }));
+
+  const { error: insertError } = await supabaseAdmin
+    .from('spark_item_chunks')
+    .insert(rows);
+
+  if (insertError) {
+    console.error('[chunking] Failed to save chunks:', insertError.message);
+    return 0;
+  }
+
+  return rows.length;
+}
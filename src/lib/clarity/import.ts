@@ -0,0 +1,128 @@
+/**
+ * Import Clarity insights into a Spark as clarity_insight items.
+ *
+ * Runs as a background job (see lib/jobs/handlers.ts). Existing Clarity
+ * items are replaced, so a retried import never duplicates them, and
+ * embedding for the new rows is queued rather than run inline.
+ */
+
+import { supabaseAdmin } from '@/lib/supabase/admin';
+import { enqueueItemEmbedding, PermanentJobError } from '@/lib/jobs/queue';
+import { publishItemChanges, publishSparkEvent, userActor } from '@/lib/spark-events';
+import type { ImportReporter } from '@/lib/contentstack/imports';
+import {
+  fetchClarityInsights,
+  formatMetricAsText,
+  IMPORT_CALLS,
+  type ClarityMetricData,
+} from './api';
+
+const INSERT_BATCH_SIZE = 25;
+
+export interface ClarityImportResult {
+  total_imported: number;
+  errors: string[];
+}
+
+export async function importClarityInsights(
+  params: { sparkId: string; numDays: number; createdBy: string | null },
+  report: ImportReporter
+): Promise<ClarityImportResult> {
+  if (!process.env.CLARITY_API_TOKEN) {
+    throw new PermanentJobError('CLARITY_API_TOKEN is not configured');
+  }
+
+  const { sparkId, numDays } = params;
+  const result: ClarityImportResult = { total_imported: 0, errors: [] };
+  const log: string[] = [];
+  const actor = await userActor(params.createdBy);
+
+  // Delete existing clarity items for this spark (idempotent re-import)
+  const { data: replaced } = await supabaseAdmin
+    .from('spark_items')
+    .delete()
+    .eq('spark_id', sparkId)
+    .eq('type', 'clarity_insight')
+    .select('id');
+  if (replaced?.length) {
+    publishSparkEvent(sparkId, { type: 'items.deleted', itemIds: replaced.map((row) => row.id as string) }, actor);
+  }
+
+  // Make strategic API calls with different dimension combinations
+  for (let callIdx = 0; callIdx < IMPORT_CALLS.length; callIdx++) {
+    const { label, dimensions } = IMPORT_CALLS[callIdx];
+
+    await report({
+      message: `Fetching ${label}`,
+      current: callIdx,
+      total: IMPORT_CALLS.length,
+      log,
+    });
+
+    let metrics: ClarityMetricData[];
+    try {
+      metrics = await fetchClarityInsights(numDays, dimensions.length > 0 ? dimensions : undefined);
+    } catch (err) {
+      result.errors.push(`Failed to fetch ${label}: ${err instanceof Error ? err.message : 'Unknown error'}`);
+      log.push(`${label}: failed`);
+      continue;
+    }
+
+    // Filter out metrics with no data
+    const validMetrics = metrics.filter((m) => m.information && m.information.length > 0);
+
+    // Convert each metric into a spark item
+    const rows = validMetrics.map((metric) => {
+      const content = formatMetricAsText(metric, dimensions);
+      const dimSuffix = dimensions.length > 0 ? ` (${label})` : ' (Overall)';
+      return {
+        spark_id: sparkId,
+        type: 'clarity_insight' as const,
+        title: `${metric.metricName}${dimSuffix}`,
+        content,
+        summary: content.length > 300 ? content.slice(0, 297) + '...' : content,
+        metadata: {
+          clarity_metric_name: metric.metricName,
+          clarity_dimensions: dimensions.join(', ') || 'none',
+          clarity_num_days: numDays,
+          clarity_imported_at: new Date().toISOString(),
+        },
+      };
+    });
+
+    for (let i = 0; i < rows.length; i += INSERT_BATCH_SIZE) {
+      const batch = rows.slice(i, i + INSERT_BATCH_SIZE);
+
+      const { data: inserted, error } = await supabaseAdmin
+        .from('spark_items')
+        .insert(batch)
+        .select('id');
+
+      if (error) {
+        console.error('[clarity-import] Insert batch error:', error.message);
+        result.errors.push(`Failed to save ${label} metrics: ${error.message}`);
+      } else {
+        result.total_imported += inserted.length;
+        await enqueueItemEmbedding(sparkId, inserted.map((row) => row.id as string), {
+          createdBy: params.createdBy,
+        });
+        await publishItemChanges(sparkId, 'created', inserted.map((row) => row.id as string), actor);
+      }
+    }
+
+    log.push(`${label} (${validMetrics.length} metrics)`);
+  }
+
+  // Nothing came through — fail the attempt so the job retries
+  if (result.total_imported === 0 && result.errors.length > 0) {
+    throw new Error(result.errors.join('; '));
+  }
+
+  await report({
+    message: `Imported ${result.total_imported} insights`,
+    current: IMPORT_CALLS.length,
+    total: IMPORT_CALLS.length,
+    log,
+  });
+  return result;
+}
@@ -28,6 +28,11 @@ export interface CSFieldSchema {
   uid: string;
   display_name: string;
   data_type: string;
+  mandatory?: boolean;
+  multiple?: boolean;
+  display_type?: string; // 'dropdown' | 'radio' | 'checkbox' for select fields
+  enum?: { advanced?: boolean; choices: Array<{ value: string | number; key?: string }> };
+  reference_to?: string | string[];
   field_metadata?: Record<string, unknown>;
   schema?: CSFieldSchema[]; // for groups/blocks
   blocks?: Array<{ uid: string; title: string; schema: CSFieldSchema[] }>;
@@ -51,6 +56,11 @@ export interface CSAsset {
   description?: string;
 }
 
+export interface CSEnvironment {
+  uid: string;
+  name: string;
+}
+
 export interface CSAssetFolder {
   uid: string;
   name: string;
@@ -69,10 +79,20 @@ function headers(token: string, apiKey?: string): Record<string, string> {
   return h;
 }
 
-async function csGet<T>(
+/** Management API error that keeps the HTTP status for callers to branch on. */
+export class CSApiError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+    this.name = 'CSApiError';
+  }
+}
+
+async function csRequest<T>(
+  method: 'GET' | 'POST' | 'PUT',
   path: string,
   token: string,
   apiKey?: string,
+  body?: unknown,
   extraHeaders?: Record<string, string>
 ): Promise<T> {
   const url = `${CS_API_BASE}${path}`;
@@ -83,14 +103,16 @@ async function csGet<T>(
     service: 'contentstack',
     direction: 'request',
     level: 'info',
-    method: 'GET',
+    method,
     url,
     summary: path,
     correlationId,
   });
 
   const res = await fetch(url, {
+    method,
     headers: { ...headers(token, apiKey), ...extraHeaders },
+    body: body !== undefined ? JSON.stringify(body) : undefined,
   });
 
   const duration = Date.now() - start;
@@ -101,7 +123,7 @@ async function csGet<T>(
       service: 'contentstack',
       direction: 'response',
       level: 'error',
-      method: 'GET',
+      method,
       url,
       summary: `${path} — ${res.status}`,
       statusCode: res.status,
@@ -109,7 +131,7 @@ async function csGet<T>(
       error: text,
       correlationId,
     });
-    throw new Error(`CS API ${path} failed (${res.status}): ${text}`);
+    throw new CSApiError(`CS API ${path} failed (${res.status}): ${text}`, res.status);
   }
 
   const data = await res.json() as T;
@@ -117,10 +139,10 @@ async function csGet<T>(
     service: 'contentstack',
     direction: 'response',
     level: 'info',
-    method: 'GET',
+    method,
     url,
-    summary: `${path} — 200`,
-    statusCode: 200,
+    summary: `${path} — ${res.status}`,
+    statusCode: res.status,
     duration,
     correlationId,
   });
@@ -128,6 +150,15 @@ async function csGet<T>(
   return data;
 }
 
+function csGet<T>(
+  path: string,
+  token: string,
+  apiKey?: string,
+  extraHeaders?: Record<string, string>
+): Promise<T> {
+  return csRequest<T>('GET', path, token, apiKey, undefined, extraHeaders);
+}
+
 // ─── API Functions ─────────────────────────────
 
 export interface ListStacksResult {
@@ -201,7 +232,7 @@ export async function listStacks(
  * that works reliably with OAuth tokens that have organization:read scope.
  */
 async function listStacksFromOrg(token: string, orgUid: string): Promise<CSStack[]> {
-  const url = `${CS_API_BASE}/organizations/${orgUid}/stacks`;
+  const url = `${CS_API_BASE}/organizations/${encodeURIComponent(orgUid)}/stacks`;
   const start = Date.now();
   const correlationId = `cs_${Date.now()}`;
 
@@ -356,7 +387,7 @@ export async function getContentTypeSchema(
   ctUid: string
 ): Promise<CSContentType> {
   const data = await csGet<{ content_type: CSContentType }>(
-    `/content_types/${ctUid}`,
+    `/content_types/${encodeURIComponent(ctUid)}`,
     token,
     apiKey
   );
@@ -372,7 +403,7 @@ export async function listEntries(
   const skip = options.skip || 0;
   const limit = Math.min(options.limit || 100, 100);
   const data = await csGet<{ entries: CSEntry[]; count: number }>(
-    `/content_types/${ctUid}/entries?include_count=true&limit=${limit}&skip=${skip}`,
+    `/content_types/${encodeURIComponent(ctUid)}/entries?include_count=true&limit=${limit}&skip=${skip}`,
     token,
     apiKey
   );
@@ -388,7 +419,7 @@ export async function listAssets(
   const limit = Math.min(options.limit || 100, 100);
   let path = `/assets?include_count=true&limit=${limit}&skip=${skip}`;
   if (options.folder) {
-    path += `&folder=${options.folder}`;
+    path += `&folder=${encodeURIComponent(options.folder)}`;
   }
   const data = await csGet<{ assets: CSAsset[]; count: number }>(
     path,
@@ -410,6 +441,78 @@ export async function listAssetFolders(
   return data.asset_folders || [];
 }
 
+export async function listEnvironments(
+  token: string,
+  apiKey: string
+): Promise<CSEnvironment[]> {
+  const data = await csGet<{ environments: CSEnvironment[] }>(
+    '/environments',
+    token,
+    apiKey
+  );
+  return data.environments || [];
+}
+
+// ─── Entry Writes ──────────────────────────────
+
+export async function createEntry(
+  token: string,
+  apiKey: string,
+  ctUid: string,
+  entry: Record<string, unknown>,
+  locale: string
+): Promise<CSEntry> {
+  const data = await csRequest<{ entry: CSEntry }>(
+    'POST',
+    `/content_types/${encodeURIComponent(ctUid)}/entries?locale=${encodeURIComponent(locale)}`,
+    token,
+    apiKey,
+    { entry }
+  );
+  return data.entry;
+}
+
+export async function updateEntry(
+  token: string,
+  apiKey: string,
+  ctUid: string,
+  entryUid: string,
+  entry: Record<string, unknown>,
+  locale: string
+): Promise<CSEntry> {
+  const data = await csRequest<{ entry: CSEntry }>(
+    'PUT',
+    `/content_types/${encodeURIComponent(ctUid)}/entries/${encodeURIComponent(entryUid)}?locale=${encodeURIComponent(locale)}`,
+    token,
+    apiKey,
+    { entry }
+  );
+  return data.entry;
+}
+
+/** Queue an entry for publishing to the given environments (by name). */
+export async function publishEntry(
+  token: string,
+  apiKey: string,
+  ctUid: string,
+  entryUid: string,
+  environments: string[],
+  locale: string
+): Promise<void> {
+  await csRequest<{ notice: string }>(
+    'POST',
+    `/content_types/${encodeURIComponent(ctUid)}/entries/${encodeURIComponent(entryUid)}/publish`,
+    token,
+    apiKey,
+    { entry: { environments, locales: [locale] }, locale }
+  );
+}
+
+/** Link to an entry in the Contentstack web app. */
+export function entryAppUrl(apiKey: string, ctUid: string, entryUid: string, locale: string): string {
+  return `https://app.contentstack.com/#!/stack/${encodeURIComponent(apiKey)}/content-type/${encodeURIComponent(ctUid)}/${encodeURIComponent(locale)}/entry/${encodeURIComponent(entryUid)}/edit`;
+}
+
 // ─── Entry Text Extraction ────────────────────
 
 const TEXT_CAP = 16_000;
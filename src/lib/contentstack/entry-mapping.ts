@@ -0,0 +1,286 @@
+/**
+ * Map a generated cms_entry artifact onto a real Contentstack content type.
+ *
+ * The artifact is loosely shaped (`fields.title`, `fields.body`,
+ * `fields.seo_title`, ...) while each stack's content types have their own
+ * schema. suggestFieldMappings pairs schema fields with artifact fields by
+ * uid and common synonyms; buildEntry converts each mapped value to what
+ * the field's data type expects (plain text, HTML RTE, Markdown, JSON RTE,
+ * link, multiple).
+ */
+
+import { randomBytes } from 'crypto';
+import type { CSFieldSchema } from './api';
+import { flattenArtifactFields, getArtifactField } from '@/lib/artifact-fields';
+
+export interface FieldMapping {
+  /** Dotted path in the entry, e.g. 'seo.meta_title' */
+  path: string;
+  display_name: string;
+  data_type: string;
+  mandatory: boolean;
+  /** Dotted artifact content path, e.g. 'fields.seo_title'; null = left empty */
+  source: string | null;
+}
+
+// Data types we know how to fill from generated text
+const MAPPABLE_TYPES = new Set(['text', 'json', 'link']);
+
+// Artifact field → schema field names that usually mean the same thing
+const SYNONYMS: Record<string, string[]> = {
+  title: ['title', 'page_title', 'heading', 'name'],
+  url: ['url', 'slug', 'path', 'page_url'],
+  body: ['body', 'content', 'page_content', 'main_content', 'rich_text', 'rich_text_editor', 'copy'],
+  seo_title: ['seo_title', 'meta_title', 'title_tag'],
+  seo_description: ['seo_description', 'meta_description', 'description', 'summary'],
+  seo_keywords: ['seo_keywords', 'meta_keywords', 'keywords', 'tags'],
+};
+
+function normalize(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_|_$/g, '');
+}
+
+/** Leaf fields we can write, walking into single (non-multiple) groups and global fields. */
+function mappableFields(schema: CSFieldSchema[], prefix = ''): { path: string; field: CSFieldSchema }[] {
+  const result: { path: string; field: CSFieldSchema }[] = [];
+  for (const field of schema) {
+    const path = prefix ? `${prefix}.${field.uid}` : field.uid;
+    if ((field.data_type === 'group' || field.data_type === 'global_field') && field.schema && !field.multiple) {
+      result.push(...mappableFields(field.schema, path));
+    } else if (MAPPABLE_TYPES.has(field.data_type)) {
+      if (field.data_type === 'json' && !field.field_metadata?.allow_json_rte) continue;
+      result.push({ path, field });
+    }
+  }
+  return result;
+}
+
+/** Suggest which artifact field fills each schema field. */
+export function suggestFieldMappings(
+  schema: CSFieldSchema[],
+  content: Record<string, unknown>
+): FieldMapping[] {
+  const targets = mappableFields(schema);
+  const sources = flattenArtifactFields(content)
+    .map((f) => f.path)
+    .filter((path) => path !== 'content_type');
+  const sourceKey = (path: string) => normalize(path.split('.').pop() || path);
+
+  const assigned = new Map<string, string>();
+  const used = new Set<string>();
+
+  const assign = (match: (target: { path: string; field: CSFieldSchema }, key: string) => boolean) => {
+    for (const target of targets) {
+      if (assigned.has(target.path)) continue;
+      const source = sources.find((s) => !used.has(s) && match(target, sourceKey(s)));
+      if (source) {
+        assigned.set(target.path, source);
+        used.add(source);
+      }
+    }
+  };
+
+  // 1. Full path ('seo.title' ↔ seo_title), 2. leaf uid, 3. synonyms
+  assign((t, key) => normalize(t.path) === key);
+  assign((t, key) => normalize(t.field.uid) === key || normalize(t.field.display_name) === key);
+  assign((t, key) => {
+    const names = SYNONYMS[key] || [];
+    return names.includes(normalize(t.path)) || names.includes(normalize(t.field.uid));
+  });
+
+  return targets.map(({ path, field }) => ({
+    path,
+    display_name: field.display_name,
+    data_type: field.data_type,
+    mandatory: Boolean(field.mandatory),
+    source: assigned.get(path) ?? null,
+  }));
+}
+
+/**
+ * Build the entry payload for a create/update call. `mappings` is keyed by
+ * schema path with the artifact path as value (null/missing = skip).
+ */
+export function buildEntry(
+  schema: CSFieldSchema[],
+  content: Record<string, unknown>,
+  mappings: Record<string, string | null>
+): Record<string, unknown> {
+  const entry: Record<string, unknown> = {};
+
+  for (const { path, field } of mappableFields(schema)) {
+    const source = mappings[path];
+    if (!source) continue;
+    const value = convertValue(getArtifactField(content, source), field);
+    if (value === undefined) continue;
+
+    // Create group objects along the way
+    const keys = path.split('.');
+    let target = entry;
+    for (const key of keys.slice(0, -1)) {
+      target[key] = (target[key] as Record<string, unknown>) || {};
+      target = target[key] as Record<string, unknown>;
+    }
+    target[keys[keys.length - 1]] = value;
+  }
+
+  return entry;
+}
+
+// ─── Value conversion ──────────────────────────
+
+function convertValue(value: unknown, field: CSFieldSchema): unknown {
+  if (value === undefined || value === null || value === '') return undefined;
+
+  const items = Array.isArray(value) ? value.map(String) : null;
+  const html = items ? `<ul>${items.map((i) => `<li>${i}</li>`).join('')}</ul>` : String(value);
+  const meta = field.field_metadata || {};
+
+  switch (field.data_type) {
+    case 'json':
+      return htmlToJsonRte(html);
+
+    case 'link': {
+      const href = items ? items[0] : String(value);
+      return { title: field.display_name, href };
+    }
+
+    case 'text':
+      if (meta.allow_rich_text) return html;
+      if (meta.markdown) return items ? items.map((i) => `- ${i}`).join('\n') : htmlToMarkdown(html);
+      if (field.multiple) {
+        return items ?? htmlToText(html).split(/\s*,\s*/).filter(Boolean);
+      }
+      if (items) return items.join(', ');
+      return meta.multiline ? htmlToText(html) : htmlToText(html).replace(/\s+/g, ' ');
+
+    default:
+      return undefined;
+  }
+}
+
+function decodeEntities(text: string): string {
+  return text
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&amp;/g, '&');
+}
+
+function htmlToText(html: string): string {
+  return decodeEntities(
+    html
+      .replace(/<br\s*\/?>/gi, '\n')
+      .replace(/<\/(p|h[1-6]|li|div|blockquote)>/gi, '\n')
+      .replace(/<[^>]+>/g, '')
+  )
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+function htmlToMarkdown(html: string): string {
+  return decodeEntities(
+    html
+      .replace(/<h([1-6])[^>]*>([\s\S]*?)<\/h\1>/gi, (_, level, text) => `${'#'.repeat(Number(level))} ${text}\n\n`)
+      .replace(/<li[^>]*>([\s\S]*?)<\/li>/gi, '- $1\n')
+      .replace(/<\/(ul|ol)>/gi, '\n')
+      .replace(/<(strong|b)>([\s\S]*?)<\/\1>/gi, '**$2**')
+      .replace(/<(em|i)>([\s\S]*?)<\/\1>/gi, '_$2_')
+      .replace(/<a [^>]*href="([^"]*)"[^>]*>([\s\S]*?)<\/a>/gi, '[$2]($1)')
+      .replace(/<br\s*\/?>/gi, '\n')
+      .replace(/<\/p>/gi, '\n\n')
+      .replace(/<[^>]+>/g, '')
+  )
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+// ─── HTML → JSON RTE ───────────────────────────
+
+interface RteNode {
+  type?: string;
+  uid?: string;
+  attrs?: Record<string, unknown>;
+  children?: RteNode[];
+  text?: string;
+  bold?: boolean;
+  italic?: boolean;
+}
+
+function rteUid(): string {
+  return randomBytes(16).toString('hex');
+}
+
+function rteElement(type: string, children: RteNode[], attrs: Record<string, unknown> = {}): RteNode {
+  return { type, uid: rteUid(), attrs, children: children.length > 0 ? children : [{ text: '' }] };
+}
+
+/** Inline HTML → text leaves with bold/italic marks and link elements. */
+function inlineToRte(html: string): RteNode[] {
+  const nodes: RteNode[] = [];
+  const marks = { bold: 0, italic: 0 };
+  let link: RteNode | null = null;
+
+  for (const token of html.split(/(<[^>]+>)/)) {
+    if (!token) continue;
+    const tag = token.match(/^<(\/?)(\w+)([^>]*)>$/);
+    if (tag) {
+      const [, closing, name, rest] = tag;
+      const delta = closing ? -1 : 1;
+      const lower = name.toLowerCase();
+      if (lower === 'strong' || lower === 'b') marks.bold = Math.max(0, marks.bold + delta);
+      else if (lower === 'em' || lower === 'i') marks.italic = Math.max(0, marks.italic + delta);
+      else if (lower === 'br') (link?.children ?? nodes).push({ text: '\n' });
+      else if (lower === 'a' && !closing) {
+        const href = rest.match(/href="([^"]*)"/)?.[1] ?? '';
+        link = { type: 'a', uid: rteUid(), attrs: { url: href }, children: [] };
+      } else if (lower === 'a' && closing && link) {
+        nodes.push(link.children!.length > 0 ? link : { ...link, children: [{ text: '' }] });
+        link = null;
+      }
+      continue;
+    }
+
+    const leaf: RteNode = { text: decodeEntities(token) };
+    if (marks.bold) leaf.bold = true;
+    if (marks.italic) leaf.italic = true;
+    (link?.children ?? nodes).push(leaf);
+  }
+
+  if (link) nodes.push(link);
+  return nodes;
+}
+
+/** Convert generated HTML to a Contentstack JSON RTE document. Handles headings, paragraphs, lists, and quotes. */
+export function htmlToJsonRte(html: string): RteNode {
+  const blocks: RteNode[] = [];
+  const blockPattern = /<(h[1-6]|p|ul|ol|blockquote)\b[^>]*>([\s\S]*?)<\/\1>/gi;
+  let lastIndex = 0;
+
+  const pushLooseText = (text: string) => {
+    for (const para of text.split(/\n{2,}/)) {
+      if (para.replace(/<[^>]+>/g, '').trim()) blocks.push(rteElement('p', inlineToRte(para.trim())));
+    }
+  };
+
+  for (const match of html.matchAll(blockPattern)) {
+    pushLooseText(html.slice(lastIndex, match.index));
+    lastIndex = match.index! + match[0].length;
+
+    const tag = match[1].toLowerCase();
+    const inner = match[2];
+    if (tag === 'ul' || tag === 'ol') {
+      const items = [...inner.matchAll(/<li\b[^>]*>([\s\S]*?)<\/li>/gi)].map((li) =>
+        rteElement('li', inlineToRte(li[1].trim()))
+      );
+      blocks.push(rteElement(tag, items));
+    } else {
+      blocks.push(rteElement(tag, inlineToRte(inner.trim())));
+    }
+  }
+  pushLooseText(html.slice(lastIndex));
+
+  return rteElement('doc', blocks);
+}
@@ -0,0 +1,414 @@
+/**
+ * Bulk imports of Contentstack entries and assets into a Spark.
+ *
+ * These run as background jobs (see lib/jobs/handlers.ts): each import
+ * reports progress through the given reporter and queues embedding for
+ * the rows it inserts instead of embedding inline. Imports are idempotent
+ * — entries of a content type are replaced, already imported assets are
+ * skipped — so a retried job never duplicates items.
+ */
+
+import { supabaseAdmin } from '@/lib/supabase/admin';
+import { addLogEntry } from '@/lib/activity-logger';
+import { enqueueItemEmbedding, JobCancelledError, PermanentJobError } from '@/lib/jobs/queue';
+import { publishItemChanges, publishSparkEvent, userActor } from '@/lib/spark-events';
+import type { JobProgress } from '@/lib/types';
+import {
+  extractTextFromEntry,
+  getContentTypeSchema,
+  listAssets,
+  listEntries,
+  type CSAsset,
+  type CSFieldSchema,
+} from './api';
+
+const CDN_BASE = 'https://cdn.contentstack.io/v3';
+const INSERT_BATCH_SIZE = 25;
+const PAGE_SIZE = 100;
+
+/** Called with the latest progress; throws once the job has been cancelled. */
+export type ImportReporter = (progress: JobProgress) => Promise<void>;
+
+export interface ImportResult {
+  total_imported: number;
+  total_failed: number;
+  errors: string[];
+}
+
+// ─── Delivery API ───────────────────────────────
+
+export function getDeliveryCredentials(): { apiKey: string; deliveryToken: string } | null {
+  const apiKey = process.env.CONTENTSTACK_API_KEY;
+  const deliveryToken = process.env.CONTENTSTACK_DELIVERY_TOKEN;
+  if (!apiKey || !deliveryToken) return null;
+  return { apiKey, deliveryToken };
+}
+
+async function cdnGet<T>(path: string, apiKey: string, deliveryToken: string): Promise<T> {
+  const url = `${CDN_BASE}${path}`;
+  const start = Date.now();
+  const correlationId = `cs_cdn_${Date.now()}`;
+
+  addLogEntry({
+    service: 'contentstack',
+    direction: 'request',
+    level: 'info',
+    method: 'GET',
+    url,
+    summary: `CDN ${path}`,
+    correlationId,
+  });
+
+  const res = await fetch(url, {
+    headers: {
+      api_key: apiKey,
+      access_token: deliveryToken,
+      'Content-Type': 'application/json',
+    },
+  });
+
+  const duration = Date.now() - start;
+
+  if (!res.ok) {
+    const text = await res.text();
+    addLogEntry({
+      service: 'contentstack',
+      direction: 'response',
+      level: 'error',
+      method: 'GET',
+      url,
+      summary: `CDN ${path} — ${res.status}`,
+      statusCode: res.status,
+      duration,
+      error: text,
+      correlationId,
+    });
+    throw new Error(`CDN API ${path} failed (${res.status}): ${text}`);
+  }
+
+  const data = (await res.json()) as T;
+  addLogEntry({
+    service: 'contentstack',
+    direction: 'response',
+    level: 'info',
+    method: 'GET',
+    url,
+    summary: `CDN ${path} — 200`,
+    statusCode: 200,
+    duration,
+    correlationId,
+  });
+
+  return data;
+}
+
+// ─── Entries ────────────────────────────────────
+
+/** Where entries come from: the Delivery API (published) or the Management API (OAuth). */
+interface EntrySource {
+  stackApiKey: string;
+  stackName: string | null;
+  getSchema(ctUid: string): Promise<{ title: string; schema: CSFieldSchema[] }>;
+  listPage(ctUid: string, skip: number): Promise<{ entries: Record<string, unknown>[]; count: number }>;
+}
+
+/**
+ * Replace the Spark's items for each content type with the current
+ * entries. A content type that fails is recorded and the rest continue;
+ * the import only throws (so the job retries) when nothing was imported.
+ */
+async function importEntries(
+  sparkId: string,
+  contentTypeUids: string[],
+  source: EntrySource,
+  report: ImportReporter,
+  createdBy: string | null
+): Promise<ImportResult> {
+  const result: ImportResult = { total_imported: 0, total_failed: 0, errors: [] };
+  const log: string[] = [];
+  const actor = await userActor(createdBy);
+
+  for (const ctUid of contentTypeUids) {
+    let ctTitle = ctUid;
+
+    try {
+      // 1. Fetch content type schema
+      const schema = await source.getSchema(ctUid);
+      ctTitle = schema.title || ctUid;
+
+      // 2. Paginate all entries
+      const allEntries: Record<string, unknown>[] = [];
+      let skip = 0;
+      while (true) {
+        const page = await source.listPage(ctUid, skip);
+        allEntries.push(...(page.entries || []));
+        await report({
+          message: `Fetching ${ctTitle} entries`,
+          current: allEntries.length,
+          total: page.count,
+          log,
+        });
+        if (allEntries.length >= page.count || (page.entries || []).length < PAGE_SIZE) break;
+        skip += PAGE_SIZE;
+      }
+
+      // 3. Delete existing items for this CT + spark (idempotent re-import)
+      const { data: replaced } = await supabaseAdmin
+        .from('spark_items')
+        .delete()
+        .eq('spark_id', sparkId)
+        .eq('type', 'contentstack_entry')
+        .filter('metadata->>cs_stack_api_key', 'eq', source.stackApiKey)
+        .filter('metadata->>cs_content_type_uid', 'eq', ctUid)
+        .select('id');
+      if (replaced?.length) {
+        publishSparkEvent(sparkId, { type: 'items.deleted', itemIds: replaced.map((row) => row.id as string) }, actor);
+      }
+
+      // 4. Batch insert items, queueing embedding for each batch
+      let importedForCt = 0;
+      for (let i = 0; i < allEntries.length; i += INSERT_BATCH_SIZE) {
+        const batch = allEntries.slice(i, i + INSERT_BATCH_SIZE);
+        const rows = batch.map((entry) => {
+          const text = extractTextFromEntry(entry, schema.schema);
+          return {
+            spark_id: sparkId,
+            type: 'contentstack_entry',
+            title: (entry.title as string) || (entry.uid as string),
+            content: text || null,
+            summary: text ? text.slice(0, 300) : null,
+            metadata: {
+              cs_stack_api_key: source.stackApiKey,
+              ...(source.stackName ? { cs_stack_name: source.stackName } : {}),
+              cs_content_type_uid: ctUid,
+              cs_content_type_title: ctTitle,
+              cs_entry_uid: entry.uid,
+              cs_entry_locale: entry.locale || null,
+              cs_entry_url: entry.url || null,
+            },
+          };
+        });
+
+        const { data: inserted, error } = await supabaseAdmin
+          .from('spark_items')
+          .insert(rows)
+          .select('id');
+
+        if (error) {
+          console.error(`[contentstack-import] Insert batch error for CT ${ctUid}:`, error.message);
+          result.total_failed += batch.length;
+        } else {
+          importedForCt += inserted.length;
+          result.total_imported += inserted.length;
+          await enqueueItemEmbedding(sparkId, inserted.map((row) => row.id as string), { createdBy });
+          await publishItemChanges(sparkId, 'created', inserted.map((row) => row.id as string), actor);
+        }
+
+        await report({
+          message: `Importing ${ctTitle}`,
+          current: importedForCt,
+          total: allEntries.length,
+          log,
+        });
+      }
+
+      log.push(`${ctTitle}: ${importedForCt} entries`);
+    } catch (err) {
+      if (err instanceof JobCancelledError) throw err;
+      console.error(`[contentstack-import] Error processing CT ${ctUid}:`, err);
+      result.total_failed++;
+      result.errors.push(`Failed to import ${ctTitle}: ${err instanceof Error ? err.message : 'Unknown error'}`);
+      log.push(`${ctTitle}: failed`);
+    }
+  }
+
+  if (result.total_imported === 0 && result.errors.length > 0) {
+    throw new Error(result.errors.join('; '));
+  }
+
+  await report({ message: `Imported ${result.total_imported} entries`, log });
+  return result;
+}
+
+/** Import published entries through the Delivery API (env credentials). */
+export function importDeliveryEntries(
+  params: { sparkId: string; contentTypeUids: string[]; createdBy: string | null },
+  report: ImportReporter
+): Promise<ImportResult> {
+  const creds = getDeliveryCredentials();
+  if (!creds) {
+    throw new PermanentJobError('CONTENTSTACK_API_KEY and CONTENTSTACK_DELIVERY_TOKEN must be set in env');
+  }
+  const { apiKey, deliveryToken } = creds;
+
+  return importEntries(
+    params.sparkId,
+    params.contentTypeUids,
+    {
+      stackApiKey: apiKey,
+      stackName: null,
+      getSchema: async (ctUid) => {
+        const data = await cdnGet<{ content_type: { title: string; schema: CSFieldSchema[] } }>(
+          `/content_types/${encodeURIComponent(ctUid)}`,
+          apiKey,
+          deliveryToken
+        );
+        return data.content_type;
+      },
+      listPage: (ctUid, skip) =>
+        cdnGet<{ entries: Record<string, unknown>[]; count: number }>(
+          `/content_types/${encodeURIComponent(ctUid)}/entries?include_count=true&limit=${PAGE_SIZE}&skip=${skip}`,
+          apiKey,
+          deliveryToken
+        ),
+    },
+    report,
+    params.createdBy
+  );
+}
+
+/** Import entries of a stack the user picked, through the Management API. */
+export function importStackEntries(
+  params: {
+    sparkId: string;
+    token: string;
+    stackApiKey: string;
+    stackName: string | null;
+    contentTypeUids: string[];
+    createdBy: string | null;
+  },
+  report: ImportReporter
+): Promise<ImportResult> {
+  return importEntries(
+    params.sparkId,
+    params.contentTypeUids,
+    {
+      stackApiKey: params.stackApiKey,
+      stackName: params.stackName,
+      getSchema: (ctUid) => getContentTypeSchema(params.token, params.stackApiKey, ctUid),
+      listPage: (ctUid, skip) =>
+        listEntries(params.token, params.stackApiKey, ctUid, { skip, limit: PAGE_SIZE }),
+    },
+    report,
+    params.createdBy
+  );
+}
+
+// ─── Assets ─────────────────────────────────────
+
+/** Import assets (a folder, or picked asset uids) as contentstack_asset items. */
+export async function importStackAssets(
+  params: {
+    sparkId: string;
+    token: string;
+    stackApiKey: string;
+    stackName: string | null;
+    assetUids?: string[];
+    folderUid?: string;
+    createdBy: string | null;
+  },
+  report: ImportReporter
+): Promise<ImportResult> {
+  const { sparkId, token, stackApiKey } = params;
+  const result: ImportResult = { total_imported: 0, total_failed: 0, errors: [] };
+  const assetsToImport: CSAsset[] = [];
+  const actor = await userActor(params.createdBy);
+
+  await report({ message: 'Listing assets' });
+
+  if (params.folderUid) {
+    let skip = 0;
+    while (true) {
+      const page = await listAssets(token, stackApiKey, { skip, folder: params.folderUid });
+      assetsToImport.push(...page.assets);
+      if (assetsToImport.length >= page.count || page.assets.length < PAGE_SIZE) break;
+      skip += PAGE_SIZE;
+    }
+  } else if (params.assetUids && params.assetUids.length > 0) {
+    // The CS API can't fetch several uids in one call, so page and filter
+    const uidSet = new Set(params.assetUids);
+    let skip = 0;
+    while (true) {
+      const page = await listAssets(token, stackApiKey, { skip });
+      assetsToImport.push(...page.assets.filter((asset) => uidSet.has(asset.uid)));
+      if (assetsToImport.length >= uidSet.size || page.assets.length < PAGE_SIZE) break;
+      skip += PAGE_SIZE;
+    }
+  }
+
+  const total = assetsToImport.length;
+  await report({ message: 'Importing assets', current: 0, total });
+
+  for (const asset of assetsToImport) {
+    try {
+      // Already imported (by asset UID + spark) — skip
+      const { data: existing } = await supabaseAdmin
+        .from('spark_items')
+        .select('id')
+        .eq('spark_id', sparkId)
+        .eq('type', 'contentstack_asset')
+        .filter('metadata->>cs_asset_uid', 'eq', asset.uid)
+        .limit(1);
+
+      if (existing && existing.length > 0) {
+        result.total_imported++;
+      } else {
+        const isImage = asset.content_type?.startsWith('image/');
+        const { data: inserted, error } = await supabaseAdmin
+          .from('spark_items')
+          .insert({
+            spark_id: sparkId,
+            type: 'contentstack_asset',
+            title: asset.title || asset.filename,
+            content: asset.description || null,
+            summary: `${asset.filename} (${formatBytes(asset.file_size)})`,
+            metadata: {
+              cs_stack_api_key: stackApiKey,
+              cs_stack_name: params.stackName || null,
+              cs_asset_uid: asset.uid,
+              cs_asset_url: asset.url,
+              cs_asset_content_type: asset.content_type,
+              cs_asset_file_size: asset.file_size,
+              cs_asset_filename: asset.filename,
+              ...(isImage ? { image_url: asset.url } : {}),
+            },
+          })
+          .select('id')
+          .single();
+
+        if (error) {
+          console.error(`[contentstack-import] Insert error for asset ${asset.uid}:`, error.message);
+          result.total_failed++;
+        } else {
+          result.total_imported++;
+          // Images get a vision analysis and documents their text
+          // extracted before they are embedded
+          await enqueueItemEmbedding(sparkId, [inserted.id as string], {
+            createdBy: params.createdBy,
+            analyzeImages: isImage,
+            extractDocuments: !isImage,
+          });
+          await publishItemChanges(sparkId, 'created', [inserted.id as string], actor);
+        }
+      }
+    } catch (err) {
+      console.error(`[contentstack-import] Error for asset ${asset.uid}:`, err);
+      result.total_failed++;
+    }
+
+    await report({ message: 'Importing assets', current: result.total_imported, total });
+  }
+
+  if (total > 0 && result.total_imported === 0) {
+    throw new Error(`None of the ${total} assets could be imported`);
+  }
+
+  await report({ message: `Imported ${result.total_imported} assets` });
+  return result;
+}
+
+function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
@@ -88,6 +88,8 @@ export interface SessionData {
   email: string;
   display_name: string;
   organization_uid?: string;
+  cs_user_uid?: string;
+  user_id?: string; // our users.id
 }
 
 /** Build the Contentstack OAuth consent screen URL */
@@ -152,7 +154,7 @@ export async function refreshAccessToken(
 /** Fetch user info from Contentstack management API */
 export async function fetchUserInfo(
   accessToken: string
-): Promise<{ email: string; display_name: string; organization_uid?: string }> {
+): Promise<{ uid?: string; email: string; display_name: string; organization_uid?: string }> {
   const res = await fetch(`${CS_API_BASE}/v3/user`, {
     headers: { Authorization: `Bearer ${accessToken}` },
   });
@@ -173,6 +175,7 @@ export async function fetchUserInfo(
     : undefined;
 
   return {
+    uid: user.uid,
     email: user.email,
     display_name,
     organization_uid,
@@ -188,7 +191,7 @@ export async function storeSession(
   accessToken: string,
   refreshToken: string,
   expiresIn: number,
-  userInfo: { email: string; display_name: string; organization_uid?: string }
+  userInfo: { uid?: string; email: string; display_name: string; organization_uid?: string; user_id?: string }
 ): Promise<void> {
   const sessionData: SessionData = {
     access_token: accessToken,
@@ -197,6 +200,8 @@ export async function storeSession(
     email: userInfo.email,
     display_name: userInfo.display_name,
     organization_uid: userInfo.organization_uid,
+    cs_user_uid: userInfo.uid,
+    user_id: userInfo.user_id,
   };
 
   const encrypted = await encrypt(JSON.stringify(sessionData));
@@ -270,3 +275,32 @@ export async function decryptSessionFromValue(cookieValue: string): Promise<Sess
     return null;
   }
 }
+
+// ============================================
+// Sealed tokens for background jobs
+// ============================================
+
+type SealedTokens = Pick<SessionData, 'access_token' | 'refresh_token' | 'expires_at'>;
+
+/**
+ * Encrypt a session's tokens for a job payload, so a job that runs after
+ * the request (possibly on another instance) can still call the API.
+ */
+export async function sealSessionTokens(session: SessionData): Promise<string> {
+  const tokens: SealedTokens = {
+    access_token: session.access_token,
+    refresh_token: session.refresh_token,
+    expires_at: session.expires_at,
+  };
+  return encrypt(JSON.stringify(tokens));
+}
+
+/** Decrypt sealed tokens and return a usable access token, refreshing it if near expiry. */
+export async function openSealedAccessToken(sealed: string): Promise<string> {
+  const tokens: SealedTokens = JSON.parse(await decrypt(sealed));
+  if (tokens.expires_at >= Date.now() + 5 * 60 * 1000) {
+    return tokens.access_token;
+  }
+  const refreshed = await refreshAccessToken(tokens.refresh_token);
+  return refreshed.access_token;
+}
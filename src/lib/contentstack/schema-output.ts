@@ -0,0 +1,401 @@
+/**
+ * Generate entries that match a real Contentstack content type.
+ *
+ * contentTypeToJsonSchema turns a content type's field schema into a JSON
+ * Schema for a forced tool call; validateEntry checks what the model sent
+ * back against the same field schema and normalises it into entry shape.
+ *
+ * Rich text (HTML RTE and JSON RTE) is generated and stored as HTML — JSON
+ * RTE trees are converted only when the entry is sent to Contentstack
+ * (prepareEntryForPublish). References are limited to existing entries of
+ * the referenced content types, passed in as candidates.
+ */
+
+import type { CSFieldSchema } from './api';
+import { htmlToJsonRte } from './entry-mapping';
+import type { Validation } from '@/lib/structured-output';
+
+export interface ReferenceCandidate {
+  uid: string;
+  title: string;
+  content_type_uid: string;
+}
+
+type JsonSchema = Record<string, unknown>;
+
+type FieldKind =
+  | 'text'
+  | 'html'
+  | 'markdown'
+  | 'json_rte'
+  | 'select'
+  | 'number'
+  | 'boolean'
+  | 'isodate'
+  | 'link'
+  | 'group'
+  | 'blocks'
+  | 'reference';
+
+/** How we generate a field, or null for fields we leave empty (files, custom JSON, taxonomies). */
+function fieldKind(field: CSFieldSchema): FieldKind | null {
+  const meta = field.field_metadata || {};
+  const isSelect =
+    !!field.enum?.choices?.length &&
+    ['dropdown', 'radio', 'checkbox'].includes(field.display_type || '');
+
+  switch (field.data_type) {
+    case 'text':
+      if (isSelect) return 'select';
+      if (meta.allow_rich_text) return 'html';
+      if (meta.markdown) return 'markdown';
+      return 'text';
+    case 'number':
+      return isSelect ? 'select' : 'number';
+    case 'boolean':
+    case 'isodate':
+    case 'link':
+    case 'blocks':
+    case 'reference':
+      return field.data_type;
+    case 'group':
+    case 'global_field':
+      return field.schema ? 'group' : null;
+    case 'json':
+      return meta.allow_json_rte ? 'json_rte' : null;
+    default:
+      return null;
+  }
+}
+
+function referenceTargets(field: CSFieldSchema): string[] {
+  if (!field.reference_to) return [];
+  return Array.isArray(field.reference_to) ? field.reference_to : [field.reference_to];
+}
+
+/** Every content type uid referenced anywhere in the schema (including inside groups and blocks). */
+export function referencedContentTypes(schema: CSFieldSchema[]): string[] {
+  const uids = new Set<string>();
+  const walk = (fields: CSFieldSchema[]) => {
+    for (const field of fields) {
+      if (field.data_type === 'reference') referenceTargets(field).forEach((uid) => uids.add(uid));
+      if (field.schema) walk(field.schema);
+      for (const block of field.blocks || []) walk(block.schema);
+    }
+  };
+  walk(schema);
+  return [...uids];
+}
+
+/** Blocks and references are always stored as arrays (single references as one-element arrays). */
+function isMultiple(field: CSFieldSchema, kind: FieldKind): boolean {
+  if (kind === 'reference' || kind === 'blocks') return true;
+  return Boolean(field.multiple);
+}
+
+// ─── JSON Schema ───────────────────────────────
+
+function describe(field: CSFieldSchema, hint?: string): string {
+  const meta = field.field_metadata || {};
+  const parts = [field.display_name];
+  const note = (meta.instruction as string) || (meta.description as string);
+  if (note) parts.push(note);
+  if (hint) parts.push(hint);
+  return parts.join(' — ');
+}
+
+function singleValueSchema(
+  field: CSFieldSchema,
+  kind: FieldKind,
+  candidates: ReferenceCandidate[]
+): JsonSchema | null {
+  switch (kind) {
+    case 'text':
+      return {
+        type: 'string',
+        description: describe(field, field.field_metadata?.multiline ? 'plain text, may span lines' : 'plain text, single line'),
+      };
+    case 'html':
+    case 'json_rte':
+      return {
+        type: 'string',
+        description: describe(field, 'rich text as HTML (h2/h3, p, ul/ol/li, strong, em, a)'),
+      };
+    case 'markdown':
+      return { type: 'string', description: describe(field, 'Markdown') };
+    case 'select':
+      return {
+        type: field.data_type === 'number' ? 'number' : 'string',
+        enum: field.enum!.choices.map((c) => c.value),
+        description: describe(field),
+      };
+    case 'number':
+      return { type: 'number', description: describe(field) };
+    case 'boolean':
+      return { type: 'boolean', description: describe(field) };
+    case 'isodate':
+      return { type: 'string', description: describe(field, 'ISO 8601 date, e.g. 2025-01-31') };
+    case 'link':
+      return {
+        type: 'object',
+        description: describe(field),
+        properties: { title: { type: 'string' }, href: { type: 'string' } },
+        required: ['title', 'href'],
+      };
+    case 'group':
+      return { ...fieldsToObjectSchema(field.schema!, candidates), description: describe(field) };
+    case 'blocks':
+      return {
+        description: 'One block — exactly one of these keys',
+        anyOf: (field.blocks || []).map((block) => ({
+          type: 'object',
+          properties: { [block.uid]: { ...fieldsToObjectSchema(block.schema, candidates), description: block.title } },
+          required: [block.uid],
+        })),
+      };
+    case 'reference': {
+      const targets = referenceTargets(field);
+      const options = candidates.filter((c) => targets.includes(c.content_type_uid));
+      if (options.length === 0) return null;
+      return {
+        type: 'string',
+        enum: options.map((c) => c.uid),
+        description: describe(
+          field,
+          `uid of an existing entry: ${options.map((c) => `${c.uid} = "${c.title}"`).join('; ')}`
+        ),
+      };
+    }
+  }
+}
+
+function fieldSchema(field: CSFieldSchema, candidates: ReferenceCandidate[]): JsonSchema | null {
+  const kind = fieldKind(field);
+  if (!kind) return null;
+  const single = singleValueSchema(field, kind, candidates);
+  if (!single) return null;
+  if (!isMultiple(field, kind)) return single;
+  return {
+    type: 'array',
+    description: describe(field),
+    items: single,
+    ...(kind === 'reference' && field.field_metadata?.ref_multiple === false ? { maxItems: 1 } : {}),
+  };
+}
+
+function fieldsToObjectSchema(fields: CSFieldSchema[], candidates: ReferenceCandidate[]): JsonSchema {
+  const properties: Record<string, JsonSchema> = {};
+  const required: string[] = [];
+  for (const field of fields) {
+    const schema = fieldSchema(field, candidates);
+    if (!schema) continue;
+    properties[field.uid] = schema;
+    if (field.mandatory) required.push(field.uid);
+  }
+  return { type: 'object', properties, required };
+}
+
+/** JSON Schema for a full entry of the content type, usable as a tool input_schema. */
+export function contentTypeToJsonSchema(
+  schema: CSFieldSchema[],
+  candidates: ReferenceCandidate[] = []
+): JsonSchema & { type: 'object' } {
+  return fieldsToObjectSchema(schema, candidates) as JsonSchema & { type: 'object' };
+}
+
+// ─── Validation ────────────────────────────────
+
+function isEmpty(value: unknown): boolean {
+  return value === undefined || value === null || value === '' || (Array.isArray(value) && value.length === 0);
+}
+
+function validateSingle(
+  value: unknown,
+  field: CSFieldSchema,
+  kind: FieldKind,
+  path: string,
+  candidates: ReferenceCandidate[],
+  errors: string[]
+): unknown {
+  switch (kind) {
+    case 'text':
+    case 'html':
+    case 'markdown':
+    case 'json_rte':
+      if (typeof value !== 'string') {
+        errors.push(`${path} must be a string`);
+        return undefined;
+      }
+      return value;
+
+    case 'select': {
+      const choice = field.enum!.choices.find((c) => String(c.value) === String(value));
+      if (!choice) {
+        errors.push(`${path} must be one of: ${field.enum!.choices.map((c) => JSON.stringify(c.value)).join(', ')}`);
+        return undefined;
+      }
+      return choice.value;
+    }
+
+    case 'number': {
+      const n = typeof value === 'string' ? Number(value) : value;
+      if (typeof n !== 'number' || !Number.isFinite(n)) {
+        errors.push(`${path} must be a number`);
+        return undefined;
+      }
+      return n;
+    }
+
+    case 'boolean':
+      if (typeof value !== 'boolean') {
+        errors.push(`${path} must be true or false`);
+        return undefined;
+      }
+      return value;
+
+    case 'isodate':
+      if (typeof value !== 'string' || Number.isNaN(Date.parse(value))) {
+        errors.push(`${path} must be an ISO 8601 date`);
+        return undefined;
+      }
+      return value;
+
+    case 'link': {
+      const link = value as Record<string, unknown> | null;
+      if (!link || typeof link !== 'object' || typeof link.href !== 'string') {
+        errors.push(`${path} must be an object with title and href`);
+        return undefined;
+      }
+      return { title: typeof link.title === 'string' ? link.title : '', href: link.href };
+    }
+
+    case 'group':
+      if (!value || typeof value !== 'object' || Array.isArray(value)) {
+        errors.push(`${path} must be an object`);
+        return undefined;
+      }
+      return validateFields(value as Record<string, unknown>, field.schema!, path, candidates, errors);
+
+    case 'blocks': {
+      const block = value as Record<string, unknown> | null;
+      const keys = block && typeof block === 'object' ? Object.keys(block) : [];
+      const def = keys.length === 1 ? field.blocks?.find((b) => b.uid === keys[0]) : undefined;
+      if (!def) {
+        errors.push(
+          `${path} must be an object with exactly one of: ${(field.blocks || []).map((b) => b.uid).join(', ')}`
+        );
+        return undefined;
+      }
+      const inner = block![def.uid];
+      if (!inner || typeof inner !== 'object' || Array.isArray(inner)) {
+        errors.push(`${path}.${def.uid} must be an object`);
+        return undefined;
+      }
+      return { [def.uid]: validateFields(inner as Record<string, unknown>, def.schema, `${path}.${def.uid}`, candidates, errors) };
+    }
+
+    case 'reference': {
+      const uid = typeof value === 'object' && value !== null ? (value as Record<string, unknown>).uid : value;
+      const targets = referenceTargets(field);
+      const match = candidates.find((c) => c.uid === uid && targets.includes(c.content_type_uid));
+      if (!match) {
+        errors.push(`${path}: "${String(uid)}" is not an entry of ${targets.join(' / ')}`);
+        return undefined;
+      }
+      return { uid: match.uid, _content_type_uid: match.content_type_uid };
+    }
+  }
+}
+
+function validateFields(
+  input: Record<string, unknown>,
+  fields: CSFieldSchema[],
+  prefix: string,
+  candidates: ReferenceCandidate[],
+  errors: string[]
+): Record<string, unknown> {
+  const output: Record<string, unknown> = {};
+
+  for (const field of fields) {
+    const kind = fieldKind(field);
+    if (!kind) continue;
+    const path = prefix ? `${prefix}.${field.uid}` : field.uid;
+    const value = input[field.uid];
+
+    if (isEmpty(value)) {
+      if (field.mandatory) errors.push(`${path} (${field.display_name}) is required`);
+      continue;
+    }
+
+    if (isMultiple(field, kind)) {
+      const items = kind === 'reference' && !Array.isArray(value) ? [value] : value;
+      if (!Array.isArray(items)) {
+        errors.push(`${path} must be an array`);
+        continue;
+      }
+      if (kind === 'reference' && field.field_metadata?.ref_multiple === false && items.length > 1) {
+        errors.push(`${path} accepts only one entry`);
+        continue;
+      }
+      output[field.uid] = items
+        .map((item, i) => validateSingle(item, field, kind, `${path}[${i}]`, candidates, errors))
+        .filter((v) => v !== undefined);
+    } else {
+      const normalised = validateSingle(value, field, kind, path, candidates, errors);
+      if (normalised !== undefined) output[field.uid] = normalised;
+    }
+  }
+
+  return output;
+}
+
+/**
+ * Check a generated entry against the content type. Unknown keys are
+ * dropped; references are normalised to { uid, _content_type_uid }.
+ */
+export function validateEntry(
+  input: unknown,
+  schema: CSFieldSchema[],
+  candidates: ReferenceCandidate[] = []
+): Validation<Record<string, unknown>> {
+  if (!input || typeof input !== 'object' || Array.isArray(input)) {
+    return { ok: false, errors: ['The entry must be a JSON object'] };
+  }
+  const errors: string[] = [];
+  const value = validateFields(input as Record<string, unknown>, schema, '', candidates, errors);
+  return errors.length > 0 ? { ok: false, errors } : { ok: true, value };
+}
+
+// ─── Publish ───────────────────────────────────
+
+/** Convert a stored (HTML rich text) entry into what the Management API expects. */
+export function prepareEntryForPublish(
+  entry: Record<string, unknown>,
+  schema: CSFieldSchema[]
+): Record<string, unknown> {
+  const output: Record<string, unknown> = { ...entry };
+
+  for (const field of schema) {
+    const value = entry[field.uid];
+    if (value === undefined) continue;
+    const kind = fieldKind(field);
+
+    const convert = (item: unknown): unknown => {
+      if (kind === 'json_rte' && typeof item === 'string') return htmlToJsonRte(item);
+      if (kind === 'group' && item && typeof item === 'object') {
+        return prepareEntryForPublish(item as Record<string, unknown>, field.schema!);
+      }
+      if (kind === 'blocks' && item && typeof item === 'object') {
+        const [uid] = Object.keys(item);
+        const def = field.blocks?.find((b) => b.uid === uid);
+        const inner = (item as Record<string, unknown>)[uid];
+        return def ? { [uid]: prepareEntryForPublish(inner as Record<string, unknown>, def.schema) } : item;
+      }
+      return item;
+    };
+
+    output[field.uid] = Array.isArray(value) ? value.map(convert) : convert(value);
+  }
+
+  return output;
+}
@@ -0,0 +1,196 @@
+/**
+ * Editor comment threads, stored as rows in `comment_threads` and `comments`.
+ *
+ * The editor's comment marks carry the thread id, so threads are created
+ * with the id the editor generated. Rows are mapped to the camelCase
+ * CommentThread / ThreadComment shapes the UI works with.
+ */
+
+import { supabaseAdmin } from './supabase/admin';
+import type { CommentThread, ThreadComment } from './types';
+
+export const MAX_COMMENT_LENGTH = 10_000;
+
+export interface CommentThreadRow {
+  id: string;
+  spark_id: string;
+  selected_text: string;
+  resolved: boolean;
+  created_by: string | null;
+  version: number;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface CommentRow {
+  id: string;
+  thread_id: string;
+  spark_id: string;
+  author_id: string | null;
+  author_name: string;
+  content: string;
+  version: number;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface CommentAuthor {
+  id: string;
+  name: string;
+}
+
+export function toThreadComment(row: CommentRow): ThreadComment {
+  return {
+    id: row.id,
+    authorId: row.author_id,
+    authorName: row.author_name,
+    content: row.content,
+    createdAt: row.created_at,
+    version: row.version,
+  };
+}
+
+export function toCommentThread(row: CommentThreadRow, comments: CommentRow[]): CommentThread {
+  return {
+    id: row.id,
+    selectedText: row.selected_text,
+    resolved: row.resolved,
+    createdAt: row.created_at,
+    comments: comments.map(toThreadComment),
+    version: row.version,
+  };
+}
+
+/** All threads of a Spark with their comments, oldest first. */
+export async function loadCommentThreads(sparkId: string): Promise<CommentThread[]> {
+  const [threadsResult, commentsResult] = await Promise.all([
+    supabaseAdmin
+      .from('comment_threads')
+      .select('*')
+      .eq('spark_id', sparkId)
+      .order('created_at', { ascending: true }),
+    supabaseAdmin
+      .from('comments')
+      .select('*')
+      .eq('spark_id', sparkId)
+      .order('created_at', { ascending: true }),
+  ]);
+
+  if (threadsResult.error) throw new Error(threadsResult.error.message);
+  if (commentsResult.error) throw new Error(commentsResult.error.message);
+
+  const byThread = new Map<string, CommentRow[]>();
+  for (const comment of (commentsResult.data ?? []) as CommentRow[]) {
+    const list = byThread.get(comment.thread_id) ?? [];
+    list.push(comment);
+    byThread.set(comment.thread_id, list);
+  }
+
+  return ((threadsResult.data ?? []) as CommentThreadRow[]).map((thread) =>
+    toCommentThread(thread, byThread.get(thread.id) ?? [])
+  );
+}
+
+/** Open a thread with its first comment. Throws on database errors (including a duplicate id). */
+export async function createCommentThread(
+  sparkId: string,
+  input: { id: string; selectedText: string; content: string },
+  author: CommentAuthor
+): Promise<CommentThread> {
+  const { data: thread, error } = await supabaseAdmin
+    .from('comment_threads')
+    .insert({
+      id: input.id,
+      spark_id: sparkId,
+      selected_text: input.selectedText,
+      created_by: author.id,
+    })
+    .select()
+    .single();
+
+  if (error || !thread) throw new Error(error?.message ?? 'Failed to create thread');
+
+  try {
+    const comment = await insertComment(sparkId, input.id, input.content, author);
+    return toCommentThread(thread as CommentThreadRow, [comment]);
+  } catch (err) {
+    // A thread without its opening comment is useless — don't leave it behind
+    await supabaseAdmin.from('comment_threads').delete().eq('id', input.id);
+    throw err;
+  }
+}
+
+async function insertComment(
+  sparkId: string,
+  threadId: string,
+  content: string,
+  author: CommentAuthor
+): Promise<CommentRow> {
+  const { data, error } = await supabaseAdmin
+    .from('comments')
+    .insert({
+      thread_id: threadId,
+      spark_id: sparkId,
+      author_id: author.id,
+      author_name: author.name,
+      content,
+    })
+    .select()
+    .single();
+
+  if (error || !data) throw new Error(error?.message ?? 'Failed to add comment');
+  return data as CommentRow;
+}
+
+/** Reply to a thread. Returns null when the thread isn't in this Spark. */
+export async function addComment(
+  sparkId: string,
+  threadId: string,
+  content: string,
+  author: CommentAuthor
+): Promise<ThreadComment | null> {
+  const { data: thread } = await supabaseAdmin
+    .from('comment_threads')
+    .select('id')
+    .eq('id', threadId)
+    .eq('spark_id', sparkId)
+    .maybeSingle();
+
+  if (!thread) return null;
+  return toThreadComment(await insertComment(sparkId, threadId, content, author));
+}
+
+/**
+ * Insert threads as they are (ids, authors and timestamps included) —
+ * used when importing a Spark bundle. Comment ids are regenerated.
+ */
+export async function insertCommentThreads(sparkId: string, threads: CommentThread[]): Promise<void> {
+  if (threads.length === 0) return;
+
+  const { error: threadError } = await supabaseAdmin.from('comment_threads').insert(
+    threads.map((thread) => ({
+      id: thread.id,
+      spark_id: sparkId,
+      selected_text: thread.selectedText ?? '',
+      resolved: !!thread.resolved,
+      created_at: thread.createdAt,
+      updated_at: thread.createdAt,
+    }))
+  );
+  if (threadError) throw new Error(`Failed to import discussions: ${threadError.message}`);
+
+  const comments = threads.flatMap((thread) =>
+    (thread.comments ?? []).map((comment) => ({
+      thread_id: thread.id,
+      spark_id: sparkId,
+      author_name: comment.authorName || 'Unknown',
+      content: comment.content ?? '',
+      created_at: comment.createdAt,
+      updated_at: comment.createdAt,
+    }))
+  );
+  if (comments.length === 0) return;
+
+  const { error: commentError } = await supabaseAdmin.from('comments').insert(comments);
+  if (commentError) throw new Error(`Failed to import discussions: ${commentError.message}`);
+}
@@ -0,0 +1,142 @@
+import type { JSONContent } from '@tiptap/core';
+import { describe, expect, it } from 'vitest';
+import { diffDocuments, diffWords, documentBlocks } from './document-diff';
+
+const text = (value: string): JSONContent => ({ type: 'text', text: value });
+const paragraph = (value: string): JSONContent => ({ type: 'paragraph', content: [text(value)] });
+const doc = (...content: JSONContent[]): JSONContent => ({ type: 'doc', content });
+
+describe('documentBlocks', () => {
+  it('returns nothing for a missing document', () => {
+    expect(documentBlocks(null)).toEqual([]);
+    expect(documentBlocks(undefined)).toEqual([]);
+  });
+
+  it('flattens headings, lists, quotes, tables and rules into blocks', () => {
+    const blocks = documentBlocks(
+      doc(
+        { type: 'heading', attrs: { level: 2 }, content: [text('Plan')] },
+        {
+          type: 'orderedList',
+          attrs: { start: 3 },
+          content: [
+            {
+              type: 'listItem',
+              content: [
+                paragraph('First'),
+                { type: 'bulletList', content: [{ type: 'listItem', content: [paragraph('Nested')] }] },
+              ],
+            },
+            { type: 'listItem', content: [paragraph('Second')] },
+          ],
+        },
+        {
+          type: 'taskList',
+          content: [{ type: 'taskItem', attrs: { checked: true }, content: [paragraph('Done')] }],
+        },
+        { type: 'blockquote', content: [paragraph('Quoted')] },
+        {
+          type: 'table',
+          content: [
+            {
+              type: 'tableRow',
+              content: [
+                { type: 'tableCell', content: [paragraph('A')] },
+                { type: 'tableCell', content: [paragraph('B')] },
+              ],
+            },
+          ],
+        },
+        { type: 'horizontalRule' }
+      )
+    );
+
+    expect(blocks).toEqual([
+      { kind: 'heading', text: '## Plan' },
+      { kind: 'list', text: '3. First' },
+      { kind: 'list', text: '  • Nested' },
+      { kind: 'list', text: '4. Second' },
+      { kind: 'list', text: '☑ Done' },
+      { kind: 'quote', text: 'Quoted' },
+      { kind: 'table', text: '| A | B |' },
+      { kind: 'rule', text: '———' },
+    ]);
+  });
+
+  it('describes mentions, images and drawings as text', () => {
+    const blocks = documentBlocks(
+      doc(
+        {
+          type: 'paragraph',
+          content: [text('Ask '), { type: 'mention', attrs: { id: 'u1', label: 'Sam' } }, { type: 'hardBreak' }, text('today')],
+        },
+        { type: 'image', attrs: { src: '/a.png', alt: 'Chart' } },
+        { type: 'drawing', attrs: { paths: [{}] } }
+      )
+    );
+
+    expect(blocks).toEqual([
+      { kind: 'paragraph', text: 'Ask @Sam\ntoday' },
+      { kind: 'image', text: '[Image: Chart] /a.png' },
+      { kind: 'drawing', text: '[Drawing: 1 stroke]' },
+    ]);
+  });
+});
+
+describe('diffWords', () => {
+  it('marks replaced words and merges neighbouring tokens', () => {
+    expect(diffWords('the quick brown fox', 'the slow brown fox')).toEqual([
+      { status: 'unchanged', text: 'the ' },
+      { status: 'removed', text: 'quick' },
+      { status: 'added', text: 'slow' },
+      { status: 'unchanged', text: ' brown fox' },
+    ]);
+  });
+
+  it('treats empty input as all added or all removed', () => {
+    expect(diffWords('', 'new text')).toEqual([{ status: 'added', text: 'new text' }]);
+    expect(diffWords('old text', '')).toEqual([{ status: 'removed', text: 'old text' }]);
+  });
+});
+
+describe('diffDocuments', () => {
+  it('reports unchanged, added and removed blocks', () => {
+    const result = diffDocuments(doc(paragraph('Keep'), paragraph('Drop')), doc(paragraph('Keep'), { type: 'horizontalRule' }));
+
+    expect(result).toEqual([
+      { status: 'unchanged', block: { kind: 'paragraph', text: 'Keep' } },
+      { status: 'removed', block: { kind: 'paragraph', text: 'Drop' } },
+      { status: 'added', block: { kind: 'rule', text: '———' } },
+    ]);
+  });
+
+  it('shows a lightly edited block as changed with a word diff', () => {
+    const [change] = diffDocuments(doc(paragraph('Launch the beta in May')), doc(paragraph('Launch the beta in June')));
+
+    expect(change.status).toBe('changed');
+    if (change.status !== 'changed') return;
+    expect(change.before.text).toBe('Launch the beta in May');
+    expect(change.block.text).toBe('Launch the beta in June');
+    expect(change.words).toContainEqual({ status: 'removed', text: 'May' });
+    expect(change.words).toContainEqual({ status: 'added', text: 'June' });
+  });
+
+  it('shows a rewritten block as removed and added', () => {
+    const result = diffDocuments(doc(paragraph('Launch the beta in May')), doc(paragraph('Budget review postponed')));
+    expect(result.map((d) => d.status)).toEqual(['removed', 'added']);
+  });
+
+  it('does not pair blocks of different kinds', () => {
+    const result = diffDocuments(
+      doc(paragraph('Plan')),
+      doc({ type: 'heading', attrs: { level: 1 }, content: [text('Plan')] })
+    );
+    expect(result.map((d) => d.status)).toEqual(['removed', 'added']);
+  });
+
+  it('treats a missing document as empty', () => {
+    expect(diffDocuments(null, doc(paragraph('New')))).toEqual([
+      { status: 'added', block: { kind: 'paragraph', text: 'New' } },
+    ]);
+  });
+});
@@ -0,0 +1,241 @@
+/**
+ * Block-level diff between two editor documents, for the version history.
+ *
+ * Documents are flattened into blocks (a paragraph, a heading, one list
+ * item, one table row...), matched with an LCS, and blocks that were edited
+ * in place get a word-level diff. Pure functions — used in the browser.
+ */
+
+import type { JSONContent } from '@tiptap/core';
+
+export type DocumentBlockKind =
+  | 'heading'
+  | 'paragraph'
+  | 'list'
+  | 'quote'
+  | 'code'
+  | 'table'
+  | 'image'
+  | 'drawing'
+  | 'group'
+  | 'rule';
+
+export interface DocumentBlock {
+  kind: DocumentBlockKind;
+  text: string;
+}
+
+export interface WordChange {
+  status: 'unchanged' | 'added' | 'removed';
+  text: string;
+}
+
+export type DocumentBlockDiff =
+  | { status: 'unchanged' | 'added' | 'removed'; block: DocumentBlock }
+  | { status: 'changed'; block: DocumentBlock; before: DocumentBlock; words: WordChange[] };
+
+/** Above this many LCS cells the diff falls back to remove-all/add-all for the middle */
+const MAX_LCS_CELLS = 4_000_000;
+
+// ─── Flattening ─────────────────────────────────
+
+function inlineText(node: JSONContent): string {
+  if (node.type === 'text') return node.text ?? '';
+  if (node.type === 'hardBreak') return '\n';
+  if (node.type === 'mention') return `@${node.attrs?.label ?? node.attrs?.id ?? ''}`;
+  if (node.type === 'itemMention') return `@${node.attrs?.title ?? ''}`;
+  if (node.type === 'image') return `[Image${node.attrs?.alt ? `: ${node.attrs.alt}` : ''}]`;
+  return (node.content ?? []).map(inlineText).join('');
+}
+
+function flatten(node: JSONContent, blocks: DocumentBlock[], kind?: DocumentBlockKind, prefix = ''): void {
+  switch (node.type) {
+    case 'paragraph':
+      blocks.push({ kind: kind ?? 'paragraph', text: prefix + inlineText(node) });
+      return;
+    case 'heading':
+      blocks.push({ kind: 'heading', text: `${'#'.repeat(Number(node.attrs?.level) || 1)} ${inlineText(node)}` });
+      return;
+    case 'blockquote':
+      node.content?.forEach((child) => flatten(child, blocks, 'quote'));
+      return;
+    case 'bulletList':
+    case 'orderedList':
+    case 'taskList':
+      (node.content ?? []).forEach((item, i) => {
+        const marker =
+          node.type === 'orderedList'
+            ? `${(Number(node.attrs?.start) || 1) + i}. `
+            : node.type === 'taskList'
+              ? item.attrs?.checked ? '☑ ' : '☐ '
+              : '• ';
+        // Inside lists the prefix is the indentation of the enclosing item
+        const [first, ...rest] = item.content ?? [];
+        if (first) flatten(first, blocks, 'list', prefix + marker);
+        rest.forEach((child) => flatten(child, blocks, 'list', `${prefix}  `));
+      });
+      return;
+    case 'codeBlock':
+      blocks.push({ kind: 'code', text: inlineText(node) });
+      return;
+    case 'table':
+      for (const row of node.content ?? []) {
+        const cells = (row.content ?? []).map((cell) => (cell.content ?? []).map(inlineText).join(' ').trim());
+        blocks.push({ kind: 'table', text: `| ${cells.join(' | ')} |` });
+      }
+      return;
+    case 'image':
+      blocks.push({ kind: 'image', text: `[Image${node.attrs?.alt ? `: ${node.attrs.alt}` : ''}] ${node.attrs?.src ?? ''}`.trim() });
+      return;
+    case 'drawing': {
+      const strokes = Array.isArray(node.attrs?.paths) ? node.attrs.paths.length : 0;
+      blocks.push({ kind: 'drawing', text: `[Drawing: ${strokes} stroke${strokes === 1 ? '' : 's'}]` });
+      return;
+    }
+    case 'groupBlock': {
+      const items = Array.isArray(node.attrs?.items) ? (node.attrs.items as { title?: string }[]) : [];
+      const titles = items.map((item) => item.title).filter(Boolean).join(', ');
+      blocks.push({ kind: 'group', text: `[Group: ${node.attrs?.groupName || 'Group'}]${titles ? ` ${titles}` : ''}` });
+      return;
+    }
+    case 'horizontalRule':
+      blocks.push({ kind: 'rule', text: '———' });
+      return;
+    default:
+      node.content?.forEach((child) => flatten(child, blocks, kind, prefix));
+  }
+}
+
+export function documentBlocks(doc: JSONContent | null | undefined): DocumentBlock[] {
+  const blocks: DocumentBlock[] = [];
+  if (doc) flatten(doc, blocks);
+  return blocks;
+}
+
+// ─── Diff ───────────────────────────────────────
+
+type Op<T> = { status: 'unchanged' | 'added' | 'removed'; value: T };
+
+/** LCS diff of two sequences, after trimming the common prefix and suffix */
+function diffSequences<T>(a: T[], b: T[], equal: (x: T, y: T) => boolean): Op<T>[] {
+  let start = 0;
+  while (start < a.length && start < b.length && equal(a[start], b[start])) start++;
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && equal(a[endA - 1], b[endB - 1])) {
+    endA--;
+    endB--;
+  }
+
+  const head: Op<T>[] = a.slice(0, start).map((value) => ({ status: 'unchanged', value }));
+  const tail: Op<T>[] = a.slice(endA).map((value) => ({ status: 'unchanged', value }));
+  const midA = a.slice(start, endA);
+  const midB = b.slice(start, endB);
+
+  if (midA.length * midB.length > MAX_LCS_CELLS) {
+    return [
+      ...head,
+      ...midA.map((value) => ({ status: 'removed' as const, value })),
+      ...midB.map((value) => ({ status: 'added' as const, value })),
+      ...tail,
+    ];
+  }
+
+  // lengths[i][j] = LCS length of midA[i..] and midB[j..]
+  const cols = midB.length + 1;
+  const lengths = new Uint32Array((midA.length + 1) * cols);
+  for (let i = midA.length - 1; i >= 0; i--) {
+    for (let j = midB.length - 1; j >= 0; j--) {
+      lengths[i * cols + j] = equal(midA[i], midB[j])
+        ? lengths[(i + 1) * cols + j + 1] + 1
+        : Math.max(lengths[(i + 1) * cols + j], lengths[i * cols + j + 1]);
+    }
+  }
+
+  const middle: Op<T>[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < midA.length && j < midB.length) {
+    if (equal(midA[i], midB[j])) {
+      middle.push({ status: 'unchanged', value: midA[i] });
+      i++;
+      j++;
+    } else if (lengths[(i + 1) * cols + j] >= lengths[i * cols + j + 1]) {
+      middle.push({ status: 'removed', value: midA[i++] });
+    } else {
+      middle.push({ status: 'added', value: midB[j++] });
+    }
+  }
+  while (i < midA.length) middle.push({ status: 'removed', value: midA[i++] });
+  while (j < midB.length) middle.push({ status: 'added', value: midB[j++] });
+
+  return [...head, ...middle, ...tail];
+}
+
+/** Word-level diff of two strings; whitespace runs are kept as their own tokens */
+export function diffWords(before: string, after: string): WordChange[] {
+  const tokenize = (text: string) => text.match(/\s+|[^\s]+/g) ?? [];
+  const ops = diffSequences(tokenize(before), tokenize(after), (x, y) => x === y);
+
+  // Merge neighbouring tokens with the same status into one span
+  const changes: WordChange[] = [];
+  for (const op of ops) {
+    const last = changes[changes.length - 1];
+    if (last && last.status === op.status) last.text += op.value;
+    else changes.push({ status: op.status, text: op.value });
+  }
+  return changes;
+}
+
+/** Share of the (non-whitespace) text left unchanged — decides edit-in-place vs. replace */
+function similarity(words: WordChange[]): number {
+  let kept = 0;
+  let total = 0;
+  for (const word of words) {
+    if (!word.text.trim()) continue;
+    if (word.status === 'unchanged') kept += word.text.length;
+    total += word.text.length;
+  }
+  return total === 0 ? 1 : kept / total;
+}
+
+/**
+ * Diff two documents block by block. A removed block directly followed by
+ * an added block of the same kind that keeps enough of its words is shown
+ * as one edited block with a word diff.
+ */
+export function diffDocuments(before: JSONContent | null | undefined, after: JSONContent | null | undefined): DocumentBlockDiff[] {
+  const ops = diffSequences(
+    documentBlocks(before),
+    documentBlocks(after),
+    (x, y) => x.kind === y.kind && x.text === y.text
+  );
+
+  const result: DocumentBlockDiff[] = [];
+  for (let i = 0; i < ops.length; i++) {
+    if (ops[i].status !== 'removed') {
+      result.push({ status: ops[i].status, block: ops[i].value });
+      continue;
+    }
+
+    // Collect the run of removals and the run of additions after it
+    const removed: DocumentBlock[] = [];
+    while (i < ops.length && ops[i].status === 'removed') removed.push(ops[i++].value);
+    const added: DocumentBlock[] = [];
+    while (i < ops.length && ops[i].status === 'added') added.push(ops[i++].value);
+    i--;
+
+    const pairs = Math.min(removed.length, added.length);
+    for (let k = 0; k < pairs; k++) {
+      const words = diffWords(removed[k].text, added[k].text);
+      if (removed[k].kind === added[k].kind && similarity(words) >= 0.4) {
+        result.push({ status: 'changed', block: added[k], before: removed[k], words });
+      } else {
+        result.push({ status: 'removed', block: removed[k] }, { status: 'added', block: added[k] });
+      }
+    }
+    removed.slice(pairs).forEach((block) => result.push({ status: 'removed', block }));
+    added.slice(pairs).forEach((block) => result.push({ status: 'added', block }));
+  }
+  return result;
+}
@@ -0,0 +1,179 @@
+/**
+ * Pieces shared by the HTML, Markdown and DOCX writers: the options every
+ * writer takes, comment footnote numbering, inline run grouping and the
+ * SVG for drawing nodes.
+ */
+
+import type { JSONContent } from '@tiptap/core';
+import type { CommentThread } from '../types';
+
+/** How comment marks come out: numbered footnotes with the thread, or not at all */
+export type CommentMode = 'footnotes' | 'drop';
+
+export interface DocumentExportOptions {
+  title: string;
+  comments: CommentMode;
+  /** The Spark's discussion threads, looked up by the comment marks' threadId */
+  threads: CommentThread[];
+}
+
+// ─── Footnotes ──────────────────────────────────
+
+export interface Footnote {
+  number: number;
+  thread: CommentThread;
+}
+
+/**
+ * Numbers comment threads in the order their marks appear. Unknown and
+ * resolved threads get no footnote.
+ */
+export class FootnoteRegistry {
+  private byThread = new Map<string, Footnote>();
+  private threads: Map<string, CommentThread>;
+
+  constructor(private options: DocumentExportOptions) {
+    this.threads = new Map(options.threads.map((thread) => [thread.id, thread]));
+  }
+
+  /** Footnote number for a thread, assigning the next one on first use */
+  refFor(threadId: string): number | null {
+    if (this.options.comments === 'drop') return null;
+    const existing = this.byThread.get(threadId);
+    if (existing) return existing.number;
+
+    const thread = this.threads.get(threadId);
+    if (!thread || thread.resolved || thread.comments.length === 0) return null;
+
+    const footnote = { number: this.byThread.size + 1, thread };
+    this.byThread.set(threadId, footnote);
+    return footnote.number;
+  }
+
+  get footnotes(): Footnote[] {
+    return [...this.byThread.values()];
+  }
+}
+
+/** One line per comment: "Author: text" */
+export function footnoteLines(thread: CommentThread): string[] {
+  return thread.comments.map((comment) => `${comment.authorName}: ${comment.content}`);
+}
+
+// ─── Inline content ─────────────────────────────
+
+export interface InlineRun {
+  node: JSONContent;
+  /** Comment threads whose marked range ends after this node */
+  endingThreads: string[];
+}
+
+function threadIds(node: JSONContent): string[] {
+  return (node.marks ?? [])
+    .filter((mark) => mark.type === 'commentMark' && mark.attrs?.threadId)
+    .map((mark) => mark.attrs!.threadId as string);
+}
+
+/**
+ * Inline nodes paired with the comment ranges that close after each one,
+ * which is where a footnote reference goes.
+ */
+export function inlineRuns(content: JSONContent[] = []): InlineRun[] {
+  return content.map((node, i) => {
+    const next = new Set(i + 1 < content.length ? threadIds(content[i + 1]) : []);
+    return { node, endingThreads: threadIds(node).filter((id) => !next.has(id)) };
+  });
+}
+
+export function hasMark(node: JSONContent, type: string): boolean {
+  return (node.marks ?? []).some((mark) => mark.type === type);
+}
+
+export function markAttrs(node: JSONContent, type: string): Record<string, unknown> | null {
+  return (node.marks ?? []).find((mark) => mark.type === type)?.attrs ?? null;
+}
+
+/** `@label` text of a person or item mention, or null for any other node */
+export function mentionText(node: JSONContent): string | null {
+  if (node.type === 'mention') return `@${node.attrs?.label ?? node.attrs?.id ?? ''}`;
+  if (node.type === 'itemMention') return `@${node.attrs?.title ?? ''}`;
+  return null;
+}
+
+/** Plain text of a node and its descendants */
+export function plainText(node: JSONContent): string {
+  if (node.type === 'text') return node.text ?? '';
+  if (node.type === 'hardBreak') return '\n';
+  const mention = mentionText(node);
+  if (mention !== null) return mention;
+  return (node.content ?? []).map(plainText).join('');
+}
+
+/** Only http(s), mailto and in-page links survive export */
+export function safeHref(href: unknown): string | null {
+  if (typeof href !== 'string') return null;
+  return /^(https?:|mailto:|#)/i.test(href.trim()) ? href.trim() : null;
+}
+
+/** Remote images and inline raster data URLs; anything else is dropped */
+export function safeImageSrc(src: unknown): string | null {
+  if (typeof src !== 'string') return null;
+  return /^(https?:|data:image\/(png|jpe?g|gif|webp);base64,)/i.test(src.trim()) ? src.trim() : null;
+}
+
+// ─── Custom nodes ───────────────────────────────
+
+export interface GroupBlockItem {
+  title: string;
+  type: string;
+  summary: string | null;
+}
+
+/** The fields of a groupBlock node that export, with defaults for old documents */
+export function groupBlockContent(node: JSONContent): {
+  name: string;
+  items: GroupBlockItem[];
+  conversation: string | null;
+} {
+  const attrs = node.attrs ?? {};
+  return {
+    name: (attrs.groupName as string) || 'Group',
+    items: Array.isArray(attrs.items) ? (attrs.items as GroupBlockItem[]) : [],
+    conversation: (attrs.conversation as string | null) || null,
+  };
+}
+
+const DRAWING_WIDTH = 800;
+const PATH_DATA = /^[MLHVCSQTAZmlhvcsqtaz0-9.,\s-]+$/;
+const HEX_COLOR = /^#[0-9a-f]{3,8}$/i;
+
+/**
+ * Standalone SVG for a drawing node (800 units wide, like the editor).
+ * Paths and colours are validated so stored attributes can't inject markup.
+ */
+export function drawingSvg(node: JSONContent): { svg: string; width: number; height: number } {
+  const height = Number(node.attrs?.height) > 0 ? Number(node.attrs?.height) : 200;
+  const paths = (Array.isArray(node.attrs?.paths) ? node.attrs!.paths : []) as { d?: unknown; color?: unknown; width?: unknown }[];
+
+  const elements = paths
+    .filter((path) => typeof path.d === 'string' && PATH_DATA.test(path.d))
+    .map((path) => {
+      const color = typeof path.color === 'string' && HEX_COLOR.test(path.color) ? path.color : '#222222';
+      const width = Number(path.width) > 0 ? Number(path.width) : 2;
+      return `<path d="${path.d}" stroke="${color}" stroke-width="${width}" fill="none" stroke-linecap="round" stroke-linejoin="round"/>`;
+    });
+
+  return {
+    svg: `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${DRAWING_WIDTH} ${height}" width="${DRAWING_WIDTH}" height="${height}">${elements.join('')}</svg>`,
+    width: DRAWING_WIDTH,
+    height,
+  };
+}
+
+export function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
@@ -0,0 +1,570 @@
+/**
+ * Editor document → DOCX (Office Open XML), written directly with fflate.
+ *
+ * Headings, lists, quotes, code and tables map to Word styles and
+ * numbering so the file stays editable. Images are fetched and embedded;
+ * drawings are rasterised to PNG because Word's SVG support needs a PNG
+ * fallback anyway. Comment threads become real Word footnotes.
+ */
+
+import { strToU8, zipSync } from 'fflate';
+import sharp from 'sharp';
+import type { JSONContent } from '@tiptap/core';
+import {
+  FootnoteRegistry,
+  drawingSvg,
+  escapeXml,
+  footnoteLines,
+  groupBlockContent,
+  hasMark,
+  inlineRuns,
+  markAttrs,
+  plainText,
+  safeHref,
+  safeImageSrc,
+  type DocumentExportOptions,
+} from './common';
+
+const IMAGE_TIMEOUT_MS = 10_000;
+const MAX_IMAGE_BYTES = 10 * 1024 * 1024;
+/** Text width of a Letter page with 1" margins */
+const TEXT_WIDTH_TWIPS = 9360;
+const TEXT_WIDTH_EMU = 6 * 914400;
+const EMU_PER_PX = 9525;
+
+const NS = {
+  w: 'http://schemas.openxmlformats.org/wordprocessingml/2006/main',
+  r: 'http://schemas.openxmlformats.org/officeDocument/2006/relationships',
+  wp: 'http://schemas.openxmlformats.org/drawingml/2006/wordprocessingDrawing',
+  a: 'http://schemas.openxmlformats.org/drawingml/2006/main',
+  pic: 'http://schemas.openxmlformats.org/drawingml/2006/picture',
+  rel: 'http://schemas.openxmlformats.org/officeDocument/2006/relationships',
+};
+
+const REL_TYPES = {
+  styles: `${NS.rel}/styles`,
+  numbering: `${NS.rel}/numbering`,
+  footnotes: `${NS.rel}/footnotes`,
+  settings: `${NS.rel}/settings`,
+  hyperlink: `${NS.rel}/hyperlink`,
+  image: `${NS.rel}/image`,
+};
+
+const XML_HEADER = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n';
+
+// ─── Images ─────────────────────────────────────
+
+interface PreparedImage {
+  data: Uint8Array;
+  extension: 'png' | 'jpeg' | 'gif';
+  width: number;
+  height: number;
+}
+
+async function loadImageBytes(src: string): Promise<Buffer | null> {
+  const dataUrl = src.match(/^data:image\/[\w+.-]+;base64,(.*)$/i);
+  if (dataUrl) return Buffer.from(dataUrl[1], 'base64');
+
+  const response = await fetch(src, { signal: AbortSignal.timeout(IMAGE_TIMEOUT_MS), redirect: 'follow' });
+  if (!response.ok) return null;
+  const buffer = Buffer.from(await response.arrayBuffer());
+  return buffer.byteLength > MAX_IMAGE_BYTES ? null : buffer;
+}
+
+/** Normalise an image to a format Word embeds natively and read its size. */
+async function prepareImage(input: Buffer): Promise<PreparedImage | null> {
+  const image = sharp(input, { animated: false });
+  const meta = await image.metadata();
+  if (!meta.width || !meta.height) return null;
+
+  if (meta.format === 'png' || meta.format === 'jpeg' || meta.format === 'gif') {
+    return { data: new Uint8Array(input), extension: meta.format, width: meta.width, height: meta.height };
+  }
+  const png = await image.png().toBuffer();
+  return { data: new Uint8Array(png), extension: 'png', width: meta.width, height: meta.height };
+}
+
+/** Fetch and convert every image and drawing up front so rendering can stay synchronous. */
+async function prepareImages(doc: JSONContent): Promise<Map<JSONContent, PreparedImage>> {
+  const nodes: JSONContent[] = [];
+  const walk = (node: JSONContent) => {
+    if (node.type === 'image' || node.type === 'drawing') nodes.push(node);
+    node.content?.forEach(walk);
+  };
+  walk(doc);
+
+  const prepared = new Map<JSONContent, PreparedImage>();
+  await Promise.all(
+    nodes.map(async (node) => {
+      try {
+        let input: Buffer | null = null;
+        if (node.type === 'drawing') {
+          input = await sharp(Buffer.from(drawingSvg(node).svg)).png().toBuffer();
+        } else {
+          const src = safeImageSrc(node.attrs?.src);
+          input = src ? await loadImageBytes(src) : null;
+        }
+        const image = input ? await prepareImage(input) : null;
+        if (image) prepared.set(node, image);
+      } catch (err) {
+        console.error('[document-export] Could not embed image:', err instanceof Error ? err.message : err);
+      }
+    })
+  );
+  return prepared;
+}
+
+// ─── Writer ─────────────────────────────────────
+
+interface BlockContext {
+  /** Paragraph style for plain paragraphs (e.g. Quote inside a blockquote) */
+  style?: string;
+  /** List nesting depth, for indentation of non-list paragraphs inside items */
+  depth: number;
+}
+
+interface Relationship {
+  id: string;
+  type: string;
+  target: string;
+  external?: boolean;
+}
+
+class DocxWriter {
+  private relationships: Relationship[] = [
+    { id: 'rId1', type: REL_TYPES.styles, target: 'styles.xml' },
+    { id: 'rId2', type: REL_TYPES.numbering, target: 'numbering.xml' },
+    { id: 'rId3', type: REL_TYPES.footnotes, target: 'footnotes.xml' },
+    { id: 'rId4', type: REL_TYPES.settings, target: 'settings.xml' },
+  ];
+  private hyperlinks = new Map<string, string>();
+  readonly media: Record<string, Uint8Array> = {};
+  /** Ordered lists each get their own numbering instance so they restart at their start value */
+  private orderedLists: { numId: number; level: number; start: number }[] = [];
+  private drawingCount = 0;
+  readonly footnotes: FootnoteRegistry;
+
+  constructor(
+    options: DocumentExportOptions,
+    private images: Map<JSONContent, PreparedImage>
+  ) {
+    this.footnotes = new FootnoteRegistry(options);
+  }
+
+  private addRelationship(type: string, target: string, external = false): string {
+    const id = `rId${this.relationships.length + 1}`;
+    this.relationships.push({ id, type, target, external });
+    return id;
+  }
+
+  private hyperlinkId(href: string): string {
+    let id = this.hyperlinks.get(href);
+    if (!id) {
+      id = this.addRelationship(REL_TYPES.hyperlink, href, true);
+      this.hyperlinks.set(href, id);
+    }
+    return id;
+  }
+
+  // ── Runs ──
+
+  private textRun(text: string, props: string[] = []): string {
+    const rPr = props.length ? `<w:rPr>${props.join('')}</w:rPr>` : '';
+    const parts = text.split('\n').map((line) => `<w:t xml:space="preserve">${escapeXml(line)}</w:t>`);
+    return `<w:r>${rPr}${parts.join('<w:br/>')}</w:r>`;
+  }
+
+  private imageRun(image: PreparedImage, description: string): string {
+    const n = ++this.drawingCount;
+    const target = `media/image${n}.${image.extension}`;
+    this.media[`word/${target}`] = image.data;
+    const rid = this.addRelationship(REL_TYPES.image, target);
+
+    const scale = Math.min(1, TEXT_WIDTH_EMU / (image.width * EMU_PER_PX));
+    const cx = Math.round(image.width * EMU_PER_PX * scale);
+    const cy = Math.round(image.height * EMU_PER_PX * scale);
+    const descr = escapeXml(description);
+
+    return (
+      `<w:r><w:drawing><wp:inline distT="0" distB="0" distL="0" distR="0">` +
+      `<wp:extent cx="${cx}" cy="${cy}"/><wp:docPr id="${n}" name="Picture ${n}" descr="${descr}"/>` +
+      `<wp:cNvGraphicFramePr><a:graphicFrameLocks noChangeAspect="1"/></wp:cNvGraphicFramePr>` +
+      `<a:graphic><a:graphicData uri="${NS.pic}"><pic:pic>` +
+      `<pic:nvPicPr><pic:cNvPr id="${n}" name="image${n}.${image.extension}" descr="${descr}"/><pic:cNvPicPr/></pic:nvPicPr>` +
+      `<pic:blipFill><a:blip r:embed="${rid}"/><a:stretch><a:fillRect/></a:stretch></pic:blipFill>` +
+      `<pic:spPr><a:xfrm><a:off x="0" y="0"/><a:ext cx="${cx}" cy="${cy}"/></a:xfrm><a:prstGeom prst="rect"><a:avLst/></a:prstGeom></pic:spPr>` +
+      `</pic:pic></a:graphicData></a:graphic></wp:inline></w:drawing></w:r>`
+    );
+  }
+
+  private imageOrAlt(node: JSONContent, fallback: string): string {
+    const image = this.images.get(node);
+    if (image) return this.imageRun(image, String(node.attrs?.alt ?? fallback));
+    const src = safeImageSrc(node.attrs?.src);
+    const label = `[${node.attrs?.alt || fallback}]`;
+    return src && !src.startsWith('data:')
+      ? `<w:hyperlink r:id="${this.hyperlinkId(src)}" w:history="1">${this.textRun(label, ['<w:rStyle w:val="Hyperlink"/>'])}</w:hyperlink>`
+      : this.textRun(label);
+  }
+
+  private inline(content: JSONContent[] | undefined): string {
+    return inlineRuns(content)
+      .map(({ node, endingThreads }) => {
+        let xml = this.inlineNode(node);
+        for (const threadId of endingThreads) {
+          const n = this.footnotes.refFor(threadId);
+          if (n !== null) {
+            xml += `<w:r><w:rPr><w:rStyle w:val="FootnoteReference"/></w:rPr><w:footnoteReference w:id="${n}"/></w:r>`;
+          }
+        }
+        return xml;
+      })
+      .join('');
+  }
+
+  private inlineNode(node: JSONContent): string {
+    if (node.type === 'hardBreak') return '<w:r><w:br/></w:r>';
+    if (node.type === 'mention' || node.type === 'itemMention') return this.textRun(plainText(node));
+    if (node.type === 'image') return this.imageOrAlt(node, 'Image');
+    if (node.type !== 'text') return '';
+
+    const href = safeHref(markAttrs(node, 'link')?.href);
+    // rPr children must follow the schema order
+    const props = [
+      href ? '<w:rStyle w:val="Hyperlink"/>' : hasMark(node, 'code') ? '<w:rStyle w:val="InlineCode"/>' : '',
+      hasMark(node, 'bold') ? '<w:b/>' : '',
+      hasMark(node, 'italic') ? '<w:i/>' : '',
+      hasMark(node, 'strike') ? '<w:strike/>' : '',
+      hasMark(node, 'underline') ? '<w:u w:val="single"/>' : '',
+    ].filter(Boolean);
+
+    const run = this.textRun(node.text ?? '', props);
+    return href ? `<w:hyperlink r:id="${this.hyperlinkId(href)}" w:history="1">${run}</w:hyperlink>` : run;
+  }
+
+  // ── Blocks ──
+
+  private paragraph(runs: string, pPr: string[] = []): string {
+    const props = pPr.filter(Boolean);
+    return `<w:p>${props.length ? `<w:pPr>${props.join('')}</w:pPr>` : ''}${runs}</w:p>`;
+  }
+
+  private styled(style: string | undefined, ctx: BlockContext): string[] {
+    return [
+      style ? `<w:pStyle w:val="${style}"/>` : '',
+      ctx.depth > 0 ? `<w:ind w:left="${720 * ctx.depth}"/>` : '',
+    ];
+  }
+
+  blocks(content: JSONContent[] | undefined, ctx: BlockContext): string {
+    return (content ?? []).map((node) => this.block(node, ctx)).join('');
+  }
+
+  private block(node: JSONContent, ctx: BlockContext): string {
+    switch (node.type) {
+      case 'paragraph':
+        return this.paragraph(this.inline(node.content), this.styled(ctx.style, ctx));
+      case 'heading': {
+        const level = Math.min(Math.max(Number(node.attrs?.level) || 1, 1), 6);
+        return this.paragraph(this.inline(node.content), [`<w:pStyle w:val="Heading${level}"/>`]);
+      }
+      case 'blockquote':
+        return this.blocks(node.content, { ...ctx, style: 'Quote' });
+      case 'bulletList':
+      case 'orderedList':
+        return this.list(node, ctx);
+      case 'taskList':
+        return (node.content ?? [])
+          .map((item) => {
+            const box = item.attrs?.checked ? '☑ ' : '☐ ';
+            const [first, ...rest] = item.content ?? [];
+            const firstXml = first?.type === 'paragraph'
+              ? this.paragraph(this.textRun(box) + this.inline(first.content), this.styled(ctx.style, ctx))
+              : this.paragraph(this.textRun(box), this.styled(ctx.style, ctx)) + (first ? this.block(first, ctx) : '');
+            return firstXml + this.blocks(rest, { ...ctx, depth: ctx.depth + 1 });
+          })
+          .join('');
+      case 'codeBlock': {
+        const code = (node.content ?? []).map((child) => child.text ?? '').join('');
+        return this.paragraph(this.textRun(code), ['<w:pStyle w:val="Code"/>', ctx.depth > 0 ? `<w:ind w:left="${720 * ctx.depth}"/>` : '']);
+      }
+      case 'horizontalRule':
+        return this.paragraph('', ['<w:pBdr><w:bottom w:val="single" w:sz="6" w:space="1" w:color="auto"/></w:pBdr>']);
+      case 'image':
+        return this.paragraph(this.imageOrAlt(node, 'Image'), this.styled(undefined, ctx));
+      case 'drawing':
+        return this.paragraph(this.imageOrAlt(node, 'Drawing'), this.styled(undefined, ctx));
+      case 'table':
+        return this.table(node);
+      case 'groupBlock': {
+        const group = groupBlockContent(node);
+        const heading = this.paragraph(this.textRun(group.name), ['<w:pStyle w:val="Heading3"/>']);
+        const items = group.items.length
+          ? group.items
+              .map((item) =>
+                this.paragraph(
+                  this.textRun(item.title, ['<w:b/>']) +
+                    this.textRun(` (${item.type})${item.summary ? ` — ${item.summary}` : ''}`),
+                  ['<w:pStyle w:val="ListParagraph"/>', '<w:numPr><w:ilvl w:val="0"/><w:numId w:val="1"/></w:numPr>']
+                )
+              )
+              .join('')
+          : this.paragraph(this.textRun('No items', ['<w:i/>']));
+        const conversation = group.conversation
+          ? this.paragraph(this.textRun(group.conversation), ['<w:pStyle w:val="Quote"/>'])
+          : '';
+        return heading + items + conversation;
+      }
+      default:
+        return node.content ? this.blocks(node.content, ctx) : '';
+    }
+  }
+
+  private list(node: JSONContent, ctx: BlockContext): string {
+    const level = Math.min(ctx.depth, 8);
+    let numId = 1;
+    if (node.type === 'orderedList') {
+      numId = 2 + this.orderedLists.length;
+      this.orderedLists.push({ numId, level, start: Number(node.attrs?.start) || 1 });
+    }
+    const numPr = `<w:numPr><w:ilvl w:val="${level}"/><w:numId w:val="${numId}"/></w:numPr>`;
+
+    return (node.content ?? [])
+      .map((item) => {
+        const [first, ...rest] = item.content ?? [];
+        const nested = { ...ctx, depth: ctx.depth + 1 };
+        const firstXml = first?.type === 'paragraph'
+          ? this.paragraph(this.inline(first.content), ['<w:pStyle w:val="ListParagraph"/>', numPr])
+          : this.paragraph('', ['<w:pStyle w:val="ListParagraph"/>', numPr]) + (first ? this.block(first, nested) : '');
+        return firstXml + this.blocks(rest, nested);
+      })
+      .join('');
+  }
+
+  private table(node: JSONContent): string {
+    const rows = node.content ?? [];
+    const columns = Math.max(
+      1,
+      ...rows.map((row) => (row.content ?? []).reduce((sum, cell) => sum + (Number(cell.attrs?.colspan) || 1), 0))
+    );
+    const colWidth = Math.floor(TEXT_WIDTH_TWIPS / columns);
+    const grid = Array.from({ length: columns }, () => `<w:gridCol w:w="${colWidth}"/>`).join('');
+
+    const rowXml = rows
+      .map((row) => {
+        const isHeader = (row.content ?? []).every((cell) => cell.type === 'tableHeader');
+        const cells = (row.content ?? [])
+          .map((cell) => {
+            const span = Number(cell.attrs?.colspan) || 1;
+            const tcPr = [
+              `<w:tcW w:w="${colWidth * span}" w:type="dxa"/>`,
+              span > 1 ? `<w:gridSpan w:val="${span}"/>` : '',
+              cell.type === 'tableHeader' ? '<w:shd w:val="clear" w:color="auto" w:fill="F2F2F2"/>' : '',
+            ].join('');
+            // Every cell needs at least one paragraph
+            const body = this.blocks(cell.content, { depth: 0 }) || this.paragraph('');
+            return `<w:tc><w:tcPr>${tcPr}</w:tcPr>${body}</w:tc>`;
+          })
+          .join('');
+        return `<w:tr>${isHeader ? '<w:trPr><w:tblHeader/></w:trPr>' : ''}${cells}</w:tr>`;
+      })
+      .join('');
+
+    // A paragraph after the table keeps consecutive tables from merging
+    return (
+      `<w:tbl><w:tblPr><w:tblStyle w:val="TableGrid"/><w:tblW w:w="0" w:type="auto"/></w:tblPr>` +
+      `<w:tblGrid>${grid}</w:tblGrid>${rowXml}</w:tbl>` +
+      this.paragraph('')
+    );
+  }
+
+  // ── Package parts ──
+
+  documentXml(body: string): string {
+    return (
+      XML_HEADER +
+      `<w:document xmlns:w="${NS.w}" xmlns:r="${NS.r}" xmlns:wp="${NS.wp}" xmlns:a="${NS.a}" xmlns:pic="${NS.pic}">` +
+      `<w:body>${body}<w:sectPr><w:pgSz w:w="12240" w:h="15840"/>` +
+      `<w:pgMar w:top="1440" w:right="1440" w:bottom="1440" w:left="1440" w:header="720" w:footer="720" w:gutter="0"/>` +
+      `<w:footnotePr><w:numFmt w:val="decimal"/></w:footnotePr></w:sectPr></w:body></w:document>`
+    );
+  }
+
+  relationshipsXml(): string {
+    return (
+      XML_HEADER +
+      `<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">` +
+      this.relationships
+        .map((rel) =>
+          `<Relationship Id="${rel.id}" Type="${rel.type}" Target="${escapeXml(rel.target)}"${rel.external ? ' TargetMode="External"' : ''}/>`
+        )
+        .join('') +
+      `</Relationships>`
+    );
+  }
+
+  footnotesXml(): string {
+    const notes = this.footnotes.footnotes
+      .map(({ number, thread }) => {
+        const quote = this.paragraph(
+          `<w:r><w:rPr><w:rStyle w:val="FootnoteReference"/></w:rPr><w:footnoteRef/></w:r>` +
+            this.textRun(` “${thread.selectedText}”`, ['<w:i/>']),
+          ['<w:pStyle w:val="FootnoteText"/>']
+        );
+        const comments = footnoteLines(thread)
+          .map((line) => this.paragraph(this.textRun(line), ['<w:pStyle w:val="FootnoteText"/>']))
+          .join('');
+        return `<w:footnote w:id="${number}">${quote}${comments}</w:footnote>`;
+      })
+      .join('');
+
+    return (
+      XML_HEADER +
+      `<w:footnotes xmlns:w="${NS.w}" xmlns:r="${NS.r}">` +
+      `<w:footnote w:type="separator" w:id="-1"><w:p><w:r><w:separator/></w:r></w:p></w:footnote>` +
+      `<w:footnote w:type="continuationSeparator" w:id="0"><w:p><w:r><w:continuationSeparator/></w:r></w:p></w:footnote>` +
+      notes +
+      `</w:footnotes>`
+    );
+  }
+
+  numberingXml(): string {
+    const levels = (format: 'bullet' | 'decimal') =>
+      Array.from({ length: 9 }, (_, level) => {
+        const text = format === 'bullet' ? ['•', '◦', '▪'][level % 3] : `%${level + 1}.`;
+        return (
+          `<w:lvl w:ilvl="${level}"><w:start w:val="1"/><w:numFmt w:val="${format}"/><w:lvlText w:val="${text}"/>` +
+          `<w:lvlJc w:val="left"/><w:pPr><w:ind w:left="${720 * (level + 1)}" w:hanging="360"/></w:pPr></w:lvl>`
+        );
+      }).join('');
+
+    const orderedNums = this.orderedLists
+      .map(({ numId, level, start }) =>
+        `<w:num w:numId="${numId}"><w:abstractNumId w:val="1"/>` +
+        `<w:lvlOverride w:ilvl="${level}"><w:startOverride w:val="${start}"/></w:lvlOverride></w:num>`
+      )
+      .join('');
+
+    return (
+      XML_HEADER +
+      `<w:numbering xmlns:w="${NS.w}">` +
+      `<w:abstractNum w:abstractNumId="0"><w:multiLevelType w:val="hybridMultilevel"/>${levels('bullet')}</w:abstractNum>` +
+      `<w:abstractNum w:abstractNumId="1"><w:multiLevelType w:val="hybridMultilevel"/>${levels('decimal')}</w:abstractNum>` +
+      `<w:num w:numId="1"><w:abstractNumId w:val="0"/></w:num>` +
+      orderedNums +
+      `</w:numbering>`
+    );
+  }
+}
+
+// ─── Static parts ───────────────────────────────
+
+function stylesXml(): string {
+  const heading = (level: number, size: number) =>
+    `<w:style w:type="paragraph" w:styleId="Heading${level}"><w:name w:val="heading ${level}"/><w:basedOn w:val="Normal"/>` +
+    `<w:next w:val="Normal"/><w:qFormat/><w:pPr><w:keepNext/><w:spacing w:before="${level <= 2 ? 360 : 240}" w:after="120"/>` +
+    `<w:outlineLvl w:val="${level - 1}"/></w:pPr><w:rPr><w:b/><w:sz w:val="${size}"/></w:rPr></w:style>`;
+
+  return (
+    XML_HEADER +
+    `<w:styles xmlns:w="${NS.w}">` +
+    `<w:docDefaults><w:rPrDefault><w:rPr><w:rFonts w:ascii="Calibri" w:hAnsi="Calibri" w:eastAsia="Calibri" w:cs="Calibri"/>` +
+    `<w:sz w:val="22"/><w:szCs w:val="22"/></w:rPr></w:rPrDefault>` +
+    `<w:pPrDefault><w:pPr><w:spacing w:after="160" w:line="276" w:lineRule="auto"/></w:pPr></w:pPrDefault></w:docDefaults>` +
+    `<w:style w:type="paragraph" w:default="1" w:styleId="Normal"><w:name w:val="Normal"/><w:qFormat/></w:style>` +
+    [heading(1, 36), heading(2, 30), heading(3, 26), heading(4, 24), heading(5, 22), heading(6, 22)].join('') +
+    `<w:style w:type="paragraph" w:styleId="Quote"><w:name w:val="Quote"/><w:basedOn w:val="Normal"/><w:qFormat/>` +
+    `<w:pPr><w:pBdr><w:left w:val="single" w:sz="18" w:space="8" w:color="6C5CE7"/></w:pBdr><w:ind w:left="360"/></w:pPr>` +
+    `<w:rPr><w:i/><w:color w:val="555555"/></w:rPr></w:style>` +
+    `<w:style w:type="paragraph" w:styleId="Code"><w:name w:val="Code"/><w:basedOn w:val="Normal"/>` +
+    `<w:pPr><w:shd w:val="clear" w:color="auto" w:fill="F5F5F7"/><w:spacing w:after="160" w:line="240" w:lineRule="auto"/></w:pPr>` +
+    `<w:rPr><w:rFonts w:ascii="Consolas" w:hAnsi="Consolas" w:cs="Consolas"/><w:sz w:val="19"/></w:rPr></w:style>` +
+    `<w:style w:type="paragraph" w:styleId="ListParagraph"><w:name w:val="List Paragraph"/><w:basedOn w:val="Normal"/>` +
+    `<w:qFormat/><w:pPr><w:spacing w:after="60"/><w:contextualSpacing/></w:pPr></w:style>` +
+    `<w:style w:type="paragraph" w:styleId="FootnoteText"><w:name w:val="footnote text"/><w:basedOn w:val="Normal"/>` +
+    `<w:pPr><w:spacing w:after="40" w:line="240" w:lineRule="auto"/></w:pPr><w:rPr><w:sz w:val="18"/></w:rPr></w:style>` +
+    `<w:style w:type="character" w:styleId="FootnoteReference"><w:name w:val="footnote reference"/>` +
+    `<w:rPr><w:vertAlign w:val="superscript"/></w:rPr></w:style>` +
+    `<w:style w:type="character" w:styleId="Hyperlink"><w:name w:val="Hyperlink"/>` +
+    `<w:rPr><w:color w:val="0563C1"/><w:u w:val="single"/></w:rPr></w:style>` +
+    `<w:style w:type="character" w:styleId="InlineCode"><w:name w:val="Inline Code"/>` +
+    `<w:rPr><w:rFonts w:ascii="Consolas" w:hAnsi="Consolas" w:cs="Consolas"/><w:shd w:val="clear" w:color="auto" w:fill="F5F5F7"/></w:rPr></w:style>` +
+    `<w:style w:type="table" w:styleId="TableGrid"><w:name w:val="Table Grid"/><w:tblPr><w:tblBorders>` +
+    ['top', 'left', 'bottom', 'right', 'insideH', 'insideV']
+      .map((side) => `<w:${side} w:val="single" w:sz="4" w:space="0" w:color="D0D0D0"/>`)
+      .join('') +
+    `</w:tblBorders><w:tblCellMar><w:left w:w="108" w:type="dxa"/><w:right w:w="108" w:type="dxa"/></w:tblCellMar></w:tblPr></w:style>` +
+    `</w:styles>`
+  );
+}
+
+function settingsXml(): string {
+  return (
+    XML_HEADER +
+    `<w:settings xmlns:w="${NS.w}"><w:footnotePr><w:footnote w:id="-1"/><w:footnote w:id="0"/></w:footnotePr></w:settings>`
+  );
+}
+
+function contentTypesXml(): string {
+  const wordml = 'application/vnd.openxmlformats-officedocument.wordprocessingml';
+  return (
+    XML_HEADER +
+    `<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">` +
+    `<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>` +
+    `<Default Extension="xml" ContentType="application/xml"/>` +
+    `<Default Extension="png" ContentType="image/png"/>` +
+    `<Default Extension="jpeg" ContentType="image/jpeg"/>` +
+    `<Default Extension="gif" ContentType="image/gif"/>` +
+    `<Override PartName="/word/document.xml" ContentType="${wordml}.document.main+xml"/>` +
+    `<Override PartName="/word/styles.xml" ContentType="${wordml}.styles+xml"/>` +
+    `<Override PartName="/word/numbering.xml" ContentType="${wordml}.numbering+xml"/>` +
+    `<Override PartName="/word/footnotes.xml" ContentType="${wordml}.footnotes+xml"/>` +
+    `<Override PartName="/word/settings.xml" ContentType="${wordml}.settings+xml"/>` +
+    `<Override PartName="/docProps/core.xml" ContentType="application/vnd.openxmlformats-package.core-properties+xml"/>` +
+    `</Types>`
+  );
+}
+
+function rootRelationshipsXml(): string {
+  return (
+    XML_HEADER +
+    `<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">` +
+    `<Relationship Id="rId1" Type="${NS.rel}/officeDocument" Target="word/document.xml"/>` +
+    `<Relationship Id="rId2" Type="http://schemas.openxmlformats.org/package/2006/relationships/metadata/core-properties" Target="docProps/core.xml"/>` +
+    `</Relationships>`
+  );
+}
+
+function corePropertiesXml(title: string): string {
+  const now = new Date().toISOString().replace(/\.\d+Z$/, 'Z');
+  return (
+    XML_HEADER +
+    `<cp:coreProperties xmlns:cp="http://schemas.openxmlformats.org/package/2006/metadata/core-properties" ` +
+    `xmlns:dc="http://purl.org/dc/elements/1.1/" xmlns:dcterms="http://purl.org/dc/terms/" ` +
+    `xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance">` +
+    `<dc:title>${escapeXml(title)}</dc:title>` +
+    `<dcterms:created xsi:type="dcterms:W3CDTF">${now}</dcterms:created>` +
+    `<dcterms:modified xsi:type="dcterms:W3CDTF">${now}</dcterms:modified>` +
+    `</cp:coreProperties>`
+  );
+}
+
+export async function documentToDocx(doc: JSONContent, options: DocumentExportOptions): Promise<Uint8Array> {
+  const images = await prepareImages(doc);
+  const writer = new DocxWriter(options, images);
+  // Render the body first: it registers hyperlinks, images, lists and footnotes
+  const body = writer.blocks(doc.content, { depth: 0 }) || '<w:p/>';
+
+  return zipSync({
+    '[Content_Types].xml': strToU8(contentTypesXml()),
+    '_rels/.rels': strToU8(rootRelationshipsXml()),
+    'docProps/core.xml': strToU8(corePropertiesXml(options.title)),
+    'word/document.xml': strToU8(writer.documentXml(body)),
+    'word/_rels/document.xml.rels': strToU8(writer.relationshipsXml()),
+    'word/styles.xml': strToU8(stylesXml()),
+    'word/numbering.xml': strToU8(writer.numberingXml()),
+    'word/footnotes.xml': strToU8(writer.footnotesXml()),
+    'word/settings.xml': strToU8(settingsXml()),
+    ...Object.fromEntries(Object.entries(writer.media).map(([path, data]) => [path, [data, { level: 0 }] as const])),
+  });
+}
@@ -0,0 +1,187 @@
+/**
+ * Editor document → standalone HTML page.
+ *
+ * Semantic markup only (no editor classes), with a small embedded
+ * stylesheet so the file reads well when opened directly.
+ */
+
+import type { JSONContent } from '@tiptap/core';
+import {
+  FootnoteRegistry,
+  drawingSvg,
+  escapeXml as escape,
+  footnoteLines,
+  groupBlockContent,
+  inlineRuns,
+  markAttrs,
+  mentionText,
+  safeHref,
+  safeImageSrc,
+  type DocumentExportOptions,
+} from './common';
+
+const STYLES = `
+body { font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", sans-serif; line-height: 1.6; color: #222; max-width: 760px; margin: 40px auto; padding: 0 20px; }
+img, svg { max-width: 100%; height: auto; }
+pre { background: #f5f5f7; padding: 12px; border-radius: 6px; overflow-x: auto; }
+code { font-family: Menlo, Consolas, monospace; font-size: 0.9em; }
+blockquote { border-left: 3px solid #6c5ce7; margin-left: 0; padding-left: 16px; color: #555; }
+table { border-collapse: collapse; }
+th, td { border: 1px solid #ddd; padding: 6px 10px; text-align: left; vertical-align: top; }
+ul.task-list { list-style: none; padding-left: 0; }
+section.group { border: 1px solid #ddd; border-left: 4px solid var(--group-color, #6c5ce7); border-radius: 6px; padding: 4px 16px; margin: 16px 0; }
+section.footnotes { border-top: 1px solid #ddd; margin-top: 32px; font-size: 0.9em; }
+`.trim();
+
+function renderInline(content: JSONContent[] | undefined, footnotes: FootnoteRegistry): string {
+  return inlineRuns(content)
+    .map(({ node, endingThreads }) => {
+      let html = renderInlineNode(node);
+      for (const threadId of endingThreads) {
+        const n = footnotes.refFor(threadId);
+        if (n !== null) html += `<sup id="fnref-${n}"><a href="#fn-${n}">${n}</a></sup>`;
+      }
+      return html;
+    })
+    .join('');
+}
+
+function renderInlineNode(node: JSONContent): string {
+  if (node.type === 'hardBreak') return '<br>';
+  const mention = mentionText(node);
+  if (mention !== null) return `<span class="mention">${escape(mention)}</span>`;
+  if (node.type === 'image') return renderImage(node);
+  if (node.type !== 'text') return '';
+
+  let html = escape(node.text ?? '');
+  for (const mark of node.marks ?? []) {
+    switch (mark.type) {
+      case 'bold': html = `<strong>${html}</strong>`; break;
+      case 'italic': html = `<em>${html}</em>`; break;
+      case 'strike': html = `<s>${html}</s>`; break;
+      case 'underline': html = `<u>${html}</u>`; break;
+      case 'code': html = `<code>${html}</code>`; break;
+    }
+  }
+  const href = safeHref(markAttrs(node, 'link')?.href);
+  return href ? `<a href="${escape(href)}">${html}</a>` : html;
+}
+
+function renderImage(node: JSONContent): string {
+  const src = safeImageSrc(node.attrs?.src);
+  if (!src) return '';
+  const alt = escape(String(node.attrs?.alt ?? ''));
+  const title = node.attrs?.title ? ` title="${escape(String(node.attrs.title))}"` : '';
+  return `<img src="${escape(src)}" alt="${alt}"${title}>`;
+}
+
+function renderBlocks(content: JSONContent[] | undefined, footnotes: FootnoteRegistry): string {
+  return (content ?? []).map((node) => renderBlock(node, footnotes)).join('\n');
+}
+
+function renderBlock(node: JSONContent, footnotes: FootnoteRegistry): string {
+  const children = () => renderBlocks(node.content, footnotes);
+  const inline = () => renderInline(node.content, footnotes);
+
+  switch (node.type) {
+    case 'paragraph':
+      return `<p>${inline()}</p>`;
+    case 'heading': {
+      const level = Math.min(Math.max(Number(node.attrs?.level) || 1, 1), 6);
+      return `<h${level}>${inline()}</h${level}>`;
+    }
+    case 'blockquote':
+      return `<blockquote>\n${children()}\n</blockquote>`;
+    case 'bulletList':
+      return `<ul>\n${children()}\n</ul>`;
+    case 'orderedList': {
+      const start = Number(node.attrs?.start) || 1;
+      return `<ol${start !== 1 ? ` start="${start}"` : ''}>\n${children()}\n</ol>`;
+    }
+    case 'listItem':
+      return `<li>${children()}</li>`;
+    case 'taskList':
+      return `<ul class="task-list">\n${children()}\n</ul>`;
+    case 'taskItem':
+      return `<li><input type="checkbox" disabled${node.attrs?.checked ? ' checked' : ''}> ${children()}</li>`;
+    case 'codeBlock': {
+      const language = typeof node.attrs?.language === 'string' && /^[\w+-]+$/.test(node.attrs.language)
+        ? ` class="language-${node.attrs.language}"`
+        : '';
+      const code = (node.content ?? []).map((child) => child.text ?? '').join('');
+      return `<pre><code${language}>${escape(code)}</code></pre>`;
+    }
+    case 'horizontalRule':
+      return '<hr>';
+    case 'image':
+      return `<p>${renderImage(node)}</p>`;
+    case 'table':
+      return `<table>\n${children()}\n</table>`;
+    case 'tableRow':
+      return `<tr>${children()}</tr>`;
+    case 'tableHeader':
+    case 'tableCell': {
+      const tag = node.type === 'tableHeader' ? 'th' : 'td';
+      const colspan = Number(node.attrs?.colspan) > 1 ? ` colspan="${node.attrs!.colspan}"` : '';
+      const rowspan = Number(node.attrs?.rowspan) > 1 ? ` rowspan="${node.attrs!.rowspan}"` : '';
+      return `<${tag}${colspan}${rowspan}>${children()}</${tag}>`;
+    }
+    case 'drawing':
+      return `<figure class="drawing">${drawingSvg(node).svg}</figure>`;
+    case 'groupBlock': {
+      const group = groupBlockContent(node);
+      const color = typeof node.attrs?.color === 'string' && /^#[0-9a-f]{3,8}$/i.test(node.attrs.color)
+        ? ` style="--group-color: ${node.attrs.color}"`
+        : '';
+      const items = group.items.length
+        ? `<ul>\n${group.items
+            .map((item) =>
+              `<li><strong>${escape(item.title)}</strong> <small>(${escape(item.type)})</small>${
+                item.summary ? ` — ${escape(item.summary)}` : ''
+              }</li>`
+            )
+            .join('\n')}\n</ul>`
+        : '<p><em>No items</em></p>';
+      const conversation = group.conversation
+        ? `\n<blockquote>${escape(group.conversation).replace(/\n/g, '<br>')}</blockquote>`
+        : '';
+      return `<section class="group"${color}>\n<h3>${escape(group.name)}</h3>\n${items}${conversation}\n</section>`;
+    }
+    default:
+      // Unknown block nodes keep their children
+      return node.content ? renderBlocks(node.content, footnotes) : '';
+  }
+}
+
+export function documentToHtml(doc: JSONContent, options: DocumentExportOptions): string {
+  const footnotes = new FootnoteRegistry(options);
+  const body = renderBlocks(doc.content, footnotes);
+
+  const notes = footnotes.footnotes.length
+    ? `\n<section class="footnotes">\n<ol>\n${footnotes.footnotes
+        .map(({ number, thread }) =>
+          `<li id="fn-${number}"><blockquote>${escape(thread.selectedText)}</blockquote>${footnoteLines(thread)
+            .map((line) => `<p>${escape(line)}</p>`)
+            .join('')} <a href="#fnref-${number}">↩</a></li>`
+        )
+        .join('\n')}\n</ol>\n</section>`
+    : '';
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escape(options.title)}</title>
+<style>
+${STYLES}
+</style>
+</head>
+<body>
+<article>
+${body}${notes}
+</article>
+</body>
+</html>
+`;
+}
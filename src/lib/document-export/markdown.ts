@@ -0,0 +1,199 @@
+/**
+ * Editor document → GitHub-flavored Markdown.
+ *
+ * Underline has no Markdown syntax and is written as <u>. Drawings become
+ * images with an SVG data URL; comment threads become GFM footnotes.
+ */
+
+import type { JSONContent } from '@tiptap/core';
+import {
+  FootnoteRegistry,
+  drawingSvg,
+  footnoteLines,
+  groupBlockContent,
+  inlineRuns,
+  markAttrs,
+  mentionText,
+  safeHref,
+  safeImageSrc,
+  type DocumentExportOptions,
+} from './common';
+
+function escapeText(text: string): string {
+  return text.replace(/([\\`*_[\]<>~|])/g, '\\$1');
+}
+
+/** Escape characters that would turn the start of a line into a block marker */
+function escapeLineStart(line: string): string {
+  return line.replace(/^(\s*)([#>+-]|\d+[.)])(?=\s|$)/, (_, space, marker) => `${space}\\${marker}`);
+}
+
+/** Put delimiters inside surrounding whitespace — "** bold**" isn't bold */
+function wrap(text: string, open: string, close = open): string {
+  const match = text.match(/^(\s*)([\s\S]*?)(\s*)$/);
+  if (!match || !match[2]) return text;
+  return `${match[1]}${open}${match[2]}${close}${match[3]}`;
+}
+
+function codeSpan(text: string): string {
+  const longest = Math.max(0, ...(text.match(/`+/g) ?? []).map((run) => run.length));
+  const fence = '`'.repeat(longest + 1);
+  const pad = text.startsWith('`') || text.endsWith('`') ? ' ' : '';
+  return `${fence}${pad}${text}${pad}${fence}`;
+}
+
+function renderImage(node: JSONContent): string {
+  const src = safeImageSrc(node.attrs?.src);
+  if (!src) return '';
+  const alt = String(node.attrs?.alt ?? '').replace(/[[\]]/g, '');
+  const title = node.attrs?.title ? ` "${String(node.attrs.title).replace(/"/g, '\\"')}"` : '';
+  return `![${alt}](${src}${title})`;
+}
+
+function renderInline(content: JSONContent[] | undefined, footnotes: FootnoteRegistry, inTable = false): string {
+  return inlineRuns(content)
+    .map(({ node, endingThreads }) => {
+      let text = renderInlineNode(node, inTable);
+      for (const threadId of endingThreads) {
+        const n = footnotes.refFor(threadId);
+        if (n !== null) text += `[^${n}]`;
+      }
+      return text;
+    })
+    .join('');
+}
+
+function renderInlineNode(node: JSONContent, inTable: boolean): string {
+  if (node.type === 'hardBreak') return inTable ? '<br>' : '\\\n';
+  const mention = mentionText(node);
+  if (mention !== null) return `@${escapeText(mention.slice(1))}`;
+  if (node.type === 'image') return renderImage(node);
+  if (node.type !== 'text') return '';
+
+  const marks = new Set((node.marks ?? []).map((mark) => mark.type));
+  let text = marks.has('code') ? codeSpan(node.text ?? '') : escapeText(node.text ?? '');
+  if (inTable) text = text.replace(/\n/g, '<br>');
+
+  if (marks.has('bold')) text = wrap(text, '**');
+  if (marks.has('italic')) text = wrap(text, '_');
+  if (marks.has('strike')) text = wrap(text, '~~');
+  if (marks.has('underline')) text = wrap(text, '<u>', '</u>');
+
+  const href = safeHref(markAttrs(node, 'link')?.href);
+  if (!href) return text;
+  const target = href.replace(/[()\s]/g, (c) => `%${c.charCodeAt(0).toString(16).toUpperCase().padStart(2, '0')}`);
+  return wrap(text, '[', `](${target})`);
+}
+
+/** Indent every line after the first, for list item continuation */
+function indent(text: string, width: number): string {
+  const pad = ' '.repeat(width);
+  return text
+    .split('\n')
+    .map((line, i) => (i === 0 || !line ? line : pad + line))
+    .join('\n');
+}
+
+function renderList(node: JSONContent, footnotes: FootnoteRegistry): string {
+  const start = Number(node.attrs?.start) || 1;
+  return (node.content ?? [])
+    .map((item, i) => {
+      const marker =
+        node.type === 'orderedList'
+          ? `${start + i}.`
+          : node.type === 'taskList'
+            ? `- [${item.attrs?.checked ? 'x' : ' '}]`
+            : '-';
+      const body = renderBlocks(item.content, footnotes) || '';
+      return `${marker} ${indent(body, marker.length + 1)}`;
+    })
+    .join('\n');
+}
+
+function renderTable(node: JSONContent, footnotes: FootnoteRegistry): string {
+  const rows = (node.content ?? []).map((row) =>
+    (row.content ?? []).map((cell) =>
+      (cell.content ?? [])
+        .map((block) => renderInline(block.content, footnotes, true))
+        .join('<br>')
+        .trim()
+    )
+  );
+  if (rows.length === 0) return '';
+
+  const width = Math.max(...rows.map((row) => row.length));
+  const line = (cells: string[]) =>
+    `| ${Array.from({ length: width }, (_, i) => cells[i] ?? '').join(' | ')} |`;
+
+  // GFM tables always have a header row; the first row plays that part
+  return [line(rows[0]), line(Array(width).fill('---')), ...rows.slice(1).map(line)].join('\n');
+}
+
+function renderBlocks(content: JSONContent[] | undefined, footnotes: FootnoteRegistry): string {
+  return (content ?? [])
+    .map((node) => renderBlock(node, footnotes))
+    .filter((block) => block !== '')
+    .join('\n\n');
+}
+
+function renderBlock(node: JSONContent, footnotes: FootnoteRegistry): string {
+  switch (node.type) {
+    case 'paragraph':
+      return escapeLineStart(renderInline(node.content, footnotes));
+    case 'heading': {
+      const level = Math.min(Math.max(Number(node.attrs?.level) || 1, 1), 6);
+      return `${'#'.repeat(level)} ${renderInline(node.content, footnotes)}`;
+    }
+    case 'blockquote':
+      return renderBlocks(node.content, footnotes)
+        .split('\n')
+        .map((line) => (line ? `> ${line}` : '>'))
+        .join('\n');
+    case 'bulletList':
+    case 'orderedList':
+    case 'taskList':
+      return renderList(node, footnotes);
+    case 'codeBlock': {
+      const code = (node.content ?? []).map((child) => child.text ?? '').join('');
+      const language = typeof node.attrs?.language === 'string' ? node.attrs.language : '';
+      const fence = code.includes('```') ? '~~~~' : '```';
+      return `${fence}${language}\n${code}\n${fence}`;
+    }
+    case 'horizontalRule':
+      return '---';
+    case 'image':
+      return renderImage(node);
+    case 'table':
+      return renderTable(node, footnotes);
+    case 'drawing': {
+      const { svg } = drawingSvg(node);
+      return `![Drawing](data:image/svg+xml;base64,${Buffer.from(svg).toString('base64')})`;
+    }
+    case 'groupBlock': {
+      const group = groupBlockContent(node);
+      const items = group.items.length
+        ? group.items
+            .map((item) => `- **${escapeText(item.title)}** (${escapeText(item.type)})${item.summary ? ` — ${escapeText(item.summary)}` : ''}`)
+            .join('\n')
+        : '_No items_';
+      const conversation = group.conversation
+        ? `\n\n${group.conversation.split('\n').map((line) => (line ? `> ${escapeText(line)}` : '>')).join('\n')}`
+        : '';
+      return `### ${escapeText(group.name)}\n\n${items}${conversation}`;
+    }
+    default:
+      return node.content ? renderBlocks(node.content, footnotes) : '';
+  }
+}
+
+export function documentToMarkdown(doc: JSONContent, options: DocumentExportOptions): string {
+  const footnotes = new FootnoteRegistry(options);
+  const body = renderBlocks(doc.content, footnotes);
+
+  const notes = footnotes.footnotes.map(({ number, thread }) => {
+    const lines = [`> ${escapeText(thread.selectedText)}`, ...footnoteLines(thread).map(escapeText)];
+    return `[^${number}]: ${lines.join('\n\n    ')}`;
+  });
+
+  return `${[body, ...(notes.length ? [notes.join('\n')] : [])].join('\n\n')}\n`;
+}
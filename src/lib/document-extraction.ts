@@ -0,0 +1,348 @@
+/**
+ * Text extraction for uploaded and linked documents.
+ *
+ * PDFs are read page by page from their text layer (scanned PDFs without
+ * one yield no text), DOCX paragraphs keep their headings, and PPTX slides
+ * are read in presentation order along with their speaker notes. Every
+ * page, slide or heading becomes a section recording where it starts in
+ * the extracted text, so chunks — and the citations built from them — can
+ * point at "p. 12" or "slide 3" instead of the whole file.
+ */
+
+import { unzipSync, strFromU8 } from 'fflate';
+import * as cheerio from 'cheerio';
+import { posix } from 'path';
+import { extractText, getDocumentProxy } from 'unpdf';
+import type { DocumentFormat, DocumentSection, ItemDocumentInfo } from './types';
+
+const DOWNLOAD_TIMEOUT_MS = 30_000;
+/** Largest file we download or accept for extraction */
+export const MAX_DOCUMENT_BYTES = 25 * 1024 * 1024;
+/** Extracted text beyond this is dropped (sections past the cut go with it) */
+const MAX_TEXT_LENGTH = 200_000;
+/** Inflated size limits for the XML parts read from a DOCX or PPTX (zip bomb guard) */
+const MAX_OFFICE_PART_BYTES = 50 * 1024 * 1024;
+const MAX_OFFICE_TOTAL_BYTES = 100 * 1024 * 1024;
+
+export interface ExtractedDocument {
+  format: DocumentFormat;
+  text: string;
+  sections: DocumentSection[];
+  page_count: number | null;
+  truncated: boolean;
+}
+
+const MIME_FORMATS: Record<string, DocumentFormat> = {
+  'application/pdf': 'pdf',
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document': 'docx',
+  'application/vnd.openxmlformats-officedocument.presentationml.presentation': 'pptx',
+  'text/plain': 'text',
+  'text/markdown': 'text',
+  'text/csv': 'text',
+};
+
+const EXTENSION_FORMATS: Record<string, DocumentFormat> = {
+  pdf: 'pdf',
+  docx: 'docx',
+  pptx: 'pptx',
+  txt: 'text',
+  md: 'text',
+  csv: 'text',
+};
+
+/**
+ * Work out which extractor applies from a MIME type, falling back to the
+ * file extension (storage services often report application/octet-stream).
+ * Returns null for formats we can't extract.
+ */
+export function detectDocumentFormat(mimeType?: string | null, filename?: string | null): DocumentFormat | null {
+  const mime = mimeType?.split(';')[0].trim().toLowerCase();
+  if (mime && MIME_FORMATS[mime]) return MIME_FORMATS[mime];
+
+  const extension = filename?.split(/[?#]/)[0].split('.').pop()?.toLowerCase();
+  return (extension && EXTENSION_FORMATS[extension]) || null;
+}
+
+/** Extract text and sections from a document, or null if the format is unsupported. */
+export async function extractDocument(
+  data: ArrayBuffer | Uint8Array,
+  mimeType?: string | null,
+  filename?: string | null
+): Promise<ExtractedDocument | null> {
+  const format = detectDocumentFormat(mimeType, filename);
+  if (!format) return null;
+
+  // A plain view — pdf.js rejects Node Buffers
+  const bytes = data instanceof Uint8Array
+    ? new Uint8Array(data.buffer, data.byteOffset, data.byteLength)
+    : new Uint8Array(data);
+
+  switch (format) {
+    case 'pdf':
+      return extractPdf(bytes);
+    case 'docx':
+      return extractDocx(bytes);
+    case 'pptx':
+      return extractPptx(bytes);
+    case 'text':
+      return finish('text', [{ text: strFromU8(bytes) }], null);
+  }
+}
+
+/**
+ * Download a document and extract it. Throws on HTTP errors and files over
+ * MAX_DOCUMENT_BYTES; returns null for unsupported formats.
+ */
+export async function fetchAndExtractDocument(
+  url: string,
+  options: { headers?: Record<string, string>; mimeType?: string | null; filename?: string | null } = {}
+): Promise<ExtractedDocument | null> {
+  const response = await fetch(url, {
+    headers: options.headers,
+    signal: AbortSignal.timeout(DOWNLOAD_TIMEOUT_MS),
+    redirect: 'follow',
+  });
+  if (!response.ok) {
+    throw new Error(`Download failed (${response.status})`);
+  }
+
+  const length = Number(response.headers.get('content-length'));
+  if (length > MAX_DOCUMENT_BYTES) {
+    throw new Error(`File is too large to extract (${Math.round(length / 1024 / 1024)} MB)`);
+  }
+
+  const mimeType = options.mimeType || response.headers.get('content-type');
+  const format = detectDocumentFormat(mimeType, options.filename || new URL(url).pathname);
+  if (!format) return null;
+
+  const buffer = await response.arrayBuffer();
+  if (buffer.byteLength > MAX_DOCUMENT_BYTES) {
+    throw new Error(`File is too large to extract (${Math.round(buffer.byteLength / 1024 / 1024)} MB)`);
+  }
+
+  return extractDocument(buffer, mimeType, options.filename || new URL(url).pathname);
+}
+
+/**
+ * The metadata.document record for an item whose content is `offset`
+ * characters of other text followed by the extracted document.
+ */
+export function toItemDocumentInfo(doc: ExtractedDocument, offset = 0): ItemDocumentInfo {
+  return {
+    format: doc.format,
+    page_count: doc.page_count,
+    sections: doc.sections.map((section) => ({ ...section, start: section.start + offset })),
+    truncated: doc.truncated,
+  };
+}
+
+/**
+ * Citation anchor for the text between `start` and `end` (offsets into the
+ * item content): "p. 12", "pp. 12–13", "slide 3", or the heading it falls under.
+ */
+export function formatAnchor(sections: DocumentSection[], start: number, end: number): string | null {
+  let first = -1;
+  let last = -1;
+  for (let i = 0; i < sections.length; i++) {
+    if (sections[i].start <= start) first = i;
+    if (sections[i].start < end) last = i;
+  }
+  if (last === -1) return null;
+  if (first === -1) first = 0;
+
+  const a = sections[first];
+  const b = sections[last];
+
+  if (a.kind === 'heading') return a.title ? `§ ${a.title}` : null;
+  const singular = a.kind === 'page' ? 'p.' : 'slide';
+  const plural = a.kind === 'page' ? 'pp.' : 'slides';
+  return a.number === b.number ? `${singular} ${a.number}` : `${plural} ${a.number}–${b.number}`;
+}
+
+// ─── Assembly ───────────────────────────────────
+
+interface SectionText {
+  text: string;
+  section?: Omit<DocumentSection, 'start'>;
+}
+
+/** Join section texts, recording offsets and applying the length cap. */
+function finish(format: DocumentFormat, parts: SectionText[], pageCount: number | null): ExtractedDocument {
+  let text = '';
+  const sections: DocumentSection[] = [];
+
+  for (const part of parts) {
+    const body = part.text.replace(/[ \t]+\n/g, '\n').replace(/\n{3,}/g, '\n\n').trim();
+    if (!body) continue;
+    if (text) text += '\n\n';
+    if (part.section) sections.push({ ...part.section, start: text.length });
+    text += body;
+  }
+
+  const truncated = text.length > MAX_TEXT_LENGTH;
+  return {
+    format,
+    text: truncated ? text.slice(0, MAX_TEXT_LENGTH) : text,
+    sections: truncated ? sections.filter((section) => section.start < MAX_TEXT_LENGTH) : sections,
+    page_count: pageCount,
+    truncated,
+  };
+}
+
+// ─── PDF ────────────────────────────────────────
+
+async function extractPdf(bytes: Uint8Array): Promise<ExtractedDocument> {
+  const pdf = await getDocumentProxy(bytes);
+  const { totalPages, text } = await extractText(pdf, { mergePages: false });
+
+  return finish(
+    'pdf',
+    text.map((pageText, i) => ({ text: pageText, section: { kind: 'page' as const, number: i + 1 } })),
+    totalPages
+  );
+}
+
+// ─── Office Open XML (DOCX, PPTX) ───────────────
+
+function loadXml(files: Record<string, Uint8Array>, path: string): cheerio.CheerioAPI | null {
+  const file = files[path];
+  return file ? cheerio.load(strFromU8(file), { xml: true }) : null;
+}
+
+/** Relationship id → package path, from a part's .rels file */
+function readRelationships(files: Record<string, Uint8Array>, partPath: string): Map<string, { target: string; type: string }> {
+  const relsPath = posix.join(posix.dirname(partPath), '_rels', `${posix.basename(partPath)}.rels`);
+  const $ = loadXml(files, relsPath);
+  const rels = new Map<string, { target: string; type: string }>();
+  if (!$) return rels;
+
+  $('Relationship').each((_, el) => {
+    const target = $(el).attr('Target');
+    const id = $(el).attr('Id');
+    if (!target || !id || $(el).attr('TargetMode') === 'External') return;
+    rels.set(id, {
+      target: target.startsWith('/') ? target.slice(1) : posix.join(posix.dirname(partPath), target),
+      type: $(el).attr('Type') ?? '',
+    });
+  });
+  return rels;
+}
+
+/** Text of DrawingML paragraphs (`a:p`) under the given elements, one line each */
+function drawingText($: cheerio.CheerioAPI, root: ReturnType<cheerio.CheerioAPI>): string {
+  return root
+    .find('a\\:p')
+    .map((_, p) => $(p).find('a\\:t').map((__, t) => $(t).text()).get().join(''))
+    .get()
+    .filter((line) => line.trim())
+    .join('\n');
+}
+
+/**
+ * Inflate the wanted parts of an Office zip. Sizes are checked against the
+ * entries' declared sizes before anything is inflated; fflate inflates
+ * into a buffer of exactly that size, so an entry can't grow past it.
+ */
+function unzipOffice(bytes: Uint8Array, include: (name: string) => boolean): Record<string, Uint8Array> {
+  let total = 0;
+  let tooLarge = false;
+  try {
+    return unzipSync(bytes, {
+      filter: (file) => {
+        if (!include(file.name)) return false;
+        total += file.originalSize;
+        if (file.originalSize > MAX_OFFICE_PART_BYTES || total > MAX_OFFICE_TOTAL_BYTES) {
+          tooLarge = true;
+          throw new Error('Office document is too large to extract');
+        }
+        return true;
+      },
+    });
+  } catch (err) {
+    if (tooLarge) throw err;
+    throw new Error('File is not a valid Office document');
+  }
+}
+
+const HEADING_STYLE = /^(heading\s?\d|title)$/i;
+
+function extractDocx(bytes: Uint8Array): ExtractedDocument {
+  const files = unzipOffice(bytes, (name) => name === 'word/document.xml');
+  const $ = loadXml(files, 'word/document.xml');
+  if (!$) throw new Error('DOCX has no word/document.xml');
+
+  const parts: SectionText[] = [];
+  let current: SectionText = { text: '' };
+  let headingCount = 0;
+
+  $('w\\:body w\\:p').each((_, p) => {
+    const para = $(p);
+    const line = para
+      .find('w\\:t, w\\:tab, w\\:br, w\\:cr')
+      .map((__, node) => {
+        const name = (node as { name?: string }).name;
+        if (name === 'w:tab') return '\t';
+        if (name === 'w:br' || name === 'w:cr') return '\n';
+        return $(node).text();
+      })
+      .get()
+      .join('');
+
+    const style = para.find('w\\:pPr > w\\:pStyle').attr('w:val') ?? '';
+    if (HEADING_STYLE.test(style) && line.trim()) {
+      parts.push(current);
+      headingCount++;
+      current = { text: `${line}\n`, section: { kind: 'heading', number: headingCount, title: line.trim() } };
+      return;
+    }
+    current.text += `${line}\n`;
+  });
+  parts.push(current);
+
+  return finish('docx', parts, null);
+}
+
+function extractPptx(bytes: Uint8Array): ExtractedDocument {
+  const files = unzipOffice(
+    bytes,
+    (name) => name.startsWith('ppt/') && (name.endsWith('.xml') || name.endsWith('.rels'))
+  );
+  const presentation = loadXml(files, 'ppt/presentation.xml');
+  if (!presentation) throw new Error('PPTX has no ppt/presentation.xml');
+
+  // Slide order comes from the presentation, not the part file names
+  const presentationRels = readRelationships(files, 'ppt/presentation.xml');
+  const slidePaths = presentation('p\\:sldIdLst > p\\:sldId')
+    .map((_, el) => presentationRels.get(presentation(el).attr('r:id') ?? '')?.target)
+    .get()
+    .filter((path): path is string => typeof path === 'string');
+
+  const parts: SectionText[] = slidePaths.map((slidePath, i) => {
+    const slide = loadXml(files, slidePath);
+    if (!slide) return { text: '' };
+
+    const titleShape = slide('p\\:sp').filter((_, sp) =>
+      /^(title|ctrTitle)$/.test(slide(sp).find('p\\:nvPr > p\\:ph').attr('type') ?? '')
+    );
+    const title = drawingText(slide, titleShape.first()).replace(/\s+/g, ' ').trim();
+    const body = drawingText(slide, slide('p\\:cSld'));
+
+    const notesPath = [...readRelationships(files, slidePath).values()].find((rel) =>
+      rel.type.endsWith('/notesSlide')
+    )?.target;
+    const notesXml = notesPath ? loadXml(files, notesPath) : null;
+    const notes = notesXml
+      ? drawingText(
+          notesXml,
+          notesXml('p\\:sp').filter((_, sp) => notesXml(sp).find('p\\:nvPr > p\\:ph').attr('type') === 'body')
+        )
+      : '';
+
+    return {
+      text: [`Slide ${i + 1}`, body, notes && `Notes:\n${notes}`].filter(Boolean).join('\n'),
+      section: { kind: 'slide', number: i + 1, ...(title && { title }) },
+    };
+  });
+
+  return finish('pptx', parts, slidePaths.length);
+}
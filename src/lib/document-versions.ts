@@ -0,0 +1,144 @@
+/**
+ * Spark document version history.
+ *
+ * The live document is the collaborative Yjs doc; `sparks.metadata.editor_content`
+ * is its autosaved copy. `document_versions` keeps snapshots of that copy:
+ * automatic ones taken from the autosave at most every AUTO_SNAPSHOT_INTERVAL_MS,
+ * named ones saved by hand, and one for every restore. Restoring happens in
+ * the browser (see DocumentVersionHistory) so the change goes through Yjs
+ * and reaches every connected client.
+ */
+
+import { supabaseAdmin } from './supabase/admin';
+import type { DocumentVersion, DocumentVersionSource } from './types';
+
+/** Minimum gap between automatic snapshots of the same document */
+export const AUTO_SNAPSHOT_INTERVAL_MS = 10 * 60 * 1000;
+/** Automatic snapshots kept per Spark; named and restore versions are never pruned */
+const MAX_AUTO_VERSIONS = 100;
+
+// Postgres unique_violation — another writer claimed the version number first
+const UNIQUE_VIOLATION = '23505';
+const MAX_ATTEMPTS = 3;
+
+/** JSON with sorted keys — jsonb doesn't keep key order, so compare documents this way */
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(canonicalJson).join(',')}]`;
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${canonicalJson(v)}`).join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'null';
+}
+
+export function isSameDocument(a: unknown, b: unknown): boolean {
+  return canonicalJson(a) === canonicalJson(b);
+}
+
+/**
+ * Append a version. Version numbers come from the table, so two concurrent
+ * snapshots can't both claim the same number — the loser retries.
+ */
+export async function saveDocumentVersion(
+  sparkId: string,
+  snapshot: {
+    content: Record<string, unknown>;
+    source: DocumentVersionSource;
+    name?: string | null;
+    restoredFrom?: number | null;
+    userId: string | null;
+  }
+): Promise<{ version: DocumentVersion } | { error: string }> {
+  for (let attempt = 0; attempt < MAX_ATTEMPTS; attempt++) {
+    const { data: latest } = await supabaseAdmin
+      .from('document_versions')
+      .select('version_number')
+      .eq('spark_id', sparkId)
+      .order('version_number', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    const { data: version, error } = await supabaseAdmin
+      .from('document_versions')
+      .insert({
+        spark_id: sparkId,
+        version_number: ((latest?.version_number as number | undefined) ?? 0) + 1,
+        name: snapshot.name?.trim() || null,
+        content: snapshot.content,
+        source: snapshot.source,
+        restored_from: snapshot.restoredFrom ?? null,
+        created_by: snapshot.userId,
+      })
+      .select()
+      .single();
+
+    if (error?.code === UNIQUE_VIOLATION) continue;
+    if (error || !version) {
+      return { error: error?.message ?? 'Failed to record version' };
+    }
+    return { version: version as DocumentVersion };
+  }
+
+  return { error: 'Document was modified concurrently, please retry' };
+}
+
+/**
+ * Called on every autosave. Records an automatic snapshot when the latest
+ * version is older than the interval and the document has changed since.
+ * Failures are logged, never thrown — autosave must not fail because of history.
+ */
+export async function snapshotDocumentIfDue(
+  sparkId: string,
+  content: unknown,
+  userId: string | null
+): Promise<void> {
+  if (!content || typeof content !== 'object' || Array.isArray(content)) return;
+
+  try {
+    const { data: latest } = await supabaseAdmin
+      .from('document_versions')
+      .select('content, created_at')
+      .eq('spark_id', sparkId)
+      .order('version_number', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (latest) {
+      const age = Date.now() - new Date(latest.created_at as string).getTime();
+      if (age < AUTO_SNAPSHOT_INTERVAL_MS || isSameDocument(latest.content, content)) return;
+    }
+
+    const result = await saveDocumentVersion(sparkId, {
+      content: content as Record<string, unknown>,
+      source: 'auto',
+      userId,
+    });
+    if ('error' in result) {
+      console.error('[document-versions] Auto snapshot failed:', result.error);
+      return;
+    }
+
+    await pruneAutoVersions(sparkId);
+  } catch (err) {
+    console.error('[document-versions] Auto snapshot failed:', err);
+  }
+}
+
+async function pruneAutoVersions(sparkId: string): Promise<void> {
+  const { data: stale } = await supabaseAdmin
+    .from('document_versions')
+    .select('id')
+    .eq('spark_id', sparkId)
+    .eq('source', 'auto')
+    .order('version_number', { ascending: false })
+    .range(MAX_AUTO_VERSIONS, MAX_AUTO_VERSIONS + 99);
+
+  if (stale && stale.length > 0) {
+    await supabaseAdmin
+      .from('document_versions')
+      .delete()
+      .in('id', stale.map((row) => row.id as string));
+  }
+}
@@ -0,0 +1,353 @@
+/**
+ * Re-embed job for embedding provider changes.
+ *
+ * `embedding_state` records which provider produced the stored vectors.
+ * When the configured provider differs, or rows embedded by another
+ * provider remain (checked at server start from instrumentation.ts, or on
+ * demand via /api/embeddings/migrate), every such item, item chunk, chat
+ * session, and web research row is re-embedded in batches and the state
+ * is moved to the configured provider.
+ *
+ * Progress is tracked per row through metadata.embedding_model, so a run
+ * interrupted by a restart resumes where it left off. Only one run can be
+ * in progress, and the server working on it holds a claim on the row
+ * (locked_by/locked_at) so other instances leave it alone until the claim
+ * goes stale.
+ */
+
+import { hostname } from 'os';
+import { supabaseAdmin } from './supabase/admin';
+import {
+  getEmbeddingProvider,
+  isFallbackEmbeddingProvider,
+  generateEmbeddings,
+  saveEmbedding,
+  buildItemText,
+  buildResearchText,
+  getImageUrl,
+} from './embeddings';
+import { syncItemChunks } from './chunking';
+
+const BATCH_SIZE = 50;
+// A claim not refreshed for this long belongs to a server that died
+const CLAIM_STALE_MS = 10 * 60_000;
+
+const RUNNER_ID = `${hostname()}:${process.pid}:${Math.random().toString(36).slice(2, 8)}`;
+
+export interface EmbeddingMigration {
+  id: string;
+  from_model: string | null;
+  to_model: string;
+  status: 'running' | 'completed' | 'failed';
+  items_processed: number;
+  sessions_processed: number;
+  research_processed: number;
+  error: string | null;
+  locked_by: string | null;
+  locked_at: string | null;
+  started_at: string;
+  completed_at: string | null;
+}
+
+// The run this process is working on, if any
+let activeRun: Promise<void> | null = null;
+
+export async function getEmbeddingState(): Promise<{ model: string; dimensions: number } | null> {
+  const { data } = await supabaseAdmin
+    .from('embedding_state')
+    .select('model, dimensions')
+    .maybeSingle();
+  return data;
+}
+
+export async function getLatestEmbeddingMigration(): Promise<EmbeddingMigration | null> {
+  const { data } = await supabaseAdmin
+    .from('embedding_migrations')
+    .select('*')
+    .order('started_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+  return data as EmbeddingMigration | null;
+}
+
+/**
+ * Start a re-embed run if any stored vector came from a provider other
+ * than the configured one: after a provider change, or for rows embedded
+ * with the local fallback while an API key was missing (whatever
+ * embedding_state says). Returns the migration row (new or already
+ * running), or null when nothing needs doing. Does not wait for the run to
+ * finish, and leaves it to another server that already holds the claim.
+ *
+ * Never re-embeds with the local fallback: a deploy missing its API key
+ * would otherwise replace every stored vector with hashed n-grams. Search
+ * only compares vectors of one model, so the two spaces don't mix meanwhile.
+ */
+export async function startEmbeddingMigrationIfNeeded(): Promise<EmbeddingMigration | null> {
+  const provider = getEmbeddingProvider();
+  const state = await getEmbeddingState();
+
+  if (isFallbackEmbeddingProvider()) {
+    if (state?.model !== provider.id) {
+      console.warn(
+        `[embedding-migration] Stored vectors are ${state?.model ?? '(none)'} but no embedding API key is set — ` +
+        'not re-embedding with the local fallback (set EMBEDDING_PROVIDER=local to switch on purpose)'
+      );
+    }
+    return null;
+  }
+
+  if (state?.model === provider.id && !(await hasStaleEmbeddings(provider.id))) return null;
+
+  const migration = await findOrCreateRun(state?.model ?? null, provider.id);
+
+  if (!activeRun && (await claimRun(migration.id))) {
+    console.log(`[embedding-migration] Re-embedding ${state?.model ?? '(none)'} → ${provider.id}`);
+    activeRun = runEmbeddingMigration(migration).finally(() => {
+      activeRun = null;
+    });
+  }
+
+  return migration;
+}
+
+/** Whether any row the run would visit was embedded by another model */
+export async function hasStaleEmbeddings(model: string): Promise<boolean> {
+  const results = await Promise.all([
+    supabaseAdmin.from('spark_items').select('id').or(staleFilter(model)).limit(1),
+    supabaseAdmin.from('chat_sessions').select('id').not('embedding', 'is', null).or(staleFilter(model)).limit(1),
+    supabaseAdmin.from('web_research_items').select('id').not('embedding', 'is', null).or(staleFilter(model)).limit(1),
+  ]);
+  for (const { data, error } of results) {
+    if (error) throw new Error(`Checking for stale embeddings: ${error.message}`);
+    if ((data?.length ?? 0) > 0) return true;
+  }
+  return false;
+}
+
+async function getRunningMigration(): Promise<EmbeddingMigration | null> {
+  const { data } = await supabaseAdmin
+    .from('embedding_migrations')
+    .select('*')
+    .eq('status', 'running')
+    .maybeSingle();
+  return data as EmbeddingMigration | null;
+}
+
+/** The running run for `toModel`, superseding a run for another model. */
+async function findOrCreateRun(fromModel: string | null, toModel: string): Promise<EmbeddingMigration> {
+  // Resume an interrupted run for the same target instead of starting over
+  const running = await getRunningMigration();
+  if (running?.to_model === toModel) return running;
+
+  if (running) {
+    await supabaseAdmin
+      .from('embedding_migrations')
+      .update({
+        status: 'failed',
+        error: `Superseded by a run to ${toModel}`,
+        completed_at: new Date().toISOString(),
+      })
+      .eq('id', running.id)
+      .eq('status', 'running');
+  }
+
+  const { data, error } = await supabaseAdmin
+    .from('embedding_migrations')
+    .insert({ from_model: fromModel, to_model: toModel })
+    .select()
+    .single();
+
+  // Another server created the run first
+  if (error?.code === '23505') {
+    const winner = await getRunningMigration();
+    if (winner?.to_model === toModel) return winner;
+  }
+  if (error || !data) {
+    throw new Error(`Failed to create embedding migration: ${error?.message ?? 'no row returned'}`);
+  }
+  return data as EmbeddingMigration;
+}
+
+/** Claim a running run for this server. Fails while another server's claim is fresh. */
+async function claimRun(id: string): Promise<boolean> {
+  const staleBefore = new Date(Date.now() - CLAIM_STALE_MS).toISOString();
+  const { data, error } = await supabaseAdmin
+    .from('embedding_migrations')
+    .update({ locked_by: RUNNER_ID, locked_at: new Date().toISOString() })
+    .eq('id', id)
+    .eq('status', 'running')
+    .or(`locked_at.is.null,locked_at.lt."${staleBefore}"`)
+    .select('id');
+  if (error) {
+    console.error('[embedding-migration] Failed to claim run:', error.message);
+    return false;
+  }
+  return (data?.length ?? 0) > 0;
+}
+
+/** PostgREST filter: rows not yet embedded by the given provider */
+function staleFilter(model: string): string {
+  return `metadata->>embedding_model.is.null,metadata->>embedding_model.neq.${model}`;
+}
+
+/**
+ * Save progress and refresh this server's claim. Returns false once the
+ * run is no longer ours (superseded, or taken over after a stall).
+ */
+async function updateProgress(id: string, fields: Partial<EmbeddingMigration>): Promise<boolean> {
+  const { data, error } = await supabaseAdmin
+    .from('embedding_migrations')
+    .update({ ...fields, locked_at: new Date().toISOString() })
+    .eq('id', id)
+    .eq('status', 'running')
+    .eq('locked_by', RUNNER_ID)
+    .select('id');
+  if (error) {
+    console.error('[embedding-migration] Failed to save progress:', error.message);
+    return true;
+  }
+  return (data?.length ?? 0) > 0;
+}
+
+/** Stops the run without marking it failed; whoever holds the row now carries on. */
+class LostClaimError extends Error {
+  constructor() {
+    super('Run is no longer claimed by this server');
+    this.name = 'LostClaimError';
+  }
+}
+
+async function saveOrThrow(table: 'spark_items' | 'chat_sessions' | 'web_research_items', id: string, embedding: number[]) {
+  const { error } = await saveEmbedding(table, id, embedding);
+  if (error) throw new Error(`Saving embedding for ${table} ${id}: ${error}`);
+}
+
+async function runEmbeddingMigration(migration: EmbeddingMigration): Promise<void> {
+  const provider = getEmbeddingProvider();
+  const progress = {
+    items_processed: migration.items_processed,
+    sessions_processed: migration.sessions_processed,
+    research_processed: migration.research_processed,
+  };
+
+  try {
+    // ── Items (and their chunks) ──
+    for (;;) {
+      const { data: items, error } = await supabaseAdmin
+        .from('spark_items')
+        .select('id, spark_id, type, title, content, summary, metadata')
+        .or(staleFilter(provider.id))
+        .limit(BATCH_SIZE);
+      if (error) throw new Error(`Loading items: ${error.message}`);
+      if (!items || items.length === 0) break;
+
+      const embeddings = await generateEmbeddings(
+        items.map((item) => ({
+          text: buildItemText(item),
+          imageUrl: getImageUrl(item),
+        }))
+      );
+      if (embeddings.every((e) => e === null)) {
+        throw new Error(`${provider.id} returned no embeddings for a batch of items`);
+      }
+
+      for (let i = 0; i < items.length; i++) {
+        const embedding = embeddings[i];
+        if (embedding) {
+          await saveOrThrow('spark_items', items[i].id, embedding);
+        } else {
+          // Mark as visited so a bad row can't stall the run; its
+          // embedding stays null and /api/embeddings/generate retries it.
+          await supabaseAdmin
+            .from('spark_items')
+            .update({
+              embedding: null,
+              metadata: { ...(items[i].metadata as Record<string, unknown>), embedding_model: provider.id },
+            })
+            .eq('id', items[i].id);
+        }
+        await syncItemChunks({ ...items[i], metadata: items[i].metadata as Record<string, unknown> });
+      }
+
+      progress.items_processed += items.length;
+      if (!(await updateProgress(migration.id, progress))) throw new LostClaimError();
+    }
+
+    // ── Chat sessions ──
+    for (;;) {
+      const { data: sessions, error } = await supabaseAdmin
+        .from('chat_sessions')
+        .select('id, user_messages, metadata')
+        .not('embedding', 'is', null)
+        .or(staleFilter(provider.id))
+        .limit(BATCH_SIZE);
+      if (error) throw new Error(`Loading chat sessions: ${error.message}`);
+      if (!sessions || sessions.length === 0) break;
+
+      const embeddings = await generateEmbeddings(
+        sessions.map((s) => ({ text: ((s.user_messages as string[]) || []).join('\n\n') }))
+      );
+      for (let i = 0; i < sessions.length; i++) {
+        const embedding = embeddings[i];
+        if (embedding) {
+          await saveOrThrow('chat_sessions', sessions[i].id, embedding);
+        } else {
+          await supabaseAdmin.from('chat_sessions').update({ embedding: null }).eq('id', sessions[i].id);
+        }
+      }
+
+      progress.sessions_processed += sessions.length;
+      if (!(await updateProgress(migration.id, progress))) throw new LostClaimError();
+    }
+
+    // ── Web research ──
+    for (;;) {
+      const { data: research, error } = await supabaseAdmin
+        .from('web_research_items')
+        .select('id, title, query, summary, content, metadata')
+        .not('embedding', 'is', null)
+        .or(staleFilter(provider.id))
+        .limit(BATCH_SIZE);
+      if (error) throw new Error(`Loading web research: ${error.message}`);
+      if (!research || research.length === 0) break;
+
+      const embeddings = await generateEmbeddings(research.map((r) => ({ text: buildResearchText(r) })));
+      for (let i = 0; i < research.length; i++) {
+        const embedding = embeddings[i];
+        if (embedding) {
+          await saveOrThrow('web_research_items', research[i].id, embedding);
+        } else {
+          await supabaseAdmin.from('web_research_items').update({ embedding: null }).eq('id', research[i].id);
+        }
+      }
+
+      progress.research_processed += research.length;
+      if (!(await updateProgress(migration.id, progress))) throw new LostClaimError();
+    }
+
+    if (!(await updateProgress(migration.id, progress))) throw new LostClaimError();
+    await supabaseAdmin
+      .from('embedding_state')
+      .upsert({ id: true, model: provider.id, dimensions: provider.dimensions });
+
+    await updateProgress(migration.id, {
+      ...progress,
+      status: 'completed',
+      completed_at: new Date().toISOString(),
+    });
+    console.log(`[embedding-migration] Completed → ${provider.id}`, progress);
+  } catch (err) {
+    if (err instanceof LostClaimError) {
+      console.log(`[embedding-migration] Stopping: ${err.message}`);
+      return;
+    }
+    const message = err instanceof Error ? err.message : String(err);
+    console.error('[embedding-migration] Failed:', message);
+    await updateProgress(migration.id, {
+      ...progress,
+      status: 'failed',
+      error: message,
+      completed_at: new Date().toISOString(),
+    });
+  }
+}
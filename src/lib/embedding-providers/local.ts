@@ -0,0 +1,79 @@
+/**
+ * Local hashed n-gram embeddings — deterministic, no network, no key.
+ *
+ * Word unigrams, word bigrams, and character trigrams are feature-hashed
+ * into a signed 1024-dim vector and L2-normalised. This captures lexical
+ * overlap (including partial words and typos), not meaning, but it gives
+ * dev machines and CI working vector search that behaves the same on
+ * every run.
+ */
+
+import { EMBEDDING_DIMENSIONS, type EmbeddingProvider } from './types';
+
+const MODEL = 'hashed-ngram-v1';
+
+/** 32-bit FNV-1a */
+function fnv1a(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+function addFeature(vector: Float64Array, feature: string, weight: number) {
+  const hash = fnv1a(feature);
+  const index = hash % vector.length;
+  // Use a high bit for the sign so collisions tend to cancel rather than pile up
+  const sign = hash & 0x80000000 ? -1 : 1;
+  vector[index] += sign * weight;
+}
+
+export function embedLocal(text: string, dimensions: number = EMBEDDING_DIMENSIONS): number[] {
+  const vector = new Float64Array(dimensions);
+  const words = text
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(Boolean);
+
+  for (let i = 0; i < words.length; i++) {
+    const word = words[i];
+    addFeature(vector, `w:${word}`, 1);
+    if (i > 0) addFeature(vector, `b:${words[i - 1]} ${word}`, 0.7);
+
+    const padded = ` ${word} `;
+    for (let j = 0; j + 3 <= padded.length; j++) {
+      addFeature(vector, `c:${padded.slice(j, j + 3)}`, 0.4);
+    }
+  }
+
+  let norm = 0;
+  for (let i = 0; i < dimensions; i++) norm += vector[i] * vector[i];
+  norm = Math.sqrt(norm);
+
+  // An empty or all-colliding input would give a zero vector, which has
+  // no cosine similarity — return a fixed unit vector instead.
+  if (norm === 0) {
+    const unit = new Array<number>(dimensions).fill(0);
+    unit[0] = 1;
+    return unit;
+  }
+
+  return Array.from(vector, (v) => v / norm);
+}
+
+export function createLocalProvider(): EmbeddingProvider {
+  return {
+    id: `local/${MODEL}`,
+    name: 'local',
+    model: MODEL,
+    dimensions: EMBEDDING_DIMENSIONS,
+    multimodal: false,
+    maxBatchSize: 500,
+
+    async embed(inputs) {
+      return inputs.map((input) => embedLocal(input.text));
+    },
+  };
+}
@@ -0,0 +1,105 @@
+/**
+ * OpenAI-compatible /embeddings endpoint (OpenAI, Azure OpenAI proxies,
+ * Ollama, LM Studio, vLLM, ...). Text-only.
+ *
+ * The model must support the `dimensions` parameter or natively return
+ * 1024-dim vectors; anything else is rejected rather than stored.
+ */
+
+import { addLogEntry } from '@/lib/activity-logger';
+import { EMBEDDING_DIMENSIONS, type EmbeddingProvider } from './types';
+
+const DEFAULT_BASE_URL = 'https://api.openai.com/v1';
+const DEFAULT_MODEL = 'text-embedding-3-small';
+
+export function createOpenAIProvider(options: {
+  apiKey?: string;
+  baseUrl?: string;
+  model?: string;
+}): EmbeddingProvider {
+  const baseUrl = (options.baseUrl || DEFAULT_BASE_URL).replace(/\/$/, '');
+  const model = options.model || DEFAULT_MODEL;
+  const url = `${baseUrl}/embeddings`;
+
+  return {
+    id: `openai/${model}`,
+    name: 'openai',
+    model,
+    dimensions: EMBEDDING_DIMENSIONS,
+    multimodal: false,
+    maxBatchSize: 100,
+
+    async embed(inputs, inputType) {
+      const start = Date.now();
+      const correlationId = `embed_${Date.now()}`;
+
+      addLogEntry({
+        service: 'internal',
+        direction: 'request',
+        level: 'info',
+        method: 'POST',
+        url,
+        summary: `embed ${inputType} via ${model} (${inputs.length} item${inputs.length !== 1 ? 's' : ''})`,
+        requestBody: { inputCount: inputs.length, inputType, model },
+        correlationId,
+      });
+
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(options.apiKey && { Authorization: `Bearer ${options.apiKey}` }),
+        },
+        body: JSON.stringify({
+          model,
+          input: inputs.map((input) => input.text),
+          dimensions: EMBEDDING_DIMENSIONS,
+        }),
+      });
+
+      const duration = Date.now() - start;
+
+      if (!response.ok) {
+        const error = await response.text();
+        addLogEntry({
+          service: 'internal',
+          direction: 'response',
+          level: 'error',
+          method: 'POST',
+          url,
+          summary: `embed ${inputType} — ${response.status}`,
+          statusCode: response.status,
+          duration,
+          error,
+          correlationId,
+        });
+        console.error('[embeddings] OpenAI-compatible error:', response.status, error);
+        return inputs.map(() => null);
+      }
+
+      const result = await response.json();
+      const data = result.data as { embedding: number[]; index: number }[];
+      data.sort((a, b) => a.index - b.index);
+
+      addLogEntry({
+        service: 'internal',
+        direction: 'response',
+        level: 'info',
+        method: 'POST',
+        url,
+        summary: `embed ${inputType} — 200 (${data.length} embedding${data.length !== 1 ? 's' : ''}, ${data[0]?.embedding?.length ?? 0}d)`,
+        statusCode: 200,
+        duration,
+        correlationId,
+      });
+
+      return data.map((d) => {
+        if (d.embedding.length !== EMBEDDING_DIMENSIONS) {
+          console.error(`[embeddings] ${model} returned ${d.embedding.length} dims, expected ${EMBEDDING_DIMENSIONS}`);
+          return null;
+        }
+        return d.embedding;
+      });
+    },
+  };
+}
@@ -0,0 +1,31 @@
+/**
+ * Embedding provider contract.
+ *
+ * Every provider returns vectors of exactly EMBEDDING_DIMENSIONS so they
+ * fit the vector(1024) columns. Switching providers changes the vector
+ * space, so stored vectors record the provider `id` they came from and
+ * are re-embedded when it changes (see lib/embedding-migration.ts).
+ */
+
+export const EMBEDDING_DIMENSIONS = 1024;
+
+export type EmbeddingInputType = 'document' | 'query';
+
+export interface EmbeddingInput {
+  text: string;
+  /** Only used by multimodal providers; text-only providers ignore it */
+  imageUrl?: string;
+}
+
+export interface EmbeddingProvider {
+  /** Stored alongside every vector, e.g. "voyage/voyage-multimodal-3" */
+  readonly id: string;
+  readonly name: 'voyage' | 'openai' | 'local';
+  readonly model: string;
+  readonly dimensions: number;
+  readonly multimodal: boolean;
+  /** Max inputs per embed() call */
+  readonly maxBatchSize: number;
+  /** Embed a batch. A null entry means that input could not be embedded. */
+  embed(inputs: EmbeddingInput[], inputType: EmbeddingInputType): Promise<(number[] | null)[]>;
+}
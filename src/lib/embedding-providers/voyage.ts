@@ -0,0 +1,98 @@
+/**
+ * Voyage AI multimodal embeddings (voyage-multimodal-3, 1024 dims).
+ * Text and images share one vector space, so text queries can find
+ * relevant images and vice versa.
+ */
+
+import { addLogEntry } from '@/lib/activity-logger';
+import { EMBEDDING_DIMENSIONS, type EmbeddingProvider } from './types';
+
+const VOYAGE_MULTIMODAL_URL = 'https://api.voyageai.com/v1/multimodalembeddings';
+const VOYAGE_MODEL = 'voyage-multimodal-3';
+
+type ContentPart =
+  | { type: 'text'; text: string }
+  | { type: 'image_url'; image_url: string };
+
+export function createVoyageProvider(apiKey: string): EmbeddingProvider {
+  return {
+    id: `voyage/${VOYAGE_MODEL}`,
+    name: 'voyage',
+    model: VOYAGE_MODEL,
+    dimensions: EMBEDDING_DIMENSIONS,
+    multimodal: true,
+    maxBatchSize: 50, // smaller batches for multimodal (images are heavier)
+
+    async embed(inputs, inputType) {
+      const start = Date.now();
+      const correlationId = `voyage_${Date.now()}`;
+
+      addLogEntry({
+        service: 'voyage',
+        direction: 'request',
+        level: 'info',
+        method: 'POST',
+        url: VOYAGE_MULTIMODAL_URL,
+        summary: `embed ${inputType} (${inputs.length} item${inputs.length !== 1 ? 's' : ''})`,
+        requestBody: { inputCount: inputs.length, inputType, model: VOYAGE_MODEL },
+        correlationId,
+      });
+
+      const response = await fetch(VOYAGE_MULTIMODAL_URL, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${apiKey}`,
+        },
+        body: JSON.stringify({
+          model: VOYAGE_MODEL,
+          inputs: inputs.map((input) => {
+            const content: ContentPart[] = [];
+            if (input.text) content.push({ type: 'text', text: input.text });
+            if (input.imageUrl) content.push({ type: 'image_url', image_url: input.imageUrl });
+            return { content };
+          }),
+          input_type: inputType,
+        }),
+      });
+
+      const duration = Date.now() - start;
+
+      if (!response.ok) {
+        const error = await response.text();
+        addLogEntry({
+          service: 'voyage',
+          direction: 'response',
+          level: 'error',
+          method: 'POST',
+          url: VOYAGE_MULTIMODAL_URL,
+          summary: `embed ${inputType} — ${response.status}`,
+          statusCode: response.status,
+          duration,
+          error,
+          correlationId,
+        });
+        console.error('[embeddings] Voyage AI multimodal error:', response.status, error);
+        return inputs.map(() => null);
+      }
+
+      const result = await response.json();
+      const data = result.data as { embedding: number[]; index: number }[];
+      data.sort((a, b) => a.index - b.index);
+
+      addLogEntry({
+        service: 'voyage',
+        direction: 'response',
+        level: 'info',
+        method: 'POST',
+        url: VOYAGE_MULTIMODAL_URL,
+        summary: `embed ${inputType} — 200 (${data.length} embedding${data.length !== 1 ? 's' : ''}, ${data[0]?.embedding?.length ?? EMBEDDING_DIMENSIONS}d)`,
+        statusCode: 200,
+        duration,
+        correlationId,
+      });
+
+      return data.map((d) => d.embedding);
+    },
+  };
+}
@@ -1,143 +1,110 @@
 /**
- * Multimodal embedding generation using Voyage AI.
+ * Embedding generation behind a pluggable provider.
  *
- * Uses voyage-multimodal-3 for ALL embeddings (text + images) so that
- * everything lives in the same 1024-dim vector space. This means text
- * queries can find relevant images and vice versa.
+ * Providers (lib/embedding-providers/):
+ *   - voyage — voyage-multimodal-3, text + images in one vector space
+ *   - openai — any OpenAI-compatible /embeddings endpoint, text-only
+ *   - local  — deterministic hashed n-grams, no network
  *
- * If VOYAGE_API_KEY is not set, embedding functions return null gracefully
- * so the app still works without RAG.
+ * Selected with EMBEDDING_PROVIDER=voyage|openai|local. Defaults to voyage
+ * when VOYAGE_API_KEY is set, otherwise local — so semantic search always
+ * works, just less well without a hosted model. That fallback is never
+ * treated as a provider change: stored vectors are only re-embedded with
+ * local embeddings when EMBEDDING_PROVIDER=local is set. All providers
+ * produce 1024-dim vectors; each stored vector records the provider it
+ * came from, and search only compares vectors from the active provider.
  */
 
-import { addLogEntry } from './activity-logger';
-
-const VOYAGE_MULTIMODAL_URL = 'https://api.voyageai.com/v1/multimodalembeddings';
-const VOYAGE_MODEL = 'voyage-multimodal-3';
-const EMBEDDING_DIMENSIONS = 1024;
+import { supabaseAdmin } from './supabase/admin';
+import { EMBEDDING_DIMENSIONS, type EmbeddingInput, type EmbeddingProvider } from './embedding-providers/types';
+import { createVoyageProvider } from './embedding-providers/voyage';
+import { createOpenAIProvider } from './embedding-providers/openai';
+import { createLocalProvider } from './embedding-providers/local';
 
 export { EMBEDDING_DIMENSIONS };
+export type { EmbeddingProvider };
 
-type ContentPart =
-  | { type: 'text'; text: string }
-  | { type: 'image_url'; image_url: string };
+let cachedProvider: EmbeddingProvider | null = null;
+// Local embeddings picked because a key is missing, not because they were configured
+let providerIsFallback = false;
 
-interface MultimodalInput {
-  content: ContentPart[];
-}
+/** The configured embedding provider (resolved once per process). */
+export function getEmbeddingProvider(): EmbeddingProvider {
+  if (cachedProvider) return cachedProvider;
 
-function getApiKey(): string | null {
-  const key = process.env.VOYAGE_API_KEY;
-  if (!key) {
-    console.warn('[embeddings] VOYAGE_API_KEY not set — skipping embedding generation');
+  const configured = process.env.EMBEDDING_PROVIDER?.toLowerCase();
+  const voyageKey = process.env.VOYAGE_API_KEY;
+
+  if (configured === 'openai') {
+    cachedProvider = createOpenAIProvider({
+      apiKey: process.env.EMBEDDING_API_KEY || process.env.OPENAI_API_KEY,
+      baseUrl: process.env.EMBEDDING_BASE_URL,
+      model: process.env.EMBEDDING_MODEL,
+    });
+  } else if (configured === 'local') {
+    cachedProvider = createLocalProvider();
+  } else if (voyageKey) {
+    cachedProvider = createVoyageProvider(voyageKey);
+  } else {
+    if (configured === 'voyage') {
+      console.warn('[embeddings] EMBEDDING_PROVIDER=voyage but VOYAGE_API_KEY is not set — using local embeddings');
+    }
+    providerIsFallback = true;
+    cachedProvider = createLocalProvider();
   }
-  return key || null;
+
+  return cachedProvider;
 }
 
-/**
- * Call the Voyage AI multimodal embeddings API.
- */
-async function callMultimodalAPI(
-  inputs: MultimodalInput[],
+/** Whether the provider is the local fallback for a missing API key rather than a configured choice. */
+export function isFallbackEmbeddingProvider(): boolean {
+  getEmbeddingProvider();
+  return providerIsFallback;
+}
+
+/** Embed inputs in provider-sized batches. */
+async function embedInputs(
+  inputs: EmbeddingInput[],
   inputType: 'document' | 'query'
 ): Promise<(number[] | null)[]> {
-  const apiKey = getApiKey();
-  if (!apiKey) return inputs.map(() => null);
-
-  const start = Date.now();
-  const correlationId = `voyage_${Date.now()}`;
-
-  addLogEntry({
-    service: 'voyage',
-    direction: 'request',
-    level: 'info',
-    method: 'POST',
-    url: VOYAGE_MULTIMODAL_URL,
-    summary: `embed ${inputType} (${inputs.length} item${inputs.length !== 1 ? 's' : ''})`,
-    requestBody: { inputCount: inputs.length, inputType, model: VOYAGE_MODEL },
-    correlationId,
-  });
-
-  const response = await fetch(VOYAGE_MULTIMODAL_URL, {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-      Authorization: `Bearer ${apiKey}`,
-    },
-    body: JSON.stringify({
-      model: VOYAGE_MODEL,
-      inputs,
-      input_type: inputType,
-    }),
-  });
-
-  const duration = Date.now() - start;
-
-  if (!response.ok) {
-    const error = await response.text();
-    addLogEntry({
-      service: 'voyage',
-      direction: 'response',
-      level: 'error',
-      method: 'POST',
-      url: VOYAGE_MULTIMODAL_URL,
-      summary: `embed ${inputType} — ${response.status}`,
-      statusCode: response.status,
-      duration,
-      error,
-      correlationId,
-    });
-    console.error('[embeddings] Voyage AI multimodal error:', response.status, error);
-    return inputs.map(() => null);
+  const provider = getEmbeddingProvider();
+  const results: (number[] | null)[] = [];
+
+  for (let i = 0; i < inputs.length; i += provider.maxBatchSize) {
+    const batch = inputs.slice(i, i + provider.maxBatchSize);
+    try {
+      results.push(...(await provider.embed(batch, inputType)));
+    } catch (err) {
+      console.error(`[embeddings] ${provider.id} failed:`, err);
+      results.push(...batch.map(() => null));
+    }
   }
 
-  const result = await response.json();
-  const data = result.data as { embedding: number[]; index: number }[];
-  data.sort((a, b) => a.index - b.index);
-
-  addLogEntry({
-    service: 'voyage',
-    direction: 'response',
-    level: 'info',
-    method: 'POST',
-    url: VOYAGE_MULTIMODAL_URL,
-    summary: `embed ${inputType} — 200 (${data.length} embedding${data.length !== 1 ? 's' : ''}, ${data[0]?.embedding?.length ?? EMBEDDING_DIMENSIONS}d)`,
-    statusCode: 200,
-    duration,
-    correlationId,
-  });
-
-  return data.map((d) => d.embedding);
+  return results;
 }
 
 /**
  * Generate an embedding for a text-only item (link, text, note, file).
  */
 export async function generateEmbedding(text: string): Promise<number[] | null> {
-  const truncated = text.slice(0, 16_000);
-  const results = await callMultimodalAPI(
-    [{ content: [{ type: 'text', text: truncated }] }],
-    'document'
-  );
+  const results = await embedInputs([{ text: text.slice(0, 16_000) }], 'document');
   return results[0];
 }
 
 /**
  * Generate an embedding for an image item.
  * Combines the image with its title/description text so the embedding
- * captures both visual and textual semantics.
+ * captures both visual and textual semantics. Text-only providers embed
+ * just the text.
  */
 export async function generateImageEmbedding(
   imageUrl: string,
   textContext?: string
 ): Promise<number[] | null> {
-  const content: ContentPart[] = [];
-
-  if (textContext) {
-    content.push({ type: 'text', text: textContext.slice(0, 4_000) });
-  }
-  content.push({ type: 'image_url', image_url: imageUrl });
-
-  const results = await callMultimodalAPI([{ content }], 'document');
+  const results = await embedInputs(
+    [{ text: (textContext ?? '').slice(0, 4_000), imageUrl }],
+    'document'
+  );
   return results[0];
 }
 
@@ -148,29 +115,10 @@ export async function generateImageEmbedding(
 export async function generateEmbeddings(
   items: { text: string; imageUrl?: string }[]
 ): Promise<(number[] | null)[]> {
-  const apiKey = getApiKey();
-  if (!apiKey) return items.map(() => null);
-
-  const BATCH_SIZE = 50; // smaller batches for multimodal (images are heavier)
-  const allResults: (number[] | null)[] = [];
-
-  for (let i = 0; i < items.length; i += BATCH_SIZE) {
-    const batch = items.slice(i, i + BATCH_SIZE);
-
-    const inputs: MultimodalInput[] = batch.map((item) => {
-      const content: ContentPart[] = [];
-      content.push({ type: 'text', text: item.text.slice(0, 16_000) });
-      if (item.imageUrl) {
-        content.push({ type: 'image_url', image_url: item.imageUrl });
-      }
-      return { content };
-    });
-
-    const results = await callMultimodalAPI(inputs, 'document');
-    allResults.push(...results);
-  }
-
-  return allResults;
+  return embedInputs(
+    items.map((item) => ({ text: item.text.slice(0, 16_000), imageUrl: item.imageUrl })),
+    'document'
+  );
 }
 
 /**
@@ -178,13 +126,30 @@ export async function generateEmbeddings(
  * Uses 'query' input_type for asymmetric retrieval.
  */
 export async function generateQueryEmbedding(query: string): Promise<number[] | null> {
-  const results = await callMultimodalAPI(
-    [{ content: [{ type: 'text', text: query.slice(0, 16_000) }] }],
-    'query'
-  );
+  const results = await embedInputs([{ text: query.slice(0, 16_000) }], 'query');
   return results[0];
 }
 
+/**
+ * Store an embedding on a row and record which model produced it in the
+ * row's metadata (embedding_model, embedding_dimensions).
+ */
+export async function saveEmbedding(
+  table: 'spark_items' | 'chat_sessions' | 'web_research_items',
+  id: string,
+  embedding: number[]
+): Promise<{ error: string | null }> {
+  const provider = getEmbeddingProvider();
+  const { error } = await supabaseAdmin.rpc('set_row_embedding', {
+    p_table: table,
+    p_id: id,
+    p_embedding: JSON.stringify(embedding),
+    p_model: provider.id,
+    p_dimensions: embedding.length,
+  });
+  return { error: error?.message ?? null };
+}
+
 /**
  * Build a text string from an item's fields for embedding context.
  */
@@ -225,6 +190,18 @@ export function buildItemText(item: {
   return parts.join('\n');
 }
 
+/**
+ * Build the embedding text for a saved web research result.
+ */
+export function buildResearchText(research: {
+  title: string;
+  query: string;
+  summary?: string | null;
+  content: string;
+}): string {
+  return `[web_research] ${research.title}\nQuery: ${research.query}\n${research.summary || ''}\n${research.content}`;
+}
+
 /**
  * Extract the image URL from an item's metadata, if present.
  */
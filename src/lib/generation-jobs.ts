@@ -0,0 +1,188 @@
+/**
+ * Background records for artifact generation.
+ *
+ * Every /api/generate call creates a generation_jobs row before any model
+ * work starts, then runs the generation while streaming progress events to
+ * whoever is listening. The run does not depend on the listener: if the
+ * client drops, the artifact is still saved and linked from the job, and
+ * the client can poll GET /api/generate/jobs/[id] to pick it up.
+ *
+ * Cancellation goes through the job row (status = 'cancelled') so it
+ * works from any server instance; runners poll for it and abort the model
+ * call. Runs on this instance are also aborted immediately.
+ */
+
+import { supabaseAdmin } from './supabase/admin';
+import { generateArtifact, generateEntryForContentType, generateFromTemplate } from './artifact-generation';
+import { templateSnapshot } from './artifact-templates';
+import { recordInitialArtifactVersion } from './artifact-versions';
+import { StructuredOutputError, type GenerationProgress } from './structured-output';
+import type { ArtifactTemplate, ArtifactType, GeneratedArtifact, GenerationJob, GenerationRequest } from './types';
+
+const CANCEL_POLL_MS = 2_000;
+const PARTIAL_THROTTLE_MS = 250;
+
+/** What a generation resolves to once access checks have passed in the route. */
+export type GenerationTarget =
+  | { kind: 'type'; type: ArtifactType }
+  | { kind: 'template'; template: ArtifactTemplate }
+  | { kind: 'content_type'; token: string; stackApiKey: string; stackName: string | null; contentTypeUid: string };
+
+/** SSE events sent by /api/generate, in order: job, status/partial..., then artifact | error | cancelled, then done. */
+export type GenerationEvent =
+  | { type: 'job'; job_id: string }
+  | { type: 'status'; content: string }
+  | { type: 'partial'; content: unknown }
+  | { type: 'artifact'; artifact: GeneratedArtifact }
+  | { type: 'error'; content: string; details?: string[] }
+  | { type: 'cancelled' }
+  | { type: 'done'; job_id: string };
+
+// Abort handles for jobs running on this instance
+const runningJobs = new Map<string, AbortController>();
+
+export async function createGenerationJob(
+  sparkId: string,
+  userId: string,
+  request: GenerationRequest
+): Promise<GenerationJob> {
+  const { data, error } = await supabaseAdmin
+    .from('generation_jobs')
+    .insert({ spark_id: sparkId, request, created_by: userId, progress: 'Queued' })
+    .select()
+    .single();
+
+  if (error || !data) {
+    throw new Error(`Failed to create generation job: ${error?.message ?? 'no row returned'}`);
+  }
+  return data as GenerationJob;
+}
+
+async function finishJob(jobId: string, update: Partial<GenerationJob>): Promise<void> {
+  const { error } = await supabaseAdmin
+    .from('generation_jobs')
+    .update({ ...update, finished_at: new Date().toISOString() })
+    .eq('id', jobId)
+    .eq('status', 'running');
+  if (error) {
+    console.error('[generation-jobs] Failed to finish job:', error.message);
+  }
+}
+
+function runGenerator(sparkId: string, request: GenerationRequest, target: GenerationTarget, progress: GenerationProgress) {
+  const instructions = request.instructions;
+  switch (target.kind) {
+    case 'template':
+      return generateFromTemplate({ sparkId, template: target.template, instructions, progress });
+    case 'content_type':
+      return generateEntryForContentType({ sparkId, ...target, instructions, progress });
+    default:
+      return generateArtifact({ sparkId, type: target.type, instructions, progress });
+  }
+}
+
+/**
+ * Run a job to completion, emitting progress events. Never throws: every
+ * outcome is written to the job row and sent as an event.
+ */
+export async function runGenerationJob(
+  job: GenerationJob,
+  target: GenerationTarget,
+  emit: (event: GenerationEvent) => void
+): Promise<void> {
+  const controller = new AbortController();
+  runningJobs.set(job.id, controller);
+
+  // Pick up cancellations made through another instance
+  const cancelPoll = setInterval(async () => {
+    const { data } = await supabaseAdmin.from('generation_jobs').select('status').eq('id', job.id).maybeSingle();
+    if (data?.status === 'cancelled') controller.abort();
+  }, CANCEL_POLL_MS);
+
+  let lastPartialAt = 0;
+  const progress: GenerationProgress = {
+    signal: controller.signal,
+    onStatus: (message) => {
+      emit({ type: 'status', content: message });
+      supabaseAdmin
+        .from('generation_jobs')
+        .update({ progress: message })
+        .eq('id', job.id)
+        .eq('status', 'running')
+        .then(({ error }) => {
+          if (error) console.error('[generation-jobs] Failed to record progress:', error.message);
+        });
+    },
+    onPartial: (snapshot) => {
+      const now = Date.now();
+      if (now - lastPartialAt < PARTIAL_THROTTLE_MS) return;
+      lastPartialAt = now;
+      emit({ type: 'partial', content: snapshot });
+    },
+  };
+
+  try {
+    const generated = await runGenerator(job.spark_id, job.request, target, progress);
+    if (controller.signal.aborted) throw new Error('cancelled');
+
+    progress.onStatus!('Saving artifact...');
+    const metadata =
+      'schema' in generated
+        ? { schema: generated.schema }
+        : target.kind === 'template'
+          ? { template: templateSnapshot(target.template) }
+          : {};
+
+    const { data, error } = await supabaseAdmin
+      .from('generated_artifacts')
+      .insert({
+        spark_id: job.spark_id,
+        type: target.kind === 'template' ? 'custom' : target.kind === 'content_type' ? 'cms_entry' : target.type,
+        template_id: target.kind === 'template' ? target.template.id : null,
+        title: generated.title,
+        content: generated.content,
+        status: 'draft',
+        metadata,
+      })
+      .select()
+      .single();
+
+    if (error || !data) {
+      throw new Error(error?.message ?? 'Failed to save artifact');
+    }
+
+    const artifact = data as GeneratedArtifact;
+    await recordInitialArtifactVersion(artifact, job.created_by);
+    await finishJob(job.id, { status: 'completed', progress: 'Done', artifact_id: artifact.id });
+    emit({ type: 'artifact', artifact });
+  } catch (error) {
+    if (controller.signal.aborted) {
+      await finishJob(job.id, { status: 'cancelled', progress: 'Cancelled' });
+      emit({ type: 'cancelled' });
+    } else if (error instanceof StructuredOutputError) {
+      await finishJob(job.id, { status: 'failed', error: error.message, error_details: error.errors });
+      emit({ type: 'error', content: error.message, details: error.errors });
+    } else {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      await finishJob(job.id, { status: 'failed', error: errorMessage });
+      emit({ type: 'error', content: errorMessage });
+    }
+  } finally {
+    clearInterval(cancelPoll);
+    runningJobs.delete(job.id);
+    emit({ type: 'done', job_id: job.id });
+  }
+}
+
+/** Mark a running job cancelled. Returns false if it had already finished. */
+export async function cancelGenerationJob(jobId: string): Promise<boolean> {
+  const { data } = await supabaseAdmin
+    .from('generation_jobs')
+    .update({ status: 'cancelled', progress: 'Cancelled', finished_at: new Date().toISOString() })
+    .eq('id', jobId)
+    .eq('status', 'running')
+    .select('id');
+
+  runningJobs.get(jobId)?.abort();
+  return (data?.length ?? 0) > 0;
+}
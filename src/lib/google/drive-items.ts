@@ -0,0 +1,92 @@
+/**
+ * Drive-backed Spark items: exporting a Drive file's content into its item.
+ */
+
+import { supabaseAdmin } from '../supabase/admin';
+import { toItemDocumentInfo, type ExtractedDocument } from '../document-extraction';
+import { exportFileContent } from './drive';
+
+/**
+ * Export a Drive file's content into its item (content, summary and
+ * document metadata) and record the export status. Used when a Drive
+ * item is added and again whenever a watched file changes. Returns the
+ * enriched fields, or null when there was no text to store.
+ */
+export async function exportDriveItem(
+  itemId: string,
+  accessToken: string | null,
+  driveFileId: string,
+  driveMimeType: string,
+  existingMetadata: Record<string, unknown>
+): Promise<{ content: string; summary: string | null; metadata: Record<string, unknown> } | null> {
+  if (!accessToken) {
+    console.error('[drive] No valid Google access token for Drive export');
+    const failedMetadata = {
+      ...existingMetadata,
+      drive_export_status: 'failed',
+      drive_exported_at: new Date().toISOString(),
+    };
+    await supabaseAdmin
+      .from('spark_items')
+      .update({ metadata: failedMetadata })
+      .eq('id', itemId);
+    return null;
+  }
+
+  let doc: ExtractedDocument | null;
+  try {
+    doc = await exportFileContent(accessToken, driveFileId, driveMimeType);
+  } catch (err) {
+    console.error('[drive] Drive export failed:', err);
+    const failedMetadata = {
+      ...existingMetadata,
+      drive_export_status: 'failed' as const,
+      drive_exported_at: new Date().toISOString(),
+      document_extract_status: 'failed' as const,
+      document_extract_error: err instanceof Error ? err.message : 'Export failed',
+    };
+    await supabaseAdmin
+      .from('spark_items')
+      .update({ metadata: failedMetadata })
+      .eq('id', itemId);
+    return null;
+  }
+
+  if (doc?.text) {
+    const summary = doc.text.slice(0, 300);
+    const updatedMetadata = {
+      ...existingMetadata,
+      drive_export_status: 'success' as const,
+      drive_exported_at: new Date().toISOString(),
+      document: toItemDocumentInfo(doc),
+      document_extract_status: 'success' as const,
+      document_extracted_at: new Date().toISOString(),
+    };
+
+    const { error: updateError } = await supabaseAdmin
+      .from('spark_items')
+      .update({ content: doc.text, summary, metadata: updatedMetadata })
+      .eq('id', itemId);
+
+    if (updateError) {
+      console.error('[drive] Failed to update Drive content:', updateError.message);
+    }
+
+    return { content: doc.text, summary, metadata: updatedMetadata };
+  }
+
+  // Not exportable (binary file), or a document with no text layer
+  const updatedMetadata = {
+    ...existingMetadata,
+    drive_export_status: 'success' as const,
+    drive_exported_at: new Date().toISOString(),
+    ...(doc && { document: toItemDocumentInfo(doc), document_extract_status: 'success' as const }),
+  };
+
+  await supabaseAdmin
+    .from('spark_items')
+    .update({ metadata: updatedMetadata })
+    .eq('id', itemId);
+
+  return null;
+}
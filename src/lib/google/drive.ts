@@ -2,8 +2,10 @@
 // Google Drive API v3 wrapper
 // ============================================
 
+import { detectDocumentFormat, fetchAndExtractDocument, type ExtractedDocument } from '../document-extraction';
+
 const DRIVE_FILES_URL = 'https://www.googleapis.com/drive/v3/files';
-const MAX_EXPORT_BYTES = 100 * 1024; // 100KB cap
+const MAX_EXPORT_BYTES = 100 * 1024; // 100KB cap on plain-text exports
 
 export interface DriveFile {
   id: string;
@@ -14,6 +16,7 @@ export interface DriveFile {
   webViewLink: string;
   modifiedTime: string;
   owners?: { displayName: string; emailAddress: string }[];
+  parents?: string[];
 }
 
 interface DriveSearchResponse {
@@ -21,10 +24,15 @@ interface DriveSearchResponse {
   nextPageToken?: string;
 }
 
-const DRIVE_FIELDS = 'nextPageToken,files(id,name,mimeType,iconLink,thumbnailLink,webViewLink,modifiedTime,owners)';
+const FILE_FIELDS = 'id,name,mimeType,iconLink,thumbnailLink,webViewLink,modifiedTime,owners,parents';
+const DRIVE_FIELDS = `nextPageToken,files(${FILE_FIELDS})`;
+const DRIVE_CHANGES_URL = 'https://www.googleapis.com/drive/v3/changes';
+
+export const DRIVE_FOLDER_MIME = 'application/vnd.google-apps.folder';
+const DRIVE_SHORTCUT_MIME = 'application/vnd.google-apps.shortcut';
 
 /** Run a single Drive files.list request with the given query filter. */
-async function driveList(
+export async function driveList(
   accessToken: string,
   q: string,
   pageSize: number,
@@ -86,6 +94,100 @@ export async function searchDriveFiles(
   };
 }
 
+// ─── Folders and changes ────────────────────────────
+
+function inParents(folderId: string): string {
+  return `'${folderId.replace(/'/g, "\\'")}' in parents and trashed = false`;
+}
+
+/** Folders directly inside `parentId` ('root' for My Drive), by name */
+export async function listSubfolders(accessToken: string, parentId: string): Promise<DriveFile[]> {
+  const folders: DriveFile[] = [];
+  let pageToken: string | undefined;
+  do {
+    const page = await driveList(
+      accessToken,
+      `${inParents(parentId)} and mimeType = '${DRIVE_FOLDER_MIME}'`,
+      100,
+      pageToken
+    );
+    folders.push(...page.files);
+    pageToken = page.nextPageToken;
+  } while (pageToken);
+  return folders.sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/** One page of the files and folders directly inside `folderId` */
+export function listFolderChildren(
+  accessToken: string,
+  folderId: string,
+  pageToken?: string
+): Promise<DriveSearchResponse> {
+  return driveList(accessToken, inParents(folderId), 100, pageToken);
+}
+
+/** Files that can become items: everything except folders and shortcuts */
+export function isSyncableFile(file: Pick<DriveFile, 'mimeType'>): boolean {
+  return file.mimeType !== DRIVE_FOLDER_MIME && file.mimeType !== DRIVE_SHORTCUT_MIME;
+}
+
+/** Fetch one file's metadata (404 → null) */
+export async function getDriveFile(accessToken: string, fileId: string): Promise<DriveFile | null> {
+  const res = await fetch(`${DRIVE_FILES_URL}/${encodeURIComponent(fileId)}?fields=${FILE_FIELDS}`, {
+    headers: { Authorization: `Bearer ${accessToken}` },
+  });
+  if (res.status === 404) return null;
+  if (!res.ok) {
+    const err = await res.text();
+    throw new Error(`Drive file lookup failed (${res.status}): ${err}`);
+  }
+  return res.json();
+}
+
+export interface DriveChange {
+  fileId: string;
+  removed: boolean;
+  file?: DriveFile & { trashed?: boolean };
+}
+
+/** Cursor for the changes API: changes made after this call are listed from it */
+export async function getStartPageToken(accessToken: string): Promise<string> {
+  const res = await fetch(`${DRIVE_CHANGES_URL}/startPageToken`, {
+    headers: { Authorization: `Bearer ${accessToken}` },
+  });
+  if (!res.ok) {
+    const err = await res.text();
+    throw new Error(`Drive startPageToken failed (${res.status}): ${err}`);
+  }
+  const data = await res.json();
+  return data.startPageToken;
+}
+
+/**
+ * One page of changes since `pageToken`. The last page carries
+ * newStartPageToken, the cursor to store for the next sync.
+ */
+export async function listDriveChanges(
+  accessToken: string,
+  pageToken: string
+): Promise<{ changes: DriveChange[]; nextPageToken?: string; newStartPageToken?: string }> {
+  const params = new URLSearchParams({
+    pageToken,
+    pageSize: '100',
+    includeRemoved: 'true',
+    spaces: 'drive',
+    fields: `nextPageToken,newStartPageToken,changes(fileId,removed,file(${FILE_FIELDS},trashed))`,
+  });
+  const res = await fetch(`${DRIVE_CHANGES_URL}?${params}`, {
+    headers: { Authorization: `Bearer ${accessToken}` },
+  });
+  if (!res.ok) {
+    const err = await res.text();
+    throw new Error(`Drive changes failed (${res.status}): ${err}`);
+  }
+  return res.json();
+}
+
 /**
  * Map a Drive MIME type to a human-readable label.
  */
@@ -114,68 +216,78 @@ export function getDriveFileLabel(mimeType: string): string {
   return labels[mimeType] || 'File';
 }
 
-// Workspace MIME types that need export (not direct download)
+// Workspace MIME types that need export (not direct download). Docs and
+// Slides export as Office files so headings and slide numbers survive.
 const EXPORT_MAP: Record<string, string> = {
-  'application/vnd.google-apps.document': 'text/plain',
+  'application/vnd.google-apps.document': 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
   'application/vnd.google-apps.spreadsheet': 'text/csv',
-  'application/vnd.google-apps.presentation': 'text/plain',
+  'application/vnd.google-apps.presentation': 'application/vnd.openxmlformats-officedocument.presentationml.presentation',
   'application/vnd.google-apps.drawing': 'image/svg+xml',
 };
 
-// MIME types we can download directly and extract text from
+// Text formats we download directly; documents go through extractDocument
 const DOWNLOADABLE_TEXT_TYPES = [
   'text/plain',
   'text/csv',
   'text/html',
   'text/markdown',
   'application/json',
-  'application/pdf',
 ];
 
 /**
- * Export/download file content as text. Returns null for non-exportable types
- * (video, audio, binary images, etc.).
+ * Export/download file content as an extracted document. Returns null for
+ * non-exportable types (video, audio, binary images, etc.); throws if the
+ * download or extraction fails.
  */
 export async function exportFileContent(
   accessToken: string,
   fileId: string,
   mimeType: string
-): Promise<string | null> {
+): Promise<ExtractedDocument | null> {
   const headers = { Authorization: `Bearer ${accessToken}` };
 
   // Google Workspace files: use export endpoint
   const exportMime = EXPORT_MAP[mimeType];
   if (exportMime) {
     const params = new URLSearchParams({ mimeType: exportMime });
-    const res = await fetch(`${DRIVE_FILES_URL}/${fileId}/export?${params}`, { headers });
-    if (!res.ok) return null;
-    const text = await res.text();
-    return text.slice(0, MAX_EXPORT_BYTES);
+    const url = `${DRIVE_FILES_URL}/${fileId}/export?${params}`;
+    if (isBinaryDocument(exportMime)) {
+      return fetchAndExtractDocument(url, { headers, mimeType: exportMime });
+    }
+    const res = await fetch(url, { headers });
+    if (!res.ok) throw new Error(`Drive export failed (${res.status})`);
+    return plainDocument(await res.text());
+  }
+
+  // PDF, DOCX and PPTX uploads
+  if (isBinaryDocument(mimeType)) {
+    return fetchAndExtractDocument(`${DRIVE_FILES_URL}/${fileId}?alt=media`, { headers, mimeType });
   }
 
   // Downloadable text files: use media download
   if (DOWNLOADABLE_TEXT_TYPES.some((t) => mimeType.startsWith(t))) {
     const res = await fetch(`${DRIVE_FILES_URL}/${fileId}?alt=media`, { headers });
-    if (!res.ok) return null;
-
-    // For PDFs, we can't easily extract text without a library —
-    // return a placeholder noting it's a PDF
-    if (mimeType === 'application/pdf') {
-      const buffer = await res.arrayBuffer();
-      if (buffer.byteLength > MAX_EXPORT_BYTES) {
-        return '[PDF file — content too large to process inline]';
-      }
-      // Basic text extraction: look for text streams in the PDF
-      const text = new TextDecoder('utf-8', { fatal: false }).decode(buffer);
-      // Filter to printable ASCII/Unicode — crude but serviceable
-      const readable = text.replace(/[^\x20-\x7E\n\r\t]/g, ' ').replace(/\s{3,}/g, ' ').trim();
-      return readable.slice(0, MAX_EXPORT_BYTES) || '[PDF file — no extractable text]';
-    }
-
-    const text = await res.text();
-    return text.slice(0, MAX_EXPORT_BYTES);
+    if (!res.ok) throw new Error(`Drive download failed (${res.status})`);
+    return plainDocument(await res.text());
   }
 
   // Non-exportable types (images, video, audio, binary)
   return null;
 }
+
+/** PDF and Office files, which need extractDocument rather than a text read */
+function isBinaryDocument(mimeType: string): boolean {
+  const format = detectDocumentFormat(mimeType);
+  return format !== null && format !== 'text';
+}
+
+function plainDocument(text: string): ExtractedDocument {
+  const truncated = text.length > MAX_EXPORT_BYTES;
+  return {
+    format: 'text',
+    text: truncated ? text.slice(0, MAX_EXPORT_BYTES) : text,
+    sections: [],
+    page_count: null,
+    truncated,
+  };
+}
@@ -0,0 +1,354 @@
+/**
+ * Watched Google Drive folders.
+ *
+ * A folder watched by a Spark (drive_folder_syncs) has every file directly
+ * inside it kept as a google_drive item. The first sync lists the folder;
+ * later ones read the Drive changes API from the stored page token, so
+ * only files touched since the last run are looked at. Modified files are
+ * re-exported and re-embedded, and files that were trashed, deleted or
+ * moved out are marked with drive_deleted_at rather than removed, so
+ * their notes and links survive. Each successful run queues the next.
+ */
+
+import { supabaseAdmin } from '../supabase/admin';
+import { enqueueItemEmbedding, enqueueJob, PermanentJobError } from '../jobs/queue';
+import { publishItemChanges } from '../spark-events';
+import { openSealedAccessToken } from './oauth';
+import { getStartPageToken, isSyncableFile, listDriveChanges, listFolderChildren, type DriveFile } from './drive';
+import { exportDriveItem } from './drive-items';
+import type { DriveFolderSync, Job, JobProgress, SparkItemMetadata } from '../types';
+
+/** Columns safe to return to clients (everything but the sealed tokens) */
+export const DRIVE_SYNC_COLUMNS =
+  'id, spark_id, folder_id, folder_name, status, last_error, last_synced_at, created_by, created_at, updated_at';
+
+/** How often a watched folder is checked for changes */
+export const DRIVE_SYNC_INTERVAL_MS = 15 * 60_000;
+
+const DRIVE_ACTOR = { userId: null, name: 'Google Drive', clientId: null };
+
+interface StoredSync extends DriveFolderSync {
+  sealed_tokens: string;
+  page_token: string | null;
+}
+
+interface DriveItemRow {
+  id: string;
+  metadata: SparkItemMetadata;
+}
+
+interface SyncCounts {
+  created: number;
+  updated: number;
+  deleted: number;
+}
+
+/** Queue a sync of the folder. Runs (or waits) behind any sync already queued for it. */
+export function enqueueDriveFolderSync(
+  sync: Pick<DriveFolderSync, 'id' | 'spark_id'>,
+  options: { delayMs?: number; createdBy?: string | null } = {}
+): Promise<Job> {
+  return enqueueJob(
+    'drive_folder_sync',
+    { sync_id: sync.id },
+    {
+      sparkId: sync.spark_id,
+      createdBy: options.createdBy,
+      dedupeKey: `drive:sync:${sync.id}`,
+      maxAttempts: 3,
+      delayMs: options.delayMs,
+    }
+  );
+}
+
+async function loadSync(syncId: string): Promise<StoredSync | null> {
+  const { data } = await supabaseAdmin.from('drive_folder_syncs').select('*').eq('id', syncId).maybeSingle();
+  return data as StoredSync | null;
+}
+
+function updateSync(syncId: string, fields: Record<string, unknown>) {
+  return supabaseAdmin.from('drive_folder_syncs').update(fields).eq('id', syncId);
+}
+
+// ─── Items ──────────────────────────────────────────
+
+/** The Drive fields of an item's metadata, as the add-item flow sets them */
+function driveMetadata(file: DriveFile): SparkItemMetadata {
+  return {
+    drive_file_id: file.id,
+    drive_mime_type: file.mimeType,
+    drive_icon_url: file.iconLink,
+    drive_thumbnail_url: file.thumbnailLink || undefined,
+    drive_web_view_link: file.webViewLink,
+    drive_modified_time: file.modifiedTime,
+  };
+}
+
+/** Items in the Spark for these Drive files, by file id */
+async function loadDriveItems(sparkId: string, fileIds: string[]): Promise<Map<string, DriveItemRow>> {
+  const items = new Map<string, DriveItemRow>();
+  if (fileIds.length === 0) return items;
+
+  const { data, error } = await supabaseAdmin
+    .from('spark_items')
+    .select('id, metadata')
+    .eq('spark_id', sparkId)
+    .eq('type', 'google_drive')
+    .in('metadata->>drive_file_id', fileIds);
+  if (error) throw new Error(`Failed to load Drive items: ${error.message}`);
+
+  for (const row of (data ?? []) as DriveItemRow[]) {
+    if (row.metadata.drive_file_id) items.set(row.metadata.drive_file_id, row);
+  }
+  return items;
+}
+
+async function createItem(sync: StoredSync, file: DriveFile, accessToken: string): Promise<string> {
+  const metadata: SparkItemMetadata = {
+    ...driveMetadata(file),
+    drive_export_status: 'pending',
+    drive_folder_id: sync.folder_id,
+    drive_folder_sync_id: sync.id,
+    drive_synced_at: new Date().toISOString(),
+  };
+  const { data, error } = await supabaseAdmin
+    .from('spark_items')
+    .insert({ spark_id: sync.spark_id, type: 'google_drive', title: file.name, metadata })
+    .select('id')
+    .single();
+  if (error || !data) throw new Error(`Failed to add ${file.name}: ${error?.message ?? 'no row returned'}`);
+
+  await exportDriveItem(data.id, accessToken, file.id, file.mimeType, { ...metadata });
+  return data.id;
+}
+
+/**
+ * Whether an item in this folder was added by another watched folder. The
+ * file has moved here from that folder, so this sync takes the item over;
+ * otherwise the other sync would mark it deleted once it sees the move.
+ */
+function isFromOtherSync(sync: StoredSync, item: DriveItemRow): boolean {
+  return !!item.metadata.drive_folder_sync_id && item.metadata.drive_folder_sync_id !== sync.id;
+}
+
+function adoptedMetadata(sync: StoredSync): SparkItemMetadata {
+  return { drive_folder_id: sync.folder_id, drive_folder_sync_id: sync.id };
+}
+
+/**
+ * Re-export a changed file into its item; items this folder added also
+ * follow renames. `inFolder` items from another watched folder are taken over.
+ */
+async function refreshItem(
+  sync: StoredSync,
+  item: DriveItemRow,
+  file: DriveFile,
+  accessToken: string,
+  inFolder: boolean
+): Promise<void> {
+  const adopt = inFolder && isFromOtherSync(sync, item);
+  const metadata: SparkItemMetadata = {
+    ...item.metadata,
+    ...driveMetadata(file),
+    ...(adopt ? adoptedMetadata(sync) : {}),
+    drive_synced_at: new Date().toISOString(),
+  };
+  delete metadata.drive_deleted_at;
+
+  if (adopt || item.metadata.drive_folder_sync_id === sync.id) {
+    await supabaseAdmin.from('spark_items').update({ title: file.name }).eq('id', item.id);
+  }
+  await exportDriveItem(item.id, accessToken, file.id, file.mimeType, { ...metadata });
+}
+
+/** Take over an unchanged item from another watched folder (see isFromOtherSync) */
+async function adoptItem(sync: StoredSync, item: DriveItemRow): Promise<void> {
+  const { error } = await supabaseAdmin
+    .from('spark_items')
+    .update({ metadata: { ...item.metadata, ...adoptedMetadata(sync) } })
+    .eq('id', item.id);
+  if (error) throw new Error(`Failed to move item to ${sync.folder_name}: ${error.message}`);
+}
+
+async function markDeleted(item: DriveItemRow): Promise<void> {
+  const { error } = await supabaseAdmin
+    .from('spark_items')
+    .update({ metadata: { ...item.metadata, drive_deleted_at: new Date().toISOString() } })
+    .eq('id', item.id);
+  if (error) throw new Error(`Failed to mark item deleted: ${error.message}`);
+}
+
+function isModified(item: DriveItemRow, file: DriveFile): boolean {
+  return Boolean(item.metadata.drive_deleted_at) || item.metadata.drive_modified_time !== file.modifiedTime;
+}
+
+/**
+ * Tell open pages about a batch of changes and queue re-embedding for the
+ * new and re-exported items (deleted ones keep their last content).
+ */
+async function publishBatch(sparkId: string, created: string[], updated: string[], deleted: string[] = []): Promise<void> {
+  await publishItemChanges(sparkId, 'created', created, DRIVE_ACTOR);
+  await publishItemChanges(sparkId, 'updated', [...updated, ...deleted], DRIVE_ACTOR);
+  const changed = [...created, ...updated];
+  if (changed.length > 0) await enqueueItemEmbedding(sparkId, changed);
+}
+
+// ─── Sync passes ────────────────────────────────────
+
+/** First sync: add (or refresh) every file in the folder */
+async function listFolder(
+  sync: StoredSync,
+  accessToken: string,
+  counts: SyncCounts,
+  progress: (progress: JobProgress) => Promise<void>
+): Promise<void> {
+  let pageToken: string | undefined;
+  do {
+    await progress({ message: `Listing ${sync.folder_name}`, current: counts.created + counts.updated });
+    const page = await listFolderChildren(accessToken, sync.folder_id, pageToken);
+    const files = page.files.filter(isSyncableFile);
+    const items = await loadDriveItems(sync.spark_id, files.map(f => f.id));
+    const created: string[] = [];
+    const updated: string[] = [];
+
+    for (const file of files) {
+      const item = items.get(file.id);
+      if (!item) {
+        created.push(await createItem(sync, file, accessToken));
+      } else if (isModified(item, file)) {
+        await refreshItem(sync, item, file, accessToken, true);
+        updated.push(item.id);
+      } else if (isFromOtherSync(sync, item)) {
+        await adoptItem(sync, item);
+      }
+    }
+
+    counts.created += created.length;
+    counts.updated += updated.length;
+    await publishBatch(sync.spark_id, created, updated);
+    pageToken = page.nextPageToken;
+  } while (pageToken);
+}
+
+/** Later syncs: apply the changes since the stored page token. Returns the new token. */
+async function applyChanges(
+  sync: StoredSync,
+  startToken: string,
+  accessToken: string,
+  counts: SyncCounts,
+  progress: (progress: JobProgress) => Promise<void>
+): Promise<string> {
+  let pageToken: string | undefined = startToken;
+  let newStartToken = startToken;
+  do {
+    await progress({
+      message: `Checking ${sync.folder_name} for changes`,
+      current: counts.created + counts.updated + counts.deleted,
+    });
+    const page = await listDriveChanges(accessToken, pageToken);
+    const items = await loadDriveItems(sync.spark_id, page.changes.map(c => c.fileId));
+    const created: string[] = [];
+    const updated: string[] = [];
+    const deleted: string[] = [];
+
+    for (const change of page.changes) {
+      const item = items.get(change.fileId);
+      const file = change.removed || change.file?.trashed ? null : change.file;
+      const inFolder = !!file && isSyncableFile(file) && !!file.parents?.includes(sync.folder_id);
+
+      if (!file) {
+        // Trashed or deleted: every item for it is now stale
+        if (item && !item.metadata.drive_deleted_at) {
+          await markDeleted(item);
+          deleted.push(item.id);
+        }
+      } else if (inFolder) {
+        if (!item) {
+          created.push(await createItem(sync, file, accessToken));
+        } else if (isModified(item, file)) {
+          await refreshItem(sync, item, file, accessToken, true);
+          updated.push(item.id);
+        } else if (isFromOtherSync(sync, item)) {
+          await adoptItem(sync, item);
+        }
+      } else if (item) {
+        // Outside the folder: items it added are gone from it; others were added by hand
+        if (item.metadata.drive_folder_sync_id === sync.id) {
+          if (!item.metadata.drive_deleted_at) {
+            await markDeleted(item);
+            deleted.push(item.id);
+          }
+        } else if (isModified(item, file)) {
+          await refreshItem(sync, item, file, accessToken, false);
+          updated.push(item.id);
+        }
+      }
+    }
+
+    counts.created += created.length;
+    counts.updated += updated.length;
+    counts.deleted += deleted.length;
+    await publishBatch(sync.spark_id, created, updated, deleted);
+    if (page.newStartPageToken) newStartToken = page.newStartPageToken;
+    pageToken = page.nextPageToken;
+  } while (pageToken);
+
+  return newStartToken;
+}
+
+/**
+ * Bring a watched folder's items up to date. Runs as the drive_folder_sync
+ * job; safe to re-run, since unchanged files are skipped. Stops quietly if
+ * the folder was unwatched while the job waited.
+ */
+export async function syncDriveFolder(
+  syncId: string,
+  progress: (progress: JobProgress) => Promise<void>
+): Promise<SyncCounts & { skipped?: boolean }> {
+  const sync = await loadSync(syncId);
+  if (!sync) return { created: 0, updated: 0, deleted: 0, skipped: true };
+
+  let accessToken: string;
+  let resealed: string | null;
+  try {
+    ({ accessToken, resealed } = await openSealedAccessToken(sync.sealed_tokens));
+  } catch (err) {
+    console.error('[drive] Failed to open sealed Drive tokens:', err);
+    const message = 'Google Drive access has expired. Reconnect Drive and sync again.';
+    await updateSync(sync.id, { status: 'failed', last_error: message });
+    throw new PermanentJobError(message);
+  }
+
+  // Keep the refreshed token so later runs can use it, unless Drive was
+  // reconnected (and fresh tokens stored) while this run was starting
+  if (resealed) {
+    await updateSync(sync.id, { sealed_tokens: resealed }).eq('sealed_tokens', sync.sealed_tokens);
+  }
+
+  await updateSync(sync.id, { status: 'syncing', last_error: null });
+
+  const counts: SyncCounts = { created: 0, updated: 0, deleted: 0 };
+  let pageToken: string;
+  try {
+    if (sync.page_token) {
+      pageToken = await applyChanges(sync, sync.page_token, accessToken, counts, progress);
+    } else {
+      // Taken before listing, so edits made while listing show up next time
+      pageToken = await getStartPageToken(accessToken);
+      await listFolder(sync, accessToken, counts, progress);
+    }
+  } catch (err) {
+    await updateSync(sync.id, {
+      status: 'failed',
+      last_error: err instanceof Error ? err.message : String(err),
+    });
+    throw err;
+  }
+
+  await updateSync(sync.id, {
+    status: 'idle',
+    page_token: pageToken,
+    last_synced_at: new Date().toISOString(),
+  });
+  return counts;
+}
@@ -256,3 +256,43 @@ export async function revokeAndClear(): Promise<void> {
   }
   await clearTokens();
 }
+
+// ============================================
+// Sealed tokens for background jobs
+// ============================================
+
+type SealedTokens = Pick<TokenData, 'access_token' | 'refresh_token' | 'expires_at'>;
+
+/**
+ * Encrypt the connected user's tokens so a background job (a watched
+ * folder sync, long after the request) can still call Drive.
+ */
+export async function sealTokens(tokens: SealedTokens): Promise<string> {
+  const sealed: SealedTokens = {
+    access_token: tokens.access_token,
+    refresh_token: tokens.refresh_token,
+    expires_at: tokens.expires_at,
+  };
+  return encrypt(JSON.stringify(sealed));
+}
+
+/**
+ * Decrypt sealed tokens and return a usable access token, refreshing it if
+ * near expiry. After a refresh, `resealed` holds the new tokens to store in
+ * place of `sealed`, so the next run doesn't refresh again; otherwise null.
+ */
+export async function openSealedAccessToken(
+  sealed: string
+): Promise<{ accessToken: string; resealed: string | null }> {
+  const tokens: SealedTokens = JSON.parse(await decrypt(sealed));
+  if (tokens.expires_at >= Date.now() + 5 * 60 * 1000) {
+    return { accessToken: tokens.access_token, resealed: null };
+  }
+  const refreshed = await refreshAccessToken(tokens.refresh_token);
+  const resealed = await sealTokens({
+    access_token: refreshed.access_token,
+    refresh_token: tokens.refresh_token,
+    expires_at: Date.now() + refreshed.expires_in * 1000,
+  });
+  return { accessToken: refreshed.access_token, resealed };
+}
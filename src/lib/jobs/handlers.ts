@@ -0,0 +1,316 @@
+/**
+ * Handlers for each job kind.
+ *
+ * A handler gets the claimed job and a context for reporting progress.
+ * Throwing fails the attempt (retried with backoff unless it is a
+ * PermanentJobError); returning completes the job, with the returned
+ * result stored on the row. Handlers must be safe to run more than once,
+ * since a worker can die mid-job and the job will be claimed again.
+ */
+
+import { supabaseAdmin } from '../supabase/admin';
+import { buildItemText, generateEmbeddings, getImageUrl, saveEmbedding } from '../embeddings';
+import { syncItemChunks } from '../chunking';
+import { analyzeImage } from '../image-analysis';
+import { detectDocumentFormat, fetchAndExtractDocument, toItemDocumentInfo } from '../document-extraction';
+import { importDeliveryEntries, importStackAssets, importStackEntries } from '../contentstack/imports';
+import { openSealedAccessToken } from '../contentstack/oauth';
+import { importClarityInsights } from '../clarity/import';
+import { runSlackTask, type SlackTask } from '../slack';
+import { backfillSlackChannel } from '../slack-sync';
+import { sendSlackDigest } from '../slack-digest';
+import { DRIVE_SYNC_INTERVAL_MS, enqueueDriveFolderSync, syncDriveFolder } from '../google/folder-sync';
+import { publishItemChanges } from '../spark-events';
+import { JobCancelledError, PermanentJobError } from './queue';
+import type { Job, JobKind, JobProgress } from '../types';
+
+export interface JobContext {
+  /** Record progress (and refresh the lock). Throws JobCancelledError once the job is cancelled. */
+  progress: (progress: JobProgress) => Promise<void>;
+}
+
+export type JobHandler = (job: Job, ctx: JobContext) => Promise<Record<string, unknown> | void>;
+
+// ─── Embedding ──────────────────────────────────
+
+/**
+ * Embed items and rebuild their chunks. Items are read fresh, so an edit
+ * made while the job was queued is picked up; deleted items are skipped.
+ */
+async function embedItems(job: Job, ctx: JobContext) {
+  const { item_ids, analyze_images, extract_documents } = job.payload as {
+    item_ids?: string[];
+    analyze_images?: boolean;
+    extract_documents?: boolean;
+  };
+  if (!Array.isArray(item_ids) || item_ids.length === 0) {
+    throw new PermanentJobError('item_ids is required');
+  }
+
+  const { data, error } = await supabaseAdmin
+    .from('spark_items')
+    .select('id, spark_id, title, content, summary, type, metadata')
+    .in('id', item_ids);
+  if (error) throw new Error(`Failed to load items: ${error.message}`);
+
+  const items = (data ?? []).map((item) => ({ ...item, metadata: (item.metadata ?? {}) as Record<string, unknown> }));
+  if (items.length === 0) return { embedded: 0 };
+
+  const enriched = new Set<string>();
+
+  // Document text replaces the bare file reference before embedding
+  if (extract_documents) {
+    for (const item of items) {
+      const source = getDocumentSource(item);
+      if (!source || item.metadata.document) continue;
+      await ctx.progress({ message: `Extracting ${item.title}` });
+      Object.assign(item, await extractItemDocument(item, source));
+      enriched.add(item.id);
+    }
+  }
+
+  // Vision analysis enriches the text an image is embedded with
+  if (analyze_images) {
+    for (const item of items) {
+      const imageUrl = getImageUrl(item);
+      if (!imageUrl || item.metadata.image_analysis) continue;
+      await ctx.progress({ message: `Analyzing ${item.title}` });
+      const analysis = await analyzeImage(imageUrl);
+      if (analysis) {
+        item.metadata = { ...item.metadata, image_analysis: { ...analysis, analyzed_at: new Date().toISOString() } };
+        await supabaseAdmin.from('spark_items').update({ metadata: item.metadata }).eq('id', item.id);
+        enriched.add(item.id);
+      }
+    }
+  }
+
+  // Open Spark pages show the extracted text and analysis straight away
+  for (const sparkId of new Set(items.map((item) => item.spark_id as string))) {
+    const ids = items.filter((item) => item.spark_id === sparkId && enriched.has(item.id)).map((item) => item.id);
+    await publishItemChanges(sparkId, 'updated', ids);
+  }
+
+  await ctx.progress({ message: 'Embedding', current: 0, total: items.length });
+
+  const embeddings = await generateEmbeddings(
+    items.map((item) => ({ text: buildItemText(item), imageUrl: getImageUrl(item) }))
+  );
+
+  let failed = 0;
+  for (let i = 0; i < items.length; i++) {
+    const embedding = embeddings[i];
+    if (!embedding) {
+      failed++;
+    } else {
+      const { error: saveError } = await saveEmbedding('spark_items', items[i].id, embedding);
+      if (saveError) failed++;
+    }
+    await syncItemChunks(items[i]);
+    await ctx.progress({ message: 'Embedding', current: i + 1, total: items.length });
+  }
+
+  if (failed > 0) {
+    throw new Error(`Embedding failed for ${failed} of ${items.length} items`);
+  }
+  return { embedded: items.length };
+}
+
+interface DocumentSource {
+  url: string;
+  mimeType: string | null;
+  filename: string | null;
+}
+
+/** Where to download an item's document from, for file items and document assets */
+function getDocumentSource(item: { type: string; content: string | null; metadata: Record<string, unknown> }): DocumentSource | null {
+  const meta = item.metadata;
+
+  if (item.type === 'file') {
+    const url = (meta.file_url as string | undefined) || item.content;
+    if (!url || !/^https?:\/\//.test(url)) return null;
+    return { url, mimeType: (meta.file_type as string | undefined) ?? null, filename: null };
+  }
+
+  if (item.type === 'contentstack_asset' && meta.cs_asset_url) {
+    const mimeType = (meta.cs_asset_content_type as string | undefined) ?? null;
+    const filename = (meta.cs_asset_filename as string | undefined) ?? null;
+    const format = detectDocumentFormat(mimeType, filename);
+    if (!format || format === 'text') return null;
+    return { url: meta.cs_asset_url as string, mimeType, filename };
+  }
+
+  return null;
+}
+
+/**
+ * Download and extract an item's document and save the text as its
+ * content. A file item's content is just its URL and is replaced; any other
+ * content (an asset description) is kept ahead of the document text.
+ * Extraction failures are recorded on the item rather than failing the job,
+ * so the item is still embedded from what it has.
+ */
+async function extractItemDocument(
+  item: { id: string; content: string | null; metadata: Record<string, unknown> },
+  source: DocumentSource
+): Promise<{ content: string | null; metadata: Record<string, unknown> }> {
+  let metadata: Record<string, unknown>;
+  let content = item.content;
+
+  try {
+    const doc = await fetchAndExtractDocument(source.url, source);
+    if (!doc) {
+      metadata = { ...item.metadata, document_extract_status: 'unsupported' };
+    } else {
+      const prefix = item.content && item.content !== source.url ? `${item.content}\n\n` : '';
+      content = doc.text ? prefix + doc.text : item.content;
+      metadata = {
+        ...item.metadata,
+        document: toItemDocumentInfo(doc, prefix.length),
+        document_extract_status: 'success',
+        document_extract_error: undefined,
+        document_extracted_at: new Date().toISOString(),
+      };
+    }
+  } catch (err) {
+    console.error(`[jobs] Document extraction failed for item ${item.id}:`, err);
+    metadata = {
+      ...item.metadata,
+      document_extract_status: 'failed',
+      document_extract_error: err instanceof Error ? err.message : 'Extraction failed',
+      document_extracted_at: new Date().toISOString(),
+    };
+  }
+
+  const { error } = await supabaseAdmin.from('spark_items').update({ content, metadata }).eq('id', item.id);
+  if (error) throw new Error(`Failed to save extracted document: ${error.message}`);
+  return { content, metadata };
+}
+
+// ─── Imports ────────────────────────────────────
+
+function requireSparkId(job: Job): string {
+  if (!job.spark_id) throw new PermanentJobError(`${job.kind} jobs need a spark_id`);
+  return job.spark_id;
+}
+
+/** Access token from the Contentstack session sealed into the payload at enqueue time. */
+async function sealedAccessToken(job: Job): Promise<string> {
+  const sealed = job.payload.session;
+  if (typeof sealed !== 'string') {
+    throw new PermanentJobError('Missing Contentstack session');
+  }
+  try {
+    return await openSealedAccessToken(sealed);
+  } catch (err) {
+    throw new PermanentJobError(
+      `Contentstack session expired — reconnect and retry (${err instanceof Error ? err.message : 'unknown error'})`
+    );
+  }
+}
+
+async function contentstackImportDelivery(job: Job, ctx: JobContext) {
+  const result = await importDeliveryEntries(
+    {
+      sparkId: requireSparkId(job),
+      contentTypeUids: job.payload.content_type_uids as string[],
+      createdBy: job.created_by,
+    },
+    ctx.progress
+  );
+  return { ...result };
+}
+
+async function contentstackImportEntries(job: Job, ctx: JobContext) {
+  const result = await importStackEntries(
+    {
+      sparkId: requireSparkId(job),
+      token: await sealedAccessToken(job),
+      stackApiKey: job.payload.stack_api_key as string,
+      stackName: (job.payload.stack_name as string | null) ?? null,
+      contentTypeUids: job.payload.content_type_uids as string[],
+      createdBy: job.created_by,
+    },
+    ctx.progress
+  );
+  return { ...result };
+}
+
+async function contentstackImportAssets(job: Job, ctx: JobContext) {
+  const result = await importStackAssets(
+    {
+      sparkId: requireSparkId(job),
+      token: await sealedAccessToken(job),
+      stackApiKey: job.payload.stack_api_key as string,
+      stackName: (job.payload.stack_name as string | null) ?? null,
+      assetUids: job.payload.asset_uids as string[] | undefined,
+      folderUid: job.payload.folder_uid as string | undefined,
+      createdBy: job.created_by,
+    },
+    ctx.progress
+  );
+  return { ...result };
+}
+
+async function clarityImport(job: Job, ctx: JobContext) {
+  const result = await importClarityInsights(
+    {
+      sparkId: requireSparkId(job),
+      numDays: job.payload.num_days as number,
+      createdBy: job.created_by,
+    },
+    ctx.progress
+  );
+  return { ...result };
+}
+
+async function slackChannelBackfill(job: Job, ctx: JobContext) {
+  const syncId = job.payload.sync_id;
+  if (typeof syncId !== 'string') throw new PermanentJobError('sync_id is required');
+  const result = await backfillSlackChannel(syncId, ctx.progress);
+  return { ...result };
+}
+
+async function slackDigest(job: Job) {
+  const { digest_id, period_end, origin } = job.payload as { digest_id?: string; period_end?: string | null; origin?: string };
+  if (!digest_id || !origin) throw new PermanentJobError('digest_id and origin are required');
+  const result = await sendSlackDigest(digest_id, { periodEnd: period_end, origin });
+  return { ...result };
+}
+
+/**
+ * Sync a watched Drive folder and queue the next check. A run that keeps
+ * failing for a transient reason still queues the next check once it is
+ * out of attempts, so one Drive outage doesn't stop the folder being
+ * watched; permanent failures (revoked access) and cancellations do.
+ */
+async function driveFolderSync(job: Job, ctx: JobContext) {
+  const syncId = job.payload.sync_id;
+  if (typeof syncId !== 'string') throw new PermanentJobError('sync_id is required');
+  const sync = { id: syncId, spark_id: requireSparkId(job) };
+
+  try {
+    const result = await syncDriveFolder(syncId, ctx.progress);
+    if (!result.skipped) await enqueueDriveFolderSync(sync, { delayMs: DRIVE_SYNC_INTERVAL_MS });
+    return { ...result };
+  } catch (err) {
+    const stopped = err instanceof PermanentJobError || err instanceof JobCancelledError;
+    if (!stopped && job.attempts >= job.max_attempts) {
+      await enqueueDriveFolderSync(sync, { delayMs: DRIVE_SYNC_INTERVAL_MS });
+    }
+    throw err;
+  }
+}
+
+// ─── Registry ───────────────────────────────────
+
+export const JOB_HANDLERS: Record<JobKind, JobHandler> = {
+  embed_items: embedItems,
+  contentstack_import_delivery: contentstackImportDelivery,
+  contentstack_import_entries: contentstackImportEntries,
+  contentstack_import_assets: contentstackImportAssets,
+  clarity_import: clarityImport,
+  slack_task: (job) => runSlackTask(job.payload as unknown as SlackTask),
+  slack_channel_backfill: slackChannelBackfill,
+  slack_digest: slackDigest,
+  drive_folder_sync: driveFolderSync,
+};
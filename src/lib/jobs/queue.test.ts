@@ -0,0 +1,156 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { Job } from '../types';
+
+interface UpdateCall {
+  values: Record<string, unknown>;
+  filters: Record<string, unknown>;
+}
+
+const db = vi.hoisted(() => ({
+  updates: [] as UpdateCall[],
+  /** Error returned by the next update calls, in order */
+  updateErrors: [] as ({ code: string; message: string } | null)[],
+  rpc: vi.fn(),
+}));
+
+vi.mock('../supabase/admin', () => ({
+  supabaseAdmin: {
+    rpc: db.rpc,
+    from: () => ({
+      update(values: Record<string, unknown>) {
+        const call: UpdateCall = { values, filters: {} };
+        db.updates.push(call);
+        const error = db.updateErrors.shift() ?? null;
+        const query = {
+          eq(column: string, value: unknown) {
+            call.filters[column] = value;
+            return query;
+          },
+          then: (resolve: (result: { error: typeof error }) => unknown) => resolve({ error }),
+        };
+        return query;
+      },
+    }),
+  },
+}));
+
+import { backoffDelay, claimJobs, failJob, PermanentJobError, toPublicJob } from './queue';
+
+function job(overrides: Partial<Job> = {}): Job {
+  return {
+    id: 'job-1',
+    kind: 'embed_items',
+    spark_id: 'spark-1',
+    payload: {},
+    status: 'running',
+    attempts: 1,
+    max_attempts: 5,
+    run_at: '2026-01-01T00:00:00.000Z',
+    locked_at: '2026-01-01T00:00:00.000Z',
+    locked_by: 'worker-1',
+    dedupe_key: null,
+    progress: null,
+    result: null,
+    last_error: null,
+    created_by: null,
+    created_at: '2026-01-01T00:00:00.000Z',
+    updated_at: '2026-01-01T00:00:00.000Z',
+    finished_at: null,
+    ...overrides,
+  };
+}
+
+beforeEach(() => {
+  db.updates = [];
+  db.updateErrors = [];
+  db.rpc.mockReset();
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('backoffDelay', () => {
+  it('doubles from 10s per attempt', () => {
+    vi.spyOn(Math, 'random').mockReturnValue(0.5);
+    expect([1, 2, 3, 4].map(backoffDelay)).toEqual([10_000, 20_000, 40_000, 80_000]);
+  });
+
+  it('caps at ten minutes', () => {
+    vi.spyOn(Math, 'random').mockReturnValue(0.5);
+    expect(backoffDelay(20)).toBe(600_000);
+  });
+
+  it('jitters by up to 20% either way', () => {
+    vi.spyOn(Math, 'random').mockReturnValue(0);
+    expect(backoffDelay(1)).toBe(8_000);
+    vi.spyOn(Math, 'random').mockReturnValue(0.999999);
+    expect(backoffDelay(1)).toBe(12_000);
+  });
+});
+
+describe('claimJobs', () => {
+  it('claims through the claim_jobs RPC', async () => {
+    db.rpc.mockResolvedValue({ data: [job()], error: null });
+
+    expect(await claimJobs('worker-1', 3)).toEqual([job()]);
+    expect(db.rpc).toHaveBeenCalledWith('claim_jobs', { worker_id: 'worker-1', batch_size: 3 });
+  });
+
+  it('returns nothing when no job is due', async () => {
+    db.rpc.mockResolvedValue({ data: null, error: null });
+    expect(await claimJobs('worker-1')).toEqual([]);
+  });
+
+  it('throws when the RPC fails', async () => {
+    db.rpc.mockResolvedValue({ data: null, error: { message: 'boom' } });
+    await expect(claimJobs('worker-1')).rejects.toThrow('Failed to claim jobs: boom');
+  });
+});
+
+describe('failJob', () => {
+  it('re-queues with backoff while attempts remain', async () => {
+    vi.spyOn(Math, 'random').mockReturnValue(0.5);
+    const before = Date.now();
+
+    await failJob(job({ attempts: 2 }), new Error('timeout'));
+
+    expect(db.updates).toHaveLength(1);
+    const [{ values, filters }] = db.updates;
+    expect(values).toMatchObject({ status: 'queued', last_error: 'timeout', locked_by: null });
+    expect(Date.parse(values.run_at as string) - before).toBeGreaterThanOrEqual(20_000);
+    expect(filters).toEqual({ id: 'job-1', status: 'running' });
+  });
+
+  it('fails for good once attempts run out', async () => {
+    await failJob(job({ attempts: 5 }), new Error('timeout'));
+    expect(db.updates[0].values).toMatchObject({ status: 'failed', last_error: 'timeout' });
+  });
+
+  it('does not retry a permanent error', async () => {
+    await failJob(job({ attempts: 1 }), new PermanentJobError('bad payload'));
+    expect(db.updates[0].values).toMatchObject({ status: 'failed', last_error: 'bad payload' });
+  });
+
+  it('cancels when a newer job with the same dedupe key is already queued', async () => {
+    db.updateErrors = [{ code: '23505', message: 'duplicate key' }];
+
+    await failJob(job({ dedupe_key: 'embed:item-1' }), new Error('timeout'));
+
+    expect(db.updates).toHaveLength(2);
+    expect(db.updates[1].values).toMatchObject({
+      status: 'cancelled',
+      last_error: 'timeout (superseded by a newer queued job)',
+    });
+    expect(db.updates[1].filters).toEqual({ id: 'job-1' });
+  });
+});
+
+describe('toPublicJob', () => {
+  it('strips sealed sessions and Slack response URLs', () => {
+    const original = job({ payload: { session: 'sealed', responseUrl: 'https://hooks.slack.com/x', item_ids: ['a'] } });
+
+    expect(toPublicJob(original).payload).toEqual({ item_ids: ['a'] });
+    expect(original.payload.session).toBe('sealed');
+  });
+});
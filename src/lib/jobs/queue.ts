@@ -0,0 +1,276 @@
+/**
+ * Postgres-backed job queue.
+ *
+ * Producers call enqueueJob() and return straight away; workers (see
+ * worker.ts) claim due rows through the claim_jobs() RPC, which uses
+ * `for update skip locked` so any number of server instances can drain
+ * the queue without running a job twice.
+ *
+ * A failed attempt is re-queued with exponential backoff until the job
+ * runs out of attempts. A dedupe key collapses repeated requests for the
+ * same work into the one queued row, and keeps two runs of the same key
+ * from overlapping.
+ */
+
+import { supabaseAdmin } from '../supabase/admin';
+import type { Job, JobKind, JobProgress } from '../types';
+
+const BACKOFF_BASE_MS = 10_000;
+const BACKOFF_MAX_MS = 10 * 60_000;
+
+// Payload keys never returned to clients (see toPublicJob)
+const SECRET_PAYLOAD_KEYS = ['session', 'responseUrl'];
+
+/** Thrown by handlers for failures a retry can't fix (bad payload, missing config). */
+export class PermanentJobError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PermanentJobError';
+  }
+}
+
+/** Thrown from a progress report once the job has been cancelled, to unwind the handler. */
+export class JobCancelledError extends Error {
+  constructor() {
+    super('Job cancelled');
+    this.name = 'JobCancelledError';
+  }
+}
+
+export interface EnqueueOptions {
+  sparkId?: string | null;
+  createdBy?: string | null;
+  dedupeKey?: string;
+  maxAttempts?: number;
+  /** Delay before the first attempt */
+  delayMs?: number;
+}
+
+/**
+ * Queue a job. If a queued job with the same dedupe key already exists,
+ * that job is returned instead of creating a second one.
+ */
+export async function enqueueJob(
+  kind: JobKind,
+  payload: Record<string, unknown>,
+  options: EnqueueOptions = {}
+): Promise<Job> {
+  const { data, error } = await supabaseAdmin
+    .from('jobs')
+    .insert({
+      kind,
+      payload,
+      spark_id: options.sparkId ?? null,
+      created_by: options.createdBy ?? null,
+      dedupe_key: options.dedupeKey ?? null,
+      max_attempts: options.maxAttempts ?? 5,
+      run_at: new Date(Date.now() + (options.delayMs ?? 0)).toISOString(),
+      progress: { message: 'Queued' },
+    })
+    .select()
+    .single();
+
+  if (error?.code === '23505' && options.dedupeKey) {
+    const { data: existing } = await supabaseAdmin
+      .from('jobs')
+      .select()
+      .eq('dedupe_key', options.dedupeKey)
+      .eq('status', 'queued')
+      .maybeSingle();
+    if (existing) return existing as Job;
+  }
+
+  if (error || !data) {
+    throw new Error(`Failed to enqueue ${kind} job: ${error?.message ?? 'no row returned'}`);
+  }
+  return data as Job;
+}
+
+/**
+ * Queue embedding (and chunking) for items. Single-item jobs dedupe on the
+ * item, so a burst of edits re-embeds once; bulk imports insert fresh rows
+ * and need no dedupe. `extractDocuments` first downloads PDF, DOCX and PPTX
+ * sources and replaces the item content with their text.
+ */
+export function enqueueItemEmbedding(
+  sparkId: string,
+  itemIds: string[],
+  options: { createdBy?: string | null; analyzeImages?: boolean; extractDocuments?: boolean } = {}
+): Promise<Job> {
+  return enqueueJob(
+    'embed_items',
+    {
+      item_ids: itemIds,
+      analyze_images: options.analyzeImages ?? false,
+      extract_documents: options.extractDocuments ?? false,
+    },
+    {
+      sparkId,
+      createdBy: options.createdBy,
+      dedupeKey: itemIds.length === 1 ? `embed:${itemIds[0]}` : undefined,
+    }
+  );
+}
+
+/** Delay before retry number `attempt` (1-based), with ±20% jitter. */
+export function backoffDelay(attempt: number): number {
+  const base = Math.min(BACKOFF_BASE_MS * 2 ** (attempt - 1), BACKOFF_MAX_MS);
+  return Math.round(base * (0.8 + Math.random() * 0.4));
+}
+
+export async function claimJobs(workerId: string, batchSize = 1): Promise<Job[]> {
+  const { data, error } = await supabaseAdmin.rpc('claim_jobs', {
+    worker_id: workerId,
+    batch_size: batchSize,
+  });
+  if (error) {
+    throw new Error(`Failed to claim jobs: ${error.message}`);
+  }
+  return (data ?? []) as Job[];
+}
+
+/** Record progress and refresh the lock. Returns false once the job was cancelled. */
+export async function heartbeatJob(jobId: string, progress?: JobProgress): Promise<boolean> {
+  const { data, error } = await supabaseAdmin
+    .from('jobs')
+    .update({ locked_at: new Date().toISOString(), ...(progress ? { progress } : {}) })
+    .eq('id', jobId)
+    .eq('status', 'running')
+    .select('id');
+  if (error) {
+    console.error('[jobs] Heartbeat failed:', error.message);
+    return true;
+  }
+  return (data?.length ?? 0) > 0;
+}
+
+export async function completeJob(job: Job, result: Record<string, unknown> | null, progress: JobProgress): Promise<void> {
+  const { error } = await supabaseAdmin
+    .from('jobs')
+    .update({
+      status: 'succeeded',
+      result,
+      progress,
+      last_error: null,
+      locked_at: null,
+      locked_by: null,
+      finished_at: new Date().toISOString(),
+    })
+    .eq('id', job.id)
+    .eq('status', 'running');
+  if (error) {
+    console.error('[jobs] Failed to complete job:', error.message);
+  }
+}
+
+/**
+ * Record a failed attempt: re-queue with backoff while attempts remain,
+ * otherwise mark the job failed for good.
+ */
+export async function failJob(job: Job, err: unknown): Promise<void> {
+  const message = err instanceof Error ? err.message : String(err);
+  const retry = !(err instanceof PermanentJobError) && job.attempts < job.max_attempts;
+  const delay = backoffDelay(job.attempts);
+
+  const { error } = await supabaseAdmin
+    .from('jobs')
+    .update(
+      retry
+        ? {
+            status: 'queued',
+            run_at: new Date(Date.now() + delay).toISOString(),
+            last_error: message,
+            progress: { message: `Retrying in ${Math.round(delay / 1000)}s (attempt ${job.attempts} failed)` },
+            locked_at: null,
+            locked_by: null,
+          }
+        : {
+            status: 'failed',
+            last_error: message,
+            progress: { message: 'Failed' },
+            locked_at: null,
+            locked_by: null,
+            finished_at: new Date().toISOString(),
+          }
+    )
+    .eq('id', job.id)
+    .eq('status', 'running');
+
+  // A newer request for the same key was queued while this one ran —
+  // it will do the work, so this attempt just stops here
+  if (error?.code === '23505') {
+    await supabaseAdmin
+      .from('jobs')
+      .update({
+        status: 'cancelled',
+        last_error: `${message} (superseded by a newer queued job)`,
+        locked_at: null,
+        locked_by: null,
+        finished_at: new Date().toISOString(),
+      })
+      .eq('id', job.id);
+  } else if (error) {
+    console.error('[jobs] Failed to record job failure:', error.message);
+  }
+}
+
+/** Cancel a queued or running job. Returns false if it had already finished. */
+export async function cancelJob(jobId: string): Promise<boolean> {
+  const { data } = await supabaseAdmin
+    .from('jobs')
+    .update({
+      status: 'cancelled',
+      progress: { message: 'Cancelled' },
+      locked_at: null,
+      locked_by: null,
+      finished_at: new Date().toISOString(),
+    })
+    .eq('id', jobId)
+    .in('status', ['queued', 'running'])
+    .select('id');
+  return (data?.length ?? 0) > 0;
+}
+
+/** Put a failed or cancelled job back on the queue with a fresh set of attempts. */
+export async function retryJob(jobId: string): Promise<Job | null> {
+  const { data, error } = await supabaseAdmin
+    .from('jobs')
+    .update({
+      status: 'queued',
+      attempts: 0,
+      run_at: new Date().toISOString(),
+      progress: { message: 'Queued' },
+      finished_at: null,
+    })
+    .eq('id', jobId)
+    .in('status', ['failed', 'cancelled'])
+    .select()
+    .maybeSingle();
+  if (error) {
+    throw new Error(error.code === '23505' ? 'The same work is already queued' : error.message);
+  }
+  return data as Job | null;
+}
+
+/** Make a delayed queued job due now (a scheduled sync the user asked to run early). */
+export async function runJobNow(jobId: string): Promise<void> {
+  const { error } = await supabaseAdmin
+    .from('jobs')
+    .update({ run_at: new Date().toISOString() })
+    .eq('id', jobId)
+    .eq('status', 'queued');
+  if (error) {
+    console.error('[jobs] Failed to bring job forward:', error.message);
+  }
+}
+
+/**
+ * Strip secrets from a job before returning it to a client: sealed
+ * credentials, and Slack response URLs (anyone holding one can post into
+ * the asker's channel).
+ */
+export function toPublicJob(job: Job): Job {
+  const payload = { ...job.payload };
+  for (const key of SECRET_PAYLOAD_KEYS) delete payload[key];
+  return { ...job, payload };
+}
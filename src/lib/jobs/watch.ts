@@ -0,0 +1,30 @@
+/**
+ * Client-side polling for background jobs (safe to import from components).
+ */
+
+import type { Job, JobStatus } from '../types';
+
+const FINISHED: JobStatus[] = ['succeeded', 'failed', 'cancelled'];
+
+export function isJobFinished(job: Pick<Job, 'status'>): boolean {
+  return FINISHED.includes(job.status);
+}
+
+/**
+ * Poll GET /api/jobs/[id] until the job finishes, calling `onUpdate` with
+ * each snapshot. Resolves with the finished job.
+ */
+export async function watchJob(
+  jobId: string,
+  onUpdate: (job: Job) => void,
+  intervalMs = 1_000
+): Promise<Job> {
+  for (;;) {
+    const res = await fetch(`/api/jobs/${jobId}`);
+    if (!res.ok) throw new Error('Lost track of the import job');
+    const job = (await res.json()) as Job;
+    onUpdate(job);
+    if (isJobFinished(job)) return job;
+    await new Promise((resolve) => setTimeout(resolve, intervalMs));
+  }
+}
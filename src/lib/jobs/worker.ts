@@ -0,0 +1,133 @@
+/**
+ * Job worker: claims due jobs and runs their handlers.
+ *
+ * Three things drive it, so queued work runs wherever the app is hosted:
+ * - a polling loop started from instrumentation.ts on long-running servers
+ * - scheduleJobWorker(), which producers call to drain the queue in after()
+ *   right after enqueueing (best effort — if the host drops the callback
+ *   the job simply waits for the next run)
+ * - POST /api/jobs/worker, for an external cron on serverless hosts
+ *
+ * While a job runs its lock is refreshed on a timer; a worker that dies
+ * stops refreshing and claim_jobs() hands the job to another worker.
+ */
+
+import { after } from 'next/server';
+import { hostname } from 'os';
+import { JOB_HANDLERS, type JobContext } from './handlers';
+import {
+  claimJobs,
+  completeJob,
+  failJob,
+  heartbeatJob,
+  JobCancelledError,
+  PermanentJobError,
+} from './queue';
+import type { Job, JobProgress } from '../types';
+
+const HEARTBEAT_MS = 15_000;
+const POLL_INTERVAL_MS = 5_000;
+/** How long one run keeps claiming jobs before returning */
+const RUN_BUDGET_MS = 50_000;
+
+const WORKER_ID = `${hostname()}:${process.pid}:${Math.random().toString(36).slice(2, 8)}`;
+
+// One drain per process at a time; concurrent callers share it
+let activeRun: Promise<number> | null = null;
+let loopStarted = false;
+
+async function runJob(job: Job): Promise<void> {
+  const handler = JOB_HANDLERS[job.kind];
+  if (!handler) {
+    await failJob(job, new PermanentJobError(`Unknown job kind: ${job.kind}`));
+    return;
+  }
+
+  let cancelled = false;
+  let lastProgress: JobProgress | null = null;
+
+  // Keep the lock fresh between progress reports, and notice cancellation
+  const heartbeat = setInterval(async () => {
+    if (!(await heartbeatJob(job.id))) cancelled = true;
+  }, HEARTBEAT_MS);
+
+  const ctx: JobContext = {
+    progress: async (progress) => {
+      if (cancelled) throw new JobCancelledError();
+      lastProgress = progress;
+      if (!(await heartbeatJob(job.id, progress))) {
+        cancelled = true;
+        throw new JobCancelledError();
+      }
+    },
+  };
+
+  try {
+    const result = await handler(job, ctx);
+    if (!cancelled) {
+      await completeJob(job, result ?? null, lastProgress ?? { message: 'Done' });
+    }
+  } catch (err) {
+    if (cancelled || err instanceof JobCancelledError) return;
+    console.error(`[jobs] ${job.kind} ${job.id} attempt ${job.attempts} failed:`, err);
+    await failJob(job, err);
+  } finally {
+    clearInterval(heartbeat);
+  }
+}
+
+async function drain(budgetMs: number): Promise<number> {
+  const deadline = Date.now() + budgetMs;
+  let processed = 0;
+  while (Date.now() < deadline) {
+    const [job] = await claimJobs(WORKER_ID);
+    if (!job) break;
+    await runJob(job);
+    processed++;
+  }
+  return processed;
+}
+
+/**
+ * Run due jobs one at a time until the queue is empty or the budget is
+ * spent. Returns how many jobs were processed.
+ */
+export function runJobs(budgetMs = RUN_BUDGET_MS): Promise<number> {
+  if (!activeRun) {
+    activeRun = drain(budgetMs).finally(() => {
+      activeRun = null;
+    });
+  }
+  return activeRun;
+}
+
+/** Drain the queue once the current response has been sent. */
+export function scheduleJobWorker(): void {
+  const run = () =>
+    runJobs().catch((err) => {
+      console.error('[jobs] Worker run failed:', err);
+    });
+  try {
+    after(run);
+  } catch {
+    // Outside a request scope (e.g. called from another job) — just start it
+    void run();
+  }
+}
+
+/** Poll for due jobs for the lifetime of the process. */
+export function startJobWorkerLoop(): void {
+  if (loopStarted) return;
+  loopStarted = true;
+
+  const tick = async () => {
+    try {
+      await runJobs();
+    } catch (err) {
+      console.error('[jobs] Worker run failed:', err);
+    } finally {
+      setTimeout(tick, POLL_INTERVAL_MS);
+    }
+  };
+  void tick();
+}
@@ -0,0 +1,183 @@
+/**
+ * @mention notifications.
+ *
+ * Mentions resolve against a Spark's accepted members. Each person
+ * mentioned (other than the author) gets a row in `notifications`, shown in
+ * the in-app inbox, and — if they turned on `users.slack_notifications` —
+ * a Slack DM through the bot.
+ */
+
+import { supabaseAdmin } from './supabase/admin';
+import { lookupUserIdByEmail, postMessage } from './slack';
+import type { NotificationSource } from './types';
+
+// Longest excerpt kept with a notification
+const MAX_EXCERPT_LENGTH = 280;
+
+export interface MentionableMember {
+  userId: string;
+  /** What `@` inserts — the display name, or the email for people without one */
+  label: string;
+  email: string;
+}
+
+export interface MentionActor {
+  id: string;
+  name: string;
+}
+
+export interface MentionContext {
+  source: NotificationSource;
+  threadId?: string | null;
+  excerpt: string;
+  /** Origin for the link in Slack messages, e.g. request.nextUrl.origin */
+  origin?: string;
+}
+
+// ─── Members ──────────────────────────────────────────
+
+/** Accepted members of a Spark, the people who can be mentioned. */
+export async function loadMentionableMembers(sparkId: string): Promise<MentionableMember[]> {
+  const { data, error } = await supabaseAdmin
+    .from('spark_members')
+    .select('user_id, invited_email, users:user_id (display_name, email)')
+    .eq('spark_id', sparkId)
+    .eq('status', 'accepted')
+    .not('user_id', 'is', null);
+
+  if (error) throw new Error(error.message);
+
+  return (data ?? []).map((row) => {
+    const user = row.users as unknown as { display_name: string | null; email: string } | null;
+    const email = user?.email ?? row.invited_email;
+    return { userId: row.user_id as string, label: user?.display_name || email, email };
+  });
+}
+
+/**
+ * Members mentioned as `@Label` in plain-text comment content. Longer labels
+ * are matched first so "@Ann Lee" isn't also read as a mention of "Ann".
+ */
+export function findMentionedMembers(content: string, members: MentionableMember[]): string[] {
+  const text = content.toLowerCase();
+  const found = new Set<string>();
+  let remaining = text;
+
+  for (const member of [...members].sort((a, b) => b.label.length - a.label.length)) {
+    const needle = `@${member.label.toLowerCase()}`;
+    let index = remaining.indexOf(needle);
+    while (index !== -1) {
+      const prev = remaining[index - 1];
+      const next = remaining[index + needle.length];
+      // Whole words only: "@Ann" doesn't match "@Anna" or an email address
+      if (!isWordChar(prev) && !isWordChar(next)) {
+        found.add(member.userId);
+        remaining = remaining.slice(0, index) + ' '.repeat(needle.length) + remaining.slice(index + needle.length);
+      }
+      index = remaining.indexOf(needle, index + 1);
+    }
+  }
+
+  return [...found];
+}
+
+function isWordChar(char: string | undefined): boolean {
+  return char !== undefined && /[\p{L}\p{N}_]/u.test(char);
+}
+
+// ─── Notify ───────────────────────────────────────────
+
+/**
+ * Record a mention for each of `userIds` who is a member of the Spark, then
+ * DM the ones who opted into Slack. Non-members and the actor are skipped.
+ * Returns the ids notified. Slack failures are logged, never thrown.
+ */
+export async function notifyMentions(
+  sparkId: string,
+  actor: MentionActor,
+  userIds: string[],
+  context: MentionContext,
+  members?: MentionableMember[]
+): Promise<string[]> {
+  members ??= await loadMentionableMembers(sparkId);
+  const memberIds = new Set(members.map((m) => m.userId));
+  const recipients = [...new Set(userIds)].filter((id) => id !== actor.id && memberIds.has(id));
+  if (recipients.length === 0) return [];
+
+  const excerpt = context.excerpt.trim().slice(0, MAX_EXCERPT_LENGTH);
+  const { error } = await supabaseAdmin.from('notifications').insert(
+    recipients.map((userId) => ({
+      user_id: userId,
+      spark_id: sparkId,
+      kind: 'mention',
+      actor_id: actor.id,
+      actor_name: actor.name,
+      source: context.source,
+      thread_id: context.threadId ?? null,
+      excerpt,
+    }))
+  );
+  if (error) throw new Error(error.message);
+
+  await sendSlackMentions(sparkId, actor, recipients, { ...context, excerpt });
+  return recipients;
+}
+
+/**
+ * Notify the members mentioned as `@Label` in a comment. Never throws — a
+ * comment is saved whether or not its notifications go out.
+ */
+export async function notifyCommentMentions(
+  sparkId: string,
+  actor: MentionActor,
+  content: string,
+  threadId: string,
+  origin?: string
+): Promise<void> {
+  if (!content.includes('@')) return;
+  try {
+    const members = await loadMentionableMembers(sparkId);
+    const mentioned = findMentionedMembers(content, members);
+    await notifyMentions(sparkId, actor, mentioned, { source: 'comment', threadId, excerpt: content, origin }, members);
+  } catch (err) {
+    console.error('[notifications] Failed to notify comment mentions:', err);
+  }
+}
+
+async function sendSlackMentions(
+  sparkId: string,
+  actor: MentionActor,
+  userIds: string[],
+  context: MentionContext
+): Promise<void> {
+  if (!process.env.SLACK_BOT_TOKEN) return;
+
+  const [{ data: users }, { data: spark }] = await Promise.all([
+    supabaseAdmin
+      .from('users')
+      .select('id, email')
+      .in('id', userIds)
+      .eq('slack_notifications', true),
+    supabaseAdmin.from('sparks').select('name').eq('id', sparkId).maybeSingle(),
+  ]);
+  if (!users?.length) return;
+
+  const where = context.source === 'comment' ? 'a comment' : 'the document';
+  const sparkName = spark?.name ?? 'a Spark';
+  const title = context.origin
+    ? `<${context.origin}/spark/${sparkId}|${sparkName}>`
+    : `*${sparkName}*`;
+  const quote = context.excerpt ? `\n> ${context.excerpt.replace(/\n/g, '\n> ')}` : '';
+  const text = `${actor.name} mentioned you in ${where} in ${title}${quote}`;
+
+  await Promise.all(
+    users.map(async (user) => {
+      try {
+        const slackUserId = await lookupUserIdByEmail(user.email);
+        if (slackUserId) await postMessage(slackUserId, null, text);
+      } catch (err) {
+        console.error('[notifications] Slack delivery failed:', err);
+      }
+    })
+  );
+}
@@ -0,0 +1,109 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { getReranker, lexicalReranker, rerank, voyageReranker } from './rerank';
+
+const docs = [
+  { id: 'a', text: 'Quarterly revenue grew in the European market.' },
+  { id: 'b', text: 'Our onboarding checklist for new hires.' },
+  { id: 'c', text: 'Revenue forecast: revenue targets for the revenue team.' },
+];
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+});
+
+describe('lexicalReranker', () => {
+  it('ranks documents by query term matches with scores in 0–1', async () => {
+    const results = await lexicalReranker.rerank('revenue', docs, 3);
+
+    expect(results.map((r) => r.id)).toEqual(['c', 'a', 'b']);
+    for (const r of results) {
+      expect(r.score).toBeGreaterThanOrEqual(0);
+      expect(r.score).toBeLessThan(1);
+    }
+    expect(results[2].score).toBe(0);
+  });
+
+  it('keeps only the top K', async () => {
+    const results = await lexicalReranker.rerank('revenue', docs, 1);
+    expect(results).toHaveLength(1);
+    expect(results[0].id).toBe('c');
+  });
+
+  it('keeps input order with zero scores when the query is only stopwords', async () => {
+    const results = await lexicalReranker.rerank('what is the', docs, 2);
+    expect(results).toEqual([
+      { id: 'a', score: 0 },
+      { id: 'b', score: 0 },
+    ]);
+  });
+
+  it('returns nothing for no documents', async () => {
+    expect(await lexicalReranker.rerank('revenue', [], 5)).toEqual([]);
+  });
+});
+
+describe('getReranker', () => {
+  it('honours RERANKER', () => {
+    vi.stubEnv('RERANKER', 'none');
+    expect(getReranker()).toBeNull();
+    vi.stubEnv('RERANKER', 'Lexical');
+    expect(getReranker()).toBe(lexicalReranker);
+    vi.stubEnv('RERANKER', 'voyage');
+    expect(getReranker()).toBe(voyageReranker);
+  });
+
+  it('defaults to voyage only when a Voyage key is set', () => {
+    vi.stubEnv('RERANKER', '');
+    vi.stubEnv('VOYAGE_API_KEY', '');
+    expect(getReranker()).toBe(lexicalReranker);
+    vi.stubEnv('VOYAGE_API_KEY', 'key');
+    expect(getReranker()).toBe(voyageReranker);
+  });
+});
+
+describe('rerank', () => {
+  it('returns null when reranking is disabled', async () => {
+    vi.stubEnv('RERANKER', 'none');
+    expect(await rerank('revenue', docs, 3)).toBeNull();
+  });
+
+  it('falls back to lexical when Voyage fails', async () => {
+    vi.stubEnv('RERANKER', 'voyage');
+    vi.stubEnv('VOYAGE_API_KEY', 'key');
+    vi.stubGlobal('fetch', vi.fn(async () => new Response('boom', { status: 500 })));
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    const result = await rerank('revenue', docs, 2);
+
+    expect(result?.reranker).toBe('lexical');
+    expect(result?.results.map((r) => r.id)).toEqual(['c', 'a']);
+  });
+
+  it('maps Voyage results back to document ids, best first', async () => {
+    vi.stubEnv('RERANKER', 'voyage');
+    vi.stubEnv('VOYAGE_API_KEY', 'key');
+    vi.stubGlobal(
+      'fetch',
+      vi.fn(async () =>
+        Response.json({
+          data: [
+            { index: 0, relevance_score: 0.2 },
+            { index: 2, relevance_score: 0.9 },
+          ],
+        })
+      )
+    );
+
+    const result = await rerank('revenue', docs, 2);
+
+    expect(result).toEqual({
+      reranker: 'voyage',
+      results: [
+        { id: 'c', score: 0.9 },
+        { id: 'a', score: 0.2 },
+      ],
+    });
+  });
+});
@@ -0,0 +1,206 @@
+/**
+ * Reranking stage for retrieval.
+ *
+ * Hybrid search (vector + full-text, fused with RRF) returns a broad
+ * candidate set; a reranker then scores each candidate directly against
+ * the query and keeps the best few.
+ *
+ * Rerankers:
+ *   - voyage  — Voyage AI rerank API (requires VOYAGE_API_KEY)
+ *   - lexical — local term-overlap scorer, no network
+ *
+ * Selected with RERANKER=voyage|lexical|none. Defaults to voyage when
+ * VOYAGE_API_KEY is set, otherwise lexical. A failed Voyage call falls
+ * back to lexical so retrieval never breaks on the rerank step.
+ */
+
+import { addLogEntry } from './activity-logger';
+
+const VOYAGE_RERANK_URL = 'https://api.voyageai.com/v1/rerank';
+const VOYAGE_RERANK_MODEL = 'rerank-2';
+
+export interface RerankDocument {
+  id: string;
+  text: string;
+}
+
+export interface RerankResult {
+  id: string;
+  score: number;
+}
+
+export interface Reranker {
+  name: string;
+  rerank(query: string, documents: RerankDocument[], topK: number): Promise<RerankResult[]>;
+}
+
+// ============================================
+// Voyage AI reranker
+// ============================================
+
+export const voyageReranker: Reranker = {
+  name: 'voyage',
+
+  async rerank(query, documents, topK) {
+    const apiKey = process.env.VOYAGE_API_KEY;
+    if (!apiKey) throw new Error('VOYAGE_API_KEY not set');
+    if (documents.length === 0) return [];
+
+    const start = Date.now();
+    const correlationId = `voyage_rerank_${Date.now()}`;
+
+    addLogEntry({
+      service: 'voyage',
+      direction: 'request',
+      level: 'info',
+      method: 'POST',
+      url: VOYAGE_RERANK_URL,
+      summary: `rerank ${documents.length} candidates`,
+      requestBody: { model: VOYAGE_RERANK_MODEL, documentCount: documents.length, topK },
+      correlationId,
+    });
+
+    const response = await fetch(VOYAGE_RERANK_URL, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: `Bearer ${apiKey}`,
+      },
+      body: JSON.stringify({
+        model: VOYAGE_RERANK_MODEL,
+        query,
+        documents: documents.map((d) => d.text.slice(0, 8_000)),
+        top_k: topK,
+      }),
+    });
+
+    const duration = Date.now() - start;
+
+    if (!response.ok) {
+      const error = await response.text();
+      addLogEntry({
+        service: 'voyage',
+        direction: 'response',
+        level: 'error',
+        method: 'POST',
+        url: VOYAGE_RERANK_URL,
+        summary: `rerank — ${response.status}`,
+        statusCode: response.status,
+        duration,
+        error,
+        correlationId,
+      });
+      throw new Error(`Voyage rerank failed: ${response.status}`);
+    }
+
+    const result = await response.json();
+    const data = result.data as { index: number; relevance_score: number }[];
+
+    addLogEntry({
+      service: 'voyage',
+      direction: 'response',
+      level: 'info',
+      method: 'POST',
+      url: VOYAGE_RERANK_URL,
+      summary: `rerank — 200 (${data.length} results)`,
+      statusCode: 200,
+      duration,
+      correlationId,
+    });
+
+    return data
+      .map((d) => ({ id: documents[d.index].id, score: d.relevance_score }))
+      .sort((a, b) => b.score - a.score);
+  },
+};
+
+// ============================================
+// Local lexical reranker
+// ============================================
+
+const STOPWORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'for', 'from', 'how', 'in',
+  'is', 'it', 'of', 'on', 'or', 'that', 'the', 'this', 'to', 'was', 'what',
+  'when', 'where', 'which', 'who', 'why', 'with', 'you', 'your',
+]);
+
+function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter((t) => t.length > 1 && !STOPWORDS.has(t));
+}
+
+/**
+ * BM25-style scorer over the candidate set itself. Rewards documents that
+ * contain more of the query's rarer terms, normalised for length, and
+ * squashed into 0–1 so scores are comparable with Voyage's.
+ */
+export const lexicalReranker: Reranker = {
+  name: 'lexical',
+
+  async rerank(query, documents, topK) {
+    const queryTerms = [...new Set(tokenize(query))];
+    if (queryTerms.length === 0 || documents.length === 0) {
+      return documents.slice(0, topK).map((d) => ({ id: d.id, score: 0 }));
+    }
+
+    const docs = documents.map((d) => {
+      const tokens = tokenize(d.text);
+      const tf = new Map<string, number>();
+      for (const t of tokens) tf.set(t, (tf.get(t) ?? 0) + 1);
+      return { id: d.id, tf, length: tokens.length };
+    });
+
+    const avgLength = docs.reduce((sum, d) => sum + d.length, 0) / docs.length || 1;
+    const k1 = 1.2;
+    const b = 0.75;
+
+    const scored = docs.map((doc) => {
+      let score = 0;
+      for (const term of queryTerms) {
+        const freq = doc.tf.get(term) ?? 0;
+        if (freq === 0) continue;
+        const df = docs.filter((d) => d.tf.has(term)).length;
+        const idf = Math.log(1 + (docs.length - df + 0.5) / (df + 0.5));
+        score += idf * ((freq * (k1 + 1)) / (freq + k1 * (1 - b + (b * doc.length) / avgLength)));
+      }
+      return { id: doc.id, score: score / (score + 1) };
+    });
+
+    return scored.sort((a, b) => b.score - a.score).slice(0, topK);
+  },
+};
+
+// ============================================
+// Selection
+// ============================================
+
+/** The configured reranker, or null when RERANKER=none. */
+export function getReranker(): Reranker | null {
+  const configured = process.env.RERANKER?.toLowerCase();
+  if (configured === 'none') return null;
+  if (configured === 'lexical') return lexicalReranker;
+  if (configured === 'voyage') return voyageReranker;
+  return process.env.VOYAGE_API_KEY ? voyageReranker : lexicalReranker;
+}
+
+/**
+ * Rerank with the configured reranker, falling back to lexical on error.
+ * Returns null when reranking is disabled — keep the fusion order.
+ */
+export async function rerank(
+  query: string,
+  documents: RerankDocument[],
+  topK: number
+): Promise<{ reranker: string; results: RerankResult[] } | null> {
+  const reranker = getReranker();
+  if (!reranker) return null;
+
+  try {
+    return { reranker: reranker.name, results: await reranker.rerank(query, documents, topK) };
+  } catch (err) {
+    console.error(`[rerank] ${reranker.name} failed, falling back to lexical:`, err);
+    return { reranker: lexicalReranker.name, results: await lexicalReranker.rerank(query, documents, topK) };
+  }
+}
@@ -0,0 +1,120 @@
+/**
+ * Hybrid retrieval for Spark items: vector + full-text search fused with
+ * RRF (hybrid_search_spark_items), then a reranking stage over the
+ * top candidates. Used by chat auto-context and the search tools.
+ */
+
+import { supabaseAdmin } from './supabase/admin';
+import { generateQueryEmbedding, getEmbeddingProvider } from './embeddings';
+import { rerank } from './rerank';
+import type { RetrievalScores } from './types';
+
+const DEFAULT_CANDIDATE_COUNT = 20;
+
+// A type alias (not an interface) so results pass as Record<string, unknown>
+export type RetrievedItem = {
+  id: string;
+  type: string;
+  title: string;
+  content: string | null;
+  summary: string | null;
+  metadata: Record<string, unknown>;
+  /** Best-matching chunk, when the item matched through a chunk */
+  chunk_content: string | null;
+  /** Page, slide or heading of the chunk in its source document ("p. 12") */
+  chunk_anchor: string | null;
+  /** Headline relevance: rerank score if reranked, else semantic similarity */
+  similarity: number;
+  scores: RetrievalScores;
+};
+
+interface HybridRow {
+  id: string;
+  type: string;
+  title: string;
+  content: string | null;
+  summary: string | null;
+  metadata: Record<string, unknown>;
+  chunk_content: string | null;
+  chunk_anchor: string | null;
+  similarity: number | null;
+  full_text_rank: number | null;
+  semantic_rank: number | null;
+  score: number;
+}
+
+/** Text the reranker sees for a candidate — the matched passage when there is one */
+function rerankText(row: HybridRow): string {
+  const body = row.chunk_content ?? row.content?.slice(0, 4_000) ?? '';
+  return [row.title, body, row.summary].filter(Boolean).join('\n');
+}
+
+interface HybridSearchOptions {
+  matchCount?: number;
+  candidateCount?: number;
+  /** Precomputed query embedding; computed here when omitted */
+  queryEmbedding?: number[] | null;
+}
+
+/**
+ * Retrieve the `matchCount` most relevant items for a query.
+ * Works without an embedding provider (full-text only) and without a
+ * reranker (fusion order). Returns an error string if the RPC failed.
+ */
+export async function hybridSearch(
+  sparkId: string,
+  query: string,
+  options: HybridSearchOptions = {}
+): Promise<{ items: RetrievedItem[]; error: string | null }> {
+  const { matchCount = 8, candidateCount = DEFAULT_CANDIDATE_COUNT } = options;
+  const queryEmbedding = options.queryEmbedding !== undefined
+    ? options.queryEmbedding
+    : await generateQueryEmbedding(query);
+
+  const { data, error } = await supabaseAdmin.rpc('hybrid_search_spark_items', {
+    p_spark_id: sparkId,
+    query_text: query,
+    query_embedding: queryEmbedding ? JSON.stringify(queryEmbedding) : null,
+    match_count: Math.max(candidateCount, matchCount),
+    // Only rows embedded in the query's vector space
+    p_embedding_model: getEmbeddingProvider().id,
+  });
+
+  if (error) return { items: [], error: error.message };
+
+  const candidates = (data || []) as HybridRow[];
+  if (candidates.length === 0) return { items: [], error: null };
+
+  const reranked = await rerank(
+    query,
+    candidates.map((row) => ({ id: row.id, text: rerankText(row) })),
+    matchCount
+  );
+
+  const byId = new Map(candidates.map((row) => [row.id, row]));
+  const ordered = reranked
+    ? reranked.results.map((r) => ({ row: byId.get(r.id)!, rerankScore: r.score }))
+    : candidates.slice(0, matchCount).map((row) => ({ row, rerankScore: null }));
+
+  const items = ordered.map(({ row, rerankScore }) => ({
+    id: row.id,
+    type: row.type,
+    title: row.title,
+    content: row.content,
+    summary: row.summary,
+    metadata: row.metadata,
+    chunk_content: row.chunk_content,
+    chunk_anchor: row.chunk_anchor,
+    similarity: rerankScore ?? row.similarity ?? 0,
+    scores: {
+      semantic: row.similarity,
+      semantic_rank: row.semantic_rank,
+      full_text_rank: row.full_text_rank,
+      fusion: row.score,
+      rerank: rerankScore,
+      reranker: reranked?.reranker ?? null,
+    },
+  }));
+
+  return { items, error: null };
+}
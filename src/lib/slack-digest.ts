@@ -0,0 +1,524 @@
+/**
+ * Scheduled Slack digests of Spark activity.
+ *
+ * Each Spark can have one digest (slack_digests) posted daily or weekly
+ * to a Slack channel. POST /api/digests/run, called by a cron, queues a
+ * slack_digest job for every digest that is due (queueDueDigests). The job
+ * gathers what happened in the Spark since the last digest — new items by
+ * source, notable web research, generated artifacts and open discussion
+ * threads — asks Claude for a short "what changed" summary, and posts it
+ * all as Block Kit. Every step is traced with logWebhook.
+ */
+
+import Anthropic from '@anthropic-ai/sdk';
+import { supabaseAdmin } from './supabase/admin';
+import { addLogEntry } from './activity-logger';
+import { enqueueJob, PermanentJobError } from './jobs/queue';
+import { logWebhook, generateCorrelationId } from './webhook-logger';
+import { postMessage, markdownToMrkdwn, escapeMrkdwn } from './slack';
+import { TYPE_LABELS } from './canvas-layout';
+import type { DigestFrequency, Job, SlackDigest } from './types';
+
+const anthropic = new Anthropic();
+
+// Webhook log route for digest work
+const DIGEST_ROUTE = 'job:slack_digest';
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Most due digests queued by one run; the rest wait for the next run
+const MAX_DUE_PER_RUN = 50;
+// Titles listed per item source, research and artifacts in the message
+const MAX_LISTED = 3;
+const MAX_THREADS_LISTED = 5;
+// Slack section text limit is 3000; leave room for formatting
+const MAX_SECTION_CHARS = 2900;
+
+// ─── Schedule ───────────────────────────────────────
+
+type DigestSchedule = Pick<SlackDigest, 'frequency' | 'hour_utc' | 'weekday'>;
+
+/** The first send slot strictly after `after` */
+export function nextDigestRun(schedule: DigestSchedule, after: Date = new Date()): Date {
+  const next = new Date(
+    Date.UTC(after.getUTCFullYear(), after.getUTCMonth(), after.getUTCDate(), schedule.hour_utc)
+  );
+  if (schedule.frequency === 'weekly') {
+    next.setUTCDate(next.getUTCDate() + ((schedule.weekday - next.getUTCDay() + 7) % 7));
+  }
+  if (next <= after) {
+    next.setUTCDate(next.getUTCDate() + (schedule.frequency === 'weekly' ? 7 : 1));
+  }
+  return next;
+}
+
+function periodLength(frequency: DigestFrequency): number {
+  return frequency === 'weekly' ? 7 * DAY_MS : DAY_MS;
+}
+
+/**
+ * Queue a slack_digest job for every enabled digest whose slot has
+ * passed, moving each on to its next slot first. The move only succeeds
+ * if next_run_at is unchanged, so overlapping cron runs queue a digest
+ * once. Returns the number of jobs queued.
+ */
+export async function queueDueDigests(origin: string): Promise<number> {
+  const now = new Date();
+  const { data: due, error } = await supabaseAdmin
+    .from('slack_digests')
+    .select('*')
+    .eq('enabled', true)
+    .lte('next_run_at', now.toISOString())
+    .order('next_run_at', { ascending: true })
+    .limit(MAX_DUE_PER_RUN);
+  if (error) throw new Error(`Failed to load due digests: ${error.message}`);
+
+  let queued = 0;
+  for (const digest of (due ?? []) as SlackDigest[]) {
+    const { data: claimed } = await supabaseAdmin
+      .from('slack_digests')
+      .update({ next_run_at: nextDigestRun(digest, now).toISOString() })
+      .eq('id', digest.id)
+      .eq('next_run_at', digest.next_run_at)
+      .select('id');
+    if (!claimed?.length) continue;
+
+    await enqueueDigest(digest, { periodEnd: digest.next_run_at, origin });
+    queued++;
+  }
+  return queued;
+}
+
+/** Queue one digest. Without periodEnd it covers activity up to when the job runs. */
+export function enqueueDigest(
+  digest: Pick<SlackDigest, 'id' | 'spark_id'>,
+  options: { periodEnd?: string; origin: string; createdBy?: string | null }
+): Promise<Job> {
+  return enqueueJob(
+    'slack_digest',
+    { digest_id: digest.id, period_end: options.periodEnd ?? null, origin: options.origin },
+    {
+      sparkId: digest.spark_id,
+      createdBy: options.createdBy,
+      dedupeKey: `digest:${digest.id}`,
+      maxAttempts: 3,
+    }
+  );
+}
+
+// ─── Activity ───────────────────────────────────────
+
+export interface DigestActivity {
+  items: { id: string; type: string; title: string; summary: string | null }[];
+  research: { id: string; title: string; query: string; summary: string | null; sourceCount: number }[];
+  artifacts: { id: string; type: string; title: string; status: string }[];
+  openThreads: {
+    id: string;
+    selectedText: string;
+    comments: number;
+    /** Had a comment during the period */
+    active: boolean;
+    lastComment: { author: string; content: string } | null;
+  }[];
+}
+
+/** Everything that happened in a Spark in [since, until) */
+export async function gatherDigestActivity(sparkId: string, since: Date, until: Date): Promise<DigestActivity> {
+  const from = since.toISOString();
+  const to = until.toISOString();
+
+  const [itemsResult, researchResult, artifactsResult, threadsResult] = await Promise.all([
+    supabaseAdmin
+      .from('spark_items')
+      .select('id, type, title, summary')
+      .eq('spark_id', sparkId)
+      .gte('created_at', from)
+      .lt('created_at', to)
+      .order('created_at', { ascending: false })
+      .limit(200),
+    supabaseAdmin
+      .from('spark_web_research')
+      .select('web_research_items (id, title, query, summary, sources)')
+      .eq('spark_id', sparkId)
+      .gte('created_at', from)
+      .lt('created_at', to),
+    supabaseAdmin
+      .from('generated_artifacts')
+      .select('id, type, title, status')
+      .eq('spark_id', sparkId)
+      .gte('created_at', from)
+      .lt('created_at', to)
+      .order('created_at', { ascending: false }),
+    supabaseAdmin
+      .from('comment_threads')
+      .select('id, selected_text, comments (author_name, content, created_at)')
+      .eq('spark_id', sparkId)
+      .eq('resolved', false)
+      .order('created_at', { ascending: false }),
+  ]);
+
+  for (const result of [itemsResult, researchResult, artifactsResult, threadsResult]) {
+    if (result.error) throw new Error(`Failed to load digest activity: ${result.error.message}`);
+  }
+
+  type ResearchRow = { id: string; title: string; query: string; summary: string | null; sources: unknown[] | null };
+  const research = (researchResult.data ?? [])
+    .map((row) => row.web_research_items as unknown as ResearchRow | null)
+    .filter((r): r is ResearchRow => !!r)
+    .map((r) => ({
+      id: r.id,
+      title: r.title,
+      query: r.query,
+      summary: r.summary,
+      sourceCount: Array.isArray(r.sources) ? r.sources.length : 0,
+    }))
+    // Best-sourced research first
+    .sort((a, b) => b.sourceCount - a.sourceCount);
+
+  type CommentRow = { author_name: string; content: string; created_at: string };
+  const openThreads = (threadsResult.data ?? [])
+    .map((thread) => {
+      const comments = [...((thread.comments as CommentRow[] | null) ?? [])].sort((a, b) =>
+        a.created_at.localeCompare(b.created_at)
+      );
+      const last = comments[comments.length - 1];
+      return {
+        id: thread.id as string,
+        selectedText: thread.selected_text as string,
+        comments: comments.length,
+        active: comments.some((c) => {
+          const at = new Date(c.created_at).getTime();
+          return at >= since.getTime() && at < until.getTime();
+        }),
+        lastComment: last ? { author: last.author_name, content: last.content } : null,
+      };
+    })
+    // Threads discussed during the period first
+    .sort((a, b) => Number(b.active) - Number(a.active));
+
+  return {
+    items: (itemsResult.data ?? []) as DigestActivity['items'],
+    research,
+    artifacts: (artifactsResult.data ?? []) as DigestActivity['artifacts'],
+    openThreads,
+  };
+}
+
+function hasActivity(activity: DigestActivity): boolean {
+  return (
+    activity.items.length > 0 ||
+    activity.research.length > 0 ||
+    activity.artifacts.length > 0 ||
+    activity.openThreads.some((t) => t.active)
+  );
+}
+
+// ─── Summary ────────────────────────────────────────
+
+const SUMMARY_SYSTEM_PROMPT = `You write the opening of a Slack digest for a research workspace called a Spark.
+Given what was added or discussed during the period, write 2–4 sentences on what changed and why it matters: themes across new material, decisions or open questions in discussions, and anything worth a look.
+Be specific and plain. No greeting, no headings, no bullet lists, no sign-off. Do not restate counts the reader will see below.`;
+
+function describeActivity(sparkName: string, activity: DigestActivity): string {
+  const lines = [`Spark: ${sparkName}`];
+  if (activity.items.length > 0) {
+    lines.push('', 'New items:');
+    for (const item of activity.items.slice(0, 40)) {
+      lines.push(`- [${TYPE_LABELS[item.type] || item.type}] ${item.title}${item.summary ? ` — ${item.summary.slice(0, 200)}` : ''}`);
+    }
+  }
+  if (activity.research.length > 0) {
+    lines.push('', 'New web research:');
+    for (const r of activity.research.slice(0, 10)) {
+      lines.push(`- ${r.title} (query: ${r.query})${r.summary ? ` — ${r.summary.slice(0, 200)}` : ''}`);
+    }
+  }
+  if (activity.artifacts.length > 0) {
+    lines.push('', 'Generated artifacts:');
+    for (const a of activity.artifacts.slice(0, 10)) lines.push(`- ${a.title} (${a.type}, ${a.status})`);
+  }
+  const active = activity.openThreads.filter((t) => t.active);
+  if (active.length > 0) {
+    lines.push('', 'Open discussions with new comments:');
+    for (const t of active.slice(0, 10)) {
+      lines.push(`- On "${t.selectedText.slice(0, 80)}": ${t.lastComment ? `${t.lastComment.author}: ${t.lastComment.content.slice(0, 200)}` : ''}`);
+    }
+  }
+  return lines.join('\n');
+}
+
+/** Claude's "what changed" paragraph, or null if it can't be written */
+async function summarizeActivity(sparkName: string, activity: DigestActivity): Promise<string | null> {
+  const prompt = describeActivity(sparkName, activity);
+  const start = Date.now();
+  addLogEntry({
+    service: 'anthropic',
+    direction: 'request',
+    level: 'info',
+    summary: `slack digest summary — ${prompt.length} chars`,
+    requestBody: { model: 'claude-sonnet-4-6', chars: prompt.length },
+  });
+
+  try {
+    const response = await anthropic.messages.create({
+      model: 'claude-sonnet-4-6',
+      max_tokens: 400,
+      system: SUMMARY_SYSTEM_PROMPT,
+      messages: [{ role: 'user', content: prompt }],
+    });
+    addLogEntry({
+      service: 'anthropic',
+      direction: 'response',
+      level: 'info',
+      summary: `slack digest summary — done (in:${response.usage.input_tokens} out:${response.usage.output_tokens})`,
+      duration: Date.now() - start,
+    });
+    const text = response.content
+      .filter((b): b is Anthropic.TextBlock => b.type === 'text')
+      .map((b) => b.text)
+      .join('')
+      .trim();
+    return text || null;
+  } catch (err) {
+    addLogEntry({
+      service: 'anthropic',
+      direction: 'response',
+      level: 'error',
+      summary: 'slack digest summary — failed',
+      duration: Date.now() - start,
+      error: err instanceof Error ? err.message : String(err),
+    });
+    return null;
+  }
+}
+
+// ─── Block Kit ──────────────────────────────────────
+
+function section(text: string) {
+  const clipped = text.length > MAX_SECTION_CHARS ? text.slice(0, MAX_SECTION_CHARS) + '…' : text;
+  return { type: 'section', text: { type: 'mrkdwn', text: clipped } };
+}
+
+function formatUtc(date: Date): string {
+  return date.toLocaleString('en-US', { month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit', timeZone: 'UTC' });
+}
+
+function clip(text: string, length: number): string {
+  return text.length > length ? text.slice(0, length) + '…' : text;
+}
+
+function plural(count: number, noun: string): string {
+  return `${count} ${noun}${count !== 1 ? 's' : ''}`;
+}
+
+/** The digest message: summary, then a section per kind of activity */
+export function buildDigestBlocks(
+  spark: { id: string; name: string },
+  frequency: DigestFrequency,
+  period: { start: Date; end: Date },
+  activity: DigestActivity,
+  summary: string | null,
+  origin: string
+): unknown[] {
+  const sparkUrl = `${origin}/spark/${spark.id}`;
+  const blocks: unknown[] = [
+    {
+      type: 'header',
+      text: { type: 'plain_text', text: clip(`${frequency === 'weekly' ? 'Weekly' : 'Daily'} digest: ${spark.name}`, 140) },
+    },
+    {
+      type: 'context',
+      elements: [
+        { type: 'mrkdwn', text: `${formatUtc(period.start)} – ${formatUtc(period.end)} UTC` },
+      ],
+    },
+  ];
+
+  if (summary) blocks.push(section(markdownToMrkdwn(summary)));
+  blocks.push({ type: 'divider' });
+
+  if (activity.items.length > 0) {
+    const bySource = new Map<string, DigestActivity['items']>();
+    for (const item of activity.items) {
+      bySource.set(item.type, [...(bySource.get(item.type) ?? []), item]);
+    }
+    const lines = [...bySource.entries()]
+      .sort((a, b) => b[1].length - a[1].length)
+      .map(([type, items]) => {
+        const titles = items.slice(0, MAX_LISTED).map((i) => escapeMrkdwn(clip(i.title, 60))).join(', ');
+        const more = items.length > MAX_LISTED ? `, +${items.length - MAX_LISTED} more` : '';
+        return `• *${TYPE_LABELS[type] || type}* (${items.length}): ${titles}${more}`;
+      });
+    blocks.push(section(`:inbox_tray: *${plural(activity.items.length, 'new item')}*\n${lines.join('\n')}`));
+  }
+
+  if (activity.research.length > 0) {
+    const lines = activity.research.slice(0, MAX_LISTED).map((r) => {
+      const detail = r.summary ? ` — ${escapeMrkdwn(clip(r.summary, 140))}` : '';
+      return `• *${escapeMrkdwn(clip(r.title, 80))}* (${plural(r.sourceCount, 'source')})${detail}`;
+    });
+    const more = activity.research.length > MAX_LISTED ? `\n_+${activity.research.length - MAX_LISTED} more_` : '';
+    blocks.push(section(`:mag: *Web research* (${activity.research.length})\n${lines.join('\n')}${more}`));
+  }
+
+  if (activity.artifacts.length > 0) {
+    const lines = activity.artifacts
+      .slice(0, MAX_LISTED)
+      .map((a) => `• *${escapeMrkdwn(clip(a.title, 80))}* \`${a.type}\` · ${a.status}`);
+    const more = activity.artifacts.length > MAX_LISTED ? `\n_+${activity.artifacts.length - MAX_LISTED} more_` : '';
+    blocks.push(section(`:memo: *${plural(activity.artifacts.length, 'artifact')} generated*\n${lines.join('\n')}${more}`));
+  }
+
+  if (activity.openThreads.length > 0) {
+    const lines = activity.openThreads.slice(0, MAX_THREADS_LISTED).map((t) => {
+      const quote = t.selectedText ? `_“${escapeMrkdwn(clip(t.selectedText, 60))}”_` : '_Discussion_';
+      const last = t.lastComment
+        ? ` — ${escapeMrkdwn(t.lastComment.author)}: ${escapeMrkdwn(clip(t.lastComment.content, 100))}`
+        : '';
+      return `• ${quote} (${plural(t.comments, 'comment')})${last}`;
+    });
+    const active = activity.openThreads.filter((t) => t.active).length;
+    const heading = `:speech_balloon: *${plural(activity.openThreads.length, 'open discussion')}*${active > 0 ? ` · ${active} active` : ''}`;
+    blocks.push(section(`${heading}\n${lines.join('\n')}`));
+  }
+
+  blocks.push({
+    type: 'actions',
+    elements: [
+      {
+        type: 'button',
+        action_id: 'open_spark',
+        text: { type: 'plain_text', text: 'Open in Spark Foundry' },
+        url: sparkUrl,
+      },
+    ],
+  });
+  return blocks;
+}
+
+// ─── Sending ────────────────────────────────────────
+
+/** Move last_sent_at forward to `periodEnd`, never back past a later digest */
+async function recordSent(digestId: string, periodEnd: Date): Promise<void> {
+  const sentAt = periodEnd.toISOString();
+  const { error } = await supabaseAdmin
+    .from('slack_digests')
+    .update({ last_sent_at: sentAt, last_error: null })
+    .eq('id', digestId)
+    .or(`last_sent_at.is.null,last_sent_at.lt.${sentAt}`);
+  if (error) console.error('[slack-digest] Failed to record digest as sent:', error.message);
+}
+
+/**
+ * Post a digest covering the period from the last one (or one period
+ * back) to `periodEnd`. Quiet periods are skipped without posting. Throws
+ * so the job is retried when Slack refuses the message.
+ */
+export async function sendSlackDigest(
+  digestId: string,
+  options: { periodEnd?: string | null; origin: string }
+): Promise<{ posted: boolean; items: number; research: number; artifacts: number; open_threads: number }> {
+  const correlationId = generateCorrelationId('dig');
+  const start = Date.now();
+
+  const { data } = await supabaseAdmin
+    .from('slack_digests')
+    .select('*, sparks:spark_id (id, name)')
+    .eq('id', digestId)
+    .maybeSingle();
+  if (!data) throw new PermanentJobError('Digest not found');
+  const digest = data as SlackDigest & { sparks: { id: string; name: string } | null };
+  if (!digest.sparks) throw new PermanentJobError('Spark not found');
+
+  const periodEnd = options.periodEnd ? new Date(options.periodEnd) : new Date();
+  const periodStart = digest.last_sent_at
+    ? new Date(digest.last_sent_at)
+    : new Date(periodEnd.getTime() - periodLength(digest.frequency));
+
+  // A run for an earlier period (a retry, or a job queued before a newer
+  // one finished) has nothing left to cover
+  if (periodStart >= periodEnd) {
+    await logWebhook({
+      correlation_id: correlationId,
+      direction: 'internal',
+      route: DIGEST_ROUTE,
+      summary: 'Period already covered by a later digest — skipped',
+      payload: { digest_id: digest.id, period_start: periodStart.toISOString(), period_end: periodEnd.toISOString() },
+    });
+    return { posted: false, items: 0, research: 0, artifacts: 0, open_threads: 0 };
+  }
+
+  await logWebhook({
+    correlation_id: correlationId,
+    direction: 'internal',
+    route: DIGEST_ROUTE,
+    summary: `Digest started: spark=${digest.spark_id} channel=#${digest.channel_name}`,
+    payload: { digest_id: digest.id, period_start: periodStart.toISOString(), period_end: periodEnd.toISOString() },
+  });
+
+  const activity = await gatherDigestActivity(digest.spark_id, periodStart, periodEnd);
+  const counts = {
+    items: activity.items.length,
+    research: activity.research.length,
+    artifacts: activity.artifacts.length,
+    open_threads: activity.openThreads.length,
+  };
+
+  if (!hasActivity(activity)) {
+    await recordSent(digest.id, periodEnd);
+    await logWebhook({
+      correlation_id: correlationId,
+      direction: 'internal',
+      route: DIGEST_ROUTE,
+      summary: 'No activity in period — digest skipped',
+      duration_ms: Date.now() - start,
+    });
+    return { posted: false, ...counts };
+  }
+
+  const summary = await summarizeActivity(digest.sparks.name, activity);
+  if (!summary) {
+    await logWebhook({
+      correlation_id: correlationId,
+      direction: 'internal',
+      level: 'warn',
+      route: DIGEST_ROUTE,
+      summary: 'Summary unavailable — posting digest without it',
+    });
+  }
+
+  const blocks = buildDigestBlocks(
+    digest.sparks,
+    digest.frequency,
+    { start: periodStart, end: periodEnd },
+    activity,
+    summary,
+    options.origin
+  );
+  const fallback = `${digest.sparks.name}: ${plural(counts.items, 'new item')}, ${plural(counts.artifacts, 'artifact')}, ${plural(counts.open_threads, 'open discussion')}`;
+  const ts = await postMessage(digest.channel_id, null, fallback, blocks);
+
+  if (!ts) {
+    const error = `Could not post to #${digest.channel_name} — is the bot in the channel?`;
+    await supabaseAdmin.from('slack_digests').update({ last_error: error }).eq('id', digest.id);
+    await logWebhook({
+      correlation_id: correlationId,
+      direction: 'outbound',
+      level: 'error',
+      route: DIGEST_ROUTE,
+      summary: 'chat.postMessage failed',
+      duration_ms: Date.now() - start,
+      error,
+    });
+    throw new Error(error);
+  }
+
+  await recordSent(digest.id, periodEnd);
+  await logWebhook({
+    correlation_id: correlationId,
+    direction: 'outbound',
+    route: DIGEST_ROUTE,
+    summary: `Digest posted to #${digest.channel_name}: ${counts.items} items, ${counts.research} research, ${counts.artifacts} artifacts, ${counts.open_threads} open threads`,
+    duration_ms: Date.now() - start,
+  });
+
+  return { posted: true, ...counts };
+}
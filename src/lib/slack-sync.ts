@@ -0,0 +1,176 @@
+/**
+ * Continuous Slack channel sync.
+ *
+ * A channel bound to a Spark (slack_channel_syncs) has every thread
+ * started on or after its sync_from date kept as a slack_message item.
+ * Message events from the Events API queue a sync_thread task for the
+ * thread they touch; a backfill job walks conversations.history from the
+ * sync date when the channel is first bound. Both go through
+ * upsertSlackThreadItem, so a thread always maps to one item.
+ */
+
+import { supabaseAdmin } from './supabase/admin';
+import { enqueueSlackTask, fetchChannelHistory, joinChannel, upsertSlackThreadItem } from './slack';
+import { PermanentJobError } from './jobs/queue';
+import type { JobProgress, SlackChannelSync } from './types';
+
+// Backfill stops after this many top-level messages; later ones arrive as events
+const MAX_BACKFILL_MESSAGES = 2000;
+
+// ─── Event routing ──────────────────────────────────
+
+/** The fields of a Slack `message` event used for routing */
+export interface SlackMessageEvent {
+  channel: string;
+  ts: string;
+  thread_ts?: string;
+  subtype?: string;
+  bot_id?: string;
+  message?: { ts: string; thread_ts?: string; bot_id?: string };
+  previous_message?: { ts: string; thread_ts?: string; bot_id?: string };
+}
+
+/**
+ * The thread a message event changes: its own ts for a top-level message,
+ * thread_ts for a reply. Edits and deletions re-sync the thread they were
+ * in. Bot messages (including our own replies) and other subtypes such as
+ * joins are ignored.
+ */
+export function threadTsForEvent(event: SlackMessageEvent): string | null {
+  switch (event.subtype) {
+    case undefined:
+    case 'thread_broadcast':
+    case 'file_share':
+      return event.bot_id ? null : event.thread_ts ?? event.ts;
+    case 'message_changed':
+      return event.message && !event.message.bot_id ? event.message.thread_ts ?? event.message.ts : null;
+    case 'message_deleted':
+      return event.previous_message && !event.previous_message.bot_id
+        ? event.previous_message.thread_ts ?? event.previous_message.ts
+        : null;
+    default:
+      return null;
+  }
+}
+
+/**
+ * Queue a thread sync for every Spark the event's channel is bound to,
+ * skipping threads started before a binding's sync_from. Returns the
+ * number of tasks queued so the caller knows whether to kick the worker.
+ */
+export async function queueChannelMessageSync(event: SlackMessageEvent, correlationId?: string): Promise<number> {
+  const threadTs = threadTsForEvent(event);
+  if (!threadTs || !event.channel) return 0;
+
+  const { data: syncs, error } = await supabaseAdmin
+    .from('slack_channel_syncs')
+    .select('id, spark_id, sync_from')
+    .eq('channel_id', event.channel);
+  if (error) {
+    console.error('[slack-sync] Failed to load channel syncs:', error.message);
+    return 0;
+  }
+
+  const threadStarted = Number(threadTs) * 1000;
+  const due = (syncs ?? []).filter((sync) => threadStarted >= new Date(sync.sync_from).getTime());
+
+  await Promise.all(
+    due.map((sync) =>
+      enqueueSlackTask({
+        task: 'sync_thread',
+        syncId: sync.id,
+        sparkId: sync.spark_id,
+        channelId: event.channel,
+        threadTs,
+        correlationId,
+      })
+    )
+  );
+  return due.length;
+}
+
+// ─── Backfill ───────────────────────────────────────
+
+async function loadSync(syncId: string): Promise<SlackChannelSync | null> {
+  const { data } = await supabaseAdmin.from('slack_channel_syncs').select('*').eq('id', syncId).maybeSingle();
+  return data as SlackChannelSync | null;
+}
+
+/**
+ * Save every thread in the channel from sync_from onwards. Runs as the
+ * slack_channel_backfill job; safe to re-run, since unchanged threads are
+ * left as they are. Stops early if the channel is unbound meanwhile.
+ */
+export async function backfillSlackChannel(
+  syncId: string,
+  progress: (progress: JobProgress) => Promise<void>
+): Promise<{ threads: number; created: number; updated: number; truncated: boolean }> {
+  const sync = await loadSync(syncId);
+  if (!sync) throw new PermanentJobError('Channel sync not found');
+
+  await supabaseAdmin
+    .from('slack_channel_syncs')
+    .update({ backfill_status: 'running', backfill_error: null })
+    .eq('id', sync.id);
+
+  const counts = { threads: 0, created: 0, updated: 0, truncated: false };
+  const oldest = (new Date(sync.sync_from).getTime() / 1000).toFixed(6);
+
+  try {
+    // Public channels can be joined; private ones need the bot invited
+    await joinChannel(sync.channel_id);
+
+    let cursor: string | undefined;
+    do {
+      await progress({
+        message: `Reading #${sync.channel_name} history`,
+        current: counts.threads,
+      });
+      const page = await fetchChannelHistory(sync.channel_id, oldest, cursor);
+
+      for (const message of page.messages) {
+        // Messages without replies are saved as-is; threads are fetched in full
+        const result = await upsertSlackThreadItem(sync.spark_id, sync.channel_id, message.ts, {
+          channelName: sync.channel_name,
+          syncId: sync.id,
+          messages: message.replyCount > 0 ? undefined : [message],
+        });
+        counts.threads++;
+        if (result?.created) counts.created++;
+        else if (result?.changed) counts.updated++;
+
+        if (counts.threads % 25 === 0) {
+          await progress({
+            message: `Synced ${counts.threads} threads from #${sync.channel_name}`,
+            current: counts.threads,
+          });
+        }
+      }
+
+      cursor = page.nextCursor ?? undefined;
+      if (cursor && counts.threads >= MAX_BACKFILL_MESSAGES) {
+        counts.truncated = true;
+        break;
+      }
+      // Unbound while we were working — stop without marking the row
+      if (cursor && !(await loadSync(sync.id))) return counts;
+    } while (cursor);
+  } catch (err) {
+    await supabaseAdmin
+      .from('slack_channel_syncs')
+      .update({
+        backfill_status: 'failed',
+        backfill_error: err instanceof Error ? err.message : String(err),
+      })
+      .eq('id', sync.id);
+    throw err;
+  }
+
+  const now = new Date().toISOString();
+  await supabaseAdmin
+    .from('slack_channel_syncs')
+    .update({ backfill_status: 'done', backfilled_at: now, last_synced_at: now })
+    .eq('id', sync.id);
+
+  return counts;
+}
@@ -2,17 +2,26 @@
  * Slack integration utilities.
  *
  * Handles request signature verification, thread fetching via
- * conversations.replies, message formatting, and posting.
+ * conversations.replies, message formatting, posting, and saving
+ * threads to Sparks (one item per thread, updated as it grows).
  */
 
 import crypto from 'crypto';
 import { addLogEntry } from './activity-logger';
 import { supabaseAdmin } from './supabase/admin';
-import { generateEmbedding, buildItemText } from './embeddings';
-import { logWebhook } from './webhook-logger';
+import { enqueueJob, enqueueItemEmbedding } from './jobs/queue';
+import { logWebhook, generateCorrelationId } from './webhook-logger';
+import { publishItemChanges } from './spark-events';
+import { answerSparkQuestion } from './chat-rag';
+import { getSparkRole, listSparkRoles, roleAtLeast } from './auth';
+import type { SparkRole, VectorContextItem } from './types';
 
 const SLACK_API = 'https://slack.com/api';
 const API_TIMEOUT_MS = 5_000;
+// Webhook log route for work done in slack_task jobs
+const TASK_ROUTE = 'job:slack_task';
+// Live-update attribution for items written from Slack
+const SLACK_ACTOR = { userId: null, name: 'Slack', clientId: null };
 
 // ─── Bot token accessor ────────────────────────────────
 function getBotToken(): string | null {
@@ -84,6 +93,87 @@ async function resolveUserName(userId: string): Promise<string> {
   }
 }
 
+/**
+ * The Slack user with this email, or null when there isn't one (or the
+ * bot token lacks the users:read.email scope).
+ */
+export async function lookupUserIdByEmail(email: string): Promise<string | null> {
+  const token = getBotToken();
+  if (!token) return null;
+
+  try {
+    const res = await fetch(`${SLACK_API}/users.lookupByEmail?email=${encodeURIComponent(email)}`, {
+      headers: { Authorization: `Bearer ${token}` },
+      signal: AbortSignal.timeout(API_TIMEOUT_MS),
+    });
+    const data = await res.json();
+    return data.ok ? (data.user?.id ?? null) : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * The app user behind a Slack user, matched by the email on their Slack
+ * profile. Null when there's no such user here (or the bot token lacks the
+ * users:read.email scope).
+ */
+export async function resolveAppUserId(slackUserId: string, timeoutMs = API_TIMEOUT_MS): Promise<string | null> {
+  const token = getBotToken();
+  if (!token) return null;
+
+  let email: string | undefined;
+  try {
+    const res = await fetch(`${SLACK_API}/users.info?user=${encodeURIComponent(slackUserId)}`, {
+      headers: { Authorization: `Bearer ${token}` },
+      signal: AbortSignal.timeout(timeoutMs),
+    });
+    const data = await res.json();
+    email = data.ok ? data.user?.profile?.email : undefined;
+  } catch {
+    return null;
+  }
+  if (!email) return null;
+
+  // Case-insensitive exact match: escape the LIKE wildcards an email can contain
+  const { data } = await supabaseAdmin
+    .from('users')
+    .select('id')
+    .ilike('email', email.replace(/[\\%_]/g, '\\$&'))
+    .abortSignal(AbortSignal.timeout(timeoutMs))
+    .maybeSingle();
+  return (data?.id as string | undefined) ?? null;
+}
+
+/** Reply for Slack users with no matching Spark Foundry user */
+export const SLACK_UNLINKED_TEXT =
+  ":lock: Your Slack account isn't linked to Spark Foundry. Sign in to Spark Foundry with the email you use in Slack, then try again.";
+
+/**
+ * Active Sparks the Slack user holds at least `minRole` on, through their
+ * matched app user (see resolveAppUserId). Null when there's no such user.
+ */
+export async function listSlackUserSparks(
+  slackUserId: string,
+  minRole: SparkRole,
+  timeoutMs = API_TIMEOUT_MS
+): Promise<{ id: string; name: string }[] | null> {
+  const userId = await resolveAppUserId(slackUserId, timeoutMs);
+  if (!userId) return null;
+
+  const roles = await listSparkRoles(userId);
+  const sparkIds = [...roles].filter(([, role]) => roleAtLeast(role, minRole)).map(([id]) => id);
+  const { data, error } = await supabaseAdmin
+    .from('sparks')
+    .select('id, name')
+    .eq('status', 'active')
+    .in('id', sparkIds)
+    .order('name')
+    .abortSignal(AbortSignal.timeout(timeoutMs));
+  if (error) throw new Error(`Failed to load Sparks: ${error.message}`);
+  return data ?? [];
+}
+
 // ─── Thread fetching ───────────────────────────────────
 export interface SlackMessage {
   user: string;
@@ -92,88 +182,193 @@ export interface SlackMessage {
   ts: string;
 }
 
-export async function fetchThreadMessages(
-  channelId: string,
-  threadTs: string
-): Promise<SlackMessage[]> {
+/** A top-level channel message from conversations.history */
+export interface SlackChannelMessage extends SlackMessage {
+  replyCount: number;
+}
+
+interface RawSlackMessage {
+  user: string;
+  text?: string;
+  ts: string;
+  subtype?: string;
+  reply_count?: number;
+}
+
+// Pages of 100 (replies) or 200 (history) messages; longer threads are truncated
+const MAX_THREAD_PAGES = 10;
+const HISTORY_PAGE_SIZE = 200;
+// Retries of a rate-limited list call, waiting out Retry-After each time
+const MAX_RATE_LIMIT_RETRIES = 3;
+
+/**
+ * GET a paginated Slack list method (conversations.replies, .history, .list)
+ * and return the parsed page. Rate-limited calls are retried after the
+ * Retry-After delay; any other error throws.
+ */
+async function callSlackList(
+  method: string,
+  params: URLSearchParams,
+  countKey: string
+): Promise<Record<string, unknown> & { response_metadata?: { next_cursor?: string } }> {
   const token = getBotToken();
   if (!token) throw new Error('SLACK_BOT_TOKEN not configured');
 
-  const params = new URLSearchParams({
-    channel: channelId,
-    ts: threadTs,
-    inclusive: 'true',
-    limit: '100',
-  });
-
-  const url = `${SLACK_API}/conversations.replies?${params}`;
-  const start = Date.now();
+  const url = `${SLACK_API}/${method}?${params}`;
   const correlationId = `slack_${Date.now()}`;
 
-  addLogEntry({
-    service: 'slack',
-    direction: 'request',
-    level: 'info',
-    method: 'GET',
-    url,
-    summary: `conversations.replies channel:${channelId}`,
-    correlationId,
-  });
+  for (let attempt = 0; ; attempt++) {
+    const start = Date.now();
+    addLogEntry({
+      service: 'slack',
+      direction: 'request',
+      level: 'info',
+      method: 'GET',
+      url,
+      summary: `${method} channel:${params.get('channel') ?? '-'}`,
+      correlationId,
+    });
 
-  const res = await fetch(url, {
-    headers: { Authorization: `Bearer ${token}` },
-    signal: AbortSignal.timeout(API_TIMEOUT_MS),
-  });
-  const data = await res.json();
-  const duration = Date.now() - start;
+    const res = await fetch(url, {
+      headers: { Authorization: `Bearer ${token}` },
+      signal: AbortSignal.timeout(API_TIMEOUT_MS),
+    });
+    const duration = Date.now() - start;
+
+    if (res.status === 429 && attempt < MAX_RATE_LIMIT_RETRIES) {
+      const retryAfter = Number(res.headers.get('Retry-After')) || 1;
+      addLogEntry({
+        service: 'slack',
+        direction: 'response',
+        level: 'info',
+        method: 'GET',
+        url,
+        summary: `${method} — rate limited, retrying in ${retryAfter}s`,
+        statusCode: 429,
+        duration,
+        correlationId,
+      });
+      await new Promise((resolve) => setTimeout(resolve, retryAfter * 1000));
+      continue;
+    }
+
+    const data = await res.json();
+    if (!data.ok) {
+      addLogEntry({
+        service: 'slack',
+        direction: 'response',
+        level: 'error',
+        method: 'GET',
+        url,
+        summary: `${method} — error: ${data.error}`,
+        statusCode: res.status,
+        duration,
+        error: data.error,
+        correlationId,
+      });
+      throw new Error(`${method} failed: ${data.error}`);
+    }
 
-  if (!data.ok) {
+    const count = (data[countKey] as unknown[] | undefined)?.length ?? 0;
     addLogEntry({
       service: 'slack',
       direction: 'response',
-      level: 'error',
+      level: 'info',
       method: 'GET',
       url,
-      summary: `conversations.replies — error: ${data.error}`,
-      statusCode: res.status,
+      summary: `${method} — ${count} ${countKey === 'messages' ? 'message' : 'result'}${count !== 1 ? 's' : ''}`,
+      statusCode: 200,
       duration,
-      error: data.error,
       correlationId,
     });
-    throw new Error(`conversations.replies failed: ${data.error}`);
-  }
-
-  addLogEntry({
-    service: 'slack',
-    direction: 'response',
-    level: 'info',
-    method: 'GET',
-    url,
-    summary: `conversations.replies — ${data.messages?.length ?? 0} message${(data.messages?.length ?? 0) !== 1 ? 's' : ''}`,
-    statusCode: 200,
-    duration,
-    correlationId,
-  });
+    return data;
+  }
+}
 
-  // Filter relevant messages
-  const rawMessages = (data.messages || []).filter(
-    (msg: { subtype?: string }) => !msg.subtype || msg.subtype === 'thread_broadcast'
-  );
+/** Messages kept as content: plain messages, file shares and replies also sent to the channel */
+function isContentMessage(msg: { subtype?: string }): boolean {
+  return !msg.subtype || msg.subtype === 'thread_broadcast' || msg.subtype === 'file_share';
+}
 
+async function resolveMessages<T extends RawSlackMessage>(rawMessages: T[]): Promise<(SlackMessage & { raw: T })[]> {
   // Resolve user names in parallel
-  const userIds = rawMessages.map((m: { user: string }) => m.user) as string[];
-  const uniqueUserIds = Array.from(new Set(userIds));
+  const uniqueUserIds = Array.from(new Set(rawMessages.map((m) => m.user)));
   const names = await Promise.all(uniqueUserIds.map(resolveUserName));
   const nameMap = new Map(uniqueUserIds.map((id, i) => [id, names[i]]));
 
-  return rawMessages.map((msg: { user: string; text?: string; ts: string }) => ({
+  return rawMessages.map((msg) => ({
     user: msg.user,
     userName: nameMap.get(msg.user) || msg.user,
     text: msg.text || '',
     ts: msg.ts,
+    raw: msg,
   }));
 }
 
+export async function fetchThreadMessages(
+  channelId: string,
+  threadTs: string
+): Promise<SlackMessage[]> {
+  const rawMessages: RawSlackMessage[] = [];
+  let cursor: string | undefined;
+
+  for (let page = 0; page < MAX_THREAD_PAGES; page++) {
+    const params = new URLSearchParams({
+      channel: channelId,
+      ts: threadTs,
+      inclusive: 'true',
+      limit: '100',
+    });
+    if (cursor) params.set('cursor', cursor);
+
+    const data = await callSlackList('conversations.replies', params, 'messages');
+    rawMessages.push(...((data.messages as RawSlackMessage[] | undefined) ?? []).filter(isContentMessage));
+
+    cursor = data.response_metadata?.next_cursor || undefined;
+    if (!cursor) break;
+  }
+
+  const messages = await resolveMessages(rawMessages);
+  return messages.map(({ user, userName, text, ts }) => ({ user, userName, text, ts }));
+}
+
+/**
+ * One page of top-level channel messages posted at or after `oldest`
+ * (a Slack ts), newest first. Thread replies are not included; a message
+ * with replies reports its replyCount.
+ */
+export async function fetchChannelHistory(
+  channelId: string,
+  oldest: string,
+  cursor?: string
+): Promise<{ messages: SlackChannelMessage[]; nextCursor: string | null }> {
+  const params = new URLSearchParams({
+    channel: channelId,
+    oldest,
+    inclusive: 'true',
+    limit: String(HISTORY_PAGE_SIZE),
+  });
+  if (cursor) params.set('cursor', cursor);
+
+  const data = await callSlackList('conversations.history', params, 'messages');
+  const rawMessages = ((data.messages as RawSlackMessage[] | undefined) ?? []).filter(
+    // Broadcast replies are picked up with their thread
+    (msg) => isContentMessage(msg) && msg.subtype !== 'thread_broadcast'
+  );
+  const messages = await resolveMessages(rawMessages);
+
+  return {
+    messages: messages.map(({ user, userName, text, ts, raw }) => ({
+      user,
+      userName,
+      text,
+      ts,
+      replyCount: raw.reply_count ?? 0,
+    })),
+    nextCursor: data.response_metadata?.next_cursor || null,
+  };
+}
+
 // ─── Thread formatting ─────────────────────────────────
 export function formatThreadContent(messages: SlackMessage[]): string {
   return messages
@@ -207,6 +402,46 @@ export async function getChannelName(channelId: string): Promise<string> {
   }
 }
 
+// ─── List channels ─────────────────────────────────────
+export interface SlackChannel {
+  id: string;
+  name: string;
+  isPrivate: boolean;
+  isMember: boolean;
+}
+
+// conversations.list pages of 200; enough for the channel picker
+const MAX_CHANNEL_PAGES = 5;
+
+/**
+ * Channels the bot can see, by name. Private channels are only listed
+ * once the bot has been invited. Requires channels:read and groups:read.
+ */
+export async function listChannels(): Promise<SlackChannel[]> {
+  const channels: SlackChannel[] = [];
+  let cursor: string | undefined;
+
+  for (let page = 0; page < MAX_CHANNEL_PAGES; page++) {
+    const params = new URLSearchParams({
+      types: 'public_channel,private_channel',
+      exclude_archived: 'true',
+      limit: '200',
+    });
+    if (cursor) params.set('cursor', cursor);
+
+    const data = await callSlackList('conversations.list', params, 'channels');
+    const results = (data.channels as { id: string; name: string; is_private?: boolean; is_member?: boolean }[] | undefined) ?? [];
+    channels.push(
+      ...results.map((c) => ({ id: c.id, name: c.name, isPrivate: !!c.is_private, isMember: !!c.is_member }))
+    );
+
+    cursor = data.response_metadata?.next_cursor || undefined;
+    if (!cursor) break;
+  }
+
+  return channels.sort((a, b) => a.name.localeCompare(b.name));
+}
+
 // ─── Get thread permalink ──────────────────────────────
 export async function getPermalink(channelId: string, messageTs: string): Promise<string | null> {
   const token = getBotToken();
@@ -250,15 +485,22 @@ export async function sendEphemeralMessage(
   });
 }
 
+/**
+ * Post to a channel, or as a DM when `channelId` is a Slack user id.
+ * `threadTs` null posts top-level; `text` is the notification fallback
+ * when `blocks` are given. Returns the new message's ts, or null if Slack
+ * refused it (e.g. the bot isn't in the channel).
+ */
 export async function postMessage(
   channelId: string,
-  threadTs: string,
-  text: string
-): Promise<void> {
+  threadTs: string | null,
+  text: string,
+  blocks?: unknown[]
+): Promise<string | null> {
   const token = getBotToken();
   if (!token) throw new Error('SLACK_BOT_TOKEN not configured');
 
-  await fetch(`${SLACK_API}/chat.postMessage`, {
+  const res = await fetch(`${SLACK_API}/chat.postMessage`, {
     method: 'POST',
     headers: {
       Authorization: `Bearer ${token}`,
@@ -266,11 +508,30 @@ export async function postMessage(
     },
     body: JSON.stringify({
       channel: channelId,
-      thread_ts: threadTs,
+      ...(threadTs && { thread_ts: threadTs }),
       text,
+      ...(blocks && { blocks }),
     }),
     signal: AbortSignal.timeout(API_TIMEOUT_MS),
   });
+  const data = await res.json().catch(() => ({}));
+  return data.ok ? (data.ts ?? null) : null;
+}
+
+/**
+ * Reply through a slash command's response_url. Works in channels the bot
+ * hasn't joined; valid for 30 minutes after the command.
+ */
+export async function postToResponseUrl(
+  responseUrl: string,
+  message: { text: string; blocks?: unknown[]; response_type?: 'ephemeral' | 'in_channel' }
+): Promise<void> {
+  await fetch(responseUrl, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(message),
+    signal: AbortSignal.timeout(API_TIMEOUT_MS),
+  });
 }
 
 // ─── Join channel ──────────────────────────────────────
@@ -326,29 +587,106 @@ export async function openModal(
   }
 }
 
-// ─── Worker dispatch ────────────────────────────────────
+// ─── Background tasks ───────────────────────────────
+
+export type SlackTask =
+  | { task: 'app_mention'; channel: string; user: string; threadTs: string; messageTs: string; correlationId?: string }
+  | { task: 'send_to_spark'; channelId: string; threadTs: string; userId: string; sparkId: string; correlationId?: string }
+  | { task: 'ephemeral'; channel: string; user: string; blocks: unknown[]; correlationId?: string }
+  | { task: 'sync_thread'; syncId: string; sparkId: string; channelId: string; threadTs: string; correlationId?: string }
+  | {
+      task: 'ask';
+      channel: string;
+      user: string;
+      /** App user matched to the Slack user; their access is checked again before answering */
+      userId: string;
+      sparkId: string;
+      question: string;
+      responseUrl: string;
+      /** App origin for links back to the Spark */
+      origin: string;
+      correlationId?: string;
+    };
+
 /**
- * Dispatch a task to the internal worker endpoint.
- * Must be awaited — on serverless platforms the runtime is killed
- * once the response is sent, so unawaited fetches get dropped.
- * The dispatch itself is fast (just a POST), so it won't blow
- * Slack's 3-second response budget.
+ * Queue a Slack task as a background job. Only the insert is awaited, so
+ * it stays well inside Slack's 3-second response budget; the caller
+ * should kick the worker with scheduleJobWorker() once it has replied.
+ * Slack redelivers events it thinks were missed, so tasks dedupe on the
+ * message they act on; a burst of replies to a synced thread collapses
+ * into one queued sync.
  */
-export async function dispatchToWorker(request: Request, payload: Record<string, unknown>) {
-  const origin = new URL(request.url).origin;
-  const secret = process.env.SLACK_SIGNING_SECRET;
+export async function enqueueSlackTask(task: SlackTask): Promise<void> {
+  const dedupeKey =
+    task.task === 'app_mention'
+      ? `slack:mention:${task.channel}:${task.messageTs}`
+      : task.task === 'send_to_spark'
+        ? `slack:send:${task.sparkId}:${task.channelId}:${task.threadTs}`
+        : task.task === 'sync_thread'
+          ? `slack:sync:${task.syncId}:${task.threadTs}`
+          : undefined;
+
   try {
-    await fetch(`${origin}/api/slack/worker`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'X-Slack-Worker-Secret': secret || '',
-      },
-      body: JSON.stringify(payload),
-      signal: AbortSignal.timeout(2_000),
+    await enqueueJob('slack_task', task, {
+      sparkId: 'sparkId' in task ? task.sparkId : null,
+      dedupeKey,
+      maxAttempts: 3,
+    });
+  } catch (err) {
+    console.error('[slack] Failed to queue task:', err);
+  }
+}
+
+/** Run a queued Slack task. Throws so the job is retried. */
+export async function runSlackTask(task: SlackTask): Promise<void> {
+  const correlationId = task.correlationId || generateCorrelationId('wrk');
+  const start = Date.now();
+
+  await logWebhook({
+    correlation_id: correlationId,
+    direction: 'internal',
+    route: TASK_ROUTE,
+    summary: `Task started: task=${task.task}`,
+    payload: { task: task.task, channel: 'channel' in task ? task.channel : task.channelId },
+  });
+
+  try {
+    switch (task.task) {
+      case 'app_mention':
+        await handleAppMention(task.channel, task.user, task.threadTs, task.messageTs, correlationId);
+        break;
+      case 'send_to_spark':
+        await handleSendToSpark(task.channelId, task.threadTs, task.userId, task.sparkId, correlationId);
+        break;
+      case 'ephemeral':
+        await sendEphemeralMessage(task.channel, task.user, task.blocks);
+        break;
+      case 'ask':
+        await handleAskSpark(task, correlationId);
+        break;
+      case 'sync_thread':
+        await handleSyncThread(task, correlationId);
+        break;
+    }
+
+    await logWebhook({
+      correlation_id: correlationId,
+      direction: 'internal',
+      route: TASK_ROUTE,
+      summary: `Task completed: task=${task.task}`,
+      duration_ms: Date.now() - start,
     });
   } catch (err) {
-    console.error('[slack] worker dispatch failed:', err);
+    await logWebhook({
+      correlation_id: correlationId,
+      direction: 'internal',
+      level: 'error',
+      route: TASK_ROUTE,
+      summary: `Task failed: task=${task.task}`,
+      duration_ms: Date.now() - start,
+      error: err instanceof Error ? err.message : String(err),
+    });
+    throw err;
   }
 }
 
@@ -406,22 +744,30 @@ export async function handleAppMention(
   await logWebhook({
     correlation_id: correlationId,
     direction: 'outbound',
-    route: '/api/slack/worker',
+    route: TASK_ROUTE,
     summary: 'Fetching sparks for picker...',
   });
 
-  const { data: sparks, error } = await supabaseAdmin
-    .from('sparks')
-    .select('id, name')
-    .eq('status', 'active')
-    .order('name');
+  // Only Sparks the user can add to are offered
+  let sparks: { id: string; name: string }[] | null = null;
+  let error: Error | null = null;
+  try {
+    sparks = await listSlackUserSparks(user, 'editor');
+  } catch (err) {
+    error = err instanceof Error ? err : new Error(String(err));
+  }
+
+  if (!error && !sparks) {
+    await sendEphemeralMessage(channel, user, [{ type: 'section', text: { type: 'mrkdwn', text: SLACK_UNLINKED_TEXT } }]);
+    return;
+  }
 
   if (error || !sparks || sparks.length === 0) {
     await logWebhook({
       correlation_id: correlationId,
       direction: 'internal',
       level: error ? 'error' : 'info',
-      route: '/api/slack/worker',
+      route: TASK_ROUTE,
       summary: error
         ? `Failed to load sparks: ${error.message}`
         : 'No active sparks found',
@@ -435,7 +781,7 @@ export async function handleAppMention(
           type: 'mrkdwn',
           text: error
             ? ':warning: Failed to load Sparks. Please try again.'
-            : ':sparkles: No active Sparks found. Create one in Spark Foundry first!',
+            : ":sparkles: You can't add to any active Sparks. Create one in Spark Foundry, or ask to be made an editor.",
         },
       },
     ]);
@@ -485,13 +831,114 @@ export async function handleAppMention(
   await logWebhook({
     correlation_id: correlationId,
     direction: 'internal',
-    route: '/api/slack/worker',
+    route: TASK_ROUTE,
     summary: `Sending ephemeral picker (${sparks.length} sparks)`,
   });
 }
 
 // ─── Save thread to Spark ───────────────────────────────
 
+export interface ThreadUpsertResult {
+  itemId: string;
+  created: boolean;
+  /** False when the item already held exactly these messages */
+  changed: boolean;
+  messageCount: number;
+}
+
+/**
+ * Create or update the Spark's slack_message item for a thread. Items are
+ * keyed by channel and thread_ts (a unique index backs this; duplicates
+ * saved before it existed are marked slack_duplicate_of and skipped), so a
+ * thread that grows, or is saved twice, updates its item with the full
+ * message list instead of adding another. The title and any user edits
+ * outside content and Slack metadata are left alone. Returns null when the
+ * thread has no messages to save.
+ */
+export async function upsertSlackThreadItem(
+  sparkId: string,
+  channelId: string,
+  threadTs: string,
+  options: { messages?: SlackMessage[]; channelName?: string; syncId?: string } = {}
+): Promise<ThreadUpsertResult | null> {
+  const [messages, channelName] = await Promise.all([
+    options.messages ?? fetchThreadMessages(channelId, threadTs),
+    options.channelName ?? getChannelName(channelId),
+  ]);
+  if (messages.length === 0) return null;
+
+  const content = formatThreadContent(messages);
+  const slackMetadata = {
+    slack_channel_id: channelId,
+    slack_channel_name: channelName,
+    slack_thread_ts: threadTs,
+    slack_message_count: messages.length,
+    slack_sender_name: messages[0].userName,
+    source: 'slack',
+    ...(options.syncId ? { slack_sync_id: options.syncId, slack_synced_at: new Date().toISOString() } : {}),
+  };
+
+  const findExisting = async () => {
+    const { data } = await supabaseAdmin
+      .from('spark_items')
+      .select('id, content, metadata')
+      .eq('spark_id', sparkId)
+      .eq('type', 'slack_message')
+      .eq("metadata->>'slack_channel_id'", channelId)
+      .eq("metadata->>'slack_thread_ts'", threadTs)
+      .is("metadata->>'slack_duplicate_of'", null)
+      .maybeSingle();
+    return data;
+  };
+
+  let existing = await findExisting();
+
+  if (!existing) {
+    const permalink = await getPermalink(channelId, threadTs);
+    const { data: item, error } = await supabaseAdmin
+      .from('spark_items')
+      .insert({
+        spark_id: sparkId,
+        type: 'slack_message',
+        title: `Slack thread from #${channelName}`,
+        content,
+        metadata: { ...slackMetadata, slack_permalink: permalink },
+      })
+      .select('id')
+      .single();
+
+    if (item) {
+      await publishItemChanges(sparkId, 'created', [item.id], SLACK_ACTOR);
+      await enqueueItemEmbedding(sparkId, [item.id]);
+      return { itemId: item.id, created: true, changed: true, messageCount: messages.length };
+    }
+
+    // Another job saved the same thread first — update that item instead
+    if (error?.code !== '23505') {
+      throw new Error(`spark_items insert failed: ${error?.message ?? 'no row returned'}`);
+    }
+    existing = await findExisting();
+    if (!existing) throw new Error('spark_items insert conflicted but no item was found');
+  }
+
+  if (existing.content === content) {
+    return { itemId: existing.id, created: false, changed: false, messageCount: messages.length };
+  }
+
+  const { error } = await supabaseAdmin
+    .from('spark_items')
+    .update({
+      content,
+      metadata: { ...((existing.metadata as Record<string, unknown> | null) ?? {}), ...slackMetadata },
+    })
+    .eq('id', existing.id);
+  if (error) throw new Error(`spark_items update failed: ${error.message}`);
+
+  await publishItemChanges(sparkId, 'updated', [existing.id], SLACK_ACTOR);
+  await enqueueItemEmbedding(sparkId, [existing.id]);
+  return { itemId: existing.id, created: false, changed: true, messageCount: messages.length };
+}
+
 export async function handleSendToSpark(
   channelId: string,
   threadTs: string,
@@ -502,7 +949,7 @@ export async function handleSendToSpark(
   await logWebhook({
     correlation_id: correlationId,
     direction: 'internal',
-    route: '/api/slack/worker',
+    route: TASK_ROUTE,
     summary: `send_to_spark started: sparkId=${sparkId}`,
   });
 
@@ -510,37 +957,44 @@ export async function handleSendToSpark(
     .from('sparks')
     .select('id, name')
     .eq('id', sparkId)
-    .single();
+    .maybeSingle();
 
-  if (!spark) {
-    console.error('[slack] Spark not found:', sparkId);
+  // The picker only offers Sparks the user can edit, but the choice comes
+  // back from Slack, and access may have changed since
+  const appUserId = spark ? await resolveAppUserId(userId) : null;
+  const role = spark && appUserId ? await getSparkRole(spark.id, appUserId) : null;
+
+  if (!spark || !role || !roleAtLeast(role, 'editor')) {
+    console.error('[slack] Spark not found or not editable:', sparkId);
     await logWebhook({
       correlation_id: correlationId,
       direction: 'internal',
       level: 'error',
-      route: '/api/slack/worker',
-      summary: `Spark not found: ${sparkId}`,
+      route: TASK_ROUTE,
+      summary: spark ? `No edit access: sparkId=${sparkId}` : `Spark not found: ${sparkId}`,
     });
     await sendEphemeralMessage(channelId, userId, [
       {
         type: 'section',
-        text: { type: 'mrkdwn', text: ':warning: Spark not found. It may have been deleted.' },
+        text: {
+          type: 'mrkdwn',
+          text: ":warning: Spark not found. It may have been deleted, or you can't add to it.",
+        },
       },
     ]);
     return;
   }
 
-  // Fetch thread, channel name, and permalink concurrently
-  const [messages, channelName, permalink] = await Promise.all([
+  // Fetch thread and channel name concurrently
+  const [messages, channelName] = await Promise.all([
     fetchThreadMessages(channelId, threadTs),
     getChannelName(channelId),
-    getPermalink(channelId, threadTs),
   ]);
 
   await logWebhook({
     correlation_id: correlationId,
     direction: 'outbound',
-    route: '/api/slack/worker',
+    route: TASK_ROUTE,
     summary: `Thread fetched: ${messages.length} messages from #${channelName}`,
   });
 
@@ -549,7 +1003,7 @@ export async function handleSendToSpark(
       correlation_id: correlationId,
       direction: 'internal',
       level: 'error',
-      route: '/api/slack/worker',
+      route: TASK_ROUTE,
       summary: 'No messages in thread — missing scopes?',
     });
     await sendEphemeralMessage(channelId, userId, [
@@ -564,65 +1018,18 @@ export async function handleSendToSpark(
     return;
   }
 
-  const formattedContent = formatThreadContent(messages);
-  const senderName = messages[0].userName;
-  const title = `Slack thread from #${channelName}`;
-
-  const itemMetadata = {
-    slack_channel_id: channelId,
-    slack_channel_name: channelName,
-    slack_thread_ts: threadTs,
-    slack_message_count: messages.length,
-    slack_permalink: permalink,
-    slack_sender_name: senderName,
-    source: 'slack',
-  };
-
-  // Check for an existing item with the same thread to avoid duplicates
-  const { data: existing } = await supabaseAdmin
-    .from('spark_items')
-    .select('id')
-    .eq('spark_id', sparkId)
-    .eq('type', 'slack_message')
-    .eq("metadata->>'slack_thread_ts'", threadTs)
-    .maybeSingle();
-
-  if (existing) {
-    await logWebhook({
-      correlation_id: correlationId,
-      direction: 'internal',
-      route: '/api/slack/worker',
-      summary: `Duplicate detected — thread already in "${spark.name}"`,
-    });
-    await postMessage(
-      channelId,
-      threadTs,
-      `:information_source: This thread is already in *${spark.name}*.`
-    );
-    return;
-  }
-
-  const { data: item, error } = await supabaseAdmin
-    .from('spark_items')
-    .insert({
-      spark_id: sparkId,
-      type: 'slack_message',
-      title,
-      content: formattedContent,
-      metadata: itemMetadata,
-    })
-    .select()
-    .single();
-
-  if (error || !item) {
-    console.error('[slack] Insert failed:', error?.message);
+  let result: ThreadUpsertResult | null;
+  try {
+    result = await upsertSlackThreadItem(sparkId, channelId, threadTs, { messages, channelName });
+  } catch (err) {
+    console.error('[slack] Save failed:', err);
     await logWebhook({
       correlation_id: correlationId,
       direction: 'internal',
       level: 'error',
-      route: '/api/slack/worker',
-      summary: 'spark_items insert failed',
-      error: error?.message,
+      route: TASK_ROUTE,
+      summary: 'spark_items upsert failed',
+      error: err instanceof Error ? err.message : String(err),
     });
     await sendEphemeralMessage(channelId, userId, [
       {
@@ -632,67 +1039,291 @@ export async function handleSendToSpark(
     ]);
     return;
   }
+  if (!result) return;
 
   await logWebhook({
     correlation_id: correlationId,
     direction: 'internal',
-    route: '/api/slack/worker',
-    summary: `Item inserted: id=${item.id}`,
+    route: TASK_ROUTE,
+    summary: result.created
+      ? `Item inserted: id=${result.itemId}`
+      : `Item ${result.changed ? 'updated' : 'unchanged'}: id=${result.itemId}`,
   });
 
-  // Generate and save embedding (non-blocking — confirmation is sent first)
-  const itemData = {
-    title,
-    content: formattedContent,
-    type: 'slack_message',
-    metadata: itemMetadata as Record<string, unknown>,
-  };
+  const count = `${messages.length} message${messages.length !== 1 ? 's' : ''}`;
+  // Public confirmation in the thread so the whole team sees it
+  await postMessage(
+    channelId,
+    threadTs,
+    result.created
+      ? `:sparkles: Thread saved to *${spark.name}* (${count})`
+      : result.changed
+        ? `:arrows_counterclockwise: Thread updated in *${spark.name}* (${count})`
+        : `:information_source: This thread is already in *${spark.name}* and up to date.`
+  );
 
   await logWebhook({
     correlation_id: correlationId,
-    direction: 'outbound',
-    route: '/api/slack/worker',
-    summary: 'Embedding generation started',
+    direction: 'internal',
+    route: TASK_ROUTE,
+    summary: `Confirmation posted to #${channelName}`,
   });
+}
+
+// ─── Channel sync ───────────────────────────────────────
+
+/**
+ * Bring a thread in a synced channel up to date. The binding is re-read
+ * so events queued before a channel was unbound are dropped.
+ */
+async function handleSyncThread(
+  task: Extract<SlackTask, { task: 'sync_thread' }>,
+  correlationId: string
+) {
+  const { data: sync } = await supabaseAdmin
+    .from('slack_channel_syncs')
+    .select('id, spark_id, channel_name')
+    .eq('id', task.syncId)
+    .maybeSingle();
 
-  generateEmbedding(buildItemText(itemData))
-    .then(async (embedding) => {
-      if (embedding) {
-        await supabaseAdmin
-          .from('spark_items')
-          .update({ embedding: JSON.stringify(embedding) })
-          .eq('id', item.id);
-        await logWebhook({
-          correlation_id: correlationId,
-          direction: 'internal',
-          route: '/api/slack/worker',
-          summary: `Embedding saved for item ${item.id}`,
+  if (!sync) {
+    await logWebhook({
+      correlation_id: correlationId,
+      direction: 'internal',
+      route: TASK_ROUTE,
+      summary: `Channel sync ${task.syncId} removed — skipping thread ${task.threadTs}`,
+    });
+    return;
+  }
+
+  const result = await upsertSlackThreadItem(sync.spark_id, task.channelId, task.threadTs, {
+    channelName: sync.channel_name,
+    syncId: sync.id,
+  });
+  await supabaseAdmin
+    .from('slack_channel_syncs')
+    .update({ last_synced_at: new Date().toISOString() })
+    .eq('id', sync.id);
+
+  await logWebhook({
+    correlation_id: correlationId,
+    direction: 'internal',
+    route: TASK_ROUTE,
+    summary: !result
+      ? `Thread ${task.threadTs} has no messages to sync`
+      : `Thread ${task.threadTs} ${result.created ? 'added' : result.changed ? 'updated' : 'unchanged'}: item=${result.itemId}, ${result.messageCount} messages`,
+  });
+}
+
+// ─── /spark ask ─────────────────────────────────────────
+
+export const SLASH_COMMAND_USAGE =
+  'Usage: `/spark ask <spark> <question>` — e.g. `/spark ask Q3 Launch what did customers say about pricing?` ' +
+  'Quote Spark names that could run into the question: `/spark ask "Q3 Launch" pricing feedback`.';
+
+// Slack rejects section text over 3000 characters
+const MAX_SECTION_CHARS = 3000;
+const MAX_CITATIONS = 5;
+
+const SLACK_ANSWER_INSTRUCTIONS = `
+
+## Answering in Slack
+This answer is posted in a Slack thread. Use Slack formatting: *bold*, _italic_, bullet lines starting with "•", and <url|text> links. No headings or tables. Do not add a Sources or Next steps section — the items you drew on are attached below the answer automatically. Stay under 150 words.`;
+
+/**
+ * Split `/spark ask` text into a Spark and a question. The Spark is a quoted
+ * name, an id, or the longest active Spark name the text starts with.
+ */
+export function parseAskCommand(
+  text: string,
+  sparks: { id: string; name: string }[]
+): { spark: { id: string; name: string }; question: string } | { error: string } {
+  const rest = text.trim();
+  if (!rest) return { error: SLASH_COMMAND_USAGE };
+
+  const lower = rest.toLowerCase();
+  let spark: { id: string; name: string } | undefined;
+  let question = '';
+
+  const quoted = rest.match(/^["“](.+?)["”]\s*([\s\S]*)$/);
+  if (quoted) {
+    spark = sparks.find((s) => s.name.toLowerCase() === quoted[1].trim().toLowerCase());
+    question = quoted[2];
+  } else {
+    const [firstWord] = rest.split(/\s/, 1);
+    spark = sparks.find((s) => s.id === firstWord);
+    if (spark) {
+      question = rest.slice(firstWord.length);
+    } else {
+      spark = [...sparks]
+        .sort((a, b) => b.name.length - a.name.length)
+        .find((s) => {
+          const name = s.name.toLowerCase();
+          return lower.startsWith(name) && (rest.length === name.length || /\s/.test(rest[name.length]));
         });
-      }
-    })
-    .catch(async (err) => {
-      console.error('[slack] Embedding failed:', err);
-      await logWebhook({
-        correlation_id: correlationId,
-        direction: 'internal',
-        level: 'error',
-        route: '/api/slack/worker',
-        summary: 'Embedding generation failed',
-        error: err instanceof Error ? err.message : String(err),
-      });
+      if (spark) question = rest.slice(spark.name.length);
+    }
+  }
+
+  if (!spark) {
+    return { error: `:mag: No active Spark matches that name. ${SLASH_COMMAND_USAGE}` };
+  }
+  question = question.trim();
+  if (!question) {
+    return { error: `:grey_question: What would you like to ask *${spark.name}*? ${SLASH_COMMAND_USAGE}` };
+  }
+  return { spark, question };
+}
+
+/** Convert the Markdown Claude tends to write into Slack mrkdwn */
+export function markdownToMrkdwn(markdown: string): string {
+  return markdown
+    .replace(/\*\*(.+?)\*\*/g, '*$1*')
+    .replace(/^#{1,6}\s+(.+)$/gm, '*$1*')
+    .replace(/\[([^\]]+)\]\((https?:[^)\s]+)\)/g, '<$2|$1>');
+}
+
+/** Escape the characters Slack treats as control sequences in mrkdwn */
+export function escapeMrkdwn(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+/** Section blocks for an answer, split at paragraphs to stay under Slack's limit */
+function answerSections(mrkdwn: string): unknown[] {
+  const chunks: string[] = [];
+  let current = '';
+  for (const paragraph of mrkdwn.split(/\n{2,}/)) {
+    const next = current ? `${current}\n\n${paragraph}` : paragraph;
+    if (next.length <= MAX_SECTION_CHARS) {
+      current = next;
+      continue;
+    }
+    if (current) chunks.push(current);
+    current = paragraph.slice(0, MAX_SECTION_CHARS);
+  }
+  if (current) chunks.push(current);
+  return chunks.map((text) => ({ type: 'section', text: { type: 'mrkdwn', text } }));
+}
+
+/** Block Kit answer: the text, then the items it drew on, each linking back to the Spark */
+export function buildAnswerBlocks(
+  answer: string,
+  sources: VectorContextItem[],
+  spark: { id: string; name: string },
+  origin: string
+): unknown[] {
+  const sparkUrl = `${origin}/spark/${spark.id}`;
+  const citations = sources.slice(0, MAX_CITATIONS).map((item) => {
+    const summary = item.summary ? ` — ${escapeMrkdwn(item.summary.slice(0, 140))}${item.summary.length > 140 ? '…' : ''}` : '';
+    return {
+      type: 'context',
+      elements: [
+        {
+          type: 'mrkdwn',
+          text: `\`${item.type}\` <${sparkUrl}|${escapeMrkdwn(item.title)}>${summary}`,
+        },
+      ],
+    };
+  });
+
+  return [
+    ...answerSections(markdownToMrkdwn(answer)),
+    ...(citations.length > 0
+      ? [
+          { type: 'divider' },
+          { type: 'context', elements: [{ type: 'mrkdwn', text: `*Sources from ${escapeMrkdwn(spark.name)}*` }] },
+          ...citations,
+        ]
+      : []),
+    {
+      type: 'actions',
+      elements: [
+        {
+          type: 'button',
+          action_id: 'open_spark',
+          text: { type: 'plain_text', text: 'Open in Spark Foundry' },
+          url: sparkUrl,
+        },
+      ],
+    },
+  ];
+}
+
+/**
+ * Answer `/spark ask` with the chat RAG pipeline. The question is posted to
+ * the channel and the answer replied in its thread; where the bot can't post
+ * (private channels it isn't in, DMs) the answer goes back through the
+ * command's response_url instead. Failures are reported to the asker rather
+ * than retried, so a question is never answered twice.
+ */
+export async function handleAskSpark(
+  task: Extract<SlackTask, { task: 'ask' }>,
+  correlationId?: string
+): Promise<void> {
+  const { data: spark } = await supabaseAdmin
+    .from('sparks')
+    .select('id, name')
+    .eq('id', task.sparkId)
+    .maybeSingle();
+
+  // Access may have been removed while the question waited in the queue
+  const role = spark ? await getSparkRole(spark.id, task.userId) : null;
+  if (!spark || !role) {
+    await postToResponseUrl(task.responseUrl, {
+      response_type: 'ephemeral',
+      text: ':warning: Spark not found. It may have been deleted, or you no longer have access.',
     });
+    return;
+  }
 
-  // Public confirmation in the thread so the whole team sees it
-  await postMessage(
-    channelId,
-    threadTs,
-    `:sparkles: Thread saved to *${spark.name}* (${messages.length} message${messages.length !== 1 ? 's' : ''})`
-  );
+  let answer: Awaited<ReturnType<typeof answerSparkQuestion>>;
+  const start = Date.now();
+  try {
+    answer = await answerSparkQuestion(spark.id, task.question, SLACK_ANSWER_INSTRUCTIONS);
+  } catch (err) {
+    console.error('[slack] /spark ask failed:', err);
+    await logWebhook({
+      correlation_id: correlationId,
+      direction: 'internal',
+      level: 'error',
+      route: TASK_ROUTE,
+      summary: `ask failed: sparkId=${spark.id}`,
+      error: err instanceof Error ? err.message : String(err),
+    });
+    await postToResponseUrl(task.responseUrl, {
+      text: `:warning: Couldn't answer that from *${spark.name}*. Please try again.`,
+    });
+    return;
+  }
 
   await logWebhook({
     correlation_id: correlationId,
     direction: 'internal',
-    route: '/api/slack/worker',
-    summary: `Confirmation posted to #${channelName}`,
+    route: TASK_ROUTE,
+    summary: `Answer generated: ${answer.items.length} sources`,
+    duration_ms: Date.now() - start,
+  });
+
+  const text = answer.text || `I couldn't find anything in *${spark.name}* about that.`;
+  const blocks = buildAnswerBlocks(text, answer.items, spark, task.origin);
+  const questionText = `<@${task.user}> asked *${escapeMrkdwn(spark.name)}*: ${escapeMrkdwn(task.question)}`;
+
+  await joinChannel(task.channel);
+  const questionTs = await postMessage(task.channel, null, questionText);
+  if (questionTs) {
+    await postMessage(task.channel, questionTs, text, blocks);
+  } else {
+    await postToResponseUrl(task.responseUrl, {
+      response_type: 'in_channel',
+      text,
+      blocks: [{ type: 'section', text: { type: 'mrkdwn', text: questionText } }, ...blocks],
+    });
+  }
+
+  await logWebhook({
+    correlation_id: correlationId,
+    direction: 'outbound',
+    route: TASK_ROUTE,
+    summary: questionTs ? 'Answer posted in thread' : 'Answer posted via response_url',
   });
 }
@@ -0,0 +1,1100 @@
+/**
+ * Spark export / import bundles.
+ *
+ * A bundle is a zip that carries a whole Spark between environments:
+ *
+ *   spark.json            manifest — the Spark, and every record below with its metadata
+ *   items/*.md            one file per item: YAML frontmatter, then the item content
+ *   files/{item}/…        bytes of uploaded files and their thumbnails
+ *   chats/*.md            readable transcript of each session's active branch
+ *   research/*.md         web research, frontmatter with the sources, then the content
+ *   artifacts/*.json      artifact content with its full version history
+ *   document.json         the editor document (TipTap JSON)
+ *   canvas.json           canvas positions and groups
+ *   discussions.json      editor comment threads with their comments
+ *   vectors.json          optional — embeddings, with the model that produced them
+ *
+ * The markdown bodies of items and research are the content that gets
+ * imported, so a bundle can be edited by hand before importing. Chat
+ * transcripts are for reading only; the full message tree is in spark.json.
+ *
+ * Import recreates everything under new ids. Vectors are reused when the
+ * bundle was embedded with the provider this environment uses; anything
+ * without a usable vector is re-embedded.
+ */
+
+import { randomUUID } from 'crypto';
+import { posix } from 'path';
+import { strFromU8, strToU8, unzipSync, zipSync, type Zippable } from 'fflate';
+import { z } from 'zod';
+import { supabaseAdmin } from './supabase/admin';
+import { buildResearchText, generateEmbedding, getEmbeddingProvider, saveEmbedding } from './embeddings';
+import { embedChatSession, setActiveMessage } from './chat-sessions';
+import { enqueueItemEmbedding } from './jobs/queue';
+import { deleteSparkUploads, getStorageProvider } from './uploads';
+import { insertCanvasState, loadCanvasState } from './canvas';
+import { insertCommentThreads, loadCommentThreads } from './discussions';
+import { formatZodIssues } from './artifact-schemas';
+import type {
+  ArtifactVersion,
+  CanvasState,
+  ChatRole,
+  CommentThread,
+  GeneratedArtifact,
+  Spark,
+  SparkItem,
+  WebResearchSource,
+} from './types';
+
+export const BUNDLE_FORMAT = 'spark-foundry-bundle';
+export const BUNDLE_VERSION = 1;
+/** Largest bundle accepted for import */
+export const MAX_BUNDLE_BYTES = 200 * 1024 * 1024;
+/** Largest total size of the bundle's files once unzipped */
+const MAX_BUNDLE_INFLATED_BYTES = 1024 * 1024 * 1024;
+
+// Files and folders of the bundle layout; anything else in the zip is skipped
+const BUNDLE_FILES = new Set(['spark.json', 'document.json', 'canvas.json', 'discussions.json', 'vectors.json']);
+const BUNDLE_FOLDERS = ['items/', 'files/', 'chats/', 'research/', 'artifacts/'];
+
+const PAGE_SIZE = 1000;
+const INSERT_BATCH = 200;
+const EMBED_JOB_BATCH = 50;
+
+/** Thrown for bundles that can't be imported; `status` is the HTTP status to return. */
+export class BundleError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+    this.name = 'BundleError';
+  }
+}
+
+// ─── Manifest ───────────────────────────────────
+
+export interface BundleItem {
+  id: string;
+  type: SparkItem['type'];
+  title: string;
+  summary: string | null;
+  metadata: Record<string, unknown>;
+  created_at: string;
+  updated_at: string;
+  /** Markdown file holding the content */
+  path: string;
+  /** Uploaded file and thumbnail, when the item was uploaded */
+  file?: { path: string; content_type: string; thumbnail_path?: string };
+}
+
+export interface BundleChatMessage {
+  id: string;
+  parent_message_id: string | null;
+  role: ChatRole;
+  content: string;
+  metadata: Record<string, unknown>;
+  created_at: string;
+}
+
+export interface BundleChatSession {
+  id: string;
+  title: string;
+  metadata: Record<string, unknown>;
+  active_message_id: string | null;
+  created_at: string;
+  updated_at: string;
+  /** Transcript of the active branch */
+  path: string;
+  messages: BundleChatMessage[];
+}
+
+export interface BundleWebResearch {
+  id: string;
+  title: string;
+  query: string;
+  summary: string | null;
+  sources: WebResearchSource[];
+  metadata: Record<string, unknown>;
+  created_at: string;
+  updated_at: string;
+  /** Markdown file holding the content */
+  path: string;
+}
+
+export interface BundleArtifact {
+  id: string;
+  type: GeneratedArtifact['type'];
+  title: string;
+  status: GeneratedArtifact['status'];
+  template_id: string | null;
+  created_at: string;
+  updated_at: string;
+  /** JSON file with content, metadata and versions */
+  path: string;
+}
+
+export interface BundleManifest {
+  format: typeof BUNDLE_FORMAT;
+  version: number;
+  exported_at: string;
+  spark: Pick<Spark, 'id' | 'name' | 'description' | 'status' | 'metadata' | 'created_at'>;
+  items: BundleItem[];
+  chat_sessions: BundleChatSession[];
+  web_research: BundleWebResearch[];
+  artifacts: BundleArtifact[];
+  document: string | null;
+  canvas: string | null;
+  /** Absent in bundles from before discussions had their own tables */
+  discussions?: string | null;
+  vectors: string | null;
+}
+
+interface BundleArtifactFile {
+  content: GeneratedArtifact['content'];
+  metadata: Record<string, unknown>;
+  current_version: number;
+  versions: Pick<ArtifactVersion, 'version_number' | 'title' | 'content' | 'source' | 'field' | 'restored_from' | 'created_at'>[];
+}
+
+// Shapes checked on import. Extra keys are allowed; only what import reads is required.
+const metadataSchema = z.record(z.string(), z.unknown());
+
+const manifestSchema = z.looseObject({
+  format: z.literal(BUNDLE_FORMAT),
+  version: z.number().int(),
+  spark: z.looseObject({
+    name: z.string(),
+    description: z.string().nullable(),
+    status: z.string(),
+    metadata: metadataSchema.nullable(),
+  }),
+  items: z.array(
+    z.looseObject({
+      id: z.string(),
+      type: z.string(),
+      title: z.string(),
+      summary: z.string().nullable(),
+      metadata: metadataSchema,
+      created_at: z.string(),
+      updated_at: z.string(),
+      path: z.string(),
+      file: z
+        .looseObject({ path: z.string(), content_type: z.string(), thumbnail_path: z.string().optional() })
+        .optional(),
+    })
+  ),
+  chat_sessions: z.array(
+    z.looseObject({
+      id: z.string(),
+      title: z.string(),
+      metadata: metadataSchema,
+      active_message_id: z.string().nullable(),
+      created_at: z.string(),
+      updated_at: z.string(),
+      messages: z.array(
+        z.looseObject({
+          id: z.string(),
+          parent_message_id: z.string().nullable(),
+          role: z.enum(['user', 'assistant', 'system']),
+          content: z.string(),
+          metadata: metadataSchema,
+          created_at: z.string(),
+        })
+      ),
+    })
+  ),
+  web_research: z.array(
+    z.looseObject({
+      id: z.string(),
+      title: z.string(),
+      query: z.string(),
+      summary: z.string().nullable(),
+      sources: z.array(z.unknown()),
+      metadata: metadataSchema,
+      created_at: z.string(),
+      updated_at: z.string(),
+      path: z.string(),
+    })
+  ),
+  artifacts: z.array(
+    z.looseObject({
+      id: z.string(),
+      type: z.string(),
+      title: z.string(),
+      status: z.string(),
+      template_id: z.string().nullable(),
+      created_at: z.string(),
+      updated_at: z.string(),
+      path: z.string(),
+    })
+  ),
+  document: z.string().nullable(),
+  canvas: z.string().nullable(),
+  discussions: z.string().nullable().optional(),
+  vectors: z.string().nullable(),
+});
+
+const artifactFileSchema = z.looseObject({
+  content: metadataSchema,
+  metadata: metadataSchema,
+  current_version: z.number().int(),
+  versions: z.array(
+    z.looseObject({
+      version_number: z.number().int(),
+      title: z.string(),
+      content: metadataSchema,
+      source: z.enum(['generate', 'edit', 'regenerate_section', 'restore']),
+      field: z.string().nullable(),
+      restored_from: z.number().int().nullable(),
+      created_at: z.string(),
+    })
+  ),
+});
+
+interface BundleChunk {
+  chunk_index: number;
+  content: string;
+  start_offset: number;
+  anchor: string | null;
+  embedding: number[];
+}
+
+interface BundleVectors {
+  model: string;
+  dimensions: number;
+  items: Record<string, number[]>;
+  chunks: Record<string, BundleChunk[]>;
+  chat_sessions: Record<string, number[]>;
+  web_research: Record<string, number[]>;
+}
+
+export interface ImportResult {
+  spark: Spark;
+  counts: { items: number; chat_sessions: number; web_research: number; artifacts: number; files: number };
+  /** Items queued for embedding because the bundle had no usable vectors for them */
+  reembedding: number;
+}
+
+// Spark metadata keys written to their own files
+const DOCUMENT_KEY = 'editor_content';
+// Kept in metadata by older versions of the app, now in their own tables
+const LEGACY_CANVAS_KEY = 'canvas';
+const LEGACY_DISCUSSIONS_KEY = 'discussions';
+// Item metadata that describes where vectors came from — rewritten on import
+const EMBEDDING_KEYS = ['embedding_model', 'embedding_dimensions'];
+
+// ─── Helpers ────────────────────────────────────
+
+/** Read every row of a query, a page at a time (PostgREST caps a response at 1000 rows). */
+async function selectAll<T>(
+  page: (from: number, to: number) => PromiseLike<{ data: unknown[] | null; error: { message: string } | null }>
+): Promise<T[]> {
+  const rows: T[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await page(from, from + PAGE_SIZE - 1);
+    if (error) throw new Error(error.message);
+    rows.push(...((data || []) as T[]));
+    if (!data || data.length < PAGE_SIZE) return rows;
+  }
+}
+
+async function insertAll(table: string, rows: Record<string, unknown>[]): Promise<void> {
+  for (let i = 0; i < rows.length; i += INSERT_BATCH) {
+    const { error } = await supabaseAdmin.from(table).insert(rows.slice(i, i + INSERT_BATCH));
+    if (error) throw new Error(`Failed to import ${table}: ${error.message}`);
+  }
+}
+
+/** pgvector columns come back from PostgREST as "[0.1,0.2,…]" strings */
+function parseVector(value: unknown): number[] | null {
+  if (Array.isArray(value)) return value as number[];
+  if (typeof value !== 'string' || !value) return null;
+  try {
+    const parsed = JSON.parse(value);
+    return Array.isArray(parsed) ? parsed : null;
+  } catch {
+    return null;
+  }
+}
+
+function slugify(text: string): string {
+  const slug = text
+    .toLowerCase()
+    .normalize('NFKD')
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 60)
+    .replace(/-+$/, '');
+  return slug || 'untitled';
+}
+
+function numberedPath(dir: string, index: number, title: string, extension: string): string {
+  return `${dir}/${String(index + 1).padStart(3, '0')}-${slugify(title)}.${extension}`;
+}
+
+/**
+ * YAML frontmatter. Values are written as JSON, which YAML reads as-is,
+ * so strings with colons or quotes need no further escaping.
+ */
+function frontmatter(fields: Record<string, unknown>): string {
+  const lines = Object.entries(fields)
+    .filter(([, value]) => value !== undefined && value !== null)
+    .map(([key, value]) => `${key}: ${JSON.stringify(value)}`);
+  return `---\n${lines.join('\n')}\n---\n\n`;
+}
+
+/** The body of a markdown file written with frontmatter() */
+function markdownBody(markdown: string): string {
+  const text = markdown.replace(/\r\n/g, '\n');
+  if (!text.startsWith('---\n')) return text;
+  const end = text.indexOf('\n---\n', 4);
+  return end === -1 ? text : text.slice(end + 5).replace(/^\n/, '');
+}
+
+function readJson<T>(files: Record<string, Uint8Array>, path: string | null): T | null {
+  if (!path || !Object.hasOwn(files, path)) return null;
+  try {
+    return JSON.parse(strFromU8(files[path])) as T;
+  } catch {
+    throw new BundleError(`${path} is not valid JSON`, 400);
+  }
+}
+
+/** readJson(), checked against the schema; `T` is the shape the rest of import works with */
+function readChecked<T>(files: Record<string, Uint8Array>, path: string, schema: z.ZodType): T | null {
+  const value = readJson<unknown>(files, path);
+  if (value === null) return null;
+  const result = schema.safeParse(value);
+  if (!result.success) {
+    throw new BundleError(`${path} is not a valid bundle file: ${formatZodIssues(result.error).slice(0, 5).join('; ')}`, 400);
+  }
+  return result.data as T;
+}
+
+/** Whether a zip entry belongs to the bundle layout (and stays inside it) */
+function isBundlePath(name: string): boolean {
+  if (name.endsWith('/') || posix.normalize(name) !== name || posix.isAbsolute(name)) return false;
+  return BUNDLE_FILES.has(name) || BUNDLE_FOLDERS.some((folder) => name.startsWith(folder));
+}
+
+function readText(files: Record<string, Uint8Array>, path: string): string | null {
+  return Object.hasOwn(files, path) ? strFromU8(files[path]) : null;
+}
+
+// ─── Export ─────────────────────────────────────
+
+/** Citation links from an assistant reply to the bundled items it names. */
+function citedItems(content: string, items: BundleItem[], transcriptPath: string): string {
+  const lower = content.toLowerCase();
+  const cited = items.filter((item) => item.title.length >= 4 && lower.includes(item.title.toLowerCase()));
+  if (cited.length === 0) return '';
+
+  const links = cited.map(
+    (item) => `- [${item.title.replace(/[[\]]/g, '')}](${posix.relative(posix.dirname(transcriptPath), item.path)})`
+  );
+  return `\n\n**Cited items**\n\n${links.join('\n')}`;
+}
+
+function chatTranscript(session: BundleChatSession, items: BundleItem[]): string {
+  const byId = new Map(session.messages.map((m) => [m.id, m]));
+  const branch: BundleChatMessage[] = [];
+  for (let m = session.active_message_id ? byId.get(session.active_message_id) : undefined; m; ) {
+    branch.unshift(m);
+    m = m.parent_message_id ? byId.get(m.parent_message_id) : undefined;
+  }
+
+  const turns = branch
+    .filter((m) => m.role === 'user' || m.role === 'assistant')
+    .map((m) => {
+      const heading = `### ${m.role === 'user' ? 'User' : 'Assistant'} · ${m.created_at}`;
+      const citations = m.role === 'assistant' ? citedItems(m.content, items, session.path) : '';
+      return `${heading}\n\n${m.content}${citations}`;
+    });
+
+  return (
+    frontmatter({
+      id: session.id,
+      title: session.title,
+      created_at: session.created_at,
+      updated_at: session.updated_at,
+      messages: session.messages.length,
+      branch_messages: branch.length,
+    }) + `# ${session.title}\n\n${turns.join('\n\n')}\n`
+  );
+}
+
+/**
+ * Build the export zip for a Spark. Uploaded files are read back from
+ * storage; vectors are included unless `includeVectors` is false.
+ */
+export async function exportSparkBundle(
+  sparkId: string,
+  options: { includeVectors?: boolean } = {}
+): Promise<{ filename: string; data: Uint8Array }> {
+  const includeVectors = options.includeVectors ?? true;
+  const embeddingColumn = includeVectors ? ', embedding' : '';
+
+  const { data: spark, error: sparkError } = await supabaseAdmin
+    .from('sparks')
+    .select('*')
+    .eq('id', sparkId)
+    .single();
+  if (sparkError || !spark) throw new BundleError('Spark not found', 404);
+
+  const [items, sessions, messages, researchLinks, artifacts] = await Promise.all([
+    selectAll<SparkItem & { embedding?: unknown }>((from, to) =>
+      supabaseAdmin
+        .from('spark_items')
+        .select(`id, type, title, content, summary, metadata, created_at, updated_at${embeddingColumn}`)
+        .eq('spark_id', sparkId)
+        .order('created_at', { ascending: true })
+        .range(from, to)
+    ),
+    selectAll<Record<string, unknown>>((from, to) =>
+      supabaseAdmin
+        .from('chat_sessions')
+        .select(`id, title, metadata, active_message_id, created_at, updated_at${embeddingColumn}`)
+        .eq('spark_id', sparkId)
+        .order('created_at', { ascending: true })
+        .range(from, to)
+    ),
+    selectAll<BundleChatMessage & { session_id: string | null }>((from, to) =>
+      supabaseAdmin
+        .from('chat_messages')
+        .select('id, session_id, parent_message_id, role, content, metadata, created_at')
+        .eq('spark_id', sparkId)
+        .order('created_at', { ascending: true })
+        .range(from, to)
+    ),
+    selectAll<{ web_research_item_id: string }>((from, to) =>
+      supabaseAdmin
+        .from('spark_web_research')
+        .select('web_research_item_id')
+        .eq('spark_id', sparkId)
+        .range(from, to)
+    ),
+    selectAll<GeneratedArtifact>((from, to) =>
+      supabaseAdmin
+        .from('generated_artifacts')
+        .select('*')
+        .eq('spark_id', sparkId)
+        .order('created_at', { ascending: true })
+        .range(from, to)
+    ),
+  ]);
+
+  const researchIds = researchLinks.map((link) => link.web_research_item_id);
+  const research = researchIds.length
+    ? await selectAll<Record<string, unknown>>((from, to) =>
+        supabaseAdmin
+          .from('web_research_items')
+          .select(`id, title, query, content, summary, sources, metadata, created_at, updated_at${embeddingColumn}`)
+          .in('id', researchIds)
+          .order('created_at', { ascending: true })
+          .range(from, to)
+      )
+    : [];
+
+  const artifactIds = artifacts.map((a) => a.id);
+  const versions = artifactIds.length
+    ? await selectAll<ArtifactVersion>((from, to) =>
+        supabaseAdmin
+          .from('artifact_versions')
+          .select('artifact_id, version_number, title, content, source, field, restored_from, created_at')
+          .in('artifact_id', artifactIds)
+          .order('version_number', { ascending: true })
+          .range(from, to)
+      )
+    : [];
+
+  const files: Zippable = {};
+  const storage = getStorageProvider();
+
+  // ── Items ──
+  const bundleItems: BundleItem[] = [];
+  for (const [i, item] of items.entries()) {
+    const path = numberedPath('items', i, item.title, 'md');
+    const meta = item.metadata || {};
+    const entry: BundleItem = {
+      id: item.id,
+      type: item.type,
+      title: item.title,
+      summary: item.summary,
+      metadata: meta,
+      created_at: item.created_at,
+      updated_at: item.updated_at,
+      path,
+    };
+
+    if (typeof meta.storage_path === 'string') {
+      const bytes = await storage.get(meta.storage_path).catch(() => null);
+      if (bytes) {
+        const filePath = `files/${item.id}/${posix.basename(meta.storage_path)}`;
+        files[filePath] = [bytes, { level: 0 }];
+        entry.file = { path: filePath, content_type: (meta.file_type as string) || 'application/octet-stream' };
+
+        const thumbnail = await storage.get(`${posix.dirname(meta.storage_path)}/thumbnail.webp`).catch(() => null);
+        if (thumbnail) {
+          entry.file.thumbnail_path = `files/${item.id}/thumbnail.webp`;
+          files[entry.file.thumbnail_path] = [thumbnail, { level: 0 }];
+        }
+      }
+    }
+
+    const tags = Array.isArray(meta.tags) ? meta.tags : undefined;
+    files[path] = strToU8(
+      frontmatter({
+        id: item.id,
+        type: item.type,
+        title: item.title,
+        url: meta.url ?? meta.drive_web_view_link ?? meta.cs_entry_url ?? meta.slack_permalink,
+        tags,
+        file: entry.file?.path,
+        created_at: item.created_at,
+      }) + (item.content ?? '')
+    );
+    bundleItems.push(entry);
+  }
+
+  // ── Chat sessions ──
+  const messagesBySession = new Map<string, BundleChatMessage[]>();
+  for (const { session_id, ...message } of messages) {
+    if (!session_id) continue;
+    const list = messagesBySession.get(session_id) ?? [];
+    list.push(message);
+    messagesBySession.set(session_id, list);
+  }
+
+  const bundleSessions: BundleChatSession[] = sessions.map((session, i) => {
+    const entry: BundleChatSession = {
+      id: session.id as string,
+      title: session.title as string,
+      metadata: (session.metadata as Record<string, unknown>) || {},
+      active_message_id: (session.active_message_id as string | null) ?? null,
+      created_at: session.created_at as string,
+      updated_at: session.updated_at as string,
+      path: numberedPath('chats', i, session.title as string, 'md'),
+      messages: messagesBySession.get(session.id as string) ?? [],
+    };
+    files[entry.path] = strToU8(chatTranscript(entry, bundleItems));
+    return entry;
+  });
+
+  // ── Web research ──
+  const bundleResearch: BundleWebResearch[] = research.map((row, i) => {
+    const entry: BundleWebResearch = {
+      id: row.id as string,
+      title: row.title as string,
+      query: row.query as string,
+      summary: (row.summary as string | null) ?? null,
+      sources: (row.sources as WebResearchSource[]) || [],
+      metadata: (row.metadata as Record<string, unknown>) || {},
+      created_at: row.created_at as string,
+      updated_at: row.updated_at as string,
+      path: numberedPath('research', i, row.title as string, 'md'),
+    };
+    files[entry.path] = strToU8(
+      frontmatter({
+        id: entry.id,
+        title: entry.title,
+        query: entry.query,
+        sources: entry.sources.map((source) => source.url),
+        created_at: entry.created_at,
+      }) + ((row.content as string) ?? '')
+    );
+    return entry;
+  });
+
+  // ── Artifacts ──
+  const bundleArtifacts: BundleArtifact[] = artifacts.map((artifact, i) => {
+    const path = numberedPath('artifacts', i, artifact.title, 'json');
+    const file: BundleArtifactFile = {
+      content: artifact.content,
+      metadata: artifact.metadata || {},
+      current_version: artifact.current_version,
+      versions: versions
+        .filter((v) => v.artifact_id === artifact.id)
+        .map(({ version_number, title, content, source, field, restored_from, created_at }) => ({
+          version_number, title, content, source, field, restored_from, created_at,
+        })),
+    };
+    files[path] = strToU8(JSON.stringify(file, null, 2));
+    return {
+      id: artifact.id,
+      type: artifact.type,
+      title: artifact.title,
+      status: artifact.status,
+      template_id: artifact.template_id,
+      created_at: artifact.created_at,
+      updated_at: artifact.updated_at,
+      path,
+    };
+  });
+
+  // ── Editor document, canvas and discussions ──
+  const { [DOCUMENT_KEY]: document, ...sparkMetadata } = (spark.metadata || {}) as Record<string, unknown>;
+  delete sparkMetadata[LEGACY_CANVAS_KEY];
+  delete sparkMetadata[LEGACY_DISCUSSIONS_KEY];
+  if (document) files['document.json'] = strToU8(JSON.stringify(document, null, 2));
+
+  const [canvas, discussions] = await Promise.all([loadCanvasState(sparkId), loadCommentThreads(sparkId)]);
+  const hasCanvas = canvas.nodePositions.length > 0 || canvas.groups.length > 0;
+  if (hasCanvas) files['canvas.json'] = strToU8(JSON.stringify(canvas, null, 2));
+  if (discussions.length > 0) files['discussions.json'] = strToU8(JSON.stringify(discussions, null, 2));
+
+  // ── Vectors ──
+  if (includeVectors) {
+    const chunks = await selectAll<BundleChunk & { item_id: string; embedding: unknown }>((from, to) =>
+      supabaseAdmin
+        .from('spark_item_chunks')
+        .select('item_id, chunk_index, content, start_offset, anchor, embedding')
+        .eq('spark_id', sparkId)
+        .order('item_id')
+        .order('chunk_index')
+        .range(from, to)
+    );
+
+    const provider = getEmbeddingProvider();
+    const vectors: BundleVectors = { model: provider.id, dimensions: provider.dimensions, items: {}, chunks: {}, chat_sessions: {}, web_research: {} };
+    const collect = (target: Record<string, number[]>, rows: { id?: unknown; embedding?: unknown }[]) => {
+      for (const row of rows) {
+        const vector = parseVector(row.embedding);
+        if (vector) target[row.id as string] = vector;
+      }
+    };
+    collect(vectors.items, items);
+    collect(vectors.chat_sessions, sessions);
+    collect(vectors.web_research, research);
+    for (const { item_id, embedding, ...chunk } of chunks) {
+      const vector = parseVector(embedding);
+      if (!vector) continue;
+      (vectors.chunks[item_id] ??= []).push({ ...chunk, embedding: vector });
+    }
+    files['vectors.json'] = strToU8(JSON.stringify(vectors));
+  }
+
+  const manifest: BundleManifest = {
+    format: BUNDLE_FORMAT,
+    version: BUNDLE_VERSION,
+    exported_at: new Date().toISOString(),
+    spark: {
+      id: spark.id,
+      name: spark.name,
+      description: spark.description,
+      status: spark.status,
+      metadata: sparkMetadata,
+      created_at: spark.created_at,
+    },
+    items: bundleItems,
+    chat_sessions: bundleSessions,
+    web_research: bundleResearch,
+    artifacts: bundleArtifacts,
+    document: document ? 'document.json' : null,
+    canvas: hasCanvas ? 'canvas.json' : null,
+    discussions: discussions.length > 0 ? 'discussions.json' : null,
+    vectors: includeVectors ? 'vectors.json' : null,
+  };
+  files['spark.json'] = strToU8(JSON.stringify(manifest, null, 2));
+
+  return {
+    filename: `${slugify(spark.name)}.spark.zip`,
+    data: zipSync(files, { level: 6 }),
+  };
+}
+
+// ─── Import ─────────────────────────────────────
+
+/** Parents before children, so parent_message_id references resolve on insert. */
+function parentFirst(messages: BundleChatMessage[]): BundleChatMessage[] {
+  const ids = new Set(messages.map((m) => m.id));
+  const children = new Map<string | null, BundleChatMessage[]>();
+  for (const m of messages) {
+    const parent = m.parent_message_id && ids.has(m.parent_message_id) ? m.parent_message_id : null;
+    children.set(parent, [...(children.get(parent) ?? []), m]);
+  }
+
+  const ordered: BundleChatMessage[] = [];
+  const queue = [...(children.get(null) ?? [])];
+  while (queue.length > 0) {
+    const m = queue.shift()!;
+    ordered.push(m);
+    queue.push(...(children.get(m.id) ?? []));
+  }
+  return ordered;
+}
+
+/** Point canvas positions and groups at the imported item and session ids. */
+function remapCanvas(
+  canvas: CanvasState,
+  itemIds: Map<string, string>,
+  sessionIds: Map<string, string>
+): CanvasState {
+  return {
+    nodePositions: (canvas.nodePositions || [])
+      .filter((position) => itemIds.has(position.itemId))
+      .map((position) => ({ ...position, itemId: itemIds.get(position.itemId)! })),
+    groups: (canvas.groups || []).map((group) => ({
+      ...group,
+      itemIds: group.itemIds.filter((id) => itemIds.has(id)).map((id) => itemIds.get(id)!),
+      sessionId: group.sessionId ? sessionIds.get(group.sessionId) ?? null : group.sessionId,
+    })),
+  };
+}
+
+/** Point the editor's comment marks at the imported thread ids. */
+function remapCommentMarks(node: unknown, threadIds: Map<string, string>): unknown {
+  if (Array.isArray(node)) return node.map((child) => remapCommentMarks(child, threadIds));
+  if (!node || typeof node !== 'object') return node;
+
+  const copy: Record<string, unknown> = { ...(node as Record<string, unknown>) };
+  if (Array.isArray(copy.marks)) {
+    copy.marks = copy.marks.map((mark: { type?: string; attrs?: Record<string, unknown> }) => {
+      const threadId = mark.type === 'commentMark' ? mark.attrs?.threadId : undefined;
+      return typeof threadId === 'string' && threadIds.has(threadId)
+        ? { ...mark, attrs: { ...mark.attrs, threadId: threadIds.get(threadId) } }
+        : mark;
+    });
+  }
+  if (copy.content) copy.content = remapCommentMarks(copy.content, threadIds);
+  return copy;
+}
+
+/**
+ * Create a new Spark, owned by `userId`, from an export bundle. Throws
+ * BundleError for bundles that can't be read. If anything fails part way,
+ * the half-imported Spark is deleted.
+ */
+export async function importSparkBundle(
+  data: Uint8Array,
+  options: { user: { id: string; email: string }; name?: string | null }
+): Promise<ImportResult> {
+  if (data.byteLength > MAX_BUNDLE_BYTES) {
+    throw new BundleError(`Bundle is larger than the ${Math.round(MAX_BUNDLE_BYTES / 1024 / 1024)} MB limit`, 413);
+  }
+
+  // Sizes come from the zip headers, and fflate never inflates an entry past
+  // its declared size, so the total is checked before anything is inflated
+  let files: Record<string, Uint8Array>;
+  let inflatedBytes = 0;
+  let tooLarge = false;
+  try {
+    files = unzipSync(data, {
+      filter: (file) => {
+        if (!isBundlePath(file.name)) return false;
+        inflatedBytes += file.originalSize;
+        if (inflatedBytes > MAX_BUNDLE_INFLATED_BYTES) {
+          tooLarge = true;
+          throw new Error('Bundle is too large to unzip');
+        }
+        return true;
+      },
+    });
+  } catch {
+    if (tooLarge) {
+      throw new BundleError(
+        `Bundle unzips to more than the ${Math.round(MAX_BUNDLE_INFLATED_BYTES / 1024 / 1024)} MB limit`,
+        413
+      );
+    }
+    throw new BundleError('File is not a valid zip archive', 400);
+  }
+
+  const raw = readJson<{ format?: unknown; version?: unknown }>(files, 'spark.json');
+  if (!raw || raw.format !== BUNDLE_FORMAT) {
+    throw new BundleError('Zip has no Spark bundle manifest (spark.json)', 400);
+  }
+  if (typeof raw.version === 'number' && raw.version > BUNDLE_VERSION) {
+    throw new BundleError(`Bundle version ${raw.version} is newer than this app supports`, 400);
+  }
+  const manifest = readChecked<BundleManifest>(files, 'spark.json', manifestSchema)!;
+
+  const provider = getEmbeddingProvider();
+  const vectors = readJson<BundleVectors>(files, manifest.vectors);
+  const useVectors = !!vectors && vectors.model === provider.id && vectors.dimensions === provider.dimensions;
+
+  const { data: spark, error: sparkError } = await supabaseAdmin
+    .from('sparks')
+    .insert({
+      name: options.name?.trim() || manifest.spark.name,
+      description: manifest.spark.description,
+      status: manifest.spark.status,
+      metadata: {},
+      owner_id: options.user.id,
+    })
+    .select()
+    .single();
+  if (sparkError || !spark) throw new Error(`Failed to create spark: ${sparkError?.message ?? 'no row returned'}`);
+
+  // web_research_items are shared rows, so they aren't removed with the Spark
+  const researchIds: string[] = [];
+
+  try {
+    const { error: memberError } = await supabaseAdmin.from('spark_members').insert({
+      spark_id: spark.id,
+      user_id: options.user.id,
+      invited_email: options.user.email.toLowerCase(),
+      role: 'owner',
+      status: 'accepted',
+      accepted_at: new Date().toISOString(),
+    });
+    if (memberError) console.error('[spark-bundle] Failed to add owner membership:', memberError.message);
+
+    // ── Items and uploaded files ──
+    const storage = getStorageProvider();
+    const itemIds = new Map<string, string>();
+    const itemRows: Record<string, unknown>[] = [];
+    let fileCount = 0;
+
+    for (const item of manifest.items) {
+      const id = randomUUID();
+      itemIds.set(item.id, id);
+
+      const metadata = { ...item.metadata };
+      for (const key of EMBEDDING_KEYS) delete metadata[key];
+
+      const bytes = item.file ? files[item.file.path] : undefined;
+      if (item.file && bytes) {
+        const prefix = `${spark.id}/${id}`;
+        const path = `${prefix}/${posix.basename(item.file.path)}`;
+        await storage.put(path, bytes, item.file.content_type);
+        metadata.storage_provider = storage.name;
+        metadata.storage_path = path;
+        metadata.file_url = storage.publicUrl(path);
+        if (item.type === 'image') metadata.image_url = metadata.file_url;
+
+        const thumbnail = item.file.thumbnail_path ? files[item.file.thumbnail_path] : undefined;
+        if (thumbnail) {
+          await storage.put(`${prefix}/thumbnail.webp`, thumbnail, 'image/webp');
+          metadata.thumbnail_url = storage.publicUrl(`${prefix}/thumbnail.webp`);
+        }
+        fileCount++;
+      } else if (metadata.storage_path) {
+        // The file didn't travel with the bundle; keep its old URL but don't claim the storage
+        delete metadata.storage_path;
+        delete metadata.storage_provider;
+      }
+
+      const markdown = readText(files, item.path);
+      const content = markdown === null ? null : markdownBody(markdown);
+
+      itemRows.push({
+        id,
+        spark_id: spark.id,
+        type: item.type,
+        title: item.title,
+        content: content || null,
+        summary: item.summary,
+        metadata,
+        created_at: item.created_at,
+        updated_at: item.updated_at,
+      });
+    }
+    await insertAll('spark_items', itemRows);
+
+    // ── Item vectors: reuse them when complete, otherwise re-embed ──
+    const reembed: string[] = [];
+    const model = provider.id;
+    for (const item of manifest.items) {
+      const id = itemIds.get(item.id)!;
+      const vector = useVectors ? vectors!.items[item.id] : undefined;
+      const chunks = useVectors ? vectors!.chunks[item.id] ?? [] : [];
+
+      if (!vector || (item.type !== 'image' && chunks.length === 0)) {
+        reembed.push(id);
+        continue;
+      }
+
+      const { error } = await saveEmbedding('spark_items', id, vector);
+      if (error) {
+        reembed.push(id);
+        continue;
+      }
+      await insertAll(
+        'spark_item_chunks',
+        chunks.map((chunk) => ({
+          item_id: id,
+          spark_id: spark.id,
+          chunk_index: chunk.chunk_index,
+          content: chunk.content,
+          start_offset: chunk.start_offset,
+          anchor: chunk.anchor,
+          embedding: JSON.stringify(chunk.embedding),
+          embedding_model: model,
+        }))
+      );
+    }
+
+    for (let i = 0; i < reembed.length; i += EMBED_JOB_BATCH) {
+      await enqueueItemEmbedding(spark.id, reembed.slice(i, i + EMBED_JOB_BATCH), { createdBy: options.user.id });
+    }
+
+    // ── Chat sessions ──
+    const sessionIds = new Map<string, string>();
+    for (const session of manifest.chat_sessions) {
+      const sessionId = randomUUID();
+      sessionIds.set(session.id, sessionId);
+
+      const { error } = await supabaseAdmin.from('chat_sessions').insert({
+        id: sessionId,
+        spark_id: spark.id,
+        title: session.title,
+        metadata: session.metadata,
+        created_at: session.created_at,
+        updated_at: session.updated_at,
+      });
+      if (error) throw new Error(`Failed to import chat session: ${error.message}`);
+
+      const messageIds = new Map(session.messages.map((m) => [m.id, randomUUID()]));
+      await insertAll(
+        'chat_messages',
+        parentFirst(session.messages).map((m) => ({
+          id: messageIds.get(m.id),
+          spark_id: spark.id,
+          session_id: sessionId,
+          parent_message_id: m.parent_message_id ? messageIds.get(m.parent_message_id) ?? null : null,
+          role: m.role,
+          content: m.content,
+          metadata: m.metadata,
+          created_at: m.created_at,
+        }))
+      );
+
+      const activeId = session.active_message_id && messageIds.get(session.active_message_id);
+      if (activeId) await setActiveMessage(sessionId, activeId);
+
+      const vector = useVectors ? vectors!.chat_sessions[session.id] : undefined;
+      if (vector) {
+        await saveEmbedding('chat_sessions', sessionId, vector);
+      } else if (activeId) {
+        await embedChatSession(sessionId).catch(() => {
+          // Embedding is best-effort
+        });
+      }
+    }
+
+    // ── Web research ──
+    for (const research of manifest.web_research) {
+      const markdown = readText(files, research.path);
+      const content = markdown === null ? '' : markdownBody(markdown);
+
+      const metadata = { ...research.metadata };
+      for (const key of EMBEDDING_KEYS) delete metadata[key];
+
+      const { data: row, error } = await supabaseAdmin
+        .from('web_research_items')
+        .insert({
+          title: research.title,
+          query: research.query,
+          content,
+          summary: research.summary,
+          sources: research.sources,
+          metadata,
+          created_at: research.created_at,
+          updated_at: research.updated_at,
+        })
+        .select('id')
+        .single();
+      if (error || !row) throw new Error(`Failed to import web research: ${error?.message ?? 'no row returned'}`);
+      researchIds.push(row.id);
+
+      await supabaseAdmin.from('spark_web_research').insert({ spark_id: spark.id, web_research_item_id: row.id });
+
+      const vector = useVectors
+        ? vectors!.web_research[research.id]
+        : await generateEmbedding(buildResearchText({ ...research, content })).catch(() => null);
+      if (vector) await saveEmbedding('web_research_items', row.id, vector);
+    }
+
+    // ── Artifacts ──
+    const templateIds = [...new Set(manifest.artifacts.map((a) => a.template_id).filter((id): id is string => !!id))];
+    const { data: templates } = templateIds.length
+      ? await supabaseAdmin.from('artifact_templates').select('id').in('id', templateIds)
+      : { data: [] };
+    const knownTemplates = new Set((templates || []).map((t) => t.id as string));
+
+    for (const artifact of manifest.artifacts) {
+      const file = readChecked<BundleArtifactFile>(files, artifact.path, artifactFileSchema);
+      if (!file) continue;
+
+      const artifactId = randomUUID();
+      const { error } = await supabaseAdmin.from('generated_artifacts').insert({
+        id: artifactId,
+        spark_id: spark.id,
+        type: artifact.type,
+        title: artifact.title,
+        content: file.content,
+        status: artifact.status,
+        metadata: file.metadata,
+        current_version: file.current_version,
+        // Templates belong to a workspace; the artifact keeps its template snapshot either way
+        template_id: artifact.template_id && knownTemplates.has(artifact.template_id) ? artifact.template_id : null,
+        created_at: artifact.created_at,
+        updated_at: artifact.updated_at,
+      });
+      if (error) throw new Error(`Failed to import artifact: ${error.message}`);
+
+      await insertAll(
+        'artifact_versions',
+        file.versions.map((version) => ({
+          artifact_id: artifactId,
+          version_number: version.version_number,
+          title: version.title,
+          content: version.content,
+          source: version.source,
+          field: version.field,
+          restored_from: version.restored_from,
+          created_at: version.created_at,
+        }))
+      );
+    }
+
+    // ── Canvas and discussions ──
+    const {
+      [LEGACY_CANVAS_KEY]: legacyCanvas,
+      [LEGACY_DISCUSSIONS_KEY]: legacyDiscussions,
+      ...sparkMetadata
+    } = manifest.spark.metadata || {};
+
+    const canvas = readJson<CanvasState>(files, manifest.canvas) ?? (legacyCanvas as CanvasState | undefined);
+    if (canvas) await insertCanvasState(spark.id, remapCanvas(canvas, itemIds, sessionIds));
+
+    const discussions =
+      readJson<CommentThread[]>(files, manifest.discussions ?? null) ??
+      (Array.isArray(legacyDiscussions) ? (legacyDiscussions as CommentThread[]) : []);
+    const threadIds = new Map(discussions.map((thread) => [thread.id, randomUUID()]));
+    await insertCommentThreads(
+      spark.id,
+      discussions.map((thread) => ({ ...thread, id: threadIds.get(thread.id)! }))
+    );
+
+    // ── Spark metadata: editor document ──
+    const document = readJson<unknown>(files, manifest.document);
+    const metadata: Record<string, unknown> = {
+      ...sparkMetadata,
+      ...(document ? { [DOCUMENT_KEY]: remapCommentMarks(document, threadIds) } : {}),
+    };
+
+    const { data: updated, error: updateError } = await supabaseAdmin
+      .from('sparks')
+      .update({ metadata })
+      .eq('id', spark.id)
+      .select()
+      .single();
+    if (updateError || !updated) throw new Error(`Failed to save spark metadata: ${updateError?.message ?? 'no row returned'}`);
+
+    return {
+      spark: updated as Spark,
+      counts: {
+        items: manifest.items.length,
+        chat_sessions: manifest.chat_sessions.length,
+        web_research: manifest.web_research.length,
+        artifacts: manifest.artifacts.length,
+        files: fileCount,
+      },
+      reembedding: reembed.length,
+    };
+  } catch (err) {
+    await supabaseAdmin.from('sparks').delete().eq('id', spark.id);
+    if (researchIds.length) await supabaseAdmin.from('web_research_items').delete().in('id', researchIds);
+    await deleteSparkUploads(spark.id);
+    throw err;
+  }
+}
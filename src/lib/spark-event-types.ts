@@ -0,0 +1,37 @@
+/**
+ * Shapes of the live Spark change feed, shared by the server publisher
+ * (spark-events.ts) and the page that subscribes (use-spark-events.ts).
+ */
+
+import type { CanvasGroup, CanvasNodePosition, CommentThread, SparkItem, ThreadComment } from './types';
+
+/** Request header a Spark page sends with its writes, so its own events can be skipped */
+export const SPARK_CLIENT_HEADER = 'x-spark-client';
+
+export interface SparkEventActor {
+  userId: string | null;
+  name: string | null;
+  /** The page (one per browser tab) that made the change, if it said */
+  clientId: string | null;
+}
+
+export type SparkChange =
+  | { type: 'items.created'; items: SparkItem[] }
+  | { type: 'items.updated'; items: SparkItem[] }
+  | { type: 'items.deleted'; itemIds: string[] }
+  | { type: 'thread.created'; thread: CommentThread }
+  | { type: 'thread.updated'; thread: CommentThread }
+  | { type: 'thread.deleted'; threadId: string }
+  | { type: 'comment.created'; threadId: string; comment: ThreadComment }
+  | { type: 'comment.updated'; threadId: string; comment: ThreadComment }
+  | { type: 'comment.deleted'; threadId: string; commentId: string }
+  | { type: 'canvas.nodes'; nodes: CanvasNodePosition[] }
+  | { type: 'canvas.group'; group: CanvasGroup; created: boolean }
+  | { type: 'canvas.group_deleted'; groupId: string };
+
+export type SparkEvent = SparkChange & {
+  sparkId: string;
+  /** null for changes made by background work with no user behind it */
+  actor: SparkEventActor | null;
+  at: string;
+};
@@ -0,0 +1,93 @@
+/**
+ * Live change feed for a Spark.
+ *
+ * Routes and jobs that change a Spark's items, discussions or canvas
+ * publish an event here, and GET /api/sparks/[id]/events relays them to
+ * every open Spark page over SSE. Like the activity logger this is an
+ * in-process EventEmitter: events reach the clients connected to the
+ * server instance that made the change.
+ */
+
+import { EventEmitter } from 'events';
+import type { NextRequest } from 'next/server';
+import { supabaseAdmin } from './supabase/admin';
+import type { CurrentUser } from './auth';
+import type { SparkItem } from './types';
+import { SPARK_CLIENT_HEADER, type SparkChange, type SparkEvent, type SparkEventActor } from './spark-event-types';
+
+// Columns sent to the page — the same ones GET /api/sparks/[id] returns
+const ITEM_COLUMNS = 'id, spark_id, type, title, content, summary, metadata, created_at, updated_at';
+
+// ─── EventEmitter, one channel per Spark ──────────────
+
+const sparkEmitter = new EventEmitter();
+sparkEmitter.setMaxListeners(0); // one listener per open Spark page
+
+export function subscribeToSpark(sparkId: string, listener: (event: SparkEvent) => void): () => void {
+  sparkEmitter.on(sparkId, listener);
+  return () => {
+    sparkEmitter.off(sparkId, listener);
+  };
+}
+
+function hasSubscribers(sparkId: string): boolean {
+  return sparkEmitter.listenerCount(sparkId) > 0;
+}
+
+// ─── Actors ──────────────────────────────────────────
+
+/** The actor for a request from a signed-in user */
+export function requestActor(request: NextRequest, user: CurrentUser): SparkEventActor {
+  return {
+    userId: user.id,
+    name: user.display_name || user.email,
+    clientId: request.headers.get(SPARK_CLIENT_HEADER),
+  };
+}
+
+/** The actor for background work started by `userId`, e.g. a queued import */
+export async function userActor(userId: string | null | undefined): Promise<SparkEventActor | null> {
+  if (!userId) return null;
+  const { data } = await supabaseAdmin
+    .from('users')
+    .select('display_name, email')
+    .eq('id', userId)
+    .maybeSingle();
+  return { userId, name: data?.display_name || data?.email || null, clientId: null };
+}
+
+// ─── Publishing ──────────────────────────────────────
+
+export function publishSparkEvent(sparkId: string, change: SparkChange, actor: SparkEventActor | null = null): void {
+  if (!hasSubscribers(sparkId)) return;
+  const event: SparkEvent = { ...change, sparkId, actor, at: new Date().toISOString() };
+  sparkEmitter.emit(sparkId, event);
+}
+
+/**
+ * Publish created or updated items by id. The rows are read back once here
+ * (only when someone is listening) so every write path can just pass ids.
+ * Never throws — a missed event only means a page shows the change on reload.
+ */
+export async function publishItemChanges(
+  sparkId: string,
+  kind: 'created' | 'updated',
+  itemIds: string[],
+  actor: SparkEventActor | null = null
+): Promise<void> {
+  if (itemIds.length === 0 || !hasSubscribers(sparkId)) return;
+
+  const { data, error } = await supabaseAdmin
+    .from('spark_items')
+    .select(ITEM_COLUMNS)
+    .eq('spark_id', sparkId)
+    .in('id', itemIds);
+
+  if (error) {
+    console.error('[spark-events] Failed to load changed items:', error.message);
+    return;
+  }
+  if (!data?.length) return;
+
+  publishSparkEvent(sparkId, { type: `items.${kind}`, items: data as SparkItem[] }, actor);
+}
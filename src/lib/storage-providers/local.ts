@@ -0,0 +1,50 @@
+/**
+ * Local-disk storage for development. Files live under UPLOADS_DIR
+ * (default `.uploads/` in the project root) and are served back by
+ * GET /api/uploads/[...path] to members of the Spark in the path.
+ */
+
+import { mkdir, readFile, rm, writeFile } from 'fs/promises';
+import { dirname, resolve, sep } from 'path';
+import type { StorageProvider } from './types';
+
+export function createLocalStorage(root: string = '.uploads'): StorageProvider {
+  const base = resolve(root);
+  const appUrl = process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000';
+
+  /** Resolve a storage path, refusing anything that escapes the root */
+  function fullPath(path: string): string {
+    const full = resolve(base, path);
+    if (full !== base && !full.startsWith(base + sep)) {
+      throw new Error(`Invalid storage path: ${path}`);
+    }
+    return full;
+  }
+
+  return {
+    name: 'local',
+
+    async put(path, data) {
+      const full = fullPath(path);
+      await mkdir(dirname(full), { recursive: true });
+      await writeFile(full, data);
+    },
+
+    async get(path) {
+      try {
+        return new Uint8Array(await readFile(fullPath(path)));
+      } catch {
+        return null;
+      }
+    },
+
+    async removePrefix(prefix) {
+      await rm(fullPath(prefix), { recursive: true, force: true });
+    },
+
+    publicUrl(path) {
+      return `${appUrl}/api/uploads/${path.split('/').map(encodeURIComponent).join('/')}`;
+    },
+  };
+}
+
@@ -0,0 +1,59 @@
+/**
+ * Supabase Storage. Uses a public bucket (created by migration 022) so
+ * stored URLs work for the browser, the embedding provider and Claude alike.
+ */
+
+import { supabaseAdmin } from '../supabase/admin';
+import type { StorageProvider } from './types';
+
+const DEFAULT_BUCKET = 'spark-uploads';
+// Storage list and remove calls handle at most this many objects each
+const PAGE_SIZE = 1000;
+
+export function createSupabaseStorage(bucket: string = DEFAULT_BUCKET): StorageProvider {
+  const storage = () => supabaseAdmin.storage.from(bucket);
+
+  /** Every object path under a prefix — folders are listed recursively */
+  async function listAll(prefix: string): Promise<string[]> {
+    const paths: string[] = [];
+    for (let offset = 0; ; offset += PAGE_SIZE) {
+      const { data, error } = await storage().list(prefix, { limit: PAGE_SIZE, offset });
+      if (error) throw new Error(`Failed to list ${prefix}: ${error.message}`);
+
+      for (const entry of data ?? []) {
+        const path = `${prefix}/${entry.name}`;
+        // Folders come back without an id
+        if (entry.id === null) paths.push(...(await listAll(path)));
+        else paths.push(path);
+      }
+      if (!data || data.length < PAGE_SIZE) return paths;
+    }
+  }
+
+  return {
+    name: 'supabase',
+
+    async put(path, data, contentType) {
+      const { error } = await storage().upload(path, data, { contentType, upsert: true });
+      if (error) throw new Error(`Upload to storage failed: ${error.message}`);
+    },
+
+    async get(path) {
+      const { data, error } = await storage().download(path);
+      if (error || !data) return null;
+      return new Uint8Array(await data.arrayBuffer());
+    },
+
+    async removePrefix(prefix) {
+      const paths = await listAll(prefix.replace(/\/$/, ''));
+      for (let i = 0; i < paths.length; i += PAGE_SIZE) {
+        const { error } = await storage().remove(paths.slice(i, i + PAGE_SIZE));
+        if (error) throw new Error(`Failed to delete ${prefix}: ${error.message}`);
+      }
+    },
+
+    publicUrl(path) {
+      return storage().getPublicUrl(path).data.publicUrl;
+    },
+  };
+}
@@ -0,0 +1,20 @@
+/**
+ * File storage contract for Spark uploads.
+ *
+ * Objects are addressed by a path under the Spark (`{spark_id}/{item_id}/…`)
+ * and are readable by anyone holding their URL — the item id makes paths
+ * unguessable, the same trade-off as any public-bucket CDN link. Public
+ * URLs matter because embedding, vision and chat consumers fetch images
+ * by URL from outside the browser session.
+ */
+
+export interface StorageProvider {
+  readonly name: 'supabase' | 'local';
+  put(path: string, data: Uint8Array, contentType: string): Promise<void>;
+  /** Object bytes, or null if there is no such object */
+  get(path: string): Promise<Uint8Array | null>;
+  /** Delete every object under a path prefix, e.g. one item's or one Spark's files */
+  removePrefix(prefix: string): Promise<void>;
+  /** Absolute URL the object can be fetched from */
+  publicUrl(path: string): string;
+}
@@ -0,0 +1,138 @@
+/**
+ * Structured output via forced tool use.
+ *
+ * The model is given a single tool whose input_schema describes the shape
+ * we want and is forced to call it (tool_choice), the same way
+ * scoring/analyze gets its analysis. The tool input is then checked with a
+ * caller-supplied validator; on failure the errors go back to the model as
+ * an is_error tool_result and it is asked to call the tool again.
+ *
+ * The call is streamed so callers can show the tool input as it is being
+ * written (onPartial) and abort a run midway (signal).
+ */
+
+import Anthropic from '@anthropic-ai/sdk';
+import { addLogEntry } from './activity-logger';
+
+const anthropic = new Anthropic();
+
+const MODEL = 'claude-sonnet-4-6';
+const DEFAULT_MAX_REPAIRS = 2;
+
+export type Validation<T> = { ok: true; value: T } | { ok: false; errors: string[] };
+
+/** Optional progress hooks + cancellation for long generations. */
+export interface GenerationProgress {
+  onStatus?: (message: string) => void;
+  /** Best-effort parse of the tool input so far */
+  onPartial?: (snapshot: unknown) => void;
+  signal?: AbortSignal;
+}
+
+export class StructuredOutputError extends Error {
+  constructor(message: string, public errors: string[]) {
+    super(message);
+    this.name = 'StructuredOutputError';
+  }
+}
+
+export async function generateStructured<T>(options: {
+  /** Short label for the activity log, e.g. 'generate/campaign_brief' */
+  label: string;
+  system: string;
+  prompt: string;
+  tool: Anthropic.Tool;
+  validate: (input: unknown) => Validation<T>;
+  maxRepairs?: number;
+  maxTokens?: number;
+  progress?: GenerationProgress;
+}): Promise<{ value: T; attempts: number }> {
+  const { label, system, tool, validate, progress } = options;
+  const maxRepairs = options.maxRepairs ?? DEFAULT_MAX_REPAIRS;
+  const messages: Anthropic.MessageParam[] = [{ role: 'user', content: options.prompt }];
+  let lastErrors: string[] = [];
+
+  for (let attempt = 1; attempt <= maxRepairs + 1; attempt++) {
+    const start = Date.now();
+    addLogEntry({
+      service: 'anthropic',
+      direction: 'request',
+      level: 'info',
+      summary: `${label} — attempt ${attempt}`,
+      requestBody: { model: MODEL, tool: tool.name },
+    });
+
+    progress?.onStatus?.(
+      attempt === 1 ? 'Writing...' : `Fixing ${lastErrors.length} validation error${lastErrors.length === 1 ? '' : 's'}...`
+    );
+    const stream = anthropic.messages.stream(
+      {
+        model: MODEL,
+        max_tokens: options.maxTokens ?? 8192,
+        system,
+        tools: [tool],
+        tool_choice: { type: 'tool', name: tool.name },
+        messages,
+      },
+      { signal: progress?.signal }
+    );
+    if (progress?.onPartial) {
+      stream.on('inputJson', (_delta, snapshot) => progress.onPartial!(snapshot));
+    }
+    const response = await stream.finalMessage();
+
+    addLogEntry({
+      service: 'anthropic',
+      direction: 'response',
+      level: 'info',
+      summary: `${label} — done (in:${response.usage.input_tokens} out:${response.usage.output_tokens})`,
+      duration: Date.now() - start,
+      responseBody: {
+        input_tokens: response.usage.input_tokens,
+        output_tokens: response.usage.output_tokens,
+        stop_reason: response.stop_reason,
+      },
+    });
+
+    const toolBlock = response.content.find(
+      (b): b is Anthropic.ToolUseBlock => b.type === 'tool_use'
+    );
+    if (!toolBlock) {
+      throw new StructuredOutputError(`${label}: the model did not call ${tool.name}`, []);
+    }
+
+    progress?.onStatus?.('Validating...');
+    const result = validate(toolBlock.input);
+    if (result.ok) return { value: result.value, attempts: attempt };
+
+    lastErrors = result.errors;
+    addLogEntry({
+      service: 'anthropic',
+      direction: 'event',
+      level: 'error',
+      summary: `${label} — invalid output (${lastErrors.length} errors), ${attempt <= maxRepairs ? 'retrying' : 'giving up'}`,
+      error: lastErrors.join('\n'),
+    });
+
+    // Hand the errors back and ask for a corrected call
+    messages.push(
+      { role: 'assistant', content: response.content },
+      {
+        role: 'user',
+        content: [
+          {
+            type: 'tool_result',
+            tool_use_id: toolBlock.id,
+            is_error: true,
+            content: `The input did not match the required schema:\n${lastErrors.map((e) => `- ${e}`).join('\n')}\n\nCall ${tool.name} again with a corrected, complete input.`,
+          },
+        ],
+      }
+    );
+  }
+
+  throw new StructuredOutputError(
+    `${label}: output still invalid after ${maxRepairs} repair attempts`,
+    lastErrors
+  );
+}
@@ -7,15 +7,49 @@ export type ItemType = 'link' | 'image' | 'text' | 'file' | 'note' | 'google_dri
 export type ChatRole = 'user' | 'assistant' | 'system';
 export type ArtifactType = 'cms_entry' | 'campaign_brief' | 'custom';
 export type ArtifactStatus = 'draft' | 'published' | 'archived';
+export type ArtifactVersionSource = 'generate' | 'edit' | 'regenerate_section' | 'restore';
+export type DocumentVersionSource = 'auto' | 'manual' | 'restore';
+export type GenerationJobStatus = 'running' | 'completed' | 'failed' | 'cancelled';
+export type SparkRole = 'viewer' | 'editor' | 'owner';
+export type SparkMemberStatus = 'pending' | 'accepted';
+
+export interface User {
+  id: string;
+  email: string;
+  cs_user_uid: string | null;
+  display_name: string | null;
+  organization_uid: string | null;
+  created_at: string;
+  updated_at: string;
+}
 
 export interface Spark {
   id: string;
   name: string;
   description: string | null;
   status: SparkStatus;
+  owner_id: string | null;
   metadata: Record<string, unknown>;
   created_at: string;
   updated_at: string;
+  /** The current user's role — attached by the API, not stored on the row */
+  role?: SparkRole;
+  /** Set when the current user has been invited but has not accepted yet */
+  membership_status?: SparkMemberStatus;
+}
+
+export interface SparkMember {
+  id: string;
+  spark_id: string;
+  user_id: string | null;
+  invited_email: string;
+  role: SparkRole;
+  status: SparkMemberStatus;
+  invited_by: string | null;
+  accepted_at: string | null;
+  created_at: string;
+  updated_at: string;
+  display_name?: string | null;
 }
 
 export interface SparkItem {
@@ -31,6 +65,41 @@ export interface SparkItem {
   updated_at: string;
 }
 
+/** An overlapping passage of a long item, embedded for retrieval */
+export interface SparkItemChunk {
+  id: string;
+  item_id: string;
+  spark_id: string;
+  chunk_index: number;
+  content: string;
+  start_offset: number;
+  /** Where the passage sits in its source document, e.g. "p. 12" or "slide 3" */
+  anchor: string | null;
+  embedding?: number[] | null;
+  created_at: string;
+}
+
+export type DocumentFormat = 'pdf' | 'docx' | 'pptx' | 'text';
+
+/** A page, slide or heading of an extracted document, by character offset into the item content */
+export interface DocumentSection {
+  kind: 'page' | 'slide' | 'heading';
+  /** 1-based page or slide number; heading ordinal for DOCX */
+  number: number;
+  title?: string;
+  start: number;
+}
+
+/** Stored on spark_items.metadata.document once a file's text has been extracted */
+export interface ItemDocumentInfo {
+  format: DocumentFormat;
+  /** Pages (PDF) or slides (PPTX); null for formats without fixed pages */
+  page_count: number | null;
+  sections: DocumentSection[];
+  /** Text was cut at the extraction size limit */
+  truncated: boolean;
+}
+
 export interface SparkItemMetadata {
   url?: string;
   image_url?: string;
@@ -54,6 +123,11 @@ export interface SparkItemMetadata {
   drive_modified_time?: string;
   drive_export_status?: 'pending' | 'success' | 'failed';
   drive_exported_at?: string;
+  /** Set when the file is kept up to date by a watched folder */
+  drive_folder_sync_id?: string;
+  drive_synced_at?: string;
+  /** Set when the file was trashed, deleted or moved out of its watched folder */
+  drive_deleted_at?: string;
   // Slack fields
   slack_channel_id?: string;
   slack_channel_name?: string;
@@ -61,6 +135,11 @@ export interface SparkItemMetadata {
   slack_message_count?: number;
   slack_permalink?: string;
   slack_sender_name?: string;
+  /** Set on copies of a thread saved before threads were unique: the id of the item kept as the thread */
+  slack_duplicate_of?: string;
+  /** Set when the thread is kept up to date by a channel sync */
+  slack_sync_id?: string;
+  slack_synced_at?: string;
   // Contentstack fields
   cs_stack_api_key?: string;
   cs_stack_name?: string;
@@ -79,6 +158,11 @@ export interface SparkItemMetadata {
   clarity_dimensions?: string;
   clarity_num_days?: number;
   clarity_imported_at?: string;
+  // Extracted document fields (PDF, DOCX, PPTX)
+  document?: ItemDocumentInfo;
+  document_extract_status?: 'success' | 'failed' | 'unsupported';
+  document_extract_error?: string;
+  document_extracted_at?: string;
   [key: string]: unknown;
 }
 
@@ -86,17 +170,33 @@ export interface ChatMessage {
   id: string;
   spark_id: string;
   session_id: string | null;
+  /** The message this one follows; null for the first message of a branch */
+  parent_message_id: string | null;
   role: ChatRole;
   content: string;
   metadata: Record<string, unknown>;
   created_at: string;
 }
 
+/** A message on a session's active branch, with its alternatives at the same point */
+export interface ChatBranchMessage {
+  id: string;
+  parent_message_id: string | null;
+  role: ChatRole;
+  content: string;
+  created_at: string;
+  /** Ids of this message and its siblings (edits or regenerations), oldest first */
+  sibling_ids: string[];
+}
+
 export interface ChatSession {
   id: string;
   spark_id: string;
   title: string;
+  /** User messages on the active branch, used for the session embedding */
   user_messages: string[];
+  /** Leaf of the branch currently shown */
+  active_message_id: string | null;
   metadata: Record<string, unknown>;
   created_at: string;
   updated_at: string;
@@ -112,8 +212,157 @@ export interface GeneratedArtifact {
   content: CmsEntryContent | CampaignBriefContent | Record<string, unknown>;
   status: ArtifactStatus;
   metadata: Record<string, unknown>;
+  current_version: number;
+  /** Set for artifacts generated from a user-defined template (type 'custom') */
+  template_id: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+/** Stored on generated_artifacts.metadata.contentstack after publishing a cms_entry */
+export interface ArtifactContentstackLink {
+  stack_api_key: string;
+  stack_name: string | null;
+  content_type_uid: string;
+  locale: string;
+  entry_uid: string;
+  entry_url: string;
+  /** The entry's own URL field, if the content type has one */
+  url: string | null;
+  version: number | null;
+  /** Artifact version that was last pushed */
+  artifact_version: number;
+  environments: string[];
+  synced_at: string;
+  published_at: string | null;
+}
+
+export interface ArtifactVersion {
+  id: string;
+  artifact_id: string;
+  version_number: number;
+  title: string;
+  content: GeneratedArtifact['content'];
+  source: ArtifactVersionSource;
+  field: string | null;
+  restored_from: number | null;
+  created_by: string | null;
+  created_at: string;
+}
+
+/** A snapshot of a Spark's editor document (TipTap JSON) */
+export interface DocumentVersion {
+  id: string;
+  spark_id: string;
+  version_number: number;
+  name: string | null;
+  content: Record<string, unknown>;
+  source: DocumentVersionSource;
+  restored_from: number | null;
+  created_by: string | null;
+  created_at: string;
+}
+
+/** The /api/generate body a job was started with */
+export interface GenerationRequest {
+  type: ArtifactType;
+  template_id?: string;
+  stack_api_key?: string;
+  stack_name?: string;
+  content_type_uid?: string;
+  instructions?: string;
+}
+
+export interface GenerationJob {
+  id: string;
+  spark_id: string;
+  request: GenerationRequest;
+  status: GenerationJobStatus;
+  progress: string | null;
+  artifact_id: string | null;
+  error: string | null;
+  error_details: string[] | null;
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+  finished_at: string | null;
+}
+
+// ============================================
+// Artifact templates
+// ============================================
+
+export type TemplateLayoutFormat = 'heading' | 'text' | 'markdown' | 'list' | 'quote';
+
+/** One rendered section of a templated artifact, in display order */
+export interface TemplateLayoutSection {
+  /** Dotted path into the artifact content, e.g. 'headline' or 'contact.email' */
+  field: string;
+  label?: string;
+  format: TemplateLayoutFormat;
+}
+
+export interface ArtifactTemplate {
+  id: string;
+  /** Contentstack organization uid; null = personal template of created_by */
+  workspace_uid: string | null;
+  name: string;
+  description: string | null;
+  prompt: string;
+  /** JSON Schema (type: object) the generated content must match */
+  output_schema: Record<string, unknown>;
+  layout: TemplateLayoutSection[];
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+/** Stored on generated_artifacts.metadata.template for templated artifacts */
+export type ArtifactTemplateSnapshot = Pick<ArtifactTemplate, 'id' | 'name' | 'output_schema' | 'layout'>;
+
+// ============================================
+// Background jobs
+// ============================================
+
+export type JobStatus = 'queued' | 'running' | 'succeeded' | 'failed' | 'cancelled';
+export type JobKind =
+  | 'embed_items'
+  | 'contentstack_import_delivery'
+  | 'contentstack_import_assets'
+  | 'contentstack_import_entries'
+  | 'clarity_import'
+  | 'slack_task'
+  | 'slack_channel_backfill'
+  | 'slack_digest'
+  | 'drive_folder_sync';
+
+export interface JobProgress {
+  message: string;
+  current?: number;
+  total?: number;
+  /** Finished steps, e.g. one line per imported content type */
+  log?: string[];
+}
+
+export interface Job {
+  id: string;
+  kind: JobKind;
+  spark_id: string | null;
+  payload: Record<string, unknown>;
+  status: JobStatus;
+  attempts: number;
+  max_attempts: number;
+  run_at: string;
+  locked_at: string | null;
+  locked_by: string | null;
+  dedupe_key: string | null;
+  progress: JobProgress | null;
+  result: Record<string, unknown> | null;
+  last_error: string | null;
+  created_by: string | null;
   created_at: string;
   updated_at: string;
+  finished_at: string | null;
 }
 
 // ============================================
@@ -175,12 +424,26 @@ export interface WebResearchItem {
 // Vector visualization types
 // ============================================
 
+/** Why hybrid retrieval picked an item — each signal's contribution */
+export interface RetrievalScores {
+  /** Cosine similarity of the best-matching chunk (null if only full-text matched) */
+  semantic: number | null;
+  semantic_rank: number | null;
+  full_text_rank: number | null;
+  /** Reciprocal-rank fusion of the two ranks */
+  fusion: number;
+  /** Reranker relevance (0–1), when a reranker ran */
+  rerank: number | null;
+  reranker: string | null;
+}
+
 export interface VectorContextItem {
   id: string;
   type: ItemType | 'web_research';
   title: string;
   similarity: number;
   summary: string | null;
+  scores?: RetrievalScores;
 }
 
 // ============================================
@@ -189,10 +452,13 @@ export interface VectorContextItem {
 
 export interface ThreadComment {
   id: string;
-  authorId: string;
+  /** Null for comments whose author was removed, or that predate user accounts */
+  authorId: string | null;
   authorName: string;
   content: string; // plain text with @Name mentions
   createdAt: string;
+  /** Row version — send it back with edits so concurrent changes conflict instead of overwriting */
+  version: number;
 }
 
 export interface CommentThread {
@@ -201,6 +467,99 @@ export interface CommentThread {
   resolved: boolean;
   createdAt: string;
   comments: ThreadComment[]; // first = original, rest = replies
+  version: number;
+}
+
+// ============================================
+// Notifications
+// ============================================
+
+export type NotificationSource = 'document' | 'comment';
+
+/** A Spark member who can be @mentioned (GET /api/sparks/[id]/mentions) */
+export interface MentionMember {
+  user_id: string;
+  label: string;
+}
+
+export interface Notification {
+  id: string;
+  user_id: string;
+  spark_id: string;
+  /** Joined from sparks for the inbox */
+  spark_name?: string | null;
+  kind: 'mention';
+  actor_id: string | null;
+  actor_name: string;
+  source: NotificationSource;
+  thread_id: string | null;
+  excerpt: string;
+  read_at: string | null;
+  created_at: string;
+}
+
+// ============================================
+// Slack channel sync
+// ============================================
+
+export type SlackBackfillStatus = 'pending' | 'running' | 'done' | 'failed';
+
+/** A Slack channel bound to a Spark; its messages are added as they arrive */
+export interface SlackChannelSync {
+  id: string;
+  spark_id: string;
+  channel_id: string;
+  channel_name: string;
+  sync_from: string;
+  backfill_status: SlackBackfillStatus;
+  backfill_error: string | null;
+  backfilled_at: string | null;
+  last_synced_at: string | null;
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export type DigestFrequency = 'daily' | 'weekly';
+
+/** A scheduled Slack digest of a Spark's activity */
+export interface SlackDigest {
+  id: string;
+  spark_id: string;
+  channel_id: string;
+  channel_name: string;
+  frequency: DigestFrequency;
+  /** Hour of the day (UTC) the digest is sent */
+  hour_utc: number;
+  /** Day of the week for weekly digests, 0 = Sunday */
+  weekday: number;
+  enabled: boolean;
+  next_run_at: string;
+  last_sent_at: string | null;
+  last_error: string | null;
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+// ============================================
+// Google Drive folder sync
+// ============================================
+
+export type DriveFolderSyncStatus = 'pending' | 'syncing' | 'idle' | 'failed';
+
+/** A Drive folder watched by a Spark; its files are kept as items */
+export interface DriveFolderSync {
+  id: string;
+  spark_id: string;
+  folder_id: string;
+  folder_name: string;
+  status: DriveFolderSyncStatus;
+  last_error: string | null;
+  last_synced_at: string | null;
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
 }
 
 // ============================================
@@ -211,6 +570,8 @@ export interface CanvasNodePosition {
   itemId: string;
   x: number;
   y: number;
+  /** Row version; absent for positions the layout added that aren't saved yet */
+  version?: number;
 }
 
 export interface CanvasGroup {
@@ -219,9 +580,10 @@ export interface CanvasGroup {
   itemIds: string[];
   color: string;
   createdAt: string;
-  embedding?: number[] | null;
   /** Chat session ID for the canonical group conversation */
   sessionId?: string | null;
+  /** Row version; absent until the group is saved */
+  version?: number;
 }
 
 export interface CanvasState {
@@ -251,6 +613,10 @@ export interface ChatRequest {
   message: string;
   session_id?: string;
   skip_persist?: boolean;
+  /** Resend `message` as an edit of this user message (a new sibling branch) */
+  edit_message_id?: string;
+  /** Answer again in place of this assistant message (a new sibling branch) */
+  regenerate_message_id?: string;
 }
 
 export interface GenerateRequest {
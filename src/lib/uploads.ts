@@ -0,0 +1,299 @@
+/**
+ * Direct file uploads into a Spark.
+ *
+ * An upload is size-checked, its type sniffed from the bytes (the browser's
+ * claimed MIME type is only a hint), stored under the Spark with a
+ * thumbnail, text-extracted when it is a document, and saved as an `image`
+ * or `file` item whose embedding is queued as a background job.
+ *
+ * Storage is pluggable: Supabase Storage by default, or local disk
+ * (FILE_STORAGE=local) for development.
+ */
+
+import { randomUUID } from 'crypto';
+import sharp from 'sharp';
+import { unzipSync } from 'fflate';
+import { supabaseAdmin } from './supabase/admin';
+import { extractDocument, toItemDocumentInfo, type ExtractedDocument } from './document-extraction';
+import { enqueueItemEmbedding } from './jobs/queue';
+import { createSupabaseStorage } from './storage-providers/supabase';
+import { createLocalStorage } from './storage-providers/local';
+import type { StorageProvider } from './storage-providers/types';
+import type { SparkItem } from './types';
+
+/** Largest accepted upload (UPLOAD_MAX_BYTES, default 25 MB) */
+export const MAX_UPLOAD_BYTES = Number(process.env.UPLOAD_MAX_BYTES) || 25 * 1024 * 1024;
+
+const THUMBNAIL_SIZE = 480;
+
+/** Accepted upload types, by sniffed MIME type */
+export const UPLOAD_TYPES: Record<string, { extension: string; itemType: 'image' | 'file' }> = {
+  'image/png': { extension: 'png', itemType: 'image' },
+  'image/jpeg': { extension: 'jpg', itemType: 'image' },
+  'image/gif': { extension: 'gif', itemType: 'image' },
+  'image/webp': { extension: 'webp', itemType: 'image' },
+  'image/svg+xml': { extension: 'svg', itemType: 'image' },
+  'application/pdf': { extension: 'pdf', itemType: 'file' },
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document': { extension: 'docx', itemType: 'file' },
+  'application/vnd.openxmlformats-officedocument.presentationml.presentation': { extension: 'pptx', itemType: 'file' },
+  'text/plain': { extension: 'txt', itemType: 'file' },
+  'text/markdown': { extension: 'md', itemType: 'file' },
+  'text/csv': { extension: 'csv', itemType: 'file' },
+};
+
+/** An upload rejected for a reason the caller should see, with its HTTP status */
+export class UploadError extends Error {
+  constructor(message: string, readonly status: number) {
+    super(message);
+    this.name = 'UploadError';
+  }
+}
+
+let cachedStorage: StorageProvider | null = null;
+
+/** The configured storage provider (resolved once per process). */
+export function getStorageProvider(): StorageProvider {
+  if (cachedStorage) return cachedStorage;
+
+  cachedStorage = process.env.FILE_STORAGE?.toLowerCase() === 'local'
+    ? createLocalStorage(process.env.UPLOADS_DIR)
+    : createSupabaseStorage(process.env.UPLOADS_BUCKET);
+
+  return cachedStorage;
+}
+
+// ─── MIME sniffing ──────────────────────────────
+
+function startsWith(bytes: Uint8Array, signature: number[], offset = 0): boolean {
+  return signature.every((byte, i) => bytes[offset + i] === byte);
+}
+
+const ascii = (text: string) => Array.from(text, (c) => c.charCodeAt(0));
+
+/** Office Open XML flavour of a ZIP, from the part names inside it */
+function sniffOfficeZip(bytes: Uint8Array): string | null {
+  const names: string[] = [];
+  try {
+    unzipSync(bytes, {
+      filter: (file) => {
+        names.push(file.name);
+        return false;
+      },
+    });
+  } catch {
+    return null;
+  }
+  if (names.some((name) => name.startsWith('word/'))) return 'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
+  if (names.some((name) => name.startsWith('ppt/'))) return 'application/vnd.openxmlformats-officedocument.presentationml.presentation';
+  return null;
+}
+
+/**
+ * Detect a file's type from its content. The claimed type and file name
+ * only pick between text flavours (plain, Markdown, CSV). Returns null for
+ * anything we don't accept.
+ */
+export function sniffMimeType(bytes: Uint8Array, claimedType?: string | null, filename?: string | null): string | null {
+  if (startsWith(bytes, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) return 'image/png';
+  if (startsWith(bytes, [0xff, 0xd8, 0xff])) return 'image/jpeg';
+  if (startsWith(bytes, ascii('GIF87a')) || startsWith(bytes, ascii('GIF89a'))) return 'image/gif';
+  if (startsWith(bytes, ascii('RIFF')) && startsWith(bytes, ascii('WEBP'), 8)) return 'image/webp';
+  if (startsWith(bytes, ascii('%PDF-'))) return 'application/pdf';
+  if (startsWith(bytes, [0x50, 0x4b, 0x03, 0x04])) return sniffOfficeZip(bytes);
+
+  // Anything else must be UTF-8 text without NUL bytes
+  // (stream mode, so a character cut at the end of the sample isn't an error)
+  let text: string;
+  try {
+    text = new TextDecoder('utf-8', { fatal: true }).decode(bytes.subarray(0, 64 * 1024), { stream: true });
+  } catch {
+    return null;
+  }
+  if (text.includes('\u0000')) return null;
+
+  const head = text.trimStart().slice(0, 1024).toLowerCase();
+  if (head.startsWith('<svg') || (head.startsWith('<?xml') && head.includes('<svg'))) return 'image/svg+xml';
+
+  const extension = filename?.split('.').pop()?.toLowerCase();
+  if (claimedType === 'text/markdown' || extension === 'md' || extension === 'markdown') return 'text/markdown';
+  if (claimedType === 'text/csv' || extension === 'csv') return 'text/csv';
+  return 'text/plain';
+}
+
+// ─── Thumbnails ─────────────────────────────────
+
+function escapeXml(text: string): string {
+  return text.replace(/[<>&"']/g, (c) => `&#${c.charCodeAt(0)};`);
+}
+
+/** A page-shaped preview of a document's first lines, as SVG */
+function documentPreviewSvg(label: string, text: string): string {
+  const lines = text
+    .split('\n')
+    .map((line) => line.trim())
+    .filter(Boolean)
+    .slice(0, 14)
+    .map((line) => (line.length > 42 ? `${line.slice(0, 41)}…` : line));
+
+  const rows = lines
+    .map((line, i) => `<text x="28" y="${84 + i * 22}" font-size="15" fill="#475569">${escapeXml(line)}</text>`)
+    .join('');
+
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="360" height="${THUMBNAIL_SIZE}" viewBox="0 0 360 ${THUMBNAIL_SIZE}">
+    <rect width="360" height="${THUMBNAIL_SIZE}" fill="#ffffff"/>
+    <rect x="0.5" y="0.5" width="359" height="${THUMBNAIL_SIZE - 1}" fill="none" stroke="#e2e8f0"/>
+    <rect x="28" y="28" width="${12 + label.length * 11}" height="26" rx="4" fill="#6c5ce7"/>
+    <text x="34" y="47" font-size="15" font-weight="bold" fill="#ffffff" font-family="sans-serif">${escapeXml(label)}</text>
+    <g font-family="sans-serif">${rows}</g>
+  </svg>`;
+}
+
+/** WebP thumbnail: a downscaled image, or a text preview for documents */
+async function createThumbnail(
+  bytes: Uint8Array,
+  mimeType: string,
+  doc: ExtractedDocument | null
+): Promise<Buffer | null> {
+  try {
+    if (mimeType.startsWith('image/')) {
+      return await sharp(bytes, { animated: false })
+        .rotate()
+        .resize(THUMBNAIL_SIZE, THUMBNAIL_SIZE, { fit: 'inside', withoutEnlargement: true })
+        .webp({ quality: 80 })
+        .toBuffer();
+    }
+    const label = UPLOAD_TYPES[mimeType]?.extension.toUpperCase() ?? 'FILE';
+    return await sharp(Buffer.from(documentPreviewSvg(label, doc?.text ?? ''))).webp({ quality: 80 }).toBuffer();
+  } catch (err) {
+    console.error('[uploads] Thumbnail failed:', err);
+    return null;
+  }
+}
+
+// ─── Upload pipeline ────────────────────────────
+
+/** File name safe for a storage path, with the extension of its real type */
+function storageFileName(filename: string, extension: string): string {
+  const stem = filename.replace(/\.[^.]*$/, '').normalize('NFKD').replace(/[^\w.-]+/g, '-').replace(/^-+|-+$/g, '');
+  return `${stem.slice(0, 80) || 'file'}.${extension}`;
+}
+
+/**
+ * Store an uploaded file under a Spark and create its item. Throws
+ * UploadError for files that are too large or of an unsupported type.
+ */
+export async function uploadToSpark(params: {
+  sparkId: string;
+  file: File;
+  title?: string | null;
+  tags?: string[];
+  uploadedBy: string;
+}): Promise<SparkItem> {
+  const { sparkId, file } = params;
+
+  if (file.size === 0) throw new UploadError('File is empty', 400);
+  if (file.size > MAX_UPLOAD_BYTES) {
+    throw new UploadError(`File is larger than the ${Math.round(MAX_UPLOAD_BYTES / 1024 / 1024)} MB limit`, 413);
+  }
+
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  const mimeType = sniffMimeType(bytes, file.type, file.name);
+  const uploadType = mimeType ? UPLOAD_TYPES[mimeType] : undefined;
+  if (!mimeType || !uploadType) {
+    throw new UploadError(`Unsupported file type${file.type ? ` (${file.type})` : ''}`, 415);
+  }
+
+  // Documents are extracted now, while the bytes are in hand
+  let doc: ExtractedDocument | null = null;
+  let extractError: string | null = null;
+  if (uploadType.itemType === 'file') {
+    try {
+      doc = await extractDocument(bytes, mimeType, file.name);
+    } catch (err) {
+      console.error('[uploads] Document extraction failed:', err);
+      extractError = err instanceof Error ? err.message : 'Extraction failed';
+    }
+  }
+
+  const storage = getStorageProvider();
+  const itemId = randomUUID();
+  const prefix = `${sparkId}/${itemId}`;
+  const path = `${prefix}/${storageFileName(file.name, uploadType.extension)}`;
+
+  await storage.put(path, bytes, mimeType);
+
+  const thumbnail = await createThumbnail(bytes, mimeType, doc);
+  const thumbnailPath = `${prefix}/thumbnail.webp`;
+  if (thumbnail) await storage.put(thumbnailPath, new Uint8Array(thumbnail), 'image/webp');
+
+  const fileUrl = storage.publicUrl(path);
+  const now = new Date().toISOString();
+  const metadata: Record<string, unknown> = {
+    file_url: fileUrl,
+    file_type: mimeType,
+    file_name: file.name,
+    file_size: file.size,
+    storage_provider: storage.name,
+    storage_path: path,
+    uploaded_by: params.uploadedBy,
+    uploaded_at: now,
+    ...(thumbnail && { thumbnail_url: storage.publicUrl(thumbnailPath) }),
+    ...(uploadType.itemType === 'image' && { image_url: fileUrl }),
+    ...(params.tags && params.tags.length > 0 && { tags: params.tags }),
+    ...(doc && {
+      document: toItemDocumentInfo(doc),
+      document_extract_status: 'success',
+      document_extracted_at: now,
+    }),
+    ...(extractError && { document_extract_status: 'failed', document_extract_error: extractError }),
+  };
+
+  const { data, error } = await supabaseAdmin
+    .from('spark_items')
+    .insert({
+      id: itemId,
+      spark_id: sparkId,
+      type: uploadType.itemType,
+      title: params.title?.trim() || file.name.replace(/\.[^.]*$/, '') || file.name,
+      content: doc?.text || null,
+      summary: doc?.text ? doc.text.slice(0, 300) : null,
+      metadata,
+    })
+    .select()
+    .single();
+
+  if (error || !data) {
+    await storage.removePrefix(prefix).catch(() => {});
+    throw new Error(`Failed to create item: ${error?.message ?? 'no row returned'}`);
+  }
+
+  try {
+    await enqueueItemEmbedding(sparkId, [itemId], {
+      createdBy: params.uploadedBy,
+      analyzeImages: uploadType.itemType === 'image',
+    });
+  } catch (err) {
+    console.error('[uploads] Failed to queue embedding:', err);
+  }
+
+  return data as SparkItem;
+}
+
+/** Delete an item's stored files, if it was uploaded. Best effort. */
+export async function deleteItemUploads(item: { spark_id: string; id: string; metadata?: Record<string, unknown> | null }): Promise<void> {
+  if (!item.metadata?.storage_path) return;
+  try {
+    await getStorageProvider().removePrefix(`${item.spark_id}/${item.id}`);
+  } catch (err) {
+    console.error(`[uploads] Failed to delete files for item ${item.id}:`, err);
+  }
+}
+
+/** Delete every file uploaded to a Spark. Best effort. */
+export async function deleteSparkUploads(sparkId: string): Promise<void> {
+  try {
+    await getStorageProvider().removePrefix(sparkId);
+  } catch (err) {
+    console.error(`[uploads] Failed to delete files for spark ${sparkId}:`, err);
+  }
+}
@@ -0,0 +1,62 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import type { SparkEvent } from './spark-event-types';
+
+interface SparkEventHandlers {
+  onChange: (event: SparkEvent) => void;
+  /** Called after a dropped connection is re-established — changes may have been missed */
+  onResync?: () => void;
+}
+
+/**
+ * Subscribe to a Spark's live change feed (GET /api/sparks/[id]/events).
+ * `clientId` identifies this page; events caused by writes it made with
+ * that id in the SPARK_CLIENT_HEADER aren't sent back. Returns the signed-in
+ * user's id once connected.
+ */
+export function useSparkEvents(sparkId: string, clientId: string, handlers: SparkEventHandlers): string | null {
+  const [userId, setUserId] = useState<string | null>(null);
+  const handlersRef = useRef(handlers);
+
+  useEffect(() => {
+    handlersRef.current = handlers;
+  }, [handlers]);
+
+  useEffect(() => {
+    let source: EventSource | null = null;
+    let retryTimer: ReturnType<typeof setTimeout> | null = null;
+    let connectedBefore = false;
+    let closed = false;
+
+    const connect = () => {
+      source = new EventSource(`/api/sparks/${sparkId}/events?client=${encodeURIComponent(clientId)}`);
+
+      source.addEventListener('ready', (e: MessageEvent) => {
+        setUserId(JSON.parse(e.data).userId ?? null);
+        if (connectedBefore) handlersRef.current.onResync?.();
+        connectedBefore = true;
+      });
+
+      source.addEventListener('change', (e: MessageEvent) => {
+        handlersRef.current.onChange(JSON.parse(e.data) as SparkEvent);
+      });
+
+      source.onerror = () => {
+        source?.close();
+        source = null;
+        // Reconnect after 3s on failure
+        if (!closed) retryTimer = setTimeout(connect, 3000);
+      };
+    };
+
+    connect();
+    return () => {
+      closed = true;
+      if (retryTimer) clearTimeout(retryTimer);
+      source?.close();
+    };
+  }, [sparkId, clientId]);
+
+  return userId;
+}
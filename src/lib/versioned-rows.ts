@@ -0,0 +1,71 @@
+/**
+ * Optimistic concurrency for row-level writes.
+ *
+ * Tables with a `version` column (bumped by the bump_row_version trigger)
+ * are only updated while the caller's version still matches. A mismatch
+ * comes back as a conflict carrying the current row, so the client can
+ * adopt the newer state instead of overwriting it.
+ */
+
+import { NextResponse } from 'next/server';
+import { supabaseAdmin } from './supabase/admin';
+
+export type VersionedWrite<T> =
+  | { ok: true; row: T }
+  | { ok: false; reason: 'conflict'; current: T }
+  | { ok: false; reason: 'not_found' }
+  | { ok: false; reason: 'error'; error: string };
+
+/** Read `version` from a request body; null unless it's a positive integer */
+export function parseVersion(value: unknown): number | null {
+  return typeof value === 'number' && Number.isInteger(value) && value > 0 ? value : null;
+}
+
+/**
+ * Update the row matching `match` if it is still at `version`.
+ * `match` should include the owning spark_id so ids can't reach across Sparks.
+ */
+export async function updateVersionedRow<T>(
+  table: string,
+  match: Record<string, string>,
+  version: number,
+  changes: Record<string, unknown>
+): Promise<VersionedWrite<T>> {
+  let update = supabaseAdmin.from(table).update(changes);
+  for (const [column, value] of Object.entries(match)) update = update.eq(column, value);
+  const { data, error } = await update.eq('version', version).select().maybeSingle();
+
+  if (error) return { ok: false, reason: 'error', error: error.message };
+  if (data) return { ok: true, row: data as T };
+
+  // Nothing matched: either someone else got there first, or the row is gone
+  let select = supabaseAdmin.from(table).select('*');
+  for (const [column, value] of Object.entries(match)) select = select.eq(column, value);
+  const { data: current } = await select.maybeSingle();
+
+  return current
+    ? { ok: false, reason: 'conflict', current: current as T }
+    : { ok: false, reason: 'not_found' };
+}
+
+/**
+ * The error response for a failed versioned write: 409 with the current
+ * row (mapped for the client) on conflict, 404 or 500 otherwise.
+ */
+export function versionedWriteError<T, R>(
+  result: Exclude<VersionedWrite<T>, { ok: true }>,
+  noun: string,
+  toClient: (row: T) => R
+): NextResponse {
+  switch (result.reason) {
+    case 'conflict':
+      return NextResponse.json(
+        { error: `This ${noun} was changed by someone else`, current: toClient(result.current) },
+        { status: 409 }
+      );
+    case 'not_found':
+      return NextResponse.json({ error: `${noun[0].toUpperCase()}${noun.slice(1)} not found` }, { status: 404 });
+    case 'error':
+      return NextResponse.json({ error: result.error }, { status: 500 });
+  }
+}
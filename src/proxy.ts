@@ -1,15 +1,13 @@
 import { NextRequest, NextResponse } from 'next/server';
-// import { decryptSessionFromValue } from '@/lib/contentstack/oauth';
+import { decryptSessionFromValue } from '@/lib/contentstack/oauth';
 
-// Auth enforcement disabled — uncomment to require Contentstack login
-export async function proxy(_request: NextRequest) {
-  return NextResponse.next();
-
-  /* --- Re-enable when OAuth flow is ready ---
-  const cookie = _request.cookies.get('spark_cs_session');
+// Page routes require a Contentstack login. API routes are excluded by the
+// matcher and enforce identity + Spark access themselves (see lib/auth.ts).
+export async function proxy(request: NextRequest) {
+  const cookie = request.cookies.get('spark_cs_session');
 
-  const loginUrl = new URL('/login', _request.url);
-  loginUrl.searchParams.set('redirect', _request.nextUrl.pathname);
+  const loginUrl = new URL('/login', request.url);
+  loginUrl.searchParams.set('redirect', request.nextUrl.pathname);
 
   if (!cookie?.value) {
     return NextResponse.redirect(loginUrl);
@@ -23,7 +21,6 @@ export async function proxy(_request: NextRequest) {
   }
 
   return NextResponse.next();
-  */
 }
 
 export const config = {
@@ -0,0 +1,35 @@
+-- ============================================
+-- Users: one row per Contentstack OAuth identity
+-- ============================================
+
+create table public.users (
+  id uuid primary key default gen_random_uuid(),
+  email text not null unique,
+  cs_user_uid text unique,            -- Contentstack user uid from /v3/user
+  display_name text,
+  organization_uid text,
+  metadata jsonb not null default '{}'::jsonb,
+  last_login_at timestamptz,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create trigger users_updated_at
+  before update on public.users
+  for each row execute function update_updated_at();
+
+-- ============================================
+-- Spark ownership
+-- ============================================
+
+alter table public.sparks
+  add column owner_id uuid references public.users(id) on delete set null;
+
+create index idx_sparks_owner_id on public.sparks(owner_id);
+
+-- Existing Sparks have no owner and are hidden from every user until
+-- assigned. Claim them for a user after they have signed in once, e.g.:
+--
+--   update public.sparks
+--   set owner_id = (select id from public.users where email = 'you@example.com')
+--   where owner_id is null;
@@ -0,0 +1,37 @@
+-- ============================================
+-- Spark Members: share a Spark with viewer / editor / owner roles
+-- ============================================
+-- Invites are addressed by email. user_id is filled in when the invitee
+-- accepts (they may not have signed in yet when invited). Emails are
+-- stored lowercased.
+
+create table public.spark_members (
+  id uuid primary key default gen_random_uuid(),
+  spark_id uuid not null references public.sparks(id) on delete cascade,
+  user_id uuid references public.users(id) on delete cascade,
+  invited_email text not null,
+  role text not null check (role in ('viewer', 'editor', 'owner')),
+  status text not null default 'pending' check (status in ('pending', 'accepted')),
+  invited_by uuid references public.users(id) on delete set null,
+  accepted_at timestamptz,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  unique (spark_id, invited_email)
+);
+
+create index idx_spark_members_spark_id on public.spark_members(spark_id);
+create index idx_spark_members_user_id on public.spark_members(user_id) where status = 'accepted';
+create index idx_spark_members_invited_email on public.spark_members(invited_email) where status = 'pending';
+
+create trigger spark_members_updated_at
+  before update on public.spark_members
+  for each row execute function update_updated_at();
+
+-- ============================================
+-- Backfill: every owned Spark gets an accepted owner membership
+-- ============================================
+insert into public.spark_members (spark_id, user_id, invited_email, role, status, accepted_at)
+select s.id, u.id, lower(u.email), 'owner', 'accepted', now()
+from public.sparks s
+join public.users u on u.id = s.owner_id
+on conflict (spark_id, invited_email) do nothing;
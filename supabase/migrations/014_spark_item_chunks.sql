@@ -0,0 +1,115 @@
+-- Ensure pgvector types are visible without schema qualification
+set search_path to public, extensions;
+
+-- ============================================
+-- Spark Item Chunks: overlapping passages of long items, one embedding each
+-- ============================================
+--
+-- spark_items.embedding stays as the whole-item vector (used by the
+-- knowledge graph and canvas groups). Retrieval goes through chunks so a
+-- long page or Drive export can match on the passage that is relevant.
+--
+-- After running this migration, call POST /api/embeddings/generate with
+-- { "force": true } to chunk existing items.
+
+create table public.spark_item_chunks (
+  id uuid primary key default gen_random_uuid(),
+  item_id uuid not null references public.spark_items(id) on delete cascade,
+  spark_id uuid not null references public.sparks(id) on delete cascade,
+  chunk_index int not null,
+  content text not null,
+  start_offset int not null default 0,      -- character offset into the item text
+  embedding extensions.vector(1024),         -- Voyage AI voyage-multimodal-3
+  created_at timestamptz not null default now(),
+  unique (item_id, chunk_index)
+);
+
+-- ============================================
+-- Indexes
+-- ============================================
+
+create index idx_spark_item_chunks_item_id on public.spark_item_chunks(item_id);
+create index idx_spark_item_chunks_spark_id on public.spark_item_chunks(spark_id);
+
+create index idx_spark_item_chunks_embedding
+on public.spark_item_chunks
+using hnsw (embedding extensions.vector_cosine_ops)
+with (m = 16, ef_construction = 64);
+
+-- ============================================
+-- RPC: Chunk-level vector search
+-- ============================================
+-- Returns the best-matching chunk per item along with its parent item.
+-- Items that have no chunks yet (images, or rows created before this
+-- migration) still match on their item-level embedding with null chunk fields.
+
+create or replace function match_spark_item_chunks(
+  p_spark_id uuid,
+  query_embedding extensions.vector(1024),
+  match_threshold float default 0.3,
+  match_count int default 10
+)
+returns table (
+  id uuid,
+  spark_id uuid,
+  type text,
+  title text,
+  content text,
+  summary text,
+  metadata jsonb,
+  chunk_id uuid,
+  chunk_index int,
+  chunk_content text,
+  similarity float
+)
+language sql stable
+set search_path = public, extensions
+as $$
+  with chunk_hits as (
+    select distinct on (c.item_id)
+      c.item_id,
+      c.id as chunk_id,
+      c.chunk_index,
+      c.content as chunk_content,
+      1 - (c.embedding <=> query_embedding) as similarity
+    from public.spark_item_chunks c
+    where c.spark_id = p_spark_id
+      and c.embedding is not null
+      and 1 - (c.embedding <=> query_embedding) > match_threshold
+    order by c.item_id, c.embedding <=> query_embedding
+  ),
+  item_hits as (
+    select
+      si.id as item_id,
+      null::uuid as chunk_id,
+      null::int as chunk_index,
+      null::text as chunk_content,
+      1 - (si.embedding <=> query_embedding) as similarity
+    from public.spark_items si
+    where si.spark_id = p_spark_id
+      and si.embedding is not null
+      and not exists (select 1 from public.spark_item_chunks c where c.item_id = si.id)
+      and 1 - (si.embedding <=> query_embedding) > match_threshold
+  ),
+  hits as (
+    select * from chunk_hits
+    union all
+    select * from item_hits
+  )
+  select
+    si.id,
+    si.spark_id,
+    si.type,
+    si.title,
+    si.content,
+    si.summary,
+    si.metadata,
+    h.chunk_id,
+    h.chunk_index,
+    h.chunk_content,
+    h.similarity
+  from hits h
+  join public.spark_items si on si.id = h.item_id
+  order by h.similarity desc
+  limit match_count;
+$$;
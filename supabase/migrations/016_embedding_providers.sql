@@ -0,0 +1,99 @@
+-- Ensure pgvector types are visible without schema qualification
+set search_path to public, extensions;
+
+-- ============================================
+-- Embedding provenance
+-- ============================================
+--
+-- Embeddings now come from a configurable provider (voyage, openai, local).
+-- Vectors from different providers live in different spaces, so every
+-- stored vector records the provider id that produced it:
+--   spark_items / chat_sessions / web_research_items → metadata.embedding_model
+--   spark_item_chunks → embedding_model column
+
+alter table public.spark_item_chunks
+  add column embedding_model text;
+
+-- Everything embedded so far came from Voyage
+update public.spark_items
+set metadata = metadata || '{"embedding_model": "voyage/voyage-multimodal-3", "embedding_dimensions": 1024}'::jsonb
+where embedding is not null;
+
+update public.chat_sessions
+set metadata = metadata || '{"embedding_model": "voyage/voyage-multimodal-3", "embedding_dimensions": 1024}'::jsonb
+where embedding is not null;
+
+update public.web_research_items
+set metadata = metadata || '{"embedding_model": "voyage/voyage-multimodal-3", "embedding_dimensions": 1024}'::jsonb
+where embedding is not null;
+
+update public.spark_item_chunks
+set embedding_model = 'voyage/voyage-multimodal-3'
+where embedding is not null;
+
+-- ============================================
+-- RPC: Store an embedding and record its model
+-- ============================================
+
+create or replace function set_row_embedding(
+  p_table text,
+  p_id uuid,
+  p_embedding extensions.vector(1024),
+  p_model text,
+  p_dimensions int
+)
+returns void
+language plpgsql
+set search_path = public, extensions
+as $$
+begin
+  if p_table not in ('spark_items', 'chat_sessions', 'web_research_items') then
+    raise exception 'set_row_embedding: unsupported table %', p_table;
+  end if;
+
+  execute format(
+    'update public.%I
+     set embedding = $1,
+         metadata = coalesce(metadata, ''{}''::jsonb)
+           || jsonb_build_object(''embedding_model'', $2::text, ''embedding_dimensions'', $3::int)
+     where id = $4',
+    p_table
+  ) using p_embedding, p_model, p_dimensions, p_id;
+end;
+$$;
+
+-- ============================================
+-- Active embedding model + re-embed jobs
+-- ============================================
+
+-- Single row: the provider whose vectors are currently stored
+create table public.embedding_state (
+  id boolean primary key default true check (id),
+  model text not null,
+  dimensions int not null,
+  updated_at timestamptz not null default now()
+);
+
+insert into public.embedding_state (model, dimensions)
+values ('voyage/voyage-multimodal-3', 1024);
+
+create trigger embedding_state_updated_at
+  before update on public.embedding_state
+  for each row execute function update_updated_at();
+
+-- One row per re-embed run, started when the configured provider changes
+create table public.embedding_migrations (
+  id uuid primary key default gen_random_uuid(),
+  from_model text,
+  to_model text not null,
+  status text not null default 'running' check (status in ('running', 'completed', 'failed')),
+  items_processed int not null default 0,
+  sessions_processed int not null default 0,
+  research_processed int not null default 0,
+  error text,
+  started_at timestamptz not null default now(),
+  completed_at timestamptz
+);
+
+create index idx_embedding_migrations_started_at
+on public.embedding_migrations(started_at desc);
@@ -0,0 +1,36 @@
+-- ============================================
+-- Artifact Versions: full history of every generated artifact
+-- ============================================
+-- Each generate, field edit, section regeneration, and restore appends an
+-- immutable snapshot of the artifact's title + content. The artifact row
+-- itself always holds the latest version; current_version points at it.
+
+create table public.artifact_versions (
+  id uuid primary key default gen_random_uuid(),
+  artifact_id uuid not null references public.generated_artifacts(id) on delete cascade,
+  version_number int not null,
+  title text not null,
+  content jsonb not null default '{}'::jsonb,
+  source text not null check (source in ('generate', 'edit', 'regenerate_section', 'restore')),
+  -- Dotted content path touched by an edit / regenerate_section (e.g. 'fields.body')
+  field text,
+  -- For source = 'restore': the version that was restored
+  restored_from int,
+  created_by uuid references public.users(id) on delete set null,
+  created_at timestamptz not null default now(),
+  unique (artifact_id, version_number)
+);
+
+create index idx_artifact_versions_artifact_id
+on public.artifact_versions(artifact_id, version_number desc);
+
+alter table public.generated_artifacts
+  add column current_version int not null default 1;
+
+-- ============================================
+-- Backfill: existing artifacts become version 1
+-- ============================================
+insert into public.artifact_versions (artifact_id, version_number, title, content, source, created_at)
+select id, 1, title, content, 'generate', created_at
+from public.generated_artifacts
+on conflict (artifact_id, version_number) do nothing;
@@ -0,0 +1,48 @@
+-- ============================================
+-- Artifact Templates: user-defined artifact kinds
+-- ============================================
+-- A template is a generation prompt, a JSON Schema the output must match
+-- (used as the tool input_schema and to validate the result), and a layout
+-- describing how to render the fields. Templates are shared by everyone in
+-- a workspace (the Contentstack organization of the signed-in user), across
+-- all of its Sparks. Users without an organization get personal templates
+-- (workspace_uid null, visible only to created_by).
+
+create table public.artifact_templates (
+  id uuid primary key default gen_random_uuid(),
+  workspace_uid text,
+  name text not null,
+  description text,
+  prompt text not null,
+  output_schema jsonb not null,
+  -- Ordered render sections: [{ "field": "headline", "label": "Headline", "format": "heading" }, ...]
+  layout jsonb not null default '[]'::jsonb,
+  created_by uuid references public.users(id) on delete set null,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index idx_artifact_templates_workspace on public.artifact_templates(workspace_uid);
+create index idx_artifact_templates_created_by on public.artifact_templates(created_by);
+
+create unique index idx_artifact_templates_workspace_name
+on public.artifact_templates(workspace_uid, lower(name))
+where workspace_uid is not null;
+
+create trigger artifact_templates_updated_at
+  before update on public.artifact_templates
+  for each row execute function update_updated_at();
+
+-- ============================================
+-- Artifacts generated from a template
+-- ============================================
+-- Templated artifacts use type 'custom'; metadata.template keeps a snapshot
+-- of the schema + layout they were generated with, so editing or deleting
+-- the template never breaks existing artifacts.
+
+alter table public.generated_artifacts
+  add column template_id uuid references public.artifact_templates(id) on delete set null;
+
+create index idx_generated_artifacts_template_id
+on public.generated_artifacts(template_id)
+where template_id is not null;
@@ -0,0 +1,33 @@
+-- ============================================
+-- Generation Jobs: one row per artifact generation run
+-- ============================================
+-- /api/generate streams progress over SSE, but the run itself is tracked
+-- here so a dropped connection doesn't lose the result: the client can
+-- poll the job and pick up artifact_id once it completes. Setting status
+-- to 'cancelled' stops a running generation (the runner polls for it).
+
+create table public.generation_jobs (
+  id uuid primary key default gen_random_uuid(),
+  spark_id uuid not null references public.sparks(id) on delete cascade,
+  -- What was asked for: { type, template_id?, stack_api_key?, stack_name?, content_type_uid?, instructions? }
+  request jsonb not null default '{}'::jsonb,
+  status text not null default 'running'
+    check (status in ('running', 'completed', 'failed', 'cancelled')),
+  -- Latest human-readable progress message
+  progress text,
+  artifact_id uuid references public.generated_artifacts(id) on delete set null,
+  error text,
+  -- Validation errors when the output never matched the schema
+  error_details jsonb,
+  created_by uuid references public.users(id) on delete set null,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  finished_at timestamptz
+);
+
+create index idx_generation_jobs_spark_id on public.generation_jobs(spark_id, created_at desc);
+create index idx_generation_jobs_running on public.generation_jobs(spark_id) where status = 'running';
+
+create trigger generation_jobs_updated_at
+  before update on public.generation_jobs
+  for each row execute function update_updated_at();
@@ -0,0 +1,106 @@
+-- ============================================
+-- Jobs: Postgres-backed background work queue
+-- ============================================
+-- Embedding, Contentstack / Clarity imports and Slack tasks are enqueued
+-- here instead of running in after() callbacks or long-lived requests, so
+-- a dropped callback or connection no longer loses the work. Workers claim
+-- rows with claim_jobs() (for update skip locked), heartbeat locked_at
+-- while running, and failed attempts are re-queued with backoff until
+-- max_attempts is reached.
+
+create table public.jobs (
+  id uuid primary key default gen_random_uuid(),
+  -- Handler name, e.g. 'embed_items', 'clarity_import', 'slack_task'
+  kind text not null,
+  -- Spark the work belongs to (null for workspace-level work)
+  spark_id uuid references public.sparks(id) on delete cascade,
+  payload jsonb not null default '{}'::jsonb,
+  status text not null default 'queued'
+    check (status in ('queued', 'running', 'succeeded', 'failed', 'cancelled')),
+  attempts integer not null default 0,
+  max_attempts integer not null default 5,
+  -- Earliest time the job may be (re)tried
+  run_at timestamptz not null default now(),
+  locked_at timestamptz,
+  locked_by text,
+  -- At most one queued job per key; running jobs with the same key are
+  -- never claimed side by side
+  dedupe_key text,
+  -- Latest progress: { message, current?, total?, log? }
+  progress jsonb,
+  result jsonb,
+  last_error text,
+  created_by uuid references public.users(id) on delete set null,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  finished_at timestamptz
+);
+
+create index idx_jobs_claimable on public.jobs(run_at) where status = 'queued';
+create index idx_jobs_running on public.jobs(locked_at) where status = 'running';
+create index idx_jobs_spark_id on public.jobs(spark_id, created_at desc);
+create unique index idx_jobs_dedupe_queued on public.jobs(dedupe_key)
+  where dedupe_key is not null and status = 'queued';
+create index idx_jobs_dedupe_running on public.jobs(dedupe_key)
+  where dedupe_key is not null and status = 'running';
+
+create trigger jobs_updated_at
+  before update on public.jobs
+  for each row execute function update_updated_at();
+
+-- ============================================
+-- claim_jobs: lock up to `batch_size` due jobs for a worker
+-- ============================================
+-- Running jobs whose heartbeat is older than `lock_timeout` are treated as
+-- abandoned (the worker died): they are retried, or failed once out of
+-- attempts.
+
+create or replace function public.claim_jobs(
+  worker_id text,
+  batch_size integer default 1,
+  lock_timeout interval default interval '2 minutes'
+)
+returns setof public.jobs
+language plpgsql
+as $$
+begin
+  update public.jobs
+  set status = 'failed',
+      last_error = coalesce(last_error, 'Worker stopped responding'),
+      locked_at = null,
+      locked_by = null,
+      finished_at = now()
+  where status = 'running'
+    and locked_at < now() - lock_timeout
+    and attempts >= max_attempts;
+
+  return query
+  update public.jobs j
+  set status = 'running',
+      attempts = j.attempts + 1,
+      locked_at = now(),
+      locked_by = worker_id
+  where j.id in (
+    select c.id
+    from public.jobs c
+    where (
+        (c.status = 'queued' and c.run_at <= now())
+        or (c.status = 'running' and c.locked_at < now() - lock_timeout)
+      )
+      and (
+        c.dedupe_key is null
+        or not exists (
+          select 1 from public.jobs r
+          where r.dedupe_key = c.dedupe_key
+            and r.status = 'running'
+            and r.id <> c.id
+            and r.locked_at >= now() - lock_timeout
+        )
+      )
+    order by c.run_at
+    limit batch_size
+    for update skip locked
+  )
+  returning j.*;
+end;
+$$;
@@ -0,0 +1,123 @@
+-- Ensure pgvector types are visible without schema qualification
+set search_path to public, extensions;
+
+-- ============================================
+-- Document anchors on chunks
+-- ============================================
+--
+-- PDF, DOCX and PPTX items record where each page, slide or heading starts
+-- (spark_items.metadata.document.sections). Chunks of those items carry the
+-- anchor they fall under ("p. 12", "slides 3–4", "§ Pricing") so retrieved
+-- passages can be cited precisely. Null for everything else.
+--
+-- Re-chunk existing items with POST /api/embeddings/generate
+-- { "force": true } to fill it in.
+
+alter table public.spark_item_chunks
+  add column anchor text;
+
+-- ============================================
+-- Hybrid search: also return the matched chunk's anchor
+-- ============================================
+-- Same as 015 plus chunk_anchor. The return type changes, so drop first.
+
+drop function if exists hybrid_search_spark_items(uuid, text, vector, int, float, float, int);
+
+create or replace function hybrid_search_spark_items(
+  p_spark_id uuid,
+  query_text text,
+  query_embedding extensions.vector(1024),
+  match_count int default 10,
+  full_text_weight float default 1,
+  semantic_weight float default 1,
+  rrf_k int default 50
+)
+returns table (
+  id uuid,
+  type text,
+  title text,
+  content text,
+  summary text,
+  metadata jsonb,
+  chunk_content text,
+  chunk_anchor text,
+  similarity float,
+  full_text_rank bigint,
+  semantic_rank bigint,
+  score float
+)
+language sql stable
+set search_path = public, extensions
+as $$
+with full_text as (
+  select
+    si.id,
+    row_number() over (
+      order by ts_rank_cd(
+        to_tsvector('english', coalesce(si.title, '') || ' ' || coalesce(si.content, '') || ' ' || coalesce(si.summary, '')),
+        websearch_to_tsquery('english', query_text)
+      ) desc
+    ) as rank_ix
+  from public.spark_items si
+  where si.spark_id = p_spark_id
+    and to_tsvector('english', coalesce(si.title, '') || ' ' || coalesce(si.content, '') || ' ' || coalesce(si.summary, ''))
+    @@ websearch_to_tsquery('english', query_text)
+  limit least(match_count, 30) * 2
+),
+chunk_best as (
+  select distinct on (c.item_id)
+    c.item_id,
+    c.content as chunk_content,
+    c.anchor as chunk_anchor,
+    c.embedding <=> query_embedding as distance
+  from public.spark_item_chunks c
+  where c.spark_id = p_spark_id
+    and c.embedding is not null
+    and query_embedding is not null
+  order by c.item_id, c.embedding <=> query_embedding
+),
+semantic_candidates as (
+  select * from chunk_best
+  union all
+  select
+    si.id as item_id,
+    null::text as chunk_content,
+    null::text as chunk_anchor,
+    si.embedding <=> query_embedding as distance
+  from public.spark_items si
+  where si.spark_id = p_spark_id
+    and si.embedding is not null
+    and query_embedding is not null
+    and not exists (select 1 from public.spark_item_chunks c where c.item_id = si.id)
+),
+semantic as (
+  select
+    sc.item_id as id,
+    sc.chunk_content,
+    sc.chunk_anchor,
+    1 - sc.distance as similarity,
+    row_number() over (order by sc.distance) as rank_ix
+  from semantic_candidates sc
+  order by sc.distance
+  limit least(match_count, 30) * 2
+)
+select
+  si.id,
+  si.type,
+  si.title,
+  si.content,
+  si.summary,
+  si.metadata,
+  semantic.chunk_content,
+  semantic.chunk_anchor,
+  semantic.similarity,
+  full_text.rank_ix as full_text_rank,
+  semantic.rank_ix as semantic_rank,
+  coalesce(1.0 / (rrf_k + full_text.rank_ix), 0.0) * full_text_weight +
+  coalesce(1.0 / (rrf_k + semantic.rank_ix), 0.0) * semantic_weight as score
+from full_text
+full outer join semantic on full_text.id = semantic.id
+join public.spark_items si on coalesce(full_text.id, semantic.id) = si.id
+order by score desc
+limit match_count;
+$$;
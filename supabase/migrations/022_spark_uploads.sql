@@ -0,0 +1,16 @@
+-- ============================================
+-- Storage bucket for direct uploads
+-- ============================================
+--
+-- Files uploaded into a Spark are stored at {spark_id}/{item_id}/{name}
+-- alongside a thumbnail.webp, and referenced from the item's metadata
+-- (storage_path, file_url, thumbnail_url).
+--
+-- The bucket is public: URLs are unguessable (they contain the item id)
+-- and must be fetchable by the embedding provider and Claude, not just the
+-- signed-in browser. Writes only happen server-side with the service role.
+-- Set UPLOADS_BUCKET if you use a different bucket name.
+
+insert into storage.buckets (id, name, public, file_size_limit)
+values ('spark-uploads', 'spark-uploads', true, 26214400)
+on conflict (id) do nothing;
@@ -0,0 +1,76 @@
+-- ============================================
+-- Chat branching: messages form a tree per session
+-- ============================================
+--
+-- Each message points at the message it follows. Editing a user message
+-- and resending adds a sibling of that message; regenerating a reply adds
+-- a sibling of the assistant message. The session remembers the leaf of
+-- the branch being viewed, and user_messages (used for the session
+-- embedding) follows that branch rather than every message ever sent.
+
+alter table public.chat_messages
+  add column parent_message_id uuid references public.chat_messages(id) on delete cascade;
+
+create index idx_chat_messages_parent on public.chat_messages(parent_message_id);
+
+alter table public.chat_sessions
+  add column active_message_id uuid references public.chat_messages(id) on delete set null;
+
+-- ============================================
+-- Backfill: existing sessions become a single linear branch
+-- ============================================
+update public.chat_messages m
+set parent_message_id = sub.prev_id
+from (
+  select
+    id,
+    lag(id) over (partition by session_id order by created_at, id) as prev_id
+  from public.chat_messages
+  where session_id is not null
+) sub
+where m.id = sub.id
+  and sub.prev_id is not null;
+
+update public.chat_sessions cs
+set active_message_id = (
+  select cm.id
+  from public.chat_messages cm
+  where cm.session_id = cs.id
+  order by cm.created_at desc, cm.id desc
+  limit 1
+);
+
+-- ============================================
+-- RPC: Switch a session to the branch ending at a message
+-- ============================================
+-- Replaces append_session_user_message: user_messages is rebuilt from the
+-- root-to-leaf path so the session embedding describes the active branch.
+
+drop function if exists append_session_user_message(uuid, text);
+
+create or replace function set_session_active_message(
+  p_session_id uuid,
+  p_message_id uuid
+)
+returns void
+language sql
+as $$
+  with recursive branch as (
+    select cm.id, cm.parent_message_id, cm.role, cm.content, 0 as depth
+    from public.chat_messages cm
+    where cm.id = p_message_id
+      and cm.session_id = p_session_id
+    union all
+    select cm.id, cm.parent_message_id, cm.role, cm.content, b.depth + 1
+    from public.chat_messages cm
+    join branch b on cm.id = b.parent_message_id
+  )
+  update public.chat_sessions
+  set
+    active_message_id = p_message_id,
+    user_messages = coalesce(
+      (select array_agg(b.content order by b.depth desc) from branch b where b.role = 'user'),
+      '{}'
+    )
+  where id = p_session_id;
+$$;
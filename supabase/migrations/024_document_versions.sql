@@ -0,0 +1,35 @@
+-- ============================================
+-- Document versions: snapshots of the Spark editor document
+-- ============================================
+-- The editor autosaves sparks.metadata.editor_content and overwrites it
+-- each time. This table keeps immutable copies: automatic snapshots taken
+-- at most every few minutes while someone is editing, named snapshots
+-- saved by hand, and a record of every restore.
+
+create table public.document_versions (
+  id uuid primary key default gen_random_uuid(),
+  spark_id uuid not null references public.sparks(id) on delete cascade,
+  version_number int not null,
+  -- Set for manual snapshots; automatic ones are unnamed
+  name text,
+  content jsonb not null,
+  source text not null check (source in ('auto', 'manual', 'restore')),
+  -- For source = 'restore': the version that was restored
+  restored_from int,
+  created_by uuid references public.users(id) on delete set null,
+  created_at timestamptz not null default now(),
+  unique (spark_id, version_number)
+);
+
+create index idx_document_versions_spark_id
+on public.document_versions(spark_id, version_number desc);
+
+-- ============================================
+-- Backfill: each existing document becomes version 1
+-- ============================================
+insert into public.document_versions (spark_id, version_number, content, source, created_at)
+select id, 1, metadata->'editor_content', 'auto', updated_at
+from public.sparks
+where metadata ? 'editor_content'
+  and jsonb_typeof(metadata->'editor_content') = 'object'
+on conflict (spark_id, version_number) do nothing;
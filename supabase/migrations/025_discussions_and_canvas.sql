@@ -0,0 +1,205 @@
+-- ============================================
+-- Discussions and canvas: their own tables instead of sparks.metadata
+-- ============================================
+-- Comment threads and the canvas used to live in sparks.metadata and were
+-- saved as one whole-object PATCH, so two people saving at once silently
+-- overwrote each other. Each thread, comment, node position and group is
+-- now a row. Every row carries a version that goes up by one on each
+-- update; writers send the version they last saw and a mismatch is
+-- rejected as a conflict instead of overwriting.
+
+create or replace function bump_row_version()
+returns trigger as $$
+begin
+  new.version = old.version + 1;
+  return new;
+end;
+$$ language plpgsql;
+
+-- ============================================
+-- Comment threads + comments
+-- ============================================
+-- Thread ids are generated by the editor: the comment mark in the document
+-- carries the id, so it must survive the move from metadata unchanged.
+
+create table public.comment_threads (
+  id uuid primary key default gen_random_uuid(),
+  spark_id uuid not null references public.sparks(id) on delete cascade,
+  -- Snapshot of the text that was selected when the thread was opened
+  selected_text text not null default '',
+  resolved boolean not null default false,
+  created_by uuid references public.users(id) on delete set null,
+  version int not null default 1,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index idx_comment_threads_spark_id on public.comment_threads(spark_id, created_at);
+
+create table public.comments (
+  id uuid primary key default gen_random_uuid(),
+  thread_id uuid not null references public.comment_threads(id) on delete cascade,
+  spark_id uuid not null references public.sparks(id) on delete cascade,
+  author_id uuid references public.users(id) on delete set null,
+  -- Kept on the row so comments from removed users still show a name
+  author_name text not null,
+  content text not null,
+  version int not null default 1,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index idx_comments_thread_id on public.comments(thread_id, created_at);
+create index idx_comments_spark_id on public.comments(spark_id);
+
+-- ============================================
+-- Canvas node positions + groups
+-- ============================================
+
+create table public.canvas_nodes (
+  item_id uuid primary key references public.spark_items(id) on delete cascade,
+  spark_id uuid not null references public.sparks(id) on delete cascade,
+  x double precision not null,
+  y double precision not null,
+  version int not null default 1,
+  updated_at timestamptz not null default now()
+);
+
+create index idx_canvas_nodes_spark_id on public.canvas_nodes(spark_id);
+
+create table public.canvas_groups (
+  id uuid primary key default gen_random_uuid(),
+  spark_id uuid not null references public.sparks(id) on delete cascade,
+  name text not null,
+  color text not null,
+  item_ids uuid[] not null default '{}',
+  -- The group's canonical chat session
+  session_id uuid references public.chat_sessions(id) on delete set null,
+  version int not null default 1,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index idx_canvas_groups_spark_id on public.canvas_groups(spark_id, created_at);
+
+-- ============================================
+-- Triggers
+-- ============================================
+
+create trigger comment_threads_updated_at
+  before update on public.comment_threads
+  for each row execute function update_updated_at();
+
+create trigger comment_threads_version
+  before update on public.comment_threads
+  for each row execute function bump_row_version();
+
+create trigger comments_updated_at
+  before update on public.comments
+  for each row execute function update_updated_at();
+
+create trigger comments_version
+  before update on public.comments
+  for each row execute function bump_row_version();
+
+create trigger canvas_nodes_updated_at
+  before update on public.canvas_nodes
+  for each row execute function update_updated_at();
+
+create trigger canvas_nodes_version
+  before update on public.canvas_nodes
+  for each row execute function bump_row_version();
+
+create trigger canvas_groups_updated_at
+  before update on public.canvas_groups
+  for each row execute function update_updated_at();
+
+create trigger canvas_groups_version
+  before update on public.canvas_groups
+  for each row execute function bump_row_version();
+
+-- ============================================
+-- Backfill from sparks.metadata
+-- ============================================
+-- Entries with ids that aren't uuids, positions for deleted items and
+-- sessions that no longer exist are dropped.
+
+insert into public.comment_threads (id, spark_id, selected_text, resolved, created_at, updated_at)
+select
+  (t->>'id')::uuid,
+  s.id,
+  coalesce(t->>'selectedText', ''),
+  coalesce((t->>'resolved')::boolean, false),
+  coalesce((t->>'createdAt')::timestamptz, s.created_at),
+  coalesce((t->>'createdAt')::timestamptz, s.created_at)
+from public.sparks s
+cross join lateral jsonb_array_elements(
+  case when jsonb_typeof(s.metadata->'discussions') = 'array' then s.metadata->'discussions' else '[]'::jsonb end
+) t
+where t->>'id' ~* '^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$'
+on conflict (id) do nothing;
+
+insert into public.comments (id, thread_id, spark_id, author_id, author_name, content, created_at, updated_at)
+select
+  case
+    when c->>'id' ~* '^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$' then (c->>'id')::uuid
+    else gen_random_uuid()
+  end,
+  ct.id,
+  s.id,
+  u.id,
+  coalesce(nullif(c->>'authorName', ''), 'Unknown'),
+  coalesce(c->>'content', ''),
+  coalesce((c->>'createdAt')::timestamptz, ct.created_at),
+  coalesce((c->>'createdAt')::timestamptz, ct.created_at)
+from public.sparks s
+cross join lateral jsonb_array_elements(
+  case when jsonb_typeof(s.metadata->'discussions') = 'array' then s.metadata->'discussions' else '[]'::jsonb end
+) t
+join public.comment_threads ct on ct.id::text = t->>'id' and ct.spark_id = s.id
+cross join lateral jsonb_array_elements(
+  case when jsonb_typeof(t->'comments') = 'array' then t->'comments' else '[]'::jsonb end
+) c
+left join public.users u on u.id::text = c->>'authorId'
+on conflict (id) do nothing;
+
+insert into public.canvas_nodes (item_id, spark_id, x, y)
+select i.id, s.id, (p->>'x')::double precision, (p->>'y')::double precision
+from public.sparks s
+cross join lateral jsonb_array_elements(
+  case when jsonb_typeof(s.metadata->'canvas'->'nodePositions') = 'array' then s.metadata->'canvas'->'nodePositions' else '[]'::jsonb end
+) p
+join public.spark_items i on i.id::text = p->>'itemId' and i.spark_id = s.id
+where jsonb_typeof(p->'x') = 'number' and jsonb_typeof(p->'y') = 'number'
+on conflict (item_id) do nothing;
+
+insert into public.canvas_groups (id, spark_id, name, color, item_ids, session_id, created_at, updated_at)
+select
+  (g->>'id')::uuid,
+  s.id,
+  coalesce(nullif(g->>'name', ''), 'Group'),
+  coalesce(nullif(g->>'color', ''), '#6c5ce7'),
+  coalesce(
+    (
+      select array_agg(i.id)
+      from jsonb_array_elements_text(
+        case when jsonb_typeof(g->'itemIds') = 'array' then g->'itemIds' else '[]'::jsonb end
+      ) member_id
+      join public.spark_items i on i.id::text = member_id and i.spark_id = s.id
+    ),
+    '{}'
+  ),
+  cs.id,
+  coalesce((g->>'createdAt')::timestamptz, s.created_at),
+  coalesce((g->>'createdAt')::timestamptz, s.created_at)
+from public.sparks s
+cross join lateral jsonb_array_elements(
+  case when jsonb_typeof(s.metadata->'canvas'->'groups') = 'array' then s.metadata->'canvas'->'groups' else '[]'::jsonb end
+) g
+left join public.chat_sessions cs on cs.id::text = g->>'sessionId' and cs.spark_id = s.id
+where g->>'id' ~* '^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$'
+on conflict (id) do nothing;
+
+update public.sparks
+set metadata = metadata - 'discussions' - 'canvas'
+where metadata ? 'discussions' or metadata ? 'canvas';
@@ -0,0 +1,33 @@
+-- ============================================
+-- Notifications: @mentions of Spark members
+-- ============================================
+-- A row per person mentioned in the editor document or in a discussion
+-- comment. Shown in the in-app inbox; users who opt in also get a Slack DM.
+
+create table public.notifications (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references public.users(id) on delete cascade,
+  spark_id uuid not null references public.sparks(id) on delete cascade,
+  kind text not null default 'mention' check (kind in ('mention')),
+  actor_id uuid references public.users(id) on delete set null,
+  actor_name text not null,
+  -- Where the mention was made; thread_id is set for comments
+  source text not null check (source in ('document', 'comment')),
+  thread_id uuid references public.comment_threads(id) on delete cascade,
+  excerpt text not null default '',
+  read_at timestamptz,
+  created_at timestamptz not null default now()
+);
+
+create index idx_notifications_user_id
+on public.notifications(user_id, created_at desc);
+
+create index idx_notifications_unread
+on public.notifications(user_id)
+where read_at is null;
+
+-- ============================================
+-- Per-user opt-in for Slack delivery of mentions
+-- ============================================
+alter table public.users
+  add column slack_notifications boolean not null default false;
@@ -0,0 +1,63 @@
+-- ============================================
+-- Slack channel sync: channels bound to a Spark
+-- ============================================
+-- New top-level messages and thread replies in a bound channel are added
+-- to the Spark as they arrive through the Events API. A backfill job
+-- brings in the channel history from sync_from onwards.
+
+create table public.slack_channel_syncs (
+  id uuid primary key default gen_random_uuid(),
+  spark_id uuid not null references public.sparks(id) on delete cascade,
+  channel_id text not null,
+  channel_name text not null,
+  -- Messages (and threads started) before this are not synced
+  sync_from timestamptz not null,
+  backfill_status text not null default 'pending'
+    check (backfill_status in ('pending', 'running', 'done', 'failed')),
+  backfill_error text,
+  backfilled_at timestamptz,
+  last_synced_at timestamptz,
+  created_by uuid references public.users(id) on delete set null,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  unique (spark_id, channel_id)
+);
+
+create index idx_slack_channel_syncs_channel_id
+on public.slack_channel_syncs(channel_id);
+
+create trigger slack_channel_syncs_updated_at
+  before update on public.slack_channel_syncs
+  for each row execute function update_updated_at();
+
+-- ============================================
+-- One slack_message item per thread
+-- ============================================
+-- Threads are upserted by channel and thread_ts, so a growing thread
+-- updates its item instead of adding another. Duplicates saved before
+-- this are kept, with their notes and links, but marked with the item
+-- they duplicate (the oldest) and left out of the index and the upsert.
+
+with ranked as (
+  select
+    id,
+    first_value(id) over thread as original_id,
+    row_number() over thread as thread_position
+  from public.spark_items
+  where type = 'slack_message'
+    and metadata->>'slack_channel_id' is not null
+    and metadata->>'slack_thread_ts' is not null
+  window thread as (
+    partition by spark_id, metadata->>'slack_channel_id', metadata->>'slack_thread_ts'
+    order by created_at, id
+  )
+)
+update public.spark_items i
+set metadata = i.metadata || jsonb_build_object('slack_duplicate_of', r.original_id)
+from ranked r
+where i.id = r.id
+  and r.thread_position > 1;
+
+create unique index idx_spark_items_slack_thread
+on public.spark_items(spark_id, (metadata->>'slack_channel_id'), (metadata->>'slack_thread_ts'))
+where type = 'slack_message' and metadata->>'slack_duplicate_of' is null;
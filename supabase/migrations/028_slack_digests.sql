@@ -0,0 +1,35 @@
+-- ============================================
+-- Slack digests: scheduled summaries of Spark activity
+-- ============================================
+-- One digest per Spark, posted daily or weekly to a Slack channel.
+-- POST /api/digests/run (called by a cron) queues a slack_digest job for
+-- every enabled digest whose next_run_at has passed and moves
+-- next_run_at on to the following slot.
+
+create table public.slack_digests (
+  id uuid primary key default gen_random_uuid(),
+  spark_id uuid not null unique references public.sparks(id) on delete cascade,
+  channel_id text not null,
+  channel_name text not null,
+  frequency text not null default 'weekly' check (frequency in ('daily', 'weekly')),
+  -- Slot the digest is sent in, in UTC; weekday is 0 (Sunday) to 6 and
+  -- only used for weekly digests
+  hour_utc integer not null default 9 check (hour_utc between 0 and 23),
+  weekday integer not null default 1 check (weekday between 0 and 6),
+  enabled boolean not null default true,
+  next_run_at timestamptz not null,
+  -- End of the period covered by the last digest; the next one starts here
+  last_sent_at timestamptz,
+  last_error text,
+  created_by uuid references public.users(id) on delete set null,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index idx_slack_digests_due
+on public.slack_digests(next_run_at)
+where enabled;
+
+create trigger slack_digests_updated_at
+  before update on public.slack_digests
+  for each row execute function update_updated_at();
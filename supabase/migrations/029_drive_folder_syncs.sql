@@ -0,0 +1,34 @@
+-- ============================================
+-- Google Drive folder sync: folders watched by a Spark
+-- ============================================
+-- Files in a watched folder are kept as google_drive items. A recurring
+-- job reads the Drive changes API from page_token, re-exports modified
+-- files and marks deleted ones.
+
+create table public.drive_folder_syncs (
+  id uuid primary key default gen_random_uuid(),
+  spark_id uuid not null references public.sparks(id) on delete cascade,
+  folder_id text not null,
+  folder_name text not null,
+  -- Encrypted Google tokens of the user who connected the folder; never returned by the API
+  sealed_tokens text not null,
+  -- Drive changes cursor; null until the first sync has listed the folder
+  page_token text,
+  status text not null default 'pending'
+    check (status in ('pending', 'syncing', 'idle', 'failed')),
+  last_error text,
+  last_synced_at timestamptz,
+  created_by uuid references public.users(id) on delete set null,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  unique (spark_id, folder_id)
+);
+
+create trigger drive_folder_syncs_updated_at
+  before update on public.drive_folder_syncs
+  for each row execute function update_updated_at();
+
+-- Changed files are matched to their items by Drive file id
+create index idx_spark_items_drive_file
+on public.spark_items(spark_id, (metadata->>'drive_file_id'))
+where type = 'google_drive';
@@ -0,0 +1,24 @@
+-- ============================================
+-- Embedding migrations: one run, claimed by one server
+-- ============================================
+-- Every server instance checks the embedding provider when it starts.
+-- The running row is claimed through locked_by/locked_at so only one
+-- instance re-embeds; the claim is refreshed after every batch and can
+-- be taken over once it goes stale (the server running it died).
+
+alter table public.embedding_migrations
+  add column locked_by text,
+  add column locked_at timestamptz;
+
+-- Close duplicate running rows left by concurrent starts, keeping the newest
+update public.embedding_migrations m
+set status = 'failed', error = 'Superseded by a newer run', completed_at = now()
+where m.status = 'running'
+  and exists (
+    select 1 from public.embedding_migrations n
+    where n.status = 'running' and n.started_at > m.started_at
+  );
+
+create unique index idx_embedding_migrations_one_running
+on public.embedding_migrations((true))
+where status = 'running';
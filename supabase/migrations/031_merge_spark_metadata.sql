@@ -0,0 +1,20 @@
+-- ============================================
+-- Spark metadata: merge changed keys in one statement
+-- ============================================
+-- Saves from different panels (editor, settings, integrations) each send
+-- only the keys they changed. Merging in the update itself, rather than
+-- reading the row and writing it back, keeps a concurrent save of another
+-- key from being lost.
+
+create or replace function merge_spark_metadata(
+  p_spark_id uuid,
+  p_changes jsonb
+)
+returns setof public.sparks
+language sql
+as $$
+  update public.sparks
+  set metadata = coalesce(metadata, '{}'::jsonb) || p_changes
+  where id = p_spark_id
+  returning *;
+$$;
@@ -0,0 +1,194 @@
+-- Ensure pgvector types are visible without schema qualification
+set search_path to public, extensions;
+
+-- ============================================
+-- Vector search within one embedding model
+-- ============================================
+--
+-- Vectors from different providers live in different spaces, and a
+-- deploy can hold both for a while (a provider change part way through
+-- its re-embed, or local fallback vectors written while an API key was
+-- missing). The search RPCs take the model the query was embedded with
+-- and only compare against rows embedded by the same model. Full-text
+-- matching is unaffected. Null compares against every row, as before.
+
+drop function if exists hybrid_search_spark_items(uuid, text, vector, int, float, float, int);
+drop function if exists match_chat_sessions(uuid, vector, float, int);
+drop function if exists match_web_research_items(uuid, vector, float, int);
+
+create or replace function hybrid_search_spark_items(
+  p_spark_id uuid,
+  query_text text,
+  query_embedding extensions.vector(1024),
+  match_count int default 10,
+  full_text_weight float default 1,
+  semantic_weight float default 1,
+  rrf_k int default 50,
+  p_embedding_model text default null
+)
+returns table (
+  id uuid,
+  type text,
+  title text,
+  content text,
+  summary text,
+  metadata jsonb,
+  chunk_content text,
+  chunk_anchor text,
+  similarity float,
+  full_text_rank bigint,
+  semantic_rank bigint,
+  score float
+)
+language sql stable
+set search_path = public, extensions
+as $$
+with full_text as (
+  select
+    si.id,
+    row_number() over (
+      order by ts_rank_cd(
+        to_tsvector('english', coalesce(si.title, '') || ' ' || coalesce(si.content, '') || ' ' || coalesce(si.summary, '')),
+        websearch_to_tsquery('english', query_text)
+      ) desc
+    ) as rank_ix
+  from public.spark_items si
+  where si.spark_id = p_spark_id
+    and to_tsvector('english', coalesce(si.title, '') || ' ' || coalesce(si.content, '') || ' ' || coalesce(si.summary, ''))
+    @@ websearch_to_tsquery('english', query_text)
+  limit least(match_count, 30) * 2
+),
+chunk_best as (
+  select distinct on (c.item_id)
+    c.item_id,
+    c.content as chunk_content,
+    c.anchor as chunk_anchor,
+    c.embedding <=> query_embedding as distance
+  from public.spark_item_chunks c
+  where c.spark_id = p_spark_id
+    and c.embedding is not null
+    and query_embedding is not null
+    and (p_embedding_model is null or c.embedding_model = p_embedding_model)
+  order by c.item_id, c.embedding <=> query_embedding
+),
+semantic_candidates as (
+  select * from chunk_best
+  union all
+  select
+    si.id as item_id,
+    null::text as chunk_content,
+    null::text as chunk_anchor,
+    si.embedding <=> query_embedding as distance
+  from public.spark_items si
+  where si.spark_id = p_spark_id
+    and si.embedding is not null
+    and query_embedding is not null
+    and (p_embedding_model is null or si.metadata->>'embedding_model' = p_embedding_model)
+    and not exists (select 1 from public.spark_item_chunks c where c.item_id = si.id)
+),
+semantic as (
+  select
+    sc.item_id as id,
+    sc.chunk_content,
+    sc.chunk_anchor,
+    1 - sc.distance as similarity,
+    row_number() over (order by sc.distance) as rank_ix
+  from semantic_candidates sc
+  order by sc.distance
+  limit least(match_count, 30) * 2
+)
+select
+  si.id,
+  si.type,
+  si.title,
+  si.content,
+  si.summary,
+  si.metadata,
+  semantic.chunk_content,
+  semantic.chunk_anchor,
+  semantic.similarity,
+  full_text.rank_ix as full_text_rank,
+  semantic.rank_ix as semantic_rank,
+  coalesce(1.0 / (rrf_k + full_text.rank_ix), 0.0) * full_text_weight +
+  coalesce(1.0 / (rrf_k + semantic.rank_ix), 0.0) * semantic_weight as score
+from full_text
+full outer join semantic on full_text.id = semantic.id
+join public.spark_items si on coalesce(full_text.id, semantic.id) = si.id
+order by score desc
+limit match_count;
+$$;
+
+create or replace function match_chat_sessions(
+  p_spark_id uuid,
+  query_embedding extensions.vector(1024),
+  match_threshold float default 0.3,
+  match_count int default 10,
+  p_embedding_model text default null
+)
+returns table (
+  id uuid,
+  spark_id uuid,
+  title text,
+  user_messages text[],
+  similarity float,
+  created_at timestamptz,
+  updated_at timestamptz
+)
+language sql stable
+set search_path = public, extensions
+as $$
+  select
+    cs.id,
+    cs.spark_id,
+    cs.title,
+    cs.user_messages,
+    1 - (cs.embedding <=> query_embedding) as similarity,
+    cs.created_at,
+    cs.updated_at
+  from public.chat_sessions cs
+  where cs.spark_id = p_spark_id
+    and cs.embedding is not null
+    and (p_embedding_model is null or cs.metadata->>'embedding_model' = p_embedding_model)
+    and 1 - (cs.embedding <=> query_embedding) > match_threshold
+  order by cs.embedding <=> query_embedding
+  limit match_count;
+$$;
+
+create or replace function match_web_research_items(
+  p_spark_id uuid,
+  query_embedding extensions.vector(1024),
+  match_threshold float default 0.25,
+  match_count int default 5,
+  p_embedding_model text default null
+)
+returns table (
+  id uuid,
+  title text,
+  query text,
+  content text,
+  summary text,
+  sources jsonb,
+  metadata jsonb,
+  similarity float
+)
+language sql stable
+set search_path = public, extensions
+as $$
+  select
+    wri.id,
+    wri.title,
+    wri.query,
+    wri.content,
+    wri.summary,
+    wri.sources,
+    wri.metadata,
+    1 - (wri.embedding <=> query_embedding) as similarity
+  from public.web_research_items wri
+  inner join public.spark_web_research swr on swr.web_research_item_id = wri.id
+  where swr.spark_id = p_spark_id
+    and wri.embedding is not null
+    and (p_embedding_model is null or wri.metadata->>'embedding_model' = p_embedding_model)
+    and 1 - (wri.embedding <=> query_embedding) > match_threshold
+  order by wri.embedding <=> query_embedding
+  limit match_count;
+$$;